@@ -4,22 +4,49 @@ import { SequelizeModule } from '@nestjs/sequelize';
 import { CommonModule } from './common/common.module';
 import { CoreModule } from './core/core.module';
 import { AccessControlModule } from './modules/access-control/access-control.module';
+import { AuditModule } from './modules/audit/audit.module';
+import { AuditChainHead } from './modules/audit/entities/audit-chain-head.entity';
+import { AuditRecord } from './modules/audit/entities/audit-record.entity';
 import { AuthModule } from './modules/auth/auth.module';
+import { Invitation } from './modules/auth/entities/invitation.entity';
+import { LocalIdentity } from './modules/auth/entities/local-identity.entity';
+import { UserImportJob } from './modules/auth/entities/user-import-job.entity';
+import { UserImportRow } from './modules/auth/entities/user-import-row.entity';
 import { User } from './modules/auth/entities/user.entity';
+import { CompanyMembershipModule } from './modules/company-membership/company-membership.module';
+import { CompanyMembership } from './modules/company-membership/entities/company-membership.entity';
 import { CompanyModule } from './modules/company/company.module';
 import { CompanyAuditLog } from './modules/company/entities/company-audit-log.entity';
 import { Company } from './modules/company/entities/company.entity';
 import { ConfigsModule } from './modules/config/config.module';
 import { HealthModule } from './modules/health/health.module';
+import { ImpersonationSession } from './modules/impersonation/entities/impersonation-session.entity';
+import { ImpersonationModule } from './modules/impersonation/impersonation.module';
+import { LawyerCredential } from './modules/lawyer-credential/entities/lawyer-credential.entity';
+import { LawyerCredentialModule } from './modules/lawyer-credential/lawyer-credential.module';
+import { LoginAnomaly } from './modules/login-security/entities/login-anomaly.entity';
+import { UserSession } from './modules/login-security/entities/user-session.entity';
+import { LoginSecurityModule } from './modules/login-security/login-security.module';
+import { PrincipalCacheModule } from './modules/principal-cache/principal-cache.module';
 import { Permission } from './modules/role/entities/permission.entity';
+import { RoleAssignment } from './modules/role/entities/role-assignment.entity';
+import { RoleChange } from './modules/role/entities/role-change.entity';
 import { RolePermission } from './modules/role/entities/role-permission.entity';
 import { Role } from './modules/role/entities/role.entity';
 import { UserPermission } from './modules/role/entities/user-permission.entity';
 import { UserRole } from './modules/role/entities/user-role.entity';
 import { RoleModule } from './modules/role/role.module';
+import { ScimModule } from './modules/scim/scim.module';
+import { ApiKey } from './modules/service-account/entities/api-key.entity';
+import { ServiceAccountPermission } from './modules/service-account/entities/service-account-permission.entity';
+import { ServiceAccount } from './modules/service-account/entities/service-account.entity';
+import { ServiceAccountModule } from './modules/service-account/service-account.module';
+import { TeamAuditLog } from './modules/team/entities/team-audit-log.entity';
 import { TeamMember } from './modules/team/entities/team-member.entity';
 import { Team } from './modules/team/entities/team.entity';
 import { TeamModule } from './modules/team/team.module';
+import { RevokedToken } from './modules/token-revocation/entities/revoked-token.entity';
+import { TokenRevocationModule } from './modules/token-revocation/token-revocation.module';
 import { ChatModule } from './modules/chat/chat.module';
 
 @Module({
@@ -74,15 +101,33 @@ import { ChatModule } from './modules/chat/chat.module';
           database: config.database,
           models: [
             User,
+            Invitation,
+            LocalIdentity,
+            UserImportJob,
+            UserImportRow,
             Company,
             CompanyAuditLog,
+            CompanyMembership,
             Team,
             TeamMember,
+            TeamAuditLog,
             Role,
             Permission,
             RolePermission,
             UserPermission,
             UserRole,
+            RoleChange,
+            RoleAssignment,
+            AuditRecord,
+            AuditChainHead,
+            ServiceAccount,
+            ServiceAccountPermission,
+            ApiKey,
+            RevokedToken,
+            ImpersonationSession,
+            LawyerCredential,
+            UserSession,
+            LoginAnomaly,
           ],
           autoLoadModels: true,
           synchronize: false,
@@ -99,10 +144,19 @@ import { ChatModule } from './modules/chat/chat.module';
     }),
     CommonModule,
     CoreModule,
+    AuditModule,
     AuthModule,
     CompanyModule,
+    CompanyMembershipModule,
     TeamModule,
     RoleModule,
+    ServiceAccountModule,
+    ScimModule,
+    TokenRevocationModule,
+    PrincipalCacheModule,
+    ImpersonationModule,
+    LoginSecurityModule,
+    LawyerCredentialModule,
     AccessControlModule,
     HealthModule,
     ConfigsModule,
@@ -9,6 +9,14 @@ export const ERROR_CODES = {
   FORBIDDEN: 'FORBIDDEN',
   UNAUTHORIZED: 'UNAUTHORIZED',
 
+  // Account status errors
+  USER_PENDING: 'USER_PENDING',
+  USER_SUSPENDED: 'USER_SUSPENDED',
+  USER_DEACTIVATED: 'USER_DEACTIVATED',
+  COMPANY_PENDING_APPROVAL: 'COMPANY_PENDING_APPROVAL',
+  COMPANY_SUSPENDED: 'COMPANY_SUSPENDED',
+  COMPANY_REJECTED: 'COMPANY_REJECTED',
+
   // Validation errors
   VALIDATION_FAILED: 'VALIDATION_FAILED',
   INVALID_INPUT: 'INVALID_INPUT',
@@ -28,6 +36,110 @@ export const ERROR_CODES = {
   // User errors
   USER_NOT_FOUND: 'USER_NOT_FOUND',
   USER_ACCESS_DENIED: 'USER_ACCESS_DENIED',
+  PROFILE_FIELD_NOT_EDITABLE: 'PROFILE_FIELD_NOT_EDITABLE',
+  EMAIL_ALREADY_IN_USE: 'EMAIL_ALREADY_IN_USE',
+  EMAIL_VERIFICATION_INVALID: 'EMAIL_VERIFICATION_INVALID',
+  EMAIL_VERIFICATION_EXPIRED: 'EMAIL_VERIFICATION_EXPIRED',
+  EMAIL_VERIFICATION_UNAVAILABLE: 'EMAIL_VERIFICATION_UNAVAILABLE',
+
+  // Invitation errors
+  INVITATION_NOT_FOUND: 'INVITATION_NOT_FOUND',
+  INVITATION_ACCESS_DENIED: 'INVITATION_ACCESS_DENIED',
+  INVITATION_NOT_PENDING: 'INVITATION_NOT_PENDING',
+  INVITATION_ALREADY_ACCEPTED: 'INVITATION_ALREADY_ACCEPTED',
+  INVITATION_REVOKED: 'INVITATION_REVOKED',
+  INVITATION_EXPIRED: 'INVITATION_EXPIRED',
+  INVITATION_EMAIL_MISMATCH: 'INVITATION_EMAIL_MISMATCH',
+  INVITATION_USER_NOT_PENDING: 'INVITATION_USER_NOT_PENDING',
+  AUTH0_SUBJECT_IN_USE: 'AUTH0_SUBJECT_IN_USE',
+
+  // Audit trail errors
+  AUDIT_INVALID_TENANT: 'AUDIT_INVALID_TENANT',
+  AUDIT_TENANT_ACCESS_DENIED: 'AUDIT_TENANT_ACCESS_DENIED',
+  AUDIT_INVALID_DATE_RANGE: 'AUDIT_INVALID_DATE_RANGE',
+  AUDIT_EXPORT_NOT_CONFIGURED: 'AUDIT_EXPORT_NOT_CONFIGURED',
+
+  // Service account and API key errors
+  API_KEY_INVALID: 'API_KEY_INVALID',
+  API_KEY_EXPIRED: 'API_KEY_EXPIRED',
+  API_KEY_ROUTE_NOT_ALLOWED: 'API_KEY_ROUTE_NOT_ALLOWED',
+  API_KEY_NOT_FOUND: 'API_KEY_NOT_FOUND',
+  API_KEY_REVOKED: 'API_KEY_REVOKED',
+  SERVICE_ACCOUNT_NOT_FOUND: 'SERVICE_ACCOUNT_NOT_FOUND',
+  SERVICE_ACCOUNT_DISABLED: 'SERVICE_ACCOUNT_DISABLED',
+  SERVICE_ACCOUNT_NAME_TAKEN: 'SERVICE_ACCOUNT_NAME_TAKEN',
+  SERVICE_ACCOUNT_UNKNOWN_PERMISSIONS: 'SERVICE_ACCOUNT_UNKNOWN_PERMISSIONS',
+  SERVICE_ACCOUNT_PERMISSIONS_NOT_HELD: 'SERVICE_ACCOUNT_PERMISSIONS_NOT_HELD',
+
+  // Token revocation errors
+  TOKEN_REVOKED: 'TOKEN_REVOKED',
+  TOKEN_NOT_REVOCABLE: 'TOKEN_NOT_REVOCABLE',
+
+  // Impersonation errors
+  IMPERSONATION_INVALID: 'IMPERSONATION_INVALID',
+  IMPERSONATION_EXPIRED: 'IMPERSONATION_EXPIRED',
+  IMPERSONATION_TARGET_NOT_ALLOWED: 'IMPERSONATION_TARGET_NOT_ALLOWED',
+  IMPERSONATION_NOT_ACTIVE: 'IMPERSONATION_NOT_ACTIVE',
+  IMPERSONATION_ACTOR_NOT_ALLOWED: 'IMPERSONATION_ACTOR_NOT_ALLOWED',
+
+  // Lawyer credential errors
+  LAWYER_CREDENTIAL_NOT_FOUND: 'LAWYER_CREDENTIAL_NOT_FOUND',
+  LAWYER_CREDENTIAL_DUPLICATE: 'LAWYER_CREDENTIAL_DUPLICATE',
+  LAWYER_CREDENTIAL_NOT_PENDING: 'LAWYER_CREDENTIAL_NOT_PENDING',
+  LAWYER_CREDENTIAL_LAPSED: 'LAWYER_CREDENTIAL_LAPSED',
+  LAWYER_CREDENTIAL_SELF_REVIEW: 'LAWYER_CREDENTIAL_SELF_REVIEW',
+
+  // Bulk user import errors
+  USER_IMPORT_FILE_REQUIRED: 'USER_IMPORT_FILE_REQUIRED',
+  USER_IMPORT_UNSUPPORTED_FILE: 'USER_IMPORT_UNSUPPORTED_FILE',
+  USER_IMPORT_UNREADABLE_FILE: 'USER_IMPORT_UNREADABLE_FILE',
+  USER_IMPORT_MISSING_COLUMNS: 'USER_IMPORT_MISSING_COLUMNS',
+  USER_IMPORT_EMPTY_FILE: 'USER_IMPORT_EMPTY_FILE',
+  USER_IMPORT_TOO_MANY_ROWS: 'USER_IMPORT_TOO_MANY_ROWS',
+  USER_IMPORT_INVALID_ROWS: 'USER_IMPORT_INVALID_ROWS',
+  USER_IMPORT_NO_COMPANY: 'USER_IMPORT_NO_COMPANY',
+  USER_IMPORT_JOB_NOT_FOUND: 'USER_IMPORT_JOB_NOT_FOUND',
+
+  // Company membership errors
+  COMPANY_MEMBERSHIP_REQUIRED: 'COMPANY_MEMBERSHIP_REQUIRED',
+  COMPANY_MEMBERSHIP_EXISTS: 'COMPANY_MEMBERSHIP_EXISTS',
+  COMPANY_MEMBERSHIP_NOT_FOUND: 'COMPANY_MEMBERSHIP_NOT_FOUND',
+  COMPANY_MEMBERSHIP_ROLE_NOT_ALLOWED: 'COMPANY_MEMBERSHIP_ROLE_NOT_ALLOWED',
+
+  // User erasure (GDPR) errors
+  USER_ALREADY_ERASED: 'USER_ALREADY_ERASED',
+  USER_ERASURE_CONFIRMATION_MISMATCH: 'USER_ERASURE_CONFIRMATION_MISMATCH',
+  USER_ERASURE_COMPANY_CONTACT: 'USER_ERASURE_COMPANY_CONTACT',
+
+  // SCIM provisioning errors
+  SCIM_UNAUTHORIZED: 'SCIM_UNAUTHORIZED',
+  SCIM_RESOURCE_NOT_FOUND: 'SCIM_RESOURCE_NOT_FOUND',
+  SCIM_INVALID_FILTER: 'SCIM_INVALID_FILTER',
+  SCIM_INVALID_VALUE: 'SCIM_INVALID_VALUE',
+  SCIM_INVALID_PATH: 'SCIM_INVALID_PATH',
+  SCIM_UNIQUENESS: 'SCIM_UNIQUENESS',
+  SCIM_MUTABILITY: 'SCIM_MUTABILITY',
+
+  // Login security errors
+  REAUTHENTICATION_REQUIRED: 'REAUTHENTICATION_REQUIRED',
+  LOGIN_ANOMALY_NOT_FOUND: 'LOGIN_ANOMALY_NOT_FOUND',
+  LOGIN_ANOMALY_ALREADY_RESOLVED: 'LOGIN_ANOMALY_ALREADY_RESOLVED',
+
+  // Role assignment errors
+  ROLE_NOT_FOUND: 'ROLE_NOT_FOUND',
+  ROLE_ASSIGNMENT_INVALID_PERIOD: 'ROLE_ASSIGNMENT_INVALID_PERIOD',
+  ROLE_ASSIGNMENT_OVERLAP: 'ROLE_ASSIGNMENT_OVERLAP',
+  ROLE_HIERARCHY_CYCLE: 'ROLE_HIERARCHY_CYCLE',
+
+  // Direct permission grant errors
+  PERMISSION_NOT_FOUND: 'PERMISSION_NOT_FOUND',
+  PERMISSION_GRANT_NOT_FOUND: 'PERMISSION_GRANT_NOT_FOUND',
+  PERMISSION_GRANT_INVALID_EXPIRY: 'PERMISSION_GRANT_INVALID_EXPIRY',
+  PERMISSION_GRANT_NOT_HELD: 'PERMISSION_GRANT_NOT_HELD',
+
+  // Policy errors
+  POLICY_DENIED: 'POLICY_DENIED',
+  POLICY_RESOURCE_NOT_FOUND: 'POLICY_RESOURCE_NOT_FOUND',
 } as const;
 
 /**
@@ -0,0 +1,42 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { Request } from 'express';
+import { ImpersonationContext } from '../../modules/impersonation/impersonation.service';
+
+/**
+ * Client metadata recorded alongside audit entries
+ */
+export interface AuditRequestContext {
+  ipAddress?: string;
+  userAgent?: string;
+  /** Real actor when the request is made while impersonating the current user */
+  impersonatedBy?: string;
+}
+
+/**
+ * Custom parameter decorator to extract the client IP address and user agent
+ * from the request so services can persist them with audit entries.
+ *
+ * @example
+ * ```typescript
+ * @Patch(':companyId/approve')
+ * async approve(
+ *   @Param('companyId') companyId: string,
+ *   @AuditContext() auditContext: AuditRequestContext,
+ * ) {
+ *   return this.companyService.approveVendor(companyId, adminId, reason, auditContext);
+ * }
+ * ```
+ */
+export const AuditContext = createParamDecorator(
+  (_data: unknown, ctx: ExecutionContext): AuditRequestContext => {
+    const request = ctx
+      .switchToHttp()
+      .getRequest<Request & { impersonation?: ImpersonationContext }>();
+
+    return {
+      ipAddress: request.ip,
+      userAgent: request.headers['user-agent'],
+      impersonatedBy: request.impersonation?.actor.id,
+    };
+  }
+);
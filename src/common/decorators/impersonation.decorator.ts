@@ -0,0 +1,16 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { Request } from 'express';
+import { ImpersonationContext } from '../../modules/impersonation/impersonation.service';
+
+/**
+ * Extracts the impersonation context attached by JwtAuthGuard, or undefined when the
+ * request is not impersonated. The real actor is impersonation.actor.
+ */
+export const Impersonation = createParamDecorator(
+  (_data: unknown, ctx: ExecutionContext): ImpersonationContext | undefined => {
+    const request = ctx
+      .switchToHttp()
+      .getRequest<Request & { impersonation?: ImpersonationContext }>();
+    return request.impersonation;
+  }
+);
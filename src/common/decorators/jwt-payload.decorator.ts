@@ -0,0 +1,13 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { Request } from 'express';
+import { JwtPayload } from '../../modules/auth/jwt-payload.interface';
+
+/**
+ * Extracts the validated JWT payload attached to the request by JwtAuthGuard
+ */
+export const CurrentJwtPayload = createParamDecorator(
+  (_data: unknown, ctx: ExecutionContext): JwtPayload | undefined => {
+    const request = ctx.switchToHttp().getRequest<Request & { userDecoded?: JwtPayload }>();
+    return request.userDecoded;
+  }
+);
@@ -0,0 +1,9 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const RAW_RESPONSE_KEY = 'rawResponse';
+
+/**
+ * Sends the handler's return value as is, outside the standard response envelope.
+ * For protocols with their own response format, such as SCIM.
+ */
+export const RawResponse = () => SetMetadata(RAW_RESPONSE_KEY, true);
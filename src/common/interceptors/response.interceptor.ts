@@ -3,6 +3,7 @@ import { Reflector } from '@nestjs/core';
 import { Observable } from 'rxjs';
 import { map } from 'rxjs/operators';
 import { ApiResponseDto } from '../dto/api-response.dto';
+import { RAW_RESPONSE_KEY } from '../decorators/raw-response.decorator';
 import { RESPONSE_CODE_KEY, RESPONSE_MESSAGE_KEY } from '../decorators/response-message.decorator';
 
 @Injectable()
@@ -10,6 +11,14 @@ export class ResponseInterceptor<T> implements NestInterceptor<T, ApiResponseDto
   constructor(private reflector: Reflector) {}
 
   intercept(context: ExecutionContext, next: CallHandler): Observable<ApiResponseDto<T>> {
+    const rawResponse = this.reflector.getAllAndOverride<boolean>(RAW_RESPONSE_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    if (rawResponse) {
+      return next.handle() as Observable<ApiResponseDto<T>>;
+    }
+
     const customMessage = this.reflector.get<string>(RESPONSE_MESSAGE_KEY, context.getHandler());
     const customCode = this.reflector.get<string>(RESPONSE_CODE_KEY, context.getHandler());
 
@@ -13,6 +13,7 @@ import { CompanyAdminGuard } from './guards/company-admin.guard';
 import { BypassableGuard } from './guards/bypassable.guard';
 import { SuperAdminBypassGuard } from './guards/super-admin-bypass.guard';
 import { PermissionsGuard } from './guards/permissions.guard';
+import { PolicyGuard } from './guards/policy.guard';
 // Team validation guards
 import {
   ValidateTeamFromCompanyGuard,
@@ -40,6 +41,7 @@ import {
     BypassableGuard,
     SuperAdminBypassGuard,
     PermissionsGuard,
+    PolicyGuard,
     // Team validation guards
     ValidateTeamFromCompanyGuard,
     ValidateUserPartOfTeamGuard,
@@ -63,6 +65,7 @@ import {
     BypassableGuard,
     SuperAdminBypassGuard,
     PermissionsGuard,
+    PolicyGuard,
     // Team validation guards
     ValidateTeamFromCompanyGuard,
     ValidateUserPartOfTeamGuard,
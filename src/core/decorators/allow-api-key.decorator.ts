@@ -0,0 +1,11 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const ALLOW_API_KEY_KEY = 'allowApiKey';
+
+/**
+ * Accepts requests authenticated with an X-Api-Key header on the route, provided the
+ * service account holds the required permissions. The service account is attached as
+ * request.user, so only mark handlers that do not use request.user as a User (no role
+ * checks, no user IDs written to created_by or performed_by).
+ */
+export const AllowApiKey = () => SetMetadata(ALLOW_API_KEY_KEY, true);
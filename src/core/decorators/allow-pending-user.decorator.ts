@@ -0,0 +1,9 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const ALLOW_PENDING_USER_KEY = 'allowPendingUser';
+
+/**
+ * Lets users whose status is restricted (PENDING by default) reach the route,
+ * e.g. GET /users/me. All other routes reject them with USER_PENDING.
+ */
+export const AllowPendingUser = () => SetMetadata(ALLOW_PENDING_USER_KEY, true);
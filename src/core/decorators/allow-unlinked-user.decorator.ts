@@ -0,0 +1,9 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const ALLOW_UNLINKED_USER_KEY = 'allowUnlinkedUser';
+
+/**
+ * Accepts a valid JWT whose subject is not linked to a local user yet
+ * (e.g. an invitee accepting an invitation). request.user is null in that case.
+ */
+export const AllowUnlinkedUser = () => SetMetadata(ALLOW_UNLINKED_USER_KEY, true);
@@ -1,2 +1,6 @@
+export * from './allow-api-key.decorator';
+export * from './allow-pending-user.decorator';
+export * from './allow-unlinked-user.decorator';
 export * from './public.decorator';
 export * from './require-permissions.decorator';
+export * from './require-policy.decorator';
@@ -1,4 +1,5 @@
 import { SetMetadata } from '@nestjs/common';
+import { isValidPermissionName } from '../../modules/role/permission-names';
 
 /**
  * Metadata key for storing required permissions in route handlers
@@ -20,24 +21,24 @@ export const REQUIRE_PERMISSIONS_KEY = 'require_permissions';
  * @example
  * ```typescript
  * // Method level usage
- * @RequirePermissions('users.read', 'users.write')
+ * @RequirePermissions('users:read', 'users:write')
  * @Get()
  * async getUsers() {
- *   // Only users with both 'users.read' AND 'users.write' permissions can access
+ *   // Only users with both 'users:read' AND 'users:write' permissions can access
  * }
  *
  * // Class level usage
- * @RequirePermissions('admin.access')
+ * @RequirePermissions('admin:access')
  * @Controller('admin')
  * export class AdminController {
- *   // All routes in this controller require 'admin.access' permission
+ *   // All routes in this controller require 'admin:access' permission
  * }
  *
  * // Single permission
- * @RequirePermissions('teams.create')
+ * @RequirePermissions('teams:create')
  * @Post('teams')
  * async createTeam() {
- *   // Only users with 'teams.create' permission can access
+ *   // Only users with 'teams:create' permission can access
  * }
  * ```
  *
@@ -45,11 +46,18 @@ export const REQUIRE_PERMISSIONS_KEY = 'require_permissions';
  * - Multiple permissions are combined with AND logic (user must have ALL permissions)
  * - Permissions are validated against the user's effective permissions from the PermissionsService
  * - The decorator works in conjunction with permission guards that implement the actual authorization logic
- * - Permission names should follow the format: 'resource.action' (e.g., 'users.read', 'teams.delete')
+ * - Permission names should follow the format: 'resource:action' (e.g., 'users:read', 'teams:delete')
+ * - A user's wildcard grant such as 'teams:*' or 'users:invite:*' satisfies every permission below it
+ * - Malformed names throw when the decorator is applied, so typos fail at startup
  *
  * @see PermissionsService.getEffectivePermissionsForUser() for permission resolution
  * @see REQUIRE_PERMISSIONS_KEY for the metadata key used by guards
  */
 export const RequirePermissions = (...permissions: string[]) => {
+  const malformed = permissions.filter((permission) => !isValidPermissionName(permission));
+  if (malformed.length > 0) {
+    throw new Error(`Malformed permission names in @RequirePermissions: ${malformed.join(', ')}`);
+  }
+
   return SetMetadata(REQUIRE_PERMISSIONS_KEY, permissions);
 };
@@ -0,0 +1,65 @@
+import { SetMetadata } from '@nestjs/common';
+import { isValidPermissionName } from '../../modules/role/permission-names';
+
+/**
+ * Metadata key for storing the policy requirement of a route handler
+ */
+export const REQUIRE_POLICY_KEY = 'require_policy';
+
+/**
+ * Resources PolicyGuard can load for a policy check
+ */
+export enum PolicyResourceType {
+  TEAM = 'team',
+  COMPANY = 'company',
+  USER = 'user',
+}
+
+export interface PolicyRequirement {
+  permission: string;
+  resource: PolicyResourceType;
+  param: string;
+}
+
+/**
+ * Decorator to require a permission on the resource a route works on
+ *
+ * PolicyGuard loads the resource by the id in the given route parameter and checks the
+ * permission against it: the permission must be granted and the policy conditions of the
+ * deciding RolePermission or UserPermission must hold. Conditions refer to the acting user
+ * (subject), the loaded resource and the request environment (env.now, env.hour, env.ip).
+ *
+ * @param permission - Permission name the user must hold
+ * @param resource - Kind of resource to load
+ * @param param - Route parameter holding the resource id (defaults to 'id')
+ *
+ * @example
+ * ```typescript
+ * // A role permission with the condition resource.owner_user_id == subject.id
+ * // only lets team owners rename their own teams
+ * @RequirePolicy('teams:update:own', PolicyResourceType.TEAM, 'teamId')
+ * @UseGuards(JwtAuthGuard, SuperAdminBypassGuard, PolicyGuard)
+ * @Put(':teamId')
+ * async updateTeam() {}
+ * ```
+ *
+ * @remarks
+ * - Conditions are data: change them on RolePermissions or direct grants instead of adding guards
+ * - Super admins bypass the check when SuperAdminBypassGuard runs first
+ * - The loaded resource is attached to the request as request.policyResource
+ */
+export const RequirePolicy = (
+  permission: string,
+  resource: PolicyResourceType,
+  param: string = 'id'
+) => {
+  if (!isValidPermissionName(permission)) {
+    throw new Error(`Malformed permission name in @RequirePolicy: ${permission}`);
+  }
+
+  return SetMetadata<string, PolicyRequirement>(REQUIRE_POLICY_KEY, {
+    permission,
+    resource,
+    param,
+  });
+};
@@ -195,6 +195,28 @@ describe('BypassableGuard', () => {
     });
   });
 
+  describe('Super Admin Bypass - Company Membership', () => {
+    it('should delegate to permissions guard for a super admin acting in a membership company', async () => {
+      const memberUser = TestDataFactory.createMockUser({
+        role: UserRole.CLIENT,
+        id: 'home-super-admin',
+        company_id: 'membership-company-321',
+        activeMembership: { company_id: 'membership-company-321', role_id: 'client-role' },
+      });
+      const request = TestDataFactory.createMockRequest(memberUser);
+      const context = TestDataFactory.createMockExecutionContext(request);
+
+      permissionsService.isSuperAdmin.mockResolvedValue(true);
+      mockPermissionsGuard.canActivate.mockResolvedValue(false);
+
+      const result = await guard.canActivate(context);
+
+      expect(result).toBe(false);
+      expect(permissionsGuard.canActivate).toHaveBeenCalledWith(context);
+      expect(permissionsService.isSuperAdmin).not.toHaveBeenCalled();
+    });
+  });
+
   describe('Fallback Behavior', () => {
     it('should fallback to permissions guard on super admin check error', async () => {
       const regularUser = TestDataFactory.createMockUser({
@@ -41,6 +41,11 @@ export class BypassableGuard implements CanActivate {
       return this.permissionsGuard.canActivate(context);
     }
 
+    // Acting in a membership company: the membership role applies, and those never bypass
+    if (user.activeMembership) {
+      return this.permissionsGuard.canActivate(context);
+    }
+
     try {
       // Check if user is a super admin using the new role-based system
       const isSuperAdmin = await this.permissionsService.isSuperAdmin(user.id, user.company_id);
@@ -2,6 +2,7 @@
 export { JwtAuthGuard } from './jwt-auth.guard';
 export { RolesGuard, Roles, ROLES_KEY } from './roles.guard';
 export { PermissionsGuard, RequirePermissions, REQUIRE_PERMISSIONS_KEY } from './permissions.guard';
+export { PolicyGuard } from './policy.guard';
 
 // Utility Guards
 export { ClientVersionGuard } from './client-version.guard';
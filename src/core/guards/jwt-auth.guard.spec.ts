@@ -0,0 +1,467 @@
+import { ExecutionContext, ForbiddenException, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Reflector } from '@nestjs/core';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ERROR_CODES } from '../../common/constants/error-codes';
+import { UserStatus } from '../../modules/auth/entities/user.entity';
+import { CompanyMembershipService } from '../../modules/company-membership/company-membership.service';
+import { CompanyStatus } from '../../modules/company/entities/company.entity';
+import { ImpersonationService } from '../../modules/impersonation/impersonation.service';
+import { LoginSecurityService } from '../../modules/login-security/login-security.service';
+import { PrincipalCacheService } from '../../modules/principal-cache/principal-cache.service';
+import { ServiceAccountService } from '../../modules/service-account/service-account.service';
+import { TokenRevocationService } from '../../modules/token-revocation/token-revocation.service';
+import { CompanyController } from '../../modules/company/company.controller';
+import { TeamController } from '../../modules/team/team.controller';
+import { ALLOW_API_KEY_KEY } from '../decorators/allow-api-key.decorator';
+import { ALLOW_PENDING_USER_KEY } from '../decorators/allow-pending-user.decorator';
+import { REQUIRE_PERMISSIONS_KEY } from '../decorators/require-permissions.decorator';
+import { JwtAuthGuard } from './jwt-auth.guard';
+
+describe('JwtAuthGuard', () => {
+  let guard: JwtAuthGuard;
+  let principalCacheService: { findBySub: jest.Mock };
+  let reflector: { getAllAndOverride: jest.Mock; get: jest.Mock };
+  let serviceAccountService: { authenticate: jest.Mock };
+  let tokenRevocationService: { isRevoked: jest.Mock };
+  let impersonationService: { resolve: jest.Mock; recordRequest: jest.Mock };
+  let companyMembershipService: { findActiveMembership: jest.Mock };
+  let loginSecurityService: { recordRequest: jest.Mock; recordAuthFailure: jest.Mock };
+  let config: Record<string, string>;
+  let request: any;
+  let response: { setHeader: jest.Mock };
+
+  const buildUser = (status: UserStatus, companyStatus?: CompanyStatus) => ({
+    id: 'user-123',
+    status,
+    company: companyStatus ? { id: 'company-456', status: companyStatus } : null,
+  });
+
+  const createContext = (): ExecutionContext =>
+    ({
+      switchToHttp: () => ({ getRequest: () => request, getResponse: () => response }),
+      getHandler: jest.fn(),
+      getClass: jest.fn(),
+    }) as unknown as ExecutionContext;
+
+  const createGuard = async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        JwtAuthGuard,
+        { provide: Reflector, useValue: reflector },
+        { provide: PrincipalCacheService, useValue: principalCacheService },
+        { provide: ServiceAccountService, useValue: serviceAccountService },
+        { provide: TokenRevocationService, useValue: tokenRevocationService },
+        { provide: ImpersonationService, useValue: impersonationService },
+        { provide: CompanyMembershipService, useValue: companyMembershipService },
+        { provide: LoginSecurityService, useValue: loginSecurityService },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string) => config[key]) },
+        },
+      ],
+    }).compile();
+
+    return module.get<JwtAuthGuard>(JwtAuthGuard);
+  };
+
+  const expectRejection = async (code: string) => {
+    const error = await guard.canActivate(createContext()).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(ForbiddenException);
+    expect((error as ForbiddenException).getResponse()).toEqual(
+      expect.objectContaining({ success: false, code })
+    );
+  };
+
+  beforeEach(async () => {
+    jest
+      .spyOn(Object.getPrototypeOf(JwtAuthGuard.prototype), 'canActivate')
+      .mockResolvedValue(true);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    principalCacheService = { findBySub: jest.fn() };
+    reflector = { getAllAndOverride: jest.fn().mockReturnValue(false), get: jest.fn() };
+    serviceAccountService = { authenticate: jest.fn() };
+    tokenRevocationService = { isRevoked: jest.fn().mockResolvedValue(false) };
+    impersonationService = { resolve: jest.fn(), recordRequest: jest.fn() };
+    companyMembershipService = { findActiveMembership: jest.fn() };
+    loginSecurityService = {
+      recordRequest: jest.fn().mockResolvedValue({ requiresReauthentication: false }),
+      recordAuthFailure: jest.fn(),
+    };
+    response = { setHeader: jest.fn() };
+    config = {};
+    request = { user: { sub: 'auth0|123' } };
+
+    guard = await createGuard();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should attach an active user of an active company', async () => {
+    const user = buildUser(UserStatus.ACTIVE, CompanyStatus.ACTIVE);
+    principalCacheService.findBySub.mockResolvedValue(user);
+
+    await expect(guard.canActivate(createContext())).resolves.toBe(true);
+    expect(request.user).toBe(user);
+    expect(request.userDecoded).toEqual({ sub: 'auth0|123' });
+  });
+
+  it('should reject an unknown subject', async () => {
+    principalCacheService.findBySub.mockResolvedValue(null);
+
+    await expect(guard.canActivate(createContext())).rejects.toThrow(UnauthorizedException);
+  });
+
+  it.each([
+    [UserStatus.SUSPENDED, ERROR_CODES.USER_SUSPENDED],
+    [UserStatus.DEACTIVATED, ERROR_CODES.USER_DEACTIVATED],
+  ])('should reject %s users', async (status, code) => {
+    principalCacheService.findBySub.mockResolvedValue(buildUser(status, CompanyStatus.ACTIVE));
+
+    await expectRejection(code);
+  });
+
+  it('should reject pending users on routes that are not allowlisted', async () => {
+    principalCacheService.findBySub.mockResolvedValue(
+      buildUser(UserStatus.PENDING, CompanyStatus.ACTIVE)
+    );
+
+    await expectRejection(ERROR_CODES.USER_PENDING);
+  });
+
+  it('should let pending users reach allowlisted routes', async () => {
+    principalCacheService.findBySub.mockResolvedValue(
+      buildUser(UserStatus.PENDING, CompanyStatus.ACTIVE)
+    );
+    reflector.getAllAndOverride.mockImplementation((key: string) => key === ALLOW_PENDING_USER_KEY);
+
+    await expect(guard.canActivate(createContext())).resolves.toBe(true);
+  });
+
+  it.each([
+    [CompanyStatus.SUSPENDED, ERROR_CODES.COMPANY_SUSPENDED],
+    [CompanyStatus.REJECTED, ERROR_CODES.COMPANY_REJECTED],
+  ])('should reject users of %s companies', async (status, code) => {
+    principalCacheService.findBySub.mockResolvedValue(buildUser(UserStatus.ACTIVE, status));
+
+    await expectRejection(code);
+  });
+
+  it('should reload the company status on every request', async () => {
+    principalCacheService.findBySub
+      .mockResolvedValueOnce(buildUser(UserStatus.ACTIVE, CompanyStatus.ACTIVE))
+      .mockResolvedValueOnce(buildUser(UserStatus.ACTIVE, CompanyStatus.SUSPENDED));
+
+    await expect(guard.canActivate(createContext())).resolves.toBe(true);
+    await expectRejection(ERROR_CODES.COMPANY_SUSPENDED);
+  });
+
+  it('should apply the configured policy', async () => {
+    config = {
+      AUTH_BLOCKED_USER_STATUSES: 'deactivated',
+      AUTH_RESTRICTED_USER_STATUSES: '',
+      AUTH_BLOCKED_COMPANY_STATUSES: 'PENDING_APPROVAL',
+    };
+    guard = await createGuard();
+
+    principalCacheService.findBySub.mockResolvedValue(
+      buildUser(UserStatus.SUSPENDED, CompanyStatus.SUSPENDED)
+    );
+    await expect(guard.canActivate(createContext())).resolves.toBe(true);
+
+    principalCacheService.findBySub.mockResolvedValue(
+      buildUser(UserStatus.PENDING, CompanyStatus.ACTIVE)
+    );
+    await expect(guard.canActivate(createContext())).resolves.toBe(true);
+
+    principalCacheService.findBySub.mockResolvedValue(
+      buildUser(UserStatus.ACTIVE, CompanyStatus.PENDING_APPROVAL)
+    );
+    await expectRejection(ERROR_CODES.COMPANY_PENDING_APPROVAL);
+  });
+
+  it('should reject revoked tokens', async () => {
+    const user = buildUser(UserStatus.ACTIVE, CompanyStatus.ACTIVE);
+    principalCacheService.findBySub.mockResolvedValue(user);
+    tokenRevocationService.isRevoked.mockResolvedValue(true);
+
+    const error = await guard.canActivate(createContext()).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(UnauthorizedException);
+    expect((error as UnauthorizedException).getResponse()).toEqual(
+      expect.objectContaining({ code: ERROR_CODES.TOKEN_REVOKED })
+    );
+    expect(tokenRevocationService.isRevoked).toHaveBeenCalledWith({ sub: 'auth0|123' }, user);
+  });
+
+  describe('login activity', () => {
+    it('should record the request of the authenticated user', async () => {
+      const user = buildUser(UserStatus.ACTIVE, CompanyStatus.ACTIVE);
+      principalCacheService.findBySub.mockResolvedValue(user);
+
+      await expect(guard.canActivate(createContext())).resolves.toBe(true);
+      expect(loginSecurityService.recordRequest).toHaveBeenCalledWith(user, request);
+    });
+
+    it('should reject the request when a flag requires re-authentication', async () => {
+      principalCacheService.findBySub.mockResolvedValue(
+        buildUser(UserStatus.ACTIVE, CompanyStatus.ACTIVE)
+      );
+      loginSecurityService.recordRequest.mockResolvedValue({ requiresReauthentication: true });
+
+      const error = await guard.canActivate(createContext()).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(UnauthorizedException);
+      expect((error as UnauthorizedException).getResponse()).toEqual(
+        expect.objectContaining({ code: ERROR_CODES.REAUTHENTICATION_REQUIRED })
+      );
+    });
+
+    it('should not block the request when recording fails', async () => {
+      principalCacheService.findBySub.mockResolvedValue(
+        buildUser(UserStatus.ACTIVE, CompanyStatus.ACTIVE)
+      );
+      loginSecurityService.recordRequest.mockRejectedValue(new Error('Deadlock'));
+
+      await expect(guard.canActivate(createContext())).resolves.toBe(true);
+    });
+
+    it('should count 401 responses as authentication failures', async () => {
+      principalCacheService.findBySub.mockResolvedValue(null);
+
+      await expect(guard.canActivate(createContext())).rejects.toThrow(UnauthorizedException);
+      expect(loginSecurityService.recordAuthFailure).toHaveBeenCalledWith(request);
+    });
+
+    it('should not count 403 responses as authentication failures', async () => {
+      principalCacheService.findBySub.mockResolvedValue(
+        buildUser(UserStatus.SUSPENDED, CompanyStatus.ACTIVE)
+      );
+
+      await expectRejection(ERROR_CODES.USER_SUSPENDED);
+      expect(loginSecurityService.recordAuthFailure).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('impersonation', () => {
+    const actor = buildUser(UserStatus.ACTIVE, CompanyStatus.ACTIVE);
+    const session = { id: 'session-1' };
+
+    beforeEach(() => {
+      request = {
+        user: { sub: 'auth0|123' },
+        method: 'GET',
+        originalUrl: '/teams',
+        headers: { 'x-impersonation-token': 'acme_imp_token' },
+      };
+      principalCacheService.findBySub.mockResolvedValue(actor);
+    });
+
+    it('should act as the target user and keep the real actor', async () => {
+      const targetUser = { ...buildUser(UserStatus.ACTIVE, CompanyStatus.ACTIVE), id: 'target-1' };
+      impersonationService.resolve.mockResolvedValue({ session, targetUser });
+
+      await expect(guard.canActivate(createContext())).resolves.toBe(true);
+
+      expect(impersonationService.resolve).toHaveBeenCalledWith('acme_imp_token', actor);
+      expect(request.user).toBe(targetUser);
+      expect(request.impersonation).toEqual({ actor, session });
+      expect(impersonationService.recordRequest).toHaveBeenCalledWith(
+        { actor, session },
+        targetUser,
+        'GET',
+        '/teams'
+      );
+      expect(response.setHeader).toHaveBeenCalledWith('X-Impersonating-User', 'target-1');
+    });
+
+    it('should apply the access policy to the target user', async () => {
+      impersonationService.resolve.mockResolvedValue({
+        session,
+        targetUser: { ...buildUser(UserStatus.SUSPENDED, CompanyStatus.ACTIVE), id: 'target-1' },
+      });
+
+      await expectRejection(ERROR_CODES.USER_SUSPENDED);
+      expect(impersonationService.recordRequest).not.toHaveBeenCalled();
+    });
+
+    it('should propagate invalid session errors', async () => {
+      impersonationService.resolve.mockRejectedValue(
+        new UnauthorizedException({ success: false, code: ERROR_CODES.IMPERSONATION_INVALID })
+      );
+
+      await expect(guard.canActivate(createContext())).rejects.toThrow(UnauthorizedException);
+    });
+  });
+
+  describe('active company', () => {
+    let user: { id: string; status: UserStatus; company_id: string; applyMembership: jest.Mock };
+    const membership = {
+      company_id: 'company-789',
+      company: { id: 'company-789', status: CompanyStatus.ACTIVE },
+    };
+
+    beforeEach(() => {
+      user = {
+        id: 'user-123',
+        status: UserStatus.ACTIVE,
+        company_id: 'company-456',
+        applyMembership: jest.fn(),
+      };
+      principalCacheService.findBySub.mockResolvedValue(user);
+      request = { user: { sub: 'auth0|123' }, headers: { 'x-company-id': 'company-789' } };
+    });
+
+    it('should act in the company of an active membership', async () => {
+      companyMembershipService.findActiveMembership.mockResolvedValue(membership);
+
+      await expect(guard.canActivate(createContext())).resolves.toBe(true);
+
+      expect(companyMembershipService.findActiveMembership).toHaveBeenCalledWith(
+        'user-123',
+        'company-789'
+      );
+      expect(user.applyMembership).toHaveBeenCalledWith(membership);
+    });
+
+    it('should read the active company from the token claim', async () => {
+      request = { user: { sub: 'auth0|123', 'https://acme.com/company_id': 'company-789' } };
+      companyMembershipService.findActiveMembership.mockResolvedValue(membership);
+
+      await expect(guard.canActivate(createContext())).resolves.toBe(true);
+      expect(user.applyMembership).toHaveBeenCalledWith(membership);
+    });
+
+    it('should not look up memberships for the home company', async () => {
+      request.headers['x-company-id'] = 'company-456';
+
+      await expect(guard.canActivate(createContext())).resolves.toBe(true);
+      expect(companyMembershipService.findActiveMembership).not.toHaveBeenCalled();
+    });
+
+    it('should reject a company the user is not a member of', async () => {
+      companyMembershipService.findActiveMembership.mockResolvedValue(null);
+
+      await expectRejection(ERROR_CODES.COMPANY_MEMBERSHIP_REQUIRED);
+      expect(user.applyMembership).not.toHaveBeenCalled();
+    });
+
+    it('should reject a suspended membership company', async () => {
+      companyMembershipService.findActiveMembership.mockResolvedValue({
+        ...membership,
+        company: { id: 'company-789', status: CompanyStatus.SUSPENDED },
+      });
+
+      await expectRejection(ERROR_CODES.COMPANY_SUSPENDED);
+    });
+  });
+
+  describe('API keys', () => {
+    const serviceAccount = {
+      id: 'service-account-1',
+      company_id: 'company-456',
+      company: { id: 'company-456', status: CompanyStatus.ACTIVE },
+    };
+
+    beforeEach(() => {
+      request = { headers: { 'x-api-key': 'acme_sk_1234abcd_secret' } };
+      reflector.get.mockImplementation((key: string) =>
+        key === REQUIRE_PERMISSIONS_KEY ? ['teams:read:own'] : undefined
+      );
+      reflector.getAllAndOverride.mockImplementation((key: string) => key === ALLOW_API_KEY_KEY);
+      serviceAccountService.authenticate.mockResolvedValue({
+        serviceAccount,
+        apiKey: { id: 'key-1' },
+      });
+    });
+
+    it('should attach the service account without validating a JWT', async () => {
+      const jwtValidation = jest.spyOn(
+        Object.getPrototypeOf(JwtAuthGuard.prototype),
+        'canActivate'
+      );
+
+      await expect(guard.canActivate(createContext())).resolves.toBe(true);
+
+      expect(serviceAccountService.authenticate).toHaveBeenCalledWith('acme_sk_1234abcd_secret');
+      expect(request.user).toBe(serviceAccount);
+      expect(request.serviceAccount).toBe(serviceAccount);
+      expect(jwtValidation).not.toHaveBeenCalled();
+      expect(principalCacheService.findBySub).not.toHaveBeenCalled();
+    });
+
+    it('should reject API keys on routes without permission requirements', async () => {
+      reflector.get.mockReturnValue(undefined);
+
+      await expectRejection(ERROR_CODES.API_KEY_ROUTE_NOT_ALLOWED);
+      expect(serviceAccountService.authenticate).not.toHaveBeenCalled();
+    });
+
+    it('should reject API keys on routes not marked @AllowApiKey', async () => {
+      reflector.getAllAndOverride.mockReturnValue(undefined);
+
+      await expectRejection(ERROR_CODES.API_KEY_ROUTE_NOT_ALLOWED);
+      expect(serviceAccountService.authenticate).not.toHaveBeenCalled();
+    });
+
+    describe('with the metadata of real routes', () => {
+      const routeContext = (controller: object, handler: (...args: any[]) => unknown) =>
+        ({
+          switchToHttp: () => ({ getRequest: () => request, getResponse: () => response }),
+          getHandler: () => handler,
+          getClass: () => controller,
+        }) as unknown as ExecutionContext;
+
+      beforeEach(() => {
+        const realReflector = new Reflector();
+        reflector.get.mockImplementation((key: string, target: object) =>
+          realReflector.get(key, target as any)
+        );
+        reflector.getAllAndOverride.mockImplementation((key: string, targets: any[]) =>
+          realReflector.getAllAndOverride(key, targets)
+        );
+      });
+
+      it('should reject an API key on a team route, whose handlers expect a user', async () => {
+        const error = await guard
+          .canActivate(routeContext(TeamController, TeamController.prototype.findOne))
+          .catch((e: unknown) => e);
+
+        expect(error).toBeInstanceOf(ForbiddenException);
+        expect((error as ForbiddenException).getResponse()).toEqual(
+          expect.objectContaining({ code: ERROR_CODES.API_KEY_ROUTE_NOT_ALLOWED })
+        );
+        expect(serviceAccountService.authenticate).not.toHaveBeenCalled();
+      });
+
+      it('should accept an API key on a route that opts in', async () => {
+        await expect(
+          guard.canActivate(
+            routeContext(CompanyController, CompanyController.prototype.getCompanyDetails)
+          )
+        ).resolves.toBe(true);
+        expect(request.serviceAccount).toBe(serviceAccount);
+      });
+    });
+
+    it('should reject service accounts of blocked companies', async () => {
+      serviceAccountService.authenticate.mockResolvedValue({
+        serviceAccount: { ...serviceAccount, company: { status: CompanyStatus.SUSPENDED } },
+        apiKey: { id: 'key-1' },
+      });
+
+      await expectRejection(ERROR_CODES.COMPANY_SUSPENDED);
+    });
+
+    it('should propagate invalid key errors', async () => {
+      serviceAccountService.authenticate.mockRejectedValue(
+        new UnauthorizedException({ success: false, code: ERROR_CODES.API_KEY_INVALID })
+      );
+
+      await expect(guard.canActivate(createContext())).rejects.toThrow(UnauthorizedException);
+    });
+  });
+});
@@ -1,12 +1,93 @@
-import { ExecutionContext, Injectable, UnauthorizedException } from '@nestjs/common';
+import {
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { Reflector } from '@nestjs/core';
 import { AuthGuard } from '@nestjs/passport';
-import { InjectModel } from '@nestjs/sequelize';
-import { ERROR_CODES } from '../../common/constants/error-codes';
-import { User } from '../../modules/auth/entities/user.entity';
-import { JwtPayload } from '../../modules/auth/jwt-payload.interface';
-import { Role } from '../../modules/role/entities/role.entity';
+import { Request, Response } from 'express';
+import { ERROR_CODES, ErrorCode } from '../../common/constants/error-codes';
+import { User, UserStatus } from '../../modules/auth/entities/user.entity';
+import { ACTIVE_COMPANY_CLAIM, JwtPayload } from '../../modules/auth/jwt-payload.interface';
+import { CompanyMembershipService } from '../../modules/company-membership/company-membership.service';
+import { CompanyStatus } from '../../modules/company/entities/company.entity';
+import {
+  ImpersonationContext,
+  ImpersonationService,
+} from '../../modules/impersonation/impersonation.service';
+import { LoginSecurityService } from '../../modules/login-security/login-security.service';
+import { PrincipalCacheService } from '../../modules/principal-cache/principal-cache.service';
+import { ServiceAccountService } from '../../modules/service-account/service-account.service';
+import { TokenRevocationService } from '../../modules/token-revocation/token-revocation.service';
+import { ALLOW_PENDING_USER_KEY } from '../decorators/allow-pending-user.decorator';
+import { ALLOW_UNLINKED_USER_KEY } from '../decorators/allow-unlinked-user.decorator';
+import { ALLOW_API_KEY_KEY } from '../decorators/allow-api-key.decorator';
 import { IS_PUBLIC_KEY } from '../decorators/public.decorator';
+import { REQUIRE_PERMISSIONS_KEY } from '../decorators/require-permissions.decorator';
+
+/** Header carrying the API key of a service account */
+export const API_KEY_HEADER = 'x-api-key';
+
+/** Header carrying the session token of a support impersonation */
+export const IMPERSONATION_HEADER = 'x-impersonation-token';
+
+/** Header selecting the company the request acts in, for users with company memberships */
+export const ACTIVE_COMPANY_HEADER = 'x-company-id';
+
+/** Response header that marks impersonated responses with the target user ID */
+export const IMPERSONATING_RESPONSE_HEADER = 'X-Impersonating-User';
+
+/**
+ * Account status access policy, read from the environment:
+ * - blockedUserStatuses: users with these statuses are always rejected
+ * - restrictedUserStatuses: users with these statuses only reach @AllowPendingUser routes
+ * - blockedCompanyStatuses: users of companies with these statuses are always rejected
+ */
+export interface AccessPolicy {
+  blockedUserStatuses: UserStatus[];
+  restrictedUserStatuses: UserStatus[];
+  blockedCompanyStatuses: CompanyStatus[];
+}
+
+const USER_STATUS_ERRORS: Record<UserStatus, { code: ErrorCode; message: string }> = {
+  [UserStatus.PENDING]: {
+    code: ERROR_CODES.USER_PENDING,
+    message: 'Your account is pending activation.',
+  },
+  [UserStatus.ACTIVE]: {
+    code: ERROR_CODES.FORBIDDEN,
+    message: 'Your account is not allowed to access this resource.',
+  },
+  [UserStatus.SUSPENDED]: {
+    code: ERROR_CODES.USER_SUSPENDED,
+    message: 'Your account has been suspended.',
+  },
+  [UserStatus.DEACTIVATED]: {
+    code: ERROR_CODES.USER_DEACTIVATED,
+    message: 'Your account has been deactivated.',
+  },
+};
+
+const COMPANY_STATUS_ERRORS: Record<CompanyStatus, { code: ErrorCode; message: string }> = {
+  [CompanyStatus.PENDING_APPROVAL]: {
+    code: ERROR_CODES.COMPANY_PENDING_APPROVAL,
+    message: 'Your company is pending approval.',
+  },
+  [CompanyStatus.ACTIVE]: {
+    code: ERROR_CODES.FORBIDDEN,
+    message: 'Your company is not allowed to access this resource.',
+  },
+  [CompanyStatus.SUSPENDED]: {
+    code: ERROR_CODES.COMPANY_SUSPENDED,
+    message: 'Your company has been suspended.',
+  },
+  [CompanyStatus.REJECTED]: {
+    code: ERROR_CODES.COMPANY_REJECTED,
+    message: 'Your company has been rejected.',
+  },
+};
 
 /**
  * JWT Authentication Guard
@@ -15,21 +96,83 @@ import { IS_PUBLIC_KEY } from '../decorators/public.decorator';
  * 1. Handle public routes (marked with @Public decorator)
  * 2. Validate JWT tokens using the passport JWT strategy
  * 3. Lookup and attach the user entity from the database
+ * 4. Enforce the account status access policy for the user and its company
+ * 5. Authenticate service accounts that send an X-Api-Key header instead of a token
+ * 6. Reject revoked tokens (by jti or by the user's tokens_valid_after cutoff)
+ * 7. Switch to the target user when an X-Impersonation-Token header is sent
+ * 8. Switch to the active company selected by the X-Company-Id header or company claim
+ * 9. Record the user's device and flag suspicious logins (see LoginSecurityService)
+ *
+ * The user and company are read through PrincipalCacheService, which drops a user as
+ * soon as it, its company or its role is written, so a suspension or revocation still
+ * takes effect on the user's next request.
  *
  * The underlying JWT validation (signature, expiration, audience, issuer)
  * is handled by the JwtStrategy using Auth0's JWKS endpoint.
+ *
+ * API keys are only accepted on routes marked @AllowApiKey that declare
+ * @RequirePermissions. The service account is attached as request.user and
+ * request.serviceAccount, so PermissionsGuard checks its explicit permissions.
+ *
+ * While impersonating, request.user is the target user (so @CurrentUser() and all
+ * permission checks see the app as they do) and request.impersonation keeps the real
+ * actor. Each impersonated request is written to the audit trail.
+ *
+ * When the active company is not the user's home company, request.user carries the
+ * company_id and role of their membership there (see User.applyMembership), so tenant
+ * checks and permission lookups act in that company. The header wins over the claim;
+ * the claim is ignored while impersonating, since it belongs to the actor's token.
+ *
+ * Login activity is recorded for the authenticated user (the actor while impersonating).
+ * Every 401 counts towards the failure burst of the client IP. Recording errors never
+ * block a request, but a flag that requires re-authentication rejects it.
  */
 @Injectable()
 export class JwtAuthGuard extends AuthGuard('jwt') {
+  private readonly accessPolicy: AccessPolicy;
+
   constructor(
     private reflector: Reflector,
-    @InjectModel(User)
-    private userModel: typeof User
+    private principalCacheService: PrincipalCacheService,
+    private configService: ConfigService,
+    private serviceAccountService: ServiceAccountService,
+    private tokenRevocationService: TokenRevocationService,
+    private impersonationService: ImpersonationService,
+    private companyMembershipService: CompanyMembershipService,
+    private loginSecurityService: LoginSecurityService
   ) {
     super();
+    this.accessPolicy = {
+      blockedUserStatuses: this.readStatuses(
+        'AUTH_BLOCKED_USER_STATUSES',
+        [UserStatus.SUSPENDED, UserStatus.DEACTIVATED],
+        Object.values(UserStatus)
+      ),
+      restrictedUserStatuses: this.readStatuses(
+        'AUTH_RESTRICTED_USER_STATUSES',
+        [UserStatus.PENDING],
+        Object.values(UserStatus)
+      ),
+      blockedCompanyStatuses: this.readStatuses(
+        'AUTH_BLOCKED_COMPANY_STATUSES',
+        [CompanyStatus.SUSPENDED, CompanyStatus.REJECTED],
+        Object.values(CompanyStatus)
+      ),
+    };
   }
 
   async canActivate(context: ExecutionContext): Promise<boolean> {
+    try {
+      return await this.authenticate(context);
+    } catch (error) {
+      if (error instanceof UnauthorizedException) {
+        this.loginSecurityService.recordAuthFailure(context.switchToHttp().getRequest());
+      }
+      throw error;
+    }
+  }
+
+  private async authenticate(context: ExecutionContext): Promise<boolean> {
     // Check if the endpoint is marked as public
     const isPublic = this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, [
       context.getHandler(),
@@ -40,6 +183,13 @@ export class JwtAuthGuard extends AuthGuard('jwt') {
       return true;
     }
 
+    const request = context.switchToHttp().getRequest();
+    const apiKey = request.headers?.[API_KEY_HEADER];
+
+    if (apiKey) {
+      return this.authenticateApiKey(String(apiKey), request, context);
+    }
+
     try {
       // Call the parent canActivate which runs the JWT strategy validation
       const canActivate = await super.canActivate(context);
@@ -79,23 +229,33 @@ export class JwtAuthGuard extends AuthGuard('jwt') {
     }
 
     // At this point, JWT validation has passed and req.user contains the JWT payload
-    const request = context.switchToHttp().getRequest();
     const jwtPayload: JwtPayload = request.user;
 
     try {
-      // Get the authenticated user from database using Auth0 user ID
-      const user = await this.userModel.findOne({
-        where: { auth0_user_id: jwtPayload.sub },
-        include: [
-          {
-            model: Role,
-            attributes: ['id', 'name', 'code'],
-            required: true,
-          },
-        ],
-      });
+      // Get the authenticated user (cached for a few seconds, see PrincipalCacheService)
+      const user = await this.principalCacheService.findBySub(jwtPayload.sub);
+
+      if (await this.tokenRevocationService.isRevoked(jwtPayload, user)) {
+        throw new UnauthorizedException({
+          success: false,
+          code: ERROR_CODES.TOKEN_REVOKED,
+          message: 'Token has been revoked.',
+        });
+      }
 
       if (!user) {
+        // Routes such as invitation acceptance link the subject to a user themselves
+        const allowUnlinked = this.reflector.getAllAndOverride<boolean>(ALLOW_UNLINKED_USER_KEY, [
+          context.getHandler(),
+          context.getClass(),
+        ]);
+
+        if (allowUnlinked) {
+          request.userDecoded = jwtPayload;
+          request.user = null;
+          return true;
+        }
+
         throw new UnauthorizedException({
           success: false,
           code: ERROR_CODES.AUTH_USER_NOT_FOUND,
@@ -103,16 +263,31 @@ export class JwtAuthGuard extends AuthGuard('jwt') {
         });
       }
 
+      this.enforceAccessPolicy(user, context);
+      await this.recordLoginActivity(user, request);
+
       // Attach both JWT payload and user entity to request
       request.userDecoded = jwtPayload;
       request.user = user;
 
+      const impersonationToken = request.headers?.[IMPERSONATION_HEADER];
+      if (impersonationToken) {
+        await this.startImpersonation(String(impersonationToken), user, request, context);
+      }
+
+      const activeCompanyId =
+        request.headers?.[ACTIVE_COMPANY_HEADER] ??
+        (impersonationToken ? undefined : jwtPayload[ACTIVE_COMPANY_CLAIM]);
+      if (activeCompanyId && activeCompanyId !== request.user.company_id) {
+        await this.switchActiveCompany(String(activeCompanyId), request.user);
+      }
+
       return true;
     } catch (error) {
       console.error('User lookup error:', error);
 
-      // Re-throw UnauthorizedException to preserve specific error codes
-      if (error instanceof UnauthorizedException) {
+      // Re-throw Unauthorized/Forbidden exceptions to preserve specific error codes
+      if (error instanceof UnauthorizedException || error instanceof ForbiddenException) {
         throw error;
       }
 
@@ -125,6 +300,177 @@ export class JwtAuthGuard extends AuthGuard('jwt') {
     }
   }
 
+  /**
+   * Records the device of the request. A flag that revoked the user's tokens rejects it.
+   */
+  private async recordLoginActivity(user: User, request: Request): Promise<void> {
+    let requiresReauthentication = false;
+
+    try {
+      ({ requiresReauthentication } = await this.loginSecurityService.recordRequest(user, request));
+    } catch (error) {
+      console.error('Login activity recording error:', error);
+    }
+
+    if (requiresReauthentication) {
+      throw new UnauthorizedException({
+        success: false,
+        code: ERROR_CODES.REAUTHENTICATION_REQUIRED,
+        message: 'Unusual sign-in activity was detected. Please sign in again.',
+      });
+    }
+  }
+
+  /**
+   * Authenticates a service account by API key and attaches it to the request
+   */
+  private async authenticateApiKey(
+    apiKey: string,
+    request: any,
+    context: ExecutionContext
+  ): Promise<boolean> {
+    const targets = [context.getHandler(), context.getClass()];
+    const requiredPermissions = targets.flatMap(
+      (target) => this.reflector.get<string[]>(REQUIRE_PERMISSIONS_KEY, target) ?? []
+    );
+    const allowApiKey = this.reflector.getAllAndOverride<boolean>(ALLOW_API_KEY_KEY, targets);
+
+    // Routes are meant for end users unless they opt in; their handlers expect a User
+    if (!allowApiKey || requiredPermissions.length === 0) {
+      throw new ForbiddenException({
+        success: false,
+        code: ERROR_CODES.API_KEY_ROUTE_NOT_ALLOWED,
+        message: 'This route cannot be accessed with an API key.',
+      });
+    }
+
+    try {
+      const { serviceAccount, apiKey: key } = await this.serviceAccountService.authenticate(apiKey);
+
+      const companyStatus = serviceAccount.company?.status;
+      if (companyStatus && this.accessPolicy.blockedCompanyStatuses.includes(companyStatus)) {
+        throw new ForbiddenException({
+          success: false,
+          ...COMPANY_STATUS_ERRORS[companyStatus],
+        });
+      }
+
+      request.user = serviceAccount;
+      request.serviceAccount = serviceAccount;
+      request.apiKey = key;
+
+      return true;
+    } catch (error) {
+      if (error instanceof UnauthorizedException || error instanceof ForbiddenException) {
+        throw error;
+      }
+
+      console.error('API key lookup error:', error);
+      throw new UnauthorizedException({
+        success: false,
+        code: ERROR_CODES.API_KEY_INVALID,
+        message: 'Invalid API key.',
+      });
+    }
+  }
+
+  /**
+   * Replaces request.user with the target of the actor's impersonation session.
+   * The target is subject to the access policy like any other user.
+   */
+  private async startImpersonation(
+    token: string,
+    actor: User,
+    request: Request & { user?: User; impersonation?: ImpersonationContext },
+    context: ExecutionContext
+  ): Promise<void> {
+    const { session, targetUser } = await this.impersonationService.resolve(token, actor);
+
+    this.enforceAccessPolicy(targetUser, context);
+
+    const impersonation: ImpersonationContext = { actor, session };
+    await this.impersonationService.recordRequest(
+      impersonation,
+      targetUser,
+      request.method,
+      request.originalUrl ?? request.url
+    );
+
+    request.user = targetUser;
+    request.impersonation = impersonation;
+    context
+      .switchToHttp()
+      .getResponse<Response>()
+      .setHeader(IMPERSONATING_RESPONSE_HEADER, targetUser.id);
+  }
+
+  /**
+   * Applies the user's membership in the active company. Users without an active
+   * membership there are rejected, as are members of blocked companies.
+   */
+  private async switchActiveCompany(companyId: string, user: User): Promise<void> {
+    const membership = await this.companyMembershipService.findActiveMembership(user.id, companyId);
+
+    if (!membership) {
+      throw new ForbiddenException({
+        success: false,
+        code: ERROR_CODES.COMPANY_MEMBERSHIP_REQUIRED,
+        message: 'You are not a member of the selected company.',
+      });
+    }
+
+    const companyStatus = membership.company?.status;
+    if (companyStatus && this.accessPolicy.blockedCompanyStatuses.includes(companyStatus)) {
+      throw new ForbiddenException({ success: false, ...COMPANY_STATUS_ERRORS[companyStatus] });
+    }
+
+    user.applyMembership(membership);
+  }
+
+  /**
+   * Rejects users whose own status or company status is not allowed by the access policy.
+   * Restricted users (PENDING by default) may only reach routes marked with @AllowPendingUser.
+   */
+  private enforceAccessPolicy(user: User, context: ExecutionContext): void {
+    const { blockedUserStatuses, restrictedUserStatuses, blockedCompanyStatuses } =
+      this.accessPolicy;
+
+    if (blockedUserStatuses.includes(user.status)) {
+      throw new ForbiddenException({ success: false, ...USER_STATUS_ERRORS[user.status] });
+    }
+
+    if (restrictedUserStatuses.includes(user.status)) {
+      const allowPending = this.reflector.getAllAndOverride<boolean>(ALLOW_PENDING_USER_KEY, [
+        context.getHandler(),
+        context.getClass(),
+      ]);
+
+      if (!allowPending) {
+        throw new ForbiddenException({ success: false, ...USER_STATUS_ERRORS[user.status] });
+      }
+    }
+
+    const companyStatus = user.company?.status;
+    if (companyStatus && blockedCompanyStatuses.includes(companyStatus)) {
+      throw new ForbiddenException({ success: false, ...COMPANY_STATUS_ERRORS[companyStatus] });
+    }
+  }
+
+  /**
+   * Reads a comma-separated status list from the environment, ignoring unknown values
+   */
+  private readStatuses<T extends string>(key: string, defaults: T[], allowed: T[]): T[] {
+    const value = this.configService.get<string>(key);
+    if (value === undefined || value === null) {
+      return defaults;
+    }
+
+    return value
+      .split(',')
+      .map((status) => status.trim())
+      .filter((status): status is T => allowed.includes(status as T));
+  }
+
   /**
    * Handle authentication errors from the JWT strategy
    * Provides consistent error responses for all JWT validation failures
@@ -8,6 +8,7 @@ import {
   ServiceBulkPermissionCheckResultDto,
   ServicePermissionCheckResultDto,
   PermissionSourceType,
+  PrincipalType,
 } from '../../modules/role/dto/permissions-service.dto';
 import { UserRole } from '../../modules/auth/entities/user.entity';
 
@@ -395,6 +396,44 @@ describe('PermissionsGuard - Unit Tests', () => {
     });
   });
 
+  describe('Service Accounts', () => {
+    it('should check the permissions of a service account authenticated by API key', async () => {
+      reflector.getAllAndOverride.mockReturnValue(['teams:read:own']);
+
+      const serviceAccount = { id: 'service-account-1', company_id: 'company-456' };
+      const request = { ...TestDataFactory.createMockRequest(serviceAccount), serviceAccount };
+      const context = TestDataFactory.createMockExecutionContext(request);
+
+      permissionsService.hasPermissions.mockResolvedValue(
+        TestDataFactory.createBulkPermissionCheckResult([{ name: 'teams:read:own', granted: true }])
+      );
+
+      await expect(guard.canActivate(context)).resolves.toBe(true);
+      expect(permissionsService.hasPermissions).toHaveBeenCalledWith({
+        user_id: 'service-account-1',
+        principal_type: PrincipalType.SERVICE_ACCOUNT,
+        permission_names: ['teams:read:own'],
+        company_id: 'company-456',
+      });
+    });
+
+    it('should deny a service account that lacks a permission', async () => {
+      reflector.getAllAndOverride.mockReturnValue(['teams:delete:own']);
+
+      const serviceAccount = { id: 'service-account-1', company_id: 'company-456' };
+      const request = { ...TestDataFactory.createMockRequest(serviceAccount), serviceAccount };
+      const context = TestDataFactory.createMockExecutionContext(request);
+
+      permissionsService.hasPermissions.mockResolvedValue(
+        TestDataFactory.createBulkPermissionCheckResult([
+          { name: 'teams:delete:own', granted: false },
+        ])
+      );
+
+      await expect(guard.canActivate(context)).rejects.toThrow(ForbiddenException);
+    });
+  });
+
   describe('Error Handling', () => {
     it('should handle PermissionsService errors gracefully', async () => {
       reflector.getAllAndOverride.mockReturnValue(['CREATE_PETITION']);
@@ -7,7 +7,10 @@ import {
 } from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
 import { PermissionsService } from '../../modules/role/permissions.service';
-import { ServiceBulkPermissionCheckDto } from '../../modules/role/dto/permissions-service.dto';
+import {
+  PrincipalType,
+  ServiceBulkPermissionCheckDto,
+} from '../../modules/role/dto/permissions-service.dto';
 
 export const REQUIRE_PERMISSIONS_KEY = 'require_permissions';
 
@@ -63,6 +66,7 @@ export const RequirePermissions = (...permissions: string[]) => {
  * Features:
  * - Integrates with PermissionsService for real-time permission checking
  * - Supports both role-based and direct user permissions
+ * - Checks the explicit permissions of service accounts authenticated by API key
  * - Handles multi-tenant company isolation
  * - Combines class-level and method-level permission requirements
  * - Provides detailed error messages for debugging
@@ -125,7 +129,14 @@ export class PermissionsGuard implements CanActivate {
 
     try {
       // Check permissions via service
-      const permissionCheck = await this.checkUserPermissions(user, uniquePermissions);
+      const principalType = request.serviceAccount
+        ? PrincipalType.SERVICE_ACCOUNT
+        : PrincipalType.USER;
+      const permissionCheck = await this.checkUserPermissions(
+        user,
+        uniquePermissions,
+        principalType
+      );
 
       // Analyze results
       const grantedPermissions = permissionCheck.results
@@ -218,13 +229,21 @@ export class PermissionsGuard implements CanActivate {
   /**
    * Check user permissions via PermissionsService
    */
-  private async checkUserPermissions(user: any, permissions: string[]) {
+  private async checkUserPermissions(
+    user: any,
+    permissions: string[],
+    principalType: PrincipalType = PrincipalType.USER
+  ) {
     const checkDto: ServiceBulkPermissionCheckDto = {
       user_id: user.id,
       permission_names: permissions,
       company_id: user.company_id,
     };
 
+    if (principalType !== PrincipalType.USER) {
+      checkDto.principal_type = principalType;
+    }
+
     try {
       const result = await this.permissionsService.hasPermissions(checkDto);
 
@@ -0,0 +1,141 @@
+import { ExecutionContext, ForbiddenException, NotFoundException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { getModelToken } from '@nestjs/sequelize';
+import { Test, TestingModule } from '@nestjs/testing';
+import { User, UserRole } from '../../modules/auth/entities/user.entity';
+import { Company } from '../../modules/company/entities/company.entity';
+import { PrincipalType } from '../../modules/role/dto/permissions-service.dto';
+import { PermissionsService } from '../../modules/role/permissions.service';
+import { Team } from '../../modules/team/entities/team.entity';
+import {
+  PolicyResourceType,
+  REQUIRE_POLICY_KEY,
+  RequirePolicy,
+} from '../decorators/require-policy.decorator';
+import { PolicyGuard } from './policy.guard';
+
+describe('PolicyGuard', () => {
+  let guard: PolicyGuard;
+  let permissionsService: { evaluatePolicy: jest.Mock };
+  let teamModel: { findByPk: jest.Mock };
+
+  const team = {
+    id: 'team-1',
+    company_id: 'company-1',
+    owner_user_id: 'user-1',
+    category: 'LEGAL',
+    get: jest.fn(() => ({
+      id: 'team-1',
+      company_id: 'company-1',
+      owner_user_id: 'user-1',
+      category: 'LEGAL',
+    })),
+  };
+
+  class TeamController {
+    @RequirePolicy('teams:update:own', PolicyResourceType.TEAM, 'teamId')
+    update() {}
+
+    unprotected() {}
+  }
+
+  const buildContext = (request: any, handler = TeamController.prototype.update) =>
+    ({
+      switchToHttp: () => ({ getRequest: () => request }),
+      getHandler: () => handler,
+      getClass: () => TeamController,
+    }) as unknown as ExecutionContext;
+
+  const buildRequest = (overrides: Record<string, unknown> = {}) => ({
+    user: { id: 'user-1', company_id: 'company-1', roleEnum: UserRole.VENDOR_MANAGER },
+    params: { teamId: 'team-1' },
+    ip: '10.0.0.1',
+    method: 'PUT',
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    permissionsService = { evaluatePolicy: jest.fn().mockResolvedValue({ granted: true }) };
+    teamModel = { findByPk: jest.fn().mockResolvedValue(team) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PolicyGuard,
+        Reflector,
+        { provide: PermissionsService, useValue: permissionsService },
+        { provide: getModelToken(Team), useValue: teamModel },
+        { provide: getModelToken(Company), useValue: { findByPk: jest.fn() } },
+        { provide: getModelToken(User), useValue: { findByPk: jest.fn() } },
+      ],
+    }).compile();
+
+    guard = module.get(PolicyGuard);
+    jest.spyOn(guard['logger'], 'warn').mockImplementation(() => undefined);
+  });
+
+  it('stores the policy requirement as route metadata', () => {
+    expect(Reflect.getMetadata(REQUIRE_POLICY_KEY, TeamController.prototype.update)).toEqual({
+      permission: 'teams:update:own',
+      resource: PolicyResourceType.TEAM,
+      param: 'teamId',
+    });
+    expect(() => RequirePolicy('teams:update:', PolicyResourceType.TEAM)).toThrow(
+      'Malformed permission name'
+    );
+  });
+
+  it('evaluates the policy against the loaded resource', async () => {
+    const request = buildRequest();
+
+    await expect(guard.canActivate(buildContext(request))).resolves.toBe(true);
+
+    expect(teamModel.findByPk).toHaveBeenCalledWith('team-1');
+    expect(permissionsService.evaluatePolicy).toHaveBeenCalledWith({
+      user_id: 'user-1',
+      permission_name: 'teams:update:own',
+      company_id: 'company-1',
+      principal_type: PrincipalType.USER,
+      context: {
+        subject: {
+          id: 'user-1',
+          company_id: 'company-1',
+          role: UserRole.VENDOR_MANAGER,
+          type: PrincipalType.USER,
+        },
+        resource: expect.objectContaining({ owner_user_id: 'user-1', category: 'LEGAL' }),
+        env: expect.objectContaining({ ip: '10.0.0.1', method: 'PUT' }),
+      },
+    });
+    expect(request).toEqual(expect.objectContaining({ policyResource: team }));
+  });
+
+  it('names the condition that denied the request', async () => {
+    permissionsService.evaluatePolicy.mockResolvedValue({
+      granted: false,
+      failed_condition: 'resource.owner_user_id == subject.id',
+    });
+
+    await expect(guard.canActivate(buildContext(buildRequest()))).rejects.toThrow(
+      new ForbiddenException('Policy condition not met: resource.owner_user_id == subject.id')
+    );
+  });
+
+  it('rejects missing resources and skips routes without a policy', async () => {
+    teamModel.findByPk.mockResolvedValue(null);
+
+    await expect(guard.canActivate(buildContext(buildRequest()))).rejects.toThrow(
+      NotFoundException
+    );
+    await expect(
+      guard.canActivate(buildContext(buildRequest(), TeamController.prototype.unprotected))
+    ).resolves.toBe(true);
+    expect(permissionsService.evaluatePolicy).not.toHaveBeenCalled();
+  });
+
+  it('lets the super admin bypass skip the conditions', async () => {
+    await expect(
+      guard.canActivate(buildContext(buildRequest({ superAdminBypass: true })))
+    ).resolves.toBe(true);
+    expect(permissionsService.evaluatePolicy).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,161 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { InjectModel } from '@nestjs/sequelize';
+import { Request } from 'express';
+import { Model } from 'sequelize-typescript';
+import { ERROR_CODES } from '../../common/constants/error-codes';
+import { User } from '../../modules/auth/entities/user.entity';
+import { Company } from '../../modules/company/entities/company.entity';
+import { PrincipalType } from '../../modules/role/dto/permissions-service.dto';
+import { PermissionsService } from '../../modules/role/permissions.service';
+import { PolicyContext } from '../../modules/role/policy-conditions';
+import { ServiceAccount } from '../../modules/service-account/entities/service-account.entity';
+import { Team } from '../../modules/team/entities/team.entity';
+import {
+  PolicyRequirement,
+  PolicyResourceType,
+  REQUIRE_POLICY_KEY,
+} from '../decorators/require-policy.decorator';
+
+/** request.user is the service account itself for API key requests */
+type PolicyRequest = Request & {
+  user?: User | ServiceAccount;
+  serviceAccount?: ServiceAccount;
+  superAdminBypass?: boolean;
+  policyResource?: Model;
+};
+
+/**
+ * PolicyGuard - checks @RequirePolicy routes against the resource they work on
+ *
+ * Loads the resource named by the decorator, builds the subject, resource and environment
+ * attributes and asks PermissionsService.evaluatePolicy whether the user's permission and
+ * its policy conditions allow the request. Use it after JwtAuthGuard (and
+ * SuperAdminBypassGuard, which lets super admins skip the conditions).
+ */
+@Injectable()
+export class PolicyGuard implements CanActivate {
+  private readonly logger = new Logger(PolicyGuard.name);
+
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly permissionsService: PermissionsService,
+    @InjectModel(Team)
+    private readonly teamModel: typeof Team,
+    @InjectModel(Company)
+    private readonly companyModel: typeof Company,
+    @InjectModel(User)
+    private readonly userModel: typeof User
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const requirement = this.reflector.getAllAndOverride<PolicyRequirement>(REQUIRE_POLICY_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+
+    if (!requirement) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest<PolicyRequest>();
+    const user = request.user;
+
+    if (!user?.id) {
+      throw new ForbiddenException('User not authenticated');
+    }
+
+    const resource = await this.loadResource(requirement, request.params?.[requirement.param]);
+    request.policyResource = resource;
+
+    if (request.superAdminBypass) {
+      this.logger.debug(`Super admin bypass for policy ${requirement.permission}`);
+      return true;
+    }
+
+    const result = await this.permissionsService.evaluatePolicy({
+      user_id: user.id,
+      permission_name: requirement.permission,
+      company_id: user.company_id,
+      principal_type: request.serviceAccount ? PrincipalType.SERVICE_ACCOUNT : PrincipalType.USER,
+      context: this.buildContext(user, resource, request),
+    });
+
+    if (!result.granted) {
+      this.logger.warn(
+        `Policy ${requirement.permission} denied for user ${user.id} on ${requirement.resource} ` +
+          `${resource.id}${result.failed_condition ? `: ${result.failed_condition}` : ''}`
+      );
+
+      throw new ForbiddenException({
+        success: false,
+        code: ERROR_CODES.POLICY_DENIED,
+        message: result.failed_condition
+          ? `Policy condition not met: ${result.failed_condition}`
+          : `Insufficient permissions. Missing: ${requirement.permission}`,
+      });
+    }
+
+    return true;
+  }
+
+  private async loadResource(
+    requirement: PolicyRequirement,
+    id: string | undefined
+  ): Promise<Model> {
+    const resource = id ? await this.findResource(requirement.resource, id) : null;
+
+    if (!resource) {
+      throw new NotFoundException({
+        success: false,
+        code: ERROR_CODES.POLICY_RESOURCE_NOT_FOUND,
+        message: `The ${requirement.resource} was not found`,
+      });
+    }
+
+    return resource;
+  }
+
+  private findResource(type: PolicyResourceType, id: string): Promise<Model | null> {
+    switch (type) {
+      case PolicyResourceType.TEAM:
+        return this.teamModel.findByPk(id);
+      case PolicyResourceType.COMPANY:
+        return this.companyModel.findByPk(id);
+      case PolicyResourceType.USER:
+        return this.userModel.findByPk(id);
+    }
+  }
+
+  private buildContext(
+    user: User | ServiceAccount,
+    resource: Model,
+    request: PolicyRequest
+  ): PolicyContext {
+    const now = new Date();
+
+    return {
+      subject: {
+        id: user.id,
+        company_id: user.company_id ?? null,
+        role: 'roleEnum' in user ? user.roleEnum : null,
+        type: request.serviceAccount ? PrincipalType.SERVICE_ACCOUNT : PrincipalType.USER,
+      },
+      resource: resource.get({ plain: true }) as Record<string, unknown>,
+      env: {
+        now: now.toISOString(),
+        hour: now.getUTCHours(),
+        weekday: now.getUTCDay(),
+        ip: request.ip ?? null,
+        method: request.method ?? null,
+      },
+    };
+  }
+}
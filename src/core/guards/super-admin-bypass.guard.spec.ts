@@ -272,6 +272,25 @@ describe('SuperAdminBypassGuard', () => {
         'specific-company-999'
       );
     });
+
+    it('should not bypass for a super admin acting in a membership company', async () => {
+      const memberUser = TestDataFactory.createMockUser({
+        role: UserRole.CLIENT,
+        id: 'home-super-admin',
+        company_id: 'membership-company-321',
+        activeMembership: { company_id: 'membership-company-321', role_id: 'client-role' },
+      });
+      const request = TestDataFactory.createMockRequest(memberUser);
+      const context = TestDataFactory.createMockExecutionContext(request);
+
+      permissionsService.isSuperAdmin.mockResolvedValue(true);
+
+      const result = await guard.canActivate(context);
+
+      expect(result).toBe(true);
+      expect(request.superAdminBypass).toBeUndefined();
+      expect(permissionsService.isSuperAdmin).not.toHaveBeenCalled();
+    });
   });
 
   describe('Performance Considerations', () => {
@@ -40,6 +40,16 @@ export class SuperAdminBypassGuard implements CanActivate {
       return true;
     }
 
+    // Service accounts only hold their explicit permissions
+    if (request.serviceAccount) {
+      return true;
+    }
+
+    // Acting in a membership company: the membership role applies, and those never bypass
+    if (user.activeMembership) {
+      return true;
+    }
+
     try {
       // Check if user is a super admin using the new role-based system
       const isSuperAdmin = await this.permissionsService.isSuperAdmin(user.id, user.company_id);
@@ -1,7 +1,7 @@
 import { Injectable, CanActivate, ExecutionContext } from '@nestjs/common';
 import { InjectModel } from '@nestjs/sequelize';
 import { Team } from '../../../modules/team/entities/team.entity';
-import { User } from '../../../modules/auth/entities/user.entity';
+import { PrincipalCacheService } from '../../../modules/principal-cache/principal-cache.service';
 import {
   UserNotFoundValidationException,
   UserNotFromCompanyException,
@@ -16,8 +16,7 @@ export class ValidateNewManagerFromCompanyGuard implements CanActivate {
   constructor(
     @InjectModel(Team)
     private teamModel: typeof Team,
-    @InjectModel(User)
-    private userModel: typeof User
+    private principalCacheService: PrincipalCacheService
   ) {}
 
   async canActivate(context: ExecutionContext): Promise<boolean> {
@@ -29,7 +28,7 @@ export class ValidateNewManagerFromCompanyGuard implements CanActivate {
     const team = await this.teamModel.findByPk(teamId);
 
     // Find the new manager
-    const newManager = await this.userModel.findByPk(userId);
+    const newManager = await this.principalCacheService.findById(userId);
 
     if (!newManager) {
       throw new UserNotFoundValidationException();
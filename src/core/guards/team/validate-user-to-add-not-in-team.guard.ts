@@ -3,6 +3,7 @@ import { InjectModel } from '@nestjs/sequelize';
 import { Team } from '../../../modules/team/entities/team.entity';
 import { TeamMember } from '../../../modules/team/entities/team-member.entity';
 import { User } from '../../../modules/auth/entities/user.entity';
+import { PrincipalCacheService } from '../../../modules/principal-cache/principal-cache.service';
 import {
   UserToBeAddedDoesNotExistException,
   UserToBeAddedDoesNotBelongToCompanyException,
@@ -20,8 +21,7 @@ export class ValidateUserToAddNotInTeamGuard implements CanActivate {
     private teamModel: typeof Team,
     @InjectModel(TeamMember)
     private teamMemberModel: typeof TeamMember,
-    @InjectModel(User)
-    private userModel: typeof User
+    private principalCacheService: PrincipalCacheService
   ) {}
 
   async canActivate(context: ExecutionContext): Promise<boolean> {
@@ -31,7 +31,7 @@ export class ValidateUserToAddNotInTeamGuard implements CanActivate {
     const userToBeAddedId = request.body.userId;
 
     // Find the user to be added
-    const userToBeAdded = await this.userModel.findByPk(userToBeAddedId);
+    const userToBeAdded = await this.principalCacheService.findById(userToBeAddedId);
 
     if (!userToBeAdded) {
       throw new UserToBeAddedDoesNotExistException();
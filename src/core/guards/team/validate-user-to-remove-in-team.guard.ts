@@ -3,6 +3,7 @@ import { InjectModel } from '@nestjs/sequelize';
 import { Team } from '../../../modules/team/entities/team.entity';
 import { TeamMember } from '../../../modules/team/entities/team-member.entity';
 import { User } from '../../../modules/auth/entities/user.entity';
+import { PrincipalCacheService } from '../../../modules/principal-cache/principal-cache.service';
 import {
   UserToBeRemovedDoesNotExistException,
   UserToBeRemovedDoesNotBelongToCompanyException,
@@ -20,8 +21,7 @@ export class ValidateUserToRemoveInTeamGuard implements CanActivate {
     private teamModel: typeof Team,
     @InjectModel(TeamMember)
     private teamMemberModel: typeof TeamMember,
-    @InjectModel(User)
-    private userModel: typeof User
+    private principalCacheService: PrincipalCacheService
   ) {}
 
   async canActivate(context: ExecutionContext): Promise<boolean> {
@@ -31,7 +31,7 @@ export class ValidateUserToRemoveInTeamGuard implements CanActivate {
     const userToBeRemovedId = request.params.userId;
 
     // Find the user to be removed
-    const userToBeRemoved = await this.userModel.findByPk(userToBeRemovedId);
+    const userToBeRemoved = await this.principalCacheService.findById(userToBeRemovedId);
 
     if (!userToBeRemoved) {
       throw new UserToBeRemovedDoesNotExistException();
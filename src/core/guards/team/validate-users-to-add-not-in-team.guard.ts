@@ -1,7 +1,7 @@
 import { Injectable, CanActivate, ExecutionContext } from '@nestjs/common';
 import { InjectModel } from '@nestjs/sequelize';
 import { TeamMember } from '../../../modules/team/entities/team-member.entity';
-import { User } from '../../../modules/auth/entities/user.entity';
+import { PrincipalCacheService } from '../../../modules/principal-cache/principal-cache.service';
 import { Op } from 'sequelize';
 import {
   UserToBeAddedDoesNotExistException,
@@ -18,8 +18,7 @@ export class ValidateUsersToAddNotInTeamGuard implements CanActivate {
   constructor(
     @InjectModel(TeamMember)
     private teamMemberModel: typeof TeamMember,
-    @InjectModel(User)
-    private userModel: typeof User
+    private principalCacheService: PrincipalCacheService
   ) {}
 
   async canActivate(context: ExecutionContext): Promise<boolean> {
@@ -30,7 +29,7 @@ export class ValidateUsersToAddNotInTeamGuard implements CanActivate {
 
     // Find all users to be added
     const usersToBeAdded = await Promise.all(
-      userIds.map((id: string) => this.userModel.findByPk(id))
+      userIds.map((id: string) => this.principalCacheService.findById(id))
     );
 
     // Check if all users exist
@@ -1,6 +1,5 @@
 import { Injectable, CanActivate, ExecutionContext } from '@nestjs/common';
-import { InjectModel } from '@nestjs/sequelize';
-import { User } from '../../../modules/auth/entities/user.entity';
+import { PrincipalCacheService } from '../../../modules/principal-cache/principal-cache.service';
 import {
   InvalidUserIdsException,
   UserNotFoundValidationException,
@@ -13,10 +12,7 @@ import {
  */
 @Injectable()
 export class ValidateUsersToReplaceFromCompanyGuard implements CanActivate {
-  constructor(
-    @InjectModel(User)
-    private userModel: typeof User
-  ) {}
+  constructor(private principalCacheService: PrincipalCacheService) {}
 
   async canActivate(context: ExecutionContext): Promise<boolean> {
     const request = context.switchToHttp().getRequest();
@@ -30,7 +26,7 @@ export class ValidateUsersToReplaceFromCompanyGuard implements CanActivate {
 
     // Find all users to be added
     const usersToBeAdded = await Promise.all(
-      userIds.map((id: string) => this.userModel.findByPk(id))
+      userIds.map((id: string) => this.principalCacheService.findById(id))
     );
 
     // Check if all users exist
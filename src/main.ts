@@ -1,5 +1,6 @@
 import { ValidationPipe } from '@nestjs/common';
 import { NestFactory, Reflector } from '@nestjs/core';
+import { NestExpressApplication } from '@nestjs/platform-express';
 import { DocumentBuilder, SwaggerModule } from '@nestjs/swagger';
 import { AppModule } from './app.module';
 import { AllExceptionsFilter } from './common/filters/http-exception.filter';
@@ -7,7 +8,10 @@ import { ResponseInterceptor } from './common/interceptors/response.interceptor'
 // Using standard ValidationPipe instead of Express-compatible one
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
+  const app = await NestFactory.create<NestExpressApplication>(AppModule);
+
+  // SCIM clients send application/scim+json bodies
+  app.useBodyParser('json', { type: 'application/scim+json' });
 
   // Enable CORS
   app.enableCors();
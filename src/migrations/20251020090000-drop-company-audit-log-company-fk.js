@@ -0,0 +1,57 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.sequelize.transaction(async (transaction) => {
+      console.log('Dropping CompanyAuditLogs.company_id foreign key so audit history survives company deletion...');
+
+      const [constraints] = await queryInterface.sequelize.query(
+        `SELECT CONSTRAINT_NAME
+         FROM INFORMATION_SCHEMA.KEY_COLUMN_USAGE
+         WHERE TABLE_NAME = 'CompanyAuditLogs'
+           AND COLUMN_NAME = 'company_id'
+           AND REFERENCED_TABLE_NAME = 'Companies'
+           AND TABLE_SCHEMA = DATABASE()`,
+        { transaction }
+      );
+
+      for (const constraint of constraints) {
+        console.log(`Removing foreign key constraint: ${constraint.CONSTRAINT_NAME}`);
+        await queryInterface.removeConstraint('CompanyAuditLogs', constraint.CONSTRAINT_NAME, {
+          transaction,
+        });
+      }
+
+      console.log('CompanyAuditLogs.company_id foreign key dropped');
+    });
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.sequelize.transaction(async (transaction) => {
+      console.log('Restoring CompanyAuditLogs.company_id foreign key...');
+
+      // Orphaned entries (from deleted companies) would violate the restored constraint
+      await queryInterface.sequelize.query(
+        `DELETE FROM CompanyAuditLogs
+         WHERE company_id NOT IN (SELECT id FROM Companies)`,
+        { transaction }
+      );
+
+      await queryInterface.addConstraint('CompanyAuditLogs', {
+        type: 'foreign key',
+        fields: ['company_id'],
+        name: 'company_audit_logs_company_id_fk',
+        references: {
+          table: 'Companies',
+          field: 'id',
+        },
+        onUpdate: 'CASCADE',
+        onDelete: 'CASCADE',
+        transaction,
+      });
+
+      console.log('CompanyAuditLogs.company_id foreign key restored');
+    });
+  },
+};
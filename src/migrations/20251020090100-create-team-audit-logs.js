@@ -0,0 +1,114 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    try {
+      console.log('Creating TeamAuditLogs table for team change history...');
+
+      await queryInterface.createTable('TeamAuditLogs', {
+        id: {
+          type: Sequelize.UUID,
+          defaultValue: Sequelize.UUIDV4,
+          primaryKey: true,
+          comment: 'Primary key for team audit log entry'
+        },
+        team_id: {
+          type: Sequelize.UUID,
+          allowNull: false,
+          comment: 'Team being audited (no FK so history survives team deletion)'
+        },
+        company_id: {
+          type: Sequelize.UUID,
+          allowNull: false,
+          comment: 'Company the team belonged to when the action was performed'
+        },
+        action: {
+          type: Sequelize.STRING(100),
+          allowNull: false,
+          comment: 'Action performed (TEAM_CREATED, TEAM_RENAMED, MEMBERS_REMOVED, etc.)'
+        },
+        performed_by: {
+          type: Sequelize.UUID,
+          allowNull: false,
+          references: {
+            model: 'Users',
+            key: 'id'
+          },
+          onUpdate: 'CASCADE',
+          onDelete: 'RESTRICT', // Preserve audit trail even if user is deleted
+          comment: 'User who performed the action'
+        },
+        performed_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+          defaultValue: Sequelize.fn('NOW'),
+          comment: 'Timestamp when action was performed'
+        },
+        before_snapshot: {
+          type: Sequelize.JSON,
+          allowNull: true,
+          comment: 'Team state before the action (null for creation)'
+        },
+        after_snapshot: {
+          type: Sequelize.JSON,
+          allowNull: true,
+          comment: 'Team state after the action (null for deletion)'
+        },
+        details: {
+          type: Sequelize.JSON,
+          allowNull: true,
+          comment: 'Additional details about the action (affected user IDs, etc.)'
+        },
+        created_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+          defaultValue: Sequelize.fn('NOW'),
+          comment: 'Record creation timestamp'
+        }
+      }, {
+        comment: 'Audit log for team lifecycle and membership changes'
+      });
+
+      console.log('Adding indexes for TeamAuditLogs performance...');
+
+      await queryInterface.addIndex('TeamAuditLogs', ['team_id', 'performed_at'], {
+        name: 'idx_team_audit_team_date',
+        comment: 'Optimizes queries for team history'
+      });
+
+      await queryInterface.addIndex('TeamAuditLogs', ['company_id', 'performed_at'], {
+        name: 'idx_team_audit_company_date',
+        comment: 'Optimizes company-scoped history queries'
+      });
+
+      await queryInterface.addIndex('TeamAuditLogs', ['performed_by', 'performed_at'], {
+        name: 'idx_team_audit_user_date',
+        comment: 'Optimizes queries for user action history'
+      });
+
+      await queryInterface.addIndex('TeamAuditLogs', ['action', 'performed_at'], {
+        name: 'idx_team_audit_action_date',
+        comment: 'Optimizes queries by action type'
+      });
+
+      console.log('TeamAuditLogs table and indexes created successfully');
+    } catch (error) {
+      console.error('Error creating TeamAuditLogs table:', error);
+      throw error;
+    }
+  },
+
+  async down(queryInterface, Sequelize) {
+    try {
+      console.log('Dropping TeamAuditLogs table...');
+
+      await queryInterface.dropTable('TeamAuditLogs', { cascade: true });
+
+      console.log('TeamAuditLogs table dropped successfully');
+    } catch (error) {
+      console.error('Error dropping TeamAuditLogs table:', error);
+      throw error;
+    }
+  }
+};
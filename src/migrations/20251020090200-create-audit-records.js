@@ -0,0 +1,166 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    try {
+      console.log('Creating AuditRecords table for the hash-chained audit trail...');
+
+      await queryInterface.createTable('AuditRecords', {
+        id: {
+          type: Sequelize.UUID,
+          defaultValue: Sequelize.UUIDV4,
+          primaryKey: true,
+          comment: 'Primary key for audit record'
+        },
+        tenant_id: {
+          type: Sequelize.STRING(64),
+          allowNull: false,
+          comment: 'Chain the record belongs to (company ID, or "platform")'
+        },
+        sequence: {
+          type: Sequelize.INTEGER,
+          allowNull: false,
+          comment: 'Position of the record in its tenant chain, starting at 1'
+        },
+        source: {
+          type: Sequelize.STRING(32),
+          allowNull: false,
+          comment: 'Domain the record originates from (COMPANY, TEAM, USER, PERMISSION)'
+        },
+        action: {
+          type: Sequelize.STRING(100),
+          allowNull: false,
+          comment: 'Action performed (VENDOR_APPROVED, TEAM_CREATED, USER_ROLE_CHANGED, etc.)'
+        },
+        entity_id: {
+          type: Sequelize.UUID,
+          allowNull: true,
+          comment: 'Entity the action was performed on (no FK so history survives deletion)'
+        },
+        performed_by: {
+          type: Sequelize.UUID,
+          allowNull: true,
+          comment: 'User who performed the action (no FK so history survives deletion)'
+        },
+        performed_at: {
+          type: Sequelize.DATE(3),
+          allowNull: false,
+          comment: 'Timestamp when action was performed (millisecond precision, part of the hash)'
+        },
+        payload: {
+          type: Sequelize.JSON,
+          allowNull: true,
+          comment: 'Action details, stored with sorted keys as hashed'
+        },
+        prev_hash: {
+          type: Sequelize.CHAR(64),
+          allowNull: false,
+          comment: 'SHA-256 hash of the previous record in the tenant chain'
+        },
+        hash: {
+          type: Sequelize.CHAR(64),
+          allowNull: false,
+          comment: 'SHA-256 hash of this record content and prev_hash'
+        },
+        created_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+          defaultValue: Sequelize.fn('NOW'),
+          comment: 'Record creation timestamp'
+        }
+      }, {
+        comment: 'Append-only, hash-chained audit trail for companies, teams, users and permissions'
+      });
+
+      console.log('Adding indexes for AuditRecords...');
+
+      await queryInterface.addIndex('AuditRecords', ['tenant_id', 'sequence'], {
+        name: 'uq_audit_records_tenant_sequence',
+        unique: true,
+        comment: 'One record per position in each tenant chain'
+      });
+
+      await queryInterface.addIndex('AuditRecords', ['tenant_id', 'performed_at'], {
+        name: 'idx_audit_records_tenant_date',
+        comment: 'Optimizes date range exports'
+      });
+
+      await queryInterface.addIndex('AuditRecords', ['source', 'entity_id'], {
+        name: 'idx_audit_records_source_entity',
+        comment: 'Optimizes queries for the history of a single entity'
+      });
+
+      await queryInterface.addIndex('AuditRecords', ['performed_by', 'performed_at'], {
+        name: 'idx_audit_records_user_date',
+        comment: 'Optimizes queries for user action history'
+      });
+
+      console.log('Creating AuditChainHeads table...');
+
+      await queryInterface.createTable('AuditChainHeads', {
+        tenant_id: {
+          type: Sequelize.STRING(64),
+          primaryKey: true,
+          comment: 'Chain identifier (company ID, or "platform")'
+        },
+        last_sequence: {
+          type: Sequelize.INTEGER,
+          allowNull: false,
+          defaultValue: 0,
+          comment: 'Sequence of the last appended record'
+        },
+        last_hash: {
+          type: Sequelize.CHAR(64),
+          allowNull: false,
+          comment: 'Hash of the last appended record'
+        },
+        updated_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+          defaultValue: Sequelize.fn('NOW'),
+          comment: 'Last append timestamp'
+        }
+      }, {
+        comment: 'Latest position of each audit chain, locked while appending'
+      });
+
+      console.log('Adding triggers that make AuditRecords append-only...');
+
+      await queryInterface.sequelize.query(`
+        CREATE TRIGGER trg_audit_records_no_update
+        BEFORE UPDATE ON AuditRecords
+        FOR EACH ROW
+        SIGNAL SQLSTATE '45000' SET MESSAGE_TEXT = 'AuditRecords is append-only'
+      `);
+
+      await queryInterface.sequelize.query(`
+        CREATE TRIGGER trg_audit_records_no_delete
+        BEFORE DELETE ON AuditRecords
+        FOR EACH ROW
+        SIGNAL SQLSTATE '45000' SET MESSAGE_TEXT = 'AuditRecords is append-only'
+      `);
+
+      console.log('AuditRecords and AuditChainHeads created successfully');
+    } catch (error) {
+      console.error('Error creating audit trail tables:', error);
+      throw error;
+    }
+  },
+
+  async down(queryInterface, Sequelize) {
+    try {
+      console.log('Dropping audit trail tables...');
+
+      await queryInterface.sequelize.query('DROP TRIGGER IF EXISTS trg_audit_records_no_update');
+      await queryInterface.sequelize.query('DROP TRIGGER IF EXISTS trg_audit_records_no_delete');
+      await queryInterface.dropTable('AuditChainHeads');
+      await queryInterface.dropTable('AuditRecords');
+
+      console.log('Audit trail tables dropped successfully');
+    } catch (error) {
+      console.error('Error dropping audit trail tables:', error);
+      throw error;
+    }
+  }
+};
@@ -0,0 +1,164 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    try {
+      console.log('Creating Invitations table...');
+
+      await queryInterface.createTable('Invitations', {
+        id: {
+          type: Sequelize.UUID,
+          defaultValue: Sequelize.UUIDV4,
+          primaryKey: true,
+          comment: 'Primary key for invitation'
+        },
+        email: {
+          type: Sequelize.STRING,
+          allowNull: false,
+          comment: 'Email address the invitation was sent to'
+        },
+        company_id: {
+          type: Sequelize.UUID,
+          allowNull: false,
+          references: {
+            model: 'Companies',
+            key: 'id'
+          },
+          onUpdate: 'CASCADE',
+          onDelete: 'CASCADE',
+          comment: 'Company the user is invited to'
+        },
+        role_id: {
+          type: Sequelize.UUID,
+          allowNull: false,
+          references: {
+            model: 'Roles',
+            key: 'id'
+          },
+          onUpdate: 'CASCADE',
+          onDelete: 'RESTRICT',
+          comment: 'Role the user gets once the invitation is accepted'
+        },
+        invited_by: {
+          type: Sequelize.UUID,
+          allowNull: false,
+          references: {
+            model: 'Users',
+            key: 'id'
+          },
+          onUpdate: 'CASCADE',
+          onDelete: 'RESTRICT',
+          comment: 'User who sent the invitation'
+        },
+        user_id: {
+          type: Sequelize.UUID,
+          allowNull: true,
+          references: {
+            model: 'Users',
+            key: 'id'
+          },
+          onUpdate: 'CASCADE',
+          onDelete: 'SET NULL',
+          comment: 'PENDING user created for the invitation'
+        },
+        token_hash: {
+          type: Sequelize.CHAR(64),
+          allowNull: false,
+          comment: 'SHA-256 hash of the invitation token (the token itself is never stored)'
+        },
+        status: {
+          type: Sequelize.ENUM('pending', 'accepted', 'revoked', 'expired'),
+          allowNull: false,
+          defaultValue: 'pending',
+          comment: 'Invitation lifecycle status'
+        },
+        expires_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+          comment: 'Invitation cannot be accepted after this time'
+        },
+        last_sent_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+          comment: 'When the invitation email was last sent'
+        },
+        send_count: {
+          type: Sequelize.INTEGER,
+          allowNull: false,
+          defaultValue: 1,
+          comment: 'Number of times the invitation email was sent'
+        },
+        accepted_at: {
+          type: Sequelize.DATE,
+          allowNull: true,
+          comment: 'When the invitation was accepted'
+        },
+        revoked_at: {
+          type: Sequelize.DATE,
+          allowNull: true,
+          comment: 'When the invitation was revoked'
+        },
+        revoked_by: {
+          type: Sequelize.UUID,
+          allowNull: true,
+          references: {
+            model: 'Users',
+            key: 'id'
+          },
+          onUpdate: 'CASCADE',
+          onDelete: 'SET NULL',
+          comment: 'User who revoked the invitation'
+        },
+        created_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+          defaultValue: Sequelize.fn('NOW')
+        },
+        updated_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+          defaultValue: Sequelize.fn('NOW')
+        }
+      }, {
+        comment: 'Invitations sent to users created by acme-invite and vendor-invite'
+      });
+
+      console.log('Adding indexes for Invitations...');
+
+      await queryInterface.addIndex('Invitations', ['token_hash'], {
+        name: 'uq_invitations_token_hash',
+        unique: true,
+        comment: 'Token lookup when an invitation is accepted'
+      });
+
+      await queryInterface.addIndex('Invitations', ['company_id', 'status'], {
+        name: 'idx_invitations_company_status',
+        comment: 'Optimizes listing the pending invitations of a company'
+      });
+
+      await queryInterface.addIndex('Invitations', ['user_id'], {
+        name: 'idx_invitations_user',
+        comment: 'Optimizes lookups by invited user'
+      });
+
+      console.log('Invitations table and indexes created successfully');
+    } catch (error) {
+      console.error('Error creating Invitations table:', error);
+      throw error;
+    }
+  },
+
+  async down(queryInterface, Sequelize) {
+    try {
+      console.log('Dropping Invitations table...');
+
+      await queryInterface.dropTable('Invitations');
+
+      console.log('Invitations table dropped successfully');
+    } catch (error) {
+      console.error('Error dropping Invitations table:', error);
+      throw error;
+    }
+  }
+};
@@ -0,0 +1,119 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    try {
+      console.log('Creating LocalIdentities table...');
+
+      await queryInterface.createTable('LocalIdentities', {
+        id: {
+          type: Sequelize.UUID,
+          defaultValue: Sequelize.UUIDV4,
+          primaryKey: true,
+          comment: 'Primary key for local identity'
+        },
+        subject: {
+          type: Sequelize.STRING,
+          allowNull: false,
+          unique: true,
+          comment: 'JWT subject (local|<uuid>), stored in Users.auth0_user_id'
+        },
+        email: {
+          type: Sequelize.STRING,
+          allowNull: false,
+          unique: true,
+          comment: 'Login email address'
+        },
+        name: {
+          type: Sequelize.STRING,
+          allowNull: true,
+          comment: 'Display name'
+        },
+        password_hash: {
+          type: Sequelize.STRING,
+          allowNull: true,
+          comment: 'bcrypt hash of the password (null until an invited user sets one)'
+        },
+        email_verified: {
+          type: Sequelize.BOOLEAN,
+          allowNull: false,
+          defaultValue: false,
+          comment: 'Set once a password ticket has been completed'
+        },
+        user_metadata: {
+          type: Sequelize.JSON,
+          allowNull: true,
+          comment: 'Metadata given when the identity was created'
+        },
+        refresh_token_hash: {
+          type: Sequelize.CHAR(64),
+          allowNull: true,
+          comment: 'SHA-256 hash of the current refresh token'
+        },
+        refresh_token_expires_at: {
+          type: Sequelize.DATE,
+          allowNull: true,
+          comment: 'Refresh token cannot be used after this time'
+        },
+        password_ticket_hash: {
+          type: Sequelize.CHAR(64),
+          allowNull: true,
+          comment: 'SHA-256 hash of the pending password ticket'
+        },
+        password_ticket_expires_at: {
+          type: Sequelize.DATE,
+          allowNull: true,
+          comment: 'Password ticket cannot be used after this time'
+        },
+        password_ticket_result_url: {
+          type: Sequelize.STRING(2048),
+          allowNull: true,
+          comment: 'Where the user continues once the password is set'
+        },
+        created_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+          defaultValue: Sequelize.fn('NOW')
+        },
+        updated_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+          defaultValue: Sequelize.fn('NOW')
+        }
+      }, {
+        comment: 'Logins of the local identity provider (IDENTITY_PROVIDER=local)'
+      });
+
+      console.log('Adding indexes for LocalIdentities...');
+
+      await queryInterface.addIndex('LocalIdentities', ['refresh_token_hash'], {
+        name: 'idx_local_identities_refresh_token',
+        comment: 'Refresh token lookup'
+      });
+
+      await queryInterface.addIndex('LocalIdentities', ['password_ticket_hash'], {
+        name: 'idx_local_identities_password_ticket',
+        comment: 'Password ticket lookup'
+      });
+
+      console.log('LocalIdentities table and indexes created successfully');
+    } catch (error) {
+      console.error('Error creating LocalIdentities table:', error);
+      throw error;
+    }
+  },
+
+  async down(queryInterface, Sequelize) {
+    try {
+      console.log('Dropping LocalIdentities table...');
+
+      await queryInterface.dropTable('LocalIdentities');
+
+      console.log('LocalIdentities table dropped successfully');
+    } catch (error) {
+      console.error('Error dropping LocalIdentities table:', error);
+      throw error;
+    }
+  }
+};
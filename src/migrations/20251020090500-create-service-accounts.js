@@ -0,0 +1,250 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    try {
+      console.log('Creating ServiceAccounts table...');
+
+      await queryInterface.createTable('ServiceAccounts', {
+        id: {
+          type: Sequelize.UUID,
+          defaultValue: Sequelize.UUIDV4,
+          primaryKey: true,
+          comment: 'Primary key for service account'
+        },
+        company_id: {
+          type: Sequelize.UUID,
+          allowNull: false,
+          references: {
+            model: 'Companies',
+            key: 'id'
+          },
+          onUpdate: 'CASCADE',
+          onDelete: 'CASCADE',
+          comment: 'Company the service account belongs to'
+        },
+        name: {
+          type: Sequelize.STRING(100),
+          allowNull: false,
+          comment: 'Name, unique within the company'
+        },
+        description: {
+          type: Sequelize.STRING(500),
+          allowNull: true,
+          comment: 'What the service account is used for'
+        },
+        status: {
+          type: Sequelize.ENUM('active', 'disabled'),
+          allowNull: false,
+          defaultValue: 'active',
+          comment: 'API keys of disabled service accounts are rejected'
+        },
+        created_by: {
+          type: Sequelize.UUID,
+          allowNull: true,
+          references: {
+            model: 'Users',
+            key: 'id'
+          },
+          onUpdate: 'CASCADE',
+          onDelete: 'SET NULL',
+          comment: 'User who created the service account'
+        },
+        created_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+          defaultValue: Sequelize.fn('NOW')
+        },
+        updated_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+          defaultValue: Sequelize.fn('NOW')
+        }
+      }, {
+        comment: 'Non-human principals that authenticate with API keys'
+      });
+
+      console.log('Creating ServiceAccountPermissions table...');
+
+      await queryInterface.createTable('ServiceAccountPermissions', {
+        id: {
+          type: Sequelize.UUID,
+          defaultValue: Sequelize.UUIDV4,
+          primaryKey: true,
+          comment: 'Primary key for service account permission'
+        },
+        service_account_id: {
+          type: Sequelize.UUID,
+          allowNull: false,
+          references: {
+            model: 'ServiceAccounts',
+            key: 'id'
+          },
+          onUpdate: 'CASCADE',
+          onDelete: 'CASCADE',
+          comment: 'Service account the permission is granted to'
+        },
+        permission_id: {
+          type: Sequelize.UUID,
+          allowNull: false,
+          references: {
+            model: 'Permissions',
+            key: 'id'
+          },
+          onUpdate: 'CASCADE',
+          onDelete: 'CASCADE',
+          comment: 'Granted permission'
+        },
+        created_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+          defaultValue: Sequelize.fn('NOW')
+        },
+        updated_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+          defaultValue: Sequelize.fn('NOW')
+        }
+      }, {
+        comment: 'Explicit permissions of service accounts'
+      });
+
+      console.log('Creating ApiKeys table...');
+
+      await queryInterface.createTable('ApiKeys', {
+        id: {
+          type: Sequelize.UUID,
+          defaultValue: Sequelize.UUIDV4,
+          primaryKey: true,
+          comment: 'Primary key for API key'
+        },
+        service_account_id: {
+          type: Sequelize.UUID,
+          allowNull: false,
+          references: {
+            model: 'ServiceAccounts',
+            key: 'id'
+          },
+          onUpdate: 'CASCADE',
+          onDelete: 'CASCADE',
+          comment: 'Service account the key authenticates'
+        },
+        name: {
+          type: Sequelize.STRING(100),
+          allowNull: false,
+          comment: 'Label of the key'
+        },
+        key_prefix: {
+          type: Sequelize.STRING(32),
+          allowNull: false,
+          comment: 'First characters of the key, shown in listings'
+        },
+        key_hash: {
+          type: Sequelize.CHAR(64),
+          allowNull: false,
+          comment: 'SHA-256 hash of the key; the key itself is never stored'
+        },
+        expires_at: {
+          type: Sequelize.DATE,
+          allowNull: true,
+          comment: 'Key cannot be used after this time (null for no expiry)'
+        },
+        last_used_at: {
+          type: Sequelize.DATE,
+          allowNull: true,
+          comment: 'Last successful authentication with the key'
+        },
+        revoked_at: {
+          type: Sequelize.DATE,
+          allowNull: true,
+          comment: 'When the key was revoked'
+        },
+        revoked_by: {
+          type: Sequelize.UUID,
+          allowNull: true,
+          references: {
+            model: 'Users',
+            key: 'id'
+          },
+          onUpdate: 'CASCADE',
+          onDelete: 'SET NULL',
+          comment: 'User who revoked the key'
+        },
+        created_by: {
+          type: Sequelize.UUID,
+          allowNull: true,
+          references: {
+            model: 'Users',
+            key: 'id'
+          },
+          onUpdate: 'CASCADE',
+          onDelete: 'SET NULL',
+          comment: 'User who issued the key'
+        },
+        replaced_by_id: {
+          type: Sequelize.UUID,
+          allowNull: true,
+          comment: 'Key that replaced this one when it was rotated'
+        },
+        created_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+          defaultValue: Sequelize.fn('NOW')
+        },
+        updated_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+          defaultValue: Sequelize.fn('NOW')
+        }
+      }, {
+        comment: 'Hashed API keys of service accounts'
+      });
+
+      console.log('Adding indexes for service accounts...');
+
+      await queryInterface.addIndex('ServiceAccounts', ['company_id', 'name'], {
+        name: 'uq_service_accounts_company_name',
+        unique: true,
+        comment: 'Service account names are unique within a company'
+      });
+
+      await queryInterface.addIndex('ServiceAccountPermissions', ['service_account_id', 'permission_id'], {
+        name: 'uq_service_account_permission',
+        unique: true,
+        comment: 'A permission is granted to a service account once'
+      });
+
+      await queryInterface.addIndex('ApiKeys', ['key_hash'], {
+        name: 'uq_api_keys_key_hash',
+        unique: true,
+        comment: 'Key lookup on every X-Api-Key request'
+      });
+
+      await queryInterface.addIndex('ApiKeys', ['service_account_id'], {
+        name: 'idx_api_keys_service_account',
+        comment: 'Optimizes listing the keys of a service account'
+      });
+
+      console.log('Service account tables and indexes created successfully');
+    } catch (error) {
+      console.error('Error creating service account tables:', error);
+      throw error;
+    }
+  },
+
+  async down(queryInterface, Sequelize) {
+    try {
+      console.log('Dropping service account tables...');
+
+      await queryInterface.dropTable('ApiKeys');
+      await queryInterface.dropTable('ServiceAccountPermissions');
+      await queryInterface.dropTable('ServiceAccounts');
+
+      console.log('Service account tables dropped successfully');
+    } catch (error) {
+      console.error('Error dropping service account tables:', error);
+      throw error;
+    }
+  }
+};
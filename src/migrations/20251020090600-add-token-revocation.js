@@ -0,0 +1,90 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    try {
+      console.log('Adding tokens_valid_after column to Users table...');
+
+      await queryInterface.addColumn('Users', 'tokens_valid_after', {
+        type: Sequelize.DATE,
+        allowNull: true,
+        comment: 'Access tokens issued before this time are rejected'
+      });
+
+      console.log('Creating RevokedTokens table...');
+
+      await queryInterface.createTable('RevokedTokens', {
+        jti: {
+          type: Sequelize.STRING(255),
+          primaryKey: true,
+          comment: 'JWT ID (jti claim) of the revoked access token'
+        },
+        subject: {
+          type: Sequelize.STRING,
+          allowNull: false,
+          comment: 'JWT subject (sub claim) the token was issued to'
+        },
+        expires_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+          comment: 'Expiry of the token; the row can be purged after this time'
+        },
+        revoked_by: {
+          type: Sequelize.UUID,
+          allowNull: true,
+          references: {
+            model: 'Users',
+            key: 'id'
+          },
+          onUpdate: 'CASCADE',
+          onDelete: 'SET NULL',
+          comment: 'User who revoked the token'
+        },
+        reason: {
+          type: Sequelize.STRING(500),
+          allowNull: true,
+          comment: 'Why the token was revoked'
+        },
+        created_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+          defaultValue: Sequelize.fn('NOW')
+        },
+        updated_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+          defaultValue: Sequelize.fn('NOW')
+        }
+      }, {
+        comment: 'Individually revoked access tokens, kept until they expire'
+      });
+
+      console.log('Adding indexes for revoked tokens...');
+
+      await queryInterface.addIndex('RevokedTokens', ['expires_at'], {
+        name: 'idx_revoked_tokens_expires_at',
+        comment: 'Optimizes purging revoked tokens that have expired'
+      });
+
+      console.log('Token revocation schema created successfully');
+    } catch (error) {
+      console.error('Error creating token revocation schema:', error);
+      throw error;
+    }
+  },
+
+  async down(queryInterface, Sequelize) {
+    try {
+      console.log('Dropping token revocation schema...');
+
+      await queryInterface.dropTable('RevokedTokens');
+      await queryInterface.removeColumn('Users', 'tokens_valid_after');
+
+      console.log('Token revocation schema dropped successfully');
+    } catch (error) {
+      console.error('Error dropping token revocation schema:', error);
+      throw error;
+    }
+  }
+};
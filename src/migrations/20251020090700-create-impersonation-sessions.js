@@ -0,0 +1,104 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    try {
+      console.log('Creating ImpersonationSessions table...');
+
+      await queryInterface.createTable('ImpersonationSessions', {
+        id: {
+          type: Sequelize.UUID,
+          defaultValue: Sequelize.UUIDV4,
+          primaryKey: true,
+          comment: 'Primary key for impersonation session'
+        },
+        actor_id: {
+          type: Sequelize.UUID,
+          allowNull: false,
+          references: {
+            model: 'Users',
+            key: 'id'
+          },
+          onUpdate: 'CASCADE',
+          onDelete: 'CASCADE',
+          comment: 'Acme staff member acting as the target user'
+        },
+        target_user_id: {
+          type: Sequelize.UUID,
+          allowNull: false,
+          references: {
+            model: 'Users',
+            key: 'id'
+          },
+          onUpdate: 'CASCADE',
+          onDelete: 'CASCADE',
+          comment: 'User being impersonated'
+        },
+        reason: {
+          type: Sequelize.STRING(500),
+          allowNull: false,
+          comment: 'Why the session was started (e.g. support ticket)'
+        },
+        token_hash: {
+          type: Sequelize.CHAR(64),
+          allowNull: false,
+          comment: 'SHA-256 hash of the session token; the token itself is never stored'
+        },
+        expires_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+          comment: 'Session cannot be used after this time'
+        },
+        ended_at: {
+          type: Sequelize.DATE,
+          allowNull: true,
+          comment: 'When the session was ended before it expired'
+        },
+        created_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+          defaultValue: Sequelize.fn('NOW')
+        },
+        updated_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+          defaultValue: Sequelize.fn('NOW')
+        }
+      }, {
+        comment: 'Audited support sessions in which Acme staff act as another user'
+      });
+
+      console.log('Adding indexes for impersonation sessions...');
+
+      await queryInterface.addIndex('ImpersonationSessions', ['token_hash'], {
+        name: 'uq_impersonation_sessions_token_hash',
+        unique: true,
+        comment: 'Session lookup on every impersonated request'
+      });
+
+      await queryInterface.addIndex('ImpersonationSessions', ['actor_id', 'ended_at'], {
+        name: 'idx_impersonation_sessions_actor',
+        comment: 'Optimizes finding the open sessions of an actor'
+      });
+
+      console.log('ImpersonationSessions table and indexes created successfully');
+    } catch (error) {
+      console.error('Error creating ImpersonationSessions table:', error);
+      throw error;
+    }
+  },
+
+  async down(queryInterface, Sequelize) {
+    try {
+      console.log('Dropping ImpersonationSessions table...');
+
+      await queryInterface.dropTable('ImpersonationSessions');
+
+      console.log('ImpersonationSessions table dropped successfully');
+    } catch (error) {
+      console.error('Error dropping ImpersonationSessions table:', error);
+      throw error;
+    }
+  }
+};
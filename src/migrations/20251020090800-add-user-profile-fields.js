@@ -0,0 +1,79 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.sequelize.transaction(async (transaction) => {
+      console.log('Adding profile columns to Users table...');
+
+      await queryInterface.addColumn('Users', 'phone_number', {
+        type: Sequelize.STRING(32),
+        allowNull: true,
+        comment: 'Phone number in E.164 or national format'
+      }, { transaction });
+
+      await queryInterface.addColumn('Users', 'timezone', {
+        type: Sequelize.STRING(64),
+        allowNull: true,
+        comment: 'IANA time zone, e.g. Europe/Lisbon'
+      }, { transaction });
+
+      await queryInterface.addColumn('Users', 'locale', {
+        type: Sequelize.STRING(16),
+        allowNull: true,
+        comment: 'BCP 47 language tag, e.g. pt-PT'
+      }, { transaction });
+
+      await queryInterface.addColumn('Users', 'job_title', {
+        type: Sequelize.STRING(100),
+        allowNull: true,
+        comment: 'Job title, set by a company admin'
+      }, { transaction });
+
+      await queryInterface.addColumn('Users', 'avatar_url', {
+        type: Sequelize.STRING(2048),
+        allowNull: true,
+        comment: 'URL of the profile picture'
+      }, { transaction });
+
+      console.log('Adding email change verification columns to Users table...');
+
+      await queryInterface.addColumn('Users', 'pending_email', {
+        type: Sequelize.STRING,
+        allowNull: true,
+        comment: 'Requested email address, applied once verified'
+      }, { transaction });
+
+      await queryInterface.addColumn('Users', 'email_verification_token_hash', {
+        type: Sequelize.CHAR(64),
+        allowNull: true,
+        comment: 'SHA-256 hash of the email change verification token'
+      }, { transaction });
+
+      await queryInterface.addColumn('Users', 'email_verification_expires_at', {
+        type: Sequelize.DATE,
+        allowNull: true,
+        comment: 'Email change verification token cannot be used after this time'
+      }, { transaction });
+    });
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.sequelize.transaction(async (transaction) => {
+      console.log('Removing profile and email verification columns from Users table...');
+
+      for (const column of [
+        'email_verification_expires_at',
+        'email_verification_token_hash',
+        'pending_email',
+        'avatar_url',
+        'job_title',
+        'locale',
+        'timezone',
+        'phone_number'
+      ]) {
+        await queryInterface.removeColumn('Users', column, { transaction });
+      }
+    });
+  }
+};
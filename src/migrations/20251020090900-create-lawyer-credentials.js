@@ -0,0 +1,136 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    try {
+      console.log('Creating LawyerCredentials table...');
+
+      await queryInterface.createTable('LawyerCredentials', {
+        id: {
+          type: Sequelize.UUID,
+          defaultValue: Sequelize.UUIDV4,
+          primaryKey: true,
+          comment: 'Primary key for lawyer credential'
+        },
+        user_id: {
+          type: Sequelize.UUID,
+          allowNull: false,
+          references: {
+            model: 'Users',
+            key: 'id'
+          },
+          onUpdate: 'CASCADE',
+          onDelete: 'CASCADE',
+          comment: 'Lawyer the credential belongs to'
+        },
+        bar_jurisdiction: {
+          type: Sequelize.STRING(100),
+          allowNull: false,
+          comment: 'Bar or licensing authority that admitted the lawyer'
+        },
+        bar_number: {
+          type: Sequelize.STRING(64),
+          allowNull: false,
+          comment: 'Registration number within the jurisdiction'
+        },
+        admission_date: {
+          type: Sequelize.DATEONLY,
+          allowNull: false,
+          comment: 'Date of admission to the bar'
+        },
+        standing_status: {
+          type: Sequelize.ENUM('GOOD_STANDING', 'INACTIVE', 'SUSPENDED', 'DISBARRED'),
+          allowNull: false,
+          defaultValue: 'GOOD_STANDING',
+          comment: 'Standing with the bar as declared or last verified'
+        },
+        standing_expires_at: {
+          type: Sequelize.DATE,
+          allowNull: true,
+          comment: 'When the good-standing certificate or registration lapses'
+        },
+        verification_status: {
+          type: Sequelize.ENUM('PENDING', 'VERIFIED', 'REJECTED', 'EXPIRED'),
+          allowNull: false,
+          defaultValue: 'PENDING',
+          comment: 'Acme verification state; only VERIFIED credentials make a user a lawyer'
+        },
+        verified_by: {
+          type: Sequelize.UUID,
+          allowNull: true,
+          references: {
+            model: 'Users',
+            key: 'id'
+          },
+          onUpdate: 'CASCADE',
+          onDelete: 'SET NULL',
+          comment: 'Acme staff member who reviewed the credential'
+        },
+        verified_at: {
+          type: Sequelize.DATE,
+          allowNull: true,
+          comment: 'When the credential was reviewed'
+        },
+        review_notes: {
+          type: Sequelize.STRING(500),
+          allowNull: true,
+          comment: 'Reviewer notes, e.g. why the credential was rejected'
+        },
+        expiry_flagged_at: {
+          type: Sequelize.DATE,
+          allowNull: true,
+          comment: 'When the expiry sweep flagged the credential as about to lapse'
+        },
+        created_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+          defaultValue: Sequelize.fn('NOW')
+        },
+        updated_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+          defaultValue: Sequelize.fn('NOW')
+        }
+      }, {
+        comment: 'Bar admissions backing the is_lawyer flag of users'
+      });
+
+      console.log('Adding indexes for lawyer credentials...');
+
+      await queryInterface.addIndex('LawyerCredentials', ['bar_jurisdiction', 'bar_number'], {
+        name: 'uq_lawyer_credentials_bar_number',
+        unique: true,
+        comment: 'A bar registration can only be claimed once'
+      });
+
+      await queryInterface.addIndex('LawyerCredentials', ['user_id'], {
+        name: 'idx_lawyer_credentials_user',
+        comment: 'Optimizes deriving is_lawyer for a user'
+      });
+
+      await queryInterface.addIndex('LawyerCredentials', ['verification_status', 'standing_expires_at'], {
+        name: 'idx_lawyer_credentials_status_expiry',
+        comment: 'Optimizes the verification queue and the expiry sweep'
+      });
+
+      console.log('LawyerCredentials table and indexes created successfully');
+    } catch (error) {
+      console.error('Error creating LawyerCredentials table:', error);
+      throw error;
+    }
+  },
+
+  async down(queryInterface, Sequelize) {
+    try {
+      console.log('Dropping LawyerCredentials table...');
+
+      await queryInterface.dropTable('LawyerCredentials');
+
+      console.log('LawyerCredentials table dropped successfully');
+    } catch (error) {
+      console.error('Error dropping LawyerCredentials table:', error);
+      throw error;
+    }
+  }
+};
@@ -0,0 +1,212 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    try {
+      console.log('Creating UserImportJobs table...');
+
+      await queryInterface.createTable('UserImportJobs', {
+        id: {
+          type: Sequelize.UUID,
+          defaultValue: Sequelize.UUIDV4,
+          primaryKey: true,
+          comment: 'Primary key for user import job'
+        },
+        company_id: {
+          type: Sequelize.UUID,
+          allowNull: false,
+          references: {
+            model: 'Companies',
+            key: 'id'
+          },
+          onUpdate: 'CASCADE',
+          onDelete: 'CASCADE',
+          comment: 'Company the users are imported into'
+        },
+        created_by: {
+          type: Sequelize.UUID,
+          allowNull: false,
+          references: {
+            model: 'Users',
+            key: 'id'
+          },
+          onUpdate: 'CASCADE',
+          onDelete: 'CASCADE',
+          comment: 'Vendor admin who uploaded the file'
+        },
+        file_name: {
+          type: Sequelize.STRING,
+          allowNull: false,
+          comment: 'Name of the uploaded CSV or XLSX file'
+        },
+        status: {
+          type: Sequelize.ENUM('pending', 'running', 'completed', 'failed'),
+          allowNull: false,
+          defaultValue: 'pending',
+          comment: 'Processing state of the job'
+        },
+        total_rows: {
+          type: Sequelize.INTEGER,
+          allowNull: false,
+          comment: 'Number of rows in the file'
+        },
+        succeeded_count: {
+          type: Sequelize.INTEGER,
+          allowNull: false,
+          defaultValue: 0,
+          comment: 'Rows whose user was invited'
+        },
+        failed_count: {
+          type: Sequelize.INTEGER,
+          allowNull: false,
+          defaultValue: 0,
+          comment: 'Rows whose user could not be invited'
+        },
+        started_at: {
+          type: Sequelize.DATE,
+          allowNull: true,
+          comment: 'When processing started'
+        },
+        finished_at: {
+          type: Sequelize.DATE,
+          allowNull: true,
+          comment: 'When processing finished or stopped'
+        },
+        error: {
+          type: Sequelize.STRING(500),
+          allowNull: true,
+          comment: 'Why the job stopped when it failed'
+        },
+        created_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+          defaultValue: Sequelize.fn('NOW')
+        },
+        updated_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+          defaultValue: Sequelize.fn('NOW')
+        }
+      }, {
+        comment: 'Bulk vendor user imports started from CSV/XLSX uploads'
+      });
+
+      console.log('Creating UserImportRows table...');
+
+      await queryInterface.createTable('UserImportRows', {
+        id: {
+          type: Sequelize.UUID,
+          defaultValue: Sequelize.UUIDV4,
+          primaryKey: true,
+          comment: 'Primary key for user import row'
+        },
+        job_id: {
+          type: Sequelize.UUID,
+          allowNull: false,
+          references: {
+            model: 'UserImportJobs',
+            key: 'id'
+          },
+          onUpdate: 'CASCADE',
+          onDelete: 'CASCADE',
+          comment: 'Import job the row belongs to'
+        },
+        row_number: {
+          type: Sequelize.INTEGER,
+          allowNull: false,
+          comment: 'Line of the row in the uploaded file'
+        },
+        email: {
+          type: Sequelize.STRING,
+          allowNull: false,
+          comment: 'Email of the user to invite'
+        },
+        first_name: {
+          type: Sequelize.STRING,
+          allowNull: false
+        },
+        last_name: {
+          type: Sequelize.STRING,
+          allowNull: false
+        },
+        role: {
+          type: Sequelize.STRING(50),
+          allowNull: false,
+          comment: 'Vendor role to assign (vendor_employee or vendor_manager)'
+        },
+        team_ids: {
+          type: Sequelize.JSON,
+          allowNull: false,
+          comment: 'Existing teams the user is added to'
+        },
+        status: {
+          type: Sequelize.ENUM('pending', 'succeeded', 'partial', 'failed'),
+          allowNull: false,
+          defaultValue: 'pending',
+          comment: 'Outcome of the row'
+        },
+        user_id: {
+          type: Sequelize.UUID,
+          allowNull: true,
+          references: {
+            model: 'Users',
+            key: 'id'
+          },
+          onUpdate: 'CASCADE',
+          onDelete: 'SET NULL',
+          comment: 'User created for the row'
+        },
+        error: {
+          type: Sequelize.STRING(500),
+          allowNull: true,
+          comment: 'Why the row failed or was only partially imported'
+        },
+        created_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+          defaultValue: Sequelize.fn('NOW')
+        },
+        updated_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+          defaultValue: Sequelize.fn('NOW')
+        }
+      }, {
+        comment: 'Per-row outcomes of bulk vendor user imports'
+      });
+
+      console.log('Adding indexes for user imports...');
+
+      await queryInterface.addIndex('UserImportJobs', ['company_id', 'created_at'], {
+        name: 'idx_user_import_jobs_company_created',
+        comment: 'Optimizes listing the import jobs of a company'
+      });
+
+      await queryInterface.addIndex('UserImportRows', ['job_id', 'row_number'], {
+        name: 'uq_user_import_rows_job_row',
+        unique: true,
+        comment: 'Each line of a file is recorded once per job'
+      });
+
+      console.log('UserImportJobs and UserImportRows tables created successfully');
+    } catch (error) {
+      console.error('Error creating user import tables:', error);
+      throw error;
+    }
+  },
+
+  async down(queryInterface, Sequelize) {
+    try {
+      console.log('Dropping UserImportRows and UserImportJobs tables...');
+
+      await queryInterface.dropTable('UserImportRows');
+      await queryInterface.dropTable('UserImportJobs');
+
+      console.log('User import tables dropped successfully');
+    } catch (error) {
+      console.error('Error dropping user import tables:', error);
+      throw error;
+    }
+  }
+};
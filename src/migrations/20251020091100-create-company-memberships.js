@@ -0,0 +1,128 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    try {
+      console.log('Creating CompanyMemberships table...');
+
+      await queryInterface.createTable('CompanyMemberships', {
+        id: {
+          type: Sequelize.UUID,
+          defaultValue: Sequelize.UUIDV4,
+          primaryKey: true,
+          comment: 'Primary key for company membership'
+        },
+        user_id: {
+          type: Sequelize.UUID,
+          allowNull: false,
+          references: {
+            model: 'Users',
+            key: 'id'
+          },
+          onUpdate: 'CASCADE',
+          onDelete: 'CASCADE',
+          comment: 'Member of the company'
+        },
+        company_id: {
+          type: Sequelize.UUID,
+          allowNull: false,
+          references: {
+            model: 'Companies',
+            key: 'id'
+          },
+          onUpdate: 'CASCADE',
+          onDelete: 'CASCADE',
+          comment: 'Company the user can act in besides their home company'
+        },
+        role_id: {
+          type: Sequelize.UUID,
+          allowNull: false,
+          references: {
+            model: 'Roles',
+            key: 'id'
+          },
+          onUpdate: 'CASCADE',
+          onDelete: 'RESTRICT',
+          comment: 'Role of the user while acting in this company'
+        },
+        status: {
+          type: Sequelize.ENUM('active', 'revoked'),
+          allowNull: false,
+          defaultValue: 'active',
+          comment: 'Only active memberships can be selected as the active company'
+        },
+        added_by: {
+          type: Sequelize.UUID,
+          allowNull: true,
+          references: {
+            model: 'Users',
+            key: 'id'
+          },
+          onUpdate: 'CASCADE',
+          onDelete: 'SET NULL',
+          comment: 'Company admin who added the member'
+        },
+        revoked_at: {
+          type: Sequelize.DATE,
+          allowNull: true,
+          comment: 'When the membership was revoked'
+        },
+        revoked_by: {
+          type: Sequelize.UUID,
+          allowNull: true,
+          references: {
+            model: 'Users',
+            key: 'id'
+          },
+          onUpdate: 'CASCADE',
+          onDelete: 'SET NULL',
+          comment: 'Company admin who revoked the membership'
+        },
+        created_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+          defaultValue: Sequelize.fn('NOW')
+        },
+        updated_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+          defaultValue: Sequelize.fn('NOW')
+        }
+      }, {
+        comment: 'Memberships of users in companies other than their home company'
+      });
+
+      console.log('Adding indexes for company memberships...');
+
+      await queryInterface.addIndex('CompanyMemberships', ['user_id', 'company_id'], {
+        name: 'uq_company_memberships_user_company',
+        unique: true,
+        comment: 'A user has at most one membership per company'
+      });
+
+      await queryInterface.addIndex('CompanyMemberships', ['company_id', 'status'], {
+        name: 'idx_company_memberships_company_status',
+        comment: 'Optimizes tenant checks and listing the members of a company'
+      });
+
+      console.log('CompanyMemberships table and indexes created successfully');
+    } catch (error) {
+      console.error('Error creating CompanyMemberships table:', error);
+      throw error;
+    }
+  },
+
+  async down(queryInterface, Sequelize) {
+    try {
+      console.log('Dropping CompanyMemberships table...');
+
+      await queryInterface.dropTable('CompanyMemberships');
+
+      console.log('CompanyMemberships table dropped successfully');
+    } catch (error) {
+      console.error('Error dropping CompanyMemberships table:', error);
+      throw error;
+    }
+  }
+};
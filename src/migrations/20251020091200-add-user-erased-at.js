@@ -0,0 +1,34 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    try {
+      console.log('Adding erased_at column to Users table...');
+
+      await queryInterface.addColumn('Users', 'erased_at', {
+        type: Sequelize.DATE,
+        allowNull: true,
+        comment: 'When the personal data of the user was erased (GDPR right to be forgotten)'
+      });
+
+      console.log('erased_at column added successfully');
+    } catch (error) {
+      console.error('Error adding erased_at column:', error);
+      throw error;
+    }
+  },
+
+  async down(queryInterface, Sequelize) {
+    try {
+      console.log('Removing erased_at column from Users table...');
+
+      await queryInterface.removeColumn('Users', 'erased_at');
+
+      console.log('erased_at column removed successfully');
+    } catch (error) {
+      console.error('Error removing erased_at column:', error);
+      throw error;
+    }
+  }
+};
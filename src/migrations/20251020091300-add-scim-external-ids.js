@@ -0,0 +1,57 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    try {
+      console.log('Adding scim_external_id columns to Users and Teams tables...');
+
+      await queryInterface.addColumn('Users', 'scim_external_id', {
+        type: Sequelize.STRING(255),
+        allowNull: true,
+        comment: 'Identifier of the user in the company directory that provisions it over SCIM'
+      });
+
+      await queryInterface.addColumn('Teams', 'scim_external_id', {
+        type: Sequelize.STRING(255),
+        allowNull: true,
+        comment: 'Identifier of the group in the company directory that provisions it over SCIM'
+      });
+
+      console.log('Adding indexes for SCIM external IDs...');
+
+      await queryInterface.addIndex('Users', ['company_id', 'scim_external_id'], {
+        name: 'uq_users_company_scim_external_id',
+        unique: true,
+        comment: 'External IDs are unique within the directory of a company'
+      });
+
+      await queryInterface.addIndex('Teams', ['company_id', 'scim_external_id'], {
+        name: 'uq_teams_company_scim_external_id',
+        unique: true,
+        comment: 'External IDs are unique within the directory of a company'
+      });
+
+      console.log('SCIM external ID columns added successfully');
+    } catch (error) {
+      console.error('Error adding SCIM external ID columns:', error);
+      throw error;
+    }
+  },
+
+  async down(queryInterface, Sequelize) {
+    try {
+      console.log('Removing scim_external_id columns from Users and Teams tables...');
+
+      await queryInterface.removeIndex('Teams', 'uq_teams_company_scim_external_id');
+      await queryInterface.removeIndex('Users', 'uq_users_company_scim_external_id');
+      await queryInterface.removeColumn('Teams', 'scim_external_id');
+      await queryInterface.removeColumn('Users', 'scim_external_id');
+
+      console.log('SCIM external ID columns removed successfully');
+    } catch (error) {
+      console.error('Error removing SCIM external ID columns:', error);
+      throw error;
+    }
+  }
+};
@@ -0,0 +1,243 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    try {
+      console.log('Creating UserSessions table...');
+
+      await queryInterface.createTable('UserSessions', {
+        id: {
+          type: Sequelize.UUID,
+          defaultValue: Sequelize.UUIDV4,
+          primaryKey: true,
+          comment: 'Primary key for user session'
+        },
+        user_id: {
+          type: Sequelize.UUID,
+          allowNull: false,
+          references: {
+            model: 'Users',
+            key: 'id'
+          },
+          onUpdate: 'CASCADE',
+          onDelete: 'CASCADE',
+          comment: 'User that authenticated from the device'
+        },
+        company_id: {
+          type: Sequelize.UUID,
+          allowNull: true,
+          references: {
+            model: 'Companies',
+            key: 'id'
+          },
+          onUpdate: 'CASCADE',
+          onDelete: 'SET NULL',
+          comment: 'Home company of the user when the device was last seen'
+        },
+        device_hash: {
+          type: Sequelize.CHAR(64),
+          allowNull: false,
+          comment: 'SHA-256 of the client platform and user agent'
+        },
+        user_agent: {
+          type: Sequelize.STRING(500),
+          allowNull: true,
+          comment: 'User-Agent header of the device'
+        },
+        client_platform: {
+          type: Sequelize.STRING(20),
+          allowNull: false,
+          comment: 'X-Client-Platform header (ios, android, web), or unknown'
+        },
+        ip_address: {
+          type: Sequelize.STRING(45),
+          allowNull: true,
+          comment: 'IP address of the latest request from the device'
+        },
+        country_code: {
+          type: Sequelize.CHAR(2),
+          allowNull: true,
+          comment: 'Country of ip_address in the GeoIP file'
+        },
+        latitude: {
+          type: Sequelize.DOUBLE,
+          allowNull: true,
+          comment: 'Latitude of ip_address in the GeoIP file'
+        },
+        longitude: {
+          type: Sequelize.DOUBLE,
+          allowNull: true,
+          comment: 'Longitude of ip_address in the GeoIP file'
+        },
+        first_seen_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+          comment: 'First authenticated request from the device'
+        },
+        last_seen_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+          comment: 'Latest recorded request from the device'
+        },
+        created_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+          defaultValue: Sequelize.fn('NOW')
+        },
+        updated_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+          defaultValue: Sequelize.fn('NOW')
+        }
+      }, {
+        comment: 'Devices users authenticate from, with the location of their latest request'
+      });
+
+      await queryInterface.addIndex('UserSessions', ['user_id', 'device_hash'], {
+        name: 'uq_user_sessions_user_device',
+        unique: true,
+        comment: 'One row per device of a user'
+      });
+
+      await queryInterface.addIndex('UserSessions', ['user_id', 'last_seen_at'], {
+        name: 'idx_user_sessions_user_last_seen',
+        comment: 'Optimizes finding the most recently used devices of a user'
+      });
+
+      console.log('Creating LoginAnomalies table...');
+
+      await queryInterface.createTable('LoginAnomalies', {
+        id: {
+          type: Sequelize.UUID,
+          defaultValue: Sequelize.UUIDV4,
+          primaryKey: true,
+          comment: 'Primary key for login anomaly'
+        },
+        type: {
+          type: Sequelize.ENUM('NEW_DEVICE', 'IMPOSSIBLE_TRAVEL', 'AUTH_FAILURE_BURST'),
+          allowNull: false,
+          comment: 'Heuristic that flagged the login'
+        },
+        user_id: {
+          type: Sequelize.UUID,
+          allowNull: true,
+          references: {
+            model: 'Users',
+            key: 'id'
+          },
+          onUpdate: 'CASCADE',
+          onDelete: 'CASCADE',
+          comment: 'Flagged user; null for failure bursts, which are tracked by IP address'
+        },
+        company_id: {
+          type: Sequelize.UUID,
+          allowNull: true,
+          references: {
+            model: 'Companies',
+            key: 'id'
+          },
+          onUpdate: 'CASCADE',
+          onDelete: 'SET NULL',
+          comment: 'Home company of the flagged user'
+        },
+        session_id: {
+          type: Sequelize.UUID,
+          allowNull: true,
+          references: {
+            model: 'UserSessions',
+            key: 'id'
+          },
+          onUpdate: 'CASCADE',
+          onDelete: 'SET NULL',
+          comment: 'Device of the flagged request'
+        },
+        ip_address: {
+          type: Sequelize.STRING(45),
+          allowNull: true,
+          comment: 'IP address of the flagged request'
+        },
+        details: {
+          type: Sequelize.JSON,
+          allowNull: false,
+          comment: 'Evidence of the heuristic (e.g. previous location and travel speed)'
+        },
+        requires_reauthentication: {
+          type: Sequelize.BOOLEAN,
+          allowNull: false,
+          defaultValue: false,
+          comment: 'Whether the tokens of the user were revoked by the flag'
+        },
+        resolved_at: {
+          type: Sequelize.DATE,
+          allowNull: true,
+          comment: 'When Acme staff reviewed the flag'
+        },
+        resolved_by: {
+          type: Sequelize.UUID,
+          allowNull: true,
+          references: {
+            model: 'Users',
+            key: 'id'
+          },
+          onUpdate: 'CASCADE',
+          onDelete: 'SET NULL',
+          comment: 'Staff member who reviewed the flag'
+        },
+        resolution_notes: {
+          type: Sequelize.STRING(500),
+          allowNull: true,
+          comment: 'Outcome of the review'
+        },
+        created_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+          defaultValue: Sequelize.fn('NOW')
+        },
+        updated_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+          defaultValue: Sequelize.fn('NOW')
+        }
+      }, {
+        comment: 'Suspicious logins flagged for review by Acme staff'
+      });
+
+      console.log('Adding indexes for login anomalies...');
+
+      await queryInterface.addIndex('LoginAnomalies', ['company_id', 'created_at'], {
+        name: 'idx_login_anomalies_company_date',
+        comment: 'Optimizes listing the flags of a company'
+      });
+
+      await queryInterface.addIndex('LoginAnomalies', ['user_id', 'created_at'], {
+        name: 'idx_login_anomalies_user_date',
+        comment: 'Optimizes listing the flags of a user'
+      });
+
+      await queryInterface.addIndex('LoginAnomalies', ['resolved_at', 'created_at'], {
+        name: 'idx_login_anomalies_resolved_date',
+        comment: 'Optimizes listing the open flags'
+      });
+
+      console.log('UserSessions and LoginAnomalies tables created successfully');
+    } catch (error) {
+      console.error('Error creating login security tables:', error);
+      throw error;
+    }
+  },
+
+  async down(queryInterface, Sequelize) {
+    try {
+      console.log('Dropping LoginAnomalies and UserSessions tables...');
+
+      await queryInterface.dropTable('LoginAnomalies');
+      await queryInterface.dropTable('UserSessions');
+
+      console.log('LoginAnomalies and UserSessions tables dropped successfully');
+    } catch (error) {
+      console.error('Error dropping login security tables:', error);
+      throw error;
+    }
+  }
+};
@@ -0,0 +1,249 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    try {
+      console.log('Creating RoleAssignments table...');
+
+      await queryInterface.createTable('RoleAssignments', {
+        id: {
+          type: Sequelize.UUID,
+          defaultValue: Sequelize.UUIDV4,
+          primaryKey: true,
+          comment: 'Primary key for role assignment'
+        },
+        user_id: {
+          type: Sequelize.UUID,
+          allowNull: false,
+          references: {
+            model: 'Users',
+            key: 'id'
+          },
+          onUpdate: 'CASCADE',
+          onDelete: 'CASCADE',
+          comment: 'User that gets the role'
+        },
+        role_id: {
+          type: Sequelize.UUID,
+          allowNull: false,
+          references: {
+            model: 'Roles',
+            key: 'id'
+          },
+          onUpdate: 'CASCADE',
+          onDelete: 'CASCADE',
+          comment: 'Role given to the user for the period'
+        },
+        previous_role_id: {
+          type: Sequelize.UUID,
+          allowNull: true,
+          references: {
+            model: 'Roles',
+            key: 'id'
+          },
+          onUpdate: 'CASCADE',
+          onDelete: 'SET NULL',
+          comment: 'Role the user had when the assignment started, restored when it ends'
+        },
+        effective_from: {
+          type: Sequelize.DATE,
+          allowNull: false,
+          comment: 'When the role takes effect'
+        },
+        effective_until: {
+          type: Sequelize.DATE,
+          allowNull: true,
+          comment: 'When the previous role is restored; null for a permanent change'
+        },
+        status: {
+          type: Sequelize.ENUM('SCHEDULED', 'ACTIVE', 'ENDED'),
+          allowNull: false,
+          defaultValue: 'SCHEDULED',
+          comment: 'SCHEDULED until effective_from, ACTIVE while in effect, then ENDED'
+        },
+        reason: {
+          type: Sequelize.STRING(500),
+          allowNull: true,
+          comment: 'Why the role was assigned'
+        },
+        assigned_by: {
+          type: Sequelize.UUID,
+          allowNull: true,
+          references: {
+            model: 'Users',
+            key: 'id'
+          },
+          onUpdate: 'CASCADE',
+          onDelete: 'SET NULL',
+          comment: 'User who scheduled the assignment'
+        },
+        started_at: {
+          type: Sequelize.DATE,
+          allowNull: true,
+          comment: 'When the sweep applied the role'
+        },
+        ended_at: {
+          type: Sequelize.DATE,
+          allowNull: true,
+          comment: 'When the assignment ended or was replaced'
+        },
+        created_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+          defaultValue: Sequelize.fn('NOW')
+        },
+        updated_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+          defaultValue: Sequelize.fn('NOW')
+        }
+      }, {
+        comment: 'Effective-dated role changes, applied and reverted by the role assignment sweep'
+      });
+
+      await queryInterface.addIndex('RoleAssignments', ['user_id', 'status'], {
+        name: 'idx_role_assignments_user_status',
+        comment: 'Optimizes finding the open assignments of a user'
+      });
+
+      await queryInterface.addIndex('RoleAssignments', ['status', 'effective_from'], {
+        name: 'idx_role_assignments_status_from',
+        comment: 'Optimizes finding the assignments due to start'
+      });
+
+      await queryInterface.addIndex('RoleAssignments', ['status', 'effective_until'], {
+        name: 'idx_role_assignments_status_until',
+        comment: 'Optimizes finding the assignments due to end'
+      });
+
+      console.log('Creating RoleChanges table...');
+
+      await queryInterface.createTable('RoleChanges', {
+        id: {
+          type: Sequelize.UUID,
+          defaultValue: Sequelize.UUIDV4,
+          primaryKey: true,
+          comment: 'Primary key for role change'
+        },
+        user_id: {
+          type: Sequelize.UUID,
+          allowNull: false,
+          references: {
+            model: 'Users',
+            key: 'id'
+          },
+          onUpdate: 'CASCADE',
+          onDelete: 'CASCADE',
+          comment: 'User whose role changed'
+        },
+        company_id: {
+          type: Sequelize.UUID,
+          allowNull: true,
+          references: {
+            model: 'Companies',
+            key: 'id'
+          },
+          onUpdate: 'CASCADE',
+          onDelete: 'SET NULL',
+          comment: 'Company of the user at the time of the change'
+        },
+        previous_role_id: {
+          type: Sequelize.UUID,
+          allowNull: true,
+          references: {
+            model: 'Roles',
+            key: 'id'
+          },
+          onUpdate: 'CASCADE',
+          onDelete: 'SET NULL',
+          comment: 'Role before the change'
+        },
+        new_role_id: {
+          type: Sequelize.UUID,
+          allowNull: false,
+          references: {
+            model: 'Roles',
+            key: 'id'
+          },
+          onUpdate: 'CASCADE',
+          onDelete: 'CASCADE',
+          comment: 'Role after the change'
+        },
+        source: {
+          type: Sequelize.ENUM('MANUAL', 'ASSIGNMENT_STARTED', 'ASSIGNMENT_ENDED'),
+          allowNull: false,
+          comment: 'Whether the change was made right away or by a role assignment'
+        },
+        assignment_id: {
+          type: Sequelize.UUID,
+          allowNull: true,
+          references: {
+            model: 'RoleAssignments',
+            key: 'id'
+          },
+          onUpdate: 'CASCADE',
+          onDelete: 'SET NULL',
+          comment: 'Role assignment that started or ended'
+        },
+        changed_by: {
+          type: Sequelize.UUID,
+          allowNull: true,
+          references: {
+            model: 'Users',
+            key: 'id'
+          },
+          onUpdate: 'CASCADE',
+          onDelete: 'SET NULL',
+          comment: 'User who requested the change; null when an assignment ended on schedule'
+        },
+        reason: {
+          type: Sequelize.STRING(500),
+          allowNull: true,
+          comment: 'Why the role was changed'
+        },
+        changed_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+          comment: 'When the role changed'
+        },
+        created_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+          defaultValue: Sequelize.fn('NOW')
+        },
+        updated_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+          defaultValue: Sequelize.fn('NOW')
+        }
+      }, {
+        comment: 'Every change of Users.role_id, the role timeline of each user'
+      });
+
+      await queryInterface.addIndex('RoleChanges', ['user_id', 'changed_at'], {
+        name: 'idx_role_changes_user_date',
+        comment: 'Optimizes the role history of a user'
+      });
+
+      console.log('RoleAssignments and RoleChanges tables created successfully');
+    } catch (error) {
+      console.error('Error creating role history tables:', error);
+      throw error;
+    }
+  },
+
+  async down(queryInterface, Sequelize) {
+    try {
+      console.log('Dropping RoleChanges and RoleAssignments tables...');
+
+      await queryInterface.dropTable('RoleChanges');
+      await queryInterface.dropTable('RoleAssignments');
+
+      console.log('RoleChanges and RoleAssignments tables dropped successfully');
+    } catch (error) {
+      console.error('Error dropping role history tables:', error);
+      throw error;
+    }
+  }
+};
@@ -0,0 +1,81 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    try {
+      console.log('Adding expiry and revocation columns to UserPermissions table...');
+
+      await queryInterface.addColumn('UserPermissions', 'expires_at', {
+        type: Sequelize.DATE,
+        allowNull: true,
+        comment: 'When the grant stops counting; null for a grant that does not expire'
+      });
+
+      await queryInterface.addColumn('UserPermissions', 'reason', {
+        type: Sequelize.STRING(500),
+        allowNull: true,
+        comment: 'Why the permission was granted'
+      });
+
+      await queryInterface.addColumn('UserPermissions', 'revoked_at', {
+        type: Sequelize.DATE,
+        allowNull: true,
+        comment: 'When the grant was revoked'
+      });
+
+      await queryInterface.addColumn('UserPermissions', 'revoked_by', {
+        type: Sequelize.UUID,
+        allowNull: true,
+        references: {
+          model: 'Users',
+          key: 'id'
+        },
+        onUpdate: 'CASCADE',
+        onDelete: 'SET NULL',
+        comment: 'User who revoked the grant'
+      });
+
+      await queryInterface.addColumn('UserPermissions', 'revocation_reason', {
+        type: Sequelize.STRING(500),
+        allowNull: true,
+        comment: 'Why the grant was revoked'
+      });
+
+      await queryInterface.addColumn('UserPermissions', 'expiry_flagged_at', {
+        type: Sequelize.DATE,
+        allowNull: true,
+        comment: 'When the expiry sweep reported that the grant expires soon'
+      });
+
+      await queryInterface.addIndex('UserPermissions', ['expires_at'], {
+        name: 'idx_user_permissions_expires',
+        comment: 'Optimizes finding the grants that expire soon'
+      });
+
+      console.log('UserPermissions expiry and revocation columns added successfully');
+    } catch (error) {
+      console.error('Error adding UserPermissions expiry and revocation columns:', error);
+      throw error;
+    }
+  },
+
+  async down(queryInterface, Sequelize) {
+    try {
+      console.log('Removing expiry and revocation columns from UserPermissions table...');
+
+      await queryInterface.removeIndex('UserPermissions', 'idx_user_permissions_expires');
+      await queryInterface.removeColumn('UserPermissions', 'expiry_flagged_at');
+      await queryInterface.removeColumn('UserPermissions', 'revocation_reason');
+      await queryInterface.removeColumn('UserPermissions', 'revoked_by');
+      await queryInterface.removeColumn('UserPermissions', 'revoked_at');
+      await queryInterface.removeColumn('UserPermissions', 'reason');
+      await queryInterface.removeColumn('UserPermissions', 'expires_at');
+
+      console.log('UserPermissions expiry and revocation columns removed successfully');
+    } catch (error) {
+      console.error('Error removing UserPermissions expiry and revocation columns:', error);
+      throw error;
+    }
+  }
+};
@@ -0,0 +1,41 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    try {
+      console.log('Adding policy conditions to RolePermissions and UserPermissions tables...');
+
+      await queryInterface.addColumn('RolePermissions', 'conditions', {
+        type: Sequelize.JSON,
+        allowNull: true,
+        comment: 'Policy conditions that must hold for the role permission to apply'
+      });
+
+      await queryInterface.addColumn('UserPermissions', 'conditions', {
+        type: Sequelize.JSON,
+        allowNull: true,
+        comment: 'Policy conditions that must hold for the direct grant to apply'
+      });
+
+      console.log('Policy condition columns added successfully');
+    } catch (error) {
+      console.error('Error adding policy condition columns:', error);
+      throw error;
+    }
+  },
+
+  async down(queryInterface, Sequelize) {
+    try {
+      console.log('Removing policy conditions from RolePermissions and UserPermissions tables...');
+
+      await queryInterface.removeColumn('UserPermissions', 'conditions');
+      await queryInterface.removeColumn('RolePermissions', 'conditions');
+
+      console.log('Policy condition columns removed successfully');
+    } catch (error) {
+      console.error('Error removing policy condition columns:', error);
+      throw error;
+    }
+  }
+};
@@ -0,0 +1,45 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    try {
+      console.log('Adding parent_role_id to Roles table...');
+
+      await queryInterface.addColumn('Roles', 'parent_role_id', {
+        type: Sequelize.UUID,
+        allowNull: true,
+        references: {
+          model: 'Roles',
+          key: 'id'
+        },
+        onUpdate: 'CASCADE',
+        onDelete: 'SET NULL',
+        comment: 'Role whose permissions this role inherits'
+      });
+
+      await queryInterface.addIndex('Roles', ['parent_role_id'], {
+        name: 'roles_parent_role_id_idx'
+      });
+
+      console.log('parent_role_id added successfully');
+    } catch (error) {
+      console.error('Error adding parent_role_id:', error);
+      throw error;
+    }
+  },
+
+  async down(queryInterface, Sequelize) {
+    try {
+      console.log('Removing parent_role_id from Roles table...');
+
+      await queryInterface.removeIndex('Roles', 'roles_parent_role_id_idx');
+      await queryInterface.removeColumn('Roles', 'parent_role_id');
+
+      console.log('parent_role_id removed successfully');
+    } catch (error) {
+      console.error('Error removing parent_role_id:', error);
+      throw error;
+    }
+  }
+};
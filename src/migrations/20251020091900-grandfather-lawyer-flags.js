@@ -0,0 +1,45 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    try {
+      console.log('Adding lawyer_flag_grandfathered column to Users table...');
+
+      await queryInterface.addColumn('Users', 'lawyer_flag_grandfathered', {
+        type: Sequelize.BOOLEAN,
+        allowNull: false,
+        defaultValue: false,
+        comment: 'is_lawyer was set by hand before lawyer credentials existed and no credential backs it yet'
+      });
+
+      console.log('Grandfathering existing is_lawyer flags...');
+
+      // is_lawyer used to be set by hand and is now derived from LawyerCredentials. Existing
+      // lawyers keep their flag until they submit a credential; the expiry sweep reports them.
+      await queryInterface.sequelize.query(`
+        UPDATE Users
+        SET lawyer_flag_grandfathered = true
+        WHERE is_lawyer = true
+      `);
+
+      console.log('Existing is_lawyer flags grandfathered successfully');
+    } catch (error) {
+      console.error('Error grandfathering is_lawyer flags:', error);
+      throw error;
+    }
+  },
+
+  async down(queryInterface) {
+    try {
+      console.log('Removing lawyer_flag_grandfathered column from Users table...');
+
+      await queryInterface.removeColumn('Users', 'lawyer_flag_grandfathered');
+
+      console.log('lawyer_flag_grandfathered column removed successfully');
+    } catch (error) {
+      console.error('Error removing lawyer_flag_grandfathered column:', error);
+      throw error;
+    }
+  }
+};
@@ -0,0 +1,69 @@
+import { Controller, Get, Param, Query, UseGuards } from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { RequirePermissions } from '../../core/decorators/require-permissions.decorator';
+import { JwtAuthGuard } from '../../core/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../../core/guards/permissions.guard';
+import { SuperAdminBypassGuard } from '../../core/guards/super-admin-bypass.guard';
+import { User } from '../auth/entities/user.entity';
+import {
+  AuditChainVerificationResult,
+  AuditExport,
+  AuditTrailService,
+} from './audit-trail.service';
+import { AuditExportQueryDto } from './dto/audit-export-query.dto';
+
+@ApiTags('Audit')
+@Controller('audit')
+@UseGuards(JwtAuthGuard, SuperAdminBypassGuard, PermissionsGuard)
+@ApiBearerAuth()
+export class AuditTrailController {
+  constructor(private readonly auditTrailService: AuditTrailService) {}
+
+  @Get('tenants/:tenantId/verify')
+  @RequirePermissions('VIEW_AUDIT_LOGS')
+  @ApiOperation({
+    summary: 'Verify the audit chain of a tenant',
+    description:
+      'Recomputes every hash of the chain and reports edited, deleted or truncated records',
+  })
+  @ApiParam({ name: 'tenantId', description: 'Company UUID, or "platform"' })
+  @ApiResponse({ status: 200, description: 'Verification result' })
+  @ApiResponse({ status: 400, description: 'Invalid tenant' })
+  @ApiResponse({ status: 403, description: 'No access to this tenant' })
+  async verifyChain(
+    @Param('tenantId') tenantId: string,
+    @CurrentUser() user: User
+  ): Promise<AuditChainVerificationResult> {
+    this.auditTrailService.assertTenantAccess(tenantId, user);
+    return this.auditTrailService.verifyChain(tenantId);
+  }
+
+  @Get('tenants/:tenantId/export')
+  @RequirePermissions('VIEW_AUDIT_LOGS')
+  @ApiOperation({
+    summary: 'Export the audit chain of a tenant for a date range',
+    description: 'Returns the records as NDJSON together with a signed manifest of their hashes',
+  })
+  @ApiParam({ name: 'tenantId', description: 'Company UUID, or "platform"' })
+  @ApiQuery({ name: 'startDate', required: true, type: String })
+  @ApiQuery({ name: 'endDate', required: true, type: String })
+  @ApiResponse({ status: 200, description: 'Signed export' })
+  @ApiResponse({ status: 400, description: 'Invalid tenant or date range' })
+  @ApiResponse({ status: 403, description: 'No access to this tenant' })
+  async exportChain(
+    @Param('tenantId') tenantId: string,
+    @Query() query: AuditExportQueryDto,
+    @CurrentUser() user: User
+  ): Promise<AuditExport> {
+    this.auditTrailService.assertTenantAccess(tenantId, user);
+    return this.auditTrailService.exportChain(tenantId, query.startDate, query.endDate);
+  }
+}
@@ -0,0 +1,326 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getConnectionToken, getModelToken } from '@nestjs/sequelize';
+import {
+  BadRequestException,
+  ForbiddenException,
+  InternalServerErrorException,
+} from '@nestjs/common';
+import { createHash, createHmac } from 'crypto';
+import { Op } from 'sequelize';
+import { AuditTrailService } from './audit-trail.service';
+import { AuditChainHead } from './entities/audit-chain-head.entity';
+import {
+  AuditRecord,
+  AuditSource,
+  GENESIS_HASH,
+  PLATFORM_TENANT_ID,
+} from './entities/audit-record.entity';
+import { User, UserRole } from '../auth/entities/user.entity';
+
+type StoredRecord = Record<string, any>;
+type StoredHead = { tenant_id: string; last_sequence: number; last_hash: string };
+
+describe('AuditTrailService', () => {
+  const tenantId = 'c4a8f4b0-8d2a-4b6d-8f9c-1e2b3d4a5f6a';
+
+  let service: AuditTrailService;
+  let records: StoredRecord[];
+  let heads: Map<string, StoredHead>;
+  let signingKey: string | undefined;
+
+  const mockTransaction = { LOCK: { UPDATE: 'UPDATE' } };
+
+  const headInstance = (head: StoredHead) => ({
+    ...head,
+    update: jest.fn((values: Partial<StoredHead>) => Object.assign(head, values)),
+  });
+
+  const mockAuditRecordModel = {
+    create: jest.fn((values: StoredRecord) => {
+      const record = { id: `record-${records.length + 1}`, ...values };
+      records.push(record);
+      return Promise.resolve(record);
+    }),
+    findAll: jest.fn(({ where, limit }: { where: any; limit?: number }) => {
+      let rows = records
+        .filter((record) => record.tenant_id === where.tenant_id)
+        .sort((a, b) => a.sequence - b.sequence);
+      if (where.sequence) {
+        rows = rows.filter((record) => record.sequence >= where.sequence[Op.gte]);
+      }
+      if (where.performed_at) {
+        rows = rows.filter(
+          (record) =>
+            record.performed_at >= where.performed_at[Op.gte] &&
+            record.performed_at <= where.performed_at[Op.lte]
+        );
+      }
+      return Promise.resolve(limit ? rows.slice(0, limit) : rows);
+    }),
+  };
+
+  const mockAuditChainHeadModel = {
+    findOrCreate: jest.fn(({ where, defaults }: { where: any; defaults: StoredHead }) => {
+      if (!heads.has(where.tenant_id)) {
+        heads.set(where.tenant_id, { ...defaults });
+      }
+      return Promise.resolve([heads.get(where.tenant_id), false]);
+    }),
+    findByPk: jest.fn((id: string) => {
+      const head = heads.get(id);
+      return Promise.resolve(head ? headInstance(head) : null);
+    }),
+  };
+
+  const appendEntries = async (count: number) => {
+    for (let i = 0; i < count; i++) {
+      await service.append({
+        tenantId,
+        source: AuditSource.COMPANY,
+        action: 'VENDOR_APPROVED',
+        entityId: tenantId,
+        performedBy: 'a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11',
+        performedAt: new Date(Date.UTC(2025, 0, i + 1)),
+        payload: { newStatus: 'ACTIVE', reason: `reason ${i}` },
+      });
+    }
+  };
+
+  beforeEach(async () => {
+    records = [];
+    heads = new Map();
+    signingKey = 'test-signing-key';
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AuditTrailService,
+        { provide: getModelToken(AuditRecord), useValue: mockAuditRecordModel },
+        { provide: getModelToken(AuditChainHead), useValue: mockAuditChainHeadModel },
+        {
+          provide: getConnectionToken(),
+          useValue: {
+            transaction: jest.fn((callback: (transaction: unknown) => unknown) =>
+              callback(mockTransaction)
+            ),
+          },
+        },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn(() => signingKey) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<AuditTrailService>(AuditTrailService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('append', () => {
+    it('should link each record to the hash of the previous record of the tenant', async () => {
+      await appendEntries(3);
+
+      expect(records.map((record) => record.sequence)).toEqual([1, 2, 3]);
+      expect(records[0].prev_hash).toBe(GENESIS_HASH);
+      expect(records[1].prev_hash).toBe(records[0].hash);
+      expect(records[2].prev_hash).toBe(records[1].hash);
+      expect(records[2].hash).toBe(AuditTrailService.computeHash(records[2] as any));
+      expect(heads.get(tenantId)).toEqual(
+        expect.objectContaining({ last_sequence: 3, last_hash: records[2].hash })
+      );
+    });
+
+    it('should lock the chain head within the given transaction', async () => {
+      const transaction = { LOCK: { UPDATE: 'UPDATE' } } as any;
+
+      await service.append(
+        { tenantId, source: AuditSource.TEAM, action: 'TEAM_CREATED' },
+        transaction
+      );
+
+      expect(mockAuditChainHeadModel.findByPk).toHaveBeenCalledWith(tenantId, {
+        transaction,
+        lock: 'UPDATE',
+      });
+      expect(mockAuditRecordModel.create).toHaveBeenCalledWith(expect.any(Object), { transaction });
+    });
+
+    it('should keep separate chains per tenant and use the platform chain without a company', async () => {
+      await appendEntries(1);
+      await service.append({ source: AuditSource.USER, action: 'USER_ROLE_CHANGED' });
+
+      const platformRecord = records.find((record) => record.tenant_id === PLATFORM_TENANT_ID);
+      expect(platformRecord).toEqual(
+        expect.objectContaining({ sequence: 1, prev_hash: GENESIS_HASH })
+      );
+    });
+
+    it('should produce the same hash regardless of payload key order', () => {
+      const base = {
+        tenant_id: tenantId,
+        sequence: 1,
+        source: AuditSource.COMPANY,
+        action: 'VENDOR_APPROVED',
+        performed_at: new Date('2025-01-01T00:00:00.000Z'),
+        prev_hash: GENESIS_HASH,
+      };
+
+      expect(AuditTrailService.computeHash({ ...base, payload: { a: 1, b: { c: 2, d: 3 } } })).toBe(
+        AuditTrailService.computeHash({ ...base, payload: { b: { d: 3, c: 2 }, a: 1 } })
+      );
+    });
+  });
+
+  describe('verifyChain', () => {
+    it('should report an intact chain as valid', async () => {
+      await appendEntries(3);
+
+      const result = await service.verifyChain(tenantId);
+
+      expect(result).toEqual(
+        expect.objectContaining({
+          tenantId,
+          valid: true,
+          recordCount: 3,
+          lastSequence: 3,
+          headSequence: 3,
+          issues: [],
+        })
+      );
+    });
+
+    it('should detect an edited record', async () => {
+      await appendEntries(3);
+      records[1].payload = { newStatus: 'ACTIVE', reason: 'tampered' };
+
+      const result = await service.verifyChain(tenantId);
+
+      expect(result.valid).toBe(false);
+      expect(result.issues).toEqual([
+        expect.objectContaining({ sequence: 2, recordId: records[1].id, reason: 'HASH_MISMATCH' }),
+      ]);
+    });
+
+    it('should detect a record edited together with its own hash', async () => {
+      await appendEntries(3);
+      records[1].action = 'VENDOR_REJECTED';
+      records[1].hash = AuditTrailService.computeHash(records[1] as any);
+
+      const result = await service.verifyChain(tenantId);
+
+      expect(result.issues).toEqual([
+        expect.objectContaining({ sequence: 3, reason: 'PREV_HASH_MISMATCH' }),
+      ]);
+    });
+
+    it('should detect a deleted record', async () => {
+      await appendEntries(3);
+      records.splice(1, 1);
+
+      const result = await service.verifyChain(tenantId);
+
+      expect(result.valid).toBe(false);
+      expect(result.issues).toEqual([
+        expect.objectContaining({ sequence: 2, reason: 'SEQUENCE_GAP' }),
+        expect.objectContaining({ sequence: 3, reason: 'PREV_HASH_MISMATCH' }),
+      ]);
+    });
+
+    it('should detect records removed from the end of the chain', async () => {
+      await appendEntries(3);
+      records.pop();
+
+      const result = await service.verifyChain(tenantId);
+
+      expect(result.valid).toBe(false);
+      expect(result.lastSequence).toBe(2);
+      expect(result.headSequence).toBe(3);
+      expect(result.issues).toEqual([expect.objectContaining({ reason: 'HEAD_MISMATCH' })]);
+    });
+
+    it('should reject an invalid tenant identifier', async () => {
+      await expect(service.verifyChain('not-a-tenant')).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('exportChain', () => {
+    it('should export the records in range as NDJSON with a signed manifest', async () => {
+      await appendEntries(3);
+
+      const { manifest, ndjson } = await service.exportChain(
+        tenantId,
+        '2025-01-02T00:00:00Z',
+        '2025-01-31T00:00:00Z'
+      );
+
+      const lines = ndjson.split('\n').map((line) => JSON.parse(line));
+      expect(lines.map((line) => line.sequence)).toEqual([2, 3]);
+      expect(manifest).toEqual(
+        expect.objectContaining({
+          tenantId,
+          recordCount: 2,
+          firstSequence: 2,
+          lastSequence: 3,
+          hashes: [
+            { sequence: 2, hash: records[1].hash },
+            { sequence: 3, hash: records[2].hash },
+          ],
+          ndjsonSha256: createHash('sha256').update(ndjson).digest('hex'),
+          algorithm: 'HMAC-SHA256',
+        })
+      );
+
+      const { signature, ...unsigned } = manifest;
+      // Keys are signed in sorted order, including those of the nested hash entries
+      const sorted = Object.fromEntries(
+        Object.entries({
+          ...unsigned,
+          hashes: unsigned.hashes.map(({ sequence, hash }) => ({ hash, sequence })),
+        }).sort(([a], [b]) => a.localeCompare(b))
+      );
+      expect(signature).toBe(
+        createHmac('sha256', 'test-signing-key').update(JSON.stringify(sorted)).digest('hex')
+      );
+    });
+
+    it('should reject a start date after the end date', async () => {
+      await expect(
+        service.exportChain(tenantId, '2025-02-01T00:00:00Z', '2025-01-01T00:00:00Z')
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should refuse to export without a signing key', async () => {
+      signingKey = undefined;
+
+      await expect(
+        service.exportChain(tenantId, '2025-01-01T00:00:00Z', '2025-02-01T00:00:00Z')
+      ).rejects.toThrow(InternalServerErrorException);
+    });
+  });
+
+  describe('assertTenantAccess', () => {
+    const userWith = (role: UserRole, companyId: string | null) =>
+      ({
+        company_id: companyId,
+        hasRoleEnum: (candidate: UserRole) => candidate === role,
+      }) as unknown as User;
+
+    it('should allow ACME admins to access any tenant', () => {
+      expect(() =>
+        service.assertTenantAccess(tenantId, userWith(UserRole.ACME_ADMIN, 'acme-company'))
+      ).not.toThrow();
+    });
+
+    it('should allow company users to access their own tenant only', () => {
+      expect(() =>
+        service.assertTenantAccess(tenantId, userWith(UserRole.VENDOR_ADMIN, tenantId))
+      ).not.toThrow();
+      expect(() =>
+        service.assertTenantAccess(PLATFORM_TENANT_ID, userWith(UserRole.VENDOR_ADMIN, tenantId))
+      ).toThrow(ForbiddenException);
+    });
+  });
+});
@@ -0,0 +1,396 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  InternalServerErrorException,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { getConnectionToken, InjectModel } from '@nestjs/sequelize';
+import { isUUID } from 'class-validator';
+import { createHash, createHmac } from 'crypto';
+import { Op, Transaction } from 'sequelize';
+import { Sequelize } from 'sequelize-typescript';
+import { ERROR_CODES } from '../../common/constants/error-codes';
+import { User, UserRole } from '../auth/entities/user.entity';
+import { AuditChainHead } from './entities/audit-chain-head.entity';
+import {
+  AuditRecord,
+  AuditSource,
+  GENESIS_HASH,
+  PLATFORM_TENANT_ID,
+} from './entities/audit-record.entity';
+
+export interface AuditTrailEntry {
+  /** Company the record belongs to; records without a company go to the platform chain */
+  tenantId?: string | null;
+  source: AuditSource;
+  action: string;
+  entityId?: string | null;
+  performedBy?: string | null;
+  performedAt?: Date;
+  payload?: Record<string, any>;
+}
+
+export type AuditChainIssueReason =
+  | 'SEQUENCE_GAP'
+  | 'PREV_HASH_MISMATCH'
+  | 'HASH_MISMATCH'
+  | 'HEAD_MISMATCH';
+
+export interface AuditChainIssue {
+  sequence: number;
+  recordId?: string;
+  reason: AuditChainIssueReason;
+  message: string;
+}
+
+export interface AuditChainVerificationResult {
+  tenantId: string;
+  valid: boolean;
+  recordCount: number;
+  lastSequence: number;
+  headSequence: number;
+  verifiedAt: string;
+  issues: AuditChainIssue[];
+}
+
+export interface AuditExportManifest {
+  tenantId: string;
+  startDate: string;
+  endDate: string;
+  generatedAt: string;
+  recordCount: number;
+  firstSequence: number | null;
+  lastSequence: number | null;
+  hashes: { sequence: number; hash: string }[];
+  ndjsonSha256: string;
+  algorithm: 'HMAC-SHA256';
+  signature: string;
+}
+
+export interface AuditExport {
+  manifest: AuditExportManifest;
+  ndjson: string;
+}
+
+const VERIFY_BATCH_SIZE = 1000;
+
+/**
+ * Recursively sorts object keys so the same content always serializes to the same string.
+ * Dates become ISO strings and undefined properties are dropped, mirroring how the
+ * payload is stored as JSON.
+ */
+function canonicalize(value: unknown): unknown {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => canonicalize(item));
+  }
+  if (value !== null && typeof value === 'object') {
+    const source = value as Record<string, unknown>;
+    return Object.keys(source)
+      .sort()
+      .reduce<Record<string, unknown>>((result, key) => {
+        if (source[key] !== undefined) {
+          result[key] = canonicalize(source[key]);
+        }
+        return result;
+      }, {});
+  }
+  return value;
+}
+
+/**
+ * Append-only, hash-chained audit store shared by companies, teams, users and permissions.
+ * Every tenant (company, or the platform for records without one) has its own chain.
+ */
+@Injectable()
+export class AuditTrailService {
+  private readonly logger = new Logger(AuditTrailService.name);
+
+  constructor(
+    @InjectModel(AuditRecord)
+    private auditRecordModel: typeof AuditRecord,
+    @InjectModel(AuditChainHead)
+    private auditChainHeadModel: typeof AuditChainHead,
+    @Inject(getConnectionToken())
+    private sequelize: Sequelize,
+    private configService: ConfigService
+  ) {}
+
+  /**
+   * Computes the hash of a record from its content and the previous hash
+   */
+  static computeHash(record: {
+    tenant_id: string;
+    sequence: number;
+    source: string;
+    action: string;
+    entity_id?: string | null;
+    performed_by?: string | null;
+    performed_at: Date;
+    payload?: Record<string, any> | null;
+    prev_hash: string;
+  }): string {
+    const content = JSON.stringify(
+      canonicalize({
+        tenantId: record.tenant_id,
+        sequence: record.sequence,
+        source: record.source,
+        action: record.action,
+        entityId: record.entity_id ?? null,
+        performedBy: record.performed_by ?? null,
+        performedAt: new Date(record.performed_at).toISOString(),
+        payload: record.payload ?? null,
+        prevHash: record.prev_hash,
+      })
+    );
+
+    return createHash('sha256').update(content).digest('hex');
+  }
+
+  /**
+   * Appends a record to its tenant chain.
+   * Runs inside the caller's transaction when one is given so the audit record commits
+   * (or rolls back) together with the change it describes.
+   */
+  async append(entry: AuditTrailEntry, transaction?: Transaction): Promise<AuditRecord> {
+    if (!transaction) {
+      return this.sequelize.transaction((ownTransaction) => this.append(entry, ownTransaction));
+    }
+
+    const tenantId = entry.tenantId || PLATFORM_TENANT_ID;
+
+    await this.auditChainHeadModel.findOrCreate({
+      where: { tenant_id: tenantId },
+      defaults: { tenant_id: tenantId, last_sequence: 0, last_hash: GENESIS_HASH },
+      transaction,
+    });
+
+    // Lock the head so concurrent appends to the same tenant are serialized
+    const head = await this.auditChainHeadModel.findByPk(tenantId, {
+      transaction,
+      lock: transaction.LOCK.UPDATE,
+    });
+
+    if (!head) {
+      throw new InternalServerErrorException(`Audit chain head missing for tenant ${tenantId}`);
+    }
+
+    const values = {
+      tenant_id: tenantId,
+      sequence: head.last_sequence + 1,
+      source: entry.source,
+      action: entry.action,
+      entity_id: entry.entityId ?? null,
+      performed_by: entry.performedBy ?? null,
+      performed_at: entry.performedAt ?? new Date(),
+      payload: (canonicalize(entry.payload ?? null) as Record<string, any> | null) ?? null,
+      prev_hash: head.last_hash,
+    };
+    const hash = AuditTrailService.computeHash(values);
+
+    const record = await this.auditRecordModel.create({ ...values, hash }, { transaction });
+    await head.update({ last_sequence: values.sequence, last_hash: hash }, { transaction });
+
+    this.logger.log(
+      `Appended ${entry.source}/${entry.action} #${values.sequence} to audit chain ${tenantId}`
+    );
+
+    return record;
+  }
+
+  /**
+   * Walks a tenant chain and reports edited, deleted or truncated records
+   */
+  async verifyChain(tenantId: string): Promise<AuditChainVerificationResult> {
+    this.assertValidTenantId(tenantId);
+
+    const issues: AuditChainIssue[] = [];
+    let expectedSequence = 1;
+    let expectedPrevHash = GENESIS_HASH;
+    let recordCount = 0;
+
+    for (;;) {
+      const batch = await this.auditRecordModel.findAll({
+        where: { tenant_id: tenantId, sequence: { [Op.gte]: expectedSequence } },
+        order: [['sequence', 'ASC']],
+        limit: VERIFY_BATCH_SIZE,
+      });
+
+      for (const record of batch) {
+        recordCount++;
+
+        if (record.sequence !== expectedSequence) {
+          issues.push({
+            sequence: expectedSequence,
+            reason: 'SEQUENCE_GAP',
+            message: `Records ${expectedSequence} to ${record.sequence - 1} are missing`,
+          });
+        }
+
+        if (record.prev_hash !== expectedPrevHash) {
+          issues.push({
+            sequence: record.sequence,
+            recordId: record.id,
+            reason: 'PREV_HASH_MISMATCH',
+            message: 'prev_hash does not match the hash of the preceding record',
+          });
+        }
+
+        if (AuditTrailService.computeHash(record) !== record.hash) {
+          issues.push({
+            sequence: record.sequence,
+            recordId: record.id,
+            reason: 'HASH_MISMATCH',
+            message: 'Record content does not match its stored hash',
+          });
+        }
+
+        expectedSequence = record.sequence + 1;
+        expectedPrevHash = record.hash;
+      }
+
+      if (batch.length < VERIFY_BATCH_SIZE) {
+        break;
+      }
+    }
+
+    const lastSequence = expectedSequence - 1;
+    const head = await this.auditChainHeadModel.findByPk(tenantId);
+    const headSequence = head?.last_sequence ?? 0;
+
+    if (headSequence !== lastSequence || (head && head.last_hash !== expectedPrevHash)) {
+      issues.push({
+        sequence: headSequence,
+        reason: 'HEAD_MISMATCH',
+        message: `Chain head is at #${headSequence} but the last stored record is #${lastSequence}`,
+      });
+    }
+
+    if (issues.length > 0) {
+      this.logger.warn(
+        `Audit chain ${tenantId} failed verification with ${issues.length} issue(s)`
+      );
+    }
+
+    return {
+      tenantId,
+      valid: issues.length === 0,
+      recordCount,
+      lastSequence,
+      headSequence,
+      verifiedAt: new Date().toISOString(),
+      issues,
+    };
+  }
+
+  /**
+   * Exports the records of a tenant performed within [startDate, endDate] as NDJSON,
+   * with a manifest listing every record hash, signed with AUDIT_EXPORT_SIGNING_KEY
+   */
+  async exportChain(tenantId: string, startDate: string, endDate: string): Promise<AuditExport> {
+    this.assertValidTenantId(tenantId);
+
+    const start = new Date(startDate);
+    const end = new Date(endDate);
+    if (start > end) {
+      throw new BadRequestException({
+        success: false,
+        code: ERROR_CODES.AUDIT_INVALID_DATE_RANGE,
+        message: 'startDate must be before endDate',
+      });
+    }
+
+    const signingKey = this.configService.get<string>('AUDIT_EXPORT_SIGNING_KEY');
+    if (!signingKey) {
+      throw new InternalServerErrorException({
+        success: false,
+        code: ERROR_CODES.AUDIT_EXPORT_NOT_CONFIGURED,
+        message: 'Audit export signing key is not configured',
+      });
+    }
+
+    const records = await this.auditRecordModel.findAll({
+      where: { tenant_id: tenantId, performed_at: { [Op.gte]: start, [Op.lte]: end } },
+      order: [['sequence', 'ASC']],
+    });
+
+    const ndjson = records
+      .map((record) =>
+        JSON.stringify({
+          id: record.id,
+          tenantId: record.tenant_id,
+          sequence: record.sequence,
+          source: record.source,
+          action: record.action,
+          entityId: record.entity_id ?? null,
+          performedBy: record.performed_by ?? null,
+          performedAt: new Date(record.performed_at).toISOString(),
+          payload: record.payload ?? null,
+          prevHash: record.prev_hash,
+          hash: record.hash,
+        })
+      )
+      .join('\n');
+
+    const unsigned: Omit<AuditExportManifest, 'signature'> = {
+      tenantId,
+      startDate: start.toISOString(),
+      endDate: end.toISOString(),
+      generatedAt: new Date().toISOString(),
+      recordCount: records.length,
+      firstSequence: records.length > 0 ? records[0].sequence : null,
+      lastSequence: records.length > 0 ? records[records.length - 1].sequence : null,
+      hashes: records.map((record) => ({ sequence: record.sequence, hash: record.hash })),
+      ndjsonSha256: createHash('sha256').update(ndjson).digest('hex'),
+      algorithm: 'HMAC-SHA256',
+    };
+
+    const signature = createHmac('sha256', signingKey)
+      .update(JSON.stringify(canonicalize(unsigned)))
+      .digest('hex');
+
+    return { manifest: { ...unsigned, signature }, ndjson };
+  }
+
+  /**
+   * Records about a user or performed by them, across every tenant, oldest first
+   */
+  async findByUser(userId: string): Promise<AuditRecord[]> {
+    return this.auditRecordModel.findAll({
+      where: { [Op.or]: [{ entity_id: userId }, { performed_by: userId }] },
+      order: [['performed_at', 'ASC']],
+    });
+  }
+
+  /**
+   * ACME admins and super admins can read any chain; everyone else only their company's
+   */
+  assertTenantAccess(tenantId: string, user: User): void {
+    if (user.hasRoleEnum(UserRole.ACME_ADMIN) || user.hasRoleEnum(UserRole.SUPER_ADMIN)) {
+      return;
+    }
+
+    if (!user.company_id || user.company_id !== tenantId) {
+      throw new ForbiddenException({
+        success: false,
+        code: ERROR_CODES.AUDIT_TENANT_ACCESS_DENIED,
+        message: 'You do not have access to this audit trail',
+      });
+    }
+  }
+
+  private assertValidTenantId(tenantId: string): void {
+    if (tenantId !== PLATFORM_TENANT_ID && !isUUID(tenantId)) {
+      throw new BadRequestException({
+        success: false,
+        code: ERROR_CODES.AUDIT_INVALID_TENANT,
+        message: `Tenant must be a company ID or "${PLATFORM_TENANT_ID}"`,
+      });
+    }
+  }
+}
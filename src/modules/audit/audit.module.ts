@@ -0,0 +1,19 @@
+import { Global, Module } from '@nestjs/common';
+import { SequelizeModule } from '@nestjs/sequelize';
+import { RoleModule } from '../role/role.module';
+import { AuditTrailController } from './audit-trail.controller';
+import { AuditTrailService } from './audit-trail.service';
+import { AuditChainHead } from './entities/audit-chain-head.entity';
+import { AuditRecord } from './entities/audit-record.entity';
+
+/**
+ * Global so that every domain module can append to the audit trail without importing it
+ */
+@Global()
+@Module({
+  imports: [SequelizeModule.forFeature([AuditRecord, AuditChainHead]), RoleModule],
+  controllers: [AuditTrailController],
+  providers: [AuditTrailService],
+  exports: [AuditTrailService],
+})
+export class AuditModule {}
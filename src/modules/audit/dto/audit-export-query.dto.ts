@@ -0,0 +1,20 @@
+import { IsDateString, IsNotEmpty } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class AuditExportQueryDto {
+  @ApiProperty({
+    description: 'Export records performed at or after this date (ISO 8601)',
+    example: '2025-01-01T00:00:00Z',
+  })
+  @IsNotEmpty({ message: 'startDate is required' })
+  @IsDateString({}, { message: 'startDate must be a valid ISO 8601 date' })
+  startDate: string;
+
+  @ApiProperty({
+    description: 'Export records performed at or before this date (ISO 8601)',
+    example: '2025-12-31T23:59:59Z',
+  })
+  @IsNotEmpty({ message: 'endDate is required' })
+  @IsDateString({}, { message: 'endDate must be a valid ISO 8601 date' })
+  endDate: string;
+}
@@ -0,0 +1,38 @@
+import {
+  AllowNull,
+  Column,
+  DataType,
+  Model,
+  PrimaryKey,
+  Table,
+  UpdatedAt,
+} from 'sequelize-typescript';
+
+/**
+ * Latest sequence and hash of each tenant's audit chain.
+ * Appends lock this row, which serializes writers per tenant; verification compares it
+ * with the last stored record to detect rows removed from the end of the chain.
+ */
+@Table({
+  tableName: 'AuditChainHeads',
+  timestamps: true,
+  createdAt: false,
+  underscored: true,
+})
+export class AuditChainHead extends Model {
+  @PrimaryKey
+  @Column(DataType.STRING(64))
+  tenant_id: string;
+
+  @AllowNull(false)
+  @Column(DataType.INTEGER)
+  last_sequence: number;
+
+  @AllowNull(false)
+  @Column(DataType.CHAR(64))
+  last_hash: string;
+
+  @UpdatedAt
+  @Column(DataType.DATE)
+  updated_at: Date;
+}
@@ -0,0 +1,125 @@
+import {
+  AllowNull,
+  BeforeBulkDestroy,
+  BeforeBulkUpdate,
+  BeforeDestroy,
+  BeforeUpdate,
+  Column,
+  CreatedAt,
+  DataType,
+  Default,
+  Model,
+  PrimaryKey,
+  Table,
+} from 'sequelize-typescript';
+
+/**
+ * Domain an audit record originates from
+ */
+export enum AuditSource {
+  COMPANY = 'COMPANY',
+  TEAM = 'TEAM',
+  USER = 'USER',
+  PERMISSION = 'PERMISSION',
+  SERVICE_ACCOUNT = 'SERVICE_ACCOUNT',
+  IMPERSONATION = 'IMPERSONATION',
+  LAWYER_CREDENTIAL = 'LAWYER_CREDENTIAL',
+  LOGIN_SECURITY = 'LOGIN_SECURITY',
+}
+
+/**
+ * Tenant key used for records that do not belong to a company (e.g. users without a company)
+ */
+export const PLATFORM_TENANT_ID = 'platform';
+
+/**
+ * prev_hash of the first record in every tenant chain
+ */
+export const GENESIS_HASH = '0'.repeat(64);
+
+/**
+ * Append-only, hash-chained audit record.
+ * Each record stores the hash of the previous record of the same tenant, so editing or
+ * deleting any row breaks the chain. Updates and deletes are also rejected by database
+ * triggers (see migration) and by the model hooks below.
+ */
+@Table({
+  tableName: 'AuditRecords',
+  timestamps: false, // We manage created_at manually
+  underscored: true,
+  indexes: [
+    {
+      fields: ['tenant_id', 'sequence'],
+      unique: true,
+      name: 'uq_audit_records_tenant_sequence',
+    },
+    {
+      fields: ['tenant_id', 'performed_at'],
+      name: 'idx_audit_records_tenant_date',
+    },
+    {
+      fields: ['source', 'entity_id'],
+      name: 'idx_audit_records_source_entity',
+    },
+    {
+      fields: ['performed_by', 'performed_at'],
+      name: 'idx_audit_records_user_date',
+    },
+  ],
+})
+export class AuditRecord extends Model {
+  @PrimaryKey
+  @Default(DataType.UUIDV4)
+  @Column(DataType.UUID)
+  id: string;
+
+  @AllowNull(false)
+  @Column(DataType.STRING(64))
+  tenant_id: string;
+
+  @AllowNull(false)
+  @Column(DataType.INTEGER)
+  sequence: number;
+
+  @AllowNull(false)
+  @Column(DataType.STRING(32))
+  source: AuditSource;
+
+  @AllowNull(false)
+  @Column(DataType.STRING(100))
+  action: string;
+
+  @Column(DataType.UUID)
+  entity_id?: string | null;
+
+  @Column(DataType.UUID)
+  performed_by?: string | null;
+
+  // Millisecond precision so the hashed timestamp survives the database round trip
+  @AllowNull(false)
+  @Column(DataType.DATE(3))
+  performed_at: Date;
+
+  @Column(DataType.JSON)
+  payload?: Record<string, any> | null;
+
+  @AllowNull(false)
+  @Column(DataType.CHAR(64))
+  prev_hash: string;
+
+  @AllowNull(false)
+  @Column(DataType.CHAR(64))
+  hash: string;
+
+  @CreatedAt
+  @Column(DataType.DATE)
+  created_at: Date;
+
+  @BeforeUpdate
+  @BeforeBulkUpdate
+  @BeforeDestroy
+  @BeforeBulkDestroy
+  static rejectMutation(): void {
+    throw new Error('AuditRecords are append-only and cannot be updated or deleted');
+  }
+}
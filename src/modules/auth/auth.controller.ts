@@ -10,16 +10,24 @@ import {
   Post,
   Request,
   UnauthorizedException,
+  UnprocessableEntityException,
   UseGuards,
 } from '@nestjs/common';
 import { ApiBearerAuth, ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { ERROR_CODES } from '../../common/constants/error-codes';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { CurrentJwtPayload } from '../../common/decorators/jwt-payload.decorator';
 import { ClientVersionGuard } from '../../core/guards/client-version.guard';
+import { AllowPendingUser } from '../../core/decorators/allow-pending-user.decorator';
 import { JwtAuthGuard } from '../../core/guards/jwt-auth.guard';
+import { TokenRevocationService } from '../token-revocation/token-revocation.service';
 import { AuthService } from './auth.service';
 import { AuthResponseDto } from './dto/auth-response.dto';
 import { RefreshTokenDto } from './dto/refresh-token.dto';
 import { SignUpDto } from './dto/signup.dto';
 import { TokenExchangeDto } from './dto/token-exchange.dto';
+import { User } from './entities/user.entity';
+import { JwtPayload } from './jwt-payload.interface';
 
 // Auth Controller Response Codes (matching the original)
 const AuthControllerCodes = {
@@ -39,6 +47,10 @@ const AuthControllerCodes = {
     code: 'AUTH_TOKEN_REFRESH_SUCCESSFUL',
     message: 'Token refresh successful',
   },
+  LOGOUT_SUCCESS: {
+    code: 'AUTH_LOGOUT_SUCCESSFUL',
+    message: 'Logout successful',
+  },
   GET_USER_SUCCESS: {
     code: 'GET_USER_SUCCESSFUL',
     message: 'Getting user data successful',
@@ -85,7 +97,10 @@ const AuthControllerCodes = {
 @Controller('auth')
 @UseGuards(ClientVersionGuard)
 export class AuthController {
-  constructor(private readonly authService: AuthService) {}
+  constructor(
+    private readonly authService: AuthService,
+    private readonly tokenRevocationService: TokenRevocationService
+  ) {}
 
   @Post('token')
   @HttpCode(HttpStatus.OK)
@@ -95,15 +110,15 @@ export class AuthController {
     @Body() tokenExchangeDto: TokenExchangeDto
   ): Promise<AuthResponseDto> {
     try {
-      const tokenResponse = await this.authService.exchangeCodeForTokens(tokenExchangeDto.code);
+      const tokens = await this.authService.exchangeCodeForTokens(tokenExchangeDto.code);
 
       return {
         success: true,
         ...AuthControllerCodes.TOKEN_EXCHANGE_SUCCESS,
         payload: {
-          accessToken: tokenResponse.data.access_token,
-          refreshToken: tokenResponse.data.refresh_token,
-          expiresIn: tokenResponse.data.expires_in,
+          accessToken: tokens.accessToken,
+          refreshToken: tokens.refreshToken,
+          expiresIn: tokens.expiresIn,
         },
       };
     } catch (error) {
@@ -124,8 +139,8 @@ export class AuthController {
     try {
       const { firstName, lastName, email, password } = signUpDto;
 
-      const auth0Response = await this.authService.signUpWithAuth0(signUpDto);
-      if (!auth0Response) {
+      const identityUser = await this.authService.signUp(signUpDto);
+      if (!identityUser) {
         throw new BadRequestException({
           success: false,
           ...AuthControllerCodes.SIGNUP_FAILED,
@@ -134,7 +149,7 @@ export class AuthController {
       }
 
       // Save user in the local database
-      const auth0UserId = auth0Response.data.user_id;
+      const auth0UserId = identityUser.userId;
       const user = await this.authService.createUser(firstName, lastName, email, auth0UserId);
 
       return {
@@ -177,9 +192,9 @@ export class AuthController {
   @ApiResponse({ status: 200, description: 'Token refresh successful', type: AuthResponseDto })
   async refresh(@Body() refreshTokenDto: RefreshTokenDto): Promise<AuthResponseDto> {
     try {
-      const auth0Response = await this.authService.refreshWithAuth0(refreshTokenDto.refreshToken);
+      const tokens = await this.authService.refresh(refreshTokenDto.refreshToken);
 
-      if (!auth0Response) {
+      if (!tokens) {
         throw new UnauthorizedException({
           success: false,
           ...AuthControllerCodes.TOKEN_REFRESH_FAILED,
@@ -191,9 +206,9 @@ export class AuthController {
         success: true,
         ...AuthControllerCodes.TOKEN_REFRESH_SUCCESS,
         payload: {
-          accessToken: auth0Response.data.access_token,
-          refreshToken: auth0Response.data.refresh_token || refreshTokenDto.refreshToken,
-          expiresIn: auth0Response.data.expires_in,
+          accessToken: tokens.accessToken,
+          refreshToken: tokens.refreshToken || refreshTokenDto.refreshToken,
+          expiresIn: tokens.expiresIn,
         },
       };
     } catch (error) {
@@ -258,4 +273,42 @@ export class AuthController {
       });
     }
   }
+
+  @Post('logout')
+  @UseGuards(JwtAuthGuard)
+  @AllowPendingUser()
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Revoke the access token used for this request',
+    description:
+      'Only tokens with a jti claim can be revoked one by one. ' +
+      'Use POST /users/me/sessions/revoke to revoke every token of the user.',
+  })
+  @ApiResponse({ status: 200, description: 'Token revoked', type: AuthResponseDto })
+  @ApiResponse({ status: 422, description: 'Token has no jti claim', type: AuthResponseDto })
+  async logout(
+    @CurrentJwtPayload() jwtPayload: JwtPayload,
+    @CurrentUser() currentUser: User
+  ): Promise<AuthResponseDto> {
+    const revoked = await this.tokenRevocationService.revokeToken(
+      jwtPayload,
+      currentUser.id,
+      'Logout'
+    );
+
+    if (!revoked) {
+      throw new UnprocessableEntityException({
+        success: false,
+        code: ERROR_CODES.TOKEN_NOT_REVOCABLE,
+        message: 'This token has no jti claim and cannot be revoked on its own.',
+      });
+    }
+
+    return {
+      success: true,
+      ...AuthControllerCodes.LOGOUT_SUCCESS,
+      payload: null,
+    };
+  }
 }
@@ -1,35 +1,89 @@
 import { Module } from '@nestjs/common';
 import { SequelizeModule } from '@nestjs/sequelize';
 import { PassportModule } from '@nestjs/passport';
-import { ConfigModule } from '@nestjs/config';
+import { ConfigModule, ConfigService } from '@nestjs/config';
 import { AuthController } from './auth.controller';
 import { AuthService } from './auth.service';
 import { UsersController } from './users.controller';
 import { UserService } from './user.service';
+import { UserImportService } from './user-import.service';
+import { UserPrivacyService } from './user-privacy.service';
+import { UserOffboardingService } from './user-offboarding.service';
+import { InvitationsController } from './invitations.controller';
+import { InvitationService } from './invitation.service';
+import { LocalIdentityController } from './local-identity.controller';
 import { User } from './entities/user.entity';
+import { Invitation } from './entities/invitation.entity';
+import { LocalIdentity } from './entities/local-identity.entity';
+import { UserImportJob } from './entities/user-import-job.entity';
+import { UserImportRow } from './entities/user-import-row.entity';
 import { Company } from '../company/entities/company.entity';
+import { CompanyMembership } from '../company-membership/entities/company-membership.entity';
+import { ImpersonationSession } from '../impersonation/entities/impersonation-session.entity';
+import { LawyerCredential } from '../lawyer-credential/entities/lawyer-credential.entity';
+import { LoginAnomaly } from '../login-security/entities/login-anomaly.entity';
+import { UserSession } from '../login-security/entities/user-session.entity';
 import { Role } from '../role/entities/role.entity';
+import { UserPermission } from '../role/entities/user-permission.entity';
+import { Team } from '../team/entities/team.entity';
+import { TeamMember } from '../team/entities/team-member.entity';
 import { RoleModule } from '../role/role.module';
+import { TeamModule } from '../team/team.module';
 import { JwtStrategy } from './jwt.strategy';
-import { MockJwtStrategy } from './mock-jwt.strategy';
+import { IDENTITY_PROVIDER } from './identity/identity-provider.interface';
+import { getIdentityProviderType, IdentityProviderType } from './identity/identity.config';
+import { Auth0IdentityProvider } from './identity/auth0-identity.provider';
+import { LocalIdentityProvider } from './identity/local-identity.provider';
 
 @Module({
   imports: [
-    SequelizeModule.forFeature([User, Company, Role]),
+    SequelizeModule.forFeature([
+      User,
+      Invitation,
+      LocalIdentity,
+      UserImportJob,
+      UserImportRow,
+      Company,
+      Role,
+      UserPermission,
+      Team,
+      TeamMember,
+      CompanyMembership,
+      LawyerCredential,
+      ImpersonationSession,
+      UserSession,
+      LoginAnomaly,
+    ]),
     PassportModule.register({ defaultStrategy: 'jwt' }),
     RoleModule,
+    TeamModule,
     ConfigModule, // Ensure ConfigModule is available for environment detection
   ],
-  controllers: [AuthController, UsersController],
+  controllers: [AuthController, UsersController, InvitationsController, LocalIdentityController],
   providers: [
     AuthService,
     UserService,
-    // Conditional JWT strategy provider based on environment
+    UserImportService,
+    UserPrivacyService,
+    UserOffboardingService,
+    InvitationService,
+    JwtStrategy,
+    Auth0IdentityProvider,
+    LocalIdentityProvider,
+    // Identity provider selected by IDENTITY_PROVIDER (auth0 or local)
     {
-      provide: JwtStrategy,
-      useClass: process.env.NODE_ENV === 'test' ? MockJwtStrategy : JwtStrategy,
+      provide: IDENTITY_PROVIDER,
+      inject: [ConfigService, Auth0IdentityProvider, LocalIdentityProvider],
+      useFactory: (
+        configService: ConfigService,
+        auth0Provider: Auth0IdentityProvider,
+        localProvider: LocalIdentityProvider
+      ) =>
+        getIdentityProviderType(configService) === IdentityProviderType.LOCAL
+          ? localProvider
+          : auth0Provider,
     },
   ],
-  exports: [AuthService, UserService, PassportModule],
+  exports: [AuthService, UserService, UserOffboardingService, InvitationService, PassportModule],
 })
 export class AuthModule {}
@@ -1,19 +1,13 @@
-import { BadRequestException } from '@nestjs/common';
-import { ConfigService } from '@nestjs/config';
 import { getModelToken } from '@nestjs/sequelize';
 import { Test, TestingModule } from '@nestjs/testing';
-import axios from 'axios';
 import { AuthService } from './auth.service';
 import { User } from './entities/user.entity';
-
-// Mock axios
-jest.mock('axios');
-const mockedAxios = axios as jest.Mocked<typeof axios>;
+import { IDENTITY_PROVIDER } from './identity/identity-provider.interface';
 
 describe('AuthService', () => {
   let service: AuthService;
   let userModel: any;
-  let configService: ConfigService;
+  let identityProvider: any;
 
   const mockUser = {
     id: 1,
@@ -30,6 +24,14 @@ describe('AuthService', () => {
       findOne: jest.fn(),
     };
 
+    identityProvider = {
+      signUp: jest.fn(),
+      createUser: jest.fn(),
+      exchangeCodeForTokens: jest.fn(),
+      refresh: jest.fn(),
+      sendPasswordChangeTicket: jest.fn(),
+    };
+
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         AuthService,
@@ -38,27 +40,13 @@ describe('AuthService', () => {
           useValue: userModel,
         },
         {
-          provide: ConfigService,
-          useValue: {
-            get: jest.fn((key: string) => {
-              const config = {
-                AUTH0_ISSUER_BASE_URL: 'https://test.auth0.com',
-                AUTH0_CLIENT_ID: 'test-client-id',
-                AUTH0_CLIENT_SECRET: 'test-client-secret',
-                AUTH0_MANAGEMENT_CLIENT_ID: 'test-mgmt-client-id',
-                AUTH0_MANAGEMENT_CLIENT_SECRET: 'test-mgmt-secret',
-                AUTH0_MANAGEMENT_AUDIENCE: 'https://test.auth0.com/api/v2/',
-                API_AUDIENCE: 'https://api.test.com',
-              };
-              return config[key];
-            }),
-          },
+          provide: IDENTITY_PROVIDER,
+          useValue: identityProvider,
         },
       ],
     }).compile();
 
     service = module.get<AuthService>(AuthService);
-    configService = module.get<ConfigService>(ConfigService);
   });
 
   afterEach(() => {
@@ -124,155 +112,37 @@ describe('AuthService', () => {
     });
   });
 
-  describe('getManagementApiToken', () => {
-    it('should get a new management API token', async () => {
-      const mockResponse = {
-        data: {
-          access_token: 'test-token',
-          expires_in: 86400,
-        },
-      };
-      mockedAxios.post.mockResolvedValue(mockResponse);
-
-      const result = await service.getManagementApiToken();
-
-      expect(mockedAxios.post).toHaveBeenCalledWith(
-        'https://test.auth0.com/oauth/token',
-        {
-          grant_type: 'client_credentials',
-          client_id: 'test-mgmt-client-id',
-          client_secret: 'test-mgmt-secret',
-          audience: 'https://test.auth0.com/api/v2/',
-        },
-        {
-          headers: {
-            'Content-Type': 'application/json',
-          },
-        }
-      );
-      expect(result).toBe('test-token');
-    });
-
-    it('should return cached token if still valid', async () => {
-      // First call to get token
-      const mockResponse = {
-        data: {
-          access_token: 'test-token',
-          expires_in: 86400,
-        },
-      };
-      mockedAxios.post.mockResolvedValue(mockResponse);
-
-      await service.getManagementApiToken();
-      mockedAxios.post.mockClear();
-
-      // Second call should use cached token
-      const result = await service.getManagementApiToken();
-
-      expect(mockedAxios.post).not.toHaveBeenCalled();
-      expect(result).toBe('test-token');
-    });
-  });
-
-  describe('signUpWithAuth0', () => {
-    it('should sign up user successfully', async () => {
-      // Mock management token
-      mockedAxios.post.mockResolvedValueOnce({
-        data: {
-          access_token: 'mgmt-token',
-          expires_in: 86400,
-        },
-      });
-
-      // Mock user creation
-      const mockResponse = {
-        data: {
-          user_id: 'auth0|123456',
-          email: 'john@example.com',
-        },
-      };
-      mockedAxios.post.mockResolvedValueOnce(mockResponse);
-
-      const result = await service.signUpWithAuth0({
+  describe('identity provider delegation', () => {
+    it('should sign up through the configured identity provider', async () => {
+      const signUpDto = {
         firstName: 'John',
         lastName: 'Doe',
         email: 'john@example.com',
         password: 'Password123!',
-      });
+      };
+      identityProvider.signUp.mockResolvedValue({ userId: 'local|123' });
 
-      expect(mockedAxios.post).toHaveBeenCalledWith(
-        'https://test.auth0.com/api/v2/users',
-        {
-          connection: 'Acme-DB',
-          email: 'john@example.com',
-          password: 'Password123!',
-          user_metadata: {
-            firstName: 'John',
-            lastName: 'Doe',
-          },
-        },
-        {
-          headers: {
-            'Content-Type': 'application/json',
-            Authorization: 'Bearer mgmt-token',
-          },
-        }
-      );
-      expect(result).toEqual(mockResponse);
-    });
+      const result = await service.signUp(signUpDto);
 
-    it('should throw BadRequestException for duplicate email', async () => {
-      // Mock management token
-      mockedAxios.post.mockResolvedValueOnce({
-        data: {
-          access_token: 'mgmt-token',
-          expires_in: 86400,
-        },
-      });
+      expect(identityProvider.signUp).toHaveBeenCalledWith(signUpDto);
+      expect(result).toEqual({ userId: 'local|123' });
+    });
 
-      // Mock duplicate email error
-      mockedAxios.post.mockRejectedValueOnce({
-        response: {
-          status: 409,
-          data: { error: 'user_exists' },
-        },
-      });
+    it('should refresh tokens through the configured identity provider', async () => {
+      const tokens = { accessToken: 'access', refreshToken: 'refresh', expiresIn: 3600 };
+      identityProvider.refresh.mockResolvedValue(tokens);
 
-      await expect(
-        service.signUpWithAuth0({
-          firstName: 'John',
-          lastName: 'Doe',
-          email: 'john@example.com',
-          password: 'Password123!',
-        })
-      ).rejects.toThrow(BadRequestException);
+      await expect(service.refresh('old-refresh')).resolves.toEqual(tokens);
+      expect(identityProvider.refresh).toHaveBeenCalledWith('old-refresh');
     });
 
-    it('should throw BadRequestException for weak password', async () => {
-      // Mock management token
-      mockedAxios.post.mockResolvedValueOnce({
-        data: {
-          access_token: 'mgmt-token',
-          expires_in: 86400,
-        },
-      });
+    it('should send password tickets through the configured identity provider', async () => {
+      await service.sendPasswordResetEmail('john@example.com', 'https://app.test/accept');
 
-      // Mock weak password error
-      mockedAxios.post.mockRejectedValueOnce({
-        response: {
-          status: 400,
-          data: { message: 'PasswordStrengthError: Password is too weak' },
-        },
-      });
-
-      await expect(
-        service.signUpWithAuth0({
-          firstName: 'John',
-          lastName: 'Doe',
-          email: 'john@example.com',
-          password: 'weak',
-        })
-      ).rejects.toThrow('Password is too weak');
+      expect(identityProvider.sendPasswordChangeTicket).toHaveBeenCalledWith(
+        'john@example.com',
+        'https://app.test/accept'
+      );
     });
   });
 });
@@ -0,0 +1,33 @@
+import { UserRole } from '../entities/user.entity';
+
+/**
+ * Who may change a profile field:
+ * - SELF: the user themselves (and company admins)
+ * - COMPANY_ADMIN: only company admins, through PATCH /users/:id/profile
+ */
+export enum ProfileFieldEditor {
+  SELF = 'self',
+  COMPANY_ADMIN = 'company_admin',
+}
+
+/**
+ * Editable profile fields, keyed by DTO property, with the User column they map to
+ */
+export const PROFILE_FIELD_RULES = {
+  firstName: { column: 'first_name', editor: ProfileFieldEditor.SELF },
+  lastName: { column: 'last_name', editor: ProfileFieldEditor.SELF },
+  phoneNumber: { column: 'phone_number', editor: ProfileFieldEditor.SELF },
+  timezone: { column: 'timezone', editor: ProfileFieldEditor.SELF },
+  locale: { column: 'locale', editor: ProfileFieldEditor.SELF },
+  avatarUrl: { column: 'avatar_url', editor: ProfileFieldEditor.SELF },
+  jobTitle: { column: 'job_title', editor: ProfileFieldEditor.COMPANY_ADMIN },
+} as const;
+
+export type ProfileField = keyof typeof PROFILE_FIELD_RULES;
+
+/** Roles that may edit COMPANY_ADMIN fields (of users in their own company) */
+export const COMPANY_ADMIN_ROLES = [
+  UserRole.VENDOR_ADMIN,
+  UserRole.ACME_ADMIN,
+  UserRole.SUPER_ADMIN,
+] as const;
@@ -0,0 +1,12 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString } from 'class-validator';
+
+export class AcceptInvitationDto {
+  @ApiProperty({
+    example: 'q3Jx0b6cV8m1...',
+    description: 'Invitation token from the invitation link',
+  })
+  @IsString()
+  @IsNotEmpty()
+  token: string;
+}
@@ -1,5 +1,5 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { IsBoolean, IsEmail, IsNotEmpty, IsString } from 'class-validator';
+import { IsBoolean, IsEmail, IsNotEmpty, IsOptional, IsString } from 'class-validator';
 import { IsAcmeRole } from '../../../common/decorators/is-acme-role.decorator';
 import { UserRole } from '../entities/user.entity';
 
@@ -39,9 +39,12 @@ export class AcmeInviteDto {
 
   @ApiProperty({
     example: false,
-    description: 'Whether the user is a lawyer',
+    description:
+      'Ignored: lawyer status is derived from verified lawyer credentials (POST /lawyer-credentials)',
+    required: false,
+    deprecated: true,
   })
   @IsBoolean()
-  @IsNotEmpty()
-  is_lawyer: boolean;
+  @IsOptional()
+  is_lawyer?: boolean;
 }
@@ -0,0 +1,25 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsEnum, IsOptional, IsUUID } from 'class-validator';
+import { PaginationDto } from '../../../common/dto/pagination.dto';
+import { InvitationStatus } from '../entities/invitation.entity';
+
+export class InvitationQueryDto extends PaginationDto {
+  @ApiPropertyOptional({
+    description: 'Filter by invitation status',
+    enum: InvitationStatus,
+    default: InvitationStatus.PENDING,
+  })
+  @IsOptional()
+  @IsEnum(InvitationStatus, {
+    message: `Status must be one of: ${Object.values(InvitationStatus).join(', ')}`,
+  })
+  status?: InvitationStatus = InvitationStatus.PENDING;
+
+  @ApiPropertyOptional({
+    description: 'Company to list invitations for (Acme admins only; others always see their own)',
+    example: 'c4a8f4b0-8d2a-4b6d-8f9c-1e2b3d4a5f6a',
+  })
+  @IsOptional()
+  @IsUUID('4', { message: 'companyId must be a valid UUID' })
+  companyId?: string;
+}
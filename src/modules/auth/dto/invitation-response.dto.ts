@@ -0,0 +1,114 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Exclude, Expose, Type } from 'class-transformer';
+import { InvitationStatus } from '../entities/invitation.entity';
+
+/**
+ * Public-facing shape of an invitation. The token is never returned.
+ */
+@Exclude()
+export class InvitationResponseDto {
+  @ApiProperty({
+    description: 'The unique identifier for the invitation',
+    example: 'f81d4fae-7dec-11d0-a765-00a0c91e6bf6',
+  })
+  @Expose()
+  id: string;
+
+  @ApiProperty({
+    description: 'Email address the invitation was sent to',
+    example: 'jane.smith@vendorcorp.com',
+  })
+  @Expose()
+  email: string;
+
+  @ApiProperty({
+    description: 'Company the user was invited to',
+    example: 'c4a8f4b0-8d2a-4b6d-8f9c-1e2b3d4a5f6a',
+  })
+  @Expose()
+  companyId: string;
+
+  @ApiProperty({
+    description: 'ID of the invited user',
+    example: 'a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11',
+  })
+  @Expose()
+  userId: string;
+
+  @ApiProperty({
+    description: 'Role the user will have once the invitation is accepted',
+    type: 'object',
+  })
+  @Expose()
+  role: {
+    id: string;
+    name?: string;
+    code?: string;
+  };
+
+  @ApiProperty({
+    description: 'Invitation status',
+    enum: InvitationStatus,
+  })
+  @Expose()
+  status: InvitationStatus;
+
+  @ApiProperty({
+    description: 'The user who sent the invitation',
+    type: 'object',
+  })
+  @Expose()
+  invitedBy: {
+    id: string;
+    firstName?: string;
+    lastName?: string;
+    email?: string;
+  };
+
+  @ApiProperty({
+    description: 'When the invitation expires',
+    example: '2025-12-08T10:00:00Z',
+  })
+  @Expose()
+  @Type(() => Date)
+  expiresAt: Date;
+
+  @ApiProperty({
+    description: 'When the invitation was last sent',
+    example: '2025-12-01T10:00:00Z',
+  })
+  @Expose()
+  @Type(() => Date)
+  lastSentAt: Date;
+
+  @ApiProperty({
+    description: 'How many times the invitation has been sent',
+    example: 1,
+  })
+  @Expose()
+  sendCount: number;
+
+  @ApiPropertyOptional({
+    description: 'When the invitation was accepted',
+    nullable: true,
+  })
+  @Expose()
+  @Type(() => Date)
+  acceptedAt: Date | null;
+
+  @ApiPropertyOptional({
+    description: 'When the invitation was revoked',
+    nullable: true,
+  })
+  @Expose()
+  @Type(() => Date)
+  revokedAt: Date | null;
+
+  @ApiProperty({
+    description: 'When the invitation was created',
+    example: '2025-12-01T10:00:00Z',
+  })
+  @Expose()
+  @Type(() => Date)
+  createdAt: Date;
+}
@@ -0,0 +1,15 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsOptional, IsString, Length } from 'class-validator';
+
+export class RevokeSessionsDto {
+  @ApiProperty({
+    description: 'Reason for revoking the sessions, written to the audit log',
+    required: false,
+    example: 'Laptop stolen',
+    maxLength: 500,
+  })
+  @IsOptional()
+  @IsString()
+  @Length(1, 500, { message: 'Reason cannot exceed 500 characters' })
+  reason?: string;
+}
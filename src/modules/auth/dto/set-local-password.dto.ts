@@ -0,0 +1,13 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString, MinLength } from 'class-validator';
+
+export class SetLocalPasswordDto {
+  @ApiProperty({ description: 'Password ticket logged by the local identity provider' })
+  @IsString()
+  @IsNotEmpty()
+  ticket: string;
+
+  @ApiProperty({ description: 'New password', minLength: 8 })
+  @MinLength(8)
+  password: string;
+}
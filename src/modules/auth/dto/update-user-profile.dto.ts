@@ -0,0 +1,87 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsEmail,
+  IsLocale,
+  IsNotEmpty,
+  IsOptional,
+  IsPhoneNumber,
+  IsString,
+  IsTimeZone,
+  IsUrl,
+  MaxLength,
+  ValidateIf,
+} from 'class-validator';
+
+/**
+ * Profile fields a company admin may change through PATCH /users/:id/profile.
+ * Optional fields can be cleared with null; names cannot.
+ */
+export class UpdateUserProfileDto {
+  @ApiPropertyOptional({ example: 'John', maxLength: 100 })
+  @ValidateIf((_dto, value) => value !== undefined)
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  firstName?: string;
+
+  @ApiPropertyOptional({ example: 'Doe', maxLength: 100 })
+  @ValidateIf((_dto, value) => value !== undefined)
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  lastName?: string;
+
+  @ApiPropertyOptional({
+    description: 'Phone number in international format',
+    example: '+351912345678',
+    nullable: true,
+  })
+  @IsOptional()
+  @IsPhoneNumber(undefined, { message: 'Phone number must be in international format' })
+  phoneNumber?: string | null;
+
+  @ApiPropertyOptional({ description: 'IANA time zone', example: 'Europe/Lisbon', nullable: true })
+  @IsOptional()
+  @IsTimeZone()
+  timezone?: string | null;
+
+  @ApiPropertyOptional({ description: 'BCP 47 language tag', example: 'pt-PT', nullable: true })
+  @IsOptional()
+  @IsLocale()
+  @MaxLength(16)
+  locale?: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Job title (company admins only)',
+    example: 'Paralegal',
+    maxLength: 100,
+    nullable: true,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  jobTitle?: string | null;
+
+  @ApiPropertyOptional({
+    description: 'URL of the profile picture',
+    example: 'https://cdn.acme.com/avatars/john.png',
+    nullable: true,
+  })
+  @IsOptional()
+  @IsUrl({ protocols: ['https'], require_protocol: true })
+  @MaxLength(2048)
+  avatarUrl?: string | null;
+}
+
+/**
+ * Body of PATCH /users/me. A new email is only applied once it has been verified.
+ */
+export class UpdateOwnProfileDto extends UpdateUserProfileDto {
+  @ApiPropertyOptional({
+    description: 'New email address; a verification link is sent to it before it is applied',
+    example: 'john.doe@newdomain.com',
+  })
+  @IsOptional()
+  @IsEmail()
+  email?: string;
+}
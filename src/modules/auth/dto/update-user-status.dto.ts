@@ -0,0 +1,36 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsEnum, IsNotEmpty, IsOptional, IsString, IsUUID, Length } from 'class-validator';
+import { UserStatus } from '../entities/user.entity';
+
+export class UpdateUserStatusDto {
+  @ApiProperty({
+    description: 'New user status',
+    enum: UserStatus,
+    example: UserStatus.SUSPENDED,
+    enumName: 'UserStatus',
+  })
+  @IsEnum(UserStatus, {
+    message: `Status must be one of: ${Object.values(UserStatus).join(', ')}`,
+  })
+  status: UserStatus;
+
+  @ApiProperty({
+    description: 'Reason for the status change, written to the audit log',
+    example: 'Left the company',
+    maxLength: 500,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @Length(1, 500, { message: 'Reason cannot exceed 500 characters' })
+  reason: string;
+
+  @ApiProperty({
+    description:
+      'User who takes over the teams owned by the user (required when deactivating a team owner)',
+    required: false,
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @IsOptional()
+  @IsUUID()
+  newTeamOwnerId?: string;
+}
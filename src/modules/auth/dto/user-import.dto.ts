@@ -0,0 +1,147 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { UserImportJobStatus } from '../entities/user-import-job.entity';
+import { UserImportRowStatus } from '../entities/user-import-row.entity';
+import { UserRole } from '../entities/user.entity';
+
+/**
+ * Validation result of a single row of an import file
+ */
+export class UserImportRowReportDto {
+  @ApiProperty({ description: 'Line of the row in the file (the header is line 1)', example: 2 })
+  rowNumber: number;
+
+  @ApiProperty({ example: 'jane.smith@vendorcorp.com' })
+  email: string;
+
+  @ApiProperty({ example: 'Jane' })
+  firstName: string;
+
+  @ApiProperty({ example: 'Smith' })
+  lastName: string;
+
+  @ApiProperty({ description: 'Vendor role as written in the file', example: 'vendor_employee' })
+  role: string;
+
+  @ApiPropertyOptional({
+    description: 'Role the user will get, when the vendor role is valid',
+    enum: UserRole,
+    nullable: true,
+  })
+  userRole: UserRole | null;
+
+  @ApiProperty({
+    description: 'Existing teams the user will be added to',
+    type: [String],
+    example: ['f81d4fae-7dec-11d0-a765-00a0c91e6bf6'],
+  })
+  teamIds: string[];
+
+  @ApiProperty({ description: 'Whether the row can be imported', example: true })
+  valid: boolean;
+
+  @ApiProperty({
+    description: 'Why the row cannot be imported',
+    type: [String],
+    example: [],
+  })
+  errors: string[];
+}
+
+/**
+ * Dry-run report of an import file. Nothing is created while producing it.
+ */
+export class UserImportReportDto {
+  @ApiProperty({ example: 'new-hires.csv' })
+  fileName: string;
+
+  @ApiProperty({ example: 40 })
+  totalRows: number;
+
+  @ApiProperty({ example: 38 })
+  validRows: number;
+
+  @ApiProperty({ example: 2 })
+  invalidRows: number;
+
+  @ApiProperty({ type: [UserImportRowReportDto] })
+  rows: UserImportRowReportDto[];
+}
+
+/**
+ * Outcome of a single row of an import job
+ */
+export class UserImportRowResponseDto {
+  @ApiProperty({ example: 2 })
+  rowNumber: number;
+
+  @ApiProperty({ example: 'jane.smith@vendorcorp.com' })
+  email: string;
+
+  @ApiProperty({ example: 'Jane' })
+  firstName: string;
+
+  @ApiProperty({ example: 'Smith' })
+  lastName: string;
+
+  @ApiProperty({ example: 'vendor_employee' })
+  role: string;
+
+  @ApiProperty({ type: [String] })
+  teamIds: string[];
+
+  @ApiProperty({ enum: UserImportRowStatus })
+  status: UserImportRowStatus;
+
+  @ApiPropertyOptional({ description: 'User created for the row', nullable: true })
+  userId: string | null;
+
+  @ApiPropertyOptional({ description: 'Why the row failed', nullable: true })
+  error: string | null;
+}
+
+export class UserImportJobResponseDto {
+  @ApiProperty({ example: 'f81d4fae-7dec-11d0-a765-00a0c91e6bf6' })
+  id: string;
+
+  @ApiProperty({ example: 'c4a8f4b0-8d2a-4b6d-8f9c-1e2b3d4a5f6a' })
+  companyId: string;
+
+  @ApiProperty({ description: 'Vendor admin who uploaded the file' })
+  createdBy: string;
+
+  @ApiProperty({ example: 'new-hires.csv' })
+  fileName: string;
+
+  @ApiProperty({ enum: UserImportJobStatus })
+  status: UserImportJobStatus;
+
+  @ApiProperty({ example: 40 })
+  totalRows: number;
+
+  @ApiProperty({
+    description: 'Rows whose user was invited, including partially imported rows',
+    example: 39,
+  })
+  succeededCount: number;
+
+  @ApiProperty({ example: 1 })
+  failedCount: number;
+
+  @ApiPropertyOptional({ type: Date, nullable: true })
+  startedAt: Date | null;
+
+  @ApiPropertyOptional({ type: Date, nullable: true })
+  finishedAt: Date | null;
+
+  @ApiPropertyOptional({ description: 'Why the job stopped, when it failed', nullable: true })
+  error: string | null;
+
+  @ApiProperty()
+  createdAt: Date;
+
+  @ApiPropertyOptional({
+    description: 'Per-row outcomes (only when a single job is requested)',
+    type: [UserImportRowResponseDto],
+  })
+  rows?: UserImportRowResponseDto[];
+}
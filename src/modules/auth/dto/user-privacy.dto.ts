@@ -0,0 +1,102 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsEmail, IsNotEmpty, IsOptional, IsString, IsUUID, Length } from 'class-validator';
+
+export class EraseUserDto {
+  @ApiProperty({
+    description: 'Current email of the user, typed again to confirm the erasure',
+    example: 'john.doe@example.com',
+  })
+  @IsEmail({}, { message: 'confirmEmail must be a valid email address' })
+  @IsNotEmpty()
+  confirmEmail: string;
+
+  @ApiProperty({
+    description: 'Reason for the erasure, written to the audit log',
+    required: false,
+    example: 'Data subject request #1234',
+    maxLength: 500,
+  })
+  @IsOptional()
+  @IsString()
+  @Length(1, 500, { message: 'Reason cannot exceed 500 characters' })
+  reason?: string;
+
+  @ApiProperty({
+    description: 'User who takes over the teams owned by the user (required for team owners)',
+    required: false,
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @IsOptional()
+  @IsUUID()
+  newTeamOwnerId?: string;
+}
+
+export class UserErasureResultDto {
+  @ApiProperty({ example: '123e4567-e89b-12d3-a456-426614174000' })
+  userId: string;
+
+  @ApiProperty({ example: '2025-10-20T09:12:00.000Z' })
+  erasedAt: Date;
+}
+
+/**
+ * Everything stored about a user, returned by GET /users/me/export
+ */
+export class UserDataExportDto {
+  @ApiProperty({ example: '2025-10-20T09:12:00.000Z' })
+  generatedAt: string;
+
+  @ApiProperty({
+    description: 'Profile fields, role and home company',
+    example: {
+      id: '123e4567-e89b-12d3-a456-426614174000',
+      firstName: 'John',
+      lastName: 'Doe',
+      email: 'john.doe@example.com',
+      status: 'active',
+      role: {
+        id: 'f81d4fae-7dec-11d0-a765-00a0c91e6bf6',
+        name: 'Vendor Admin',
+        code: 'vendor_admin',
+      },
+      company: { id: 'c4a8f4b0-8d2a-4b6d-8f9c-1e2b3d4a5f6a', name: 'Smith & Partners' },
+    },
+  })
+  profile: Record<string, unknown>;
+
+  @ApiProperty({ description: 'Memberships in other companies', type: [Object] })
+  companyMemberships: Record<string, unknown>[];
+
+  @ApiProperty({ description: 'Teams the user belongs to', type: [Object] })
+  teamMemberships: Record<string, unknown>[];
+
+  @ApiProperty({
+    description: 'Direct permission grants and the effective permission names',
+    example: { direct: [], effective: ['teams:read:own'] },
+  })
+  permissions: { direct: Record<string, unknown>[]; effective: string[] };
+
+  @ApiProperty({ description: 'Lawyer credentials submitted by the user', type: [Object] })
+  lawyerCredentials: Record<string, unknown>[];
+
+  @ApiProperty({ description: 'Invitations sent to the user', type: [Object] })
+  invitations: Record<string, unknown>[];
+
+  @ApiProperty({ description: 'Support impersonation sessions of the account', type: [Object] })
+  impersonationSessions: Record<string, unknown>[];
+
+  @ApiProperty({
+    description: 'Devices the user signed in from, with their IP address and location',
+    type: [Object],
+  })
+  loginSessions: Record<string, unknown>[];
+
+  @ApiProperty({ description: 'Unusual sign-ins flagged on the account', type: [Object] })
+  loginAnomalies: Record<string, unknown>[];
+
+  @ApiProperty({
+    description: 'Audit trail records about the user or performed by them',
+    type: [Object],
+  })
+  auditEntries: Record<string, unknown>[];
+}
@@ -147,6 +147,33 @@ export class BaseUserProfileDto {
     type: RoleDto,
   })
   role?: RoleDto | null;
+
+  @Expose()
+  @ApiProperty({
+    example: 'Paralegal',
+    description: 'Job title, set by a company admin',
+    required: false,
+    nullable: true,
+  })
+  jobTitle?: string | null;
+
+  @Expose()
+  @ApiProperty({
+    example: 'https://cdn.example.com/avatars/john.png',
+    description: 'Avatar image URL',
+    required: false,
+    nullable: true,
+  })
+  avatarUrl?: string | null;
+
+  @Expose()
+  @ApiProperty({
+    example: 'America/New_York',
+    description: 'IANA time zone',
+    required: false,
+    nullable: true,
+  })
+  timezone?: string | null;
 }
 
 /**
@@ -186,6 +213,33 @@ export class OwnUserProfileDto extends BaseUserProfileDto {
     enum: ['PENDING', 'ACTIVE', 'SUSPENDED', 'DELETED'],
   })
   status: string;
+
+  @Expose()
+  @ApiProperty({
+    example: '+15551234567',
+    description: 'User phone number',
+    required: false,
+    nullable: true,
+  })
+  phoneNumber?: string | null;
+
+  @Expose()
+  @ApiProperty({
+    example: 'en-US',
+    description: 'Preferred locale (BCP 47)',
+    required: false,
+    nullable: true,
+  })
+  locale?: string | null;
+
+  @Expose()
+  @ApiProperty({
+    example: 'john.new@example.com',
+    description: 'New email address awaiting verification',
+    required: false,
+    nullable: true,
+  })
+  pendingEmail?: string | null;
 }
 
 /**
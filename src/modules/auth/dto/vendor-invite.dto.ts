@@ -45,11 +45,14 @@ export class VendorInviteDto {
 
   @ApiProperty({
     example: true,
-    description: 'Whether the user is a lawyer',
+    description:
+      'Ignored: lawyer status is derived from verified lawyer credentials (POST /lawyer-credentials)',
+    required: false,
+    deprecated: true,
   })
   @IsBoolean()
-  @IsNotEmpty()
-  is_lawyer: boolean;
+  @IsOptional()
+  is_lawyer?: boolean;
 
   @ApiProperty({
     example: 'optional-company-id',
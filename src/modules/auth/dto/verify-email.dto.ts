@@ -0,0 +1,12 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString } from 'class-validator';
+
+export class VerifyEmailDto {
+  @ApiProperty({
+    description: 'Token from the email change verification link',
+    example: 'Q2hhbmdlIG1lIHBsZWFzZSBhbmQgdGhhbmsgeW91',
+  })
+  @IsString()
+  @IsNotEmpty()
+  token: string;
+}
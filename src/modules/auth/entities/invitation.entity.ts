@@ -0,0 +1,134 @@
+import {
+  AllowNull,
+  BelongsTo,
+  Column,
+  CreatedAt,
+  DataType,
+  Default,
+  ForeignKey,
+  Model,
+  PrimaryKey,
+  Table,
+  UpdatedAt,
+} from 'sequelize-typescript';
+import { Company } from '../../company/entities/company.entity';
+import { Role } from '../../role/entities/role.entity';
+import { User } from './user.entity';
+
+/**
+ * Invitation lifecycle enum.
+ */
+export enum InvitationStatus {
+  /** Sent and waiting for the invitee to accept */
+  PENDING = 'pending',
+  /** Accepted; the invited user is linked and active */
+  ACCEPTED = 'accepted',
+  /** Cancelled by an admin before it was accepted */
+  REVOKED = 'revoked',
+  /** Not accepted before expires_at */
+  EXPIRED = 'expired',
+}
+
+/**
+ * Invitation sent to a user created by acme-invite or vendor-invite.
+ * Only the SHA-256 hash of the invitation token is stored.
+ */
+@Table({
+  tableName: 'Invitations',
+  timestamps: true,
+  underscored: true,
+  indexes: [
+    {
+      fields: ['token_hash'],
+      unique: true,
+      name: 'uq_invitations_token_hash',
+    },
+    {
+      fields: ['company_id', 'status'],
+      name: 'idx_invitations_company_status',
+    },
+    {
+      fields: ['user_id'],
+      name: 'idx_invitations_user',
+    },
+  ],
+})
+export class Invitation extends Model {
+  @PrimaryKey
+  @Default(DataType.UUIDV4)
+  @Column(DataType.UUID)
+  id: string;
+
+  @AllowNull(false)
+  @Column(DataType.STRING)
+  email: string;
+
+  @AllowNull(false)
+  @ForeignKey(() => Company)
+  @Column(DataType.UUID)
+  company_id: string;
+
+  @AllowNull(false)
+  @ForeignKey(() => Role)
+  @Column(DataType.UUID)
+  role_id: string;
+
+  @AllowNull(false)
+  @ForeignKey(() => User)
+  @Column(DataType.UUID)
+  invited_by: string;
+
+  @ForeignKey(() => User)
+  @Column(DataType.UUID)
+  user_id: string;
+
+  @AllowNull(false)
+  @Column(DataType.CHAR(64))
+  token_hash: string;
+
+  @AllowNull(false)
+  @Default(InvitationStatus.PENDING)
+  @Column(DataType.ENUM(...Object.values(InvitationStatus)))
+  status: InvitationStatus;
+
+  @AllowNull(false)
+  @Column(DataType.DATE)
+  expires_at: Date;
+
+  @AllowNull(false)
+  @Column(DataType.DATE)
+  last_sent_at: Date;
+
+  @AllowNull(false)
+  @Default(1)
+  @Column(DataType.INTEGER)
+  send_count: number;
+
+  @Column(DataType.DATE)
+  accepted_at?: Date | null;
+
+  @Column(DataType.DATE)
+  revoked_at?: Date | null;
+
+  @ForeignKey(() => User)
+  @Column(DataType.UUID)
+  revoked_by?: string | null;
+
+  @BelongsTo(() => Company)
+  company: Company;
+
+  @BelongsTo(() => Role)
+  role: Role;
+
+  @BelongsTo(() => User, 'invited_by')
+  inviter: User;
+
+  @BelongsTo(() => User, 'user_id')
+  user: User;
+
+  @CreatedAt
+  created_at: Date;
+
+  @UpdatedAt
+  updated_at: Date;
+}
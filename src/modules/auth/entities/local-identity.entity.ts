@@ -0,0 +1,84 @@
+import {
+  AllowNull,
+  Column,
+  CreatedAt,
+  DataType,
+  Default,
+  Model,
+  PrimaryKey,
+  Table,
+  Unique,
+  UpdatedAt,
+} from 'sequelize-typescript';
+
+/**
+ * Login managed by the local identity provider (IDENTITY_PROVIDER=local).
+ * subject is the JWT sub claim and matches Users.auth0_user_id.
+ * Passwords are bcrypt hashes; refresh tokens and password tickets are SHA-256 hashes.
+ */
+@Table({
+  tableName: 'LocalIdentities',
+  timestamps: true,
+  underscored: true,
+  indexes: [
+    {
+      fields: ['refresh_token_hash'],
+      name: 'idx_local_identities_refresh_token',
+    },
+    {
+      fields: ['password_ticket_hash'],
+      name: 'idx_local_identities_password_ticket',
+    },
+  ],
+})
+export class LocalIdentity extends Model {
+  @PrimaryKey
+  @Default(DataType.UUIDV4)
+  @Column(DataType.UUID)
+  id: string;
+
+  @AllowNull(false)
+  @Unique
+  @Column(DataType.STRING)
+  subject: string;
+
+  @AllowNull(false)
+  @Unique
+  @Column(DataType.STRING)
+  email: string;
+
+  @Column(DataType.STRING)
+  name?: string | null;
+
+  @Column(DataType.STRING)
+  password_hash?: string | null;
+
+  @AllowNull(false)
+  @Default(false)
+  @Column(DataType.BOOLEAN)
+  email_verified: boolean;
+
+  @Column(DataType.JSON)
+  user_metadata?: Record<string, any> | null;
+
+  @Column(DataType.CHAR(64))
+  refresh_token_hash?: string | null;
+
+  @Column(DataType.DATE)
+  refresh_token_expires_at?: Date | null;
+
+  @Column(DataType.CHAR(64))
+  password_ticket_hash?: string | null;
+
+  @Column(DataType.DATE)
+  password_ticket_expires_at?: Date | null;
+
+  @Column(DataType.STRING(2048))
+  password_ticket_result_url?: string | null;
+
+  @CreatedAt
+  created_at: Date;
+
+  @UpdatedAt
+  updated_at: Date;
+}
@@ -0,0 +1,111 @@
+import {
+  AllowNull,
+  BelongsTo,
+  Column,
+  CreatedAt,
+  DataType,
+  Default,
+  ForeignKey,
+  HasMany,
+  Model,
+  PrimaryKey,
+  Table,
+  UpdatedAt,
+} from 'sequelize-typescript';
+import { Company } from '../../company/entities/company.entity';
+import { UserImportRow } from './user-import-row.entity';
+import { User } from './user.entity';
+
+/**
+ * Bulk import job lifecycle enum.
+ */
+export enum UserImportJobStatus {
+  /** Rows are recorded and waiting to be processed */
+  PENDING = 'pending',
+  /** Rows are being invited one by one */
+  RUNNING = 'running',
+  /** Every row was processed; see the row outcomes for failures */
+  COMPLETED = 'completed',
+  /** Processing stopped unexpectedly; unprocessed rows stay pending */
+  FAILED = 'failed',
+}
+
+/**
+ * Bulk vendor user import started from a CSV/XLSX upload. Each row of the file
+ * is tracked as a UserImportRow with its own outcome.
+ */
+@Table({
+  tableName: 'UserImportJobs',
+  timestamps: true,
+  underscored: true,
+  indexes: [
+    {
+      fields: ['company_id', 'created_at'],
+      name: 'idx_user_import_jobs_company_created',
+    },
+  ],
+})
+export class UserImportJob extends Model {
+  @PrimaryKey
+  @Default(DataType.UUIDV4)
+  @Column(DataType.UUID)
+  id: string;
+
+  @AllowNull(false)
+  @ForeignKey(() => Company)
+  @Column(DataType.UUID)
+  company_id: string;
+
+  @AllowNull(false)
+  @ForeignKey(() => User)
+  @Column(DataType.UUID)
+  created_by: string;
+
+  @AllowNull(false)
+  @Column(DataType.STRING)
+  file_name: string;
+
+  @AllowNull(false)
+  @Default(UserImportJobStatus.PENDING)
+  @Column(DataType.ENUM(...Object.values(UserImportJobStatus)))
+  status: UserImportJobStatus;
+
+  @AllowNull(false)
+  @Column(DataType.INTEGER)
+  total_rows: number;
+
+  @AllowNull(false)
+  @Default(0)
+  @Column(DataType.INTEGER)
+  succeeded_count: number;
+
+  @AllowNull(false)
+  @Default(0)
+  @Column(DataType.INTEGER)
+  failed_count: number;
+
+  @Column(DataType.DATE)
+  started_at?: Date | null;
+
+  @Column(DataType.DATE)
+  finished_at?: Date | null;
+
+  /** Why the job stopped when status is FAILED */
+  @Column(DataType.STRING(500))
+  error?: string | null;
+
+  @BelongsTo(() => Company)
+  company: Company;
+
+  @BelongsTo(() => User, 'created_by')
+  creator: User;
+
+  @HasMany(() => UserImportRow)
+  rows: UserImportRow[];
+
+  @CreatedAt
+  created_at: Date;
+
+  @UpdatedAt
+  updated_at: Date;
+}
@@ -0,0 +1,109 @@
+import {
+  AllowNull,
+  BelongsTo,
+  Column,
+  CreatedAt,
+  DataType,
+  Default,
+  ForeignKey,
+  Model,
+  PrimaryKey,
+  Table,
+  UpdatedAt,
+} from 'sequelize-typescript';
+import { UserImportJob } from './user-import-job.entity';
+import { User } from './user.entity';
+
+/**
+ * Outcome of a single row of a bulk import job.
+ */
+export enum UserImportRowStatus {
+  /** Not processed yet */
+  PENDING = 'pending',
+  /** User invited and added to every requested team */
+  SUCCEEDED = 'succeeded',
+  /** User invited, but one or more team assignments failed */
+  PARTIAL = 'partial',
+  /** User could not be invited */
+  FAILED = 'failed',
+}
+
+/**
+ * Row of a bulk import file, stored as validated so the job can be processed
+ * after the upload request has returned
+ */
+@Table({
+  tableName: 'UserImportRows',
+  timestamps: true,
+  underscored: true,
+  indexes: [
+    {
+      fields: ['job_id', 'row_number'],
+      unique: true,
+      name: 'uq_user_import_rows_job_row',
+    },
+  ],
+})
+export class UserImportRow extends Model {
+  @PrimaryKey
+  @Default(DataType.UUIDV4)
+  @Column(DataType.UUID)
+  id: string;
+
+  @AllowNull(false)
+  @ForeignKey(() => UserImportJob)
+  @Column(DataType.UUID)
+  job_id: string;
+
+  /** Line of the row in the uploaded file (the header is line 1) */
+  @AllowNull(false)
+  @Column(DataType.INTEGER)
+  row_number: number;
+
+  @AllowNull(false)
+  @Column(DataType.STRING)
+  email: string;
+
+  @AllowNull(false)
+  @Column(DataType.STRING)
+  first_name: string;
+
+  @AllowNull(false)
+  @Column(DataType.STRING)
+  last_name: string;
+
+  /** Vendor role of the row (vendor_employee or vendor_manager) */
+  @AllowNull(false)
+  @Column(DataType.STRING(50))
+  role: string;
+
+  /** Existing teams of the company the user is added to */
+  @AllowNull(false)
+  @Column(DataType.JSON)
+  team_ids: string[];
+
+  @AllowNull(false)
+  @Default(UserImportRowStatus.PENDING)
+  @Column(DataType.ENUM(...Object.values(UserImportRowStatus)))
+  status: UserImportRowStatus;
+
+  /** User created for the row */
+  @ForeignKey(() => User)
+  @Column(DataType.UUID)
+  user_id?: string | null;
+
+  @Column(DataType.STRING(500))
+  error?: string | null;
+
+  @BelongsTo(() => UserImportJob)
+  job: UserImportJob;
+
+  @BelongsTo(() => User, 'user_id')
+  user?: User;
+
+  @CreatedAt
+  created_at: Date;
+
+  @UpdatedAt
+  updated_at: Date;
+}
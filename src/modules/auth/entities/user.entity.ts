@@ -14,6 +14,7 @@ import {
   Unique,
   UpdatedAt,
 } from 'sequelize-typescript';
+import { CompanyMembership } from '../../company-membership/entities/company-membership.entity';
 import { Company } from '../../company/entities/company.entity';
 import { Permission } from '../../role/entities/permission.entity';
 import { Role } from '../../role/entities/role.entity';
@@ -84,15 +85,75 @@ export class User extends Model {
   @Column(DataType.UUID)
   role_id: string;
 
+  /**
+   * Derived from the user's lawyer credentials: true while at least one is verified,
+   * in good standing and unexpired. Only LawyerCredentialService writes it.
+   */
   @Default(false)
   @Column(DataType.BOOLEAN)
   is_lawyer: boolean;
 
+  /**
+   * The lawyer flag predates lawyer credentials. It is kept without a credential
+   * until one is verified, after which the credentials alone decide.
+   */
+  @Default(false)
+  @Column(DataType.BOOLEAN)
+  lawyer_flag_grandfathered: boolean;
+
+  @Column(DataType.STRING(32))
+  phone_number?: string | null;
+
+  /** IANA time zone, e.g. Europe/Lisbon */
+  @Column(DataType.STRING(64))
+  timezone?: string | null;
+
+  /** BCP 47 language tag, e.g. pt-PT */
+  @Column(DataType.STRING(16))
+  locale?: string | null;
+
+  @Column(DataType.STRING(100))
+  job_title?: string | null;
+
+  @Column(DataType.STRING(2048))
+  avatar_url?: string | null;
+
+  /**
+   * Email address requested through PATCH /users/me. It replaces email once the user
+   * confirms it with the verification token (only its SHA-256 hash is stored).
+   */
+  @Column(DataType.STRING)
+  pending_email?: string | null;
+
+  @Column(DataType.CHAR(64))
+  email_verification_token_hash?: string | null;
+
+  @Column(DataType.DATE)
+  email_verification_expires_at?: Date | null;
+
   @AllowNull(false)
   @Default(UserStatus.PENDING)
   @Column(DataType.ENUM(...Object.values(UserStatus)))
   status: UserStatus;
 
+  /**
+   * Access tokens issued before this moment are rejected ("sign out everywhere").
+   * Bumped on request and whenever the user or their company is suspended.
+   */
+  @Column(DataType.DATE)
+  tokens_valid_after?: Date | null;
+
+  /**
+   * Set when the user's personal data was erased (GDPR). The row is kept, anonymized,
+   * so that references such as TeamMember.added_by_user_id and audit records stay valid.
+   */
+  @Column(DataType.DATE)
+  erased_at?: Date | null;
+
+  /** Identifier of the user in the company directory that provisions it over SCIM */
+  @Column(DataType.STRING(255))
+  scim_external_id?: string | null;
+
   @ForeignKey(() => Company)
   @Column(DataType.UUID)
   company_id: string;
@@ -129,12 +190,46 @@ export class User extends Model {
   @HasMany(() => UserPermission)
   user_permissions: UserPermission[];
 
+  /** Companies the user belongs to besides their home company (company_id) */
+  @HasMany(() => CompanyMembership, 'user_id')
+  memberships: CompanyMembership[];
+
+  /**
+   * Set while the request acts in another company through a membership
+   * (see applyMembership). Not persisted.
+   */
+  activeMembership?: CompanyMembership;
+
+  /** Home company of the user while company_id holds the active company. Not persisted. */
+  homeCompanyId?: string;
+
   @CreatedAt
   created_at: Date;
 
   @UpdatedAt
   updated_at: Date;
 
+  /**
+   * Makes the rest of the request act in the company of a membership: company_id,
+   * role_id, role and company are replaced by those of the membership, so tenant
+   * checks and permission checks see the active company. The replaced values are
+   * never written back by save() or update().
+   */
+  applyMembership(membership: CompanyMembership): void {
+    this.homeCompanyId = this.homeCompanyId ?? this.company_id;
+    this.activeMembership = membership;
+
+    this.setDataValue('company_id', membership.company_id);
+    this.setDataValue('role_id', membership.role_id);
+    this.changed('company_id', false);
+    this.changed('role_id', false);
+
+    // Included associations are plain properties of the instance
+    const dataValues = this.dataValues as Partial<User>;
+    this.role = dataValues.role = membership.role as Role;
+    this.company = dataValues.company = membership.company as Company;
+  }
+
   // Helper methods for role checking
   hasRole(roleName: string): boolean {
     return this.role?.name === roleName;
@@ -0,0 +1,264 @@
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import axios from 'axios';
+import { Auth0IdentityProvider } from './auth0-identity.provider';
+
+// Mock axios
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+describe('Auth0IdentityProvider', () => {
+  let service: Auth0IdentityProvider;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        Auth0IdentityProvider,
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string) => {
+              const config = {
+                AUTH0_ISSUER_BASE_URL: 'https://test.auth0.com',
+                AUTH0_CLIENT_ID: 'test-client-id',
+                AUTH0_CLIENT_SECRET: 'test-client-secret',
+                AUTH0_MANAGEMENT_CLIENT_ID: 'test-mgmt-client-id',
+                AUTH0_MANAGEMENT_CLIENT_SECRET: 'test-mgmt-secret',
+                AUTH0_MANAGEMENT_AUDIENCE: 'https://test.auth0.com/api/v2/',
+                API_AUDIENCE: 'https://api.test.com',
+              };
+              return config[key];
+            }),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<Auth0IdentityProvider>(Auth0IdentityProvider);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.clearAllMocks();
+  });
+
+  describe('getManagementApiToken', () => {
+    it('should get a new management API token', async () => {
+      const mockResponse = {
+        data: {
+          access_token: 'test-token',
+          expires_in: 86400,
+        },
+      };
+      mockedAxios.post.mockResolvedValue(mockResponse);
+
+      const result = await service.getManagementApiToken();
+
+      expect(mockedAxios.post).toHaveBeenCalledWith(
+        'https://test.auth0.com/oauth/token',
+        {
+          grant_type: 'client_credentials',
+          client_id: 'test-mgmt-client-id',
+          client_secret: 'test-mgmt-secret',
+          audience: 'https://test.auth0.com/api/v2/',
+        },
+        {
+          headers: {
+            'Content-Type': 'application/json',
+          },
+        }
+      );
+      expect(result).toBe('test-token');
+    });
+
+    it('should return cached token if still valid', async () => {
+      // First call to get token
+      const mockResponse = {
+        data: {
+          access_token: 'test-token',
+          expires_in: 86400,
+        },
+      };
+      mockedAxios.post.mockResolvedValue(mockResponse);
+
+      await service.getManagementApiToken();
+      mockedAxios.post.mockClear();
+
+      // Second call should use cached token
+      const result = await service.getManagementApiToken();
+
+      expect(mockedAxios.post).not.toHaveBeenCalled();
+      expect(result).toBe('test-token');
+    });
+  });
+
+  describe('signUp', () => {
+    it('should sign up user successfully', async () => {
+      // Mock management token
+      mockedAxios.post.mockResolvedValueOnce({
+        data: {
+          access_token: 'mgmt-token',
+          expires_in: 86400,
+        },
+      });
+
+      // Mock user creation
+      const mockResponse = {
+        data: {
+          user_id: 'auth0|123456',
+          email: 'john@example.com',
+        },
+      };
+      mockedAxios.post.mockResolvedValueOnce(mockResponse);
+
+      const result = await service.signUp({
+        firstName: 'John',
+        lastName: 'Doe',
+        email: 'john@example.com',
+        password: 'Password123!',
+      });
+
+      expect(mockedAxios.post).toHaveBeenCalledWith(
+        'https://test.auth0.com/api/v2/users',
+        {
+          connection: 'Acme-DB',
+          email: 'john@example.com',
+          password: 'Password123!',
+          user_metadata: {
+            firstName: 'John',
+            lastName: 'Doe',
+          },
+        },
+        {
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: 'Bearer mgmt-token',
+          },
+        }
+      );
+      expect(result).toEqual({ userId: 'auth0|123456' });
+    });
+
+    it('should throw BadRequestException for duplicate email', async () => {
+      // Mock management token
+      mockedAxios.post.mockResolvedValueOnce({
+        data: {
+          access_token: 'mgmt-token',
+          expires_in: 86400,
+        },
+      });
+
+      // Mock duplicate email error
+      mockedAxios.post.mockRejectedValueOnce({
+        response: {
+          status: 409,
+          data: { error: 'user_exists' },
+        },
+      });
+
+      await expect(
+        service.signUp({
+          firstName: 'John',
+          lastName: 'Doe',
+          email: 'john@example.com',
+          password: 'Password123!',
+        })
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should throw BadRequestException for weak password', async () => {
+      // Mock management token
+      mockedAxios.post.mockResolvedValueOnce({
+        data: {
+          access_token: 'mgmt-token',
+          expires_in: 86400,
+        },
+      });
+
+      // Mock weak password error
+      mockedAxios.post.mockRejectedValueOnce({
+        response: {
+          status: 400,
+          data: { message: 'PasswordStrengthError: Password is too weak' },
+        },
+      });
+
+      await expect(
+        service.signUp({
+          firstName: 'John',
+          lastName: 'Doe',
+          email: 'john@example.com',
+          password: 'weak',
+        })
+      ).rejects.toThrow('Password is too weak');
+    });
+  });
+
+  describe('updateEmail', () => {
+    beforeEach(() => {
+      // Mock management token
+      mockedAxios.post.mockResolvedValueOnce({
+        data: {
+          access_token: 'mgmt-token',
+          expires_in: 86400,
+        },
+      });
+    });
+
+    it('should update the email through the Management API', async () => {
+      mockedAxios.patch.mockResolvedValueOnce({ data: {} });
+
+      await service.updateEmail('auth0|123', 'john.new@example.com');
+
+      expect(mockedAxios.patch).toHaveBeenCalledWith(
+        'https://test.auth0.com/api/v2/users/auth0%7C123',
+        { email: 'john.new@example.com', email_verified: true, connection: 'Acme-DB' },
+        expect.objectContaining({
+          headers: expect.objectContaining({ Authorization: 'Bearer mgmt-token' }),
+        })
+      );
+    });
+
+    it('should throw ConflictException when Auth0 already has the email', async () => {
+      mockedAxios.patch.mockRejectedValueOnce({
+        response: { status: 409, data: { message: 'The specified new email already exists' } },
+      });
+
+      await expect(service.updateEmail('auth0|123', 'taken@example.com')).rejects.toThrow(
+        ConflictException
+      );
+    });
+  });
+
+  describe('deleteUser', () => {
+    beforeEach(() => {
+      mockedAxios.post.mockResolvedValueOnce({
+        data: {
+          access_token: 'mgmt-token',
+          expires_in: 86400,
+        },
+      });
+    });
+
+    it('should delete the user through the Management API', async () => {
+      mockedAxios.delete.mockResolvedValueOnce({ data: {} });
+
+      await service.deleteUser('auth0|123');
+
+      expect(mockedAxios.delete).toHaveBeenCalledWith(
+        'https://test.auth0.com/api/v2/users/auth0%7C123',
+        expect.objectContaining({
+          headers: expect.objectContaining({ Authorization: 'Bearer mgmt-token' }),
+        })
+      );
+    });
+
+    it('should succeed when the user no longer exists in Auth0', async () => {
+      mockedAxios.delete.mockRejectedValueOnce({ response: { status: 404, data: {} } });
+
+      await expect(service.deleteUser('auth0|123')).resolves.toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,378 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  InternalServerErrorException,
+  ServiceUnavailableException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import axios from 'axios';
+import { ERROR_CODES } from '../../../common/constants/error-codes';
+import { SignUpDto } from '../dto/signup.dto';
+import { IdentityProvider, IdentityTokens, IdentityUser } from './identity-provider.interface';
+
+/**
+ * Identity provider backed by Auth0 (authentication and management APIs)
+ */
+@Injectable()
+export class Auth0IdentityProvider implements IdentityProvider {
+  private managementApiToken: string | null = null;
+  private tokenExpirationTime: number = 0;
+
+  constructor(private configService: ConfigService) {}
+
+  private getAuth0Config() {
+    const env = process.env.NODE_ENV || 'development';
+
+    // You might want to move this to a dedicated config file
+    const config = {
+      development: {
+        auth0IssuerBaseUrl: this.configService.get('AUTH0_ISSUER_BASE_URL'),
+        auth0ClientId: this.configService.get('AUTH0_CLIENT_ID'),
+        auth0ClientSecret: this.configService.get('AUTH0_CLIENT_SECRET'),
+        auth0ManagementClientSecret: this.configService.get('AUTH0_MANAGEMENT_CLIENT_SECRET'),
+        auth0ManagementClientId: this.configService.get('AUTH0_MANAGEMENT_CLIENT_ID'),
+        auth0ManagementAudience: this.configService.get('AUTH0_MANAGEMENT_AUDIENCE'),
+        apiAudience: this.configService.get('AUTH0_AUDIENCE'),
+      },
+      production: {
+        auth0IssuerBaseUrl: this.configService.get('AUTH0_ISSUER_BASE_URL'),
+        auth0ClientId: this.configService.get('AUTH0_CLIENT_ID'),
+        auth0ClientSecret: this.configService.get('AUTH0_CLIENT_SECRET'),
+        auth0ManagementClientSecret: this.configService.get('AUTH0_MANAGEMENT_CLIENT_SECRET'),
+        auth0ManagementClientId: this.configService.get('AUTH0_MANAGEMENT_CLIENT_ID'),
+        auth0ManagementAudience: this.configService.get('AUTH0_MANAGEMENT_AUDIENCE'),
+        apiAudience: this.configService.get('AUTH0_AUDIENCE'),
+      },
+      test: {
+        auth0IssuerBaseUrl: this.configService.get('AUTH0_ISSUER_BASE_URL'),
+        auth0ClientId: this.configService.get('AUTH0_CLIENT_ID'),
+        auth0ClientSecret: this.configService.get('AUTH0_CLIENT_SECRET'),
+        auth0ManagementClientSecret: this.configService.get('AUTH0_MANAGEMENT_CLIENT_SECRET'),
+        auth0ManagementClientId: this.configService.get('AUTH0_MANAGEMENT_CLIENT_ID'),
+        auth0ManagementAudience: this.configService.get('AUTH0_MANAGEMENT_AUDIENCE'),
+        apiAudience: this.configService.get('AUTH0_AUDIENCE'),
+      },
+      local: {
+        auth0IssuerBaseUrl: this.configService.get('AUTH0_ISSUER_BASE_URL'),
+        auth0ClientId: this.configService.get('AUTH0_CLIENT_ID'),
+        auth0ClientSecret: this.configService.get('AUTH0_CLIENT_SECRET'),
+        auth0ManagementClientSecret: this.configService.get('AUTH0_MANAGEMENT_CLIENT_SECRET'),
+        auth0ManagementClientId: this.configService.get('AUTH0_MANAGEMENT_CLIENT_ID'),
+        auth0ManagementAudience: this.configService.get('AUTH0_MANAGEMENT_AUDIENCE'),
+        apiAudience: this.configService.get('AUTH0_AUDIENCE'),
+      },
+    };
+
+    return config[env] || config.development;
+  }
+
+  async getManagementApiToken(): Promise<string | null> {
+    // Check if token exists and is still valid
+    if (this.managementApiToken && Date.now() < this.tokenExpirationTime) {
+      return this.managementApiToken;
+    }
+
+    try {
+      const envConfig = this.getAuth0Config();
+
+      const auth0Response = await axios.post(
+        `${envConfig.auth0IssuerBaseUrl}/oauth/token`,
+        {
+          grant_type: 'client_credentials',
+          client_id: envConfig.auth0ManagementClientId,
+          client_secret: envConfig.auth0ManagementClientSecret,
+          audience: envConfig.auth0ManagementAudience,
+        },
+        {
+          headers: {
+            'Content-Type': 'application/json',
+          },
+        }
+      );
+
+      this.managementApiToken = auth0Response.data.access_token;
+      this.tokenExpirationTime = Date.now() + (auth0Response.data.expires_in - 60) * 1000;
+
+      return this.managementApiToken;
+    } catch (error) {
+      if (error.response) {
+        console.error('Error getting Management API token:', error.response.data);
+        throw new InternalServerErrorException('Failed to get Management API token');
+      }
+      throw error;
+    }
+  }
+
+  async signUp(signUpDto: SignUpDto): Promise<IdentityUser> {
+    try {
+      const { firstName, lastName, email, password } = signUpDto;
+      const token = await this.getManagementApiToken();
+      const envConfig = this.getAuth0Config();
+
+      const auth0Response = await axios.post(
+        `${envConfig.auth0IssuerBaseUrl}/api/v2/users`,
+        {
+          connection: 'Acme-DB',
+          email,
+          password,
+          user_metadata: {
+            firstName,
+            lastName,
+          },
+        },
+        {
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${token}`,
+          },
+        }
+      );
+
+      return { userId: auth0Response.data.user_id };
+    } catch (error) {
+      if (error.response) {
+        console.error('Error signing up with Auth0:', error.response.data);
+        if (error.response.status === 409) {
+          throw new BadRequestException('Email already exists');
+        }
+        if (error.response.data.message?.includes('PasswordStrengthError')) {
+          throw new BadRequestException('Password is too weak');
+        }
+        throw new BadRequestException('Failed to create user in Auth0');
+      }
+      throw error;
+    }
+  }
+
+  async refresh(refreshToken: string): Promise<IdentityTokens> {
+    try {
+      const envConfig = this.getAuth0Config();
+
+      const auth0Response = await axios.post(
+        `${envConfig.auth0IssuerBaseUrl}/oauth/token`,
+        {
+          grant_type: 'refresh_token',
+          client_id: envConfig.auth0ClientId,
+          client_secret: this.configService.get('AUTH0_CLIENT_SECRET'),
+          refresh_token: refreshToken,
+        },
+        {
+          headers: {
+            'Content-Type': 'application/json',
+          },
+        }
+      );
+
+      return {
+        accessToken: auth0Response.data.access_token,
+        refreshToken: auth0Response.data.refresh_token,
+        expiresIn: auth0Response.data.expires_in,
+      };
+    } catch (error) {
+      if (error.response) {
+        console.error('Error refreshing token with Auth0:', error.response.data);
+        throw new UnauthorizedException('Invalid refresh token');
+      }
+      throw error;
+    }
+  }
+
+  async exchangeCodeForTokens(code: string): Promise<IdentityTokens> {
+    try {
+      const envConfig = this.getAuth0Config();
+
+      const tokenResponse = await axios.post(
+        `${envConfig.auth0IssuerBaseUrl}/oauth/token`,
+        {
+          grant_type: 'authorization_code',
+          client_id: envConfig.auth0ClientId,
+          client_secret: this.configService.get('AUTH0_CLIENT_SECRET'),
+          code: code,
+          redirect_uri: 'com.acme.acmeapp://auth',
+        },
+        {
+          headers: {
+            'Content-Type': 'application/json',
+          },
+        }
+      );
+
+      return {
+        accessToken: tokenResponse.data.access_token,
+        refreshToken: tokenResponse.data.refresh_token,
+        expiresIn: tokenResponse.data.expires_in,
+      };
+    } catch (error) {
+      if (error.response) {
+        console.error('Error exchanging code for tokens:', error.response.data);
+        throw new BadRequestException('Failed to exchange code for tokens');
+      }
+      throw error;
+    }
+  }
+
+  async createUser(userData: {
+    email: string;
+    name: string;
+    user_metadata: Record<string, any>;
+  }): Promise<IdentityUser> {
+    try {
+      const token = await this.getManagementApiToken();
+      const envConfig = this.getAuth0Config();
+
+      const response = await axios.post(
+        `${envConfig.auth0IssuerBaseUrl}/api/v2/users`,
+        {
+          email: userData.email,
+          name: userData.name,
+          connection: 'Acme-DB',
+          password: this.generateTemporaryPassword(),
+          user_metadata: userData.user_metadata,
+          verify_email: false, // We'll send custom invitation
+          email_verified: false,
+        },
+        {
+          headers: {
+            Authorization: `Bearer ${token}`,
+            'Content-Type': 'application/json',
+          },
+        }
+      );
+
+      return { userId: response.data.user_id };
+    } catch (error) {
+      if (error.response?.status === 409) {
+        throw new BadRequestException({
+          success: false,
+          code: 'USER_EXISTS_AUTH0',
+          message: 'User already exists in Auth0',
+        });
+      }
+      console.error('Auth0 user creation failed:', error.response?.data || error.message);
+      throw new InternalServerErrorException({
+        success: false,
+        code: 'AUTH0_ERROR',
+        message: 'Failed to create user in authentication system',
+      });
+    }
+  }
+
+  async sendPasswordChangeTicket(email: string, resultUrl?: string): Promise<void> {
+    try {
+      const token = await this.getManagementApiToken();
+      const envConfig = this.getAuth0Config();
+
+      await axios.post(
+        `${envConfig.auth0IssuerBaseUrl}/api/v2/tickets/password-change`,
+        {
+          email: email,
+          connection_id: 'con_XYZ', // You'll need to get your actual connection ID
+          mark_email_as_verified: true,
+          ttl_sec: 604800, // 7 days
+          ...(resultUrl ? { result_url: resultUrl } : {}),
+        },
+        {
+          headers: {
+            Authorization: `Bearer ${token}`,
+            'Content-Type': 'application/json',
+          },
+        }
+      );
+    } catch (error) {
+      console.error('Failed to send password reset email:', error.response?.data || error.message);
+      throw new InternalServerErrorException({
+        success: false,
+        code: 'EMAIL_ERROR',
+        message: 'Failed to send invitation email',
+      });
+    }
+  }
+
+  /**
+   * Auth0 only emails the address a login already has, so it cannot verify a new one
+   * before the change is applied. Email changes are refused instead of left pending.
+   */
+  sendEmailVerification(_email: string, _verificationUrl: string): Promise<void> {
+    return Promise.reject(
+      new ServiceUnavailableException({
+        success: false,
+        code: ERROR_CODES.EMAIL_VERIFICATION_UNAVAILABLE,
+        message: 'Email changes cannot be verified with the current identity provider',
+      })
+    );
+  }
+
+  async updateEmail(userId: string, email: string): Promise<void> {
+    try {
+      const token = await this.getManagementApiToken();
+      const envConfig = this.getAuth0Config();
+
+      await axios.patch(
+        `${envConfig.auth0IssuerBaseUrl}/api/v2/users/${encodeURIComponent(userId)}`,
+        {
+          email,
+          email_verified: true, // Verified by our own email change flow
+          connection: 'Acme-DB',
+        },
+        {
+          headers: {
+            Authorization: `Bearer ${token}`,
+            'Content-Type': 'application/json',
+          },
+        }
+      );
+    } catch (error) {
+      if (error.response?.status === 409) {
+        throw new ConflictException({
+          success: false,
+          code: ERROR_CODES.EMAIL_ALREADY_IN_USE,
+          message: 'Email is already in use',
+        });
+      }
+      console.error('Auth0 email update failed:', error.response?.data || error.message);
+      throw new InternalServerErrorException({
+        success: false,
+        code: 'AUTH0_ERROR',
+        message: 'Failed to update email in authentication system',
+      });
+    }
+  }
+
+  async deleteUser(userId: string): Promise<void> {
+    try {
+      const token = await this.getManagementApiToken();
+      const envConfig = this.getAuth0Config();
+
+      await axios.delete(
+        `${envConfig.auth0IssuerBaseUrl}/api/v2/users/${encodeURIComponent(userId)}`,
+        {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        }
+      );
+    } catch (error) {
+      if (error.response?.status === 404) {
+        return;
+      }
+      console.error('Auth0 user deletion failed:', error.response?.data || error.message);
+      throw new InternalServerErrorException({
+        success: false,
+        code: 'AUTH0_ERROR',
+        message: 'Failed to delete user from authentication system',
+      });
+    }
+  }
+
+  private generateTemporaryPassword(): string {
+    // Generate a secure temporary password that meets Auth0 requirements
+    const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789!@#$%^&*';
+    let password = '';
+    for (let i = 0; i < 16; i++) {
+      password += chars.charAt(Math.floor(Math.random() * chars.length));
+    }
+    return password;
+  }
+}
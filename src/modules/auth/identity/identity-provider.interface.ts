@@ -0,0 +1,59 @@
+import { SignUpDto } from '../dto/signup.dto';
+
+/**
+ * Injection token for the identity provider selected by IDENTITY_PROVIDER
+ */
+export const IDENTITY_PROVIDER = 'IDENTITY_PROVIDER';
+
+/**
+ * Tokens issued by an identity provider
+ */
+export interface IdentityTokens {
+  accessToken: string;
+  refreshToken?: string;
+  expiresIn: number;
+}
+
+/**
+ * User created by an identity provider. userId is the JWT subject stored in Users.auth0_user_id.
+ */
+export interface IdentityUser {
+  userId: string;
+}
+
+/**
+ * Identity provider operations used by AuthService.
+ * Implemented by Auth0IdentityProvider (Auth0 APIs) and LocalIdentityProvider (offline, DB-backed).
+ */
+export interface IdentityProvider {
+  /** Creates a login with a password chosen by the user */
+  signUp(signUpDto: SignUpDto): Promise<IdentityUser>;
+
+  /** Creates a login for an invited user, who sets a password through a password ticket */
+  createUser(userData: {
+    email: string;
+    name: string;
+    user_metadata: Record<string, any>;
+  }): Promise<IdentityUser>;
+
+  /** Exchanges an authorization code for tokens */
+  exchangeCodeForTokens(code: string): Promise<IdentityTokens>;
+
+  /** Issues new tokens for a refresh token */
+  refresh(refreshToken: string): Promise<IdentityTokens>;
+
+  /** Sends a password-change ticket; the user is redirected to resultUrl once the password is set */
+  sendPasswordChangeTicket(email: string, resultUrl?: string): Promise<void>;
+
+  /**
+   * Sends the link that verifies a new email address before it replaces the login email.
+   * Throws when the provider cannot deliver it, so the change is not left pending.
+   */
+  sendEmailVerification(email: string, verificationUrl: string): Promise<void>;
+
+  /** Changes the login email of a user whose new address has already been verified */
+  updateEmail(userId: string, email: string): Promise<void>;
+
+  /** Deletes the login of a user; succeeds when it no longer exists */
+  deleteUser(userId: string): Promise<void>;
+}
@@ -0,0 +1,70 @@
+import { ConfigService } from '@nestjs/config';
+import {
+  getIdentityProviderType,
+  getLocalIdentityConfig,
+  IdentityProviderType,
+} from './identity.config';
+
+describe('identity config', () => {
+  const originalNodeEnv = process.env.NODE_ENV;
+
+  const configWith = (values: Record<string, string>) =>
+    ({
+      get: jest.fn((key: string, defaultValue?: unknown) => values[key] ?? defaultValue),
+    }) as unknown as ConfigService;
+
+  afterEach(() => {
+    process.env.NODE_ENV = originalNodeEnv;
+  });
+
+  describe('getIdentityProviderType', () => {
+    it('should default to the local provider in tests', () => {
+      expect(getIdentityProviderType(configWith({}))).toBe(IdentityProviderType.LOCAL);
+    });
+
+    it('should default to Auth0 outside tests', () => {
+      process.env.NODE_ENV = 'development';
+
+      expect(getIdentityProviderType(configWith({}))).toBe(IdentityProviderType.AUTH0);
+    });
+
+    it('should refuse the local provider in production', () => {
+      process.env.NODE_ENV = 'production';
+
+      expect(() => getIdentityProviderType(configWith({ IDENTITY_PROVIDER: 'local' }))).toThrow(
+        'IDENTITY_PROVIDER=local is not allowed when NODE_ENV=production'
+      );
+    });
+  });
+
+  describe('getLocalIdentityConfig', () => {
+    it('should fall back to the fixture key pair in tests', () => {
+      const config = getLocalIdentityConfig(configWith({}));
+
+      expect(config.privateKeyPath).toBe('test/fixtures/private.key');
+      expect(config.publicKeyPath).toBe('test/fixtures/public.key');
+    });
+
+    it('should require explicit key paths outside tests', () => {
+      process.env.NODE_ENV = 'development';
+
+      expect(() =>
+        getLocalIdentityConfig(configWith({ LOCAL_IDP_PUBLIC_KEY_PATH: 'keys/public.pem' }))
+      ).toThrow('LOCAL_IDP_PRIVATE_KEY_PATH must be set when IDENTITY_PROVIDER=local');
+    });
+
+    it('should use the configured key paths', () => {
+      process.env.NODE_ENV = 'development';
+
+      const config = getLocalIdentityConfig(
+        configWith({
+          LOCAL_IDP_PRIVATE_KEY_PATH: 'keys/private.pem',
+          LOCAL_IDP_PUBLIC_KEY_PATH: 'keys/public.pem',
+        })
+      );
+
+      expect(config.privateKeyPath).toBe('keys/private.pem');
+      expect(config.publicKeyPath).toBe('keys/public.pem');
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import { ConfigService } from '@nestjs/config';
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+
+export enum IdentityProviderType {
+  AUTH0 = 'auth0',
+  LOCAL = 'local',
+}
+
+/**
+ * Settings of the local identity provider (IDENTITY_PROVIDER=local)
+ */
+export interface LocalIdentityConfig {
+  issuer: string;
+  audience: string;
+  privateKeyPath: string;
+  publicKeyPath: string;
+  accessTokenTtlSeconds: number;
+}
+
+/**
+ * Returns the configured identity provider. Tests run against the local provider
+ * unless IDENTITY_PROVIDER says otherwise; every other environment defaults to Auth0.
+ * The local provider signs its own tokens and is refused in production.
+ */
+export function getIdentityProviderType(configService: ConfigService): IdentityProviderType {
+  const defaultType =
+    process.env.NODE_ENV === 'test' ? IdentityProviderType.LOCAL : IdentityProviderType.AUTH0;
+  const type = configService.get<string>('IDENTITY_PROVIDER', defaultType);
+
+  if (!Object.values(IdentityProviderType).includes(type as IdentityProviderType)) {
+    throw new Error(
+      `IDENTITY_PROVIDER must be one of: ${Object.values(IdentityProviderType).join(', ')}`
+    );
+  }
+
+  if (type === IdentityProviderType.LOCAL && process.env.NODE_ENV === 'production') {
+    throw new Error('IDENTITY_PROVIDER=local is not allowed when NODE_ENV=production');
+  }
+
+  return type as IdentityProviderType;
+}
+
+/**
+ * Settings of the local provider. Only tests fall back to the committed fixture key pair;
+ * every other environment has to point LOCAL_IDP_*_KEY_PATH at its own keys.
+ */
+export function getLocalIdentityConfig(configService: ConfigService): LocalIdentityConfig {
+  return {
+    issuer: configService.get<string>('LOCAL_IDP_ISSUER', 'http://localhost:3000/'),
+    audience: configService.get<string>('LOCAL_IDP_AUDIENCE', 'acme-api'),
+    privateKeyPath: getKeyPath(configService, 'LOCAL_IDP_PRIVATE_KEY_PATH', 'private.key'),
+    publicKeyPath: getKeyPath(configService, 'LOCAL_IDP_PUBLIC_KEY_PATH', 'public.key'),
+    accessTokenTtlSeconds: Number(configService.get('LOCAL_IDP_ACCESS_TOKEN_TTL_SECONDS', 3600)),
+  };
+}
+
+function getKeyPath(configService: ConfigService, key: string, fixtureFile: string): string {
+  const keyPath = configService.get<string>(key);
+  if (keyPath) {
+    return keyPath;
+  }
+  if (process.env.NODE_ENV !== 'test') {
+    throw new Error(`${key} must be set when IDENTITY_PROVIDER=local`);
+  }
+  return `test/fixtures/${fixtureFile}`;
+}
+
+/**
+ * Reads a PEM key file, relative paths being resolved from the working directory
+ */
+export function readKeyFile(keyPath: string): string {
+  return readFileSync(resolve(process.cwd(), keyPath), 'utf8');
+}
@@ -0,0 +1,199 @@
+import {
+  BadRequestException,
+  ConflictException,
+  GoneException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { getModelToken } from '@nestjs/sequelize';
+import { Test, TestingModule } from '@nestjs/testing';
+import * as jwt from 'jsonwebtoken';
+import { LocalIdentity } from '../entities/local-identity.entity';
+import { LocalIdentityProvider } from './local-identity.provider';
+
+describe('LocalIdentityProvider', () => {
+  let provider: LocalIdentityProvider;
+  let identities: any[];
+  let localIdentityModel: { findOne: jest.Mock; create: jest.Mock };
+
+  const signUpDto = {
+    firstName: 'John',
+    lastName: 'Doe',
+    email: 'john@example.com',
+    password: 'Password123!',
+  };
+
+  // In-memory stand-in for the LocalIdentities table
+  const toRecord = (values: Record<string, any>) => {
+    const record: any = { ...values };
+    record.update = jest.fn(async (changes: Record<string, any>) => Object.assign(record, changes));
+    return record;
+  };
+
+  beforeEach(async () => {
+    identities = [];
+    localIdentityModel = {
+      findOne: jest.fn(async ({ where }) => {
+        const [[key, value]] = Object.entries(where);
+        return identities.find((identity) => identity[key] === value) ?? null;
+      }),
+      create: jest.fn(async (values) => {
+        const record = toRecord(values);
+        identities.push(record);
+        return record;
+      }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LocalIdentityProvider,
+        { provide: getModelToken(LocalIdentity), useValue: localIdentityModel },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((_key: string, defaultValue?: unknown) => defaultValue) },
+        },
+      ],
+    }).compile();
+
+    provider = module.get<LocalIdentityProvider>(LocalIdentityProvider);
+    jest.spyOn(provider['logger'], 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('signUp and login', () => {
+    it('should issue an RS256 access token that verifies against the published key', async () => {
+      const { userId } = await provider.signUp(signUpDto);
+      const tokens = await provider.login(signUpDto.email, signUpDto.password);
+
+      const decoded = jwt.verify(tokens.accessToken, provider.getPublicKey(), {
+        algorithms: ['RS256'],
+        issuer: 'http://localhost:3000/',
+        audience: 'acme-api',
+      }) as jwt.JwtPayload;
+
+      expect(userId).toMatch(/^local\|/);
+      expect(decoded.sub).toBe(userId);
+      expect(decoded.email).toBe(signUpDto.email);
+      expect(tokens.expiresIn).toBe(3600);
+
+      const header = jwt.decode(tokens.accessToken, { complete: true })?.header;
+      const [jwk] = provider.getJwks().keys;
+      expect(header?.kid).toBe(jwk.kid);
+      expect(jwk).toEqual(expect.objectContaining({ kty: 'RSA', alg: 'RS256', use: 'sig' }));
+    });
+
+    it('should not store the plain password', async () => {
+      await provider.signUp(signUpDto);
+
+      expect(identities[0].password_hash).toBeDefined();
+      expect(identities[0].password_hash).not.toBe(signUpDto.password);
+    });
+
+    it('should reject a duplicate email', async () => {
+      await provider.signUp(signUpDto);
+
+      await expect(provider.signUp(signUpDto)).rejects.toThrow(BadRequestException);
+    });
+
+    it('should reject invalid credentials', async () => {
+      await provider.signUp(signUpDto);
+
+      await expect(provider.login(signUpDto.email, 'WrongPassword1!')).rejects.toThrow(
+        UnauthorizedException
+      );
+      await expect(provider.login('nobody@example.com', 'Password123!')).rejects.toThrow(
+        UnauthorizedException
+      );
+    });
+  });
+
+  describe('refresh', () => {
+    it('should rotate the refresh token', async () => {
+      await provider.signUp(signUpDto);
+      const first = await provider.login(signUpDto.email, signUpDto.password);
+
+      const second = await provider.refresh(first.refreshToken!);
+
+      expect(second.refreshToken).not.toBe(first.refreshToken);
+      await expect(provider.refresh(first.refreshToken!)).rejects.toThrow(UnauthorizedException);
+    });
+
+    it('should reject an expired refresh token', async () => {
+      await provider.signUp(signUpDto);
+      const tokens = await provider.login(signUpDto.email, signUpDto.password);
+      identities[0].refresh_token_expires_at = new Date(Date.now() - 1000);
+
+      await expect(provider.refresh(tokens.refreshToken!)).rejects.toThrow(UnauthorizedException);
+    });
+  });
+
+  describe('password tickets', () => {
+    const getLoggedTicket = () => {
+      const message = (provider['logger'].log as jest.Mock).mock.calls[0][0] as string;
+      return message.match(/ticket "([^"]+)"/)![1];
+    };
+
+    it('should let an invited user set a password and log in', async () => {
+      await provider.createUser({
+        email: 'invitee@example.com',
+        name: 'Jane Doe',
+        user_metadata: { invited: true },
+      });
+      await expect(provider.login('invitee@example.com', 'Password123!')).rejects.toThrow(
+        UnauthorizedException
+      );
+
+      await provider.sendPasswordChangeTicket('invitee@example.com', 'https://app.test/accept');
+      const result = await provider.setPassword(getLoggedTicket(), 'Password123!');
+
+      expect(result).toEqual({ resultUrl: 'https://app.test/accept' });
+      expect(identities[0].email_verified).toBe(true);
+      await expect(provider.login('invitee@example.com', 'Password123!')).resolves.toEqual(
+        expect.objectContaining({ accessToken: expect.any(String) })
+      );
+    });
+
+    it('should reject an unknown ticket', async () => {
+      await expect(provider.setPassword('unknown', 'Password123!')).rejects.toThrow(
+        BadRequestException
+      );
+    });
+
+    it('should reject an expired ticket', async () => {
+      await provider.signUp(signUpDto);
+      await provider.sendPasswordChangeTicket(signUpDto.email);
+      identities[0].password_ticket_expires_at = new Date(Date.now() - 1000);
+
+      await expect(provider.setPassword(getLoggedTicket(), 'Password456!')).rejects.toThrow(
+        GoneException
+      );
+    });
+  });
+
+  describe('updateEmail', () => {
+    it('should move the login to the new email', async () => {
+      const { userId } = await provider.signUp(signUpDto);
+
+      await provider.updateEmail(userId, 'john.new@example.com');
+
+      await expect(provider.login('john.new@example.com', signUpDto.password)).resolves.toEqual(
+        expect.objectContaining({ accessToken: expect.any(String) })
+      );
+      await expect(provider.login(signUpDto.email, signUpDto.password)).rejects.toThrow(
+        UnauthorizedException
+      );
+    });
+
+    it('should reject an email used by another identity', async () => {
+      const { userId } = await provider.signUp(signUpDto);
+      await provider.signUp({ ...signUpDto, email: 'jane@example.com' });
+
+      await expect(provider.updateEmail(userId, 'jane@example.com')).rejects.toThrow(
+        ConflictException
+      );
+    });
+  });
+});
@@ -0,0 +1,281 @@
+import {
+  BadRequestException,
+  ConflictException,
+  GoneException,
+  Injectable,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/sequelize';
+import * as bcrypt from 'bcryptjs';
+import { createHash, createPublicKey, JsonWebKey, randomBytes, randomUUID } from 'crypto';
+import * as jwt from 'jsonwebtoken';
+import { SignUpDto } from '../dto/signup.dto';
+import { LocalIdentity } from '../entities/local-identity.entity';
+import { IdentityProvider, IdentityTokens, IdentityUser } from './identity-provider.interface';
+import { getLocalIdentityConfig, LocalIdentityConfig, readKeyFile } from './identity.config';
+
+const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+const PASSWORD_TICKET_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const BCRYPT_ROUNDS = 10;
+
+interface SigningKeys {
+  privateKey: string;
+  publicKey: string;
+  kid: string;
+  jwk: JsonWebKey;
+}
+
+/**
+ * Offline identity provider for development and tests (IDENTITY_PROVIDER=local).
+ * Logins are kept in LocalIdentities and access tokens are RS256 JWTs signed with a
+ * local key pair, published at /.well-known/jwks.json.
+ */
+@Injectable()
+export class LocalIdentityProvider implements IdentityProvider {
+  private readonly logger = new Logger(LocalIdentityProvider.name);
+  private config: LocalIdentityConfig | null = null;
+  private keys: SigningKeys | null = null;
+
+  constructor(
+    @InjectModel(LocalIdentity)
+    private localIdentityModel: typeof LocalIdentity,
+    private readonly configService: ConfigService
+  ) {}
+
+  static hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+
+  async signUp(signUpDto: SignUpDto): Promise<IdentityUser> {
+    const { firstName, lastName, email, password } = signUpDto;
+
+    const identity = await this.createIdentity(
+      email,
+      `${firstName} ${lastName}`,
+      { firstName, lastName },
+      await bcrypt.hash(password, BCRYPT_ROUNDS)
+    );
+
+    return { userId: identity.subject };
+  }
+
+  async createUser(userData: {
+    email: string;
+    name: string;
+    user_metadata: Record<string, any>;
+  }): Promise<IdentityUser> {
+    const identity = await this.createIdentity(
+      userData.email,
+      userData.name,
+      userData.user_metadata
+    );
+
+    return { userId: identity.subject };
+  }
+
+  /**
+   * Checks the email and password and issues tokens (replaces the Auth0 hosted login)
+   */
+  async login(email: string, password: string): Promise<IdentityTokens> {
+    const identity = await this.localIdentityModel.findOne({ where: { email } });
+
+    if (!identity?.password_hash || !(await bcrypt.compare(password, identity.password_hash))) {
+      throw new UnauthorizedException('Invalid credentials');
+    }
+
+    return this.issueTokens(identity);
+  }
+
+  async exchangeCodeForTokens(_code: string): Promise<IdentityTokens> {
+    throw new BadRequestException(
+      'Authorization code exchange is not available with the local identity provider. Use POST /auth/local/login'
+    );
+  }
+
+  /**
+   * Issues new tokens and rotates the refresh token; the previous one stops working
+   */
+  async refresh(refreshToken: string): Promise<IdentityTokens> {
+    const identity = await this.localIdentityModel.findOne({
+      where: { refresh_token_hash: LocalIdentityProvider.hashToken(refreshToken) },
+    });
+
+    if (!identity?.refresh_token_expires_at || identity.refresh_token_expires_at <= new Date()) {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    return this.issueTokens(identity);
+  }
+
+  /**
+   * Creates a password ticket. There is no mail delivery offline, so the ticket is logged.
+   */
+  async sendPasswordChangeTicket(email: string, resultUrl?: string): Promise<void> {
+    const identity = await this.localIdentityModel.findOne({ where: { email } });
+    if (!identity) {
+      throw new BadRequestException('No local identity exists for this email');
+    }
+
+    const ticket = randomBytes(32).toString('base64url');
+    await identity.update({
+      password_ticket_hash: LocalIdentityProvider.hashToken(ticket),
+      password_ticket_expires_at: new Date(Date.now() + PASSWORD_TICKET_TTL_MS),
+      password_ticket_result_url: resultUrl ?? null,
+    });
+
+    this.logger.log(
+      `Password ticket for ${email}: POST /auth/local/password with ticket "${ticket}"` +
+        (resultUrl ? `, then continue at ${resultUrl}` : '')
+    );
+  }
+
+  /**
+   * Logs the verification link, as password tickets are, since there is no mailer offline
+   */
+  sendEmailVerification(email: string, verificationUrl: string): Promise<void> {
+    this.logger.log(`Email verification link for ${email}: ${verificationUrl}`);
+    return Promise.resolve();
+  }
+
+  /**
+   * Sets the password of the identity a password ticket was issued for.
+   * Returns the result URL given when the ticket was created, if any.
+   */
+  async setPassword(ticket: string, password: string): Promise<{ resultUrl: string | null }> {
+    const identity = await this.localIdentityModel.findOne({
+      where: { password_ticket_hash: LocalIdentityProvider.hashToken(ticket) },
+    });
+
+    if (!identity?.password_ticket_expires_at) {
+      throw new BadRequestException('Invalid password ticket');
+    }
+    if (identity.password_ticket_expires_at <= new Date()) {
+      throw new GoneException('Password ticket has expired');
+    }
+
+    const resultUrl = identity.password_ticket_result_url ?? null;
+    await identity.update({
+      password_hash: await bcrypt.hash(password, BCRYPT_ROUNDS),
+      email_verified: true,
+      password_ticket_hash: null,
+      password_ticket_expires_at: null,
+      password_ticket_result_url: null,
+    });
+
+    return { resultUrl };
+  }
+
+  async updateEmail(userId: string, email: string): Promise<void> {
+    const identity = await this.localIdentityModel.findOne({ where: { subject: userId } });
+    if (!identity) {
+      throw new BadRequestException('No local identity exists for this user');
+    }
+
+    const existing = await this.localIdentityModel.findOne({ where: { email } });
+    if (existing && existing.subject !== userId) {
+      throw new ConflictException('Email is already in use');
+    }
+
+    await identity.update({ email, email_verified: true });
+  }
+
+  async deleteUser(userId: string): Promise<void> {
+    await this.localIdentityModel.destroy({ where: { subject: userId } });
+  }
+
+  /**
+   * JSON Web Key Set with the public signing key
+   */
+  getJwks(): { keys: JsonWebKey[] } {
+    const { jwk, kid } = this.getSigningKeys();
+    return { keys: [{ ...jwk, kid, use: 'sig', alg: 'RS256' }] };
+  }
+
+  /**
+   * PEM public key used to verify access tokens
+   */
+  getPublicKey(): string {
+    return this.getSigningKeys().publicKey;
+  }
+
+  private async createIdentity(
+    email: string,
+    name: string,
+    userMetadata: Record<string, any>,
+    passwordHash: string | null = null
+  ): Promise<LocalIdentity> {
+    const existing = await this.localIdentityModel.findOne({ where: { email } });
+    if (existing) {
+      throw new BadRequestException('Email already exists');
+    }
+
+    return this.localIdentityModel.create({
+      subject: `local|${randomUUID()}`,
+      email,
+      name,
+      user_metadata: userMetadata,
+      password_hash: passwordHash,
+    });
+  }
+
+  private async issueTokens(identity: LocalIdentity): Promise<IdentityTokens> {
+    const { privateKey, kid } = this.getSigningKeys();
+    const { issuer, audience, accessTokenTtlSeconds } = this.getConfig();
+
+    const accessToken = jwt.sign(
+      { email: identity.email, azp: 'local', scope: 'openid profile email' },
+      privateKey,
+      {
+        algorithm: 'RS256',
+        keyid: kid,
+        jwtid: randomUUID(),
+        subject: identity.subject,
+        issuer,
+        audience,
+        expiresIn: accessTokenTtlSeconds,
+      }
+    );
+
+    const refreshToken = randomBytes(32).toString('base64url');
+    await identity.update({
+      refresh_token_hash: LocalIdentityProvider.hashToken(refreshToken),
+      refresh_token_expires_at: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+    });
+
+    return { accessToken, refreshToken, expiresIn: accessTokenTtlSeconds };
+  }
+
+  /**
+   * Reads the settings on first use so the Auth0 mode never needs the key paths
+   */
+  private getConfig(): LocalIdentityConfig {
+    if (!this.config) {
+      this.config = getLocalIdentityConfig(this.configService);
+    }
+
+    return this.config;
+  }
+
+  /**
+   * Loads the key pair on first use so the Auth0 mode never needs the key files
+   */
+  private getSigningKeys(): SigningKeys {
+    if (!this.keys) {
+      const { privateKeyPath, publicKeyPath } = this.getConfig();
+      const privateKey = readKeyFile(privateKeyPath);
+      const publicKey = readKeyFile(publicKeyPath);
+      const jwk = createPublicKey(publicKey).export({ format: 'jwk' });
+
+      // RFC 7638 thumbprint of the public key
+      const kid = createHash('sha256')
+        .update(JSON.stringify({ e: jwk.e, kty: jwk.kty, n: jwk.n }))
+        .digest('base64url');
+
+      this.keys = { privateKey, publicKey, kid, jwk };
+    }
+
+    return this.keys;
+  }
+}
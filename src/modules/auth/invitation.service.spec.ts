@@ -0,0 +1,361 @@
+import {
+  ConflictException,
+  ForbiddenException,
+  GoneException,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { getConnectionToken, getModelToken } from '@nestjs/sequelize';
+import { Test, TestingModule } from '@nestjs/testing';
+import { Op } from 'sequelize';
+import { ERROR_CODES } from '../../common/constants/error-codes';
+import { AuditTrailService } from '../audit/audit-trail.service';
+import { AuditSource } from '../audit/entities/audit-record.entity';
+import { PermissionsService } from '../role/permissions.service';
+import { AuthService } from './auth.service';
+import { Invitation, InvitationStatus } from './entities/invitation.entity';
+import { User, UserRole, UserStatus } from './entities/user.entity';
+import { InvitationService } from './invitation.service';
+import { EMAIL_CLAIM, JwtPayload } from './jwt-payload.interface';
+
+describe('InvitationService', () => {
+  let service: InvitationService;
+  let invitationModel: any;
+  let userModel: any;
+  let authService: { sendPasswordResetEmail: jest.Mock };
+  let permissionsService: { hasPermission: jest.Mock };
+  let auditTrailService: { append: jest.Mock };
+
+  const mockTransaction = {
+    commit: jest.fn(),
+    rollback: jest.fn(),
+    LOCK: { UPDATE: 'UPDATE' },
+  };
+
+  const vendorAdmin = {
+    id: 'admin-123',
+    company_id: 'company-123',
+    hasRoleEnum: jest.fn().mockReturnValue(false),
+  } as unknown as User;
+
+  const acmeAdmin = {
+    id: 'acme-admin-123',
+    company_id: 'acme-company',
+    hasRoleEnum: jest.fn((role: UserRole) => role === UserRole.ACME_ADMIN),
+  } as unknown as User;
+
+  const jwtPayload = {
+    sub: 'google-oauth2|999',
+    [EMAIL_CLAIM]: 'Jane@Vendor.com',
+  } as JwtPayload;
+
+  const buildInvitation = (overrides: Record<string, unknown> = {}) => {
+    const invitation: Record<string, unknown> = {
+      id: 'invitation-123',
+      email: 'jane@vendor.com',
+      company_id: 'company-123',
+      role_id: 'role-123',
+      invited_by: 'admin-123',
+      user_id: 'user-456',
+      token_hash: InvitationService.hashToken('valid-token'),
+      status: InvitationStatus.PENDING,
+      expires_at: new Date(Date.now() + 60 * 60 * 1000),
+      last_sent_at: new Date(),
+      send_count: 1,
+      created_at: new Date(),
+      ...overrides,
+    };
+    invitation.update = jest.fn((values: Record<string, unknown>) =>
+      Promise.resolve(Object.assign(invitation, values))
+    );
+    invitation.reload = jest.fn(() => Promise.resolve(invitation));
+    return invitation;
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        InvitationService,
+        {
+          provide: getModelToken(Invitation),
+          useValue: {
+            create: jest.fn(),
+            findOne: jest.fn(),
+            findByPk: jest.fn(),
+            findAndCountAll: jest.fn(),
+          },
+        },
+        {
+          provide: getModelToken(User),
+          useValue: {
+            findOne: jest.fn(),
+            findByPk: jest.fn(),
+            update: jest.fn(),
+          },
+        },
+        {
+          provide: AuthService,
+          useValue: { sendPasswordResetEmail: jest.fn() },
+        },
+        {
+          provide: PermissionsService,
+          useValue: { hasPermission: jest.fn() },
+        },
+        {
+          provide: AuditTrailService,
+          useValue: { append: jest.fn() },
+        },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string, defaultValue?: unknown) =>
+              key === 'INVITATION_ACCEPT_URL' ? 'https://app.acme.test/accept' : defaultValue
+            ),
+          },
+        },
+        {
+          provide: getConnectionToken(),
+          useValue: { transaction: jest.fn().mockResolvedValue(mockTransaction) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<InvitationService>(InvitationService);
+    invitationModel = module.get(getModelToken(Invitation));
+    userModel = module.get(getModelToken(User));
+    authService = module.get(AuthService);
+    permissionsService = module.get(PermissionsService);
+    auditTrailService = module.get(AuditTrailService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('findAll', () => {
+    it('should only list invitations of the vendor admin company', async () => {
+      permissionsService.hasPermission.mockImplementation(({ permission_name }) =>
+        Promise.resolve({ granted: permission_name === 'users:invite:vendor' })
+      );
+      invitationModel.findAndCountAll.mockResolvedValue({ count: 1, rows: [buildInvitation()] });
+
+      const result = await service.findAll(
+        { page: 1, limit: 10, companyId: 'other-company' },
+        vendorAdmin
+      );
+
+      const { where } = invitationModel.findAndCountAll.mock.calls[0][0];
+      expect(where[Op.and]).toContainEqual({ company_id: 'company-123' });
+      expect(where[Op.and]).not.toContainEqual({ company_id: 'other-company' });
+      expect(result.meta).toEqual({
+        currentPage: 1,
+        itemCount: 1,
+        itemsPerPage: 10,
+        totalPages: 1,
+      });
+      expect(result.data[0]).toEqual(
+        expect.objectContaining({ id: 'invitation-123', status: InvitationStatus.PENDING })
+      );
+      expect(result.data[0]).not.toHaveProperty('token_hash');
+    });
+
+    it('should reject users without an invite permission', async () => {
+      permissionsService.hasPermission.mockResolvedValue({ granted: false });
+
+      await expect(service.findAll({}, vendorAdmin)).rejects.toThrow(ForbiddenException);
+    });
+
+    it('should let Acme admins filter by any company', async () => {
+      invitationModel.findAndCountAll.mockResolvedValue({ count: 0, rows: [] });
+
+      await service.findAll({ companyId: 'other-company' }, acmeAdmin);
+
+      expect(permissionsService.hasPermission).not.toHaveBeenCalled();
+      const { where } = invitationModel.findAndCountAll.mock.calls[0][0];
+      expect(where[Op.and]).toContainEqual({ company_id: 'other-company' });
+    });
+  });
+
+  describe('resend', () => {
+    beforeEach(() => {
+      permissionsService.hasPermission.mockResolvedValue({ granted: true });
+    });
+
+    it('should rotate the token, extend the expiry and send it again', async () => {
+      const invitation = buildInvitation({ expires_at: new Date(Date.now() - 1000) });
+      invitationModel.findByPk.mockResolvedValue(invitation);
+
+      const result = await service.resend('invitation-123', vendorAdmin);
+
+      expect(invitation.token_hash).not.toBe(InvitationService.hashToken('valid-token'));
+      expect(invitation.send_count).toBe(2);
+      expect((invitation.expires_at as Date).getTime()).toBeGreaterThan(Date.now());
+      const acceptUrl = new URL(authService.sendPasswordResetEmail.mock.calls[0][1]);
+      expect(InvitationService.hashToken(acceptUrl.searchParams.get('token') as string)).toBe(
+        invitation.token_hash
+      );
+      expect(mockTransaction.commit).toHaveBeenCalled();
+      expect(result.status).toBe(InvitationStatus.PENDING);
+    });
+
+    it('should keep the previous token when the email cannot be sent', async () => {
+      invitationModel.findByPk.mockResolvedValue(buildInvitation());
+      authService.sendPasswordResetEmail.mockRejectedValue(new Error('Auth0 down'));
+
+      await expect(service.resend('invitation-123', vendorAdmin)).rejects.toThrow('Auth0 down');
+      expect(mockTransaction.rollback).toHaveBeenCalled();
+      expect(mockTransaction.commit).not.toHaveBeenCalled();
+    });
+
+    it('should hide invitations of other companies', async () => {
+      invitationModel.findByPk.mockResolvedValue(buildInvitation({ company_id: 'other-company' }));
+
+      await expect(service.resend('invitation-123', vendorAdmin)).rejects.toThrow(
+        NotFoundException
+      );
+    });
+  });
+
+  describe('revoke', () => {
+    beforeEach(() => {
+      permissionsService.hasPermission.mockResolvedValue({ granted: true });
+    });
+
+    it('should revoke the invitation and deactivate the pending user', async () => {
+      const invitation = buildInvitation();
+      invitationModel.findByPk.mockResolvedValue(invitation);
+
+      const result = await service.revoke('invitation-123', vendorAdmin);
+
+      expect(invitation.update).toHaveBeenCalledWith(
+        expect.objectContaining({ status: InvitationStatus.REVOKED, revoked_by: 'admin-123' }),
+        { transaction: mockTransaction }
+      );
+      expect(userModel.update).toHaveBeenCalledWith(
+        { status: UserStatus.DEACTIVATED },
+        { where: { id: 'user-456', status: UserStatus.PENDING }, transaction: mockTransaction }
+      );
+      expect(auditTrailService.append).toHaveBeenCalledWith(
+        expect.objectContaining({
+          tenantId: 'company-123',
+          source: AuditSource.USER,
+          action: 'INVITATION_REVOKED',
+          performedBy: 'admin-123',
+        }),
+        mockTransaction
+      );
+      expect(result.status).toBe(InvitationStatus.REVOKED);
+    });
+
+    it('should not revoke an accepted invitation', async () => {
+      invitationModel.findByPk.mockResolvedValue(
+        buildInvitation({ status: InvitationStatus.ACCEPTED })
+      );
+
+      await expect(service.revoke('invitation-123', vendorAdmin)).rejects.toThrow(
+        ConflictException
+      );
+    });
+  });
+
+  describe('accept', () => {
+    it('should link the subject and activate the pending user', async () => {
+      const invitation = buildInvitation();
+      const pendingUser = { id: 'user-456', status: UserStatus.PENDING, update: jest.fn() };
+      invitationModel.findOne.mockResolvedValue(invitation);
+      userModel.findOne.mockResolvedValue(null);
+      userModel.findByPk.mockResolvedValue(pendingUser);
+
+      const result = await service.accept('valid-token', jwtPayload);
+
+      expect(invitationModel.findOne).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { token_hash: InvitationService.hashToken('valid-token') },
+          lock: 'UPDATE',
+        })
+      );
+      expect(userModel.findByPk).toHaveBeenCalledWith('user-456', {
+        transaction: mockTransaction,
+        lock: 'UPDATE',
+      });
+      expect(pendingUser.update).toHaveBeenCalledWith(
+        { auth0_user_id: 'google-oauth2|999', status: UserStatus.ACTIVE },
+        { transaction: mockTransaction }
+      );
+      expect(result.status).toBe(InvitationStatus.ACCEPTED);
+      expect(result.acceptedAt).toEqual(expect.any(Date));
+      expect(mockTransaction.commit).toHaveBeenCalled();
+    });
+
+    it('should reject an unknown token', async () => {
+      invitationModel.findOne.mockResolvedValue(null);
+
+      await expect(service.accept('unknown', jwtPayload)).rejects.toThrow(NotFoundException);
+    });
+
+    it('should mark an expired invitation and reject it', async () => {
+      const invitation = buildInvitation({ expires_at: new Date(Date.now() - 1000) });
+      invitationModel.findOne.mockResolvedValue(invitation);
+
+      await expect(service.accept('valid-token', jwtPayload)).rejects.toThrow(GoneException);
+      expect(invitation.update).toHaveBeenCalledWith(
+        { status: InvitationStatus.EXPIRED },
+        { transaction: mockTransaction }
+      );
+      expect(mockTransaction.commit).toHaveBeenCalled();
+    });
+
+    it('should reject a revoked invitation', async () => {
+      invitationModel.findOne.mockResolvedValue(
+        buildInvitation({ status: InvitationStatus.REVOKED })
+      );
+
+      await expect(service.accept('valid-token', jwtPayload)).rejects.toThrow(GoneException);
+    });
+
+    it('should reject a subject already linked to another user', async () => {
+      invitationModel.findOne.mockResolvedValue(buildInvitation());
+      userModel.findOne.mockResolvedValue({ id: 'someone-else' });
+
+      await expect(service.accept('valid-token', jwtPayload)).rejects.toThrow(ConflictException);
+      expect(userModel.findByPk).not.toHaveBeenCalled();
+      expect(mockTransaction.rollback).toHaveBeenCalled();
+    });
+
+    it('should reject a login whose email is not the invited one', async () => {
+      invitationModel.findOne.mockResolvedValue(buildInvitation());
+
+      const error = await service
+        .accept('valid-token', { ...jwtPayload, [EMAIL_CLAIM]: 'mallory@vendor.com' })
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(ForbiddenException);
+      expect((error as ForbiddenException).getResponse()).toEqual(
+        expect.objectContaining({ code: ERROR_CODES.INVITATION_EMAIL_MISMATCH })
+      );
+      expect(userModel.findOne).not.toHaveBeenCalled();
+      expect(mockTransaction.rollback).toHaveBeenCalled();
+    });
+
+    it('should reject a login without an email', async () => {
+      invitationModel.findOne.mockResolvedValue(buildInvitation());
+
+      await expect(
+        service.accept('valid-token', { sub: 'google-oauth2|999' } as JwtPayload)
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('should reject an invitation accepted concurrently', async () => {
+      invitationModel.findOne.mockResolvedValue(
+        buildInvitation({ status: InvitationStatus.ACCEPTED })
+      );
+
+      const error = await service.accept('valid-token', jwtPayload).catch((e: unknown) => e);
+
+      expect((error as ConflictException).getResponse()).toEqual(
+        expect.objectContaining({ code: ERROR_CODES.INVITATION_ALREADY_ACCEPTED })
+      );
+      expect(userModel.findByPk).not.toHaveBeenCalled();
+    });
+  });
+});
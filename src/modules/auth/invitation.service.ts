@@ -0,0 +1,516 @@
+import {
+  ConflictException,
+  ForbiddenException,
+  GoneException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { getConnectionToken, InjectModel } from '@nestjs/sequelize';
+import { createHash, randomBytes } from 'crypto';
+import { Op, Transaction, WhereOptions } from 'sequelize';
+import { Sequelize } from 'sequelize-typescript';
+import { ERROR_CODES } from '../../common/constants/error-codes';
+import { PaginatedResponseDto } from '../../common/dto/paginated-response.dto';
+import { AuditTrailService } from '../audit/audit-trail.service';
+import { AuditSource } from '../audit/entities/audit-record.entity';
+import { Role } from '../role/entities/role.entity';
+import { PermissionsService } from '../role/permissions.service';
+import { AuthService } from './auth.service';
+import { InvitationQueryDto } from './dto/invitation-query.dto';
+import { InvitationResponseDto } from './dto/invitation-response.dto';
+import { Invitation, InvitationStatus } from './entities/invitation.entity';
+import { User, UserRole, UserStatus } from './entities/user.entity';
+import { EMAIL_CLAIM, JwtPayload } from './jwt-payload.interface';
+
+/** Permissions that allow a user to manage the invitations of their company */
+const INVITE_PERMISSIONS = ['users:invite:vendor', 'users:invite:acme'];
+
+export interface IssuedInvitation {
+  invitation: Invitation;
+  /** Raw token; only its hash is stored, so it must be delivered right away */
+  token: string;
+}
+
+/**
+ * Tracks the invitations sent by acme-invite and vendor-invite and handles
+ * resending, revoking and accepting them
+ */
+@Injectable()
+export class InvitationService {
+  private readonly logger = new Logger(InvitationService.name);
+
+  constructor(
+    @InjectModel(Invitation)
+    private readonly invitationModel: typeof Invitation,
+    @InjectModel(User)
+    private readonly userModel: typeof User,
+    private readonly authService: AuthService,
+    private readonly permissionsService: PermissionsService,
+    private readonly auditTrailService: AuditTrailService,
+    private readonly configService: ConfigService,
+    @Inject(getConnectionToken())
+    private readonly sequelize: Sequelize
+  ) {}
+
+  static hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+
+  /**
+   * Records the invitation of a newly created PENDING user, inside the caller's transaction
+   */
+  async create(user: User, invitedBy: string, transaction: Transaction): Promise<IssuedInvitation> {
+    const token = this.generateToken();
+    const now = new Date();
+
+    const invitation = await this.invitationModel.create(
+      {
+        email: user.email,
+        company_id: user.company_id,
+        role_id: user.role_id,
+        invited_by: invitedBy,
+        user_id: user.id,
+        token_hash: InvitationService.hashToken(token),
+        status: InvitationStatus.PENDING,
+        expires_at: this.getExpiry(now),
+        last_sent_at: now,
+        send_count: 1,
+      },
+      { transaction }
+    );
+
+    await this.recordAudit(invitation, 'USER_INVITED', invitedBy, transaction);
+
+    return { invitation, token };
+  }
+
+  /**
+   * Sends the invitation email: an Auth0 password-change ticket that redirects to the
+   * accept page with the invitation token once the password is set
+   */
+  async send(email: string, token: string): Promise<void> {
+    await this.authService.sendPasswordResetEmail(email, this.buildAcceptUrl(token));
+  }
+
+  /**
+   * Lists the invitations of the current user's company (any company for Acme admins)
+   */
+  async findAll(
+    query: InvitationQueryDto,
+    currentUser: User
+  ): Promise<PaginatedResponseDto<InvitationResponseDto>> {
+    const scopeCompanyId = await this.getManageableCompanyId(currentUser);
+    const { page = 1, limit = 10, status = InvitationStatus.PENDING } = query;
+    const offset = (page - 1) * limit;
+    const now = new Date();
+
+    // Pending invitations past their expiry are reported as expired
+    let statusFilter: WhereOptions;
+    if (status === InvitationStatus.PENDING) {
+      statusFilter = { status, expires_at: { [Op.gt]: now } };
+    } else if (status === InvitationStatus.EXPIRED) {
+      statusFilter = {
+        [Op.or]: [{ status }, { status: InvitationStatus.PENDING, expires_at: { [Op.lte]: now } }],
+      };
+    } else {
+      statusFilter = { status };
+    }
+
+    const companyId = scopeCompanyId ?? query.companyId;
+    const where: WhereOptions = companyId
+      ? { [Op.and]: [statusFilter, { company_id: companyId }] }
+      : statusFilter;
+
+    const { count, rows } = await this.invitationModel.findAndCountAll({
+      where,
+      include: this.getIncludes(),
+      limit,
+      offset,
+      order: [['created_at', 'DESC']],
+    });
+
+    return {
+      data: rows.map((invitation) => this.toResponse(invitation)),
+      meta: {
+        currentPage: page,
+        itemCount: count,
+        itemsPerPage: limit,
+        totalPages: Math.ceil(count / limit),
+      },
+    };
+  }
+
+  /**
+   * Issues a new token (invalidating the previous one), extends the expiry and sends it again
+   */
+  async resend(invitationId: string, currentUser: User): Promise<InvitationResponseDto> {
+    const invitation = await this.findManageable(invitationId, currentUser);
+
+    if (
+      invitation.status !== InvitationStatus.PENDING &&
+      invitation.status !== InvitationStatus.EXPIRED
+    ) {
+      throw new ConflictException({
+        success: false,
+        code: ERROR_CODES.INVITATION_NOT_PENDING,
+        message: `Cannot resend an invitation that is ${invitation.status}`,
+      });
+    }
+
+    const token = this.generateToken();
+    const now = new Date();
+    const transaction = await this.sequelize.transaction();
+
+    try {
+      await invitation.update(
+        {
+          token_hash: InvitationService.hashToken(token),
+          status: InvitationStatus.PENDING,
+          expires_at: this.getExpiry(now),
+          last_sent_at: now,
+          send_count: invitation.send_count + 1,
+        },
+        { transaction }
+      );
+
+      await this.recordAudit(invitation, 'INVITATION_RESENT', currentUser.id, transaction);
+
+      // Send before committing so a delivery failure keeps the previous token valid
+      await this.send(invitation.email, token);
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+
+    this.logger.log(`Invitation ${invitation.id} resent to ${invitation.email}`);
+
+    return this.toResponse(invitation);
+  }
+
+  /**
+   * Cancels a pending invitation and deactivates the user that was created for it
+   */
+  async revoke(invitationId: string, currentUser: User): Promise<InvitationResponseDto> {
+    const invitation = await this.findManageable(invitationId, currentUser);
+
+    if (
+      invitation.status !== InvitationStatus.PENDING &&
+      invitation.status !== InvitationStatus.EXPIRED
+    ) {
+      throw new ConflictException({
+        success: false,
+        code: ERROR_CODES.INVITATION_NOT_PENDING,
+        message: `Cannot revoke an invitation that is ${invitation.status}`,
+      });
+    }
+
+    const transaction = await this.sequelize.transaction();
+
+    try {
+      await invitation.update(
+        {
+          status: InvitationStatus.REVOKED,
+          revoked_at: new Date(),
+          revoked_by: currentUser.id,
+        },
+        { transaction }
+      );
+
+      await this.userModel.update(
+        { status: UserStatus.DEACTIVATED },
+        { where: { id: invitation.user_id, status: UserStatus.PENDING }, transaction }
+      );
+
+      await this.recordAudit(invitation, 'INVITATION_REVOKED', currentUser.id, transaction);
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+
+    this.logger.log(`Invitation ${invitation.id} revoked by ${currentUser.id}`);
+
+    return this.toResponse(invitation);
+  }
+
+  /**
+   * Accepts an invitation: links the authenticated subject to the invited user and
+   * moves the user from PENDING to ACTIVE. The email of the login must be the invited one.
+   */
+  async accept(token: string, jwtPayload: JwtPayload): Promise<InvitationResponseDto> {
+    const transaction = await this.sequelize.transaction();
+    let invitation: Invitation | null;
+    let expired = false;
+
+    try {
+      // The invitation and the invited user are locked so that concurrent accepts run one
+      // after the other, and only the first one links a login
+      invitation = await this.invitationModel.findOne({
+        where: { token_hash: InvitationService.hashToken(token) },
+        transaction,
+        lock: transaction.LOCK.UPDATE,
+      });
+
+      if (!invitation) {
+        throw new NotFoundException({
+          success: false,
+          code: ERROR_CODES.INVITATION_NOT_FOUND,
+          message: 'Invitation not found',
+        });
+      }
+
+      if (invitation.status === InvitationStatus.ACCEPTED) {
+        throw new ConflictException({
+          success: false,
+          code: ERROR_CODES.INVITATION_ALREADY_ACCEPTED,
+          message: 'Invitation has already been accepted',
+        });
+      }
+
+      if (invitation.status === InvitationStatus.REVOKED) {
+        throw new GoneException({
+          success: false,
+          code: ERROR_CODES.INVITATION_REVOKED,
+          message: 'Invitation has been revoked',
+        });
+      }
+
+      if (invitation.status === InvitationStatus.EXPIRED || invitation.expires_at <= new Date()) {
+        // Committed before the rejection below
+        if (invitation.status !== InvitationStatus.EXPIRED) {
+          await invitation.update({ status: InvitationStatus.EXPIRED }, { transaction });
+        }
+        expired = true;
+      } else {
+        await this.linkInvitedUser(invitation, jwtPayload, transaction);
+      }
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+
+    if (expired) {
+      throw new GoneException({
+        success: false,
+        code: ERROR_CODES.INVITATION_EXPIRED,
+        message: 'Invitation has expired',
+      });
+    }
+
+    this.logger.log(`Invitation ${invitation.id} accepted by user ${invitation.user_id}`);
+
+    await invitation.reload({ include: this.getIncludes() });
+
+    return this.toResponse(invitation);
+  }
+
+  /**
+   * Links the subject of the token to the invited user and activates them, inside the
+   * transaction holding the lock on the invitation
+   */
+  private async linkInvitedUser(
+    invitation: Invitation,
+    jwtPayload: JwtPayload,
+    transaction: Transaction
+  ): Promise<void> {
+    const tokenEmail = jwtPayload[EMAIL_CLAIM] ?? jwtPayload.email;
+    if (!tokenEmail || tokenEmail.trim().toLowerCase() !== invitation.email.toLowerCase()) {
+      throw new ForbiddenException({
+        success: false,
+        code: ERROR_CODES.INVITATION_EMAIL_MISMATCH,
+        message: 'The invitation was sent to another email address',
+      });
+    }
+
+    const linkedUser = await this.userModel.findOne({
+      where: { auth0_user_id: jwtPayload.sub },
+      attributes: ['id'],
+      transaction,
+    });
+
+    if (linkedUser && linkedUser.id !== invitation.user_id) {
+      throw new ConflictException({
+        success: false,
+        code: ERROR_CODES.AUTH0_SUBJECT_IN_USE,
+        message: 'This login is already linked to another user',
+      });
+    }
+
+    const user = await this.userModel.findByPk(invitation.user_id, {
+      transaction,
+      lock: transaction.LOCK.UPDATE,
+    });
+
+    if (!user || user.status !== UserStatus.PENDING) {
+      throw new ConflictException({
+        success: false,
+        code: ERROR_CODES.INVITATION_USER_NOT_PENDING,
+        message: 'The invited user is no longer pending activation',
+      });
+    }
+
+    await user.update(
+      { auth0_user_id: jwtPayload.sub, status: UserStatus.ACTIVE },
+      { transaction }
+    );
+
+    await invitation.update(
+      { status: InvitationStatus.ACCEPTED, accepted_at: new Date() },
+      { transaction }
+    );
+
+    await this.recordAudit(invitation, 'INVITATION_ACCEPTED', user.id, transaction);
+  }
+
+  /**
+   * Returns the company whose invitations the user may manage, or null for all companies
+   */
+  private async getManageableCompanyId(currentUser: User): Promise<string | null> {
+    if (
+      currentUser.hasRoleEnum(UserRole.SUPER_ADMIN) ||
+      currentUser.hasRoleEnum(UserRole.ACME_ADMIN)
+    ) {
+      return null;
+    }
+
+    const checks = await Promise.all(
+      INVITE_PERMISSIONS.map((permission_name) =>
+        this.permissionsService.hasPermission({
+          user_id: currentUser.id,
+          permission_name,
+          company_id: currentUser.company_id,
+        })
+      )
+    );
+
+    if (!currentUser.company_id || !checks.some((check) => check.granted)) {
+      throw new ForbiddenException({
+        success: false,
+        code: ERROR_CODES.INVITATION_ACCESS_DENIED,
+        message: 'You are not allowed to manage invitations',
+      });
+    }
+
+    return currentUser.company_id;
+  }
+
+  private async findManageable(invitationId: string, currentUser: User): Promise<Invitation> {
+    const scopeCompanyId = await this.getManageableCompanyId(currentUser);
+    const invitation = await this.invitationModel.findByPk(invitationId, {
+      include: this.getIncludes(),
+    });
+
+    // Invitations of other companies are reported as not found
+    if (!invitation || (scopeCompanyId && invitation.company_id !== scopeCompanyId)) {
+      throw new NotFoundException({
+        success: false,
+        code: ERROR_CODES.INVITATION_NOT_FOUND,
+        message: 'Invitation not found',
+      });
+    }
+
+    return invitation;
+  }
+
+  private async recordAudit(
+    invitation: Invitation,
+    action: string,
+    performedBy: string,
+    transaction: Transaction
+  ): Promise<void> {
+    await this.auditTrailService.append(
+      {
+        tenantId: invitation.company_id,
+        source: AuditSource.USER,
+        action,
+        entityId: invitation.user_id,
+        performedBy,
+        payload: {
+          invitationId: invitation.id,
+          roleId: invitation.role_id,
+          expiresAt: invitation.expires_at,
+        },
+      },
+      transaction
+    );
+  }
+
+  private getIncludes() {
+    return [
+      {
+        model: Role,
+        as: 'role',
+        attributes: ['id', 'name', 'code'],
+        required: false,
+      },
+      {
+        model: User,
+        as: 'inviter',
+        attributes: ['id', 'first_name', 'last_name', 'email'],
+        required: false,
+      },
+    ];
+  }
+
+  private toResponse(invitation: Invitation): InvitationResponseDto {
+    return {
+      id: invitation.id,
+      email: invitation.email,
+      companyId: invitation.company_id,
+      userId: invitation.user_id,
+      role: invitation.role
+        ? { id: invitation.role.id, name: invitation.role.name, code: invitation.role.code }
+        : { id: invitation.role_id },
+      status:
+        invitation.status === InvitationStatus.PENDING && invitation.expires_at <= new Date()
+          ? InvitationStatus.EXPIRED
+          : invitation.status,
+      invitedBy: invitation.inviter
+        ? {
+            id: invitation.inviter.id,
+            firstName: invitation.inviter.first_name,
+            lastName: invitation.inviter.last_name,
+            email: invitation.inviter.email,
+          }
+        : { id: invitation.invited_by },
+      expiresAt: invitation.expires_at,
+      lastSentAt: invitation.last_sent_at,
+      sendCount: invitation.send_count,
+      acceptedAt: invitation.accepted_at ?? null,
+      revokedAt: invitation.revoked_at ?? null,
+      createdAt: invitation.created_at,
+    };
+  }
+
+  private generateToken(): string {
+    return randomBytes(32).toString('base64url');
+  }
+
+  private getExpiry(from: Date): Date {
+    const ttlHours = Number(this.configService.get<number>('INVITATION_TTL_HOURS', 168));
+    return new Date(from.getTime() + ttlHours * 60 * 60 * 1000);
+  }
+
+  private buildAcceptUrl(token: string): string | undefined {
+    const baseUrl = this.configService.get<string>('INVITATION_ACCEPT_URL');
+
+    if (!baseUrl) {
+      this.logger.warn(
+        'INVITATION_ACCEPT_URL is not set; invitation emails will not carry a token'
+      );
+      return undefined;
+    }
+
+    const url = new URL(baseUrl);
+    url.searchParams.set('token', token);
+    return url.toString();
+  }
+}
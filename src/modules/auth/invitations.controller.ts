@@ -0,0 +1,118 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiParam, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { CurrentJwtPayload } from '../../common/decorators/jwt-payload.decorator';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { ResponseMessage } from '../../common/decorators/response-message.decorator';
+import { ApiResponseDto } from '../../common/dto/api-response.dto';
+import { PaginatedResponseDto } from '../../common/dto/paginated-response.dto';
+import { AllowPendingUser } from '../../core/decorators/allow-pending-user.decorator';
+import { AllowUnlinkedUser } from '../../core/decorators/allow-unlinked-user.decorator';
+import { JwtAuthGuard } from '../../core/guards/jwt-auth.guard';
+import { AcceptInvitationDto } from './dto/accept-invitation.dto';
+import { InvitationQueryDto } from './dto/invitation-query.dto';
+import { InvitationResponseDto } from './dto/invitation-response.dto';
+import { User } from './entities/user.entity';
+import { InvitationService } from './invitation.service';
+import { JwtPayload } from './jwt-payload.interface';
+
+@ApiTags('invitations')
+@Controller('invitations')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class InvitationsController {
+  constructor(private readonly invitationService: InvitationService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'List invitations',
+    description:
+      'Lists the invitations of your company (pending by default). Acme admins can see all companies.',
+  })
+  @ApiResponse({ status: 200, description: 'Invitations retrieved successfully' })
+  @ApiResponse({ status: 403, description: 'Forbidden', type: ApiResponseDto })
+  @ResponseMessage('Invitations retrieved successfully', 'INVITATIONS_GET_SUCCESS')
+  async findAll(
+    @Query() query: InvitationQueryDto,
+    @CurrentUser() currentUser: User
+  ): Promise<PaginatedResponseDto<InvitationResponseDto>> {
+    return this.invitationService.findAll(query, currentUser);
+  }
+
+  @Post('accept')
+  @AllowUnlinkedUser()
+  @AllowPendingUser()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Accept an invitation',
+    description:
+      'Links the authenticated login to the invited user and activates the account. ' +
+      'The login does not need to be linked to a user yet, but its email must be the invited one.',
+  })
+  @ApiResponse({ status: 200, description: 'Invitation accepted', type: InvitationResponseDto })
+  @ApiResponse({
+    status: 403,
+    description: 'Login email does not match the invitation',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({ status: 404, description: 'Invitation not found', type: ApiResponseDto })
+  @ApiResponse({
+    status: 409,
+    description: 'Already accepted or login in use',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({ status: 410, description: 'Invitation expired or revoked', type: ApiResponseDto })
+  @ResponseMessage('Invitation accepted successfully', 'INVITATION_ACCEPTED')
+  async accept(
+    @Body() acceptDto: AcceptInvitationDto,
+    @CurrentJwtPayload() jwtPayload: JwtPayload
+  ): Promise<InvitationResponseDto> {
+    return this.invitationService.accept(acceptDto.token, jwtPayload);
+  }
+
+  @Post(':id/resend')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Resend an invitation',
+    description: 'Issues a new token, extends the expiry and sends the invitation email again',
+  })
+  @ApiParam({ name: 'id', description: 'Invitation UUID' })
+  @ApiResponse({ status: 200, description: 'Invitation resent', type: InvitationResponseDto })
+  @ApiResponse({ status: 404, description: 'Invitation not found', type: ApiResponseDto })
+  @ApiResponse({ status: 409, description: 'Invitation is not pending', type: ApiResponseDto })
+  @ResponseMessage('Invitation resent successfully', 'INVITATION_RESENT')
+  async resend(
+    @Param('id', ParseUUIDPipe) invitationId: string,
+    @CurrentUser() currentUser: User
+  ): Promise<InvitationResponseDto> {
+    return this.invitationService.resend(invitationId, currentUser);
+  }
+
+  @Post(':id/revoke')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Revoke an invitation',
+    description: 'Cancels a pending invitation and deactivates the invited user',
+  })
+  @ApiParam({ name: 'id', description: 'Invitation UUID' })
+  @ApiResponse({ status: 200, description: 'Invitation revoked', type: InvitationResponseDto })
+  @ApiResponse({ status: 404, description: 'Invitation not found', type: ApiResponseDto })
+  @ApiResponse({ status: 409, description: 'Invitation is not pending', type: ApiResponseDto })
+  @ResponseMessage('Invitation revoked successfully', 'INVITATION_REVOKED')
+  async revoke(
+    @Param('id', ParseUUIDPipe) invitationId: string,
+    @CurrentUser() currentUser: User
+  ): Promise<InvitationResponseDto> {
+    return this.invitationService.revoke(invitationId, currentUser);
+  }
+}
@@ -1,3 +1,9 @@
+/** Custom claim selecting the active company of the token, overridden by the X-Company-Id header */
+export const ACTIVE_COMPANY_CLAIM = 'https://acme.com/company_id';
+
+/** Custom claim carrying the email of the login, added to Auth0 access tokens by an Action */
+export const EMAIL_CLAIM = 'https://acme.com/email';
+
 /**
  * JWT Payload Interface for Auth0 tokens
  *
@@ -20,12 +26,24 @@ export interface JwtPayload {
   /** Expiration time (seconds since the Unix epoch) */
   exp: number;
 
+  /** JWT ID - unique token identifier, used to revoke a single token */
+  jti?: string;
+
   /** Authorized party - the party to which the ID token was issued */
   azp: string;
 
   /** Scope (permissions) of the token */
   scope?: string;
 
+  /** Active company selected when the token was issued */
+  [ACTIVE_COMPANY_CLAIM]?: string;
+
+  /** Email of the login; the local identity provider sets it as a plain claim */
+  email?: string;
+
+  /** Email of the login in Auth0 access tokens */
+  [EMAIL_CLAIM]?: string;
+
   // Custom claims from Auth0 Actions/Rules can be added here
   // Example: 'https://my-app.com/roles'?: string[];
 }
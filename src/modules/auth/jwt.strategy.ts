@@ -2,14 +2,75 @@ import { Injectable } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { PassportStrategy } from '@nestjs/passport';
 import { passportJwtSecret } from 'jwks-rsa';
-import { ExtractJwt, Strategy } from 'passport-jwt';
+import { ExtractJwt, Strategy, StrategyOptions } from 'passport-jwt';
+import {
+  getIdentityProviderType,
+  getLocalIdentityConfig,
+  IdentityProviderType,
+  readKeyFile,
+} from './identity/identity.config';
 import { JwtPayload } from './jwt-payload.interface';
 
+/**
+ * Verification options for tokens of the local identity provider: the public key is
+ * read from disk, so no JWKS request leaves the machine
+ */
+function localStrategyOptions(configService: ConfigService): StrategyOptions {
+  const { issuer, audience, publicKeyPath } = getLocalIdentityConfig(configService);
+
+  return {
+    secretOrKey: readKeyFile(publicKeyPath),
+    jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
+    audience,
+    issuer,
+    algorithms: ['RS256'],
+    ignoreExpiration: false,
+  };
+}
+
+/**
+ * Verification options for Auth0 tokens, keys being fetched from the tenant's JWKS endpoint
+ */
+function auth0StrategyOptions(configService: ConfigService): StrategyOptions {
+  const issuerURL = configService.get<string>('AUTH0_ISSUER_BASE_URL');
+  const audience = configService.get<string>('AUTH0_AUDIENCE');
+
+  // Validate required configuration at startup
+  if (!issuerURL) {
+    throw new Error('AUTH0_ISSUER_BASE_URL is required for JWT strategy');
+  }
+  if (!audience) {
+    throw new Error('AUTH0_AUDIENCE is required for JWT strategy');
+  }
+
+  return {
+    // CRITICAL: Dynamic JWKS key fetching with enhanced security
+    secretOrKeyProvider: passportJwtSecret({
+      cache: true,
+      cacheMaxEntries: 5, // Maximum number of keys to cache
+      cacheMaxAge: 10 * 60 * 60 * 1000, // 10 hours in milliseconds
+      rateLimit: true,
+      jwksRequestsPerMinute: 5,
+      jwksUri: `${issuerURL}/.well-known/jwks.json`,
+    }),
+
+    // Extract JWT from Authorization: Bearer header
+    jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
+
+    // CRITICAL: Security validation options
+    audience: audience,
+    issuer: `${issuerURL}/`,
+    algorithms: ['RS256'], // Explicit algorithm specification prevents attacks
+    ignoreExpiration: false, // Ensure expired tokens are rejected
+  };
+}
+
 /**
  * JWT Strategy for Auth0 token validation
  *
  * This strategy implements secure JWT validation using Auth0's JWKS endpoint
  * for dynamic key fetching with caching and rate limiting.
+ * With IDENTITY_PROVIDER=local it verifies tokens of the local identity provider instead.
  *
  * Security features:
  * - Dynamic JWKS key fetching (replaces manual getKey from Express)
@@ -22,37 +83,11 @@ import { JwtPayload } from './jwt-payload.interface';
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy) {
   constructor(private configService: ConfigService) {
-    const issuerURL = configService.get<string>('AUTH0_ISSUER_BASE_URL');
-    const audience = configService.get<string>('AUTH0_AUDIENCE');
-
-    // Validate required configuration at startup
-    if (!issuerURL) {
-      throw new Error('AUTH0_ISSUER_BASE_URL is required for JWT strategy');
-    }
-    if (!audience) {
-      throw new Error('AUTH0_AUDIENCE is required for JWT strategy');
-    }
-
-    super({
-      // CRITICAL: Dynamic JWKS key fetching with enhanced security
-      secretOrKeyProvider: passportJwtSecret({
-        cache: true,
-        cacheMaxEntries: 5, // Maximum number of keys to cache
-        cacheMaxAge: 10 * 60 * 60 * 1000, // 10 hours in milliseconds
-        rateLimit: true,
-        jwksRequestsPerMinute: 5,
-        jwksUri: `${issuerURL}/.well-known/jwks.json`,
-      }),
-
-      // Extract JWT from Authorization: Bearer header
-      jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
-
-      // CRITICAL: Security validation options
-      audience: audience,
-      issuer: `${issuerURL}/`,
-      algorithms: ['RS256'], // Explicit algorithm specification prevents attacks
-      ignoreExpiration: false, // Ensure expired tokens are rejected
-    });
+    super(
+      getIdentityProviderType(configService) === IdentityProviderType.LOCAL
+        ? localStrategyOptions(configService)
+        : auth0StrategyOptions(configService)
+    );
   }
 
   /**
@@ -0,0 +1,89 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  NotFoundException,
+  Post,
+  Res,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { Response } from 'express';
+import { ApiResponseDto } from '../../common/dto/api-response.dto';
+import { AuthResponseDto } from './dto/auth-response.dto';
+import { LoginDto } from './dto/login.dto';
+import { SetLocalPasswordDto } from './dto/set-local-password.dto';
+import { getIdentityProviderType, IdentityProviderType } from './identity/identity.config';
+import { LocalIdentityProvider } from './identity/local-identity.provider';
+
+/**
+ * Endpoints of the local identity provider. They only exist when IDENTITY_PROVIDER=local
+ * and answer 404 otherwise.
+ */
+@ApiTags('auth')
+@Controller()
+export class LocalIdentityController {
+  constructor(
+    private readonly localIdentityProvider: LocalIdentityProvider,
+    private readonly configService: ConfigService
+  ) {}
+
+  @Get('.well-known/jwks.json')
+  @ApiOperation({ summary: 'JSON Web Key Set of the local identity provider' })
+  @ApiResponse({ status: 200, description: 'Public signing keys' })
+  getJwks(@Res() res: Response): void {
+    this.assertLocalMode();
+    // Served as a bare JWKS document, outside the standard response envelope
+    res.json(this.localIdentityProvider.getJwks());
+  }
+
+  @Post('auth/local/login')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Log in with the local identity provider' })
+  @ApiResponse({ status: 200, description: 'Login successful', type: AuthResponseDto })
+  @ApiResponse({ status: 401, description: 'Invalid credentials', type: ApiResponseDto })
+  async login(@Body() loginDto: LoginDto): Promise<AuthResponseDto> {
+    this.assertLocalMode();
+    const tokens = await this.localIdentityProvider.login(loginDto.email, loginDto.password);
+
+    return {
+      success: true,
+      code: 'AUTH_LOGIN_SUCCESSFUL',
+      message: 'Login successful',
+      payload: tokens,
+    };
+  }
+
+  @Post('auth/local/password')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Set a password with a password ticket',
+    description:
+      'Completes the password ticket the local identity provider logs instead of emailing it',
+  })
+  @ApiResponse({ status: 200, description: 'Password set', type: AuthResponseDto })
+  @ApiResponse({ status: 400, description: 'Invalid password ticket', type: ApiResponseDto })
+  @ApiResponse({ status: 410, description: 'Password ticket expired', type: ApiResponseDto })
+  async setPassword(@Body() setPasswordDto: SetLocalPasswordDto): Promise<AuthResponseDto> {
+    this.assertLocalMode();
+    const result = await this.localIdentityProvider.setPassword(
+      setPasswordDto.ticket,
+      setPasswordDto.password
+    );
+
+    return {
+      success: true,
+      code: 'AUTH_PASSWORD_SET',
+      message: 'Password set successfully',
+      payload: result,
+    };
+  }
+
+  private assertLocalMode(): void {
+    if (getIdentityProviderType(this.configService) !== IdentityProviderType.LOCAL) {
+      throw new NotFoundException();
+    }
+  }
+}
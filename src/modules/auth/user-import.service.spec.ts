@@ -0,0 +1,387 @@
+import {
+  BadRequestException,
+  ConflictException,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { getConnectionToken, getModelToken } from '@nestjs/sequelize';
+import { Test, TestingModule } from '@nestjs/testing';
+import { Workbook } from 'exceljs';
+import { ERROR_CODES } from '../../common/constants/error-codes';
+import { AuditTrailService } from '../audit/audit-trail.service';
+import { Team } from '../team/entities/team.entity';
+import { TeamService } from '../team/team.service';
+import { VendorRole } from './dto/vendor-invite.dto';
+import { UserImportJob, UserImportJobStatus } from './entities/user-import-job.entity';
+import { UserImportRow, UserImportRowStatus } from './entities/user-import-row.entity';
+import { User, UserRole, UserStatus } from './entities/user.entity';
+import { UserImportService } from './user-import.service';
+import { UserService } from './user.service';
+
+describe('UserImportService', () => {
+  let service: UserImportService;
+  let jobModel: any;
+  let rowModel: any;
+  let userModel: any;
+  let teamModel: any;
+  let userService: { vendorInvite: jest.Mock; mapVendorRoleToUserRole: jest.Mock };
+  let teamService: { addMember: jest.Mock };
+  let auditTrailService: { append: jest.Mock };
+
+  const vendorAdmin = { id: 'admin-1', company_id: 'company-1' } as User;
+
+  const csvFile = (content: string, originalname = 'users.csv') =>
+    ({ originalname, buffer: Buffer.from(content) }) as Express.Multer.File;
+
+  const buildJob = (overrides: Record<string, any> = {}) => {
+    const job: any = {
+      id: 'job-1',
+      company_id: 'company-1',
+      created_by: 'admin-1',
+      file_name: 'users.csv',
+      status: UserImportJobStatus.PENDING,
+      total_rows: 0,
+      succeeded_count: 0,
+      failed_count: 0,
+      ...overrides,
+    };
+    job.update = jest.fn(async (changes) => Object.assign(job, changes));
+    return job;
+  };
+
+  const buildRow = (overrides: Record<string, any> = {}) => {
+    const row: any = {
+      job_id: 'job-1',
+      row_number: 2,
+      email: 'jane@vendor.com',
+      first_name: 'Jane',
+      last_name: 'Smith',
+      role: VendorRole.VENDOR_EMPLOYEE,
+      team_ids: [],
+      status: UserImportRowStatus.PENDING,
+      ...overrides,
+    };
+    row.update = jest.fn(async (changes) => Object.assign(row, changes));
+    return row;
+  };
+
+  beforeEach(async () => {
+    jobModel = {
+      create: jest.fn(async (values) => buildJob(values)),
+      findAll: jest.fn().mockResolvedValue([]),
+      findByPk: jest.fn(),
+      findOne: jest.fn(),
+      findAndCountAll: jest.fn(),
+      update: jest.fn().mockResolvedValue([1]),
+    };
+    rowModel = { bulkCreate: jest.fn(), findAll: jest.fn().mockResolvedValue([]) };
+    userModel = { findAll: jest.fn().mockResolvedValue([]), findByPk: jest.fn() };
+    teamModel = {
+      findAll: jest.fn().mockResolvedValue([
+        { id: 'a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11', name: 'Litigation' },
+        { id: 'b1eebc99-9c0b-4ef8-bb6d-6bb9bd380a22', name: 'Immigration' },
+      ]),
+    };
+    userService = {
+      vendorInvite: jest.fn(),
+      mapVendorRoleToUserRole: jest.fn((role: VendorRole) =>
+        role === VendorRole.VENDOR_MANAGER ? UserRole.VENDOR_MANAGER : UserRole.VENDOR_EMPLOYEE
+      ),
+    };
+    teamService = { addMember: jest.fn() };
+    auditTrailService = { append: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        UserImportService,
+        { provide: getModelToken(UserImportJob), useValue: jobModel },
+        { provide: getModelToken(UserImportRow), useValue: rowModel },
+        { provide: getModelToken(User), useValue: userModel },
+        { provide: getModelToken(Team), useValue: teamModel },
+        { provide: UserService, useValue: userService },
+        { provide: TeamService, useValue: teamService },
+        { provide: AuditTrailService, useValue: auditTrailService },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((_key: string, defaultValue?: unknown) => defaultValue) },
+        },
+        {
+          provide: getConnectionToken(),
+          useValue: { transaction: jest.fn((callback) => callback({})) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<UserImportService>(UserImportService);
+    jest.spyOn(service['logger'], 'error').mockImplementation(() => undefined);
+    jest.spyOn(service['logger'], 'warn').mockImplementation(() => undefined);
+  });
+
+  describe('preview', () => {
+    it('should report the problems of each row', async () => {
+      userModel.findAll.mockResolvedValue([
+        { id: 'user-1', email: 'taken@vendor.com', company_id: 'company-1' },
+        { id: 'user-2', email: 'elsewhere@other.com', company_id: 'company-2' },
+      ]);
+      const file = csvFile(
+        [
+          'Email,First Name,Last Name,Role,Teams',
+          'jane@vendor.com,Jane,Smith,Manager,litigation; Immigration',
+          'JANE@vendor.com,Janet,Smith,vendor_employee,',
+          'taken@vendor.com,Tom,Jones,vendor_employee,',
+          'elsewhere@other.com,Ann,Lee,vendor_employee,',
+          'not-an-email,,Lee,vendor_admin,Tax',
+        ].join('\n')
+      );
+
+      const report = await service.preview(file, vendorAdmin);
+
+      expect(report).toEqual(
+        expect.objectContaining({ fileName: 'users.csv', totalRows: 5, validRows: 1 })
+      );
+      expect(report.rows[0]).toEqual(
+        expect.objectContaining({
+          rowNumber: 2,
+          role: VendorRole.VENDOR_MANAGER,
+          userRole: UserRole.VENDOR_MANAGER,
+          teamIds: ['a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11', 'b1eebc99-9c0b-4ef8-bb6d-6bb9bd380a22'],
+          valid: true,
+          errors: [],
+        })
+      );
+      expect(report.rows[1].errors).toEqual(['email is already used on row 2']);
+      expect(report.rows[2].errors).toEqual([
+        'a user with this email is already a member of your company',
+      ]);
+      expect(report.rows[3].errors).toEqual(['a user with this email already exists']);
+      expect(report.rows[4].errors).toEqual([
+        '"not-an-email" is not a valid email address',
+        'first name is required',
+        '"vendor_admin" is not a vendor role (use vendor_employee or vendor_manager)',
+        'team "Tax" does not exist in your company',
+      ]);
+      expect(report.rows[4].userRole).toBeNull();
+    });
+
+    it('should read XLSX files', async () => {
+      const workbook = new Workbook();
+      const worksheet = workbook.addWorksheet('Users');
+      worksheet.addRow(['email', 'first_name', 'last_name', 'role']);
+      worksheet.addRow(['jane@vendor.com', 'Jane', 'Smith', 'vendor_employee']);
+      worksheet.addRow([]);
+      worksheet.addRow(['tom@vendor.com', 'Tom', 'Jones', 'VENDOR_MANAGER']);
+      const buffer = Buffer.from(await workbook.xlsx.writeBuffer());
+
+      const report = await service.preview(
+        { originalname: 'users.xlsx', buffer } as Express.Multer.File,
+        vendorAdmin
+      );
+
+      expect(report.validRows).toBe(2);
+      expect(report.rows.map((row) => row.rowNumber)).toEqual([2, 4]);
+      expect(report.rows[1].userRole).toBe(UserRole.VENDOR_MANAGER);
+    });
+
+    it('should reject files without the required columns', async () => {
+      const error = await service
+        .preview(csvFile('email,name\njane@vendor.com,Jane Smith'), vendorAdmin)
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(BadRequestException);
+      expect((error as BadRequestException).getResponse()).toEqual(
+        expect.objectContaining({
+          code: ERROR_CODES.USER_IMPORT_MISSING_COLUMNS,
+          message: 'Missing required columns: first_name, last_name, role',
+        })
+      );
+    });
+
+    it('should reject unsupported file types', async () => {
+      await expect(service.preview(csvFile('email', 'users.txt'), vendorAdmin)).rejects.toThrow(
+        BadRequestException
+      );
+    });
+
+    it('should require the inviter to belong to a company', async () => {
+      const file = csvFile('email,first_name,last_name,role\njane@vendor.com,Jane,Smith,employee');
+
+      await expect(service.preview(file, { id: 'admin-1' } as User)).rejects.toThrow(
+        UnprocessableEntityException
+      );
+    });
+  });
+
+  describe('startImport', () => {
+    it('should refuse files with invalid rows and create nothing', async () => {
+      const file = csvFile('email,first_name,last_name,role\nnot-an-email,Jane,Smith,employee');
+
+      const error = await service.startImport(file, vendorAdmin).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(UnprocessableEntityException);
+      expect((error as UnprocessableEntityException).getResponse()).toEqual(
+        expect.objectContaining({
+          code: ERROR_CODES.USER_IMPORT_INVALID_ROWS,
+          data: expect.objectContaining({ invalidRows: 1 }),
+        })
+      );
+      expect(jobModel.create).not.toHaveBeenCalled();
+    });
+
+    it('should record a job with its rows and process it in the background', async () => {
+      const processJob = jest.spyOn(service, 'processJob').mockResolvedValue(null);
+      const file = csvFile(
+        'email,first_name,last_name,role,teams\njane@vendor.com,Jane,Smith,employee,Litigation'
+      );
+
+      const result = await service.startImport(file, vendorAdmin);
+
+      expect(result).toEqual(
+        expect.objectContaining({ status: UserImportJobStatus.PENDING, totalRows: 1 })
+      );
+      expect(rowModel.bulkCreate).toHaveBeenCalledWith(
+        [
+          expect.objectContaining({
+            row_number: 2,
+            email: 'jane@vendor.com',
+            role: VendorRole.VENDOR_EMPLOYEE,
+            team_ids: ['a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11'],
+          }),
+        ],
+        { transaction: {} }
+      );
+      expect(auditTrailService.append).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'USER_IMPORT_STARTED', performedBy: 'admin-1' }),
+        {}
+      );
+      expect(processJob).toHaveBeenCalledWith(result.id, vendorAdmin);
+    });
+  });
+
+  describe('processJob', () => {
+    it('should invite each row, add it to its teams and record the outcomes', async () => {
+      const job = buildJob({ total_rows: 3 });
+      const invited = buildRow({ team_ids: ['team-1'] });
+      const partial = buildRow({ row_number: 3, email: 'tom@vendor.com', team_ids: ['team-2'] });
+      const failed = buildRow({ row_number: 4, email: 'ann@vendor.com' });
+      jobModel.findByPk.mockResolvedValue(job);
+      rowModel.findAll.mockResolvedValue([invited, partial, failed]);
+      userService.vendorInvite
+        .mockResolvedValueOnce({ id: 'user-1' })
+        .mockResolvedValueOnce({ id: 'user-2' })
+        .mockRejectedValueOnce(
+          new ConflictException({
+            success: false,
+            code: 'USER_EXISTS',
+            message: 'A user with this email already exists',
+          })
+        );
+      teamService.addMember
+        .mockResolvedValueOnce({})
+        .mockRejectedValueOnce(new Error('Team is full'));
+
+      await service.processJob('job-1', vendorAdmin);
+
+      expect(userService.vendorInvite).toHaveBeenCalledWith(
+        {
+          email: 'jane@vendor.com',
+          first_name: 'Jane',
+          last_name: 'Smith',
+          role: VendorRole.VENDOR_EMPLOYEE,
+        },
+        vendorAdmin
+      );
+      expect(teamService.addMember).toHaveBeenCalledWith(vendorAdmin, 'team-1', 'user-1');
+      expect(invited).toEqual(
+        expect.objectContaining({ status: UserImportRowStatus.SUCCEEDED, user_id: 'user-1' })
+      );
+      expect(partial).toEqual(
+        expect.objectContaining({
+          status: UserImportRowStatus.PARTIAL,
+          user_id: 'user-2',
+          error: 'Invited, but team team-2: Team is full',
+        })
+      );
+      expect(failed).toEqual(
+        expect.objectContaining({
+          status: UserImportRowStatus.FAILED,
+          error: 'A user with this email already exists',
+        })
+      );
+      expect(job).toEqual(
+        expect.objectContaining({
+          status: UserImportJobStatus.COMPLETED,
+          succeeded_count: 2,
+          failed_count: 1,
+        })
+      );
+      expect(auditTrailService.append).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'USER_IMPORT_COMPLETED',
+          payload: { totalRows: 3, succeededCount: 2, failedCount: 1 },
+        })
+      );
+    });
+
+    it('should mark the job as failed when processing stops', async () => {
+      const job = buildJob();
+      jobModel.findByPk.mockResolvedValue(job);
+      rowModel.findAll.mockRejectedValue(new Error('Connection lost'));
+
+      await service.processJob('job-1', vendorAdmin);
+
+      expect(job).toEqual(
+        expect.objectContaining({ status: UserImportJobStatus.FAILED, error: 'Connection lost' })
+      );
+    });
+  });
+
+  describe('resumeStalledJobs', () => {
+    const updatedAt = new Date('2025-10-20T08:00:00.000Z');
+    const now = new Date('2025-10-20T09:00:00.000Z');
+
+    it('should resume a job left running on behalf of the user who started it', async () => {
+      const job = buildJob({ status: UserImportJobStatus.RUNNING, updated_at: updatedAt });
+      const inviter = { ...vendorAdmin, status: UserStatus.ACTIVE };
+      jobModel.findAll.mockResolvedValue([job]);
+      jobModel.findByPk.mockResolvedValue(job);
+      userModel.findByPk.mockResolvedValue(inviter);
+      rowModel.findAll.mockResolvedValue([buildRow()]);
+      userService.vendorInvite.mockResolvedValue({ id: 'user-1' });
+
+      const resumed = await service.resumeStalledJobs(now);
+
+      expect(resumed).toBe(1);
+      expect(jobModel.update).toHaveBeenCalledWith(
+        { status: UserImportJobStatus.RUNNING },
+        { where: { id: 'job-1', status: UserImportJobStatus.RUNNING, updated_at: updatedAt } }
+      );
+      expect(userService.vendorInvite).toHaveBeenCalledWith(expect.anything(), inviter);
+      expect(job).toEqual(
+        expect.objectContaining({ status: UserImportJobStatus.COMPLETED, succeeded_count: 1 })
+      );
+    });
+
+    it('should skip a job another instance claimed first', async () => {
+      jobModel.findAll.mockResolvedValue([buildJob({ updated_at: updatedAt })]);
+      jobModel.update.mockResolvedValue([0]);
+
+      const resumed = await service.resumeStalledJobs(now);
+
+      expect(resumed).toBe(0);
+      expect(jobModel.findByPk).not.toHaveBeenCalled();
+      expect(userService.vendorInvite).not.toHaveBeenCalled();
+    });
+
+    it('should fail the job when its creator can no longer invite users', async () => {
+      const job = buildJob({ updated_at: updatedAt });
+      jobModel.findAll.mockResolvedValue([job]);
+      userModel.findByPk.mockResolvedValue({ ...vendorAdmin, status: UserStatus.SUSPENDED });
+
+      const resumed = await service.resumeStalledJobs(now);
+
+      expect(resumed).toBe(0);
+      expect(userService.vendorInvite).not.toHaveBeenCalled();
+      expect(job).toEqual(expect.objectContaining({ status: UserImportJobStatus.FAILED }));
+    });
+  });
+});
@@ -0,0 +1,681 @@
+import {
+  BadRequestException,
+  HttpException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { getConnectionToken, InjectModel } from '@nestjs/sequelize';
+import { isEmail, isUUID } from 'class-validator';
+import { Workbook, Worksheet } from 'exceljs';
+import { extname } from 'path';
+import { Op } from 'sequelize';
+import { Readable } from 'stream';
+import { Sequelize } from 'sequelize-typescript';
+import { ERROR_CODES } from '../../common/constants/error-codes';
+import { PaginatedResponseDto } from '../../common/dto/paginated-response.dto';
+import { PaginationDto } from '../../common/dto/pagination.dto';
+import { AuditTrailService } from '../audit/audit-trail.service';
+import { AuditSource } from '../audit/entities/audit-record.entity';
+import { Company } from '../company/entities/company.entity';
+import { Role } from '../role/entities/role.entity';
+import { Team } from '../team/entities/team.entity';
+import { TeamService } from '../team/team.service';
+import {
+  UserImportJobResponseDto,
+  UserImportReportDto,
+  UserImportRowReportDto,
+  UserImportRowResponseDto,
+} from './dto/user-import.dto';
+import { VendorRole } from './dto/vendor-invite.dto';
+import { UserImportJob, UserImportJobStatus } from './entities/user-import-job.entity';
+import { UserImportRow, UserImportRowStatus } from './entities/user-import-row.entity';
+import { User, UserStatus } from './entities/user.entity';
+import { UserService } from './user.service';
+
+/** Upload limit of the import endpoints */
+export const USER_IMPORT_MAX_FILE_SIZE = 5 * 1024 * 1024;
+
+type ImportColumn = 'email' | 'firstName' | 'lastName' | 'role' | 'teams';
+
+/** Accepted header names, compared lowercased and without spaces, dashes or underscores */
+const COLUMN_ALIASES: Record<string, ImportColumn> = {
+  email: 'email',
+  emailaddress: 'email',
+  firstname: 'firstName',
+  givenname: 'firstName',
+  lastname: 'lastName',
+  surname: 'lastName',
+  familyname: 'lastName',
+  role: 'role',
+  teams: 'teams',
+  team: 'teams',
+};
+
+const REQUIRED_COLUMNS: ImportColumn[] = ['email', 'firstName', 'lastName', 'role'];
+
+/** Header names used in error messages */
+const COLUMN_HEADERS: Record<ImportColumn, string> = {
+  email: 'email',
+  firstName: 'first_name',
+  lastName: 'last_name',
+  role: 'role',
+  teams: 'teams',
+};
+
+/** Separator of the team names or IDs in the optional teams column */
+const TEAM_SEPARATOR = ';';
+
+type ParsedImportRow = { rowNumber: number } & Record<ImportColumn, string>;
+
+/**
+ * Bulk invitation of vendor users from a CSV or XLSX file. Every row is validated
+ * before anything is created; a valid file is then imported as a tracked job that
+ * invites the users one by one with UserService.vendorInvite. Jobs left behind by a
+ * restart are resumed by a periodic sweep.
+ */
+@Injectable()
+export class UserImportService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(UserImportService.name);
+  private resumeTimer?: NodeJS.Timeout;
+
+  constructor(
+    @InjectModel(UserImportJob)
+    private readonly jobModel: typeof UserImportJob,
+    @InjectModel(UserImportRow)
+    private readonly rowModel: typeof UserImportRow,
+    @InjectModel(User)
+    private readonly userModel: typeof User,
+    @InjectModel(Team)
+    private readonly teamModel: typeof Team,
+    private readonly userService: UserService,
+    private readonly teamService: TeamService,
+    private readonly auditTrailService: AuditTrailService,
+    private readonly configService: ConfigService,
+    @Inject(getConnectionToken())
+    private readonly sequelize: Sequelize
+  ) {}
+
+  onModuleInit(): void {
+    const minutes = Number(
+      this.configService.get<number>('USER_IMPORT_RESUME_INTERVAL_MINUTES', 5)
+    );
+    if (!minutes || minutes <= 0) {
+      return;
+    }
+
+    this.resumeTimer = setInterval(
+      () => {
+        this.resumeStalledJobs().catch((error) =>
+          this.logger.error('User import resume sweep failed', error)
+        );
+      },
+      minutes * 60 * 1000
+    );
+    this.resumeTimer.unref();
+  }
+
+  onModuleDestroy(): void {
+    if (this.resumeTimer) {
+      clearInterval(this.resumeTimer);
+    }
+  }
+
+  /**
+   * Validates an import file without creating anything
+   */
+  async preview(
+    file: Express.Multer.File | undefined,
+    currentUser: User
+  ): Promise<UserImportReportDto> {
+    if (!file) {
+      throw new BadRequestException({
+        success: false,
+        code: ERROR_CODES.USER_IMPORT_FILE_REQUIRED,
+        message: 'A CSV or XLSX file is required in the "file" field',
+      });
+    }
+
+    const rows = await this.parseFile(file);
+    return this.validateRows(file.originalname, rows, currentUser);
+  }
+
+  /**
+   * Validates an import file and, when every row is valid, records it as a job that is
+   * processed in the background. Invalid files are rejected with their dry-run report.
+   */
+  async startImport(
+    file: Express.Multer.File | undefined,
+    currentUser: User
+  ): Promise<UserImportJobResponseDto> {
+    const report = await this.preview(file, currentUser);
+
+    if (report.invalidRows > 0) {
+      throw new UnprocessableEntityException({
+        success: false,
+        code: ERROR_CODES.USER_IMPORT_INVALID_ROWS,
+        message: `${report.invalidRows} of ${report.totalRows} rows are invalid; fix them and upload the file again`,
+        data: report,
+      });
+    }
+
+    const job = await this.sequelize.transaction(async (transaction) => {
+      const createdJob = await this.jobModel.create(
+        {
+          company_id: currentUser.company_id,
+          created_by: currentUser.id,
+          file_name: report.fileName,
+          status: UserImportJobStatus.PENDING,
+          total_rows: report.totalRows,
+        },
+        { transaction }
+      );
+
+      await this.rowModel.bulkCreate(
+        report.rows.map((row) => ({
+          job_id: createdJob.id,
+          row_number: row.rowNumber,
+          email: row.email,
+          first_name: row.firstName,
+          last_name: row.lastName,
+          role: row.role,
+          team_ids: row.teamIds,
+          status: UserImportRowStatus.PENDING,
+        })),
+        { transaction }
+      );
+
+      await this.auditTrailService.append(
+        {
+          tenantId: currentUser.company_id,
+          source: AuditSource.USER,
+          action: 'USER_IMPORT_STARTED',
+          entityId: createdJob.id,
+          performedBy: currentUser.id,
+          payload: { fileName: report.fileName, totalRows: report.totalRows },
+        },
+        transaction
+      );
+
+      return createdJob;
+    });
+
+    // Processed after the response; progress is reported by GET /users/import/jobs/:id
+    this.processJob(job.id, currentUser).catch((error) =>
+      this.logger.error(`Could not run user import job ${job.id}`, error)
+    );
+
+    return this.toJobResponse(job);
+  }
+
+  /**
+   * Invites the pending rows of a job and records the outcome of each of them.
+   * Rows already processed are skipped, so a job that stopped can be run again.
+   */
+  async processJob(jobId: string, inviter: User): Promise<UserImportJob | null> {
+    const job = await this.jobModel.findByPk(jobId);
+    if (!job) {
+      return null;
+    }
+
+    try {
+      await job.update({ status: UserImportJobStatus.RUNNING, started_at: new Date() });
+
+      const rows = await this.rowModel.findAll({
+        where: { job_id: job.id, status: UserImportRowStatus.PENDING },
+        order: [['row_number', 'ASC']],
+      });
+
+      for (const row of rows) {
+        const status = await this.importRow(row, inviter);
+        await job.update(
+          status === UserImportRowStatus.FAILED
+            ? { failed_count: job.failed_count + 1 }
+            : { succeeded_count: job.succeeded_count + 1 }
+        );
+      }
+
+      await job.update({ status: UserImportJobStatus.COMPLETED, finished_at: new Date() });
+
+      await this.auditTrailService.append({
+        tenantId: job.company_id,
+        source: AuditSource.USER,
+        action: 'USER_IMPORT_COMPLETED',
+        entityId: job.id,
+        performedBy: inviter.id,
+        payload: {
+          totalRows: job.total_rows,
+          succeededCount: job.succeeded_count,
+          failedCount: job.failed_count,
+        },
+      });
+    } catch (error) {
+      this.logger.error(`User import job ${job.id} stopped`, error);
+      await job.update({
+        status: UserImportJobStatus.FAILED,
+        finished_at: new Date(),
+        error: this.describeError(error),
+      });
+    }
+
+    return job;
+  }
+
+  /**
+   * Runs again the pending or running jobs that have not progressed for
+   * USER_IMPORT_STALLED_AFTER_MINUTES, e.g. because the instance running them restarted.
+   * A job is claimed by bumping its updated_at, so only one instance resumes it.
+   * Returns the number of jobs resumed.
+   */
+  async resumeStalledJobs(now = new Date()): Promise<number> {
+    const stalledAfterMinutes = Number(
+      this.configService.get<number>('USER_IMPORT_STALLED_AFTER_MINUTES', 15)
+    );
+    const stalled = await this.jobModel.findAll({
+      where: {
+        status: [UserImportJobStatus.PENDING, UserImportJobStatus.RUNNING],
+        updated_at: { [Op.lte]: new Date(now.getTime() - stalledAfterMinutes * 60 * 1000) },
+      },
+      order: [['created_at', 'ASC']],
+    });
+
+    let resumed = 0;
+    for (const job of stalled) {
+      const [claimed] = await this.jobModel.update(
+        { status: UserImportJobStatus.RUNNING },
+        { where: { id: job.id, status: job.status, updated_at: job.updated_at } }
+      );
+      if (claimed === 0) {
+        continue;
+      }
+
+      // The rows are invited on behalf of the user who uploaded the file
+      const inviter = await this.userModel.findByPk(job.created_by, {
+        include: [
+          { model: Role, attributes: ['id', 'name', 'code'] },
+          { model: Company, attributes: ['id', 'status'] },
+        ],
+      });
+      if (!inviter || inviter.status !== UserStatus.ACTIVE) {
+        await job.update({
+          status: UserImportJobStatus.FAILED,
+          finished_at: new Date(),
+          error: 'The user who started the import can no longer invite users',
+        });
+        continue;
+      }
+
+      this.logger.warn(`Resuming stalled user import job ${job.id}`);
+      await this.processJob(job.id, inviter);
+      resumed++;
+    }
+
+    return resumed;
+  }
+
+  async findJobs(
+    query: PaginationDto,
+    currentUser: User
+  ): Promise<PaginatedResponseDto<UserImportJobResponseDto>> {
+    const { page = 1, limit = 10 } = query;
+
+    const { rows, count } = await this.jobModel.findAndCountAll({
+      where: { company_id: currentUser.company_id },
+      order: [['created_at', 'DESC']],
+      limit,
+      offset: (page - 1) * limit,
+    });
+
+    return {
+      data: rows.map((job) => this.toJobResponse(job)),
+      meta: {
+        currentPage: page,
+        itemCount: count,
+        itemsPerPage: limit,
+        totalPages: Math.ceil(count / limit),
+      },
+    };
+  }
+
+  /**
+   * Returns a job of the caller's company with the outcome of each row
+   */
+  async findJob(jobId: string, currentUser: User): Promise<UserImportJobResponseDto> {
+    const job = await this.jobModel.findOne({
+      where: { id: jobId, company_id: currentUser.company_id },
+      include: [UserImportRow],
+      order: [[UserImportRow, 'row_number', 'ASC']],
+    });
+
+    if (!job) {
+      throw new NotFoundException({
+        success: false,
+        code: ERROR_CODES.USER_IMPORT_JOB_NOT_FOUND,
+        message: 'Import job not found',
+      });
+    }
+
+    return {
+      ...this.toJobResponse(job),
+      rows: (job.rows ?? []).map((row) => this.toRowResponse(row)),
+    };
+  }
+
+  /**
+   * Reads the first worksheet of a CSV or XLSX file into rows keyed by column.
+   * Blank lines are skipped; row numbers are the lines of the file.
+   */
+  private async parseFile(file: Express.Multer.File): Promise<ParsedImportRow[]> {
+    const extension = extname(file.originalname ?? '').toLowerCase();
+    if (extension !== '.csv' && extension !== '.xlsx') {
+      throw new BadRequestException({
+        success: false,
+        code: ERROR_CODES.USER_IMPORT_UNSUPPORTED_FILE,
+        message: 'Only .csv and .xlsx files can be imported',
+      });
+    }
+
+    let worksheet: Worksheet | undefined;
+    try {
+      const workbook = new Workbook();
+      if (extension === '.csv') {
+        // Keep every value as text; exceljs would otherwise turn some of them into numbers or dates
+        worksheet = await workbook.csv.read(Readable.from(file.buffer), {
+          map: (value: string) => value,
+        });
+      } else {
+        await workbook.xlsx.load(file.buffer);
+        worksheet = workbook.worksheets[0];
+      }
+    } catch (error) {
+      this.logger.warn(
+        `Could not read import file ${file.originalname}: ${this.describeError(error)}`
+      );
+      throw new BadRequestException({
+        success: false,
+        code: ERROR_CODES.USER_IMPORT_UNREADABLE_FILE,
+        message: 'The file could not be read as CSV or XLSX',
+      });
+    }
+
+    const columns = new Map<ImportColumn, number>();
+    worksheet?.getRow(1).eachCell((cell, columnNumber) => {
+      const column = COLUMN_ALIASES[cell.text.toLowerCase().replace(/[\s_-]/g, '')];
+      if (column && !columns.has(column)) {
+        columns.set(column, columnNumber);
+      }
+    });
+
+    const missingColumns = REQUIRED_COLUMNS.filter((column) => !columns.has(column)).map(
+      (column) => COLUMN_HEADERS[column]
+    );
+    if (!worksheet || missingColumns.length > 0) {
+      throw new BadRequestException({
+        success: false,
+        code: ERROR_CODES.USER_IMPORT_MISSING_COLUMNS,
+        message: `Missing required columns: ${missingColumns.join(', ')}`,
+      });
+    }
+
+    const rows: ParsedImportRow[] = [];
+    for (let rowNumber = 2; rowNumber <= worksheet.rowCount; rowNumber++) {
+      const row = worksheet.getRow(rowNumber);
+      const read = (column: ImportColumn) =>
+        columns.has(column) ? row.getCell(columns.get(column)!).text.trim() : '';
+
+      const parsed: ParsedImportRow = {
+        rowNumber,
+        email: read('email'),
+        firstName: read('firstName'),
+        lastName: read('lastName'),
+        role: read('role'),
+        teams: read('teams'),
+      };
+
+      if (REQUIRED_COLUMNS.some((column) => parsed[column]) || parsed.teams) {
+        rows.push(parsed);
+      }
+    }
+
+    if (rows.length === 0) {
+      throw new BadRequestException({
+        success: false,
+        code: ERROR_CODES.USER_IMPORT_EMPTY_FILE,
+        message: 'The file has no rows to import',
+      });
+    }
+
+    const maxRows = Number(this.configService.get<number>('USER_IMPORT_MAX_ROWS', 500));
+    if (rows.length > maxRows) {
+      throw new BadRequestException({
+        success: false,
+        code: ERROR_CODES.USER_IMPORT_TOO_MANY_ROWS,
+        message: `A file can import at most ${maxRows} users; split it into smaller files`,
+      });
+    }
+
+    return rows;
+  }
+
+  /**
+   * Checks every row the way vendor-invite would: required fields, the vendor role,
+   * emails already used in the file or by existing users, and the requested teams
+   */
+  private async validateRows(
+    fileName: string,
+    rows: ParsedImportRow[],
+    currentUser: User
+  ): Promise<UserImportReportDto> {
+    const companyId = currentUser.company_id;
+    if (!companyId) {
+      throw new UnprocessableEntityException({
+        success: false,
+        code: ERROR_CODES.USER_IMPORT_NO_COMPANY,
+        message: 'Inviter must belong to a company',
+      });
+    }
+
+    const emails = rows.map((row) => row.email).filter((email) => isEmail(email));
+    const existingUsers = emails.length
+      ? await this.userModel.findAll({
+          where: { email: emails },
+          attributes: ['id', 'email', 'company_id'],
+        })
+      : [];
+    const existingByEmail = new Map(
+      existingUsers.map((user) => [user.email.toLowerCase(), user] as const)
+    );
+
+    const teams = await this.teamModel.findAll({
+      where: { company_id: companyId },
+      attributes: ['id', 'name'],
+    });
+
+    const firstRowByEmail = new Map<string, number>();
+    const reports = rows.map((row) => {
+      const errors: string[] = [];
+      const email = row.email.toLowerCase();
+
+      if (!row.email) {
+        errors.push('email is required');
+      } else if (!isEmail(row.email)) {
+        errors.push(`"${row.email}" is not a valid email address`);
+      } else if (firstRowByEmail.has(email)) {
+        errors.push(`email is already used on row ${firstRowByEmail.get(email)}`);
+      } else {
+        firstRowByEmail.set(email, row.rowNumber);
+
+        const existingUser = existingByEmail.get(email);
+        if (existingUser) {
+          errors.push(
+            existingUser.company_id === companyId
+              ? 'a user with this email is already a member of your company'
+              : 'a user with this email already exists'
+          );
+        }
+      }
+
+      if (!row.firstName) {
+        errors.push('first name is required');
+      }
+      if (!row.lastName) {
+        errors.push('last name is required');
+      }
+
+      const vendorRole = this.parseVendorRole(row.role);
+      if (!vendorRole) {
+        errors.push(
+          row.role
+            ? `"${row.role}" is not a vendor role (use ${Object.values(VendorRole).join(' or ')})`
+            : 'role is required'
+        );
+      }
+
+      const teamIds: string[] = [];
+      for (const reference of row.teams.split(TEAM_SEPARATOR).map((team) => team.trim())) {
+        if (!reference) {
+          continue;
+        }
+        const team = teams.find((candidate) =>
+          isUUID(reference)
+            ? candidate.id === reference
+            : candidate.name.toLowerCase() === reference.toLowerCase()
+        );
+        if (!team) {
+          errors.push(`team "${reference}" does not exist in your company`);
+        } else if (!teamIds.includes(team.id)) {
+          teamIds.push(team.id);
+        }
+      }
+
+      const report: UserImportRowReportDto = {
+        rowNumber: row.rowNumber,
+        email: row.email,
+        firstName: row.firstName,
+        lastName: row.lastName,
+        role: vendorRole ?? row.role,
+        userRole: vendorRole ? this.userService.mapVendorRoleToUserRole(vendorRole) : null,
+        teamIds,
+        valid: errors.length === 0,
+        errors,
+      };
+      return report;
+    });
+
+    const validRows = reports.filter((report) => report.valid).length;
+    return {
+      fileName,
+      totalRows: reports.length,
+      validRows,
+      invalidRows: reports.length - validRows,
+      rows: reports,
+    };
+  }
+
+  /**
+   * Accepts vendor roles as values ("vendor_manager"), enum names ("VENDOR_MANAGER")
+   * or without the vendor prefix ("Manager")
+   */
+  private parseVendorRole(value: string): VendorRole | null {
+    const normalized = value
+      .trim()
+      .toLowerCase()
+      .replace(/[\s-]+/g, '_');
+    if (!normalized) {
+      return null;
+    }
+
+    const candidate = normalized.startsWith('vendor_') ? normalized : `vendor_${normalized}`;
+    return (Object.values(VendorRole) as string[]).includes(candidate)
+      ? (candidate as VendorRole)
+      : null;
+  }
+
+  /**
+   * Invites the user of a row and adds them to its teams. A failed team assignment
+   * does not undo the invitation; the row is reported as partial instead.
+   */
+  private async importRow(row: UserImportRow, inviter: User): Promise<UserImportRowStatus> {
+    let user: User;
+    try {
+      user = await this.userService.vendorInvite(
+        {
+          email: row.email,
+          first_name: row.first_name,
+          last_name: row.last_name,
+          role: row.role as VendorRole,
+        },
+        inviter
+      );
+    } catch (error) {
+      await row.update({ status: UserImportRowStatus.FAILED, error: this.describeError(error) });
+      return UserImportRowStatus.FAILED;
+    }
+
+    const teamErrors: string[] = [];
+    for (const teamId of row.team_ids ?? []) {
+      try {
+        await this.teamService.addMember(inviter, teamId, user.id);
+      } catch (error) {
+        teamErrors.push(`team ${teamId}: ${this.describeError(error)}`);
+      }
+    }
+
+    const status = teamErrors.length ? UserImportRowStatus.PARTIAL : UserImportRowStatus.SUCCEEDED;
+    await row.update({
+      status,
+      user_id: user.id,
+      error: teamErrors.length ? this.truncate(`Invited, but ${teamErrors.join('; ')}`) : null,
+    });
+    return status;
+  }
+
+  private describeError(error: unknown): string {
+    if (error instanceof HttpException) {
+      const response = error.getResponse() as { message?: string | string[] } | string;
+      const message = typeof response === 'string' ? response : response.message;
+      return this.truncate(Array.isArray(message) ? message.join(', ') : message || error.message);
+    }
+    return this.truncate(error instanceof Error ? error.message : String(error));
+  }
+
+  private truncate(message: string): string {
+    return message.length > 500 ? `${message.slice(0, 497)}...` : message;
+  }
+
+  private toJobResponse(job: UserImportJob): UserImportJobResponseDto {
+    return {
+      id: job.id,
+      companyId: job.company_id,
+      createdBy: job.created_by,
+      fileName: job.file_name,
+      status: job.status,
+      totalRows: job.total_rows,
+      succeededCount: job.succeeded_count ?? 0,
+      failedCount: job.failed_count ?? 0,
+      startedAt: job.started_at ?? null,
+      finishedAt: job.finished_at ?? null,
+      error: job.error ?? null,
+      createdAt: job.created_at,
+    };
+  }
+
+  private toRowResponse(row: UserImportRow): UserImportRowResponseDto {
+    return {
+      rowNumber: row.row_number,
+      email: row.email,
+      firstName: row.first_name,
+      lastName: row.last_name,
+      role: row.role,
+      teamIds: row.team_ids ?? [],
+      status: row.status,
+      userId: row.user_id ?? null,
+      error: row.error ?? null,
+    };
+  }
+}
@@ -0,0 +1,62 @@
+import { Injectable } from '@nestjs/common';
+import { Transaction } from 'sequelize';
+import { PermissionGrantService } from '../role/permission-grant.service';
+import { TeamOffboardingResult, TeamService } from '../team/team.service';
+import { TokenRevocationService } from '../token-revocation/token-revocation.service';
+
+export interface UserOffboardingOptions {
+  /** User the teams owned by the offboarded user are handed to */
+  newTeamOwnerId?: string;
+  performedBy: string;
+  /** Recorded as the revocation reason of the user's direct permissions */
+  reason: string;
+}
+
+/** Recorded in the audit payload of the status change, SCIM update or erasure */
+export interface UserOffboardingResult extends TeamOffboardingResult {
+  newTeamOwnerId?: string;
+  revokedPermissionCount: number;
+}
+
+/**
+ * Offboarding shared by deactivation (PATCH /users/:id/status and SCIM) and erasure:
+ * signs the user out everywhere, removes them from their teams and hands over the teams
+ * they own, and revokes their direct permissions while keeping the grant history.
+ */
+@Injectable()
+export class UserOffboardingService {
+  constructor(
+    private readonly tokenRevocationService: TokenRevocationService,
+    private readonly teamService: TeamService,
+    private readonly permissionGrantService: PermissionGrantService
+  ) {}
+
+  /**
+   * Runs inside the caller's transaction; the caller invalidates the permission cache
+   * once it has committed
+   */
+  async offboard(
+    userId: string,
+    options: UserOffboardingOptions,
+    transaction: Transaction
+  ): Promise<UserOffboardingResult> {
+    const { newTeamOwnerId, performedBy, reason } = options;
+
+    await this.tokenRevocationService.revokeAllForUser(userId, transaction);
+
+    const teams = await this.teamService.offboardUser(
+      userId,
+      newTeamOwnerId,
+      performedBy,
+      transaction
+    );
+    const revokedPermissionCount = await this.permissionGrantService.revokeAllForUser(
+      userId,
+      performedBy,
+      reason,
+      transaction
+    );
+
+    return { ...teams, newTeamOwnerId, revokedPermissionCount };
+  }
+}
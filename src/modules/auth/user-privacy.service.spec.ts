@@ -0,0 +1,306 @@
+import { BadRequestException, ConflictException, NotFoundException } from '@nestjs/common';
+import { getConnectionToken, getModelToken } from '@nestjs/sequelize';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ERROR_CODES } from '../../common/constants/error-codes';
+import { AuditTrailService } from '../audit/audit-trail.service';
+import { AuditSource } from '../audit/entities/audit-record.entity';
+import { CompanyMembership } from '../company-membership/entities/company-membership.entity';
+import { Company } from '../company/entities/company.entity';
+import { ImpersonationSession } from '../impersonation/entities/impersonation-session.entity';
+import { LawyerCredential } from '../lawyer-credential/entities/lawyer-credential.entity';
+import { LoginAnomaly, LoginAnomalyType } from '../login-security/entities/login-anomaly.entity';
+import { UserSession } from '../login-security/entities/user-session.entity';
+import { UserPermission } from '../role/entities/user-permission.entity';
+import { PermissionGrantService } from '../role/permission-grant.service';
+import { PermissionsService } from '../role/permissions.service';
+import { TeamMember } from '../team/entities/team-member.entity';
+import { TeamService } from '../team/team.service';
+import { TokenRevocationService } from '../token-revocation/token-revocation.service';
+import { AuthService } from './auth.service';
+import { Invitation } from './entities/invitation.entity';
+import { UserImportRow } from './entities/user-import-row.entity';
+import { User, UserRole, UserStatus } from './entities/user.entity';
+import { UserOffboardingService } from './user-offboarding.service';
+import { UserPrivacyService } from './user-privacy.service';
+
+describe('UserPrivacyService', () => {
+  let service: UserPrivacyService;
+  let userModel: { findByPk: jest.Mock };
+  let companyModel: { findAll: jest.Mock };
+  let userPermissionModel: { findAll: jest.Mock };
+  let permissionGrantService: { revokeAllForUser: jest.Mock };
+  let teamMemberModel: { findAll: jest.Mock };
+  let membershipModel: { update: jest.Mock; findAll: jest.Mock };
+  let invitationModel: { update: jest.Mock; findAll: jest.Mock };
+  let userImportRowModel: { update: jest.Mock };
+  let lawyerCredentialModel: { destroy: jest.Mock; findAll: jest.Mock };
+  let impersonationSessionModel: { update: jest.Mock; findAll: jest.Mock };
+  let userSessionModel: { destroy: jest.Mock; findAll: jest.Mock };
+  let loginAnomalyModel: { update: jest.Mock; findAll: jest.Mock };
+  let authService: { deleteIdentityUser: jest.Mock };
+  let teamService: { offboardUser: jest.Mock };
+  let permissionsService: { invalidateCache: jest.Mock; getEffectivePermissionsForUser: jest.Mock };
+  let auditTrailService: { append: jest.Mock; findByUser: jest.Mock };
+  let tokenRevocationService: { revokeAllForUser: jest.Mock };
+
+  const buildCurrentUser = (overrides: Partial<User> = {}) =>
+    ({
+      id: 'admin-1',
+      company_id: 'company-1',
+      hasRoleEnum: jest.fn().mockReturnValue(false),
+      ...overrides,
+    }) as unknown as User;
+
+  const buildUser = () => ({
+    id: 'user-1',
+    email: 'jane@example.com',
+    auth0_user_id: 'auth0|jane',
+    company_id: 'company-1',
+    erased_at: null,
+    update: jest.fn(),
+  });
+
+  beforeEach(async () => {
+    userModel = { findByPk: jest.fn() };
+    companyModel = { findAll: jest.fn().mockResolvedValue([]) };
+    userPermissionModel = { findAll: jest.fn() };
+    permissionGrantService = { revokeAllForUser: jest.fn().mockResolvedValue(2) };
+    teamMemberModel = { findAll: jest.fn() };
+    membershipModel = { update: jest.fn().mockResolvedValue([1]), findAll: jest.fn() };
+    invitationModel = { update: jest.fn().mockResolvedValue([1]), findAll: jest.fn() };
+    userImportRowModel = { update: jest.fn().mockResolvedValue([0]) };
+    lawyerCredentialModel = { destroy: jest.fn().mockResolvedValue(0), findAll: jest.fn() };
+    impersonationSessionModel = { update: jest.fn().mockResolvedValue([0]), findAll: jest.fn() };
+    userSessionModel = { destroy: jest.fn().mockResolvedValue(0), findAll: jest.fn() };
+    loginAnomalyModel = { update: jest.fn().mockResolvedValue([0]), findAll: jest.fn() };
+    authService = { deleteIdentityUser: jest.fn() };
+    teamService = {
+      offboardUser: jest.fn().mockResolvedValue({ removedFromTeamIds: [], reassignedTeamIds: [] }),
+    };
+    permissionsService = { invalidateCache: jest.fn(), getEffectivePermissionsForUser: jest.fn() };
+    auditTrailService = { append: jest.fn(), findByUser: jest.fn() };
+    tokenRevocationService = { revokeAllForUser: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        UserPrivacyService,
+        { provide: getModelToken(User), useValue: userModel },
+        { provide: getModelToken(Company), useValue: companyModel },
+        { provide: getModelToken(UserPermission), useValue: userPermissionModel },
+        { provide: getModelToken(TeamMember), useValue: teamMemberModel },
+        { provide: getModelToken(CompanyMembership), useValue: membershipModel },
+        { provide: getModelToken(Invitation), useValue: invitationModel },
+        { provide: getModelToken(UserImportRow), useValue: userImportRowModel },
+        { provide: getModelToken(LawyerCredential), useValue: lawyerCredentialModel },
+        { provide: getModelToken(ImpersonationSession), useValue: impersonationSessionModel },
+        { provide: getModelToken(UserSession), useValue: userSessionModel },
+        { provide: getModelToken(LoginAnomaly), useValue: loginAnomalyModel },
+        { provide: AuthService, useValue: authService },
+        UserOffboardingService,
+        { provide: TeamService, useValue: teamService },
+        { provide: PermissionGrantService, useValue: permissionGrantService },
+        { provide: PermissionsService, useValue: permissionsService },
+        { provide: AuditTrailService, useValue: auditTrailService },
+        { provide: TokenRevocationService, useValue: tokenRevocationService },
+        {
+          provide: getConnectionToken(),
+          useValue: { transaction: jest.fn((callback: (t: object) => unknown) => callback({})) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<UserPrivacyService>(UserPrivacyService);
+  });
+
+  describe('eraseUser', () => {
+    it('should anonymize the user, offboard them and delete their login', async () => {
+      const user = buildUser();
+      userModel.findByPk.mockResolvedValue(user);
+
+      const result = await service.eraseUser(
+        'user-1',
+        { confirmEmail: 'Jane@Example.com', reason: 'Data subject request' },
+        buildCurrentUser()
+      );
+
+      expect(result.userId).toBe('user-1');
+      expect(user.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          first_name: 'Erased',
+          last_name: 'User',
+          email: 'erased-user-1@erased.invalid',
+          auth0_user_id: 'erased|user-1',
+          phone_number: null,
+          status: UserStatus.DEACTIVATED,
+          erased_at: result.erasedAt,
+        }),
+        { transaction: {} }
+      );
+      expect(tokenRevocationService.revokeAllForUser).toHaveBeenCalledWith('user-1', {});
+      expect(teamService.offboardUser).toHaveBeenCalledWith('user-1', undefined, 'admin-1', {});
+      expect(permissionGrantService.revokeAllForUser).toHaveBeenCalledWith(
+        'user-1',
+        'admin-1',
+        'User erased',
+        {}
+      );
+      expect(userSessionModel.destroy).toHaveBeenCalledWith({
+        where: { user_id: 'user-1' },
+        transaction: {},
+      });
+      expect(loginAnomalyModel.update).toHaveBeenCalledWith(
+        { ip_address: null, details: {}, resolution_notes: null },
+        { where: { user_id: 'user-1' }, transaction: {} }
+      );
+      expect(authService.deleteIdentityUser).toHaveBeenCalledWith('auth0|jane');
+      expect(auditTrailService.append).toHaveBeenCalledWith(
+        expect.objectContaining({
+          source: AuditSource.USER,
+          action: 'USER_ERASED',
+          entityId: 'user-1',
+          performedBy: 'admin-1',
+          payload: expect.objectContaining({ reason: 'Data subject request', selfService: false }),
+        }),
+        {}
+      );
+      expect(permissionsService.invalidateCache).toHaveBeenCalledWith(
+        expect.objectContaining({ user_id: 'user-1', company_id: 'company-1' })
+      );
+    });
+
+    it('should refuse owners and primary contacts of a company', async () => {
+      userModel.findByPk.mockResolvedValue(buildUser());
+      companyModel.findAll.mockResolvedValue([{ id: 'company-1', name: 'Smith & Partners' }]);
+
+      const error = await service
+        .eraseUser('user-1', { confirmEmail: 'jane@example.com' }, buildCurrentUser())
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(ConflictException);
+      expect((error as ConflictException).getResponse()).toEqual(
+        expect.objectContaining({
+          code: ERROR_CODES.USER_ERASURE_COMPANY_CONTACT,
+          data: { companies: [{ id: 'company-1', name: 'Smith & Partners' }] },
+        })
+      );
+      expect(authService.deleteIdentityUser).not.toHaveBeenCalled();
+    });
+
+    it('should reject a confirmation email that does not match', async () => {
+      userModel.findByPk.mockResolvedValue(buildUser());
+
+      await expect(
+        service.eraseUser('user-1', { confirmEmail: 'other@example.com' }, buildCurrentUser())
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should reject users that were already erased', async () => {
+      userModel.findByPk.mockResolvedValue({ ...buildUser(), erased_at: new Date() });
+
+      await expect(
+        service.eraseUser('user-1', { confirmEmail: 'jane@example.com' }, buildCurrentUser())
+      ).rejects.toThrow(ConflictException);
+    });
+
+    it('should report users of other companies as not found unless the caller is an Acme admin', async () => {
+      userModel.findByPk.mockResolvedValue({ ...buildUser(), company_id: 'company-2' });
+
+      await expect(
+        service.eraseUser('user-1', { confirmEmail: 'jane@example.com' }, buildCurrentUser())
+      ).rejects.toThrow(NotFoundException);
+
+      const acmeAdmin = buildCurrentUser({
+        hasRoleEnum: jest.fn((role: UserRole) => role === UserRole.ACME_ADMIN),
+      } as Partial<User>);
+      await expect(
+        service.eraseUser('user-1', { confirmEmail: 'jane@example.com' }, acmeAdmin)
+      ).resolves.toEqual(expect.objectContaining({ userId: 'user-1' }));
+    });
+  });
+
+  describe('exportUserData', () => {
+    it('should collect every section and record the export', async () => {
+      userModel.findByPk.mockResolvedValue({
+        ...buildUser(),
+        first_name: 'Jane',
+        last_name: 'Doe',
+        status: UserStatus.ACTIVE,
+        role: { id: 'role-1', name: 'Vendor Admin', code: 'vendor_admin' },
+        company: { id: 'company-1', name: 'Smith & Partners' },
+      });
+      membershipModel.findAll.mockResolvedValue([
+        { company_id: 'company-2', company: { name: 'Other LLP' }, status: 'active' },
+      ]);
+      teamMemberModel.findAll.mockResolvedValue([
+        { team_id: 'team-1', team: { name: 'Litigation', company_id: 'company-1' } },
+      ]);
+      userPermissionModel.findAll.mockResolvedValue([
+        { permission: { name: 'teams:read:own', category: 'TEAM' }, granted: true },
+      ]);
+      permissionsService.getEffectivePermissionsForUser.mockResolvedValue({
+        permission_names: ['teams:read:own'],
+      });
+      lawyerCredentialModel.findAll.mockResolvedValue([]);
+      invitationModel.findAll.mockResolvedValue([]);
+      impersonationSessionModel.findAll.mockResolvedValue([]);
+      userSessionModel.findAll.mockResolvedValue([
+        {
+          id: 'session-1',
+          client_platform: 'web',
+          user_agent: 'Firefox',
+          ip_address: '203.0.113.10',
+          country_code: 'DE',
+        },
+      ]);
+      loginAnomalyModel.findAll.mockResolvedValue([
+        {
+          id: 'anomaly-1',
+          type: LoginAnomalyType.NEW_DEVICE,
+          ip_address: '203.0.113.10',
+          details: { knownDevices: 1 },
+        },
+      ]);
+      auditTrailService.findByUser.mockResolvedValue([
+        { id: 'record-1', tenant_id: 'company-1', action: 'USER_STATUS_CHANGED' },
+      ]);
+
+      const archive = await service.exportUserData(buildCurrentUser({ id: 'user-1' }));
+
+      expect(archive.profile).toEqual(
+        expect.objectContaining({
+          id: 'user-1',
+          email: 'jane@example.com',
+          company: { id: 'company-1', name: 'Smith & Partners' },
+        })
+      );
+      expect(archive.companyMemberships).toEqual([
+        expect.objectContaining({ companyId: 'company-2', companyName: 'Other LLP' }),
+      ]);
+      expect(archive.teamMemberships).toEqual([
+        expect.objectContaining({ teamId: 'team-1', teamName: 'Litigation' }),
+      ]);
+      expect(archive.permissions.effective).toEqual(['teams:read:own']);
+      expect(archive.loginSessions).toEqual([
+        expect.objectContaining({
+          id: 'session-1',
+          userAgent: 'Firefox',
+          ipAddress: '203.0.113.10',
+          countryCode: 'DE',
+        }),
+      ]);
+      expect(archive.loginAnomalies).toEqual([
+        expect.objectContaining({
+          id: 'anomaly-1',
+          type: LoginAnomalyType.NEW_DEVICE,
+          ipAddress: '203.0.113.10',
+        }),
+      ]);
+      expect(archive.auditEntries).toEqual([
+        expect.objectContaining({ id: 'record-1', action: 'USER_STATUS_CHANGED' }),
+      ]);
+      expect(auditTrailService.append).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'USER_DATA_EXPORTED', entityId: 'user-1' })
+      );
+    });
+  });
+});
@@ -0,0 +1,458 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel, getConnectionToken } from '@nestjs/sequelize';
+import { Op } from 'sequelize';
+import { Sequelize } from 'sequelize-typescript';
+import { ERROR_CODES } from '../../common/constants/error-codes';
+import { AuditTrailService } from '../audit/audit-trail.service';
+import { AuditSource } from '../audit/entities/audit-record.entity';
+import {
+  CompanyMembership,
+  CompanyMembershipStatus,
+} from '../company-membership/entities/company-membership.entity';
+import { Company } from '../company/entities/company.entity';
+import { ImpersonationSession } from '../impersonation/entities/impersonation-session.entity';
+import { LawyerCredential } from '../lawyer-credential/entities/lawyer-credential.entity';
+import { LoginAnomaly } from '../login-security/entities/login-anomaly.entity';
+import { UserSession } from '../login-security/entities/user-session.entity';
+import { Permission } from '../role/entities/permission.entity';
+import { Role } from '../role/entities/role.entity';
+import { UserPermission } from '../role/entities/user-permission.entity';
+import { PermissionsService } from '../role/permissions.service';
+import { TeamMember } from '../team/entities/team-member.entity';
+import { Team } from '../team/entities/team.entity';
+import { AuthService } from './auth.service';
+import { EraseUserDto, UserDataExportDto, UserErasureResultDto } from './dto/user-privacy.dto';
+import { Invitation, InvitationStatus } from './entities/invitation.entity';
+import { UserImportRow } from './entities/user-import-row.entity';
+import { User, UserRole, UserStatus } from './entities/user.entity';
+import { UserOffboardingService } from './user-offboarding.service';
+
+/** Names and email domain written over the personal data of erased users */
+const ERASED_FIRST_NAME = 'Erased';
+const ERASED_LAST_NAME = 'User';
+const ERASED_EMAIL_DOMAIN = 'erased.invalid';
+
+/**
+ * GDPR data subject requests: erasure ("right to be forgotten") and data export.
+ *
+ * Erased users are anonymized rather than deleted, so every reference to them
+ * (TeamMember.added_by_user_id, UserPermission.granted_by, audit logs) stays valid.
+ * Audit records are retained as they are: the trail is append-only and hash-chained, so
+ * its payloads carry user IDs, never emails or names. What survives erasure there is the
+ * user ID, the actions performed by or on the user with their timestamps, and the IP
+ * address and user agent recorded with company audit events.
+ * Chat conversations are not stored, so there is no chat history to erase or export.
+ */
+@Injectable()
+export class UserPrivacyService {
+  private readonly logger = new Logger(UserPrivacyService.name);
+
+  constructor(
+    @InjectModel(User)
+    private readonly userModel: typeof User,
+    @InjectModel(Company)
+    private readonly companyModel: typeof Company,
+    @InjectModel(UserPermission)
+    private readonly userPermissionModel: typeof UserPermission,
+    @InjectModel(TeamMember)
+    private readonly teamMemberModel: typeof TeamMember,
+    @InjectModel(CompanyMembership)
+    private readonly membershipModel: typeof CompanyMembership,
+    @InjectModel(Invitation)
+    private readonly invitationModel: typeof Invitation,
+    @InjectModel(UserImportRow)
+    private readonly userImportRowModel: typeof UserImportRow,
+    @InjectModel(LawyerCredential)
+    private readonly lawyerCredentialModel: typeof LawyerCredential,
+    @InjectModel(ImpersonationSession)
+    private readonly impersonationSessionModel: typeof ImpersonationSession,
+    @InjectModel(UserSession)
+    private readonly userSessionModel: typeof UserSession,
+    @InjectModel(LoginAnomaly)
+    private readonly loginAnomalyModel: typeof LoginAnomaly,
+    private readonly authService: AuthService,
+    private readonly userOffboardingService: UserOffboardingService,
+    private readonly permissionsService: PermissionsService,
+    private readonly auditTrailService: AuditTrailService,
+    @Inject(getConnectionToken())
+    private readonly sequelize: Sequelize
+  ) {}
+
+  /**
+   * Erases the personal data of a user. Users may erase themselves; other users must be
+   * in the same company unless the caller is an Acme admin. Owners and primary contacts
+   * of a company are refused until someone else takes over that role.
+   *
+   * The user is offboarded like a deactivation (teams, direct grants, company memberships),
+   * their lawyer credentials and sign-in devices are deleted, the IP addresses and details
+   * of their login anomalies are cleared, and their login is deleted from the identity
+   * provider as the last step of the transaction.
+   */
+  async eraseUser(
+    userId: string,
+    eraseDto: EraseUserDto,
+    currentUser: User
+  ): Promise<UserErasureResultDto> {
+    const { reason, newTeamOwnerId } = eraseDto;
+    const isSelf = userId === currentUser.id;
+    const user = await this.userModel.findByPk(userId);
+    const isAcmeAdmin =
+      currentUser.hasRoleEnum(UserRole.SUPER_ADMIN) || currentUser.hasRoleEnum(UserRole.ACME_ADMIN);
+
+    // Users of other companies are reported as not found
+    if (!user || (!isSelf && !isAcmeAdmin && user.company_id !== currentUser.company_id)) {
+      throw new NotFoundException({
+        success: false,
+        code: 'USER_404',
+        message: 'User not found',
+      });
+    }
+
+    if (user.erased_at) {
+      throw new ConflictException({
+        success: false,
+        code: ERROR_CODES.USER_ALREADY_ERASED,
+        message: 'The personal data of this user has already been erased',
+      });
+    }
+
+    if (eraseDto.confirmEmail.trim().toLowerCase() !== user.email.toLowerCase()) {
+      throw new BadRequestException({
+        success: false,
+        code: ERROR_CODES.USER_ERASURE_CONFIRMATION_MISMATCH,
+        message: 'confirmEmail does not match the email of the user',
+      });
+    }
+
+    const contactCompanies = await this.companyModel.findAll({
+      where: { [Op.or]: [{ owner_id: userId }, { primary_contact_user_id: userId }] },
+      attributes: ['id', 'name'],
+    });
+    if (contactCompanies.length > 0) {
+      throw new ConflictException({
+        success: false,
+        code: ERROR_CODES.USER_ERASURE_COMPANY_CONTACT,
+        message:
+          'The user owns or is the primary contact of a company. Transfer that role before erasing the user.',
+        data: { companies: contactCompanies.map(({ id, name }) => ({ id, name })) },
+      });
+    }
+
+    const erasedAt = new Date();
+    const anonymizedEmail = `erased-${user.id}@${ERASED_EMAIL_DOMAIN}`;
+    const previousEmail = user.email;
+    const identitySubject = user.auth0_user_id;
+
+    await this.sequelize.transaction(async (transaction) => {
+      const offboarding = await this.userOffboardingService.offboard(
+        userId,
+        { newTeamOwnerId, performedBy: currentUser.id, reason: 'User erased' },
+        transaction
+      );
+      const [revokedMembershipCount] = await this.membershipModel.update(
+        {
+          status: CompanyMembershipStatus.REVOKED,
+          revoked_at: erasedAt,
+          revoked_by: currentUser.id,
+        },
+        { where: { user_id: userId, status: CompanyMembershipStatus.ACTIVE }, transaction }
+      );
+      const deletedCredentialCount = await this.lawyerCredentialModel.destroy({
+        where: { user_id: userId },
+        transaction,
+      });
+
+      const deletedSessionCount = await this.userSessionModel.destroy({
+        where: { user_id: userId },
+        transaction,
+      });
+      // Kept as security history, without where the sign-ins came from
+      await this.loginAnomalyModel.update(
+        { ip_address: null, details: {}, resolution_notes: null },
+        { where: { user_id: userId }, transaction }
+      );
+
+      await this.invitationModel.update(
+        { status: InvitationStatus.REVOKED, revoked_at: erasedAt, revoked_by: currentUser.id },
+        { where: { user_id: userId, status: InvitationStatus.PENDING }, transaction }
+      );
+      await this.invitationModel.update(
+        { email: anonymizedEmail },
+        { where: { user_id: userId }, transaction }
+      );
+      await this.userImportRowModel.update(
+        { email: anonymizedEmail, first_name: ERASED_FIRST_NAME, last_name: ERASED_LAST_NAME },
+        { where: { [Op.or]: [{ user_id: userId }, { email: previousEmail }] }, transaction }
+      );
+      await this.impersonationSessionModel.update(
+        { ended_at: erasedAt },
+        {
+          where: {
+            [Op.or]: [{ target_user_id: userId }, { actor_id: userId }],
+            ended_at: null,
+          },
+          transaction,
+        }
+      );
+
+      await user.update(
+        {
+          first_name: ERASED_FIRST_NAME,
+          last_name: ERASED_LAST_NAME,
+          email: anonymizedEmail,
+          auth0_user_id: `erased|${user.id}`,
+          phone_number: null,
+          timezone: null,
+          locale: null,
+          job_title: null,
+          avatar_url: null,
+          pending_email: null,
+          email_verification_token_hash: null,
+          email_verification_expires_at: null,
+          is_lawyer: false,
+          lawyer_flag_grandfathered: false,
+          status: UserStatus.DEACTIVATED,
+          erased_at: erasedAt,
+        },
+        { transaction }
+      );
+
+      await this.auditTrailService.append(
+        {
+          tenantId: user.company_id,
+          source: AuditSource.USER,
+          action: 'USER_ERASED',
+          entityId: userId,
+          performedBy: currentUser.id,
+          payload: {
+            reason,
+            selfService: isSelf,
+            offboarding: {
+              ...offboarding,
+              revokedMembershipCount,
+              deletedCredentialCount,
+              deletedSessionCount,
+            },
+          },
+        },
+        transaction
+      );
+
+      // Last, so a failure leaves the user untouched; a retry tolerates an already deleted login
+      await this.authService.deleteIdentityUser(identitySubject);
+    });
+
+    await this.permissionsService.invalidateCache({
+      user_id: userId,
+      company_id: user.company_id,
+      reason: 'User erased',
+    });
+
+    this.logger.log(`Personal data of user ${userId} erased by ${currentUser.id}`);
+
+    return { userId, erasedAt };
+  }
+
+  /**
+   * Collects everything stored about the user: profile, company and team memberships,
+   * permissions, lawyer credentials, invitations, impersonation sessions, sign-in devices,
+   * login anomalies and audit records. Secrets such as token and device hashes are left out.
+   */
+  async exportUserData(currentUser: User): Promise<UserDataExportDto> {
+    const userId = currentUser.id;
+
+    // Reloaded so the export shows the home company even when acting in another one
+    const user = await this.userModel.findByPk(userId, {
+      attributes: {
+        exclude: ['email_verification_token_hash', 'email_verification_expires_at'],
+      },
+      include: [
+        { model: Role, attributes: ['id', 'name', 'code'] },
+        { model: Company, attributes: ['id', 'name'] },
+      ],
+    });
+    if (!user) {
+      throw new NotFoundException({
+        success: false,
+        code: 'USER_404',
+        message: 'User not found',
+      });
+    }
+
+    const [
+      memberships,
+      teamMembers,
+      grants,
+      effective,
+      credentials,
+      invitations,
+      impersonationSessions,
+      loginSessions,
+      loginAnomalies,
+      auditRecords,
+    ] = await Promise.all([
+      this.membershipModel.findAll({
+        where: { user_id: userId },
+        include: [
+          { model: Company, attributes: ['id', 'name'] },
+          { model: Role, attributes: ['id', 'name', 'code'] },
+        ],
+        order: [['created_at', 'ASC']],
+      }),
+      this.teamMemberModel.findAll({
+        where: { user_id: userId },
+        include: [{ model: Team, attributes: ['id', 'name', 'company_id'] }],
+        order: [['added_at', 'ASC']],
+      }),
+      this.userPermissionModel.findAll({
+        where: { user_id: userId },
+        include: [{ model: Permission, attributes: ['name', 'category'] }],
+      }),
+      this.permissionsService.getEffectivePermissionsForUser(userId),
+      this.lawyerCredentialModel.findAll({ where: { user_id: userId } }),
+      this.invitationModel.findAll({
+        where: { user_id: userId },
+        attributes: { exclude: ['token_hash'] },
+      }),
+      this.impersonationSessionModel.findAll({
+        where: { target_user_id: userId },
+        attributes: { exclude: ['token_hash'] },
+      }),
+      this.userSessionModel.findAll({
+        where: { user_id: userId },
+        attributes: { exclude: ['device_hash'] },
+        order: [['first_seen_at', 'ASC']],
+      }),
+      this.loginAnomalyModel.findAll({
+        where: { user_id: userId },
+        order: [['created_at', 'ASC']],
+      }),
+      this.auditTrailService.findByUser(userId),
+    ]);
+
+    await this.auditTrailService.append({
+      tenantId: user.company_id,
+      source: AuditSource.USER,
+      action: 'USER_DATA_EXPORTED',
+      entityId: userId,
+      performedBy: userId,
+    });
+
+    return {
+      generatedAt: new Date().toISOString(),
+      profile: {
+        id: user.id,
+        firstName: user.first_name,
+        lastName: user.last_name,
+        email: user.email,
+        pendingEmail: user.pending_email ?? null,
+        phoneNumber: user.phone_number ?? null,
+        timezone: user.timezone ?? null,
+        locale: user.locale ?? null,
+        jobTitle: user.job_title ?? null,
+        avatarUrl: user.avatar_url ?? null,
+        isLawyer: user.is_lawyer,
+        status: user.status,
+        identitySubject: user.auth0_user_id,
+        role: user.role ? { id: user.role.id, name: user.role.name, code: user.role.code } : null,
+        company: user.company ? { id: user.company.id, name: user.company.name } : null,
+        createdAt: user.created_at,
+        updatedAt: user.updated_at,
+      },
+      companyMemberships: memberships.map((membership) => ({
+        companyId: membership.company_id,
+        companyName: membership.company?.name ?? null,
+        role: membership.role?.name ?? null,
+        status: membership.status,
+        addedBy: membership.added_by ?? null,
+        revokedAt: membership.revoked_at ?? null,
+        createdAt: membership.created_at,
+      })),
+      teamMemberships: teamMembers.map((member) => ({
+        teamId: member.team_id,
+        teamName: member.team?.name ?? null,
+        companyId: member.team?.company_id ?? null,
+        addedAt: member.added_at,
+        addedBy: member.added_by_user_id,
+      })),
+      permissions: {
+        direct: grants.map((grant) => ({
+          name: grant.permission?.name ?? null,
+          category: grant.permission?.category ?? null,
+          granted: grant.granted,
+          grantedBy: grant.granted_by,
+          grantedAt: grant.granted_at,
+        })),
+        effective: effective.permission_names,
+      },
+      lawyerCredentials: credentials.map((credential) => ({
+        id: credential.id,
+        barJurisdiction: credential.bar_jurisdiction,
+        barNumber: credential.bar_number,
+        admissionDate: credential.admission_date,
+        standingStatus: credential.standing_status,
+        standingExpiresAt: credential.standing_expires_at ?? null,
+        verificationStatus: credential.verification_status,
+        verifiedAt: credential.verified_at ?? null,
+        reviewNotes: credential.review_notes ?? null,
+        createdAt: credential.created_at,
+      })),
+      invitations: invitations.map((invitation) => ({
+        id: invitation.id,
+        email: invitation.email,
+        companyId: invitation.company_id,
+        invitedBy: invitation.invited_by,
+        status: invitation.status,
+        expiresAt: invitation.expires_at,
+        acceptedAt: invitation.accepted_at ?? null,
+        createdAt: invitation.created_at,
+      })),
+      impersonationSessions: impersonationSessions.map((session) => ({
+        id: session.id,
+        actorId: session.actor_id,
+        reason: session.reason,
+        startedAt: session.created_at,
+        expiresAt: session.expires_at,
+        endedAt: session.ended_at ?? null,
+      })),
+      loginSessions: loginSessions.map((session) => ({
+        id: session.id,
+        clientPlatform: session.client_platform,
+        userAgent: session.user_agent ?? null,
+        ipAddress: session.ip_address ?? null,
+        countryCode: session.country_code ?? null,
+        latitude: session.latitude ?? null,
+        longitude: session.longitude ?? null,
+        firstSeenAt: session.first_seen_at,
+        lastSeenAt: session.last_seen_at,
+      })),
+      loginAnomalies: loginAnomalies.map((anomaly) => ({
+        id: anomaly.id,
+        type: anomaly.type,
+        sessionId: anomaly.session_id ?? null,
+        ipAddress: anomaly.ip_address ?? null,
+        details: anomaly.details ?? {},
+        requiresReauthentication: anomaly.requires_reauthentication,
+        resolvedAt: anomaly.resolved_at ?? null,
+        createdAt: anomaly.created_at,
+      })),
+      auditEntries: auditRecords.map((record) => ({
+        id: record.id,
+        tenantId: record.tenant_id,
+        source: record.source,
+        action: record.action,
+        entityId: record.entity_id ?? null,
+        performedBy: record.performed_by ?? null,
+        performedAt: record.performed_at,
+        payload: record.payload ?? null,
+      })),
+    };
+  }
+}
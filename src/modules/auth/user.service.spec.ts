@@ -1,14 +1,32 @@
-import { ConflictException, NotFoundException, UnprocessableEntityException } from '@nestjs/common';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  GoneException,
+  NotFoundException,
+  ServiceUnavailableException,
+  UnprocessableEntityException,
+} from '@nestjs/common';
 import { getConnectionToken, getModelToken } from '@nestjs/sequelize';
+import { ConfigService } from '@nestjs/config';
 import { Test, TestingModule } from '@nestjs/testing';
+import { createHash } from 'crypto';
+import { ERROR_CODES } from '../../common/constants/error-codes';
+import { AuditTrailService } from '../audit/audit-trail.service';
 import { Company } from '../company/entities/company.entity';
 import { Role } from '../role/entities/role.entity';
 import { PermissionSourceType } from '../role/dto/permissions-service.dto';
+import { PermissionGrantService } from '../role/permission-grant.service';
 import { PermissionsService } from '../role/permissions.service';
+import { TeamService } from '../team/team.service';
+import { TokenRevocationService } from '../token-revocation/token-revocation.service';
 import { AuthService } from './auth.service';
 import { AcmeInviteDto } from './dto/acme-invite.dto';
 import { VendorInviteDto, VendorRole } from './dto/vendor-invite.dto';
+import { Invitation, InvitationStatus } from './entities/invitation.entity';
 import { User, UserRole, UserStatus } from './entities/user.entity';
+import { InvitationService } from './invitation.service';
+import { UserOffboardingService } from './user-offboarding.service';
 import { UserService } from './user.service';
 
 describe('UserService', () => {
@@ -18,6 +36,11 @@ describe('UserService', () => {
   let permissionsService: jest.Mocked<PermissionsService>;
   let authService: jest.Mocked<AuthService>;
   let sequelize: any;
+  let invitationModel: any;
+  let permissionGrantService: { revokeAllForUser: jest.Mock };
+  let teamService: { offboardUser: jest.Mock };
+  let auditTrailService: { append: jest.Mock };
+  let tokenRevocationService: { revokeAllForUser: jest.Mock };
 
   const mockRole = {
     id: 'role-123',
@@ -155,13 +178,25 @@ describe('UserService', () => {
           useValue: {
             getUserPermissions: jest.fn(),
             getEffectivePermissionsForUser: jest.fn(),
+            invalidateCache: jest.fn(),
           },
         },
+        {
+          provide: PermissionGrantService,
+          useValue: { revokeAllForUser: jest.fn().mockResolvedValue(0) },
+        },
+        UserOffboardingService,
+        {
+          provide: TeamService,
+          useValue: { offboardUser: jest.fn() },
+        },
         {
           provide: AuthService,
           useValue: {
-            createAuth0User: jest.fn(),
+            createIdentityUser: jest.fn(),
             sendPasswordResetEmail: jest.fn(),
+            sendEmailVerification: jest.fn(),
+            updateIdentityEmail: jest.fn(),
           },
         },
         {
@@ -170,6 +205,37 @@ describe('UserService', () => {
             transaction: jest.fn().mockImplementation((callback) => callback(mockTransaction)),
           },
         },
+        InvitationService,
+        {
+          provide: getModelToken(Invitation),
+          useValue: {
+            create: jest
+              .fn()
+              .mockImplementation((data) => Promise.resolve({ id: 'invitation-123', ...data })),
+          },
+        },
+        {
+          provide: AuditTrailService,
+          useValue: { append: jest.fn() },
+        },
+        {
+          provide: TokenRevocationService,
+          useValue: {
+            revokeAllForUser: jest.fn().mockResolvedValue(new Date('2025-10-20T09:00:00.000Z')),
+          },
+        },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn(
+              (key: string, defaultValue?: unknown) =>
+                ({
+                  INVITATION_ACCEPT_URL: 'https://app.acme.test/invitations/accept',
+                  EMAIL_VERIFICATION_URL: 'https://app.acme.test/profile/verify-email',
+                })[key] ?? defaultValue
+            ),
+          },
+        },
       ],
     }).compile();
 
@@ -179,6 +245,11 @@ describe('UserService', () => {
     permissionsService = module.get(PermissionsService);
     authService = module.get(AuthService);
     sequelize = module.get(getConnectionToken());
+    invitationModel = module.get(getModelToken(Invitation));
+    permissionGrantService = module.get(PermissionGrantService);
+    teamService = module.get(TeamService);
+    auditTrailService = module.get(AuditTrailService);
+    tokenRevocationService = module.get(TokenRevocationService);
   });
 
   afterEach(() => {
@@ -201,7 +272,7 @@ describe('UserService', () => {
       companyModel.findOne.mockResolvedValue(acmeCompany);
       userModel.findOne.mockResolvedValue(null);
       // Remove the manual mock override - let the implementation mock handle it
-      authService.createAuth0User.mockResolvedValue({ user_id: 'auth0|123' });
+      authService.createIdentityUser.mockResolvedValue({ userId: 'auth0|123' });
       authService.sendPasswordResetEmail.mockResolvedValue(undefined);
 
       const result = await service.acmeInvite(inviteDto, 'inviter-123');
@@ -220,13 +291,42 @@ describe('UserService', () => {
         }),
         { transaction: expect.any(Object) }
       );
-      expect(authService.createAuth0User).toHaveBeenCalled();
+      expect(authService.createIdentityUser).toHaveBeenCalled();
       expect(authService.sendPasswordResetEmail).toHaveBeenCalled();
       expect(result.email).toBe(inviteDto.email);
       expect(result.company_id).toBe('acme-company-id');
       expect(result.auth0_user_id).toBe('auth0|123');
     });
 
+    it('should record a pending invitation and send its token in the accept link', async () => {
+      companyModel.findOne.mockResolvedValue({ id: 'acme-company-id', name: 'Acme' } as Company);
+      userModel.findOne.mockResolvedValue(null);
+      authService.createIdentityUser.mockResolvedValue({ userId: 'auth0|123' });
+      authService.sendPasswordResetEmail.mockResolvedValue(undefined);
+
+      await service.acmeInvite(inviteDto, 'inviter-123');
+
+      expect(invitationModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          email: inviteDto.email,
+          company_id: 'acme-company-id',
+          role_id: 'role-nna',
+          invited_by: 'inviter-123',
+          status: InvitationStatus.PENDING,
+          token_hash: expect.stringMatching(/^[a-f0-9]{64}$/),
+          expires_at: expect.any(Date),
+        }),
+        { transaction: expect.any(Object) }
+      );
+
+      const acceptUrl = new URL(authService.sendPasswordResetEmail.mock.calls[0][1] as string);
+      const token = acceptUrl.searchParams.get('token') as string;
+      expect(acceptUrl.pathname).toBe('/invitations/accept');
+      expect(InvitationService.hashToken(token)).toBe(
+        invitationModel.create.mock.calls[0][0].token_hash
+      );
+    });
+
     it('should throw ConflictException if user already exists', async () => {
       const acmeCompany = { id: 'acme-company-id' } as Company;
 
@@ -274,7 +374,7 @@ describe('UserService', () => {
       companyModel.findByPk.mockResolvedValue(mockCompany);
       userModel.findOne.mockResolvedValue(null);
       // Remove the manual mock override - let the implementation mock handle it
-      authService.createAuth0User.mockResolvedValue({ user_id: 'auth0|456' });
+      authService.createIdentityUser.mockResolvedValue({ userId: 'auth0|456' });
       authService.sendPasswordResetEmail.mockResolvedValue(undefined);
 
       const result = await service.vendorInvite(inviteDto, invitingUser);
@@ -297,6 +397,16 @@ describe('UserService', () => {
       expect(result.auth0_user_id).toBe('auth0|456');
     });
 
+    it('should not let the inviter mark the user as a lawyer', async () => {
+      companyModel.findByPk.mockResolvedValue(mockCompany);
+      userModel.findOne.mockResolvedValue(null);
+      authService.createIdentityUser.mockResolvedValue({ userId: 'auth0|456' });
+
+      await service.vendorInvite({ ...inviteDto, is_lawyer: true }, invitingUser);
+
+      expect(userModel.create.mock.calls[0][0]).not.toHaveProperty('is_lawyer');
+    });
+
     it('should throw UnprocessableEntityException if inviter has no company', async () => {
       const inviterWithoutCompany = {
         ...invitingUser,
@@ -318,7 +428,7 @@ describe('UserService', () => {
     });
 
     it('should throw UnprocessableEntityException if Auth0 user creation fails', async () => {
-      authService.createAuth0User.mockRejectedValue(new Error('Auth0 API Error'));
+      authService.createIdentityUser.mockRejectedValue(new Error('Auth0 API Error'));
 
       await expect(service.vendorInvite(inviteDto, invitingUser)).rejects.toThrow(
         UnprocessableEntityException
@@ -354,6 +464,10 @@ describe('UserService', () => {
         role: mockRole,
         status: UserStatus.ACTIVE,
         company: mockCompany,
+        job_title: 'Paralegal',
+        timezone: 'Europe/Lisbon',
+        phone_number: '+351912345678',
+        pending_email: 'new@example.com',
       };
 
       userModel.findOne.mockResolvedValue(mockUser);
@@ -385,7 +499,21 @@ describe('UserService', () => {
       expect(userModel.findOne).toHaveBeenCalledWith({
         where: { auth0_user_id: 'auth0|123' },
         include: expect.any(Array),
-        attributes: ['id', 'email', 'first_name', 'last_name', 'company_id', 'role_id', 'status'],
+        attributes: [
+          'id',
+          'email',
+          'first_name',
+          'last_name',
+          'company_id',
+          'role_id',
+          'status',
+          'job_title',
+          'avatar_url',
+          'timezone',
+          'phone_number',
+          'locale',
+          'pending_email',
+        ],
       });
 
       expect(result).toEqual({
@@ -412,6 +540,12 @@ describe('UserService', () => {
         permissions: ['users:read', 'users:write'],
         auth0id: 'auth0|123',
         status: UserStatus.ACTIVE,
+        jobTitle: 'Paralegal',
+        avatarUrl: null,
+        timezone: 'Europe/Lisbon',
+        phoneNumber: '+351912345678',
+        locale: null,
+        pendingEmail: 'new@example.com',
       });
     });
 
@@ -461,7 +595,18 @@ describe('UserService', () => {
           company_id: 'company-123',
         },
         include: expect.any(Array),
-        attributes: ['id', 'email', 'first_name', 'last_name', 'company_id', 'role_id', 'status'],
+        attributes: [
+          'id',
+          'email',
+          'first_name',
+          'last_name',
+          'company_id',
+          'role_id',
+          'status',
+          'job_title',
+          'avatar_url',
+          'timezone',
+        ],
       });
 
       expect(result).toEqual({
@@ -486,6 +631,9 @@ describe('UserService', () => {
           code: 'vendor_employee',
         },
         status: UserStatus.ACTIVE,
+        jobTitle: null,
+        avatarUrl: null,
+        timezone: null,
       });
 
       // Ensure no permissions were fetched
@@ -583,26 +731,441 @@ describe('UserService', () => {
   });
 
   describe('updateStatus', () => {
-    it('should update user status', async () => {
-      userModel.findByPk.mockResolvedValue(mockUser);
-      const updatedUser = { ...mockUser, status: UserStatus.ACTIVE };
-      userModel.update.mockResolvedValue([1, [updatedUser]] as any);
+    const vendorAdmin = {
+      id: 'admin-123',
+      company_id: 'company-123',
+      hasRoleEnum: jest.fn().mockReturnValue(false),
+    } as unknown as User;
+
+    const suspendDto = { status: UserStatus.SUSPENDED, reason: 'Policy violation' };
+    const deactivateDto = {
+      status: UserStatus.DEACTIVATED,
+      reason: 'Left the company',
+      newTeamOwnerId: 'owner-456',
+    };
 
-      const result = await service.updateStatus('user-123', UserStatus.ACTIVE);
+    it('should suspend an active user and audit the reason', async () => {
+      const user = createMockUserInstance({ ...mockUser, status: UserStatus.ACTIVE });
+      userModel.findByPk.mockResolvedValue(user);
 
-      expect(userModel.update).toHaveBeenCalledWith(
-        { status: UserStatus.ACTIVE },
-        { where: { id: 'user-123' }, returning: true }
+      const result = await service.updateStatus('user-123', suspendDto, vendorAdmin);
+
+      expect(user.update).toHaveBeenCalledWith(
+        { status: UserStatus.SUSPENDED },
+        { transaction: expect.anything() }
+      );
+      expect(teamService.offboardUser).not.toHaveBeenCalled();
+      expect(tokenRevocationService.revokeAllForUser).toHaveBeenCalledWith(
+        'user-123',
+        expect.anything()
+      );
+      expect(auditTrailService.append).toHaveBeenCalledWith(
+        expect.objectContaining({
+          tenantId: 'company-123',
+          action: 'USER_STATUS_CHANGED',
+          entityId: 'user-123',
+          performedBy: 'admin-123',
+          payload: expect.objectContaining({
+            previousStatus: UserStatus.ACTIVE,
+            newStatus: UserStatus.SUSPENDED,
+            reason: 'Policy violation',
+            sessionsRevoked: true,
+          }),
+        }),
+        expect.anything()
       );
-      expect(result).toBe(updatedUser);
+      expect(permissionsService.invalidateCache).toHaveBeenCalledWith(
+        expect.objectContaining({ user_id: 'user-123' })
+      );
+      expect(result.status).toBe(UserStatus.SUSPENDED);
     });
 
-    it('should throw NotFoundException if user not found', async () => {
-      userModel.findByPk.mockResolvedValue(null);
+    it('should offboard a deactivated user', async () => {
+      const user = createMockUserInstance({ ...mockUser, status: UserStatus.ACTIVE });
+      userModel.findByPk.mockImplementation((id: string) =>
+        Promise.resolve(id === 'owner-456' ? { id: 'owner-456', status: UserStatus.ACTIVE } : user)
+      );
+      teamService.offboardUser.mockResolvedValue({
+        removedFromTeamIds: ['team-1'],
+        reassignedTeamIds: ['team-2'],
+      });
+      permissionGrantService.revokeAllForUser.mockResolvedValue(2);
+
+      await service.updateStatus('user-123', deactivateDto, vendorAdmin);
+
+      expect(teamService.offboardUser).toHaveBeenCalledWith(
+        'user-123',
+        'owner-456',
+        'admin-123',
+        expect.anything()
+      );
+      expect(tokenRevocationService.revokeAllForUser).toHaveBeenCalledTimes(1);
+      expect(permissionGrantService.revokeAllForUser).toHaveBeenCalledWith(
+        'user-123',
+        'admin-123',
+        'User deactivated',
+        expect.anything()
+      );
+      expect(auditTrailService.append.mock.calls[0][0].payload.offboarding).toEqual({
+        removedFromTeamIds: ['team-1'],
+        reassignedTeamIds: ['team-2'],
+        newTeamOwnerId: 'owner-456',
+        revokedPermissionCount: 2,
+      });
+    });
+
+    it('should propagate a refusal to leave a LEGAL team without a lawyer', async () => {
+      userModel.findByPk.mockResolvedValue(
+        createMockUserInstance({ ...mockUser, status: UserStatus.ACTIVE })
+      );
+      teamService.offboardUser.mockRejectedValue(
+        new BadRequestException("LEGAL team 'Litigation' would be left without a lawyer")
+      );
+
+      await expect(
+        service.updateStatus(
+          'user-123',
+          { ...deactivateDto, newTeamOwnerId: undefined },
+          vendorAdmin
+        )
+      ).rejects.toThrow(BadRequestException);
+      expect(auditTrailService.append).not.toHaveBeenCalled();
+      expect(permissionsService.invalidateCache).not.toHaveBeenCalled();
+    });
+
+    it('should keep the sessions of a reactivated user', async () => {
+      userModel.findByPk.mockResolvedValue(
+        createMockUserInstance({ ...mockUser, status: UserStatus.SUSPENDED })
+      );
+
+      await service.updateStatus(
+        'user-123',
+        { status: UserStatus.ACTIVE, reason: 'Cleared' },
+        vendorAdmin
+      );
+
+      expect(tokenRevocationService.revokeAllForUser).not.toHaveBeenCalled();
+    });
+
+    it('should reject an invalid transition', async () => {
+      userModel.findByPk.mockResolvedValue(
+        createMockUserInstance({ ...mockUser, status: UserStatus.DEACTIVATED })
+      );
+
+      await expect(service.updateStatus('user-123', suspendDto, vendorAdmin)).rejects.toThrow(
+        UnprocessableEntityException
+      );
+    });
+
+    it('should reject changing your own status', async () => {
+      userModel.findByPk.mockResolvedValue(
+        createMockUserInstance({ ...mockUser, id: 'admin-123' })
+      );
+
+      await expect(service.updateStatus('admin-123', suspendDto, vendorAdmin)).rejects.toThrow(
+        ForbiddenException
+      );
+    });
 
-      await expect(service.updateStatus('nonexistent', UserStatus.ACTIVE)).rejects.toThrow(
+    it('should hide users of other companies', async () => {
+      userModel.findByPk.mockResolvedValue(
+        createMockUserInstance({ ...mockUser, company_id: 'other-company' })
+      );
+
+      await expect(service.updateStatus('user-123', suspendDto, vendorAdmin)).rejects.toThrow(
         NotFoundException
       );
     });
   });
+
+  describe('revokeSessions', () => {
+    const vendorAdmin = {
+      id: 'admin-123',
+      company_id: 'company-123',
+      hasRoleEnum: jest.fn().mockReturnValue(false),
+    } as unknown as User;
+
+    it('should revoke the sessions of a user and audit it', async () => {
+      userModel.findByPk.mockResolvedValue(createMockUserInstance({ ...mockUser }));
+
+      const result = await service.revokeSessions(
+        'user-123',
+        { reason: 'Laptop stolen' },
+        vendorAdmin
+      );
+
+      expect(tokenRevocationService.revokeAllForUser).toHaveBeenCalledWith(
+        'user-123',
+        expect.anything()
+      );
+      expect(auditTrailService.append).toHaveBeenCalledWith(
+        expect.objectContaining({
+          tenantId: 'company-123',
+          action: 'USER_SESSIONS_REVOKED',
+          entityId: 'user-123',
+          performedBy: 'admin-123',
+          payload: {
+            reason: 'Laptop stolen',
+            tokensValidAfter: '2025-10-20T09:00:00.000Z',
+          },
+        }),
+        expect.anything()
+      );
+      expect(result).toEqual({
+        userId: 'user-123',
+        tokensValidAfter: new Date('2025-10-20T09:00:00.000Z'),
+      });
+    });
+
+    it('should let users revoke their own sessions', async () => {
+      await service.revokeSessions('admin-123', {}, vendorAdmin);
+
+      expect(userModel.findByPk).not.toHaveBeenCalled();
+      expect(tokenRevocationService.revokeAllForUser).toHaveBeenCalledWith(
+        'admin-123',
+        expect.anything()
+      );
+    });
+
+    it('should hide users of other companies', async () => {
+      userModel.findByPk.mockResolvedValue(
+        createMockUserInstance({ ...mockUser, company_id: 'other-company' })
+      );
+
+      await expect(service.revokeSessions('user-123', {}, vendorAdmin)).rejects.toThrow(
+        NotFoundException
+      );
+      expect(tokenRevocationService.revokeAllForUser).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateOwnProfile', () => {
+    const ownProfile = { id: 'user-123', email: 'test@example.com' };
+
+    const buildCurrentUser = (overrides: Record<string, unknown> = {}, isAdmin = false) =>
+      createMockUserInstance({
+        ...mockUser,
+        job_title: null,
+        hasRoleEnum: jest.fn().mockReturnValue(isAdmin),
+        ...overrides,
+      }) as unknown as User;
+
+    beforeEach(() => {
+      jest.spyOn(service, 'getOwnProfile').mockResolvedValue(ownProfile as any);
+    });
+
+    it('should update self-editable fields and audit the changed fields', async () => {
+      const currentUser = buildCurrentUser();
+
+      const result = await service.updateOwnProfile(currentUser, {
+        firstName: 'Test',
+        timezone: 'Europe/Lisbon',
+        locale: 'pt-PT',
+      });
+
+      expect(currentUser.update).toHaveBeenCalledWith(
+        { timezone: 'Europe/Lisbon', locale: 'pt-PT' },
+        expect.anything()
+      );
+      expect(auditTrailService.append).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'USER_PROFILE_UPDATED',
+          entityId: 'user-123',
+          performedBy: 'user-123',
+          payload: { changedFields: ['timezone', 'locale'], emailChangeRequested: false },
+        }),
+        expect.anything()
+      );
+      expect(service.getOwnProfile).toHaveBeenCalledWith('auth0|123');
+      expect(result).toBe(ownProfile);
+    });
+
+    it('should reject admin-only fields for regular users', async () => {
+      const currentUser = buildCurrentUser();
+
+      const error = await service
+        .updateOwnProfile(currentUser, { jobTitle: 'Partner' })
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(ForbiddenException);
+      expect((error as ForbiddenException).getResponse()).toEqual(
+        expect.objectContaining({ code: ERROR_CODES.PROFILE_FIELD_NOT_EDITABLE })
+      );
+      expect(currentUser.update).not.toHaveBeenCalled();
+    });
+
+    it('should let company admins set admin-only fields on themselves', async () => {
+      const currentUser = buildCurrentUser({}, true);
+
+      await service.updateOwnProfile(currentUser, { jobTitle: 'Managing Partner' });
+
+      expect(currentUser.update).toHaveBeenCalledWith(
+        { job_title: 'Managing Partner' },
+        expect.anything()
+      );
+    });
+
+    it('should keep a new email pending until it is verified', async () => {
+      const currentUser = buildCurrentUser();
+      userModel.findOne.mockResolvedValue(null);
+
+      await service.updateOwnProfile(currentUser, { email: 'new@example.com' });
+
+      expect(currentUser.update).toHaveBeenCalledWith(
+        {
+          pending_email: 'new@example.com',
+          email_verification_token_hash: expect.stringMatching(/^[0-9a-f]{64}$/),
+          email_verification_expires_at: expect.any(Date),
+        },
+        expect.anything()
+      );
+      expect(currentUser.email).toBe('test@example.com');
+      expect(authService.updateIdentityEmail).not.toHaveBeenCalled();
+      expect(authService.sendEmailVerification).toHaveBeenCalledWith(
+        'new@example.com',
+        expect.stringMatching(/^https:\/\/app\.acme\.test\/profile\/verify-email\?token=/)
+      );
+      expect(auditTrailService.append).toHaveBeenCalledWith(
+        expect.objectContaining({
+          payload: { changedFields: ['pending_email'], emailChangeRequested: true },
+        }),
+        expect.anything()
+      );
+    });
+
+    it('should fail the change when the verification link cannot be delivered', async () => {
+      const currentUser = buildCurrentUser();
+      userModel.findOne.mockResolvedValue(null);
+      authService.sendEmailVerification.mockRejectedValue(
+        new ServiceUnavailableException({ code: ERROR_CODES.EMAIL_VERIFICATION_UNAVAILABLE })
+      );
+
+      await expect(
+        service.updateOwnProfile(currentUser, { email: 'new@example.com' })
+      ).rejects.toThrow(ServiceUnavailableException);
+    });
+
+    it('should reject an email that is already in use', async () => {
+      const currentUser = buildCurrentUser();
+      userModel.findOne.mockResolvedValue({ id: 'other-user' });
+
+      await expect(
+        service.updateOwnProfile(currentUser, { email: 'taken@example.com' })
+      ).rejects.toThrow(ConflictException);
+      expect(currentUser.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateUserProfile', () => {
+    const vendorAdmin = {
+      id: 'admin-123',
+      company_id: 'company-123',
+      hasRoleEnum: jest.fn().mockReturnValue(false),
+    } as unknown as User;
+
+    beforeEach(() => {
+      jest.spyOn(service, 'getOtherUserProfile').mockResolvedValue({ id: 'user-123' } as any);
+    });
+
+    it('should let an admin set admin-only fields of a user in their company', async () => {
+      const user = createMockUserInstance({ ...mockUser, job_title: null });
+      userModel.findByPk.mockResolvedValue(user);
+
+      await service.updateUserProfile('user-123', { jobTitle: 'Paralegal' }, vendorAdmin);
+
+      expect(user.update).toHaveBeenCalledWith({ job_title: 'Paralegal' }, expect.anything());
+      expect(auditTrailService.append).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'USER_PROFILE_UPDATED',
+          entityId: 'user-123',
+          performedBy: 'admin-123',
+          payload: { changedFields: ['job_title'] },
+        }),
+        expect.anything()
+      );
+      expect(service.getOtherUserProfile).toHaveBeenCalledWith('user-123', 'company-123');
+    });
+
+    it('should hide users of other companies', async () => {
+      userModel.findByPk.mockResolvedValue(
+        createMockUserInstance({ ...mockUser, company_id: 'other-company' })
+      );
+
+      await expect(
+        service.updateUserProfile('user-123', { jobTitle: 'Paralegal' }, vendorAdmin)
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('verifyEmail', () => {
+    const token = 'verification-token';
+    const tokenHash = createHash('sha256').update(token).digest('hex');
+
+    const buildPendingUser = (overrides: Record<string, unknown> = {}) =>
+      createMockUserInstance({
+        ...mockUser,
+        pending_email: 'new@example.com',
+        email_verification_token_hash: tokenHash,
+        email_verification_expires_at: new Date(Date.now() + 60 * 60 * 1000),
+        ...overrides,
+      });
+
+    beforeEach(() => {
+      jest.spyOn(service, 'getOwnProfile').mockResolvedValue({ id: 'user-123' } as any);
+      userModel.findOne.mockResolvedValue(null);
+    });
+
+    it('should apply the pending email and update the identity provider', async () => {
+      const user = buildPendingUser();
+      userModel.findByPk.mockResolvedValue(user);
+
+      await service.verifyEmail(token, mockUser);
+
+      expect(user.update).toHaveBeenCalledWith(
+        {
+          email: 'new@example.com',
+          pending_email: null,
+          email_verification_token_hash: null,
+          email_verification_expires_at: null,
+        },
+        expect.anything()
+      );
+      expect(authService.updateIdentityEmail).toHaveBeenCalledWith('auth0|123', 'new@example.com');
+      expect(auditTrailService.append).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'USER_EMAIL_CHANGED' }),
+        expect.anything()
+      );
+      // The identity provider is updated last, once nothing else can fail
+      expect(authService.updateIdentityEmail.mock.invocationCallOrder[0]).toBeGreaterThan(
+        auditTrailService.append.mock.invocationCallOrder[0]
+      );
+      // Audit payloads are hash-chained and outlive erasure, so they carry no emails
+      expect(JSON.stringify(auditTrailService.append.mock.calls)).not.toContain('example.com');
+    });
+
+    it('should reject a wrong token', async () => {
+      userModel.findByPk.mockResolvedValue(buildPendingUser());
+
+      await expect(service.verifyEmail('wrong-token', mockUser)).rejects.toThrow(
+        BadRequestException
+      );
+      expect(authService.updateIdentityEmail).not.toHaveBeenCalled();
+    });
+
+    it('should reject an expired token', async () => {
+      userModel.findByPk.mockResolvedValue(
+        buildPendingUser({ email_verification_expires_at: new Date(Date.now() - 1) })
+      );
+
+      await expect(service.verifyEmail(token, mockUser)).rejects.toThrow(GoneException);
+    });
+
+    it('should reject an email taken since the change was requested', async () => {
+      userModel.findByPk.mockResolvedValue(buildPendingUser());
+      userModel.findOne.mockResolvedValue({ id: 'other-user' });
+
+      await expect(service.verifyEmail(token, mockUser)).rejects.toThrow(ConflictException);
+      expect(authService.updateIdentityEmail).not.toHaveBeenCalled();
+    });
+  });
 });
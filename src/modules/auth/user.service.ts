@@ -1,21 +1,57 @@
 import {
+  BadRequestException,
   ConflictException,
+  ForbiddenException,
+  GoneException,
   Inject,
   Injectable,
   InternalServerErrorException,
   Logger,
   NotFoundException,
+  ServiceUnavailableException,
   UnprocessableEntityException,
 } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { InjectModel, getConnectionToken } from '@nestjs/sequelize';
+import { createHash, randomBytes } from 'crypto';
+import { Op } from 'sequelize';
 import { Sequelize } from 'sequelize-typescript';
+import { ERROR_CODES } from '../../common/constants/error-codes';
+import { AuditTrailService } from '../audit/audit-trail.service';
+import { AuditSource } from '../audit/entities/audit-record.entity';
 import { Company } from '../company/entities/company.entity';
 import { Role } from '../role/entities/role.entity';
 import { PermissionsService } from '../role/permissions.service';
+import { TokenRevocationService } from '../token-revocation/token-revocation.service';
 import { AuthService } from './auth.service';
+import {
+  COMPANY_ADMIN_ROLES,
+  PROFILE_FIELD_RULES,
+  ProfileField,
+  ProfileFieldEditor,
+} from './constants/profile-field-rules';
 import { AcmeInviteDto } from './dto/acme-invite.dto';
+import { RevokeSessionsDto } from './dto/revoke-sessions.dto';
+import { UpdateOwnProfileDto, UpdateUserProfileDto } from './dto/update-user-profile.dto';
+import { UpdateUserStatusDto } from './dto/update-user-status.dto';
 import { VendorInviteDto, VendorRole } from './dto/vendor-invite.dto';
 import { User, UserRole, UserStatus } from './entities/user.entity';
+import { InvitationService } from './invitation.service';
+import { UserOffboardingResult, UserOffboardingService } from './user-offboarding.service';
+
+/** Statuses that revoke every token the user already holds */
+const SESSION_REVOKING_STATUSES: UserStatus[] = [UserStatus.SUSPENDED, UserStatus.DEACTIVATED];
+
+/**
+ * Status transitions allowed through PATCH /users/:id/status.
+ * PENDING users become ACTIVE by accepting their invitation.
+ */
+const USER_STATUS_TRANSITIONS: Record<UserStatus, UserStatus[]> = {
+  [UserStatus.PENDING]: [UserStatus.DEACTIVATED],
+  [UserStatus.ACTIVE]: [UserStatus.SUSPENDED, UserStatus.DEACTIVATED],
+  [UserStatus.SUSPENDED]: [UserStatus.ACTIVE, UserStatus.DEACTIVATED],
+  [UserStatus.DEACTIVATED]: [UserStatus.ACTIVE],
+};
 
 @Injectable()
 export class UserService {
@@ -30,6 +66,11 @@ export class UserService {
     private readonly roleModel: typeof Role,
     private readonly permissionsService: PermissionsService,
     private readonly authService: AuthService,
+    private readonly invitationService: InvitationService,
+    private readonly userOffboardingService: UserOffboardingService,
+    private readonly auditTrailService: AuditTrailService,
+    private readonly tokenRevocationService: TokenRevocationService,
+    private readonly configService: ConfigService,
     @Inject(getConnectionToken())
     private readonly sequelize: Sequelize
   ) {}
@@ -41,7 +82,7 @@ export class UserService {
    * @returns The corresponding UserRole enum value
    * @throws Error when an unhandled role is provided
    */
-  private mapVendorRoleToUserRole(role: VendorRole): UserRole {
+  mapVendorRoleToUserRole(role: VendorRole): UserRole {
     switch (role) {
       case VendorRole.VENDOR_EMPLOYEE:
         return UserRole.VENDOR_EMPLOYEE;
@@ -115,6 +156,12 @@ export class UserService {
     permissions: string[];
     auth0id: string;
     status: string;
+    jobTitle: string | null;
+    avatarUrl: string | null;
+    timezone: string | null;
+    phoneNumber: string | null;
+    locale: string | null;
+    pendingEmail: string | null;
   }> {
     try {
       // Single optimized query with all required associations
@@ -145,7 +192,21 @@ export class UserService {
             required: false,
           },
         ],
-        attributes: ['id', 'email', 'first_name', 'last_name', 'company_id', 'role_id', 'status'],
+        attributes: [
+          'id',
+          'email',
+          'first_name',
+          'last_name',
+          'company_id',
+          'role_id',
+          'status',
+          'job_title',
+          'avatar_url',
+          'timezone',
+          'phone_number',
+          'locale',
+          'pending_email',
+        ],
       });
 
       if (!user) {
@@ -186,6 +247,12 @@ export class UserService {
         permissions: userPermissions.permission_names,
         auth0id: auth0UserId,
         status: user.status,
+        jobTitle: user.job_title ?? null,
+        avatarUrl: user.avatar_url ?? null,
+        timezone: user.timezone ?? null,
+        phoneNumber: user.phone_number ?? null,
+        locale: user.locale ?? null,
+        pendingEmail: user.pending_email ?? null,
       };
     } catch (error) {
       if (error instanceof NotFoundException) {
@@ -227,6 +294,9 @@ export class UserService {
       code: string;
     } | null;
     status: string;
+    jobTitle: string | null;
+    avatarUrl: string | null;
+    timezone: string | null;
   }> {
     try {
       // Single optimized query with all required associations
@@ -258,7 +328,18 @@ export class UserService {
             required: false,
           },
         ],
-        attributes: ['id', 'email', 'first_name', 'last_name', 'company_id', 'role_id', 'status'],
+        attributes: [
+          'id',
+          'email',
+          'first_name',
+          'last_name',
+          'company_id',
+          'role_id',
+          'status',
+          'job_title',
+          'avatar_url',
+          'timezone',
+        ],
       });
 
       if (!user) {
@@ -291,6 +372,9 @@ export class UserService {
             }
           : null,
         status: user.status,
+        jobTitle: user.job_title ?? null,
+        avatarUrl: user.avatar_url ?? null,
+        timezone: user.timezone ?? null,
       };
     } catch (error) {
       if (error instanceof NotFoundException) {
@@ -373,10 +457,10 @@ export class UserService {
         });
       }
 
-      // Create Auth0 user FIRST to get the auth0_user_id
+      // Create the identity provider user FIRST to get the auth0_user_id
       let auth0User;
       try {
-        auth0User = await this.authService.createAuth0User({
+        auth0User = await this.authService.createIdentityUser({
           email: inviteDto.email,
           name: `${inviteDto.first_name} ${inviteDto.last_name}`,
           user_metadata: {
@@ -396,25 +480,27 @@ export class UserService {
       // Get the role ID for the specified role
       const roleId = await this.getRoleIdByEnum(inviteDto.role);
 
-      // Now create local user with auth0_user_id in a transaction
-      const newUser = await this.sequelize.transaction(async (transaction) => {
-        return await this.userModel.create(
+      // Now create local user with auth0_user_id and its invitation in a transaction
+      const { newUser, token } = await this.sequelize.transaction(async (transaction) => {
+        const createdUser = await this.userModel.create(
           {
-            auth0_user_id: auth0User.user_id,
+            auth0_user_id: auth0User.userId,
             email: inviteDto.email,
             first_name: inviteDto.first_name,
             last_name: inviteDto.last_name,
             role_id: roleId,
-            is_lawyer: inviteDto.is_lawyer,
             company_id: acmeCompany.id,
             status: UserStatus.PENDING,
           },
           { transaction }
         );
+        const issued = await this.invitationService.create(createdUser, inviterId, transaction);
+
+        return { newUser: createdUser, token: issued.token };
       });
 
       // Send invitation email via Auth0
-      await this.authService.sendPasswordResetEmail(inviteDto.email);
+      await this.invitationService.send(inviteDto.email, token);
 
       this.logger.log(`Acme user invited successfully: ${inviteDto.email}`);
 
@@ -459,10 +545,10 @@ export class UserService {
         });
       }
 
-      // Create Auth0 user FIRST to get the auth0_user_id
+      // Create the identity provider user FIRST to get the auth0_user_id
       let auth0User;
       try {
-        auth0User = await this.authService.createAuth0User({
+        auth0User = await this.authService.createIdentityUser({
           email: inviteDto.email,
           name: `${inviteDto.first_name} ${inviteDto.last_name}`,
           user_metadata: {
@@ -483,25 +569,27 @@ export class UserService {
       const userRole = this.mapVendorRoleToUserRole(inviteDto.role);
       const roleId = await this.getRoleIdByEnum(userRole);
 
-      // Now create local user with auth0_user_id in a transaction
-      const newUser = await this.sequelize.transaction(async (transaction) => {
-        return await this.userModel.create(
+      // Now create local user with auth0_user_id and its invitation in a transaction
+      const { newUser, token } = await this.sequelize.transaction(async (transaction) => {
+        const createdUser = await this.userModel.create(
           {
-            auth0_user_id: auth0User.user_id,
+            auth0_user_id: auth0User.userId,
             email: inviteDto.email,
             first_name: inviteDto.first_name,
             last_name: inviteDto.last_name,
             role_id: roleId,
-            is_lawyer: inviteDto.is_lawyer,
             company_id: companyId, // CRITICAL: Use inviter's company
             status: UserStatus.PENDING,
           },
           { transaction }
         );
+        const issued = await this.invitationService.create(createdUser, inviter.id, transaction);
+
+        return { newUser: createdUser, token: issued.token };
       });
 
       // Send invitation email via Auth0
-      await this.authService.sendPasswordResetEmail(inviteDto.email);
+      await this.invitationService.send(inviteDto.email, token);
 
       this.logger.log(
         `Vendor user invited successfully: ${inviteDto.email} to company ${companyId}`
@@ -531,17 +619,386 @@ export class UserService {
     });
   }
 
-  async updateStatus(userId: string, status: UserStatus): Promise<User> {
+  /**
+   * Suspends, reactivates or deactivates a user and records the change with its reason.
+   * Deactivation offboards the user: removes them from their teams, hands the teams
+   * they own to newTeamOwnerId and revokes their direct permission grants.
+   * Suspension and deactivation also revoke every token the user already holds.
+   */
+  async updateStatus(
+    userId: string,
+    updateDto: UpdateUserStatusDto,
+    currentUser: User
+  ): Promise<User> {
+    const { status, reason, newTeamOwnerId } = updateDto;
+
+    const user = await this.userModel.findByPk(userId);
+    const isAcmeAdmin =
+      currentUser.hasRoleEnum(UserRole.SUPER_ADMIN) || currentUser.hasRoleEnum(UserRole.ACME_ADMIN);
+
+    // Users of other companies are reported as not found
+    if (!user || (!isAcmeAdmin && user.company_id !== currentUser.company_id)) {
+      throw new NotFoundException({
+        success: false,
+        code: 'USER_404',
+        message: 'User not found',
+      });
+    }
+
+    if (user.id === currentUser.id) {
+      throw new ForbiddenException({
+        success: false,
+        code: 'USER_STATUS_403',
+        message: 'You cannot change your own status',
+      });
+    }
+
+    const previousStatus = user.status;
+    if (!USER_STATUS_TRANSITIONS[previousStatus].includes(status)) {
+      throw new UnprocessableEntityException({
+        success: false,
+        code: 'USER_STATUS_INVALID_TRANSITION',
+        message: `Cannot change user status from ${previousStatus} to ${status}`,
+      });
+    }
+
+    if (status === UserStatus.DEACTIVATED && newTeamOwnerId) {
+      const newOwner = await this.userModel.findByPk(newTeamOwnerId);
+      if (!newOwner || newOwner.status !== UserStatus.ACTIVE) {
+        throw new BadRequestException({
+          success: false,
+          code: 'USER_STATUS_INVALID_TEAM_OWNER',
+          message: 'The new team owner must be an active user',
+        });
+      }
+    }
+
+    await this.sequelize.transaction(async (transaction) => {
+      await user.update({ status }, { transaction });
+
+      const sessionsRevoked = SESSION_REVOKING_STATUSES.includes(status);
+      let offboarding: UserOffboardingResult | undefined;
+      if (status === UserStatus.DEACTIVATED) {
+        // Revokes the sessions as well
+        offboarding = await this.userOffboardingService.offboard(
+          userId,
+          { newTeamOwnerId, performedBy: currentUser.id, reason: 'User deactivated' },
+          transaction
+        );
+      } else if (sessionsRevoked) {
+        await this.tokenRevocationService.revokeAllForUser(userId, transaction);
+      }
+
+      await this.auditTrailService.append(
+        {
+          tenantId: user.company_id,
+          source: AuditSource.USER,
+          action: 'USER_STATUS_CHANGED',
+          entityId: userId,
+          performedBy: currentUser.id,
+          payload: { previousStatus, newStatus: status, reason, offboarding, sessionsRevoked },
+        },
+        transaction
+      );
+    });
+
+    await this.permissionsService.invalidateCache({
+      user_id: userId,
+      company_id: user.company_id,
+      reason: `User status changed to ${status}`,
+    });
+
+    this.logger.log(`User ${userId} status changed from ${previousStatus} to ${status}`);
+
+    return user;
+  }
+
+  /**
+   * Signs a user out everywhere: every access token issued to them so far is rejected.
+   * Users may always revoke their own sessions; other users must be in the same
+   * company unless the caller is an Acme admin.
+   */
+  async revokeSessions(
+    userId: string,
+    revokeDto: RevokeSessionsDto,
+    currentUser: User
+  ): Promise<{ userId: string; tokensValidAfter: Date }> {
+    const isSelf = userId === currentUser.id;
+    const user = isSelf ? currentUser : await this.userModel.findByPk(userId);
+    const isAcmeAdmin =
+      currentUser.hasRoleEnum(UserRole.SUPER_ADMIN) || currentUser.hasRoleEnum(UserRole.ACME_ADMIN);
+
+    // Users of other companies are reported as not found
+    if (!user || (!isSelf && !isAcmeAdmin && user.company_id !== currentUser.company_id)) {
+      throw new NotFoundException({
+        success: false,
+        code: 'USER_404',
+        message: 'User not found',
+      });
+    }
+
+    const tokensValidAfter = await this.sequelize.transaction(async (transaction) => {
+      const cutoff = await this.tokenRevocationService.revokeAllForUser(userId, transaction);
+
+      await this.auditTrailService.append(
+        {
+          tenantId: user.company_id,
+          source: AuditSource.USER,
+          action: 'USER_SESSIONS_REVOKED',
+          entityId: userId,
+          performedBy: currentUser.id,
+          payload: { reason: revokeDto.reason, tokensValidAfter: cutoff.toISOString() },
+        },
+        transaction
+      );
+
+      return cutoff;
+    });
+
+    this.logger.log(`Sessions of user ${userId} revoked by ${currentUser.id}`);
+
+    return { userId, tokensValidAfter };
+  }
+
+  /**
+   * Updates the caller's own profile. Fields reserved to company admins are rejected
+   * unless the caller is one. A new email is not applied: it is stored as pending and
+   * a verification link is sent to it.
+   */
+  async updateOwnProfile(
+    currentUser: User,
+    updateDto: UpdateOwnProfileDto
+  ): ReturnType<UserService['getOwnProfile']> {
+    const { email, ...profileDto } = updateDto;
+    const canEditAdminFields = COMPANY_ADMIN_ROLES.some((role) => currentUser.hasRoleEnum(role));
+    const changes = this.collectProfileChanges(currentUser, profileDto, canEditAdminFields);
+    let verificationUrl: string | undefined;
+
+    const pendingEmail = email && email !== currentUser.email ? email : undefined;
+    const verificationToken = pendingEmail ? randomBytes(32).toString('base64url') : undefined;
+
+    if (pendingEmail && verificationToken) {
+      await this.assertEmailAvailable(pendingEmail, currentUser.id);
+      verificationUrl = this.buildEmailVerificationUrl(verificationToken);
+
+      const ttlHours = Number(this.configService.get<number>('EMAIL_VERIFICATION_TTL_HOURS', 24));
+      Object.assign(changes, {
+        pending_email: pendingEmail,
+        email_verification_token_hash: UserService.hashToken(verificationToken),
+        email_verification_expires_at: new Date(Date.now() + ttlHours * 60 * 60 * 1000),
+      });
+    }
+
+    if (Object.keys(changes).length > 0) {
+      await this.sequelize.transaction(async (transaction) => {
+        await currentUser.update(changes, { transaction });
+
+        await this.auditTrailService.append(
+          {
+            tenantId: currentUser.company_id,
+            source: AuditSource.USER,
+            action: 'USER_PROFILE_UPDATED',
+            entityId: currentUser.id,
+            performedBy: currentUser.id,
+            payload: {
+              changedFields: this.toChangedFields(changes),
+              emailChangeRequested: !!pendingEmail,
+            },
+          },
+          transaction
+        );
+
+        // Rolls the change back if the link cannot be delivered
+        if (pendingEmail && verificationUrl) {
+          await this.authService.sendEmailVerification(pendingEmail, verificationUrl);
+        }
+      });
+    }
+
+    return this.getOwnProfile(currentUser.auth0_user_id);
+  }
+
+  /**
+   * Updates another user's profile on behalf of a company admin. The user must be in
+   * the admin's company unless the caller is an Acme admin.
+   */
+  async updateUserProfile(
+    userId: string,
+    updateDto: UpdateUserProfileDto,
+    currentUser: User
+  ): ReturnType<UserService['getOtherUserProfile']> {
     const user = await this.userModel.findByPk(userId);
-    if (!user) {
-      throw new NotFoundException('User not found');
+    const isAcmeAdmin =
+      currentUser.hasRoleEnum(UserRole.SUPER_ADMIN) || currentUser.hasRoleEnum(UserRole.ACME_ADMIN);
+
+    // Users of other companies are reported as not found
+    if (!user || (!isAcmeAdmin && user.company_id !== currentUser.company_id)) {
+      throw new NotFoundException({
+        success: false,
+        code: 'USER_404',
+        message: 'User not found',
+      });
+    }
+
+    const changes = this.collectProfileChanges(user, updateDto, true);
+
+    if (Object.keys(changes).length > 0) {
+      await this.sequelize.transaction(async (transaction) => {
+        await user.update(changes, { transaction });
+
+        await this.auditTrailService.append(
+          {
+            tenantId: user.company_id,
+            source: AuditSource.USER,
+            action: 'USER_PROFILE_UPDATED',
+            entityId: user.id,
+            performedBy: currentUser.id,
+            payload: { changedFields: this.toChangedFields(changes) },
+          },
+          transaction
+        );
+      });
+    }
+
+    return this.getOtherUserProfile(user.id, user.company_id);
+  }
+
+  /**
+   * Applies the caller's pending email once they present the token from the
+   * verification link, and moves the identity provider login to the new address.
+   */
+  async verifyEmail(token: string, currentUser: User): ReturnType<UserService['getOwnProfile']> {
+    const user = await this.userModel.findByPk(currentUser.id);
+
+    if (
+      !user?.pending_email ||
+      !user.email_verification_token_hash ||
+      user.email_verification_token_hash !== UserService.hashToken(token)
+    ) {
+      throw new BadRequestException({
+        success: false,
+        code: ERROR_CODES.EMAIL_VERIFICATION_INVALID,
+        message: 'Invalid email verification token',
+      });
+    }
+
+    if (!user.email_verification_expires_at || user.email_verification_expires_at <= new Date()) {
+      throw new GoneException({
+        success: false,
+        code: ERROR_CODES.EMAIL_VERIFICATION_EXPIRED,
+        message: 'Email verification token has expired',
+      });
     }
 
-    const [_affectedCount, updatedUsers] = await this.userModel.update(
-      { status },
-      { where: { id: userId }, returning: true }
-    );
+    const newEmail = user.pending_email;
+    await this.assertEmailAvailable(newEmail, user.id);
+
+    await this.sequelize.transaction(async (transaction) => {
+      await user.update(
+        {
+          email: newEmail,
+          pending_email: null,
+          email_verification_token_hash: null,
+          email_verification_expires_at: null,
+        },
+        { transaction }
+      );
+
+      await this.auditTrailService.append(
+        {
+          tenantId: user.company_id,
+          source: AuditSource.USER,
+          action: 'USER_EMAIL_CHANGED',
+          entityId: user.id,
+          performedBy: currentUser.id,
+        },
+        transaction
+      );
+
+      // Last, so a rejection by the identity provider rolls everything back and no
+      // later failure leaves the login changed without the user
+      await this.authService.updateIdentityEmail(user.auth0_user_id, newEmail);
+    });
+
+    this.logger.log(`User ${user.id} changed their email address`);
+
+    return this.getOwnProfile(user.auth0_user_id);
+  }
+
+  private static hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+
+  /**
+   * Maps the profile DTO to the User columns that actually change, enforcing
+   * PROFILE_FIELD_RULES
+   */
+  private collectProfileChanges(
+    user: User,
+    updateDto: UpdateUserProfileDto,
+    canEditAdminFields: boolean
+  ): Record<string, unknown> {
+    const changes: Record<string, unknown> = {};
+
+    for (const field of Object.keys(PROFILE_FIELD_RULES) as ProfileField[]) {
+      const value = updateDto[field];
+      if (value === undefined) {
+        continue;
+      }
+
+      const { column, editor } = PROFILE_FIELD_RULES[field];
+      if (editor === ProfileFieldEditor.COMPANY_ADMIN && !canEditAdminFields) {
+        throw new ForbiddenException({
+          success: false,
+          code: ERROR_CODES.PROFILE_FIELD_NOT_EDITABLE,
+          message: `Only a company admin can change ${field}`,
+        });
+      }
+
+      if ((user[column] ?? null) !== value) {
+        changes[column] = value;
+      }
+    }
+
+    return changes;
+  }
+
+  /** Audited field names; the verification token hash and expiry are left out */
+  private toChangedFields(changes: Record<string, unknown>): string[] {
+    return Object.keys(changes).filter((column) => !column.startsWith('email_verification_'));
+  }
+
+  private async assertEmailAvailable(email: string, userId: string): Promise<void> {
+    const existing = await this.userModel.findOne({
+      where: { email, id: { [Op.ne]: userId } },
+    });
+
+    if (existing) {
+      throw new ConflictException({
+        success: false,
+        code: ERROR_CODES.EMAIL_ALREADY_IN_USE,
+        message: 'Email is already in use',
+      });
+    }
+  }
+
+  /**
+   * Link of the email change verification page. Email changes are refused when it
+   * cannot be built, since the change could never be verified.
+   */
+  private buildEmailVerificationUrl(token: string): string {
+    const baseUrl = this.configService.get<string>('EMAIL_VERIFICATION_URL');
+
+    if (!baseUrl) {
+      throw new ServiceUnavailableException({
+        success: false,
+        code: ERROR_CODES.EMAIL_VERIFICATION_UNAVAILABLE,
+        message: 'Email changes are not available',
+      });
+    }
 
-    return updatedUsers[0];
+    const url = new URL(baseUrl);
+    url.searchParams.set('token', token);
+    return url.toString();
   }
 }
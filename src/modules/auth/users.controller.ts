@@ -1,30 +1,55 @@
 import {
   Body,
   Controller,
+  Delete,
   ForbiddenException,
   Get,
   HttpCode,
+  HttpException,
   HttpStatus,
   InternalServerErrorException,
   NotFoundException,
   Param,
+  ParseUUIDPipe,
   Patch,
   Post,
+  Query,
+  UploadedFile,
   UseGuards,
+  UseInterceptors,
 } from '@nestjs/common';
-import { ApiBearerAuth, ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { FileInterceptor } from '@nestjs/platform-express';
+import {
+  ApiBearerAuth,
+  ApiBody,
+  ApiConsumes,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
 import { CurrentUser } from '../../common/decorators/current-user.decorator';
 import { ResponseMessage } from '../../common/decorators/response-message.decorator';
 import { ApiResponseDto } from '../../common/dto/api-response.dto';
+import { PaginatedResponseDto } from '../../common/dto/paginated-response.dto';
+import { PaginationDto } from '../../common/dto/pagination.dto';
+import { AllowPendingUser } from '../../core/decorators/allow-pending-user.decorator';
 import { RequirePermissions } from '../../core/decorators/require-permissions.decorator';
 import { JwtAuthGuard } from '../../core/guards/jwt-auth.guard';
 import { PermissionsGuard } from '../../core/guards/permissions.guard';
-import { UpdateRoleDto } from '../role/dto';
+import { RoleHistoryResponseDto, UpdateRoleDto } from '../role/dto';
 import { RoleService } from '../role/role.service';
 import { AcmeInviteDto } from './dto/acme-invite.dto';
+import { RevokeSessionsDto } from './dto/revoke-sessions.dto';
+import { UpdateOwnProfileDto, UpdateUserProfileDto } from './dto/update-user-profile.dto';
+import { UpdateUserStatusDto } from './dto/update-user-status.dto';
+import { UserImportJobResponseDto, UserImportReportDto } from './dto/user-import.dto';
+import { EraseUserDto, UserDataExportDto, UserErasureResultDto } from './dto/user-privacy.dto';
 import { OtherUserProfileDto, OwnUserProfileDto } from './dto/user-profile.dto';
 import { VendorInviteDto } from './dto/vendor-invite.dto';
+import { VerifyEmailDto } from './dto/verify-email.dto';
 import { User, UserRole } from './entities/user.entity';
+import { USER_IMPORT_MAX_FILE_SIZE, UserImportService } from './user-import.service';
+import { UserPrivacyService } from './user-privacy.service';
 import { UserService } from './user.service';
 
 @ApiTags('users')
@@ -34,10 +59,13 @@ import { UserService } from './user.service';
 export class UsersController {
   constructor(
     private readonly roleService: RoleService,
-    private readonly userService: UserService
+    private readonly userService: UserService,
+    private readonly userImportService: UserImportService,
+    private readonly userPrivacyService: UserPrivacyService
   ) {}
 
   @Get('me')
+  @AllowPendingUser()
   @ApiOperation({ summary: 'Get authenticated user profile' })
   @ApiResponse({
     status: 200,
@@ -81,6 +109,222 @@ export class UsersController {
     }
   }
 
+  @Patch('me')
+  @AllowPendingUser()
+  @ApiOperation({
+    summary: 'Update authenticated user profile',
+    description:
+      "Updates the caller's profile. jobTitle can only be set by company admins. " +
+      'A new email is kept as pending until it is confirmed through POST /users/me/email/verify.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Profile updated successfully',
+    type: OwnUserProfileDto,
+  })
+  @ApiResponse({ status: 400, description: 'Bad request - Invalid data', type: ApiResponseDto })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Field can only be changed by a company admin',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Conflict - Email already in use',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({
+    status: 503,
+    description: 'Service unavailable - The email verification link cannot be delivered',
+    type: ApiResponseDto,
+  })
+  @ResponseMessage('Profile updated successfully', 'USER_PROFILE_UPDATED')
+  async updateProfile(
+    @Body() updateDto: UpdateOwnProfileDto,
+    @CurrentUser() currentUser: User
+  ): Promise<OwnUserProfileDto> {
+    return this.userService.updateOwnProfile(currentUser, updateDto);
+  }
+
+  @Post('me/email/verify')
+  @AllowPendingUser()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Confirm an email change',
+    description:
+      'Applies the pending email with the token from the verification link and updates ' +
+      'the login email in the identity provider.',
+  })
+  @ApiResponse({ status: 200, description: 'Email changed successfully', type: OwnUserProfileDto })
+  @ApiResponse({ status: 400, description: 'Invalid verification token', type: ApiResponseDto })
+  @ApiResponse({
+    status: 409,
+    description: 'Conflict - Email already in use',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({ status: 410, description: 'Verification token has expired', type: ApiResponseDto })
+  @ResponseMessage('Email changed successfully', 'USER_EMAIL_CHANGED')
+  async verifyEmail(
+    @Body() verifyDto: VerifyEmailDto,
+    @CurrentUser() currentUser: User
+  ): Promise<OwnUserProfileDto> {
+    return this.userService.verifyEmail(verifyDto.token, currentUser);
+  }
+
+  @Get('me/export')
+  @AllowPendingUser()
+  @ApiOperation({
+    summary: 'Export my data',
+    description:
+      'Returns everything stored about the authenticated user as a JSON archive: profile, ' +
+      'company and team memberships, permissions, lawyer credentials, invitations, ' +
+      'impersonation sessions and audit records. Chat conversations are not stored.',
+  })
+  @ApiResponse({ status: 200, description: 'Data exported successfully', type: UserDataExportDto })
+  @ApiResponse({ status: 401, description: 'Unauthorized', type: ApiResponseDto })
+  @ResponseMessage('Data exported successfully', 'USER_DATA_EXPORTED')
+  async exportOwnData(@CurrentUser() currentUser: User): Promise<UserDataExportDto> {
+    return this.userPrivacyService.exportUserData(currentUser);
+  }
+
+  @Delete('me')
+  @AllowPendingUser()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Erase my account',
+    description:
+      'Anonymizes the personal data of the authenticated user, deletes their login and ' +
+      'signs them out everywhere. Owners and primary contacts of a company must hand ' +
+      'that role over first.',
+  })
+  @ApiResponse({ status: 200, description: 'Account erased', type: UserErasureResultDto })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - Email confirmation does not match or a new team owner is required',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Conflict - User owns or is the primary contact of a company',
+    type: ApiResponseDto,
+  })
+  @ResponseMessage('Account erased successfully', 'USER_ERASED')
+  async eraseOwnAccount(
+    @Body() eraseDto: EraseUserDto,
+    @CurrentUser() currentUser: User
+  ): Promise<UserErasureResultDto> {
+    return this.userPrivacyService.eraseUser(currentUser.id, eraseDto, currentUser);
+  }
+
+  @Post('import/dry-run')
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @RequirePermissions('users:invite:vendor')
+  @UseInterceptors(FileInterceptor('file', { limits: { fileSize: USER_IMPORT_MAX_FILE_SIZE } }))
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Validate a bulk user import file',
+    description:
+      'Checks every row of a CSV/XLSX file (columns: email, first_name, last_name, role and ' +
+      'optionally teams, a ";"-separated list of team names or IDs) and returns a per-row ' +
+      'report. Nothing is created.',
+  })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['file'],
+      properties: { file: { type: 'string', format: 'binary' } },
+    },
+  })
+  @ApiResponse({ status: 200, description: 'Per-row report', type: UserImportReportDto })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - Missing or unreadable file, or too many rows',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Insufficient permissions',
+    type: ApiResponseDto,
+  })
+  @ResponseMessage('Import file validated', 'USER_IMPORT_VALIDATED')
+  async previewImport(
+    @UploadedFile() file: Express.Multer.File | undefined,
+    @CurrentUser() currentUser: User
+  ): Promise<UserImportReportDto> {
+    return this.userImportService.preview(file, currentUser);
+  }
+
+  @Post('import')
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @RequirePermissions('users:invite:vendor')
+  @UseInterceptors(FileInterceptor('file', { limits: { fileSize: USER_IMPORT_MAX_FILE_SIZE } }))
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({
+    summary: 'Bulk invite users to your vendor company',
+    description:
+      'Validates the file like the dry run and, when every row is valid, starts a job that ' +
+      'invites the users and adds them to their teams. Follow it with GET /users/import/jobs/:id.',
+  })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['file'],
+      properties: { file: { type: 'string', format: 'binary' } },
+    },
+  })
+  @ApiResponse({ status: 202, description: 'Import job started', type: UserImportJobResponseDto })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - Missing or unreadable file, or too many rows',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Insufficient permissions',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({
+    status: 422,
+    description: 'Unprocessable Entity - Invalid rows (the report is returned in data)',
+    type: ApiResponseDto,
+  })
+  @ResponseMessage('User import started', 'USER_IMPORT_STARTED')
+  async startImport(
+    @UploadedFile() file: Express.Multer.File | undefined,
+    @CurrentUser() currentUser: User
+  ): Promise<UserImportJobResponseDto> {
+    return this.userImportService.startImport(file, currentUser);
+  }
+
+  @Get('import/jobs')
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @RequirePermissions('users:invite:vendor')
+  @ApiOperation({ summary: 'List the bulk user imports of your company' })
+  @ApiResponse({ status: 200, description: 'Import jobs, newest first' })
+  @ResponseMessage('Import jobs retrieved successfully', 'USER_IMPORT_JOBS_RETRIEVED')
+  async findImportJobs(
+    @Query() query: PaginationDto,
+    @CurrentUser() currentUser: User
+  ): Promise<PaginatedResponseDto<UserImportJobResponseDto>> {
+    return this.userImportService.findJobs(query, currentUser);
+  }
+
+  @Get('import/jobs/:jobId')
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @RequirePermissions('users:invite:vendor')
+  @ApiOperation({ summary: 'Get a bulk user import with the outcome of each row' })
+  @ApiResponse({ status: 200, description: 'Import job', type: UserImportJobResponseDto })
+  @ApiResponse({ status: 404, description: 'Import job not found', type: ApiResponseDto })
+  @ResponseMessage('Import job retrieved successfully', 'USER_IMPORT_JOB_RETRIEVED')
+  async findImportJob(
+    @Param('jobId', ParseUUIDPipe) jobId: string,
+    @CurrentUser() currentUser: User
+  ): Promise<UserImportJobResponseDto> {
+    return this.userImportService.findJob(jobId, currentUser);
+  }
+
   @Get(':id')
   @ApiOperation({ summary: 'Get user profile by ID (same company only)' })
   @ApiResponse({
@@ -207,12 +451,65 @@ export class UsersController {
     }
   }
 
+  @Get(':id/role-history')
+  @ApiOperation({
+    summary: 'Get user role history',
+    description:
+      'Role changes of the user, newest first, with the actor and reason of each change, ' +
+      'plus the scheduled and active effective-dated role assignments.',
+  })
+  @ApiResponse({ status: 200, description: 'Role history retrieved', type: RoleHistoryResponseDto })
+  @ApiResponse({ status: 403, description: 'Forbidden', type: ApiResponseDto })
+  @ApiResponse({ status: 404, description: 'User not found', type: ApiResponseDto })
+  @ResponseMessage('User role history retrieved successfully', 'ROLE_HISTORY_SUCCESS')
+  async getUserRoleHistory(
+    @Param('id') userId: string,
+    @CurrentUser() currentUser: User
+  ): Promise<RoleHistoryResponseDto> {
+    const canView =
+      currentUser.id === userId ||
+      currentUser.hasRoleEnum(UserRole.VENDOR_ADMIN) ||
+      currentUser.hasRoleEnum(UserRole.VENDOR_MANAGER);
+
+    if (!canView) {
+      throw new ForbiddenException({
+        success: false,
+        code: 'ROLE_403',
+        message: 'Forbidden',
+      });
+    }
+
+    const user = await this.roleService.getUserRole(userId);
+
+    // For different company users, also return 404 for security
+    if (!user || user.company_id !== currentUser.company_id) {
+      throw new NotFoundException({
+        success: false,
+        code: 'ROLE_404',
+        message: 'User not found',
+      });
+    }
+
+    return this.roleService.getRoleHistory(user);
+  }
+
   @Patch(':id/role')
-  @ApiOperation({ summary: 'Update user role' })
+  @ApiOperation({
+    summary: 'Update user role',
+    description:
+      'Changes the role right away, or schedules it when effective_from is in the future or ' +
+      'effective_until is set. A role with effective_until is restored to the previous role ' +
+      'when the period ends.',
+  })
   @ApiResponse({ status: 200, description: 'User role updated successfully', type: ApiResponseDto })
   @ApiResponse({ status: 400, description: 'Bad request', type: ApiResponseDto })
   @ApiResponse({ status: 403, description: 'Forbidden', type: ApiResponseDto })
   @ApiResponse({ status: 404, description: 'User not found', type: ApiResponseDto })
+  @ApiResponse({
+    status: 409,
+    description: 'Overlapping role assignment',
+    type: ApiResponseDto,
+  })
   @ResponseMessage('User role updated successfully', 'ROLE_UPDATE_SUCCESS')
   async updateUserRole(
     @Param('id') userId: string,
@@ -275,7 +572,13 @@ export class UsersController {
         });
       }
 
-      await this.roleService.updateUserRole(userId, role);
+      const roleId = await this.roleService.getRoleIdByCode(role);
+      const assignment = await this.roleService.updateUserRole(
+        userId,
+        roleId,
+        currentUser.id,
+        this.roleService.toRoleChangeOptions(updateRoleDto)
+      );
 
       // Return updated user info
       const updatedUser = await this.roleService.getUserRole(userId);
@@ -297,9 +600,10 @@ export class UsersController {
           first_name: updatedUser.first_name,
           last_name: updatedUser.last_name,
         },
+        role_assignment: assignment ? this.roleService.toRoleAssignmentDto(assignment) : null,
       };
     } catch (error) {
-      if (error instanceof NotFoundException || error instanceof ForbiddenException) {
+      if (error instanceof HttpException) {
         throw error;
       }
       console.error('Error updating user role:', error);
@@ -311,6 +615,137 @@ export class UsersController {
     }
   }
 
+  @Patch(':id/status')
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @RequirePermissions('users:update:status')
+  @ApiOperation({
+    summary: 'Update user status',
+    description:
+      'Suspends, reactivates or deactivates a user. Deactivation offboards the user: ' +
+      'removes them from their teams, hands the teams they own to newTeamOwnerId and ' +
+      'revokes their direct permission grants.',
+  })
+  @ApiResponse({ status: 200, description: 'User status updated successfully' })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - Missing team owner or a LEGAL team would lose its lawyer',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({ status: 403, description: 'Forbidden', type: ApiResponseDto })
+  @ApiResponse({ status: 404, description: 'User not found', type: ApiResponseDto })
+  @ApiResponse({ status: 422, description: 'Invalid status transition', type: ApiResponseDto })
+  @ResponseMessage('User status updated successfully', 'USER_STATUS_UPDATED')
+  async updateUserStatus(
+    @Param('id', ParseUUIDPipe) userId: string,
+    @Body() updateStatusDto: UpdateUserStatusDto,
+    @CurrentUser() currentUser: User
+  ) {
+    const user = await this.userService.updateStatus(userId, updateStatusDto, currentUser);
+
+    return {
+      id: user.id,
+      email: user.email,
+      first_name: user.first_name,
+      last_name: user.last_name,
+      status: user.status,
+    };
+  }
+
+  @Patch(':id/profile')
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @RequirePermissions('users:update:profile')
+  @ApiOperation({
+    summary: 'Update a user profile',
+    description:
+      'Lets a company admin update the profile of a user in their company, including ' +
+      'admin-only fields such as jobTitle. Email changes go through PATCH /users/me.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Profile updated successfully',
+    type: OtherUserProfileDto,
+  })
+  @ApiResponse({ status: 400, description: 'Bad request - Invalid data', type: ApiResponseDto })
+  @ApiResponse({ status: 403, description: 'Forbidden', type: ApiResponseDto })
+  @ApiResponse({ status: 404, description: 'User not found', type: ApiResponseDto })
+  @ResponseMessage('Profile updated successfully', 'USER_PROFILE_UPDATED')
+  async updateUserProfile(
+    @Param('id', ParseUUIDPipe) userId: string,
+    @Body() updateDto: UpdateUserProfileDto,
+    @CurrentUser() currentUser: User
+  ): Promise<OtherUserProfileDto> {
+    return this.userService.updateUserProfile(userId, updateDto, currentUser);
+  }
+
+  @Post('me/sessions/revoke')
+  @AllowPendingUser()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Sign out everywhere',
+    description:
+      'Revokes every access token issued to the authenticated user so far, ' +
+      'including the one used for this request.',
+  })
+  @ApiResponse({ status: 200, description: 'Sessions revoked successfully' })
+  @ApiResponse({ status: 401, description: 'Unauthorized', type: ApiResponseDto })
+  @ResponseMessage('Sessions revoked successfully', 'USER_SESSIONS_REVOKED')
+  async revokeOwnSessions(@Body() revokeDto: RevokeSessionsDto, @CurrentUser() currentUser: User) {
+    return this.userService.revokeSessions(currentUser.id, revokeDto, currentUser);
+  }
+
+  @Post(':id/sessions/revoke')
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @RequirePermissions('users:revoke:sessions')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Revoke all sessions of a user',
+    description: 'Revokes every access token issued to the user so far.',
+  })
+  @ApiResponse({ status: 200, description: 'Sessions revoked successfully' })
+  @ApiResponse({ status: 403, description: 'Forbidden', type: ApiResponseDto })
+  @ApiResponse({ status: 404, description: 'User not found', type: ApiResponseDto })
+  @ResponseMessage('Sessions revoked successfully', 'USER_SESSIONS_REVOKED')
+  async revokeUserSessions(
+    @Param('id', ParseUUIDPipe) userId: string,
+    @Body() revokeDto: RevokeSessionsDto,
+    @CurrentUser() currentUser: User
+  ) {
+    return this.userService.revokeSessions(userId, revokeDto, currentUser);
+  }
+
+  @Delete(':id')
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @RequirePermissions('users:erase')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Erase a user',
+    description:
+      'Handles a right-to-be-forgotten request: anonymizes the personal data of the user, ' +
+      'offboards them like a deactivation and deletes their login. References to the user ' +
+      'and the audit trail are kept.',
+  })
+  @ApiResponse({ status: 200, description: 'User erased', type: UserErasureResultDto })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - Email confirmation does not match or a new team owner is required',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({ status: 403, description: 'Forbidden', type: ApiResponseDto })
+  @ApiResponse({ status: 404, description: 'User not found', type: ApiResponseDto })
+  @ApiResponse({
+    status: 409,
+    description: 'Conflict - Already erased, or owns or is the primary contact of a company',
+    type: ApiResponseDto,
+  })
+  @ResponseMessage('User erased successfully', 'USER_ERASED')
+  async eraseUser(
+    @Param('id', ParseUUIDPipe) userId: string,
+    @Body() eraseDto: EraseUserDto,
+    @CurrentUser() currentUser: User
+  ): Promise<UserErasureResultDto> {
+    return this.userPrivacyService.eraseUser(userId, eraseDto, currentUser);
+  }
+
   @Post('acme-invite')
   @UseGuards(JwtAuthGuard, PermissionsGuard)
   @RequirePermissions('users:invite:acme')
@@ -0,0 +1,19 @@
+import { Global, Module } from '@nestjs/common';
+import { SequelizeModule } from '@nestjs/sequelize';
+import { User } from '../auth/entities/user.entity';
+import { RoleModule } from '../role/role.module';
+import { CompanyMembershipService } from './company-membership.service';
+import { CompanyMembershipsController } from './company-memberships.controller';
+import { CompanyMembership } from './entities/company-membership.entity';
+
+/**
+ * Global so that JwtAuthGuard can switch requests to the active company in every module that uses it
+ */
+@Global()
+@Module({
+  imports: [SequelizeModule.forFeature([CompanyMembership, User]), RoleModule],
+  controllers: [CompanyMembershipsController],
+  providers: [CompanyMembershipService],
+  exports: [CompanyMembershipService],
+})
+export class CompanyMembershipModule {}
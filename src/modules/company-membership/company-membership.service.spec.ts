@@ -0,0 +1,151 @@
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import { getModelToken } from '@nestjs/sequelize';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ERROR_CODES } from '../../common/constants/error-codes';
+import { User } from '../auth/entities/user.entity';
+import { PermissionsService } from '../role/permissions.service';
+import { CompanyMembershipService } from './company-membership.service';
+import { CompanyMembership, CompanyMembershipStatus } from './entities/company-membership.entity';
+
+describe('CompanyMembershipService', () => {
+  let service: CompanyMembershipService;
+  let membershipModel: { findOne: jest.Mock; findAll: jest.Mock; create: jest.Mock };
+  let userModel: { findByPk: jest.Mock };
+  let permissionsService: { invalidateCache: jest.Mock };
+  let transaction: { afterCommit: jest.Mock };
+
+  const user = { id: 'user-1', company_id: 'home-company' } as User;
+
+  beforeEach(async () => {
+    membershipModel = { findOne: jest.fn(), findAll: jest.fn(), create: jest.fn() };
+    userModel = { findByPk: jest.fn() };
+    permissionsService = { invalidateCache: jest.fn() };
+    transaction = { afterCommit: jest.fn((hook: () => Promise<void>) => hook()) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CompanyMembershipService,
+        { provide: getModelToken(CompanyMembership), useValue: membershipModel },
+        { provide: getModelToken(User), useValue: userModel },
+        { provide: PermissionsService, useValue: permissionsService },
+      ],
+    }).compile();
+
+    service = module.get<CompanyMembershipService>(CompanyMembershipService);
+  });
+
+  describe('findCompaniesForUser', () => {
+    it('should list the home company first and mark the active company', async () => {
+      userModel.findByPk.mockResolvedValue({
+        company: { id: 'home-company', name: 'Home LLP' },
+        role: { id: 'role-admin', name: 'Vendor Admin', code: 'vendor_admin' },
+      });
+      membershipModel.findAll.mockResolvedValue([
+        {
+          company: { id: 'other-company', name: 'Other LLP' },
+          role: { id: 'role-employee', name: 'Vendor Employee', code: 'vendor_employee' },
+        },
+      ]);
+
+      const companies = await service.findCompaniesForUser({
+        id: 'user-1',
+        company_id: 'other-company',
+      } as User);
+
+      expect(companies).toEqual([
+        expect.objectContaining({ companyId: 'home-company', isHome: true, isActive: false }),
+        expect.objectContaining({
+          companyId: 'other-company',
+          isHome: false,
+          isActive: true,
+          role: { id: 'role-employee', name: 'Vendor Employee', code: 'vendor_employee' },
+        }),
+      ]);
+    });
+  });
+
+  describe('addMembership', () => {
+    it('should create a membership and invalidate cached permissions after commit', async () => {
+      const membership = { id: 'membership-1' };
+      membershipModel.findOne.mockResolvedValue(null);
+      membershipModel.create.mockResolvedValue(membership);
+
+      await expect(
+        service.addMembership(user, 'other-company', 'role-1', 'admin-1', transaction as any)
+      ).resolves.toBe(membership);
+
+      expect(membershipModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          user_id: 'user-1',
+          company_id: 'other-company',
+          role_id: 'role-1',
+          status: CompanyMembershipStatus.ACTIVE,
+          added_by: 'admin-1',
+        }),
+        { transaction }
+      );
+      expect(transaction.afterCommit).toHaveBeenCalled();
+      expect(permissionsService.invalidateCache).toHaveBeenCalledWith(
+        expect.objectContaining({ user_id: 'user-1', company_id: 'other-company' })
+      );
+    });
+
+    it('should reactivate a revoked membership', async () => {
+      const revoked = { status: CompanyMembershipStatus.REVOKED, update: jest.fn() };
+      revoked.update.mockResolvedValue(revoked);
+      membershipModel.findOne.mockResolvedValue(revoked);
+
+      await service.addMembership(user, 'other-company', 'role-1', 'admin-1', transaction as any);
+
+      expect(revoked.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: CompanyMembershipStatus.ACTIVE,
+          revoked_at: null,
+          revoked_by: null,
+        }),
+        { transaction }
+      );
+      expect(membershipModel.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject an active membership or the home company', async () => {
+      membershipModel.findOne.mockResolvedValue({ status: CompanyMembershipStatus.ACTIVE });
+
+      await expect(
+        service.addMembership(user, 'other-company', 'role-1', 'admin-1', transaction as any)
+      ).rejects.toThrow(ConflictException);
+      await expect(
+        service.addMembership(user, 'home-company', 'role-1', 'admin-1', transaction as any)
+      ).rejects.toThrow(ConflictException);
+      expect(permissionsService.invalidateCache).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revokeMembership', () => {
+    it('should revoke the active membership', async () => {
+      const membership = { update: jest.fn() };
+      membershipModel.findOne.mockResolvedValue(membership);
+
+      await service.revokeMembership('user-1', 'other-company', 'admin-1', transaction as any);
+
+      expect(membership.update).toHaveBeenCalledWith(
+        expect.objectContaining({ status: CompanyMembershipStatus.REVOKED, revoked_by: 'admin-1' }),
+        { transaction }
+      );
+      expect(permissionsService.invalidateCache).toHaveBeenCalled();
+    });
+
+    it('should throw when the user is not a member', async () => {
+      membershipModel.findOne.mockResolvedValue(null);
+
+      const error = await service
+        .revokeMembership('user-1', 'other-company', 'admin-1', transaction as any)
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(NotFoundException);
+      expect((error as NotFoundException).getResponse()).toEqual(
+        expect.objectContaining({ code: ERROR_CODES.COMPANY_MEMBERSHIP_NOT_FOUND })
+      );
+    });
+  });
+});
@@ -0,0 +1,198 @@
+import { ConflictException, Injectable, NotFoundException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/sequelize';
+import { Transaction } from 'sequelize';
+import { ERROR_CODES } from '../../common/constants/error-codes';
+import { User, UserRole } from '../auth/entities/user.entity';
+import { Company } from '../company/entities/company.entity';
+import { Role } from '../role/entities/role.entity';
+import { PermissionsService } from '../role/permissions.service';
+import { UserCompanyDto } from './dto/company-membership-response.dto';
+import { CompanyMembership, CompanyMembershipStatus } from './entities/company-membership.entity';
+
+/** Roles a user can hold in a company through a membership */
+export const MEMBERSHIP_ROLES: UserRole[] = [
+  UserRole.VENDOR_EMPLOYEE,
+  UserRole.VENDOR_MANAGER,
+  UserRole.VENDOR_ADMIN,
+];
+
+/**
+ * Memberships of users in companies other than their home company. JwtAuthGuard
+ * uses them to switch a request to the active company the user selected.
+ */
+@Injectable()
+export class CompanyMembershipService {
+  constructor(
+    @InjectModel(CompanyMembership)
+    private readonly membershipModel: typeof CompanyMembership,
+    @InjectModel(User)
+    private readonly userModel: typeof User,
+    private readonly permissionsService: PermissionsService
+  ) {}
+
+  /**
+   * Returns the active membership of a user in a company, with its role and company
+   */
+  async findActiveMembership(userId: string, companyId: string): Promise<CompanyMembership | null> {
+    return this.membershipModel.findOne({
+      where: { user_id: userId, company_id: companyId, status: CompanyMembershipStatus.ACTIVE },
+      include: [
+        { model: Role, attributes: ['id', 'name', 'code'] },
+        { model: Company, attributes: ['id', 'status'] },
+      ],
+    });
+  }
+
+  /**
+   * Lists the companies the user can act in: the home company first, then the
+   * companies of their active memberships
+   */
+  async findCompaniesForUser(currentUser: User): Promise<UserCompanyDto[]> {
+    const roleInclude = { model: Role, attributes: ['id', 'name', 'code'] };
+    const companyInclude = { model: Company, attributes: ['id', 'name'] };
+
+    const [user, memberships] = await Promise.all([
+      this.userModel.findByPk(currentUser.id, {
+        attributes: ['id', 'company_id', 'role_id'],
+        include: [roleInclude, companyInclude],
+      }),
+      this.membershipModel.findAll({
+        where: { user_id: currentUser.id, status: CompanyMembershipStatus.ACTIVE },
+        include: [roleInclude, companyInclude],
+        order: [['created_at', 'ASC']],
+      }),
+    ]);
+
+    const companies: UserCompanyDto[] = [];
+    if (user?.company) {
+      companies.push(this.toUserCompany(user.company, user.role, true, currentUser));
+    }
+    for (const membership of memberships) {
+      if (membership.company) {
+        companies.push(this.toUserCompany(membership.company, membership.role, false, currentUser));
+      }
+    }
+
+    return companies;
+  }
+
+  /**
+   * Adds a user of another company as a member with the given role, reactivating a
+   * revoked membership if there is one. Runs inside the caller's transaction.
+   */
+  async addMembership(
+    user: User,
+    companyId: string,
+    roleId: string,
+    addedBy: string,
+    transaction: Transaction
+  ): Promise<CompanyMembership> {
+    if (user.company_id === companyId) {
+      throw new ConflictException({
+        success: false,
+        code: ERROR_CODES.COMPANY_MEMBERSHIP_EXISTS,
+        message: 'User already belongs to this company',
+      });
+    }
+
+    const existing = await this.membershipModel.findOne({
+      where: { user_id: user.id, company_id: companyId },
+      transaction,
+    });
+
+    if (existing?.status === CompanyMembershipStatus.ACTIVE) {
+      throw new ConflictException({
+        success: false,
+        code: ERROR_CODES.COMPANY_MEMBERSHIP_EXISTS,
+        message: 'User is already a member of this company',
+      });
+    }
+
+    const values = {
+      role_id: roleId,
+      status: CompanyMembershipStatus.ACTIVE,
+      added_by: addedBy,
+      revoked_at: null,
+      revoked_by: null,
+    };
+    const membership = existing
+      ? await existing.update(values, { transaction })
+      : await this.membershipModel.create(
+          { ...values, user_id: user.id, company_id: companyId },
+          { transaction }
+        );
+
+    this.invalidatePermissionsAfterCommit(user.id, companyId, transaction);
+
+    return membership;
+  }
+
+  /**
+   * Revokes the active membership of a user in a company. Runs inside the caller's transaction.
+   */
+  async revokeMembership(
+    userId: string,
+    companyId: string,
+    revokedBy: string,
+    transaction: Transaction
+  ): Promise<CompanyMembership> {
+    const membership = await this.membershipModel.findOne({
+      where: { user_id: userId, company_id: companyId, status: CompanyMembershipStatus.ACTIVE },
+      transaction,
+    });
+
+    if (!membership) {
+      throw new NotFoundException({
+        success: false,
+        code: ERROR_CODES.COMPANY_MEMBERSHIP_NOT_FOUND,
+        message: 'User is not a member of this company',
+      });
+    }
+
+    await membership.update(
+      {
+        status: CompanyMembershipStatus.REVOKED,
+        revoked_at: new Date(),
+        revoked_by: revokedBy,
+      },
+      { transaction }
+    );
+
+    this.invalidatePermissionsAfterCommit(userId, companyId, transaction);
+
+    return membership;
+  }
+
+  /**
+   * Drops the cached permissions of the user in the company once the change is committed,
+   * so no request in between caches the old permissions again
+   */
+  private invalidatePermissionsAfterCommit(
+    userId: string,
+    companyId: string,
+    transaction: Transaction
+  ): void {
+    transaction.afterCommit(async () => {
+      await this.permissionsService.invalidateCache({
+        user_id: userId,
+        company_id: companyId,
+        reason: 'Company membership changed',
+      });
+    });
+  }
+
+  private toUserCompany(
+    company: Company,
+    role: Role | undefined,
+    isHome: boolean,
+    currentUser: User
+  ): UserCompanyDto {
+    return {
+      companyId: company.id,
+      companyName: company.name,
+      role: role ? { id: role.id, name: role.name, code: role.code } : null,
+      isHome,
+      isActive: company.id === currentUser.company_id,
+    };
+  }
+}
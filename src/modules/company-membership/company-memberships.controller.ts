@@ -0,0 +1,33 @@
+import { Controller, Get, UseGuards } from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { ResponseMessage } from '../../common/decorators/response-message.decorator';
+import { JwtAuthGuard } from '../../core/guards/jwt-auth.guard';
+import { User } from '../auth/entities/user.entity';
+import { CompanyMembershipService } from './company-membership.service';
+import { UserCompanyDto } from './dto/company-membership-response.dto';
+
+@ApiTags('Companies')
+@Controller('company/memberships')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class CompanyMembershipsController {
+  constructor(private readonly companyMembershipService: CompanyMembershipService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'List the companies the authenticated user can act in',
+    description:
+      'Returns the home company and every company the user is a member of. Send the ' +
+      'X-Company-Id header to act in one of them; isActive marks the company of this request.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Companies retrieved successfully',
+    type: [UserCompanyDto],
+  })
+  @ResponseMessage('Companies retrieved successfully', 'USER_COMPANIES_RETRIEVED')
+  async findMyCompanies(@CurrentUser() currentUser: User): Promise<UserCompanyDto[]> {
+    return this.companyMembershipService.findCompaniesForUser(currentUser);
+  }
+}
@@ -0,0 +1,28 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * Company the authenticated user can act in
+ */
+export class UserCompanyDto {
+  @ApiProperty({ example: 'c4a8f4b0-8d2a-4b6d-8f9c-1e2b3d4a5f6a' })
+  companyId: string;
+
+  @ApiProperty({ example: 'Smith & Partners' })
+  companyName: string;
+
+  @ApiProperty({
+    description: 'Role of the user in this company',
+    example: {
+      id: 'f81d4fae-7dec-11d0-a765-00a0c91e6bf6',
+      name: 'Vendor Employee',
+      code: 'vendor_employee',
+    },
+  })
+  role: { id: string; name: string; code: string } | null;
+
+  @ApiProperty({ description: 'Whether this is the home company of the user', example: true })
+  isHome: boolean;
+
+  @ApiProperty({ description: 'Whether the current request acts in this company', example: true })
+  isActive: boolean;
+}
@@ -0,0 +1,96 @@
+import {
+  AllowNull,
+  BelongsTo,
+  Column,
+  CreatedAt,
+  DataType,
+  Default,
+  ForeignKey,
+  Model,
+  PrimaryKey,
+  Table,
+  UpdatedAt,
+} from 'sequelize-typescript';
+import { User } from '../../auth/entities/user.entity';
+import { Company } from '../../company/entities/company.entity';
+import { Role } from '../../role/entities/role.entity';
+
+export enum CompanyMembershipStatus {
+  ACTIVE = 'active',
+  REVOKED = 'revoked',
+}
+
+/**
+ * Membership of a user in a company other than their home company (User.company_id),
+ * with a role of its own. Requests act in the company of a membership when it is
+ * selected as the active company (X-Company-Id header or company claim).
+ */
+@Table({
+  tableName: 'CompanyMemberships',
+  timestamps: true,
+  underscored: true,
+  indexes: [
+    {
+      fields: ['user_id', 'company_id'],
+      unique: true,
+      name: 'uq_company_memberships_user_company',
+    },
+    {
+      fields: ['company_id', 'status'],
+      name: 'idx_company_memberships_company_status',
+    },
+  ],
+})
+export class CompanyMembership extends Model {
+  @PrimaryKey
+  @Default(DataType.UUIDV4)
+  @Column(DataType.UUID)
+  id: string;
+
+  @AllowNull(false)
+  @ForeignKey(() => User)
+  @Column(DataType.UUID)
+  user_id: string;
+
+  @AllowNull(false)
+  @ForeignKey(() => Company)
+  @Column(DataType.UUID)
+  company_id: string;
+
+  /** Role of the user while acting in this company */
+  @AllowNull(false)
+  @ForeignKey(() => Role)
+  @Column(DataType.UUID)
+  role_id: string;
+
+  @AllowNull(false)
+  @Default(CompanyMembershipStatus.ACTIVE)
+  @Column(DataType.ENUM(...Object.values(CompanyMembershipStatus)))
+  status: CompanyMembershipStatus;
+
+  @ForeignKey(() => User)
+  @Column(DataType.UUID)
+  added_by?: string | null;
+
+  @Column(DataType.DATE)
+  revoked_at?: Date | null;
+
+  @ForeignKey(() => User)
+  @Column(DataType.UUID)
+  revoked_by?: string | null;
+
+  @BelongsTo(() => User, 'user_id')
+  user?: User;
+
+  @BelongsTo(() => Company)
+  company?: Company;
+
+  @BelongsTo(() => Role)
+  role?: Role;
+
+  @CreatedAt
+  created_at: Date;
+
+  @UpdatedAt
+  updated_at: Date;
+}
@@ -185,4 +185,43 @@ describe('CompanyController', () => {
       expect(result).toEqual(mockCompanyData);
     });
   });
+
+  describe('approveCompany', () => {
+    it('should pass the audit context through to the service', async () => {
+      const mockRequest = { user: { id: 'admin-123' } };
+      const auditContext = { ipAddress: '203.0.113.10', userAgent: 'jest-agent' };
+      mockCompanyService.approveVendor.mockResolvedValue({
+        id: 'company-123',
+        name: 'Test Company',
+        status: 'ACTIVE',
+      });
+
+      await controller.approveCompany(
+        'company-123',
+        mockRequest,
+        { reason: 'Verified' },
+        auditContext
+      );
+
+      expect(service.approveVendor).toHaveBeenCalledWith(
+        'company-123',
+        'admin-123',
+        'Verified',
+        auditContext
+      );
+    });
+  });
+
+  describe('getCompanyAuditLog', () => {
+    it('should forward the query filters to the service', async () => {
+      const query = { page: 1, limit: 20, performedBy: 'user-123' };
+      const auditLog = { entries: [], totalCount: 0, totalPages: 0, currentPage: 1 };
+      mockCompanyService.getCompanyAuditLog.mockResolvedValue(auditLog);
+
+      const result = await controller.getCompanyAuditLog('company-123', query);
+
+      expect(service.getCompanyAuditLog).toHaveBeenCalledWith('company-123', query);
+      expect(result).toEqual(auditLog);
+    });
+  });
 });
@@ -24,6 +24,8 @@ import {
   ApiResponse,
   ApiTags,
 } from '@nestjs/swagger';
+import { AuditContext, AuditRequestContext } from '../../common/decorators/audit-context.decorator';
+import { AllowApiKey } from '../../core/decorators/allow-api-key.decorator';
 import { Public } from '../../core/decorators/public.decorator';
 import { RequirePermissions } from '../../core/decorators/require-permissions.decorator';
 import { ClientVersionGuard } from '../../core/guards/client-version.guard';
@@ -35,6 +37,8 @@ import { CompanyService } from './company.service';
 import { AddUserToCompanyDto } from './dto/add-user-to-company.dto';
 import { AdminCreateVendorDto } from './dto/admin-create-vendor.dto';
 import { AdminListCompaniesDto } from './dto/admin-list-companies.dto';
+import { CompanyAuditLogQueryDto } from './dto/company-audit-log-query.dto';
+import { CompanyAuditLogResponseDto } from './dto/company-audit-log-response.dto';
 import { CompanyResponseDto } from './dto/company-response.dto';
 import { CreateCompanyDto } from './dto/create-company.dto';
 import { PaginationDto } from './dto/pagination.dto';
@@ -55,8 +59,11 @@ export class CompanyController {
   @ApiResponse({ status: 201, description: 'Vendor successfully registered' })
   @ApiResponse({ status: 400, description: 'Invalid registration data' })
   @ApiResponse({ status: 409, description: 'Company name or subdomain already exists' })
-  async registerVendor(@Body() registerVendorDto: RegisterVendorDto) {
-    const result = await this.companyService.registerVendor(registerVendorDto);
+  async registerVendor(
+    @Body() registerVendorDto: RegisterVendorDto,
+    @AuditContext() auditContext: AuditRequestContext
+  ) {
+    const result = await this.companyService.registerVendor(registerVendorDto, auditContext);
     return {
       message: 'Vendor registration submitted successfully',
       company: {
@@ -123,6 +130,7 @@ export class CompanyController {
   @Get('admin/companies')
   @UseGuards(JwtAuthGuard, SuperAdminBypassGuard, PermissionsGuard)
   @RequirePermissions('MANAGE_COMPANIES')
+  @AllowApiKey()
   @ApiBearerAuth()
   @ApiOperation({ summary: 'List all companies with filtering (admin only)' })
   @ApiQuery({ name: 'page', required: false, type: Number })
@@ -144,6 +152,7 @@ export class CompanyController {
   @Get('admin/companies/:companyId')
   @UseGuards(JwtAuthGuard, SuperAdminBypassGuard, PermissionsGuard)
   @RequirePermissions('MANAGE_COMPANIES')
+  @AllowApiKey()
   @ApiBearerAuth()
   @ApiOperation({ summary: 'Get company details (admin only)' })
   @ApiParam({ name: 'companyId', description: 'Company UUID' })
@@ -167,9 +176,15 @@ export class CompanyController {
   async approveCompany(
     @Param('companyId', ParseUUIDPipe) companyId: string,
     @Request() req: any,
-    @Body() body: { reason?: string }
+    @Body() body: { reason?: string },
+    @AuditContext() auditContext: AuditRequestContext
   ) {
-    const company = await this.companyService.approveVendor(companyId, req.user.id, body.reason);
+    const company = await this.companyService.approveVendor(
+      companyId,
+      req.user.id,
+      body.reason,
+      auditContext
+    );
     return {
       message: 'Company approved successfully',
       company: {
@@ -195,13 +210,19 @@ export class CompanyController {
   async rejectCompany(
     @Param('companyId', ParseUUIDPipe) companyId: string,
     @Request() req: any,
-    @Body() body: { reason: string }
+    @Body() body: { reason: string },
+    @AuditContext() auditContext: AuditRequestContext
   ) {
     if (!body.reason?.trim()) {
       throw new BadRequestException('Rejection reason is required');
     }
 
-    const company = await this.companyService.rejectVendor(companyId, req.user.id, body.reason);
+    const company = await this.companyService.rejectVendor(
+      companyId,
+      req.user.id,
+      body.reason,
+      auditContext
+    );
     return {
       message: 'Company rejected successfully',
       company: {
@@ -226,7 +247,8 @@ export class CompanyController {
   async updateCompanyStatus(
     @Param('companyId', ParseUUIDPipe) companyId: string,
     @Request() req: any,
-    @Body() updateStatusDto: UpdateCompanyStatusDto
+    @Body() updateStatusDto: UpdateCompanyStatusDto,
+    @AuditContext() auditContext: AuditRequestContext
   ) {
     let company;
 
@@ -235,14 +257,16 @@ export class CompanyController {
         company = await this.companyService.suspendVendor(
           companyId,
           req.user.id,
-          updateStatusDto.reason
+          updateStatusDto.reason,
+          auditContext
         );
         break;
       case 'ACTIVE':
         company = await this.companyService.reactivateVendor(
           companyId,
           req.user.id,
-          updateStatusDto.reason
+          updateStatusDto.reason,
+          auditContext
         );
         break;
       default:
@@ -271,7 +295,8 @@ export class CompanyController {
   @ApiResponse({ status: 403, description: 'Insufficient permissions' })
   async createVendorCompany(
     @Body() adminCreateVendorDto: AdminCreateVendorDto,
-    @Request() req: any
+    @Request() req: any,
+    @AuditContext() auditContext: AuditRequestContext
   ) {
     // Convert admin DTO to register DTO format
     const registerDto: RegisterVendorDto = {
@@ -288,14 +313,15 @@ export class CompanyController {
       subscriptionType: adminCreateVendorDto.subscriptionType,
     };
 
-    const result = await this.companyService.registerVendor(registerDto);
+    const result = await this.companyService.registerVendor(registerDto, auditContext);
 
     // If admin specified to auto-approve, approve it immediately
     if (adminCreateVendorDto.autoApprove) {
       await this.companyService.approveVendor(
         result.company.id,
         req.user.id,
-        'Auto-approved by admin during creation'
+        'Auto-approved by admin during creation',
+        auditContext
       );
     }
 
@@ -316,8 +342,16 @@ export class CompanyController {
   @RequirePermissions('CREATE_COMPANIES')
   @ApiBearerAuth()
   @ApiOperation({ summary: 'Create a new company' })
-  async createCompany(@Body() createCompanyDto: CreateCompanyDto, @Request() req: any) {
-    const company = await this.companyService.createCompany(createCompanyDto, req.user.id);
+  async createCompany(
+    @Body() createCompanyDto: CreateCompanyDto,
+    @Request() req: any,
+    @AuditContext() auditContext: AuditRequestContext
+  ) {
+    const company = await this.companyService.createCompany(
+      createCompanyDto,
+      req.user.id,
+      auditContext
+    );
     return company;
   }
 
@@ -333,13 +367,25 @@ export class CompanyController {
   @UseGuards(JwtAuthGuard, PermissionsGuard)
   @RequirePermissions('MANAGE_TEAM_MEMBERS')
   @ApiBearerAuth()
-  @ApiOperation({ summary: 'Add user to company' })
+  @ApiOperation({
+    summary: 'Add user to company',
+    description:
+      'Users without a company join it as their home company. Users of another company ' +
+      'become members with the given vendor role and can act in it with the X-Company-Id header.',
+  })
   async addUserToCompany(
     @Param('companyId', ParseUUIDPipe) companyId: string,
     @Body() addUserDto: AddUserToCompanyDto,
-    @Request() req: any
+    @Request() req: any,
+    @AuditContext() auditContext: AuditRequestContext
   ) {
-    return this.companyService.addUserToCompany(companyId, addUserDto.userId, req.user.id);
+    return this.companyService.addUserToCompany(
+      companyId,
+      addUserDto.userId,
+      req.user.id,
+      auditContext,
+      addUserDto.role
+    );
   }
 
   @Delete('companies/:companyId/users/:userId')
@@ -351,9 +397,10 @@ export class CompanyController {
   async removeUserFromCompany(
     @Param('companyId', ParseUUIDPipe) companyId: string,
     @Param('userId', ParseUUIDPipe) userId: string,
-    @Request() req: any
+    @Request() req: any,
+    @AuditContext() auditContext: AuditRequestContext
   ) {
-    await this.companyService.removeUserFromCompany(companyId, userId, req.user.id);
+    await this.companyService.removeUserFromCompany(companyId, userId, req.user.id, auditContext);
   }
 
   @Get('companies/:companyId/users')
@@ -383,8 +430,24 @@ export class CompanyController {
   @RequirePermissions('VIEW_AUDIT_LOGS')
   @ApiBearerAuth()
   @ApiOperation({ summary: 'Get company audit log' })
-  async getCompanyAuditLog(@Param('companyId', ParseUUIDPipe) companyId: string) {
-    return this.companyService.getCompanyAuditLog(companyId);
+  @ApiParam({ name: 'companyId', description: 'Company UUID' })
+  @ApiQuery({ name: 'page', required: false, type: Number })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @ApiQuery({ name: 'action', required: false, type: String })
+  @ApiQuery({ name: 'performedBy', required: false, type: String })
+  @ApiQuery({ name: 'startDate', required: false, type: String })
+  @ApiQuery({ name: 'endDate', required: false, type: String })
+  @ApiResponse({
+    status: 200,
+    description: 'Audit log retrieved successfully',
+    type: CompanyAuditLogResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Invalid filter parameters' })
+  async getCompanyAuditLog(
+    @Param('companyId', ParseUUIDPipe) companyId: string,
+    @Query() queryDto: CompanyAuditLogQueryDto
+  ): Promise<CompanyAuditLogResponseDto> {
+    return this.companyService.getCompanyAuditLog(companyId, queryDto);
   }
 
   @Delete('admin/companies/:companyId')
@@ -407,12 +470,13 @@ export class CompanyController {
   async deleteCompany(
     @Param('companyId', ParseUUIDPipe) companyId: string,
     @Request() req: any,
-    @Body() body: { reason: string }
+    @Body() body: { reason: string },
+    @AuditContext() auditContext: AuditRequestContext
   ) {
     if (!body.reason?.trim()) {
       throw new BadRequestException('Deletion reason is required');
     }
 
-    await this.companyService.deleteCompany(companyId, req.user.id, body.reason);
+    await this.companyService.deleteCompany(companyId, req.user.id, body.reason, auditContext);
   }
 }
@@ -1,6 +1,7 @@
 import { Module } from '@nestjs/common';
 import { SequelizeModule } from '@nestjs/sequelize';
 import { Company } from './entities/company.entity';
+import { CompanyAuditLog } from './entities/company-audit-log.entity';
 import { CompanyController } from './company.controller';
 import { CompanyService } from './company.service';
 import { CompanyValidationService } from './services/company-validation.service';
@@ -8,11 +9,15 @@ import { AcmeProtectionService } from './services/acme-protection.service';
 import { User } from '../auth/entities/user.entity';
 import { Role } from '../role/entities/role.entity';
 import { Team } from '../team/entities/team.entity';
+import { CompanyMembership } from '../company-membership/entities/company-membership.entity';
 import { CompanyAdminGuard } from '../../core/guards/company-admin.guard';
 import { RoleModule } from '../role/role.module';
 
 @Module({
-  imports: [SequelizeModule.forFeature([Company, User, Role, Team]), RoleModule],
+  imports: [
+    SequelizeModule.forFeature([Company, CompanyAuditLog, User, Role, Team, CompanyMembership]),
+    RoleModule,
+  ],
   controllers: [CompanyController],
   providers: [CompanyService, CompanyValidationService, CompanyAdminGuard, AcmeProtectionService],
   exports: [CompanyService, CompanyValidationService, CompanyAdminGuard, AcmeProtectionService],
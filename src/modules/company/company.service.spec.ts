@@ -1,12 +1,19 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { getModelToken, getConnectionToken } from '@nestjs/sequelize';
 import { CompanyService } from './company.service';
-import { Company } from './entities/company.entity';
-import { User } from '../auth/entities/user.entity';
+import { BadRequestException } from '@nestjs/common';
+import { Op } from 'sequelize';
+import { Company, CompanyStatus } from './entities/company.entity';
+import { AuditAction, CompanyAuditLog } from './entities/company-audit-log.entity';
+import { User, UserRole } from '../auth/entities/user.entity';
 import { Role } from '../role/entities/role.entity';
 import { Team } from '../team/entities/team.entity';
 import { CompanyValidationService } from './services/company-validation.service';
 import { AcmeProtectionService } from './services/acme-protection.service';
+import { AuditTrailService } from '../audit/audit-trail.service';
+import { AuditSource } from '../audit/entities/audit-record.entity';
+import { TokenRevocationService } from '../token-revocation/token-revocation.service';
+import { CompanyMembershipService } from '../company-membership/company-membership.service';
 
 describe('CompanyService', () => {
   let service: CompanyService;
@@ -14,6 +21,10 @@ describe('CompanyService', () => {
   let mockUserModel: any;
   let mockRoleModel: any;
   let mockTeamModel: any;
+  let mockCompanyAuditLogModel: any;
+  let mockAuditTrailService: { append: jest.Mock };
+  let mockTokenRevocationService: { revokeAllForCompany: jest.Mock };
+  let mockCompanyMembershipService: { addMembership: jest.Mock; revokeMembership: jest.Mock };
 
   const mockCompany = {
     id: '123',
@@ -60,12 +71,24 @@ describe('CompanyService', () => {
         name: 'Vendor Admin',
         code: 'vendor_admin',
       }),
+      findByPk: jest.fn(),
     };
 
     mockTeamModel = {
       findAll: jest.fn(),
     };
 
+    mockAuditTrailService = { append: jest.fn() };
+
+    mockTokenRevocationService = { revokeAllForCompany: jest.fn().mockResolvedValue(3) };
+
+    mockCompanyMembershipService = { addMembership: jest.fn(), revokeMembership: jest.fn() };
+
+    mockCompanyAuditLogModel = {
+      create: jest.fn(),
+      findAndCountAll: jest.fn(),
+    };
+
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         CompanyService,
@@ -85,6 +108,10 @@ describe('CompanyService', () => {
           provide: getModelToken(Team),
           useValue: mockTeamModel,
         },
+        {
+          provide: getModelToken(CompanyAuditLog),
+          useValue: mockCompanyAuditLogModel,
+        },
         {
           provide: CompanyValidationService,
           useValue: {
@@ -102,6 +129,18 @@ describe('CompanyService', () => {
             validateCompanyDeletion: jest.fn(),
           },
         },
+        {
+          provide: AuditTrailService,
+          useValue: mockAuditTrailService,
+        },
+        {
+          provide: TokenRevocationService,
+          useValue: mockTokenRevocationService,
+        },
+        {
+          provide: CompanyMembershipService,
+          useValue: mockCompanyMembershipService,
+        },
         {
           provide: getConnectionToken(),
           useValue: {
@@ -207,5 +246,280 @@ describe('CompanyService', () => {
         { where: { id: 'user-123' }, transaction: expect.any(Object) }
       );
     });
+
+    it('should persist a COMPANY_CREATED audit entry within the transaction', async () => {
+      mockUserModel.findByPk.mockResolvedValue(mockUser);
+      mockCompanyModel.findOne.mockResolvedValue(null);
+      mockCompanyModel.create.mockResolvedValue(mockCompany);
+      mockUserModel.update.mockResolvedValue([1]);
+
+      await service.createCompany(createCompanyDto, 'user-123', {
+        ipAddress: '203.0.113.10',
+        userAgent: 'jest-agent',
+      });
+
+      expect(mockCompanyAuditLogModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          company_id: mockCompany.id,
+          action: AuditAction.COMPANY_CREATED,
+          performed_by: 'user-123',
+          new_status: 'PENDING_APPROVAL',
+          ip_address: '203.0.113.10',
+          user_agent: 'jest-agent',
+        }),
+        { transaction: expect.any(Object) }
+      );
+      expect(mockAuditTrailService.append).toHaveBeenCalledWith(
+        expect.objectContaining({
+          tenantId: mockCompany.id,
+          source: AuditSource.COMPANY,
+          action: AuditAction.COMPANY_CREATED,
+          entityId: mockCompany.id,
+          performedBy: 'user-123',
+          payload: expect.objectContaining({
+            newStatus: 'PENDING_APPROVAL',
+            ipAddress: '203.0.113.10',
+          }),
+        }),
+        expect.any(Object)
+      );
+    });
+  });
+
+  describe('addUserToCompany', () => {
+    beforeEach(() => {
+      jest.clearAllMocks();
+    });
+
+    it('should persist a USER_ADDED audit entry within the transaction', async () => {
+      const userToAdd = {
+        id: 'user-456',
+        email: 'jane@example.com',
+        company_id: null,
+        update: jest.fn(),
+      };
+      mockUserModel.findByPk.mockResolvedValue(userToAdd);
+      mockCompanyModel.findByPk = jest.fn().mockResolvedValue(mockCompany);
+
+      await service.addUserToCompany('123', 'user-456', 'user-123');
+
+      expect(userToAdd.update).toHaveBeenCalledWith(
+        { company_id: '123' },
+        { transaction: expect.any(Object) }
+      );
+      expect(mockCompanyAuditLogModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          company_id: '123',
+          action: AuditAction.USER_ADDED,
+          performed_by: 'user-123',
+          details: { userId: 'user-456' },
+        }),
+        { transaction: expect.any(Object) }
+      );
+    });
+
+    it('should not write an audit entry when the user already belongs to the company', async () => {
+      mockUserModel.findByPk.mockResolvedValue({ id: 'user-456', company_id: '123' });
+
+      await expect(service.addUserToCompany('123', 'user-456', 'user-123')).rejects.toThrow(
+        'User already belongs to this company'
+      );
+      expect(mockCompanyAuditLogModel.create).not.toHaveBeenCalled();
+      expect(mockAuditTrailService.append).not.toHaveBeenCalled();
+    });
+
+    it('should add a user of another company as a member with the requested role', async () => {
+      const userToAdd = {
+        id: 'user-456',
+        email: 'jane@example.com',
+        company_id: 'other',
+        update: jest.fn(),
+      };
+      mockUserModel.findByPk.mockResolvedValue(userToAdd);
+      mockCompanyModel.findByPk = jest.fn().mockResolvedValue(mockCompany);
+      mockRoleModel.findOne.mockResolvedValue({ id: 'role-manager' });
+
+      await service.addUserToCompany(
+        '123',
+        'user-456',
+        'user-123',
+        undefined,
+        UserRole.VENDOR_MANAGER
+      );
+
+      expect(userToAdd.update).not.toHaveBeenCalled();
+      expect(mockCompanyMembershipService.addMembership).toHaveBeenCalledWith(
+        userToAdd,
+        '123',
+        'role-manager',
+        'user-123',
+        expect.any(Object)
+      );
+      expect(mockCompanyAuditLogModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: AuditAction.USER_ADDED,
+          details: expect.objectContaining({ membership: true, roleId: 'role-manager' }),
+        }),
+        { transaction: expect.any(Object) }
+      );
+    });
+
+    it('should reject membership roles outside the vendor roles', async () => {
+      mockUserModel.findByPk.mockResolvedValue({ id: 'user-456', company_id: 'other' });
+      mockCompanyModel.findByPk = jest.fn().mockResolvedValue(mockCompany);
+
+      await expect(
+        service.addUserToCompany('123', 'user-456', 'user-123', undefined, UserRole.ACME_ADMIN)
+      ).rejects.toThrow(BadRequestException);
+      expect(mockCompanyMembershipService.addMembership).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('removeUserFromCompany', () => {
+    beforeEach(() => {
+      jest.clearAllMocks();
+    });
+
+    it('should revoke the membership of a user from another company', async () => {
+      const member = {
+        id: 'user-456',
+        email: 'jane@example.com',
+        company_id: 'other',
+        update: jest.fn(),
+      };
+      mockUserModel.findByPk.mockResolvedValue(member);
+      mockCompanyModel.findByPk = jest.fn().mockResolvedValue(mockCompany);
+
+      await service.removeUserFromCompany('123', 'user-456', 'user-123');
+
+      expect(member.update).not.toHaveBeenCalled();
+      expect(mockCompanyMembershipService.revokeMembership).toHaveBeenCalledWith(
+        'user-456',
+        '123',
+        'user-123',
+        expect.any(Object)
+      );
+      expect(mockCompanyAuditLogModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({ action: AuditAction.USER_REMOVED }),
+        { transaction: expect.any(Object) }
+      );
+    });
+  });
+
+  describe('suspendVendor', () => {
+    beforeEach(() => {
+      jest.clearAllMocks();
+    });
+
+    it('should revoke the tokens of every user of the company', async () => {
+      const company = { ...mockCompany, status: CompanyStatus.ACTIVE, update: jest.fn() };
+      mockCompanyModel.findByPk = jest.fn().mockResolvedValue(company);
+
+      await service.suspendVendor('123', 'admin-123', 'Unpaid invoices');
+
+      expect(company.update).toHaveBeenCalledWith(
+        { status: CompanyStatus.SUSPENDED },
+        { transaction: expect.any(Object) }
+      );
+      expect(mockTokenRevocationService.revokeAllForCompany).toHaveBeenCalledWith(
+        '123',
+        expect.any(Object)
+      );
+      expect(mockCompanyAuditLogModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: AuditAction.VENDOR_SUSPENDED,
+          details: { revokedUserCount: 3 },
+        }),
+        { transaction: expect.any(Object) }
+      );
+    });
+  });
+
+  describe('getCompanyAuditLog', () => {
+    beforeEach(() => {
+      jest.clearAllMocks();
+    });
+
+    it('should return paginated, formatted entries', async () => {
+      const performedAt = new Date('2025-06-01T10:00:00Z');
+      mockCompanyAuditLogModel.findAndCountAll.mockResolvedValue({
+        count: 1,
+        rows: [
+          {
+            id: 'log-1',
+            company_id: '123',
+            action: AuditAction.VENDOR_APPROVED,
+            performed_by: 'user-123',
+            performed_at: performedAt,
+            previous_status: 'PENDING_APPROVAL',
+            new_status: 'ACTIVE',
+            reason: 'Looks good',
+            ip_address: '203.0.113.10',
+            user_agent: 'jest-agent',
+            performer: mockUser,
+          },
+        ],
+      });
+
+      const result = await service.getCompanyAuditLog('123', { page: 1, limit: 20 });
+
+      expect(result.totalCount).toBe(1);
+      expect(result.totalPages).toBe(1);
+      expect(result.currentPage).toBe(1);
+      expect(result.entries[0]).toEqual(
+        expect.objectContaining({
+          id: 'log-1',
+          action: AuditAction.VENDOR_APPROVED,
+          performedAt,
+          ipAddress: '203.0.113.10',
+          performedBy: {
+            id: 'user-123',
+            firstName: 'John',
+            lastName: 'Doe',
+            email: 'john@example.com',
+          },
+        })
+      );
+    });
+
+    it('should apply action, performer and date range filters', async () => {
+      mockCompanyAuditLogModel.findAndCountAll.mockResolvedValue({ count: 0, rows: [] });
+
+      await service.getCompanyAuditLog('123', {
+        page: 2,
+        limit: 10,
+        action: AuditAction.USER_ADDED,
+        performedBy: 'user-123',
+        startDate: '2025-01-01T00:00:00Z',
+        endDate: '2025-01-31T23:59:59Z',
+      });
+
+      expect(mockCompanyAuditLogModel.findAndCountAll).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            company_id: '123',
+            action: AuditAction.USER_ADDED,
+            performed_by: 'user-123',
+            performed_at: {
+              [Op.gte]: new Date('2025-01-01T00:00:00Z'),
+              [Op.lte]: new Date('2025-01-31T23:59:59Z'),
+            },
+          },
+          limit: 10,
+          offset: 10,
+          order: [['performed_at', 'DESC']],
+        })
+      );
+    });
+
+    it('should reject a start date after the end date', async () => {
+      await expect(
+        service.getCompanyAuditLog('123', {
+          startDate: '2025-02-01T00:00:00Z',
+          endDate: '2025-01-01T00:00:00Z',
+        })
+      ).rejects.toThrow(BadRequestException);
+      expect(mockCompanyAuditLogModel.findAndCountAll).not.toHaveBeenCalled();
+    });
   });
 });
@@ -10,26 +10,41 @@ import {
 import { InjectModel, getConnectionToken } from '@nestjs/sequelize';
 import { Op, Transaction } from 'sequelize';
 import { Sequelize } from 'sequelize-typescript';
+import { ERROR_CODES } from '../../common/constants/error-codes';
+import { AuditRequestContext } from '../../common/decorators/audit-context.decorator';
 import { User, UserRole } from '../auth/entities/user.entity';
+import { AuditTrailService } from '../audit/audit-trail.service';
+import { AuditSource } from '../audit/entities/audit-record.entity';
+import {
+  CompanyMembershipService,
+  MEMBERSHIP_ROLES,
+} from '../company-membership/company-membership.service';
 import { Role } from '../role/entities/role.entity';
 import { Team } from '../team/entities/team.entity';
+import { TokenRevocationService } from '../token-revocation/token-revocation.service';
 import { AdminListCompaniesDto } from './dto/admin-list-companies.dto';
+import { CompanyAuditLogQueryDto } from './dto/company-audit-log-query.dto';
+import {
+  CompanyAuditLogEntryDto,
+  CompanyAuditLogResponseDto,
+} from './dto/company-audit-log-response.dto';
 import { CreateCompanyDto } from './dto/create-company.dto';
 import { PaginationDto } from './dto/pagination.dto';
 import { RegisterVendorDto } from './dto/register-vendor.dto';
 import { SearchCompanyUsersDto } from './dto/search-company-users.dto';
+import { AuditAction, CompanyAuditLog } from './entities/company-audit-log.entity';
 import { Company, CompanyStatus, CompanyType } from './entities/company.entity';
 import { CompanyValidationService } from './services/company-validation.service';
 import { AcmeProtectionService } from './services/acme-protection.service';
 
 export interface AuditLogEntry {
-  action: string;
+  action: AuditAction;
   performedBy: string;
   performedAt: Date;
   previousStatus?: CompanyStatus;
   newStatus?: CompanyStatus;
   reason?: string | null;
-  details?: any;
+  details?: Record<string, any>;
 }
 
 @Injectable()
@@ -43,8 +58,13 @@ export class CompanyService {
     private roleModel: typeof Role,
     @InjectModel(Team)
     private teamModel: typeof Team,
+    @InjectModel(CompanyAuditLog)
+    private companyAuditLogModel: typeof CompanyAuditLog,
     private companyValidationService: CompanyValidationService,
     private acmeProtectionService: AcmeProtectionService,
+    private auditTrailService: AuditTrailService,
+    private tokenRevocationService: TokenRevocationService,
+    private companyMembershipService: CompanyMembershipService,
     @Inject(getConnectionToken())
     private sequelize: Sequelize
   ) {}
@@ -88,7 +108,8 @@ export class CompanyService {
    * Creates Company + initial VENDOR_ADMIN User in a single atomic transaction
    */
   async registerVendor(
-    registerVendorDto: RegisterVendorDto
+    registerVendorDto: RegisterVendorDto,
+    auditContext?: AuditRequestContext
   ): Promise<{ company: Company; user: User }> {
     const transaction = await this.sequelize.transaction();
 
@@ -129,7 +150,6 @@ export class CompanyService {
             last_name: registerVendorDto.adminLastName,
             email: registerVendorDto.adminEmail,
             role_id: vendorAdminRoleId,
-            is_lawyer: registerVendorDto.isLawyer || false,
             company_id: company.id,
           },
           { transaction }
@@ -143,7 +163,6 @@ export class CompanyService {
             email: registerVendorDto.adminEmail,
             auth0_user_id: registerVendorDto.auth0UserId,
             role_id: vendorAdminRoleId,
-            is_lawyer: registerVendorDto.isLawyer || false,
             company_id: company.id,
           },
           { transaction }
@@ -160,13 +179,22 @@ export class CompanyService {
       );
 
       // Add audit log
-      await this.addAuditLog(company.id, {
-        action: 'VENDOR_REGISTERED',
-        performedBy: adminUser.id,
-        performedAt: new Date(),
-        newStatus: CompanyStatus.PENDING_APPROVAL,
-        details: { registrationData: registerVendorDto },
-      });
+      await this.addAuditLog(
+        company.id,
+        {
+          action: AuditAction.VENDOR_REGISTERED,
+          performedBy: adminUser.id,
+          performedAt: new Date(),
+          newStatus: CompanyStatus.PENDING_APPROVAL,
+          details: {
+            subdomain: registerVendorDto.subdomain,
+            subscriptionType: company.subscription_type,
+            adminUserId: adminUser.id,
+          },
+        },
+        transaction,
+        auditContext
+      );
 
       await transaction.commit();
 
@@ -187,7 +215,12 @@ export class CompanyService {
   /**
    * REQ-COMP-003: Approve a pending vendor company
    */
-  async approveVendor(companyId: string, adminUserId: string, reason?: string): Promise<Company> {
+  async approveVendor(
+    companyId: string,
+    adminUserId: string,
+    reason?: string,
+    auditContext?: AuditRequestContext
+  ): Promise<Company> {
     const transaction = await this.sequelize.transaction();
 
     try {
@@ -208,14 +241,19 @@ export class CompanyService {
       const previousStatus = company.status;
       await company.update({ status: CompanyStatus.ACTIVE }, { transaction });
 
-      await this.addAuditLog(companyId, {
-        action: 'VENDOR_APPROVED',
-        performedBy: adminUserId,
-        performedAt: new Date(),
-        previousStatus,
-        newStatus: CompanyStatus.ACTIVE,
-        reason,
-      });
+      await this.addAuditLog(
+        companyId,
+        {
+          action: AuditAction.VENDOR_APPROVED,
+          performedBy: adminUserId,
+          performedAt: new Date(),
+          previousStatus,
+          newStatus: CompanyStatus.ACTIVE,
+          reason,
+        },
+        transaction,
+        auditContext
+      );
 
       await transaction.commit();
 
@@ -232,7 +270,12 @@ export class CompanyService {
   /**
    * REQ-COMP-003: Reject a pending vendor company
    */
-  async rejectVendor(companyId: string, adminUserId: string, reason: string): Promise<Company> {
+  async rejectVendor(
+    companyId: string,
+    adminUserId: string,
+    reason: string,
+    auditContext?: AuditRequestContext
+  ): Promise<Company> {
     const transaction = await this.sequelize.transaction();
 
     try {
@@ -250,14 +293,19 @@ export class CompanyService {
       const previousStatus = company.status;
       await company.update({ status: CompanyStatus.REJECTED }, { transaction });
 
-      await this.addAuditLog(companyId, {
-        action: 'VENDOR_REJECTED',
-        performedBy: adminUserId,
-        performedAt: new Date(),
-        previousStatus,
-        newStatus: CompanyStatus.REJECTED,
-        reason,
-      });
+      await this.addAuditLog(
+        companyId,
+        {
+          action: AuditAction.VENDOR_REJECTED,
+          performedBy: adminUserId,
+          performedAt: new Date(),
+          previousStatus,
+          newStatus: CompanyStatus.REJECTED,
+          reason,
+        },
+        transaction,
+        auditContext
+      );
 
       await transaction.commit();
 
@@ -271,12 +319,13 @@ export class CompanyService {
   }
 
   /**
-   * REQ-COMP-003: Suspend an active vendor company
+   * REQ-COMP-003: Suspend an active vendor company and revoke the tokens of its users
    */
   async suspendVendor(
     companyId: string,
     adminUserId: string,
-    reason?: string | null
+    reason?: string | null,
+    auditContext?: AuditRequestContext
   ): Promise<Company> {
     const transaction = await this.sequelize.transaction();
 
@@ -298,19 +347,30 @@ export class CompanyService {
       const previousStatus = company.status;
       await company.update({ status: CompanyStatus.SUSPENDED }, { transaction });
 
-      await this.addAuditLog(companyId, {
-        action: 'VENDOR_SUSPENDED',
-        performedBy: adminUserId,
-        performedAt: new Date(),
-        previousStatus,
-        newStatus: CompanyStatus.SUSPENDED,
-        reason,
-      });
+      // Tokens issued before the suspension stay invalid after a reactivation
+      const revokedUserCount = await this.tokenRevocationService.revokeAllForCompany(
+        companyId,
+        transaction
+      );
+
+      await this.addAuditLog(
+        companyId,
+        {
+          action: AuditAction.VENDOR_SUSPENDED,
+          performedBy: adminUserId,
+          performedAt: new Date(),
+          previousStatus,
+          newStatus: CompanyStatus.SUSPENDED,
+          reason,
+          details: { revokedUserCount },
+        },
+        transaction,
+        auditContext
+      );
 
       await transaction.commit();
 
       // TODO: Send suspension notification to vendor admin
-      // TODO: Disable access for all vendor users
 
       return company;
     } catch (error) {
@@ -325,7 +385,8 @@ export class CompanyService {
   async reactivateVendor(
     companyId: string,
     adminUserId: string,
-    reason?: string
+    reason?: string,
+    auditContext?: AuditRequestContext
   ): Promise<Company> {
     const transaction = await this.sequelize.transaction();
 
@@ -344,14 +405,19 @@ export class CompanyService {
       const previousStatus = company.status;
       await company.update({ status: CompanyStatus.ACTIVE }, { transaction });
 
-      await this.addAuditLog(companyId, {
-        action: 'VENDOR_REACTIVATED',
-        performedBy: adminUserId,
-        performedAt: new Date(),
-        previousStatus,
-        newStatus: CompanyStatus.ACTIVE,
-        reason,
-      });
+      await this.addAuditLog(
+        companyId,
+        {
+          action: AuditAction.VENDOR_REACTIVATED,
+          performedBy: adminUserId,
+          performedAt: new Date(),
+          previousStatus,
+          newStatus: CompanyStatus.ACTIVE,
+          reason,
+        },
+        transaction,
+        auditContext
+      );
 
       await transaction.commit();
 
@@ -505,19 +571,134 @@ export class CompanyService {
 
   /**
    * Get company audit log for administrative review
+   * Supports filtering by action, performer and date range, newest first
    */
-  async getCompanyAuditLog(companyId: string): Promise<AuditLogEntry[]> {
-    // This would integrate with your audit logging system
-    // For now, returning placeholder structure
-    return [];
+  async getCompanyAuditLog(
+    companyId: string,
+    queryDto: CompanyAuditLogQueryDto = {}
+  ): Promise<CompanyAuditLogResponseDto> {
+    const { page = 1, limit = 20, action, performedBy, startDate, endDate } = queryDto;
+    const offset = (page - 1) * limit;
+
+    if (startDate && endDate && new Date(startDate) > new Date(endDate)) {
+      throw new BadRequestException('startDate must be before or equal to endDate');
+    }
+
+    const whereClause: Record<string, unknown> = { company_id: companyId };
+
+    if (action) {
+      whereClause.action = action;
+    }
+
+    if (performedBy) {
+      whereClause.performed_by = performedBy;
+    }
+
+    if (startDate || endDate) {
+      whereClause.performed_at = {
+        ...(startDate && { [Op.gte]: new Date(startDate) }),
+        ...(endDate && { [Op.lte]: new Date(endDate) }),
+      };
+    }
+
+    try {
+      const { count, rows: auditLogs } = await this.companyAuditLogModel.findAndCountAll({
+        where: whereClause,
+        include: [
+          {
+            model: User,
+            as: 'performer',
+            attributes: ['id', 'first_name', 'last_name', 'email'],
+            required: false,
+          },
+        ],
+        limit,
+        offset,
+        order: [['performed_at', 'DESC']],
+      });
+
+      const formattedEntries = auditLogs.map(
+        (log): CompanyAuditLogEntryDto => ({
+          id: log.id,
+          companyId: log.company_id,
+          action: log.action,
+          performedAt: log.performed_at,
+          previousStatus: log.previous_status ?? null,
+          newStatus: log.new_status ?? null,
+          reason: log.reason ?? null,
+          details: log.details ?? null,
+          ipAddress: log.ip_address ?? null,
+          userAgent: log.user_agent ?? null,
+          performedBy: log.performer
+            ? {
+                id: log.performer.id,
+                firstName: log.performer.first_name,
+                lastName: log.performer.last_name,
+                email: log.performer.email,
+              }
+            : { id: log.performed_by },
+        })
+      );
+
+      return {
+        entries: formattedEntries,
+        totalCount: count,
+        totalPages: Math.ceil(count / limit),
+        currentPage: page,
+      };
+    } catch (error) {
+      console.error('Error getting company audit log:', error);
+      throw new BadRequestException('Failed to retrieve company audit log');
+    }
   }
 
   /**
-   * Private method to add audit log entries
+   * Private method to persist audit log entries
+   * Runs inside the caller's transaction so the entry commits or rolls back with the change.
+   * The entry is also appended to the company's hash-chained audit trail.
    */
-  private async addAuditLog(companyId: string, entry: AuditLogEntry): Promise<void> {
-    // TODO: Integrate with your audit logging system
-    console.log(`Audit Log for Company ${companyId}:`, entry);
+  private async addAuditLog(
+    companyId: string,
+    entry: AuditLogEntry,
+    transaction: Transaction,
+    auditContext?: AuditRequestContext
+  ): Promise<void> {
+    await this.companyAuditLogModel.create(
+      {
+        company_id: companyId,
+        action: entry.action,
+        performed_by: entry.performedBy,
+        performed_at: entry.performedAt,
+        previous_status: entry.previousStatus,
+        new_status: entry.newStatus,
+        reason: entry.reason ?? undefined,
+        details: entry.details,
+        ip_address: auditContext?.ipAddress,
+        user_agent: auditContext?.userAgent,
+      },
+      { transaction }
+    );
+
+    await this.auditTrailService.append(
+      {
+        tenantId: companyId,
+        source: AuditSource.COMPANY,
+        action: entry.action,
+        entityId: companyId,
+        performedBy: entry.performedBy,
+        performedAt: entry.performedAt,
+        payload: {
+          previousStatus: entry.previousStatus,
+          newStatus: entry.newStatus,
+          reason: entry.reason ?? undefined,
+          details: entry.details,
+          ipAddress: auditContext?.ipAddress,
+          userAgent: auditContext?.userAgent,
+          impersonatedBy: auditContext?.impersonatedBy,
+        },
+      },
+      transaction
+    );
   }
 
   /**
@@ -555,7 +736,11 @@ export class CompanyService {
     }
   }
 
-  async createCompany(createCompanyDto: CreateCompanyDto, userId: string): Promise<Company> {
+  async createCompany(
+    createCompanyDto: CreateCompanyDto,
+    userId: string,
+    auditContext?: AuditRequestContext
+  ): Promise<Company> {
     const transaction = await this.sequelize.transaction();
 
     try {
@@ -610,6 +795,19 @@ export class CompanyService {
         { where: { id: userId }, transaction }
       );
 
+      await this.addAuditLog(
+        company.id,
+        {
+          action: AuditAction.COMPANY_CREATED,
+          performedBy: userId,
+          performedAt: new Date(),
+          newStatus: CompanyStatus.PENDING_APPROVAL,
+          details: { companyName: company.name },
+        },
+        transaction,
+        auditContext
+      );
+
       await transaction.commit();
       return company;
     } catch (error) {
@@ -787,11 +985,19 @@ export class CompanyService {
     }
   }
 
+  /**
+   * Adds a user to the company. Users without a company get it as their home company;
+   * users of another company become members with the given role (Vendor Employee by default).
+   */
   async addUserToCompany(
     companyId: string,
     userId: string,
-    requestingUserId: string
+    requestingUserId: string,
+    auditContext?: AuditRequestContext,
+    role?: UserRole
   ): Promise<any> {
+    const transaction = await this.sequelize.transaction();
+
     try {
       await this.companyValidationService.validateUserCanManageCompany(requestingUserId, companyId);
 
@@ -803,21 +1009,47 @@ export class CompanyService {
             attributes: ['id', 'name', 'code'],
           },
         ],
+        transaction,
       });
       if (!user) {
         throw new NotFoundException('User not found');
       }
 
-      if (user.company_id) {
-        throw new BadRequestException('User already belongs to a company');
+      if (user.company_id === companyId) {
+        throw new BadRequestException('User already belongs to this company');
       }
 
-      const company = await this.companyModel.findByPk(companyId);
+      const company = await this.companyModel.findByPk(companyId, { transaction });
       if (!company) {
         throw new NotFoundException('Company not found');
       }
 
-      await user.update({ company_id: companyId });
+      if (user.company_id) {
+        return await this.addMemberToCompany(
+          company,
+          user,
+          role ?? UserRole.VENDOR_EMPLOYEE,
+          requestingUserId,
+          transaction,
+          auditContext
+        );
+      }
+
+      await user.update({ company_id: companyId }, { transaction });
+
+      await this.addAuditLog(
+        companyId,
+        {
+          action: AuditAction.USER_ADDED,
+          performedBy: requestingUserId,
+          performedAt: new Date(),
+          details: { userId: user.id },
+        },
+        transaction,
+        auditContext
+      );
+
+      await transaction.commit();
 
       return {
         message: 'User added to company successfully',
@@ -837,39 +1069,142 @@ export class CompanyService {
         },
       };
     } catch (error) {
+      await transaction.rollback();
       console.error('Error adding user to company:', error);
       throw error;
     }
   }
 
+  /**
+   * Adds a user of another company as a member; their home company is left unchanged.
+   * Commits the transaction started by addUserToCompany.
+   */
+  private async addMemberToCompany(
+    company: Company,
+    user: User,
+    role: UserRole,
+    requestingUserId: string,
+    transaction: Transaction,
+    auditContext?: AuditRequestContext
+  ): Promise<any> {
+    if (!MEMBERSHIP_ROLES.includes(role)) {
+      throw new BadRequestException({
+        success: false,
+        code: ERROR_CODES.COMPANY_MEMBERSHIP_ROLE_NOT_ALLOWED,
+        message: `Members from other companies can only be given one of these roles: ${MEMBERSHIP_ROLES.join(', ')}`,
+      });
+    }
+
+    const roleId = await this.getRoleIdByEnum(role);
+    await this.companyMembershipService.addMembership(
+      user,
+      company.id,
+      roleId,
+      requestingUserId,
+      transaction
+    );
+
+    await this.addAuditLog(
+      company.id,
+      {
+        action: AuditAction.USER_ADDED,
+        performedBy: requestingUserId,
+        performedAt: new Date(),
+        details: { userId: user.id, membership: true, roleId },
+      },
+      transaction,
+      auditContext
+    );
+
+    await transaction.commit();
+
+    const membershipRole = await this.roleModel.findByPk(roleId, {
+      attributes: ['id', 'name', 'code'],
+    });
+
+    return {
+      message: 'User added to company successfully',
+      user: {
+        id: user.id,
+        firstName: user.first_name,
+        lastName: user.last_name,
+        email: user.email,
+        role: membershipRole
+          ? { id: membershipRole.id, name: membershipRole.name, code: membershipRole.code }
+          : null,
+        companyId: company.id,
+        homeCompanyId: user.company_id,
+      },
+    };
+  }
+
   async removeUserFromCompany(
     companyId: string,
     userId: string,
-    requestingUserId: string
+    requestingUserId: string,
+    auditContext?: AuditRequestContext
   ): Promise<void> {
+    const transaction = await this.sequelize.transaction();
+
     try {
       await this.companyValidationService.validateUserCanManageCompany(requestingUserId, companyId);
 
-      const user = await this.userModel.findByPk(userId);
+      const user = await this.userModel.findByPk(userId, { transaction });
       if (!user) {
         throw new NotFoundException('User not found');
       }
 
-      if (user.company_id !== companyId) {
-        throw new BadRequestException('User does not belong to this company');
-      }
-
-      const company = await this.companyModel.findByPk(companyId);
+      const company = await this.companyModel.findByPk(companyId, { transaction });
       if (!company) {
         throw new NotFoundException('Company not found');
       }
 
+      // Members from other companies only lose their membership
+      if (user.company_id !== companyId) {
+        await this.companyMembershipService.revokeMembership(
+          userId,
+          companyId,
+          requestingUserId,
+          transaction
+        );
+
+        await this.addAuditLog(
+          companyId,
+          {
+            action: AuditAction.USER_REMOVED,
+            performedBy: requestingUserId,
+            performedAt: new Date(),
+            details: { userId: user.id, membership: true },
+          },
+          transaction,
+          auditContext
+        );
+
+        await transaction.commit();
+        return;
+      }
+
       if (company.owner_id === userId) {
         throw new BadRequestException('Cannot remove company owner');
       }
 
-      await user.update({ company_id: null });
+      await user.update({ company_id: null }, { transaction });
+
+      await this.addAuditLog(
+        companyId,
+        {
+          action: AuditAction.USER_REMOVED,
+          performedBy: requestingUserId,
+          performedAt: new Date(),
+          details: { userId: user.id },
+        },
+        transaction,
+        auditContext
+      );
+
+      await transaction.commit();
     } catch (error) {
+      await transaction.rollback();
       console.error('Error removing user from company:', error);
       throw error;
     }
@@ -964,7 +1299,12 @@ export class CompanyService {
   /**
    * Delete a company (with Acme protection)
    */
-  async deleteCompany(companyId: string, adminUserId: string, reason: string): Promise<void> {
+  async deleteCompany(
+    companyId: string,
+    adminUserId: string,
+    reason: string,
+    auditContext?: AuditRequestContext
+  ): Promise<void> {
     const transaction = await this.sequelize.transaction();
 
     try {
@@ -999,14 +1339,19 @@ export class CompanyService {
         );
       }
 
-      await this.addAuditLog(companyId, {
-        action: 'COMPANY_DELETED',
-        performedBy: adminUserId,
-        performedAt: new Date(),
-        previousStatus: company.status,
-        reason,
-        details: { companyName: company.name, companyType: company.type },
-      });
+      await this.addAuditLog(
+        companyId,
+        {
+          action: AuditAction.COMPANY_DELETED,
+          performedBy: adminUserId,
+          performedAt: new Date(),
+          previousStatus: company.status,
+          reason,
+          details: { companyName: company.name, companyType: company.type },
+        },
+        transaction,
+        auditContext
+      );
 
       await this.companyModel.destroy({
         where: { id: companyId },
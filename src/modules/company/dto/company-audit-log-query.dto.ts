@@ -0,0 +1,74 @@
+import { IsDateString, IsEnum, IsNumber, IsOptional, IsUUID, Max, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { AuditAction } from '../entities/company-audit-log.entity';
+
+export class CompanyAuditLogQueryDto {
+  @ApiProperty({
+    description: 'Page number',
+    required: false,
+    default: 1,
+    minimum: 1,
+    example: 1,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: 'Page must be a number' })
+  @Min(1, { message: 'Page must be at least 1' })
+  page?: number = 1;
+
+  @ApiProperty({
+    description: 'Items per page',
+    required: false,
+    default: 20,
+    minimum: 1,
+    maximum: 100,
+    example: 20,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: 'Limit must be a number' })
+  @Min(1, { message: 'Limit must be at least 1' })
+  @Max(100, { message: 'Limit cannot exceed 100' })
+  limit?: number = 20;
+
+  @ApiProperty({
+    description: 'Filter by audit action',
+    enum: AuditAction,
+    required: false,
+    enumName: 'AuditAction',
+    example: AuditAction.VENDOR_APPROVED,
+  })
+  @IsOptional()
+  @IsEnum(AuditAction, {
+    message: `Action must be one of: ${Object.values(AuditAction).join(', ')}`,
+  })
+  action?: AuditAction;
+
+  @ApiProperty({
+    description: 'Filter by the ID of the user who performed the action',
+    required: false,
+    example: 'a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11',
+  })
+  @IsOptional()
+  @IsUUID('4', { message: 'performedBy must be a valid UUID' })
+  performedBy?: string;
+
+  @ApiProperty({
+    description: 'Only include entries performed at or after this date (ISO 8601)',
+    required: false,
+    example: '2025-01-01T00:00:00Z',
+  })
+  @IsOptional()
+  @IsDateString({}, { message: 'startDate must be a valid ISO 8601 date' })
+  startDate?: string;
+
+  @ApiProperty({
+    description: 'Only include entries performed at or before this date (ISO 8601)',
+    required: false,
+    example: '2025-12-31T23:59:59Z',
+  })
+  @IsOptional()
+  @IsDateString({}, { message: 'endDate must be a valid ISO 8601 date' })
+  endDate?: string;
+}
@@ -0,0 +1,69 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { AuditAction } from '../entities/company-audit-log.entity';
+import { CompanyStatus } from '../entities/company.entity';
+
+export class CompanyAuditLogPerformerDto {
+  @ApiProperty({ example: 'a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11' })
+  id: string;
+
+  @ApiPropertyOptional({ example: 'Jane', description: 'Omitted when the user no longer exists' })
+  firstName?: string;
+
+  @ApiPropertyOptional({ example: 'Doe', description: 'Omitted when the user no longer exists' })
+  lastName?: string;
+
+  @ApiPropertyOptional({
+    example: 'jane@acme.com',
+    description: 'Omitted when the user no longer exists',
+  })
+  email?: string;
+}
+
+export class CompanyAuditLogEntryDto {
+  @ApiProperty({ example: '6ba7b810-9dad-11d1-80b4-00c04fd430c8' })
+  id: string;
+
+  @ApiProperty({ example: 'f81d4fae-7dec-11d0-a765-00a0c91e6bf6' })
+  companyId: string;
+
+  @ApiProperty({ enum: AuditAction, enumName: 'AuditAction' })
+  action: AuditAction;
+
+  @ApiProperty()
+  performedAt: Date;
+
+  @ApiProperty({ enum: CompanyStatus, nullable: true })
+  previousStatus: CompanyStatus | null;
+
+  @ApiProperty({ enum: CompanyStatus, nullable: true })
+  newStatus: CompanyStatus | null;
+
+  @ApiProperty({ type: String, nullable: true })
+  reason: string | null;
+
+  @ApiProperty({ type: Object, nullable: true, description: 'Action-specific details' })
+  details: Record<string, any> | null;
+
+  @ApiProperty({ type: String, nullable: true, example: '203.0.113.7' })
+  ipAddress: string | null;
+
+  @ApiProperty({ type: String, nullable: true })
+  userAgent: string | null;
+
+  @ApiProperty({ type: CompanyAuditLogPerformerDto })
+  performedBy: CompanyAuditLogPerformerDto;
+}
+
+export class CompanyAuditLogResponseDto {
+  @ApiProperty({ type: [CompanyAuditLogEntryDto], description: 'Entries, newest first' })
+  entries: CompanyAuditLogEntryDto[];
+
+  @ApiProperty({ example: 42 })
+  totalCount: number;
+
+  @ApiProperty({ example: 3 })
+  totalPages: number;
+
+  @ApiProperty({ example: 1 })
+  currentPage: number;
+}
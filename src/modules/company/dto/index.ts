@@ -12,3 +12,5 @@ export * from './company-response.dto';
 export * from './company-list-query.dto';
 export * from './admin-list-companies.dto';
 export * from './admin-create-vendor.dto';
+export * from './company-audit-log-query.dto';
+export * from './company-audit-log-response.dto';
@@ -99,9 +99,10 @@ export class RegisterVendorDto {
   auth0UserId: string;
 
   @ApiProperty({
-    description: 'Whether the admin user is a lawyer',
+    description:
+      'Ignored: lawyer status is derived from verified lawyer credentials (POST /lawyer-credentials)',
     required: false,
-    default: false,
+    deprecated: true,
   })
   @IsBoolean()
   @IsOptional()
@@ -22,6 +22,7 @@ export enum AuditAction {
   VENDOR_REACTIVATED = 'VENDOR_REACTIVATED',
   COMPANY_CREATED = 'COMPANY_CREATED',
   COMPANY_UPDATED = 'COMPANY_UPDATED',
+  COMPANY_DELETED = 'COMPANY_DELETED',
   USER_ADDED = 'USER_ADDED',
   USER_REMOVED = 'USER_REMOVED',
   ADMIN_ACCESS = 'ADMIN_ACCESS',
@@ -55,7 +56,7 @@ export enum AuditAction {
     },
   ],
 })
-export class CompanyAuditLog extends Model<CompanyAuditLog> {
+export class CompanyAuditLog extends Model {
   @PrimaryKey
   @Default(DataType.UUIDV4)
   @Column(DataType.UUID)
@@ -99,7 +100,7 @@ export class CompanyAuditLog extends Model<CompanyAuditLog> {
   reason?: string;
 
   @Column(DataType.JSON)
-  details?: any;
+  details?: Record<string, any>;
 
   @Column(DataType.STRING(45)) // Support IPv6
   ip_address?: string;
@@ -112,7 +113,8 @@ export class CompanyAuditLog extends Model<CompanyAuditLog> {
   created_at: Date;
 
   // Associations
-  @BelongsTo(() => Company)
+  // No FK constraint on company_id so history survives company deletion
+  @BelongsTo(() => Company, { foreignKey: 'company_id', constraints: false })
   company: Company;
 
   @BelongsTo(() => User, 'performed_by')
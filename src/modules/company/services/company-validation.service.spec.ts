@@ -5,12 +5,14 @@ import { CompanyValidationService } from './company-validation.service';
 import { Company } from '../entities/company.entity';
 import { User } from '../../auth/entities/user.entity';
 import { Team } from '../../team/entities/team.entity';
+import { CompanyMembership } from '../../company-membership/entities/company-membership.entity';
 
 describe('CompanyValidationService', () => {
   let service: CompanyValidationService;
   let mockCompanyModel: any;
   let mockUserModel: any;
   let mockTeamModel: any;
+  let mockMembershipModel: any;
 
   beforeEach(async () => {
     mockCompanyModel = {
@@ -27,6 +29,11 @@ describe('CompanyValidationService', () => {
       findOne: jest.fn(),
     };
 
+    mockMembershipModel = {
+      findOne: jest.fn().mockResolvedValue(null),
+      findAll: jest.fn().mockResolvedValue([]),
+    };
+
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         CompanyValidationService,
@@ -42,6 +49,10 @@ describe('CompanyValidationService', () => {
           provide: getModelToken(Team),
           useValue: mockTeamModel,
         },
+        {
+          provide: getModelToken(CompanyMembership),
+          useValue: mockMembershipModel,
+        },
       ],
     }).compile();
 
@@ -79,6 +90,18 @@ describe('CompanyValidationService', () => {
       );
     });
 
+    it('should pass when user is an active member of the company', async () => {
+      mockUserModel.findByPk.mockResolvedValue({
+        id: 'user-1',
+        company_id: 'company-2',
+      });
+      mockMembershipModel.findOne.mockResolvedValue({ user_id: 'user-1', company_id: 'company-1' });
+
+      await expect(
+        service.validateUserBelongsToCompany('user-1', 'company-1')
+      ).resolves.not.toThrow();
+    });
+
     it('should throw BadRequestException when user has no company', async () => {
       mockUserModel.findByPk.mockResolvedValue({
         id: 'user-1',
@@ -121,6 +144,18 @@ describe('CompanyValidationService', () => {
         service.validateUsersBelongToCompany(['user-1', 'user-2'], 'company-1')
       ).rejects.toThrow(BadRequestException);
     });
+
+    it('should pass when users from other companies are members of the company', async () => {
+      mockUserModel.findAll.mockResolvedValue([
+        { id: 'user-1', company_id: 'company-1' },
+        { id: 'user-2', company_id: 'company-2' },
+      ]);
+      mockMembershipModel.findAll.mockResolvedValue([{ user_id: 'user-2' }]);
+
+      await expect(
+        service.validateUsersBelongToCompany(['user-1', 'user-2'], 'company-1')
+      ).resolves.not.toThrow();
+    });
   });
 
   describe('validateCompanyExists', () => {
@@ -190,6 +225,26 @@ describe('CompanyValidationService', () => {
         BadRequestException
       );
     });
+
+    it('should use the membership role in a company other than the home company', async () => {
+      mockUserModel.findByPk.mockResolvedValue({
+        id: 'user-1',
+        role: { name: 'Vendor Admin' },
+        company_id: 'company-2',
+      });
+      mockCompanyModel.findByPk.mockResolvedValue({ id: 'company-1', owner_id: 'user-2' });
+      mockMembershipModel.findOne.mockResolvedValue({ role: { name: 'Vendor Employee' } });
+
+      await expect(service.validateUserCanManageCompany('user-1', 'company-1')).rejects.toThrow(
+        BadRequestException
+      );
+
+      mockMembershipModel.findOne.mockResolvedValue({ role: { name: 'Vendor Manager' } });
+
+      await expect(
+        service.validateUserCanManageCompany('user-1', 'company-1')
+      ).resolves.not.toThrow();
+    });
   });
 
   describe('validateTeamNameUniqueness', () => {
@@ -258,5 +313,18 @@ describe('CompanyValidationService', () => {
         BadRequestException
       );
     });
+
+    it('should pass when vendor user is a member of the other company', async () => {
+      mockUserModel.findByPk.mockResolvedValue({
+        id: 'user-1',
+        role: { name: 'Vendor Employee' },
+        company_id: 'company-1',
+      });
+      mockMembershipModel.findOne.mockResolvedValue({ user_id: 'user-1', company_id: 'company-2' });
+
+      await expect(
+        service.validateCrossCompanyAccess('user-1', 'company-2')
+      ).resolves.not.toThrow();
+    });
   });
 });
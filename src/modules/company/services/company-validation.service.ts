@@ -4,6 +4,11 @@ import { Op } from 'sequelize';
 import { Company } from '../entities/company.entity';
 import { User } from '../../auth/entities/user.entity';
 import { Team } from '../../team/entities/team.entity';
+import { Role } from '../../role/entities/role.entity';
+import {
+  CompanyMembership,
+  CompanyMembershipStatus,
+} from '../../company-membership/entities/company-membership.entity';
 
 @Injectable()
 export class CompanyValidationService {
@@ -13,11 +18,13 @@ export class CompanyValidationService {
     @InjectModel(User)
     private userModel: typeof User,
     @InjectModel(Team)
-    private teamModel: typeof Team
+    private teamModel: typeof Team,
+    @InjectModel(CompanyMembership)
+    private membershipModel: typeof CompanyMembership
   ) {}
 
   /**
-   * Validates that a user belongs to a specific company
+   * Validates that a user belongs to a specific company, as home company or through an active membership
    */
   async validateUserBelongsToCompany(userId: string, companyId: string): Promise<void> {
     const user = await this.userModel.findByPk(userId);
@@ -25,7 +32,7 @@ export class CompanyValidationService {
       throw new NotFoundException(`User with ID ${userId} not found`);
     }
 
-    if (user.company_id !== companyId) {
+    if (user.company_id !== companyId && !(await this.findActiveMembership(userId, companyId))) {
       throw new BadRequestException(
         `User ${userId} does not belong to company ${companyId}. User belongs to company ${user.company_id || 'none'}`
       );
@@ -47,7 +54,15 @@ export class CompanyValidationService {
       throw new NotFoundException(`Users not found: ${missingUserIds.join(', ')}`);
     }
 
-    const invalidUsers = users.filter((user) => user.company_id !== companyId);
+    const memberships = await this.membershipModel.findAll({
+      where: { user_id: userIds, company_id: companyId, status: CompanyMembershipStatus.ACTIVE },
+      attributes: ['user_id'],
+    });
+    const memberIds = new Set(memberships.map((membership) => membership.user_id));
+
+    const invalidUsers = users.filter(
+      (user) => user.company_id !== companyId && !memberIds.has(user.id)
+    );
     if (invalidUsers.length > 0) {
       const invalidUserInfo = invalidUsers
         .map((u) => `${u.id} (belongs to company ${u.company_id || 'none'})`)
@@ -83,15 +98,19 @@ export class CompanyValidationService {
       throw new NotFoundException(`Company with ID ${companyId} not found`);
     }
 
-    // User must be the company owner or belong to the company with admin/manager role
+    // User must be the company owner or belong to the company with admin/manager role.
+    // In a company other than their home company, the role of their membership applies.
     const isOwner = company.owner_id === userId;
-    const isCompanyMember = user.company_id === companyId;
+    const membership =
+      user.company_id === companyId ? null : await this.findActiveMembership(userId, companyId);
+    const isCompanyMember = user.company_id === companyId || !!membership;
+    const role = membership ? membership.role : user.role;
     const hasManagementRole = [
       'Vendor Admin',
       'Vendor Manager',
       'Acme Admin',
       'Acme Manager',
-    ].includes(user.role?.name || '');
+    ].includes(role?.name || '');
 
     if (!isOwner && !(isCompanyMember && hasManagementRole)) {
       throw new BadRequestException('User does not have permission to manage this company');
@@ -139,17 +158,26 @@ export class CompanyValidationService {
     }
 
     // Allow Acme employees to access any company
-    if (
-      ['Acme Admin', 'Acme Manager', 'Acme Employee'].includes(
-        requestingUser.role?.name || ''
-      )
-    ) {
+    if (['Acme Admin', 'Acme Manager', 'Acme Employee'].includes(requestingUser.role?.name || '')) {
       return;
     }
 
-    // For vendor users, they can only access their own company
-    if (requestingUser.company_id !== targetCompanyId) {
+    // For vendor users, they can only access their own company and those they are members of
+    if (
+      requestingUser.company_id !== targetCompanyId &&
+      !(await this.findActiveMembership(requestingUserId, targetCompanyId))
+    ) {
       throw new BadRequestException('Access denied: Cannot access data from a different company');
     }
   }
+
+  private findActiveMembership(
+    userId: string,
+    companyId: string
+  ): Promise<CompanyMembership | null> {
+    return this.membershipModel.findOne({
+      where: { user_id: userId, company_id: companyId, status: CompanyMembershipStatus.ACTIVE },
+      include: [{ model: Role, attributes: ['id', 'name', 'code'] }],
+    });
+  }
 }
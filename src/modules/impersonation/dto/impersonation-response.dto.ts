@@ -0,0 +1,42 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ImpersonatedUserDto {
+  @ApiProperty({ example: 'a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11' })
+  id: string;
+
+  @ApiProperty({ example: 'jane@vendor.com' })
+  email: string;
+
+  @ApiProperty({ example: 'Jane' })
+  firstName: string;
+
+  @ApiProperty({ example: 'Doe' })
+  lastName: string;
+
+  @ApiProperty({ example: 'f81d4fae-7dec-11d0-a765-00a0c91e6bf6', nullable: true })
+  companyId: string | null;
+}
+
+export class ImpersonationSessionResponseDto {
+  @ApiProperty({ example: '6ba7b810-9dad-11d1-80b4-00c04fd430c8' })
+  id: string;
+
+  @ApiProperty({ type: ImpersonatedUserDto })
+  targetUser: ImpersonatedUserDto;
+
+  @ApiProperty()
+  expiresAt: Date;
+
+  @ApiProperty({ type: Date, nullable: true })
+  endedAt: Date | null;
+}
+
+export class StartedImpersonationResponseDto extends ImpersonationSessionResponseDto {
+  @ApiProperty({
+    description:
+      'Session token. It is shown only once; send it in the X-Impersonation-Token header ' +
+      'together with your own access token.',
+    example: 'acme_imp_Q2hhbmdlIG1lIHBsZWFzZSBhbmQgdGhhbmsgeW91',
+  })
+  token: string;
+}
@@ -0,0 +1,26 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsInt, IsNotEmpty, IsOptional, IsString, Max, MaxLength, Min } from 'class-validator';
+
+export class StartImpersonationDto {
+  @ApiProperty({
+    description: 'Why the session is needed, written to the audit log',
+    example: 'Ticket #4821: vendor admin cannot see team documents',
+    maxLength: 500,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  reason: string;
+
+  @ApiPropertyOptional({
+    description: 'Length of the session in minutes (IMPERSONATION_TTL_MINUTES when omitted)',
+    example: 15,
+    minimum: 1,
+    maximum: 60,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(60)
+  durationMinutes?: number;
+}
@@ -0,0 +1,79 @@
+import {
+  AllowNull,
+  BelongsTo,
+  Column,
+  CreatedAt,
+  DataType,
+  Default,
+  ForeignKey,
+  Model,
+  PrimaryKey,
+  Table,
+  UpdatedAt,
+} from 'sequelize-typescript';
+import { User } from '../../auth/entities/user.entity';
+
+/**
+ * Support session in which an Acme staff member (actor) acts as another user (target).
+ * The session token is sent in the X-Impersonation-Token header next to the actor's
+ * own access token; only its SHA-256 hash is stored.
+ */
+@Table({
+  tableName: 'ImpersonationSessions',
+  timestamps: true,
+  underscored: true,
+  indexes: [
+    {
+      fields: ['token_hash'],
+      unique: true,
+      name: 'uq_impersonation_sessions_token_hash',
+    },
+    {
+      fields: ['actor_id', 'ended_at'],
+      name: 'idx_impersonation_sessions_actor',
+    },
+  ],
+})
+export class ImpersonationSession extends Model {
+  @PrimaryKey
+  @Default(DataType.UUIDV4)
+  @Column(DataType.UUID)
+  id: string;
+
+  @AllowNull(false)
+  @ForeignKey(() => User)
+  @Column(DataType.UUID)
+  actor_id: string;
+
+  @AllowNull(false)
+  @ForeignKey(() => User)
+  @Column(DataType.UUID)
+  target_user_id: string;
+
+  @AllowNull(false)
+  @Column(DataType.STRING(500))
+  reason: string;
+
+  @AllowNull(false)
+  @Column(DataType.CHAR(64))
+  token_hash: string;
+
+  @AllowNull(false)
+  @Column(DataType.DATE)
+  expires_at: Date;
+
+  @Column(DataType.DATE)
+  ended_at?: Date | null;
+
+  @BelongsTo(() => User, 'actor_id')
+  actor?: User;
+
+  @BelongsTo(() => User, 'target_user_id')
+  target_user?: User;
+
+  @CreatedAt
+  created_at: Date;
+
+  @UpdatedAt
+  updated_at: Date;
+}
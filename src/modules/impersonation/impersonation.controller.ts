@@ -0,0 +1,80 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Delete,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiParam, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { ERROR_CODES } from '../../common/constants/error-codes';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { Impersonation } from '../../common/decorators/impersonation.decorator';
+import { ResponseMessage } from '../../common/decorators/response-message.decorator';
+import { ApiResponseDto } from '../../common/dto/api-response.dto';
+import { JwtAuthGuard } from '../../core/guards/jwt-auth.guard';
+import { PermissionsGuard, RequirePermissions } from '../../core/guards/permissions.guard';
+import { SuperAdminBypassGuard } from '../../core/guards/super-admin-bypass.guard';
+import { User } from '../auth/entities/user.entity';
+import {
+  ImpersonationSessionResponseDto,
+  StartedImpersonationResponseDto,
+} from './dto/impersonation-response.dto';
+import { StartImpersonationDto } from './dto/start-impersonation.dto';
+import { ImpersonationContext, ImpersonationService } from './impersonation.service';
+
+@ApiTags('admin')
+@Controller('admin/impersonate')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class ImpersonationController {
+  constructor(private readonly impersonationService: ImpersonationService) {}
+
+  @Post(':userId')
+  @UseGuards(JwtAuthGuard, SuperAdminBypassGuard, PermissionsGuard)
+  @RequirePermissions('users:impersonate')
+  @ApiOperation({
+    summary: 'Start impersonating a user',
+    description:
+      'Starts a short-lived support session. Send the returned token in the ' +
+      'X-Impersonation-Token header together with your own access token to act as the user. ' +
+      'Super admins and Acme staff cannot be impersonated. Every request is audited.',
+  })
+  @ApiParam({ name: 'userId', description: 'UUID of the user to impersonate' })
+  @ApiResponse({ status: 201, type: StartedImpersonationResponseDto })
+  @ApiResponse({ status: 403, description: 'Target cannot be impersonated', type: ApiResponseDto })
+  @ApiResponse({ status: 404, description: 'User not found', type: ApiResponseDto })
+  @ResponseMessage('Impersonation started', 'IMPERSONATION_STARTED')
+  async start(
+    @Param('userId', ParseUUIDPipe) userId: string,
+    @Body() startDto: StartImpersonationDto,
+    @CurrentUser() currentUser: User
+  ): Promise<StartedImpersonationResponseDto> {
+    return this.impersonationService.start(userId, startDto, currentUser);
+  }
+
+  @Delete()
+  @ApiOperation({
+    summary: 'Stop impersonating',
+    description: 'Ends the session of the X-Impersonation-Token header sent with this request.',
+  })
+  @ApiResponse({ status: 200, type: ImpersonationSessionResponseDto })
+  @ApiResponse({ status: 400, description: 'Not impersonating', type: ApiResponseDto })
+  @ResponseMessage('Impersonation ended', 'IMPERSONATION_ENDED')
+  async end(
+    @Impersonation() impersonation: ImpersonationContext | undefined,
+    @CurrentUser() targetUser: User
+  ): Promise<ImpersonationSessionResponseDto> {
+    if (!impersonation) {
+      throw new BadRequestException({
+        success: false,
+        code: ERROR_CODES.IMPERSONATION_NOT_ACTIVE,
+        message: 'This request is not impersonating a user.',
+      });
+    }
+
+    return this.impersonationService.end(impersonation, targetUser);
+  }
+}
@@ -0,0 +1,19 @@
+import { Global, Module } from '@nestjs/common';
+import { SequelizeModule } from '@nestjs/sequelize';
+import { User } from '../auth/entities/user.entity';
+import { RoleModule } from '../role/role.module';
+import { ImpersonationSession } from './entities/impersonation-session.entity';
+import { ImpersonationController } from './impersonation.controller';
+import { ImpersonationService } from './impersonation.service';
+
+/**
+ * Global so that JwtAuthGuard can resolve impersonation sessions in every module that uses it
+ */
+@Global()
+@Module({
+  imports: [SequelizeModule.forFeature([ImpersonationSession, User]), RoleModule],
+  controllers: [ImpersonationController],
+  providers: [ImpersonationService],
+  exports: [ImpersonationService],
+})
+export class ImpersonationModule {}
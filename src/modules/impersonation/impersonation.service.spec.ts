@@ -0,0 +1,306 @@
+import { ForbiddenException, NotFoundException, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { getConnectionToken, getModelToken } from '@nestjs/sequelize';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ERROR_CODES } from '../../common/constants/error-codes';
+import { AuditTrailService } from '../audit/audit-trail.service';
+import { AuditSource } from '../audit/entities/audit-record.entity';
+import { User, UserRole, UserStatus } from '../auth/entities/user.entity';
+import { PermissionsService } from '../role/permissions.service';
+import { ImpersonationSession } from './entities/impersonation-session.entity';
+import { ImpersonationService } from './impersonation.service';
+
+describe('ImpersonationService', () => {
+  let service: ImpersonationService;
+  let sessionModel: any;
+  let userModel: any;
+  let auditTrailService: any;
+  let permissionsService: { isSuperAdmin: jest.Mock; hasPermission: jest.Mock };
+
+  const buildUser = (
+    id: string,
+    role: UserRole,
+    companyId: string | null = 'company-1',
+    status = UserStatus.ACTIVE
+  ) =>
+    ({
+      id,
+      status,
+      email: `${id}@example.com`,
+      first_name: 'Jane',
+      last_name: 'Doe',
+      company_id: companyId,
+      hasRoleEnum: jest.fn((r: UserRole) => r === role),
+    }) as unknown as User;
+
+  const actor = buildUser('actor-1', UserRole.ACME_ADMIN, 'acme');
+  const vendorUser = buildUser('target-1', UserRole.VENDOR_EMPLOYEE);
+
+  const buildSession = (overrides: Record<string, any> = {}) => ({
+    id: 'session-1',
+    actor_id: 'actor-1',
+    target_user_id: 'target-1',
+    expires_at: new Date(Date.now() + 60 * 1000),
+    ended_at: null,
+    update: jest.fn(),
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    sessionModel = {
+      findOne: jest.fn(),
+      update: jest.fn(),
+      create: jest.fn(async (values) => ({ id: 'session-1', ended_at: null, ...values })),
+    };
+    userModel = { findByPk: jest.fn() };
+    auditTrailService = { append: jest.fn() };
+    permissionsService = {
+      isSuperAdmin: jest.fn().mockResolvedValue(false),
+      hasPermission: jest.fn().mockResolvedValue({ granted: true }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ImpersonationService,
+        { provide: getModelToken(ImpersonationSession), useValue: sessionModel },
+        { provide: getModelToken(User), useValue: userModel },
+        { provide: AuditTrailService, useValue: auditTrailService },
+        { provide: PermissionsService, useValue: permissionsService },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((_key: string, defaultValue?: unknown) => defaultValue) },
+        },
+        {
+          provide: getConnectionToken(),
+          useValue: { transaction: jest.fn((callback) => callback({})) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<ImpersonationService>(ImpersonationService);
+  });
+
+  describe('start', () => {
+    it('should issue a hashed session token and audit the reason', async () => {
+      userModel.findByPk.mockResolvedValue(vendorUser);
+
+      const result = await service.start('target-1', { reason: 'Ticket #1' }, actor);
+
+      expect(result.token).toMatch(/^acme_imp_/);
+      expect(result.targetUser.id).toBe('target-1');
+      expect(result.expiresAt.getTime() - Date.now()).toBeLessThanOrEqual(15 * 60 * 1000);
+      expect(sessionModel.update).toHaveBeenCalledWith(
+        { ended_at: expect.any(Date) },
+        { where: { actor_id: 'actor-1', ended_at: null }, transaction: {} }
+      );
+      expect(sessionModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          actor_id: 'actor-1',
+          target_user_id: 'target-1',
+          reason: 'Ticket #1',
+          token_hash: ImpersonationService.hashToken(result.token),
+        }),
+        { transaction: {} }
+      );
+      expect(auditTrailService.append).toHaveBeenCalledWith(
+        expect.objectContaining({
+          tenantId: 'company-1',
+          source: AuditSource.IMPERSONATION,
+          action: 'IMPERSONATION_STARTED',
+          entityId: 'target-1',
+          performedBy: 'actor-1',
+        }),
+        {}
+      );
+    });
+
+    it.each([UserRole.SUPER_ADMIN, UserRole.ACME_ADMIN, UserRole.ACME_EMPLOYEE])(
+      'should refuse to impersonate a %s',
+      async (role) => {
+        userModel.findByPk.mockResolvedValue(buildUser('target-1', role));
+
+        const error = await service
+          .start('target-1', { reason: 'Ticket #1' }, actor)
+          .catch((e: unknown) => e);
+
+        expect(error).toBeInstanceOf(ForbiddenException);
+        expect((error as ForbiddenException).getResponse()).toEqual(
+          expect.objectContaining({ code: ERROR_CODES.IMPERSONATION_TARGET_NOT_ALLOWED })
+        );
+        expect(sessionModel.create).not.toHaveBeenCalled();
+      }
+    );
+
+    it('should report unknown users as not found', async () => {
+      userModel.findByPk.mockResolvedValue(null);
+
+      await expect(service.start('missing', { reason: 'Ticket #1' }, actor)).rejects.toThrow(
+        NotFoundException
+      );
+    });
+  });
+
+  describe('resolve', () => {
+    it('should return the session and the target user', async () => {
+      const session = buildSession();
+      sessionModel.findOne.mockResolvedValue(session);
+      userModel.findByPk.mockResolvedValue(vendorUser);
+
+      await expect(service.resolve('acme_imp_token', actor)).resolves.toEqual({
+        session,
+        targetUser: vendorUser,
+      });
+      expect(sessionModel.findOne).toHaveBeenCalledWith({
+        where: { token_hash: ImpersonationService.hashToken('acme_imp_token') },
+      });
+    });
+
+    it.each([
+      ['unknown', null],
+      ['of another actor', buildSession({ actor_id: 'other-actor' })],
+      ['ended', buildSession({ ended_at: new Date() })],
+    ])('should reject %s sessions', async (_label, session) => {
+      sessionModel.findOne.mockResolvedValue(session);
+
+      const error = await service.resolve('acme_imp_token', actor).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(UnauthorizedException);
+      expect((error as UnauthorizedException).getResponse()).toEqual(
+        expect.objectContaining({ code: ERROR_CODES.IMPERSONATION_INVALID })
+      );
+    });
+
+    it('should end the session of a target promoted to a protected role', async () => {
+      const session = buildSession();
+      sessionModel.findOne.mockResolvedValue(session);
+      userModel.findByPk.mockResolvedValue(buildUser('target-1', UserRole.SUPER_ADMIN));
+
+      const error = await service.resolve('acme_imp_token', actor).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(ForbiddenException);
+      expect((error as ForbiddenException).getResponse()).toEqual(
+        expect.objectContaining({ code: ERROR_CODES.IMPERSONATION_TARGET_NOT_ALLOWED })
+      );
+      expect(session.update).toHaveBeenCalledWith(
+        { ended_at: expect.any(Date) },
+        expect.anything()
+      );
+      expect(auditTrailService.append).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'IMPERSONATION_ENDED', performedBy: 'actor-1' }),
+        expect.anything()
+      );
+    });
+
+    it('should end the session of an actor who lost the impersonate permission', async () => {
+      const session = buildSession();
+      sessionModel.findOne.mockResolvedValue(session);
+      userModel.findByPk.mockResolvedValue(vendorUser);
+      permissionsService.hasPermission.mockResolvedValue({ granted: false });
+
+      const error = await service.resolve('acme_imp_token', actor).catch((e: unknown) => e);
+
+      expect(permissionsService.hasPermission).toHaveBeenCalledWith({
+        user_id: 'actor-1',
+        permission_name: 'users:impersonate',
+        company_id: 'acme',
+      });
+      expect(error).toBeInstanceOf(ForbiddenException);
+      expect((error as ForbiddenException).getResponse()).toEqual(
+        expect.objectContaining({ code: ERROR_CODES.IMPERSONATION_ACTOR_NOT_ALLOWED })
+      );
+      expect(session.update).toHaveBeenCalledWith(
+        { ended_at: expect.any(Date) },
+        expect.anything()
+      );
+      expect(auditTrailService.append).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'IMPERSONATION_ENDED',
+          payload: { sessionId: 'session-1', reason: 'Actor can no longer impersonate' },
+        }),
+        expect.anything()
+      );
+    });
+
+    it('should end the session of an actor who is no longer active', async () => {
+      const session = buildSession();
+      sessionModel.findOne.mockResolvedValue(session);
+      userModel.findByPk.mockResolvedValue(vendorUser);
+      const suspendedActor = buildUser(
+        'actor-1',
+        UserRole.ACME_ADMIN,
+        'acme',
+        UserStatus.SUSPENDED
+      );
+
+      const error = await service
+        .resolve('acme_imp_token', suspendedActor)
+        .catch((e: unknown) => e);
+
+      expect((error as ForbiddenException).getResponse()).toEqual(
+        expect.objectContaining({ code: ERROR_CODES.IMPERSONATION_ACTOR_NOT_ALLOWED })
+      );
+      expect(session.update).toHaveBeenCalled();
+      expect(permissionsService.hasPermission).not.toHaveBeenCalled();
+    });
+
+    it('should let super admins keep impersonating without the explicit permission', async () => {
+      sessionModel.findOne.mockResolvedValue(buildSession());
+      userModel.findByPk.mockResolvedValue(vendorUser);
+      permissionsService.isSuperAdmin.mockResolvedValue(true);
+
+      await expect(service.resolve('acme_imp_token', actor)).resolves.toEqual(
+        expect.objectContaining({ targetUser: vendorUser })
+      );
+      expect(permissionsService.hasPermission).not.toHaveBeenCalled();
+    });
+
+    it('should reject expired sessions', async () => {
+      sessionModel.findOne.mockResolvedValue(
+        buildSession({ expires_at: new Date(Date.now() - 1) })
+      );
+
+      const error = await service.resolve('acme_imp_token', actor).catch((e: unknown) => e);
+
+      expect((error as UnauthorizedException).getResponse()).toEqual(
+        expect.objectContaining({ code: ERROR_CODES.IMPERSONATION_EXPIRED })
+      );
+    });
+  });
+
+  describe('recordRequest', () => {
+    it('should tag the request with the real actor', async () => {
+      const session = buildSession();
+
+      await service.recordRequest({ actor, session: session as any }, vendorUser, 'GET', '/teams');
+
+      expect(auditTrailService.append).toHaveBeenCalledWith(
+        {
+          tenantId: 'company-1',
+          source: AuditSource.IMPERSONATION,
+          action: 'IMPERSONATED_REQUEST',
+          entityId: 'target-1',
+          performedBy: 'actor-1',
+          payload: { sessionId: 'session-1', method: 'GET', path: '/teams' },
+        },
+        undefined
+      );
+    });
+  });
+
+  describe('end', () => {
+    it('should end the session and audit it', async () => {
+      const session = buildSession();
+
+      await service.end({ actor, session: session as any }, vendorUser);
+
+      expect(session.update).toHaveBeenCalledWith(
+        { ended_at: expect.any(Date) },
+        { transaction: {} }
+      );
+      expect(auditTrailService.append).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'IMPERSONATION_ENDED', performedBy: 'actor-1' }),
+        {}
+      );
+    });
+  });
+});
@@ -0,0 +1,344 @@
+import {
+  ForbiddenException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { getConnectionToken, InjectModel } from '@nestjs/sequelize';
+import { createHash, randomBytes } from 'crypto';
+import { Transaction } from 'sequelize';
+import { Sequelize } from 'sequelize-typescript';
+import { ERROR_CODES } from '../../common/constants/error-codes';
+import { AuditTrailService } from '../audit/audit-trail.service';
+import { AuditSource } from '../audit/entities/audit-record.entity';
+import { ACME_ROLES } from '../auth/constants/acme-roles';
+import { User, UserRole, UserStatus } from '../auth/entities/user.entity';
+import { Company } from '../company/entities/company.entity';
+import { Role } from '../role/entities/role.entity';
+import { PermissionsService } from '../role/permissions.service';
+import {
+  ImpersonationSessionResponseDto,
+  StartedImpersonationResponseDto,
+} from './dto/impersonation-response.dto';
+import { StartImpersonationDto } from './dto/start-impersonation.dto';
+import { ImpersonationSession } from './entities/impersonation-session.entity';
+
+const IMPERSONATION_TOKEN_PREFIX = 'acme_imp_';
+
+/** Permission required to start a session, re-checked on every impersonated request */
+const IMPERSONATE_PERMISSION = 'users:impersonate';
+
+/** Roles that can never be impersonated */
+const PROTECTED_ROLES: UserRole[] = [UserRole.SUPER_ADMIN, ...ACME_ROLES];
+
+/**
+ * Attached to the request as request.impersonation while an actor acts as another user.
+ * request.user is the target user, so @CurrentUser() resolves to them.
+ */
+export interface ImpersonationContext {
+  actor: User;
+  session: ImpersonationSession;
+}
+
+export interface ResolvedImpersonation {
+  session: ImpersonationSession;
+  targetUser: User;
+}
+
+/**
+ * Starts, resolves and ends audited support impersonation sessions
+ */
+@Injectable()
+export class ImpersonationService {
+  private readonly logger = new Logger(ImpersonationService.name);
+
+  constructor(
+    @InjectModel(ImpersonationSession)
+    private readonly sessionModel: typeof ImpersonationSession,
+    @InjectModel(User)
+    private readonly userModel: typeof User,
+    private readonly auditTrailService: AuditTrailService,
+    private readonly permissionsService: PermissionsService,
+    private readonly configService: ConfigService,
+    @Inject(getConnectionToken())
+    private readonly sequelize: Sequelize
+  ) {}
+
+  static hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+
+  /**
+   * Starts a session in which the actor acts as the target user. Super admins and Acme
+   * staff cannot be impersonated. Open sessions of the actor are ended first.
+   */
+  async start(
+    targetUserId: string,
+    startDto: StartImpersonationDto,
+    actor: User
+  ): Promise<StartedImpersonationResponseDto> {
+    const targetUser = await this.userModel.findByPk(targetUserId, { include: [Role] });
+
+    if (!targetUser) {
+      throw new NotFoundException({
+        success: false,
+        code: ERROR_CODES.USER_NOT_FOUND,
+        message: 'User not found',
+      });
+    }
+
+    if (
+      targetUser.id === actor.id ||
+      PROTECTED_ROLES.some((role) => targetUser.hasRoleEnum(role))
+    ) {
+      throw new ForbiddenException({
+        success: false,
+        code: ERROR_CODES.IMPERSONATION_TARGET_NOT_ALLOWED,
+        message: 'Super admins and Acme staff cannot be impersonated.',
+      });
+    }
+
+    const token = `${IMPERSONATION_TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`;
+    const durationMinutes = startDto.durationMinutes ?? this.getDefaultDurationMinutes();
+    const expiresAt = new Date(Date.now() + durationMinutes * 60 * 1000);
+
+    const session = await this.sequelize.transaction(async (transaction) => {
+      await this.sessionModel.update(
+        { ended_at: new Date() },
+        { where: { actor_id: actor.id, ended_at: null }, transaction }
+      );
+
+      const created = await this.sessionModel.create(
+        {
+          actor_id: actor.id,
+          target_user_id: targetUser.id,
+          reason: startDto.reason,
+          token_hash: ImpersonationService.hashToken(token),
+          expires_at: expiresAt,
+        },
+        { transaction }
+      );
+
+      await this.recordAudit(
+        targetUser,
+        'IMPERSONATION_STARTED',
+        actor.id,
+        { sessionId: created.id, reason: startDto.reason, expiresAt: expiresAt.toISOString() },
+        transaction
+      );
+
+      return created;
+    });
+
+    this.logger.log(`User ${actor.id} started impersonating user ${targetUser.id}`);
+
+    return { ...this.toResponse(session, targetUser), token };
+  }
+
+  /**
+   * Resolves the session of an X-Impersonation-Token header for the authenticated actor.
+   * The target user is loaded with the same associations JwtAuthGuard loads. A target
+   * promoted to a protected role since the session started ends the session, as does an
+   * actor who is no longer active or has lost the users:impersonate permission.
+   */
+  async resolve(token: string, actor: User): Promise<ResolvedImpersonation> {
+    const session = await this.sessionModel.findOne({
+      where: { token_hash: ImpersonationService.hashToken(token) },
+    });
+
+    if (!session || session.actor_id !== actor.id || session.ended_at) {
+      throw new UnauthorizedException({
+        success: false,
+        code: ERROR_CODES.IMPERSONATION_INVALID,
+        message: 'Invalid impersonation session.',
+      });
+    }
+
+    if (session.expires_at <= new Date()) {
+      throw new UnauthorizedException({
+        success: false,
+        code: ERROR_CODES.IMPERSONATION_EXPIRED,
+        message: 'Impersonation session has expired.',
+      });
+    }
+
+    const targetUser = await this.userModel.findByPk(session.target_user_id, {
+      include: [
+        {
+          model: Role,
+          attributes: ['id', 'name', 'code'],
+          required: true,
+        },
+        {
+          model: Company,
+          attributes: ['id', 'status'],
+          required: false,
+        },
+      ],
+    });
+
+    if (!targetUser) {
+      throw new UnauthorizedException({
+        success: false,
+        code: ERROR_CODES.IMPERSONATION_INVALID,
+        message: 'Invalid impersonation session.',
+      });
+    }
+
+    if (!(await this.canImpersonate(actor))) {
+      await this.endSession(session, targetUser, actor.id, 'Actor can no longer impersonate');
+
+      throw new ForbiddenException({
+        success: false,
+        code: ERROR_CODES.IMPERSONATION_ACTOR_NOT_ALLOWED,
+        message: 'You are no longer allowed to impersonate users.',
+      });
+    }
+
+    if (PROTECTED_ROLES.some((role) => targetUser.hasRoleEnum(role))) {
+      await this.endSession(
+        session,
+        targetUser,
+        actor.id,
+        'Target user can no longer be impersonated'
+      );
+
+      throw new ForbiddenException({
+        success: false,
+        code: ERROR_CODES.IMPERSONATION_TARGET_NOT_ALLOWED,
+        message: 'Super admins and Acme staff cannot be impersonated.',
+      });
+    }
+
+    return { session, targetUser };
+  }
+
+  /**
+   * Tags a request made while impersonating in the audit trail
+   */
+  async recordRequest(
+    impersonation: ImpersonationContext,
+    targetUser: User,
+    method: string,
+    path: string
+  ): Promise<void> {
+    await this.recordAudit(targetUser, 'IMPERSONATED_REQUEST', impersonation.actor.id, {
+      sessionId: impersonation.session.id,
+      method,
+      path,
+    });
+  }
+
+  /**
+   * Ends the session used for the current request
+   */
+  async end(
+    impersonation: ImpersonationContext,
+    targetUser: User
+  ): Promise<ImpersonationSessionResponseDto> {
+    const { session, actor } = impersonation;
+
+    await this.sequelize.transaction(async (transaction) => {
+      await session.update({ ended_at: new Date() }, { transaction });
+
+      await this.recordAudit(
+        targetUser,
+        'IMPERSONATION_ENDED',
+        actor.id,
+        { sessionId: session.id },
+        transaction
+      );
+    });
+
+    this.logger.log(`User ${actor.id} stopped impersonating user ${targetUser.id}`);
+
+    return this.toResponse(session, targetUser);
+  }
+
+  /**
+   * Mirrors the guards of the start route: active actors who are super admins or hold
+   * the users:impersonate permission in their home company
+   */
+  private async canImpersonate(actor: User): Promise<boolean> {
+    if (actor.status !== UserStatus.ACTIVE) {
+      return false;
+    }
+
+    if (await this.permissionsService.isSuperAdmin(actor.id, actor.company_id)) {
+      return true;
+    }
+
+    const { granted } = await this.permissionsService.hasPermission({
+      user_id: actor.id,
+      permission_name: IMPERSONATE_PERMISSION,
+      company_id: actor.company_id,
+    });
+
+    return granted;
+  }
+
+  private async endSession(
+    session: ImpersonationSession,
+    targetUser: User,
+    actorId: string,
+    reason: string
+  ): Promise<void> {
+    await this.sequelize.transaction(async (transaction) => {
+      await session.update({ ended_at: new Date() }, { transaction });
+
+      await this.recordAudit(
+        targetUser,
+        'IMPERSONATION_ENDED',
+        actorId,
+        { sessionId: session.id, reason },
+        transaction
+      );
+    });
+  }
+
+  private async recordAudit(
+    targetUser: User,
+    action: string,
+    performedBy: string,
+    payload: Record<string, unknown>,
+    transaction?: Transaction
+  ): Promise<void> {
+    await this.auditTrailService.append(
+      {
+        tenantId: targetUser.company_id,
+        source: AuditSource.IMPERSONATION,
+        action,
+        entityId: targetUser.id,
+        performedBy,
+        payload,
+      },
+      transaction
+    );
+  }
+
+  private getDefaultDurationMinutes(): number {
+    const minutes = Number(this.configService.get<number>('IMPERSONATION_TTL_MINUTES', 15));
+    return Math.min(Math.max(minutes, 1), 60);
+  }
+
+  private toResponse(
+    session: ImpersonationSession,
+    targetUser: User
+  ): ImpersonationSessionResponseDto {
+    return {
+      id: session.id,
+      targetUser: {
+        id: targetUser.id,
+        email: targetUser.email,
+        firstName: targetUser.first_name,
+        lastName: targetUser.last_name,
+        companyId: targetUser.company_id ?? null,
+      },
+      expiresAt: session.expires_at,
+      endedAt: session.ended_at ?? null,
+    };
+  }
+}
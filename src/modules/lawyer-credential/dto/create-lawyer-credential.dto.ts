@@ -0,0 +1,59 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsDateString,
+  IsEnum,
+  IsISO8601,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+} from 'class-validator';
+import { LawyerStandingStatus } from '../entities/lawyer-credential.entity';
+
+export class CreateLawyerCredentialDto {
+  @ApiPropertyOptional({
+    description: 'Lawyer the credential belongs to (company admins and Acme staff only)',
+    example: 'a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11',
+  })
+  @IsOptional()
+  @IsUUID('4', { message: 'userId must be a valid UUID' })
+  userId?: string;
+
+  @ApiProperty({
+    description: 'Bar or licensing authority',
+    example: 'Ordem dos Advogados - Lisboa',
+    maxLength: 100,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  barJurisdiction: string;
+
+  @ApiProperty({ description: 'Registration number', example: '12345L', maxLength: 64 })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(64)
+  barNumber: string;
+
+  @ApiProperty({ description: 'Date of admission to the bar', example: '2015-09-01' })
+  @IsISO8601({ strict: true })
+  admissionDate: string;
+
+  @ApiPropertyOptional({
+    enum: LawyerStandingStatus,
+    default: LawyerStandingStatus.GOOD_STANDING,
+  })
+  @IsOptional()
+  @IsEnum(LawyerStandingStatus)
+  standingStatus?: LawyerStandingStatus;
+
+  @ApiPropertyOptional({
+    description: 'When the good-standing certificate or registration lapses',
+    example: '2026-12-31T23:59:59.000Z',
+    nullable: true,
+  })
+  @IsOptional()
+  @IsDateString()
+  standingExpiresAt?: string | null;
+}
@@ -0,0 +1,50 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  CredentialVerificationStatus,
+  LawyerStandingStatus,
+} from '../entities/lawyer-credential.entity';
+
+export class LawyerCredentialResponseDto {
+  @ApiProperty({ example: 'f81d4fae-7dec-11d0-a765-00a0c91e6bf6' })
+  id: string;
+
+  @ApiProperty({ example: 'a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11' })
+  userId: string;
+
+  @ApiProperty({ example: 'Ordem dos Advogados - Lisboa' })
+  barJurisdiction: string;
+
+  @ApiProperty({ example: '12345L' })
+  barNumber: string;
+
+  @ApiProperty({ example: '2015-09-01' })
+  admissionDate: string;
+
+  @ApiProperty({ enum: LawyerStandingStatus })
+  standingStatus: LawyerStandingStatus;
+
+  @ApiPropertyOptional({ type: Date, nullable: true })
+  standingExpiresAt: Date | null;
+
+  @ApiProperty({ enum: CredentialVerificationStatus })
+  verificationStatus: CredentialVerificationStatus;
+
+  @ApiPropertyOptional({ nullable: true })
+  verifiedBy: string | null;
+
+  @ApiPropertyOptional({ type: Date, nullable: true })
+  verifiedAt: Date | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  reviewNotes: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Set when a verified credential is about to lapse',
+    type: Date,
+    nullable: true,
+  })
+  expiryFlaggedAt: Date | null;
+
+  @ApiProperty()
+  createdAt: Date;
+}
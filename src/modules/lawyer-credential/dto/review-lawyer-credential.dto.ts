@@ -0,0 +1,26 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsIn, IsOptional, IsString, MaxLength } from 'class-validator';
+import { CredentialVerificationStatus } from '../entities/lawyer-credential.entity';
+
+export const REVIEW_DECISIONS = [
+  CredentialVerificationStatus.VERIFIED,
+  CredentialVerificationStatus.REJECTED,
+] as const;
+
+export type ReviewDecision = (typeof REVIEW_DECISIONS)[number];
+
+export class ReviewLawyerCredentialDto {
+  @ApiProperty({ enum: REVIEW_DECISIONS, example: CredentialVerificationStatus.VERIFIED })
+  @IsIn(REVIEW_DECISIONS)
+  decision: ReviewDecision;
+
+  @ApiPropertyOptional({
+    description: 'Reviewer notes, e.g. why the credential was rejected',
+    example: 'Bar number not found in the public register',
+    maxLength: 500,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  notes?: string;
+}
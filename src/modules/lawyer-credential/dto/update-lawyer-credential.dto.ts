@@ -0,0 +1,7 @@
+import { OmitType, PartialType } from '@nestjs/swagger';
+import { CreateLawyerCredentialDto } from './create-lawyer-credential.dto';
+
+// Any change sends the credential back to the verification queue
+export class UpdateLawyerCredentialDto extends PartialType(
+  OmitType(CreateLawyerCredentialDto, ['userId'] as const)
+) {}
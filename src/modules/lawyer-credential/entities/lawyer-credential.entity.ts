@@ -0,0 +1,117 @@
+import {
+  AllowNull,
+  BelongsTo,
+  Column,
+  CreatedAt,
+  DataType,
+  Default,
+  ForeignKey,
+  Model,
+  PrimaryKey,
+  Table,
+  UpdatedAt,
+} from 'sequelize-typescript';
+import { User } from '../../auth/entities/user.entity';
+
+export enum LawyerStandingStatus {
+  GOOD_STANDING = 'GOOD_STANDING',
+  INACTIVE = 'INACTIVE',
+  SUSPENDED = 'SUSPENDED',
+  DISBARRED = 'DISBARRED',
+}
+
+export enum CredentialVerificationStatus {
+  PENDING = 'PENDING',
+  VERIFIED = 'VERIFIED',
+  REJECTED = 'REJECTED',
+  EXPIRED = 'EXPIRED',
+}
+
+/**
+ * Bar admission of a user. A user counts as a lawyer (User.is_lawyer) while at least
+ * one of their credentials is verified by Acme, in good standing and unexpired.
+ */
+@Table({
+  tableName: 'LawyerCredentials',
+  timestamps: true,
+  underscored: true,
+  indexes: [
+    {
+      fields: ['bar_jurisdiction', 'bar_number'],
+      unique: true,
+      name: 'uq_lawyer_credentials_bar_number',
+    },
+    {
+      fields: ['user_id'],
+      name: 'idx_lawyer_credentials_user',
+    },
+    {
+      fields: ['verification_status', 'standing_expires_at'],
+      name: 'idx_lawyer_credentials_status_expiry',
+    },
+  ],
+})
+export class LawyerCredential extends Model {
+  @PrimaryKey
+  @Default(DataType.UUIDV4)
+  @Column(DataType.UUID)
+  id: string;
+
+  @AllowNull(false)
+  @ForeignKey(() => User)
+  @Column(DataType.UUID)
+  user_id: string;
+
+  /** Bar or licensing authority, e.g. "Ordem dos Advogados" or "NY" */
+  @AllowNull(false)
+  @Column(DataType.STRING(100))
+  bar_jurisdiction: string;
+
+  @AllowNull(false)
+  @Column(DataType.STRING(64))
+  bar_number: string;
+
+  @AllowNull(false)
+  @Column(DataType.DATEONLY)
+  admission_date: string;
+
+  @AllowNull(false)
+  @Default(LawyerStandingStatus.GOOD_STANDING)
+  @Column(DataType.ENUM(...Object.values(LawyerStandingStatus)))
+  standing_status: LawyerStandingStatus;
+
+  /** When the current good-standing certificate or registration lapses */
+  @Column(DataType.DATE)
+  standing_expires_at?: Date | null;
+
+  @AllowNull(false)
+  @Default(CredentialVerificationStatus.PENDING)
+  @Column(DataType.ENUM(...Object.values(CredentialVerificationStatus)))
+  verification_status: CredentialVerificationStatus;
+
+  @ForeignKey(() => User)
+  @Column(DataType.UUID)
+  verified_by?: string | null;
+
+  @Column(DataType.DATE)
+  verified_at?: Date | null;
+
+  @Column(DataType.STRING(500))
+  review_notes?: string | null;
+
+  /** Set by the expiry sweep when a verified credential is about to lapse */
+  @Column(DataType.DATE)
+  expiry_flagged_at?: Date | null;
+
+  @BelongsTo(() => User, 'user_id')
+  user?: User;
+
+  @BelongsTo(() => User, 'verified_by')
+  verifier?: User;
+
+  @CreatedAt
+  created_at: Date;
+
+  @UpdatedAt
+  updated_at: Date;
+}
@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common';
+import { SequelizeModule } from '@nestjs/sequelize';
+import { User } from '../auth/entities/user.entity';
+import { RoleModule } from '../role/role.module';
+import { TeamMember } from '../team/entities/team-member.entity';
+import { Team } from '../team/entities/team.entity';
+import { LawyerCredential } from './entities/lawyer-credential.entity';
+import { LawyerCredentialService } from './lawyer-credential.service';
+import { LawyerCredentialsController } from './lawyer-credentials.controller';
+
+@Module({
+  imports: [SequelizeModule.forFeature([LawyerCredential, User, Team, TeamMember]), RoleModule],
+  controllers: [LawyerCredentialsController],
+  providers: [LawyerCredentialService],
+  exports: [LawyerCredentialService],
+})
+export class LawyerCredentialModule {}
@@ -0,0 +1,384 @@
+import {
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { getConnectionToken, getModelToken } from '@nestjs/sequelize';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ERROR_CODES } from '../../common/constants/error-codes';
+import { AuditTrailService } from '../audit/audit-trail.service';
+import { AuditSource } from '../audit/entities/audit-record.entity';
+import { User, UserRole } from '../auth/entities/user.entity';
+import { TeamMember } from '../team/entities/team-member.entity';
+import { Team } from '../team/entities/team.entity';
+import {
+  CredentialVerificationStatus,
+  LawyerCredential,
+  LawyerStandingStatus,
+} from './entities/lawyer-credential.entity';
+import { LawyerCredentialService } from './lawyer-credential.service';
+
+describe('LawyerCredentialService', () => {
+  let service: LawyerCredentialService;
+  let credentialModel: any;
+  let userModel: any;
+  let teamModel: any;
+  let teamMemberModel: any;
+  let auditTrailService: { append: jest.Mock };
+
+  const buildUser = (id: string, roles: UserRole[], companyId: string | null = 'company-1') =>
+    ({
+      id,
+      company_id: companyId,
+      is_lawyer: false,
+      lawyer_flag_grandfathered: false,
+      hasRoleEnum: jest.fn((role: UserRole) => roles.includes(role)),
+      update: jest.fn(),
+    }) as unknown as User;
+
+  const lawyer = buildUser('lawyer-1', [UserRole.VENDOR_EMPLOYEE]);
+  const acmeReviewer = buildUser('acme-1', [UserRole.ACME_EMPLOYEE], 'acme');
+
+  const buildCredential = (overrides: Record<string, any> = {}) => {
+    const credential: any = {
+      id: 'credential-1',
+      user_id: 'lawyer-1',
+      user: lawyer,
+      bar_jurisdiction: 'NY',
+      bar_number: '12345',
+      admission_date: '2015-09-01',
+      standing_status: LawyerStandingStatus.GOOD_STANDING,
+      standing_expires_at: new Date(Date.now() + 365 * 24 * 60 * 60 * 1000),
+      verification_status: CredentialVerificationStatus.PENDING,
+      ...overrides,
+    };
+    credential.update = jest.fn(async (changes) => Object.assign(credential, changes));
+    credential.destroy = jest.fn();
+    return credential;
+  };
+
+  beforeEach(async () => {
+    credentialModel = {
+      findAll: jest.fn().mockResolvedValue([]),
+      findOne: jest.fn().mockResolvedValue(null),
+      findByPk: jest.fn(),
+      count: jest.fn().mockResolvedValue(0),
+      create: jest.fn(async (values) => buildCredential(values)),
+    };
+    userModel = {
+      findByPk: jest.fn(),
+      findAll: jest.fn().mockResolvedValue([]),
+      count: jest.fn().mockResolvedValue(0),
+    };
+    teamModel = { findAll: jest.fn().mockResolvedValue([]) };
+    teamMemberModel = { findAll: jest.fn().mockResolvedValue([]) };
+    auditTrailService = { append: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LawyerCredentialService,
+        { provide: getModelToken(LawyerCredential), useValue: credentialModel },
+        { provide: getModelToken(User), useValue: userModel },
+        { provide: getModelToken(Team), useValue: teamModel },
+        { provide: getModelToken(TeamMember), useValue: teamMemberModel },
+        { provide: AuditTrailService, useValue: auditTrailService },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((_key: string, defaultValue?: unknown) => defaultValue) },
+        },
+        {
+          provide: getConnectionToken(),
+          useValue: { transaction: jest.fn((callback) => callback({})) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<LawyerCredentialService>(LawyerCredentialService);
+    jest.spyOn(service['logger'], 'warn').mockImplementation(() => undefined);
+  });
+
+  describe('create', () => {
+    const createDto = { barJurisdiction: 'NY', barNumber: '12345', admissionDate: '2015-09-01' };
+
+    it('should submit a pending credential for the caller', async () => {
+      const result = await service.create(createDto, lawyer);
+
+      expect(credentialModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          user_id: 'lawyer-1',
+          bar_jurisdiction: 'NY',
+          bar_number: '12345',
+          standing_status: LawyerStandingStatus.GOOD_STANDING,
+        }),
+        { transaction: {} }
+      );
+      expect(result.verificationStatus).toBe(CredentialVerificationStatus.PENDING);
+      expect(auditTrailService.append).toHaveBeenCalledWith(
+        expect.objectContaining({
+          tenantId: 'company-1',
+          source: AuditSource.LAWYER_CREDENTIAL,
+          action: 'LAWYER_CREDENTIAL_SUBMITTED',
+          performedBy: 'lawyer-1',
+        }),
+        {}
+      );
+    });
+
+    it('should reject a bar registration that is already on file', async () => {
+      credentialModel.findOne.mockResolvedValue(buildCredential());
+
+      await expect(service.create(createDto, lawyer)).rejects.toThrow(ConflictException);
+      expect(credentialModel.create).not.toHaveBeenCalled();
+    });
+
+    it('should hide users the caller cannot manage', async () => {
+      userModel.findByPk.mockResolvedValue(buildUser('other-1', [UserRole.VENDOR_EMPLOYEE]));
+
+      await expect(service.create({ ...createDto, userId: 'other-1' }, lawyer)).rejects.toThrow(
+        NotFoundException
+      );
+    });
+
+    it('should let company admins submit credentials for their users', async () => {
+      const vendorAdmin = buildUser('admin-1', [UserRole.VENDOR_ADMIN]);
+      userModel.findByPk.mockResolvedValue(lawyer);
+
+      await service.create({ ...createDto, userId: 'lawyer-1' }, vendorAdmin);
+
+      expect(credentialModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({ user_id: 'lawyer-1' }),
+        { transaction: {} }
+      );
+    });
+  });
+
+  describe('update', () => {
+    it('should send a changed credential back to the verification queue', async () => {
+      const credential = buildCredential({
+        verification_status: CredentialVerificationStatus.VERIFIED,
+        verified_by: 'acme-1',
+      });
+      credentialModel.findByPk.mockResolvedValue(credential);
+
+      const result = await service.update(
+        'credential-1',
+        { standingExpiresAt: '2030-01-01T00:00:00.000Z' },
+        lawyer
+      );
+
+      expect(result.verificationStatus).toBe(CredentialVerificationStatus.PENDING);
+      expect(result.verifiedBy).toBeNull();
+      expect(credentialModel.count).toHaveBeenCalled();
+    });
+  });
+
+  describe('review', () => {
+    it('should verify a pending credential and make its holder a lawyer', async () => {
+      const credential = buildCredential();
+      const holder = buildUser('lawyer-1', [UserRole.VENDOR_EMPLOYEE]);
+      credentialModel.findByPk.mockResolvedValue(credential);
+      credentialModel.count.mockResolvedValue(1);
+      userModel.findByPk.mockResolvedValue(holder);
+
+      const result = await service.review(
+        'credential-1',
+        { decision: CredentialVerificationStatus.VERIFIED },
+        acmeReviewer
+      );
+
+      expect(result.verificationStatus).toBe(CredentialVerificationStatus.VERIFIED);
+      expect(result.verifiedBy).toBe('acme-1');
+      expect(holder.update).toHaveBeenCalledWith({ is_lawyer: true }, { transaction: {} });
+      expect(auditTrailService.append).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'LAWYER_CREDENTIAL_VERIFIED', performedBy: 'acme-1' }),
+        {}
+      );
+    });
+
+    it('should not let reviewers review their own credential', async () => {
+      credentialModel.findByPk.mockResolvedValue(buildCredential({ user_id: 'acme-1' }));
+
+      await expect(
+        service.review(
+          'credential-1',
+          { decision: CredentialVerificationStatus.VERIFIED },
+          acmeReviewer
+        )
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('should only review pending credentials', async () => {
+      credentialModel.findByPk.mockResolvedValue(
+        buildCredential({ verification_status: CredentialVerificationStatus.REJECTED })
+      );
+
+      const error = await service
+        .review('credential-1', { decision: CredentialVerificationStatus.VERIFIED }, acmeReviewer)
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(UnprocessableEntityException);
+      expect((error as UnprocessableEntityException).getResponse()).toEqual(
+        expect.objectContaining({ code: ERROR_CODES.LAWYER_CREDENTIAL_NOT_PENDING })
+      );
+    });
+
+    it('should refuse to verify a lapsed credential', async () => {
+      credentialModel.findByPk.mockResolvedValue(
+        buildCredential({ standing_expires_at: new Date(Date.now() - 1000) })
+      );
+
+      const error = await service
+        .review('credential-1', { decision: CredentialVerificationStatus.VERIFIED }, acmeReviewer)
+        .catch((e: unknown) => e);
+
+      expect((error as UnprocessableEntityException).getResponse()).toEqual(
+        expect.objectContaining({ code: ERROR_CODES.LAWYER_CREDENTIAL_LAPSED })
+      );
+    });
+  });
+
+  describe('refreshLawyerStatus', () => {
+    it('should record the LEGAL teams left without a lawyer', async () => {
+      const formerLawyer = buildUser('lawyer-1', [UserRole.VENDOR_EMPLOYEE]);
+      formerLawyer.is_lawyer = true;
+      userModel.findByPk.mockResolvedValue(formerLawyer);
+      teamMemberModel.findAll.mockResolvedValue([{ team_id: 'team-1' }, { team_id: 'team-2' }]);
+      teamModel.findAll.mockResolvedValue([
+        { id: 'team-1', owner: { is_lawyer: false }, members: [{ is_lawyer: false }] },
+        { id: 'team-2', owner: { is_lawyer: false }, members: [{ is_lawyer: true }] },
+      ]);
+
+      const isLawyer = await service.refreshLawyerStatus('lawyer-1', null);
+
+      expect(isLawyer).toBe(false);
+      expect(formerLawyer.update).toHaveBeenCalledWith(
+        { is_lawyer: false },
+        { transaction: undefined }
+      );
+      expect(auditTrailService.append).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'USER_LAWYER_STATUS_CHANGED',
+          entityId: 'lawyer-1',
+          performedBy: null,
+          payload: { isLawyer: false, nonCompliantLegalTeamIds: ['team-1'] },
+        }),
+        undefined
+      );
+    });
+
+    it('should keep a grandfathered flag without a credential', async () => {
+      const legacyLawyer = buildUser('legacy-1', [UserRole.VENDOR_EMPLOYEE]);
+      legacyLawyer.is_lawyer = true;
+      legacyLawyer.lawyer_flag_grandfathered = true;
+      userModel.findByPk.mockResolvedValue(legacyLawyer);
+
+      const isLawyer = await service.refreshLawyerStatus('legacy-1', null);
+
+      expect(isLawyer).toBe(true);
+      expect(legacyLawyer.update).not.toHaveBeenCalled();
+    });
+
+    it('should end the grandfathering once a credential backs the flag', async () => {
+      const legacyLawyer = buildUser('legacy-1', [UserRole.VENDOR_EMPLOYEE]);
+      legacyLawyer.is_lawyer = true;
+      legacyLawyer.lawyer_flag_grandfathered = true;
+      userModel.findByPk.mockResolvedValue(legacyLawyer);
+      credentialModel.count.mockResolvedValue(1);
+
+      const isLawyer = await service.refreshLawyerStatus('legacy-1', null);
+
+      expect(isLawyer).toBe(true);
+      expect(legacyLawyer.update).toHaveBeenCalledWith(
+        { lawyer_flag_grandfathered: false },
+        { transaction: undefined }
+      );
+      expect(auditTrailService.append).not.toHaveBeenCalled();
+    });
+
+    it('should leave an unchanged status alone', async () => {
+      const holder = buildUser('lawyer-1', [UserRole.VENDOR_EMPLOYEE]);
+      userModel.findByPk.mockResolvedValue(holder);
+
+      await service.refreshLawyerStatus('lawyer-1', null);
+
+      expect(holder.update).not.toHaveBeenCalled();
+      expect(auditTrailService.append).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('sweepExpiringCredentials', () => {
+    it('should expire lapsed credentials and flag the ones about to lapse', async () => {
+      const now = new Date('2025-10-20T09:00:00.000Z');
+      const lapsed = buildCredential({
+        id: 'lapsed',
+        verification_status: CredentialVerificationStatus.VERIFIED,
+        standing_expires_at: new Date('2025-10-19T00:00:00.000Z'),
+      });
+      const expiring = buildCredential({
+        id: 'expiring',
+        verification_status: CredentialVerificationStatus.VERIFIED,
+        standing_expires_at: new Date('2025-11-01T00:00:00.000Z'),
+      });
+      credentialModel.findAll.mockResolvedValueOnce([lapsed]).mockResolvedValueOnce([expiring]);
+      userModel.findByPk.mockResolvedValue(buildUser('lawyer-1', [UserRole.VENDOR_EMPLOYEE]));
+
+      const result = await service.sweepExpiringCredentials(now);
+
+      expect(result).toEqual({ expired: 1, flagged: 1, reconciled: 0, grandfathered: 0 });
+      expect(lapsed.verification_status).toBe(CredentialVerificationStatus.EXPIRED);
+      expect(expiring.expiry_flagged_at).toBe(now);
+      expect(credentialModel.count).toHaveBeenCalledTimes(1);
+      expect(auditTrailService.append).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'LAWYER_CREDENTIAL_EXPIRED', entityId: 'lapsed' }),
+        {}
+      );
+      expect(auditTrailService.append).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'LAWYER_CREDENTIAL_EXPIRING', entityId: 'expiring' }),
+        {}
+      );
+    });
+
+    it('should clear lawyer flags that no active credential backs', async () => {
+      const legacyLawyer = buildUser('legacy-1', [UserRole.VENDOR_EMPLOYEE]);
+      legacyLawyer.is_lawyer = true;
+      userModel.findAll.mockResolvedValue([{ id: 'legacy-1' }, { id: 'lawyer-2' }]);
+      credentialModel.findAll
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([buildCredential({ user_id: 'lawyer-2' })]);
+      userModel.findByPk.mockResolvedValue(legacyLawyer);
+
+      const result = await service.sweepExpiringCredentials();
+
+      expect(result).toEqual({ expired: 0, flagged: 0, reconciled: 1, grandfathered: 0 });
+      expect(userModel.findByPk).toHaveBeenCalledTimes(1);
+      expect(userModel.findByPk).toHaveBeenCalledWith('legacy-1', expect.anything());
+      expect(legacyLawyer.update).toHaveBeenCalledWith({ is_lawyer: false }, { transaction: {} });
+      expect(auditTrailService.append).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'USER_LAWYER_STATUS_CHANGED',
+          entityId: 'legacy-1',
+          payload: { isLawyer: false, nonCompliantLegalTeamIds: [] },
+        }),
+        {}
+      );
+    });
+
+    it('should report grandfathered lawyer flags without clearing them', async () => {
+      userModel.count.mockResolvedValue(2);
+
+      const result = await service.sweepExpiringCredentials();
+
+      expect(result).toEqual({ expired: 0, flagged: 0, reconciled: 0, grandfathered: 2 });
+      expect(userModel.findAll).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { is_lawyer: true, lawyer_flag_grandfathered: false } })
+      );
+      expect(userModel.count).toHaveBeenCalledWith({
+        where: { is_lawyer: true, lawyer_flag_grandfathered: true },
+      });
+      expect(userModel.findByPk).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,165 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiParam, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { ResponseMessage } from '../../common/decorators/response-message.decorator';
+import { ApiResponseDto } from '../../common/dto/api-response.dto';
+import { JwtAuthGuard } from '../../core/guards/jwt-auth.guard';
+import { PermissionsGuard, RequirePermissions } from '../../core/guards/permissions.guard';
+import { SuperAdminBypassGuard } from '../../core/guards/super-admin-bypass.guard';
+import { User } from '../auth/entities/user.entity';
+import { CreateLawyerCredentialDto } from './dto/create-lawyer-credential.dto';
+import { LawyerCredentialQueryDto } from './dto/lawyer-credential-query.dto';
+import { LawyerCredentialResponseDto } from './dto/lawyer-credential-response.dto';
+import { ReviewLawyerCredentialDto } from './dto/review-lawyer-credential.dto';
+import { UpdateLawyerCredentialDto } from './dto/update-lawyer-credential.dto';
+import { LawyerCredentialService } from './lawyer-credential.service';
+
+@ApiTags('lawyer-credentials')
+@Controller('lawyer-credentials')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class LawyerCredentialsController {
+  constructor(private readonly lawyerCredentialService: LawyerCredentialService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'List lawyer credentials',
+    description:
+      'Lists your credentials, or those of userId. Company admins can list the users of ' +
+      'their company and Acme staff everyone.',
+  })
+  @ApiResponse({ status: 200, type: [LawyerCredentialResponseDto] })
+  @ApiResponse({ status: 404, description: 'User not found', type: ApiResponseDto })
+  @ResponseMessage('Lawyer credentials retrieved successfully', 'LAWYER_CREDENTIALS_GET_SUCCESS')
+  async findAll(
+    @Query() query: LawyerCredentialQueryDto,
+    @CurrentUser() currentUser: User
+  ): Promise<LawyerCredentialResponseDto[]> {
+    return this.lawyerCredentialService.findAllForUser(query.userId, currentUser);
+  }
+
+  @Get('verification-queue')
+  @UseGuards(JwtAuthGuard, SuperAdminBypassGuard, PermissionsGuard)
+  @RequirePermissions('lawyer-credentials:verify')
+  @ApiOperation({
+    summary: 'Lawyer credential verification queue',
+    description:
+      'Pending credentials (oldest first), followed by verified credentials flagged as ' +
+      'about to lapse.',
+  })
+  @ApiResponse({ status: 200, type: [LawyerCredentialResponseDto] })
+  @ApiResponse({ status: 403, description: 'Forbidden', type: ApiResponseDto })
+  @ResponseMessage('Verification queue retrieved successfully', 'LAWYER_CREDENTIAL_QUEUE_SUCCESS')
+  async getVerificationQueue(): Promise<LawyerCredentialResponseDto[]> {
+    return this.lawyerCredentialService.getVerificationQueue();
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a lawyer credential' })
+  @ApiParam({ name: 'id', description: 'Lawyer credential UUID' })
+  @ApiResponse({ status: 200, type: LawyerCredentialResponseDto })
+  @ApiResponse({ status: 404, description: 'Lawyer credential not found', type: ApiResponseDto })
+  @ResponseMessage('Lawyer credential retrieved successfully', 'LAWYER_CREDENTIAL_GET_SUCCESS')
+  async findOne(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() currentUser: User
+  ): Promise<LawyerCredentialResponseDto> {
+    return this.lawyerCredentialService.findOne(id, currentUser);
+  }
+
+  @Post()
+  @ApiOperation({
+    summary: 'Submit a lawyer credential',
+    description: 'The credential only makes its holder a lawyer once Acme has verified it.',
+  })
+  @ApiResponse({ status: 201, type: LawyerCredentialResponseDto })
+  @ApiResponse({ status: 404, description: 'User not found', type: ApiResponseDto })
+  @ApiResponse({
+    status: 409,
+    description: 'Bar registration already on file',
+    type: ApiResponseDto,
+  })
+  @ResponseMessage('Lawyer credential submitted successfully', 'LAWYER_CREDENTIAL_CREATED')
+  async create(
+    @Body() createDto: CreateLawyerCredentialDto,
+    @CurrentUser() currentUser: User
+  ): Promise<LawyerCredentialResponseDto> {
+    return this.lawyerCredentialService.create(createDto, currentUser);
+  }
+
+  @Patch(':id')
+  @ApiOperation({
+    summary: 'Update a lawyer credential',
+    description:
+      'Any change sends the credential back to the verification queue; a verified ' +
+      'credential stops counting until it is verified again.',
+  })
+  @ApiParam({ name: 'id', description: 'Lawyer credential UUID' })
+  @ApiResponse({ status: 200, type: LawyerCredentialResponseDto })
+  @ApiResponse({ status: 404, description: 'Lawyer credential not found', type: ApiResponseDto })
+  @ApiResponse({
+    status: 409,
+    description: 'Bar registration already on file',
+    type: ApiResponseDto,
+  })
+  @ResponseMessage('Lawyer credential updated successfully', 'LAWYER_CREDENTIAL_UPDATED')
+  async update(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() updateDto: UpdateLawyerCredentialDto,
+    @CurrentUser() currentUser: User
+  ): Promise<LawyerCredentialResponseDto> {
+    return this.lawyerCredentialService.update(id, updateDto, currentUser);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete a lawyer credential' })
+  @ApiParam({ name: 'id', description: 'Lawyer credential UUID' })
+  @ApiResponse({ status: 204, description: 'Lawyer credential deleted' })
+  @ApiResponse({ status: 404, description: 'Lawyer credential not found', type: ApiResponseDto })
+  async remove(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() currentUser: User
+  ): Promise<void> {
+    await this.lawyerCredentialService.remove(id, currentUser);
+  }
+
+  @Post(':id/review')
+  @UseGuards(JwtAuthGuard, SuperAdminBypassGuard, PermissionsGuard)
+  @RequirePermissions('lawyer-credentials:verify')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Verify or reject a lawyer credential',
+    description: 'Reviews a pending credential. You cannot review your own credentials.',
+  })
+  @ApiParam({ name: 'id', description: 'Lawyer credential UUID' })
+  @ApiResponse({ status: 200, type: LawyerCredentialResponseDto })
+  @ApiResponse({ status: 403, description: 'Forbidden', type: ApiResponseDto })
+  @ApiResponse({ status: 404, description: 'Lawyer credential not found', type: ApiResponseDto })
+  @ApiResponse({
+    status: 422,
+    description: 'Credential is not pending, or has lapsed',
+    type: ApiResponseDto,
+  })
+  @ResponseMessage('Lawyer credential reviewed successfully', 'LAWYER_CREDENTIAL_REVIEWED')
+  async review(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() reviewDto: ReviewLawyerCredentialDto,
+    @CurrentUser() currentUser: User
+  ): Promise<LawyerCredentialResponseDto> {
+    return this.lawyerCredentialService.review(id, reviewDto, currentUser);
+  }
+}
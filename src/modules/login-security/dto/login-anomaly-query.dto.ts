@@ -0,0 +1,44 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import { IsBoolean, IsEnum, IsOptional, IsUUID } from 'class-validator';
+import { PaginationDto } from '../../../common/dto/pagination.dto';
+import { LoginAnomalyType } from '../entities/login-anomaly.entity';
+
+export class LoginAnomalyQueryDto extends PaginationDto {
+  @ApiPropertyOptional({
+    description: 'Only flags of the users of this company',
+    example: 'c4a8f4b0-8d2a-4b6d-8f9c-1e2b3d4a5f6a',
+  })
+  @IsOptional()
+  @IsUUID('4', { message: 'companyId must be a valid UUID' })
+  companyId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only flags of this user',
+    example: 'a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11',
+  })
+  @IsOptional()
+  @IsUUID('4', { message: 'userId must be a valid UUID' })
+  userId?: string;
+
+  @ApiPropertyOptional({ description: 'Filter by heuristic', enum: LoginAnomalyType })
+  @IsOptional()
+  @IsEnum(LoginAnomalyType, {
+    message: `Type must be one of: ${Object.values(LoginAnomalyType).join(', ')}`,
+  })
+  type?: LoginAnomalyType;
+
+  @ApiPropertyOptional({
+    description: 'Include flags that were already resolved',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean({ message: 'includeResolved must be a boolean' })
+  @Transform(({ value }: { value: unknown }) => {
+    if (typeof value === 'string') {
+      return value.toLowerCase() === 'true';
+    }
+    return value;
+  })
+  includeResolved?: boolean = false;
+}
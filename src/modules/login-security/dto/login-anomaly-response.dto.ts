@@ -0,0 +1,49 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { LoginAnomalyType } from '../entities/login-anomaly.entity';
+
+export class LoginAnomalyResponseDto {
+  @ApiProperty({ example: 'f81d4fae-7dec-11d0-a765-00a0c91e6bf6' })
+  id: string;
+
+  @ApiProperty({ enum: LoginAnomalyType })
+  type: LoginAnomalyType;
+
+  @ApiPropertyOptional({ example: 'a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11', nullable: true })
+  userId: string | null;
+
+  @ApiPropertyOptional({ example: 'user@example.com', nullable: true })
+  userEmail: string | null;
+
+  @ApiPropertyOptional({ example: 'c4a8f4b0-8d2a-4b6d-8f9c-1e2b3d4a5f6a', nullable: true })
+  companyId: string | null;
+
+  @ApiPropertyOptional({ example: '203.0.113.7', nullable: true })
+  ipAddress: string | null;
+
+  @ApiPropertyOptional({ example: 'ios', nullable: true })
+  clientPlatform: string | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  userAgent: string | null;
+
+  @ApiProperty({
+    description: 'Evidence of the heuristic',
+    example: { fromCountry: 'PT', toCountry: 'BR', distanceKm: 7400, speedKmh: 14800 },
+  })
+  details: Record<string, unknown>;
+
+  @ApiProperty({ description: 'Whether the user had to sign in again' })
+  requiresReauthentication: boolean;
+
+  @ApiPropertyOptional({ type: Date, nullable: true })
+  resolvedAt: Date | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  resolvedBy: string | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  resolutionNotes: string | null;
+
+  @ApiProperty()
+  createdAt: Date;
+}
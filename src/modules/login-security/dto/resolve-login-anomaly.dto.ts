@@ -0,0 +1,14 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class ResolveLoginAnomalyDto {
+  @ApiPropertyOptional({
+    description: 'Outcome of the review',
+    example: 'Confirmed with the user: new work laptop',
+    maxLength: 500,
+  })
+  @IsOptional()
+  @IsString({ message: 'notes must be a string' })
+  @MaxLength(500, { message: 'notes must not exceed 500 characters' })
+  notes?: string;
+}
@@ -0,0 +1,24 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class UserSessionResponseDto {
+  @ApiProperty({ example: 'f81d4fae-7dec-11d0-a765-00a0c91e6bf6' })
+  id: string;
+
+  @ApiProperty({ example: 'web' })
+  clientPlatform: string;
+
+  @ApiPropertyOptional({ nullable: true })
+  userAgent: string | null;
+
+  @ApiPropertyOptional({ description: 'IP address of the latest request', nullable: true })
+  ipAddress: string | null;
+
+  @ApiPropertyOptional({ example: 'PT', nullable: true })
+  countryCode: string | null;
+
+  @ApiProperty()
+  firstSeenAt: Date;
+
+  @ApiProperty()
+  lastSeenAt: Date;
+}
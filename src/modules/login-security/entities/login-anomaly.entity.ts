@@ -0,0 +1,108 @@
+import {
+  AllowNull,
+  BelongsTo,
+  Column,
+  CreatedAt,
+  DataType,
+  Default,
+  ForeignKey,
+  Model,
+  PrimaryKey,
+  Table,
+  UpdatedAt,
+} from 'sequelize-typescript';
+import { User } from '../../auth/entities/user.entity';
+import { Company } from '../../company/entities/company.entity';
+import { UserSession } from './user-session.entity';
+
+export enum LoginAnomalyType {
+  /** A user with known devices authenticated from a new one */
+  NEW_DEVICE = 'NEW_DEVICE',
+  /** Two requests of a user came from locations too far apart for the time between them */
+  IMPOSSIBLE_TRAVEL = 'IMPOSSIBLE_TRAVEL',
+  /** An IP address sent many requests that were rejected with 401 */
+  AUTH_FAILURE_BURST = 'AUTH_FAILURE_BURST',
+}
+
+/**
+ * Suspicious authentication flagged by LoginSecurityService, reviewed by Acme staff.
+ * Failure bursts are tracked by IP address and have no user or company.
+ */
+@Table({
+  tableName: 'LoginAnomalies',
+  timestamps: true,
+  underscored: true,
+  indexes: [
+    {
+      fields: ['company_id', 'created_at'],
+      name: 'idx_login_anomalies_company_date',
+    },
+    {
+      fields: ['user_id', 'created_at'],
+      name: 'idx_login_anomalies_user_date',
+    },
+    {
+      fields: ['resolved_at', 'created_at'],
+      name: 'idx_login_anomalies_resolved_date',
+    },
+  ],
+})
+export class LoginAnomaly extends Model {
+  @PrimaryKey
+  @Default(DataType.UUIDV4)
+  @Column(DataType.UUID)
+  id: string;
+
+  @AllowNull(false)
+  @Column(DataType.ENUM(...Object.values(LoginAnomalyType)))
+  type: LoginAnomalyType;
+
+  @ForeignKey(() => User)
+  @Column(DataType.UUID)
+  user_id?: string | null;
+
+  @ForeignKey(() => Company)
+  @Column(DataType.UUID)
+  company_id?: string | null;
+
+  @ForeignKey(() => UserSession)
+  @Column(DataType.UUID)
+  session_id?: string | null;
+
+  @Column(DataType.STRING(45))
+  ip_address?: string | null;
+
+  /** Evidence of the heuristic, e.g. the previous location and the travel speed */
+  @AllowNull(false)
+  @Default({})
+  @Column(DataType.JSON)
+  details: Record<string, unknown>;
+
+  /** Whether the user's tokens were revoked so that they have to sign in again */
+  @AllowNull(false)
+  @Default(false)
+  @Column(DataType.BOOLEAN)
+  requires_reauthentication: boolean;
+
+  @Column(DataType.DATE)
+  resolved_at?: Date | null;
+
+  @ForeignKey(() => User)
+  @Column(DataType.UUID)
+  resolved_by?: string | null;
+
+  @Column(DataType.STRING(500))
+  resolution_notes?: string | null;
+
+  @BelongsTo(() => User, 'user_id')
+  user?: User;
+
+  @BelongsTo(() => UserSession, 'session_id')
+  session?: UserSession;
+
+  @CreatedAt
+  created_at: Date;
+
+  @UpdatedAt
+  updated_at: Date;
+}
@@ -0,0 +1,95 @@
+import {
+  AllowNull,
+  BelongsTo,
+  Column,
+  CreatedAt,
+  DataType,
+  Default,
+  ForeignKey,
+  Model,
+  PrimaryKey,
+  Table,
+  UpdatedAt,
+} from 'sequelize-typescript';
+import { User } from '../../auth/entities/user.entity';
+import { Company } from '../../company/entities/company.entity';
+
+/**
+ * Device a user authenticates from, identified by its user agent and client platform.
+ * The row keeps the IP address and location of the latest request from the device.
+ */
+@Table({
+  tableName: 'UserSessions',
+  timestamps: true,
+  underscored: true,
+  indexes: [
+    {
+      fields: ['user_id', 'device_hash'],
+      unique: true,
+      name: 'uq_user_sessions_user_device',
+    },
+    {
+      fields: ['user_id', 'last_seen_at'],
+      name: 'idx_user_sessions_user_last_seen',
+    },
+  ],
+})
+export class UserSession extends Model {
+  @PrimaryKey
+  @Default(DataType.UUIDV4)
+  @Column(DataType.UUID)
+  id: string;
+
+  @AllowNull(false)
+  @ForeignKey(() => User)
+  @Column(DataType.UUID)
+  user_id: string;
+
+  /** Home company of the user when the device was last seen */
+  @ForeignKey(() => Company)
+  @Column(DataType.UUID)
+  company_id?: string | null;
+
+  /** SHA-256 of the client platform and user agent */
+  @AllowNull(false)
+  @Column(DataType.CHAR(64))
+  device_hash: string;
+
+  @Column(DataType.STRING(500))
+  user_agent?: string | null;
+
+  /** X-Client-Platform header (ios, android, web), or "unknown" */
+  @AllowNull(false)
+  @Column(DataType.STRING(20))
+  client_platform: string;
+
+  @Column(DataType.STRING(45))
+  ip_address?: string | null;
+
+  /** Location of ip_address in the GeoIP file, when it is listed there */
+  @Column(DataType.CHAR(2))
+  country_code?: string | null;
+
+  @Column(DataType.DOUBLE)
+  latitude?: number | null;
+
+  @Column(DataType.DOUBLE)
+  longitude?: number | null;
+
+  @AllowNull(false)
+  @Column(DataType.DATE)
+  first_seen_at: Date;
+
+  @AllowNull(false)
+  @Column(DataType.DATE)
+  last_seen_at: Date;
+
+  @BelongsTo(() => User, 'user_id')
+  user?: User;
+
+  @CreatedAt
+  created_at: Date;
+
+  @UpdatedAt
+  updated_at: Date;
+}
@@ -0,0 +1,41 @@
+import { ConfigService } from '@nestjs/config';
+import { GeoIpService } from './geoip.service';
+
+describe('GeoIpService', () => {
+  let service: GeoIpService;
+
+  beforeEach(() => {
+    service = new GeoIpService({ get: jest.fn() } as unknown as ConfigService);
+    service.load(
+      [
+        'start_ip,end_ip,country_code,latitude,longitude',
+        '# Test ranges',
+        '198.51.100.0,198.51.100.255,us,40.71,-74.01',
+        '',
+        '10.0.0.0,10.255.255.255,PT,38.72,-9.14',
+        'not,a,range',
+      ].join('\n')
+    );
+  });
+
+  it('skips headers, comments and malformed lines', () => {
+    expect(service.isEnabled()).toBe(true);
+    expect(service['ranges']).toHaveLength(2);
+  });
+
+  it('finds the range of an address', () => {
+    expect(service.lookup('10.20.30.40')).toEqual({
+      countryCode: 'PT',
+      latitude: 38.72,
+      longitude: -9.14,
+    });
+    expect(service.lookup('::ffff:198.51.100.7')?.countryCode).toBe('US');
+  });
+
+  it('returns null for unlisted, invalid and IPv6 addresses', () => {
+    expect(service.lookup('192.0.2.1')).toBeNull();
+    expect(service.lookup('10.0.0.256')).toBeNull();
+    expect(service.lookup('2001:db8::1')).toBeNull();
+    expect(service.lookup(null)).toBeNull();
+  });
+});
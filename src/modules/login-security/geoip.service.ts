@@ -0,0 +1,126 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+
+export interface GeoLocation {
+  countryCode: string;
+  latitude: number;
+  longitude: number;
+}
+
+interface GeoIpRange extends GeoLocation {
+  start: number;
+  end: number;
+}
+
+/**
+ * IPv4 location lookup against a local CSV file (GEOIP_DATABASE_PATH), so that no
+ * request data leaves the server. Each line is `start_ip,end_ip,country_code,latitude,longitude`;
+ * blank lines, comments (#) and a header line are skipped. Without a file every lookup
+ * returns null and location based heuristics are off.
+ */
+@Injectable()
+export class GeoIpService implements OnModuleInit {
+  private readonly logger = new Logger(GeoIpService.name);
+  private ranges: GeoIpRange[] = [];
+
+  constructor(private readonly configService: ConfigService) {}
+
+  onModuleInit(): void {
+    const filePath = this.configService.get<string>('GEOIP_DATABASE_PATH');
+    if (!filePath) {
+      return;
+    }
+
+    try {
+      this.load(fs.readFileSync(filePath, 'utf-8'));
+      this.logger.log(`Loaded ${this.ranges.length} GeoIP ranges from ${filePath}`);
+    } catch (error) {
+      this.logger.error(
+        `Failed to load GeoIP database ${filePath}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Replaces the ranges with the ones in the CSV content
+   */
+  load(content: string): void {
+    const ranges: GeoIpRange[] = [];
+
+    for (const line of content.split(/\r?\n/)) {
+      const [startIp, endIp, countryCode, latitude, longitude] = line
+        .split(',')
+        .map((value) => value.trim());
+      const start = this.toNumber(startIp);
+      const end = this.toNumber(endIp);
+
+      if (start === null || end === null || !countryCode || !latitude || !longitude) {
+        continue;
+      }
+
+      ranges.push({
+        start,
+        end,
+        countryCode: countryCode.toUpperCase(),
+        latitude: Number(latitude),
+        longitude: Number(longitude),
+      });
+    }
+
+    this.ranges = ranges.sort((a, b) => a.start - b.start);
+  }
+
+  isEnabled(): boolean {
+    return this.ranges.length > 0;
+  }
+
+  /**
+   * Location of an IPv4 address (IPv4-mapped IPv6 addresses included), or null
+   */
+  lookup(ipAddress: string | null | undefined): GeoLocation | null {
+    const ip = this.toNumber(ipAddress?.replace(/^::ffff:/i, ''));
+    if (ip === null) {
+      return null;
+    }
+
+    let low = 0;
+    let high = this.ranges.length - 1;
+    while (low <= high) {
+      const middle = (low + high) >> 1;
+      const range = this.ranges[middle];
+
+      if (ip < range.start) {
+        high = middle - 1;
+      } else if (ip > range.end) {
+        low = middle + 1;
+      } else {
+        return {
+          countryCode: range.countryCode,
+          latitude: range.latitude,
+          longitude: range.longitude,
+        };
+      }
+    }
+
+    return null;
+  }
+
+  private toNumber(ipAddress: string | undefined): number | null {
+    const octets = ipAddress?.split('.');
+    if (octets?.length !== 4) {
+      return null;
+    }
+
+    let value = 0;
+    for (const octet of octets) {
+      const part = Number(octet);
+      if (!/^\d{1,3}$/.test(octet) || part > 255) {
+        return null;
+      }
+      value = value * 256 + part;
+    }
+
+    return value;
+  }
+}
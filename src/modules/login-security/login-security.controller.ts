@@ -0,0 +1,84 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiParam, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { ResponseMessage } from '../../common/decorators/response-message.decorator';
+import { ApiResponseDto } from '../../common/dto/api-response.dto';
+import { PaginatedResponseDto } from '../../common/dto/paginated-response.dto';
+import { JwtAuthGuard } from '../../core/guards/jwt-auth.guard';
+import { PermissionsGuard, RequirePermissions } from '../../core/guards/permissions.guard';
+import { SuperAdminBypassGuard } from '../../core/guards/super-admin-bypass.guard';
+import { User } from '../auth/entities/user.entity';
+import { LoginAnomalyQueryDto } from './dto/login-anomaly-query.dto';
+import { LoginAnomalyResponseDto } from './dto/login-anomaly-response.dto';
+import { ResolveLoginAnomalyDto } from './dto/resolve-login-anomaly.dto';
+import { UserSessionResponseDto } from './dto/user-session-response.dto';
+import { LoginSecurityService } from './login-security.service';
+
+@ApiTags('admin')
+@Controller('admin/security')
+@UseGuards(JwtAuthGuard, SuperAdminBypassGuard, PermissionsGuard)
+@ApiBearerAuth()
+export class LoginSecurityController {
+  constructor(private readonly loginSecurityService: LoginSecurityService) {}
+
+  @Get('login-anomalies')
+  @RequirePermissions('login-security:read')
+  @ApiOperation({
+    summary: 'List suspicious login flags',
+    description:
+      'New devices, impossible travel and bursts of 401 responses, newest first. ' +
+      'Resolved flags are left out unless includeResolved is set.',
+  })
+  @ApiResponse({ status: 200, description: 'Login anomalies retrieved successfully' })
+  @ApiResponse({ status: 403, description: 'Forbidden', type: ApiResponseDto })
+  @ResponseMessage('Login anomalies retrieved successfully', 'LOGIN_ANOMALIES_GET_SUCCESS')
+  async findAnomalies(
+    @Query() query: LoginAnomalyQueryDto
+  ): Promise<PaginatedResponseDto<LoginAnomalyResponseDto>> {
+    return this.loginSecurityService.findAll(query);
+  }
+
+  @Post('login-anomalies/:id/resolve')
+  @RequirePermissions('login-security:resolve')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Mark a suspicious login flag as reviewed' })
+  @ApiParam({ name: 'id', description: 'Login anomaly UUID' })
+  @ApiResponse({ status: 200, type: LoginAnomalyResponseDto })
+  @ApiResponse({ status: 404, description: 'Login anomaly not found', type: ApiResponseDto })
+  @ApiResponse({ status: 409, description: 'Already resolved', type: ApiResponseDto })
+  @ResponseMessage('Login anomaly resolved', 'LOGIN_ANOMALY_RESOLVED')
+  async resolveAnomaly(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() resolveDto: ResolveLoginAnomalyDto,
+    @CurrentUser() currentUser: User
+  ): Promise<LoginAnomalyResponseDto> {
+    return this.loginSecurityService.resolve(id, resolveDto, currentUser);
+  }
+
+  @Get('users/:userId/sessions')
+  @RequirePermissions('login-security:read')
+  @ApiOperation({
+    summary: 'List the devices of a user',
+    description: 'Devices the user authenticated from, most recently used first',
+  })
+  @ApiParam({ name: 'userId', description: 'User UUID' })
+  @ApiResponse({ status: 200, type: [UserSessionResponseDto] })
+  @ApiResponse({ status: 403, description: 'Forbidden', type: ApiResponseDto })
+  @ResponseMessage('User sessions retrieved successfully', 'USER_SESSIONS_GET_SUCCESS')
+  async findUserSessions(
+    @Param('userId', ParseUUIDPipe) userId: string
+  ): Promise<UserSessionResponseDto[]> {
+    return this.loginSecurityService.findUserSessions(userId);
+  }
+}
@@ -0,0 +1,21 @@
+import { Global, Module } from '@nestjs/common';
+import { SequelizeModule } from '@nestjs/sequelize';
+import { User } from '../auth/entities/user.entity';
+import { RoleModule } from '../role/role.module';
+import { LoginAnomaly } from './entities/login-anomaly.entity';
+import { UserSession } from './entities/user-session.entity';
+import { GeoIpService } from './geoip.service';
+import { LoginSecurityController } from './login-security.controller';
+import { LoginSecurityService } from './login-security.service';
+
+/**
+ * Global so that JwtAuthGuard can record login activity in every module that uses it
+ */
+@Global()
+@Module({
+  imports: [SequelizeModule.forFeature([UserSession, LoginAnomaly, User]), RoleModule],
+  controllers: [LoginSecurityController],
+  providers: [LoginSecurityService, GeoIpService],
+  exports: [LoginSecurityService],
+})
+export class LoginSecurityModule {}
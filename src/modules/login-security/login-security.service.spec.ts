@@ -0,0 +1,274 @@
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { getConnectionToken, getModelToken } from '@nestjs/sequelize';
+import { Test, TestingModule } from '@nestjs/testing';
+import { Request } from 'express';
+import { AuditTrailService } from '../audit/audit-trail.service';
+import { AuditSource } from '../audit/entities/audit-record.entity';
+import { User } from '../auth/entities/user.entity';
+import { TokenRevocationService } from '../token-revocation/token-revocation.service';
+import { LoginAnomaly, LoginAnomalyType } from './entities/login-anomaly.entity';
+import { UserSession } from './entities/user-session.entity';
+import { GeoIpService } from './geoip.service';
+import { LoginSecurityService } from './login-security.service';
+
+describe('LoginSecurityService', () => {
+  let service: LoginSecurityService;
+  let userSessionModel: { findAll: jest.Mock; create: jest.Mock };
+  let loginAnomalyModel: { create: jest.Mock; findByPk: jest.Mock };
+  let geoIpService: GeoIpService;
+  let tokenRevocationService: { revokeAllForUser: jest.Mock };
+  let auditTrailService: { append: jest.Mock };
+  let config: Record<string, string>;
+
+  const user = { id: 'user-1', company_id: 'company-1' } as User;
+
+  const buildRequest = (ip: string, userAgent = 'Safari', platform = 'ios') =>
+    ({
+      ip,
+      headers: { 'user-agent': userAgent, 'x-client-platform': platform },
+      originalUrl: '/teams',
+    }) as unknown as Request;
+
+  const buildSession = (overrides: Partial<UserSession> = {}) => ({
+    id: 'session-1',
+    device_hash: 'other-device',
+    ip_address: '10.0.0.1',
+    country_code: 'PT',
+    latitude: 38.72,
+    longitude: -9.14,
+    last_seen_at: new Date(Date.now() - 60 * 60 * 1000),
+    update: jest.fn().mockImplementation(function (this: unknown) {
+      return Promise.resolve(this);
+    }),
+    ...overrides,
+  });
+
+  const flaggedTypes = () =>
+    loginAnomalyModel.create.mock.calls.map(([values]) => values.type as LoginAnomalyType);
+
+  const createService = async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LoginSecurityService,
+        { provide: getModelToken(UserSession), useValue: userSessionModel },
+        { provide: getModelToken(LoginAnomaly), useValue: loginAnomalyModel },
+        { provide: GeoIpService, useValue: geoIpService },
+        { provide: TokenRevocationService, useValue: tokenRevocationService },
+        { provide: AuditTrailService, useValue: auditTrailService },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string, fallback: unknown) => config[key] ?? fallback) },
+        },
+        {
+          provide: getConnectionToken(),
+          useValue: {
+            transaction: jest.fn((callback) => callback({ LOCK: { UPDATE: 'UPDATE' } })),
+          },
+        },
+      ],
+    }).compile();
+
+    return module.get(LoginSecurityService);
+  };
+
+  beforeEach(async () => {
+    userSessionModel = {
+      findAll: jest.fn().mockResolvedValue([]),
+      create: jest.fn().mockResolvedValue({ id: 'session-new' }),
+    };
+    loginAnomalyModel = {
+      create: jest.fn((values) => Promise.resolve({ id: 'anomaly-1', ...values })),
+      findByPk: jest.fn(),
+    };
+    geoIpService = new GeoIpService({ get: jest.fn() } as unknown as ConfigService);
+    geoIpService.load(
+      ['10.0.0.0,10.0.0.255,PT,38.72,-9.14', '10.0.1.0,10.0.1.255,BR,-23.55,-46.63'].join('\n')
+    );
+    tokenRevocationService = { revokeAllForUser: jest.fn() };
+    auditTrailService = { append: jest.fn() };
+    config = {};
+
+    service = await createService();
+    jest.spyOn(service['logger'], 'warn').mockImplementation(() => undefined);
+  });
+
+  describe('recordRequest', () => {
+    it('records the first device of a user without flagging it', async () => {
+      const result = await service.recordRequest(user, buildRequest('10.0.0.1'));
+
+      expect(userSessionModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          user_id: 'user-1',
+          company_id: 'company-1',
+          client_platform: 'ios',
+          user_agent: 'Safari',
+          ip_address: '10.0.0.1',
+          country_code: 'PT',
+        }),
+        expect.anything()
+      );
+      expect(loginAnomalyModel.create).not.toHaveBeenCalled();
+      expect(result).toEqual({ requiresReauthentication: false });
+    });
+
+    it('flags a new device of a user with known devices and audits it', async () => {
+      userSessionModel.findAll.mockResolvedValue([buildSession()]);
+
+      await service.recordRequest(user, buildRequest('10.0.0.1', 'Chrome', 'web'));
+
+      expect(flaggedTypes()).toEqual([LoginAnomalyType.NEW_DEVICE]);
+      expect(loginAnomalyModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          user_id: 'user-1',
+          company_id: 'company-1',
+          session_id: 'session-new',
+          requires_reauthentication: false,
+        }),
+        expect.anything()
+      );
+      expect(auditTrailService.append).toHaveBeenCalledWith(
+        expect.objectContaining({
+          tenantId: 'company-1',
+          source: AuditSource.LOGIN_SECURITY,
+          action: 'LOGIN_ANOMALY_FLAGGED',
+        }),
+        expect.anything()
+      );
+    });
+
+    it('updates a known device without flagging it', async () => {
+      const request = buildRequest('10.0.0.1');
+      userSessionModel.findAll.mockResolvedValue([]);
+      await service.recordRequest(user, request);
+      const deviceHash = userSessionModel.create.mock.calls[0][0].device_hash;
+
+      const session = buildSession({ device_hash: deviceHash });
+      userSessionModel.findAll.mockResolvedValue([session]);
+      await service.recordRequest(user, buildRequest('10.0.0.2'));
+
+      expect(session.update).toHaveBeenCalledWith(
+        expect.objectContaining({ ip_address: '10.0.0.2' }),
+        expect.anything()
+      );
+      expect(loginAnomalyModel.create).not.toHaveBeenCalled();
+    });
+
+    it('flags travel faster than the configured speed', async () => {
+      userSessionModel.findAll.mockResolvedValue([buildSession()]);
+
+      await service.recordRequest(user, buildRequest('10.0.1.9', 'Chrome', 'web'));
+
+      expect(flaggedTypes()).toEqual([
+        LoginAnomalyType.NEW_DEVICE,
+        LoginAnomalyType.IMPOSSIBLE_TRAVEL,
+      ]);
+      const travel = loginAnomalyModel.create.mock.calls[1][0];
+      expect(travel.details).toEqual(
+        expect.objectContaining({ fromCountry: 'PT', toCountry: 'BR', minutes: 60 })
+      );
+      expect(travel.details.distanceKm).toBeGreaterThan(7000);
+    });
+
+    it('does not flag travel that was possible in the time between the requests', async () => {
+      userSessionModel.findAll.mockResolvedValue([
+        buildSession({ last_seen_at: new Date(Date.now() - 24 * 60 * 60 * 1000) }),
+      ]);
+
+      await service.recordRequest(user, buildRequest('10.0.1.9', 'Chrome', 'web'));
+
+      expect(flaggedTypes()).toEqual([LoginAnomalyType.NEW_DEVICE]);
+    });
+
+    it('revokes the tokens of the user for flags that require re-authentication', async () => {
+      config.LOGIN_ANOMALY_REAUTH_TYPES = 'IMPOSSIBLE_TRAVEL, UNKNOWN';
+      service = await createService();
+      userSessionModel.findAll.mockResolvedValue([buildSession()]);
+
+      const result = await service.recordRequest(user, buildRequest('10.0.1.9', 'Chrome', 'web'));
+
+      expect(result).toEqual({ requiresReauthentication: true });
+      expect(tokenRevocationService.revokeAllForUser).toHaveBeenCalledWith(
+        'user-1',
+        expect.anything()
+      );
+      expect(
+        loginAnomalyModel.create.mock.calls.map(([values]) => values.requires_reauthentication)
+      ).toEqual([false, true]);
+    });
+
+    it('does not write the same device and address again within the touch interval', async () => {
+      await service.recordRequest(user, buildRequest('10.0.0.1'));
+      await service.recordRequest(user, buildRequest('10.0.0.1'));
+      await service.recordRequest(user, buildRequest('10.0.0.2'));
+
+      expect(userSessionModel.findAll).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('recordAuthFailure', () => {
+    it('flags an address once it reaches the failure threshold', async () => {
+      config.LOGIN_AUTH_FAILURE_THRESHOLD = '3';
+      service = await createService();
+
+      service.recordAuthFailure(buildRequest('203.0.113.7'));
+      service.recordAuthFailure(buildRequest('203.0.113.7'));
+      service.recordAuthFailure(buildRequest('203.0.113.8'));
+      expect(loginAnomalyModel.create).not.toHaveBeenCalled();
+
+      service.recordAuthFailure(buildRequest('203.0.113.7'));
+      await new Promise(process.nextTick);
+
+      expect(loginAnomalyModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: LoginAnomalyType.AUTH_FAILURE_BURST,
+          ip_address: '203.0.113.7',
+          requires_reauthentication: false,
+          details: expect.objectContaining({ failures: 3, lastPath: '/teams' }),
+        }),
+        expect.anything()
+      );
+    });
+  });
+
+  describe('resolve', () => {
+    it('marks the flag as reviewed and audits it', async () => {
+      const anomaly = {
+        id: 'anomaly-1',
+        type: LoginAnomalyType.NEW_DEVICE,
+        user_id: 'user-1',
+        company_id: 'company-1',
+        details: {},
+        resolved_at: null,
+        update: jest.fn(),
+      };
+      loginAnomalyModel.findByPk.mockResolvedValue(anomaly);
+
+      await service.resolve('anomaly-1', { notes: 'New laptop' }, { id: 'admin-1' } as User);
+
+      expect(anomaly.update).toHaveBeenCalledWith(
+        expect.objectContaining({ resolved_by: 'admin-1', resolution_notes: 'New laptop' }),
+        expect.anything()
+      );
+      expect(auditTrailService.append).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'LOGIN_ANOMALY_RESOLVED', performedBy: 'admin-1' }),
+        expect.anything()
+      );
+    });
+
+    it('rejects unknown and already resolved flags', async () => {
+      loginAnomalyModel.findByPk.mockResolvedValueOnce(null);
+      await expect(service.resolve('anomaly-9', {}, { id: 'admin-1' } as User)).rejects.toThrow(
+        NotFoundException
+      );
+
+      loginAnomalyModel.findByPk.mockResolvedValueOnce({
+        id: 'anomaly-1',
+        resolved_at: new Date(),
+      });
+      await expect(service.resolve('anomaly-1', {}, { id: 'admin-1' } as User)).rejects.toThrow(
+        ConflictException
+      );
+    });
+  });
+});
@@ -0,0 +1,494 @@
+import { ConflictException, Inject, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { getConnectionToken, InjectModel } from '@nestjs/sequelize';
+import { createHash } from 'crypto';
+import { Request } from 'express';
+import { Transaction, WhereOptions } from 'sequelize';
+import { Sequelize } from 'sequelize-typescript';
+import { ERROR_CODES } from '../../common/constants/error-codes';
+import { PaginatedResponseDto } from '../../common/dto/paginated-response.dto';
+import { AuditTrailService } from '../audit/audit-trail.service';
+import { AuditSource } from '../audit/entities/audit-record.entity';
+import { User } from '../auth/entities/user.entity';
+import { TokenRevocationService } from '../token-revocation/token-revocation.service';
+import { LoginAnomalyQueryDto } from './dto/login-anomaly-query.dto';
+import { LoginAnomalyResponseDto } from './dto/login-anomaly-response.dto';
+import { ResolveLoginAnomalyDto } from './dto/resolve-login-anomaly.dto';
+import { UserSessionResponseDto } from './dto/user-session-response.dto';
+import { LoginAnomaly, LoginAnomalyType } from './entities/login-anomaly.entity';
+import { UserSession } from './entities/user-session.entity';
+import { GeoIpService, GeoLocation } from './geoip.service';
+
+export interface LoginActivityResult {
+  /** A flag of this request revoked the user's tokens; the request must be rejected */
+  requiresReauthentication: boolean;
+}
+
+interface ClientInfo {
+  ipAddress: string | null;
+  userAgent: string | null;
+  clientPlatform: string;
+  deviceHash: string;
+}
+
+interface DetectedAnomaly {
+  type: LoginAnomalyType;
+  details: Record<string, unknown>;
+}
+
+/** Locations closer than this are within the accuracy of IP geolocation */
+const MIN_TRAVEL_DISTANCE_KM = 200;
+
+/** Upper bound of the in-memory maps below, oldest entries are dropped first */
+const MAX_TRACKED_KEYS = 10000;
+
+const EARTH_RADIUS_KM = 6371;
+
+/**
+ * Records the devices users authenticate from and flags suspicious authentication:
+ * - NEW_DEVICE: a user with known devices uses a new user agent or client platform
+ * - IMPOSSIBLE_TRAVEL: the GeoIP locations of two requests are further apart than
+ *   LOGIN_IMPOSSIBLE_TRAVEL_MAX_KMH allows for the time between them
+ * - AUTH_FAILURE_BURST: an IP address gets LOGIN_AUTH_FAILURE_THRESHOLD 401 responses
+ *   within LOGIN_AUTH_FAILURE_WINDOW_SECONDS
+ *
+ * JwtAuthGuard reports every authenticated request, but a device is only written again
+ * when its IP address changes or LOGIN_SESSION_TOUCH_SECONDS have passed. Flags of the
+ * types in LOGIN_ANOMALY_REAUTH_TYPES revoke the user's tokens, so the user has to sign
+ * in again before the next request.
+ */
+@Injectable()
+export class LoginSecurityService {
+  private readonly logger = new Logger(LoginSecurityService.name);
+  private readonly touchIntervalMs: number;
+  private readonly maxTravelSpeedKmh: number;
+  private readonly authFailureThreshold: number;
+  private readonly authFailureWindowMs: number;
+  private readonly reauthenticationTypes: LoginAnomalyType[];
+  private readonly lastRecordedAt = new Map<string, number>();
+  private readonly authFailures = new Map<string, number[]>();
+
+  constructor(
+    @InjectModel(UserSession)
+    private readonly userSessionModel: typeof UserSession,
+    @InjectModel(LoginAnomaly)
+    private readonly loginAnomalyModel: typeof LoginAnomaly,
+    private readonly geoIpService: GeoIpService,
+    private readonly tokenRevocationService: TokenRevocationService,
+    private readonly auditTrailService: AuditTrailService,
+    private readonly configService: ConfigService,
+    @Inject(getConnectionToken())
+    private readonly sequelize: Sequelize
+  ) {
+    this.touchIntervalMs =
+      Number(this.configService.get<number>('LOGIN_SESSION_TOUCH_SECONDS', 60)) * 1000;
+    this.maxTravelSpeedKmh = Number(
+      this.configService.get<number>('LOGIN_IMPOSSIBLE_TRAVEL_MAX_KMH', 900)
+    );
+    this.authFailureThreshold = Number(
+      this.configService.get<number>('LOGIN_AUTH_FAILURE_THRESHOLD', 20)
+    );
+    this.authFailureWindowMs =
+      Number(this.configService.get<number>('LOGIN_AUTH_FAILURE_WINDOW_SECONDS', 300)) * 1000;
+    this.reauthenticationTypes = (
+      this.configService.get<string>('LOGIN_ANOMALY_REAUTH_TYPES') ?? ''
+    )
+      .split(',')
+      .map((type) => type.trim())
+      .filter((type): type is LoginAnomalyType =>
+        Object.values(LoginAnomalyType).includes(type as LoginAnomalyType)
+      );
+  }
+
+  /**
+   * Records the device of an authenticated request and flags it when it looks suspicious
+   */
+  async recordRequest(user: User, request: Request): Promise<LoginActivityResult> {
+    const client = this.describeClient(request);
+    const now = new Date();
+    const touchKey = `${user.id}:${client.deviceHash}:${client.ipAddress ?? ''}`;
+
+    const lastRecordedAt = this.lastRecordedAt.get(touchKey);
+    if (lastRecordedAt && now.getTime() - lastRecordedAt < this.touchIntervalMs) {
+      return { requiresReauthentication: false };
+    }
+
+    const anomalies = await this.sequelize.transaction(async (transaction) => {
+      const sessions = await this.userSessionModel.findAll({
+        where: { user_id: user.id },
+        order: [['last_seen_at', 'DESC']],
+        transaction,
+      });
+      const session = sessions.find((known) => known.device_hash === client.deviceHash);
+      const location = this.geoIpService.lookup(client.ipAddress);
+
+      const detected: DetectedAnomaly[] = [];
+      if (!session && sessions.length > 0) {
+        detected.push({
+          type: LoginAnomalyType.NEW_DEVICE,
+          details: { knownDevices: sessions.length, countryCode: location?.countryCode ?? null },
+        });
+      }
+
+      const travel = sessions[0] && this.detectImpossibleTravel(sessions[0], client, location, now);
+      if (travel) {
+        detected.push(travel);
+      }
+
+      const values = {
+        company_id: user.company_id ?? null,
+        user_agent: client.userAgent,
+        client_platform: client.clientPlatform,
+        ip_address: client.ipAddress,
+        country_code: location?.countryCode ?? null,
+        latitude: location?.latitude ?? null,
+        longitude: location?.longitude ?? null,
+        last_seen_at: now,
+      };
+      const saved = session
+        ? await session.update(values, { transaction })
+        : await this.userSessionModel.create(
+            { ...values, user_id: user.id, device_hash: client.deviceHash, first_seen_at: now },
+            { transaction }
+          );
+
+      const flagged: LoginAnomaly[] = [];
+      for (const anomaly of detected) {
+        flagged.push(
+          await this.flag(
+            anomaly,
+            {
+              user_id: user.id,
+              company_id: user.company_id ?? null,
+              session_id: saved.id,
+              ip_address: client.ipAddress,
+            },
+            transaction
+          )
+        );
+      }
+
+      if (flagged.some((anomaly) => anomaly.requires_reauthentication)) {
+        await this.tokenRevocationService.revokeAllForUser(user.id, transaction);
+      }
+
+      return flagged;
+    });
+
+    this.remember(this.lastRecordedAt, touchKey, now.getTime());
+
+    return {
+      requiresReauthentication: anomalies.some((anomaly) => anomaly.requires_reauthentication),
+    };
+  }
+
+  /**
+   * Counts a 401 response by IP address and flags the address once it reaches the threshold.
+   * The flag is written in the background so that the rejection is not delayed.
+   */
+  recordAuthFailure(request: Request): void {
+    const ipAddress = request.ip;
+    if (!ipAddress || this.authFailureThreshold <= 0) {
+      return;
+    }
+
+    const now = Date.now();
+    const failures = (this.authFailures.get(ipAddress) ?? []).filter(
+      (failedAt) => now - failedAt < this.authFailureWindowMs
+    );
+    failures.push(now);
+    this.authFailures.delete(ipAddress);
+
+    if (failures.length < this.authFailureThreshold) {
+      this.remember(this.authFailures, ipAddress, failures);
+      return;
+    }
+
+    const anomaly: DetectedAnomaly = {
+      type: LoginAnomalyType.AUTH_FAILURE_BURST,
+      details: {
+        failures: failures.length,
+        windowSeconds: this.authFailureWindowMs / 1000,
+        lastPath: request.originalUrl ?? request.url,
+        userAgent: this.readHeader(request, 'user-agent'),
+      },
+    };
+    this.sequelize
+      .transaction((transaction) => this.flag(anomaly, { ip_address: ipAddress }, transaction))
+      .catch((error) =>
+        this.logger.error(`Failed to flag authentication failures from ${ipAddress}`, error)
+      );
+  }
+
+  async findAll(
+    query: LoginAnomalyQueryDto
+  ): Promise<PaginatedResponseDto<LoginAnomalyResponseDto>> {
+    const { page = 1, limit = 10 } = query;
+
+    const where: WhereOptions<LoginAnomaly> = {};
+    if (query.companyId) {
+      where.company_id = query.companyId;
+    }
+    if (query.userId) {
+      where.user_id = query.userId;
+    }
+    if (query.type) {
+      where.type = query.type;
+    }
+    if (!query.includeResolved) {
+      where.resolved_at = null;
+    }
+
+    const { count, rows } = await this.loginAnomalyModel.findAndCountAll({
+      where,
+      include: this.getIncludes(),
+      limit,
+      offset: (page - 1) * limit,
+      order: [['created_at', 'DESC']],
+    });
+
+    return {
+      data: rows.map((anomaly) => this.toResponse(anomaly)),
+      meta: {
+        currentPage: page,
+        itemCount: count,
+        itemsPerPage: limit,
+        totalPages: Math.ceil(count / limit),
+      },
+    };
+  }
+
+  /**
+   * Marks a flag as reviewed
+   */
+  async resolve(
+    anomalyId: string,
+    resolveDto: ResolveLoginAnomalyDto,
+    currentUser: User
+  ): Promise<LoginAnomalyResponseDto> {
+    return this.sequelize.transaction(async (transaction) => {
+      const anomaly = await this.loginAnomalyModel.findByPk(anomalyId, {
+        include: this.getIncludes(),
+        transaction,
+        lock: transaction.LOCK.UPDATE,
+      });
+
+      if (!anomaly) {
+        throw new NotFoundException({
+          success: false,
+          code: ERROR_CODES.LOGIN_ANOMALY_NOT_FOUND,
+          message: 'Login anomaly not found',
+        });
+      }
+
+      if (anomaly.resolved_at) {
+        throw new ConflictException({
+          success: false,
+          code: ERROR_CODES.LOGIN_ANOMALY_ALREADY_RESOLVED,
+          message: 'Login anomaly has already been resolved',
+        });
+      }
+
+      await anomaly.update(
+        {
+          resolved_at: new Date(),
+          resolved_by: currentUser.id,
+          resolution_notes: resolveDto.notes ?? null,
+        },
+        { transaction }
+      );
+
+      await this.auditTrailService.append(
+        {
+          tenantId: anomaly.company_id,
+          source: AuditSource.LOGIN_SECURITY,
+          action: 'LOGIN_ANOMALY_RESOLVED',
+          entityId: anomaly.id,
+          performedBy: currentUser.id,
+          payload: { type: anomaly.type, userId: anomaly.user_id ?? null },
+        },
+        transaction
+      );
+
+      return this.toResponse(anomaly);
+    });
+  }
+
+  /**
+   * Devices of a user, most recently used first
+   */
+  async findUserSessions(userId: string): Promise<UserSessionResponseDto[]> {
+    const sessions = await this.userSessionModel.findAll({
+      where: { user_id: userId },
+      order: [['last_seen_at', 'DESC']],
+    });
+
+    return sessions.map((session) => ({
+      id: session.id,
+      clientPlatform: session.client_platform,
+      userAgent: session.user_agent ?? null,
+      ipAddress: session.ip_address ?? null,
+      countryCode: session.country_code ?? null,
+      firstSeenAt: session.first_seen_at,
+      lastSeenAt: session.last_seen_at,
+    }));
+  }
+
+  private detectImpossibleTravel(
+    previous: UserSession,
+    client: ClientInfo,
+    location: GeoLocation | null,
+    now: Date
+  ): DetectedAnomaly | null {
+    if (
+      !location ||
+      previous.latitude == null ||
+      previous.longitude == null ||
+      previous.ip_address === client.ipAddress
+    ) {
+      return null;
+    }
+
+    const distanceKm = this.distanceKm(previous.latitude, previous.longitude, location);
+    if (distanceKm < MIN_TRAVEL_DISTANCE_KM) {
+      return null;
+    }
+
+    const hours = (now.getTime() - new Date(previous.last_seen_at).getTime()) / 3_600_000;
+    const speedKmh = hours > 0 ? distanceKm / hours : Infinity;
+    if (speedKmh <= this.maxTravelSpeedKmh) {
+      return null;
+    }
+
+    return {
+      type: LoginAnomalyType.IMPOSSIBLE_TRAVEL,
+      details: {
+        fromIp: previous.ip_address ?? null,
+        fromCountry: previous.country_code ?? null,
+        toCountry: location.countryCode,
+        distanceKm: Math.round(distanceKm),
+        minutes: Math.round(hours * 60),
+        speedKmh: Number.isFinite(speedKmh) ? Math.round(speedKmh) : null,
+      },
+    };
+  }
+
+  private async flag(
+    anomaly: DetectedAnomaly,
+    subject: Pick<LoginAnomaly, 'user_id' | 'company_id' | 'session_id' | 'ip_address'>,
+    transaction: Transaction
+  ): Promise<LoginAnomaly> {
+    const requiresReauthentication =
+      !!subject.user_id && this.reauthenticationTypes.includes(anomaly.type);
+
+    const created = await this.loginAnomalyModel.create(
+      {
+        ...subject,
+        type: anomaly.type,
+        details: anomaly.details,
+        requires_reauthentication: requiresReauthentication,
+      },
+      { transaction }
+    );
+
+    await this.auditTrailService.append(
+      {
+        tenantId: subject.company_id,
+        source: AuditSource.LOGIN_SECURITY,
+        action: 'LOGIN_ANOMALY_FLAGGED',
+        entityId: created.id,
+        performedBy: null,
+        payload: {
+          type: anomaly.type,
+          userId: subject.user_id ?? null,
+          requiresReauthentication,
+        },
+      },
+      transaction
+    );
+
+    this.logger.warn(
+      `Flagged ${anomaly.type} for ${subject.user_id ?? subject.ip_address ?? 'unknown client'}`
+    );
+
+    return created;
+  }
+
+  private describeClient(request: Request): ClientInfo {
+    const userAgent = this.readHeader(request, 'user-agent')?.slice(0, 500) ?? null;
+    // Same header as ClientVersionGuard
+    const clientPlatform = (this.readHeader(request, 'x-client-platform') ?? 'unknown')
+      .toLowerCase()
+      .slice(0, 20);
+
+    return {
+      ipAddress: request.ip ?? null,
+      userAgent,
+      clientPlatform,
+      deviceHash: createHash('sha256')
+        .update(`${clientPlatform}|${userAgent ?? ''}`)
+        .digest('hex'),
+    };
+  }
+
+  private readHeader(request: Request, name: string): string | undefined {
+    const value = request.headers?.[name];
+    return Array.isArray(value) ? value[0] : value;
+  }
+
+  private remember<T>(map: Map<string, T>, key: string, value: T): void {
+    map.delete(key);
+    if (map.size >= MAX_TRACKED_KEYS) {
+      // Maps iterate in insertion order: drop the oldest key
+      const oldest = map.keys().next().value as string | undefined;
+      if (oldest !== undefined) {
+        map.delete(oldest);
+      }
+    }
+    map.set(key, value);
+  }
+
+  /**
+   * Great-circle distance between two points (haversine formula)
+   */
+  private distanceKm(latitude: number, longitude: number, to: GeoLocation): number {
+    const radians = (degrees: number) => (degrees * Math.PI) / 180;
+    const dLatitude = radians(to.latitude - latitude);
+    const dLongitude = radians(to.longitude - longitude);
+    const a =
+      Math.sin(dLatitude / 2) ** 2 +
+      Math.cos(radians(latitude)) * Math.cos(radians(to.latitude)) * Math.sin(dLongitude / 2) ** 2;
+
+    return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+  }
+
+  private getIncludes() {
+    return [
+      { model: User, attributes: ['id', 'email'], required: false },
+      {
+        model: UserSession,
+        attributes: ['id', 'client_platform', 'user_agent'],
+        required: false,
+      },
+    ];
+  }
+
+  private toResponse(anomaly: LoginAnomaly): LoginAnomalyResponseDto {
+    return {
+      id: anomaly.id,
+      type: anomaly.type,
+      userId: anomaly.user_id ?? null,
+      userEmail: anomaly.user?.email ?? null,
+      companyId: anomaly.company_id ?? null,
+      ipAddress: anomaly.ip_address ?? null,
+      clientPlatform: anomaly.session?.client_platform ?? null,
+      userAgent: anomaly.session?.user_agent ?? null,
+      details: anomaly.details ?? {},
+      requiresReauthentication: anomaly.requires_reauthentication,
+      resolvedAt: anomaly.resolved_at ?? null,
+      resolvedBy: anomaly.resolved_by ?? null,
+      resolutionNotes: anomaly.resolution_notes ?? null,
+      createdAt: anomaly.created_at,
+    };
+  }
+}
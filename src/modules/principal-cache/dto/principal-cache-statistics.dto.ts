@@ -0,0 +1,24 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class PrincipalCacheStatisticsDto {
+  @ApiProperty({ description: 'Whether authenticated users are cached (TTL above 0)' })
+  enabled: boolean;
+
+  @ApiProperty({ description: 'Seconds a cached user is served before it is read again' })
+  ttl_seconds: number;
+
+  @ApiProperty({ description: 'Number of cached users' })
+  entries: number;
+
+  @ApiProperty({ description: 'Lookups served from the cache' })
+  hits: number;
+
+  @ApiProperty({ description: 'Lookups that read the database' })
+  misses: number;
+
+  @ApiProperty({ description: 'hits / (hits + misses), 0 before the first lookup' })
+  hit_ratio: number;
+
+  @ApiProperty({ description: 'Entries dropped because the user, its company or a role changed' })
+  invalidations: number;
+}
@@ -0,0 +1,17 @@
+import { Global, Module } from '@nestjs/common';
+import { SequelizeModule } from '@nestjs/sequelize';
+import { User } from '../auth/entities/user.entity';
+import { Company } from '../company/entities/company.entity';
+import { Role } from '../role/entities/role.entity';
+import { PrincipalCacheService } from './principal-cache.service';
+
+/**
+ * Global so that JwtAuthGuard and the guards after it share one cache in every module
+ */
+@Global()
+@Module({
+  imports: [SequelizeModule.forFeature([User, Company, Role])],
+  providers: [PrincipalCacheService],
+  exports: [PrincipalCacheService],
+})
+export class PrincipalCacheModule {}
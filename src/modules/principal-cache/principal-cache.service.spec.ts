@@ -0,0 +1,219 @@
+import { ConfigService } from '@nestjs/config';
+import { getModelToken } from '@nestjs/sequelize';
+import { Test, TestingModule } from '@nestjs/testing';
+import { Op } from 'sequelize';
+import { User } from '../auth/entities/user.entity';
+import { Company } from '../company/entities/company.entity';
+import { Role } from '../role/entities/role.entity';
+import { PrincipalCacheService } from './principal-cache.service';
+
+type Hook = (...args: unknown[]) => void;
+
+describe('PrincipalCacheService', () => {
+  let service: PrincipalCacheService;
+  let userModel: {
+    findOne: jest.Mock;
+    findByPk: jest.Mock;
+    build: jest.Mock;
+    addHook: jest.Mock;
+  };
+  let companyModel: { addHook: jest.Mock };
+  let roleModel: { addHook: jest.Mock };
+  let config: Record<string, string>;
+
+  const buildUser = (id: string, companyId: string) => {
+    const values = { id, auth0_user_id: `auth0|${id}`, company_id: companyId };
+    return { ...values, get: jest.fn(() => ({ ...values })) };
+  };
+
+  const hook = (model: { addHook: jest.Mock }, name: string): Hook =>
+    model.addHook.mock.calls.find(([hookName]) => hookName === name)[2];
+
+  const createService = async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PrincipalCacheService,
+        { provide: getModelToken(User), useValue: userModel },
+        { provide: getModelToken(Company), useValue: companyModel },
+        { provide: getModelToken(Role), useValue: roleModel },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string, fallback: unknown) => config[key] ?? fallback) },
+        },
+      ],
+    }).compile();
+
+    const created = module.get(PrincipalCacheService);
+    created.onModuleInit();
+    return created;
+  };
+
+  beforeEach(async () => {
+    userModel = {
+      findOne: jest.fn(),
+      findByPk: jest.fn(),
+      build: jest.fn((values) => ({ ...values })),
+      addHook: jest.fn(),
+    };
+    companyModel = { addHook: jest.fn() };
+    roleModel = { addHook: jest.fn() };
+    config = {};
+
+    service = await createService();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('serves repeated lookups of a subject from the cache with a new instance each time', async () => {
+    userModel.findOne.mockResolvedValue(buildUser('user-1', 'company-1'));
+
+    await service.findBySub('auth0|user-1');
+    const first = await service.findBySub('auth0|user-1');
+    const second = await service.findBySub('auth0|user-1');
+
+    expect(userModel.findOne).toHaveBeenCalledTimes(1);
+    expect(first).toEqual(expect.objectContaining({ id: 'user-1' }));
+    expect(first).not.toBe(second);
+    expect(service.getStatistics()).toEqual(
+      expect.objectContaining({ entries: 1, hits: 2, misses: 1, hit_ratio: 2 / 3 })
+    );
+  });
+
+  it('serves lookups by ID from the entry of the subject', async () => {
+    userModel.findOne.mockResolvedValue(buildUser('user-1', 'company-1'));
+    await service.findBySub('auth0|user-1');
+
+    const user = await service.findById('user-1');
+
+    expect(user).toEqual(expect.objectContaining({ id: 'user-1' }));
+    expect(userModel.findByPk).not.toHaveBeenCalled();
+  });
+
+  it('does not cache unknown subjects', async () => {
+    userModel.findOne.mockResolvedValue(null);
+
+    await service.findBySub('auth0|unknown');
+    await service.findBySub('auth0|unknown');
+
+    expect(userModel.findOne).toHaveBeenCalledTimes(2);
+  });
+
+  it('reads the user again once the TTL has passed', async () => {
+    jest.useFakeTimers();
+    userModel.findOne.mockResolvedValue(buildUser('user-1', 'company-1'));
+
+    await service.findBySub('auth0|user-1');
+    jest.advanceTimersByTime(31_000);
+    await service.findBySub('auth0|user-1');
+
+    expect(userModel.findOne).toHaveBeenCalledTimes(2);
+  });
+
+  it('is disabled by a TTL of 0', async () => {
+    config.PRINCIPAL_CACHE_TTL_SECONDS = '0';
+    service = await createService();
+    userModel.findOne.mockResolvedValue(buildUser('user-1', 'company-1'));
+
+    await service.findBySub('auth0|user-1');
+    await service.findBySub('auth0|user-1');
+
+    expect(userModel.findOne).toHaveBeenCalledTimes(2);
+    expect(service.getStatistics().enabled).toBe(false);
+  });
+
+  describe('invalidation', () => {
+    beforeEach(async () => {
+      userModel.findOne.mockImplementation(({ where }) =>
+        Promise.resolve(
+          where.auth0_user_id === 'auth0|user-1'
+            ? buildUser('user-1', 'company-1')
+            : buildUser('user-2', 'company-2')
+        )
+      );
+      await service.findBySub('auth0|user-1');
+      await service.findBySub('auth0|user-2');
+      userModel.findOne.mockClear();
+    });
+
+    it('drops a user when it is updated, and again when the transaction commits', async () => {
+      const transaction = { afterCommit: jest.fn() };
+
+      hook(userModel, 'afterUpdate')({ id: 'user-1' }, { transaction });
+      await service.findBySub('auth0|user-1');
+      await service.findBySub('auth0|user-2');
+
+      expect(userModel.findOne).toHaveBeenCalledTimes(1);
+      expect(transaction.afterCommit).toHaveBeenCalledWith(expect.any(Function));
+
+      transaction.afterCommit.mock.calls[0][0]();
+      await service.findBySub('auth0|user-1');
+      expect(userModel.findOne).toHaveBeenCalledTimes(2);
+    });
+
+    it('drops the users matched by a bulk update', async () => {
+      hook(userModel, 'afterBulkUpdate')({ where: { id: { [Op.in]: ['user-2'] } } });
+
+      expect(service.getStatistics()).toEqual(expect.objectContaining({ entries: 1 }));
+      expect(await service.findById('user-1')).toBeTruthy();
+      expect(userModel.findByPk).not.toHaveBeenCalled();
+    });
+
+    it('drops the users of a company on a bulk update by company', async () => {
+      hook(userModel, 'afterBulkUpdate')({ where: { company_id: 'company-1' } });
+
+      await service.findBySub('auth0|user-1');
+      await service.findBySub('auth0|user-2');
+
+      expect(userModel.findOne).toHaveBeenCalledTimes(1);
+    });
+
+    it('clears the cache on a bulk update it cannot narrow down', async () => {
+      hook(userModel, 'afterBulkUpdate')({ where: { status: 'active' } });
+
+      expect(service.getStatistics()).toEqual(
+        expect.objectContaining({ entries: 0, invalidations: 2 })
+      );
+    });
+
+    it('drops the users of a company when the company changes', async () => {
+      hook(companyModel, 'afterUpdate')({ id: 'company-2' }, {});
+
+      await service.findBySub('auth0|user-2');
+
+      expect(userModel.findOne).toHaveBeenCalledTimes(1);
+      expect(service.getStatistics().invalidations).toBe(1);
+    });
+
+    it('reports an eviction to the listeners once the transaction commits', () => {
+      const listener = jest.fn();
+      service.onEviction(listener);
+      const transaction = { afterCommit: jest.fn() };
+
+      hook(userModel, 'afterBulkUpdate')({ where: { id: 'user-1' }, transaction });
+      expect(listener).not.toHaveBeenCalled();
+
+      transaction.afterCommit.mock.calls[0][0]();
+      expect(listener).toHaveBeenCalledWith({ userIds: ['user-1'] });
+    });
+
+    it('drops the users of an eviction reported by another instance without reporting it', async () => {
+      const listener = jest.fn();
+      service.onEviction(listener);
+
+      service.evict({ userIds: ['user-1'] });
+      await service.findBySub('auth0|user-1');
+      await service.findBySub('auth0|user-2');
+
+      expect(userModel.findOne).toHaveBeenCalledTimes(1);
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('clears the cache when a role changes', async () => {
+      hook(roleModel, 'afterUpdate')({ id: 'role-1' }, {});
+
+      expect(service.getStatistics().entries).toBe(0);
+    });
+  });
+});
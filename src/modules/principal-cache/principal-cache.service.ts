@@ -0,0 +1,314 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/sequelize';
+import { Includeable, Op, Transaction, WhereOptions } from 'sequelize';
+import { User } from '../auth/entities/user.entity';
+import { Company } from '../company/entities/company.entity';
+import { Role } from '../role/entities/role.entity';
+import { PrincipalCacheStatisticsDto } from './dto/principal-cache-statistics.dto';
+
+/** Associations loaded with every principal, as JwtAuthGuard expects them */
+const PRINCIPAL_INCLUDE: Includeable[] = [
+  {
+    model: Role,
+    attributes: ['id', 'name', 'code'],
+    required: true,
+  },
+  {
+    model: Company,
+    attributes: ['id', 'status'],
+    required: false,
+  },
+];
+
+const HOOK_NAME = 'principalCache';
+
+interface PrincipalCacheEntry {
+  /** Plain values of the user with its role and company */
+  values: Record<string, unknown>;
+  userId: string;
+  companyId: string | null;
+  expiresAt: number;
+}
+
+/**
+ * Cached users dropped after a write: the given users, or the users of the given
+ * companies; neither means every user.
+ */
+export interface PrincipalEviction {
+  userIds?: string[];
+  companyIds?: string[];
+}
+
+interface HookOptions {
+  where?: WhereOptions;
+  transaction?: Transaction | null;
+}
+
+/**
+ * Short-lived cache of authenticated users, with their role and company, keyed by token
+ * subject. JwtAuthGuard, PermissionsService.isSuperAdmin and the team guards read users
+ * through it instead of querying the same row several times per request.
+ *
+ * Entries are dropped whenever a user, a company or a role is written. This is done with
+ * model hooks so that every write path is covered, including bulk updates such as the
+ * tokens_valid_after cutoff of token revocation; a bulk update whose rows cannot be told
+ * from its where clause clears the cache. Writes in a transaction are dropped again when
+ * it commits, so a request that read the old row in between does not keep it.
+ *
+ * The cache is per instance. Evictions caused by writes are reported to the listeners
+ * registered with onEviction once the write is committed; PermissionsService relays them
+ * to the other instances over the permission cache bus, which apply them with evict.
+ *
+ * Callers get their own User instance, since JwtAuthGuard changes request.user (see
+ * User.applyMembership). PRINCIPAL_CACHE_TTL_SECONDS=0 disables the cache.
+ */
+@Injectable()
+export class PrincipalCacheService implements OnModuleInit {
+  private readonly ttlSeconds: number;
+  private readonly maxEntries: number;
+  private readonly entries = new Map<string, PrincipalCacheEntry>();
+  private readonly subsByUserId = new Map<string, string>();
+  private hits = 0;
+  private misses = 0;
+  private invalidations = 0;
+  private readonly evictionListeners: ((eviction: PrincipalEviction) => void)[] = [];
+
+  constructor(
+    @InjectModel(User)
+    private readonly userModel: typeof User,
+    @InjectModel(Company)
+    private readonly companyModel: typeof Company,
+    @InjectModel(Role)
+    private readonly roleModel: typeof Role,
+    private readonly configService: ConfigService
+  ) {
+    this.ttlSeconds = Number(this.configService.get<number>('PRINCIPAL_CACHE_TTL_SECONDS', 30));
+    this.maxEntries = Number(this.configService.get<number>('PRINCIPAL_CACHE_MAX_ENTRIES', 10000));
+  }
+
+  onModuleInit(): void {
+    this.userModel.addHook('afterUpdate', HOOK_NAME, (user: User, options: HookOptions) =>
+      this.afterWrite(options, { userIds: [user.id] })
+    );
+    this.userModel.addHook('afterDestroy', HOOK_NAME, (user: User, options: HookOptions) =>
+      this.afterWrite(options, { userIds: [user.id] })
+    );
+    this.userModel.addHook('afterBulkUpdate', HOOK_NAME, (options: HookOptions) =>
+      this.afterWrite(options, this.usersWhere(options.where))
+    );
+    this.userModel.addHook('afterBulkDestroy', HOOK_NAME, (options: HookOptions) =>
+      this.afterWrite(options, this.usersWhere(options.where))
+    );
+
+    this.companyModel.addHook('afterUpdate', HOOK_NAME, (company: Company, options: HookOptions) =>
+      this.afterWrite(options, { companyIds: [company.id] })
+    );
+    this.companyModel.addHook('afterBulkUpdate', HOOK_NAME, (options: HookOptions) => {
+      const companyIds = this.readIds(options.where, 'id');
+      this.afterWrite(options, companyIds ? { companyIds } : {});
+    });
+
+    // Role renames are rare; every cached user may carry the role
+    this.roleModel.addHook('afterUpdate', HOOK_NAME, (_role: Role, options: HookOptions) =>
+      this.afterWrite(options, {})
+    );
+    this.roleModel.addHook('afterBulkUpdate', HOOK_NAME, (options: HookOptions) =>
+      this.afterWrite(options, {})
+    );
+  }
+
+  /**
+   * Registers a listener for the evictions caused by committed writes on this instance
+   */
+  onEviction(listener: (eviction: PrincipalEviction) => void): void {
+    this.evictionListeners.push(listener);
+  }
+
+  /**
+   * Drops the users of an eviction, e.g. one reported by another instance
+   */
+  evict(eviction: PrincipalEviction): void {
+    if (eviction.userIds) {
+      this.invalidateUsers(eviction.userIds);
+    } else if (eviction.companyIds) {
+      this.invalidateCompanies(eviction.companyIds);
+    } else {
+      this.clear();
+    }
+  }
+
+  /**
+   * The user linked to a token subject, or null when there is none
+   */
+  async findBySub(sub: string): Promise<User | null> {
+    const cached = this.read(sub);
+    if (cached) {
+      return cached;
+    }
+
+    const user = await this.userModel.findOne({
+      where: { auth0_user_id: sub },
+      include: PRINCIPAL_INCLUDE,
+    });
+    this.store(user);
+
+    return user;
+  }
+
+  /**
+   * A user by ID, served from the entry of its token subject when cached
+   */
+  async findById(userId: string): Promise<User | null> {
+    const cached = this.read(this.subsByUserId.get(userId));
+    if (cached) {
+      return cached;
+    }
+
+    const user = await this.userModel.findByPk(userId, { include: PRINCIPAL_INCLUDE });
+    this.store(user);
+
+    return user;
+  }
+
+  /**
+   * Drops the cached users. Callers that change users without a model write (e.g. raw
+   * queries) call this themselves.
+   */
+  invalidateUsers(userIds: string[]): void {
+    for (const userId of userIds) {
+      const sub = this.subsByUserId.get(userId);
+      if (sub) {
+        this.delete(sub);
+        this.invalidations++;
+      }
+    }
+  }
+
+  /**
+   * Drops the cached users of the companies
+   */
+  invalidateCompanies(companyIds: string[]): void {
+    for (const [sub, entry] of this.entries) {
+      if (entry.companyId && companyIds.includes(entry.companyId)) {
+        this.delete(sub);
+        this.invalidations++;
+      }
+    }
+  }
+
+  clear(): void {
+    this.invalidations += this.entries.size;
+    this.entries.clear();
+    this.subsByUserId.clear();
+  }
+
+  getStatistics(): PrincipalCacheStatisticsDto {
+    const lookups = this.hits + this.misses;
+
+    return {
+      enabled: this.ttlSeconds > 0,
+      ttl_seconds: this.ttlSeconds,
+      entries: this.entries.size,
+      hits: this.hits,
+      misses: this.misses,
+      hit_ratio: lookups > 0 ? this.hits / lookups : 0,
+      invalidations: this.invalidations,
+    };
+  }
+
+  private read(sub: string | undefined): User | null {
+    const entry = sub ? this.entries.get(sub) : undefined;
+    if (!entry || Date.now() > entry.expiresAt) {
+      if (sub && entry) {
+        this.delete(sub);
+      }
+      this.misses++;
+      return null;
+    }
+
+    this.hits++;
+    return this.userModel.build(entry.values, {
+      isNewRecord: false,
+      include: PRINCIPAL_INCLUDE,
+    });
+  }
+
+  private store(user: User | null): void {
+    if (!user || this.ttlSeconds <= 0 || !user.auth0_user_id) {
+      return;
+    }
+
+    if (this.entries.size >= this.maxEntries) {
+      // Maps iterate in insertion order: drop the oldest entry
+      const oldest = this.entries.keys().next().value as string | undefined;
+      if (oldest !== undefined) {
+        this.delete(oldest);
+      }
+    }
+
+    this.entries.set(user.auth0_user_id, {
+      values: user.get({ plain: true }) as Record<string, unknown>,
+      userId: user.id,
+      companyId: user.company_id ?? null,
+      expiresAt: Date.now() + this.ttlSeconds * 1000,
+    });
+    this.subsByUserId.set(user.id, user.auth0_user_id);
+  }
+
+  private delete(sub: string): void {
+    const entry = this.entries.get(sub);
+    if (entry) {
+      this.subsByUserId.delete(entry.userId);
+      this.entries.delete(sub);
+    }
+  }
+
+  private afterWrite(options: HookOptions | undefined, eviction: PrincipalEviction): void {
+    this.evict(eviction);
+
+    const transaction = options?.transaction;
+    if (!transaction) {
+      this.notifyEviction(eviction);
+      return;
+    }
+
+    transaction.afterCommit(() => {
+      this.evict(eviction);
+      this.notifyEviction(eviction);
+    });
+  }
+
+  private notifyEviction(eviction: PrincipalEviction): void {
+    for (const listener of this.evictionListeners) {
+      listener(eviction);
+    }
+  }
+
+  private usersWhere(where: WhereOptions | undefined): PrincipalEviction {
+    const userIds = this.readIds(where, 'id');
+    if (userIds) {
+      return { userIds };
+    }
+
+    const companyIds = this.readIds(where, 'company_id');
+    return companyIds ? { companyIds } : {};
+  }
+
+  /**
+   * Values of a column compared with = or IN at the top level of a where clause
+   */
+  private readIds(where: WhereOptions | undefined, column: string): string[] | undefined {
+    const value = (where as Record<string, unknown> | undefined)?.[column];
+
+    if (typeof value === 'string') {
+      return [value];
+    }
+    if (Array.isArray(value)) {
+      return value as string[];
+    }
+
+    const inValues = (value as Record<symbol, unknown> | undefined)?.[Op.in];
+    return Array.isArray(inValues) ? (inValues as string[]) : undefined;
+  }
+}
@@ -0,0 +1,14 @@
+import { PermissionCacheBus, PermissionCacheInvalidation } from './permission-cache.interface';
+
+/**
+ * Bus of a single instance: there is nobody to tell, so invalidations stay local
+ */
+export class LocalPermissionCacheBus implements PermissionCacheBus {
+  publish(_invalidation: PermissionCacheInvalidation): Promise<void> {
+    return Promise.resolve();
+  }
+
+  subscribe(_handler: (invalidation: PermissionCacheInvalidation) => void): Promise<void> {
+    return Promise.resolve();
+  }
+}
@@ -0,0 +1,47 @@
+import { MemoryPermissionCacheStore } from './memory-permission-cache.store';
+
+describe('MemoryPermissionCacheStore', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('evicts the least recently used entries beyond the maximum', async () => {
+    const store = new MemoryPermissionCacheStore(2);
+    await store.set('a', 1, 60);
+    await store.set('b', 2, 60);
+    await store.get('a');
+
+    await store.set('c', 3, 60);
+
+    expect(await store.peek('b')).toBeNull();
+    expect(await store.get('a')).toBe(1);
+    expect(await store.get('c')).toBe(3);
+    expect(await store.getStatistics()).toEqual(
+      expect.objectContaining({ store: 'memory', entries: 2, evictions: 1 })
+    );
+  });
+
+  it('expires entries after their TTL and counts hits and misses', async () => {
+    jest.useFakeTimers();
+    const store = new MemoryPermissionCacheStore(10);
+    await store.set('a', { granted: true }, 60);
+
+    expect(await store.get('a')).toEqual({ granted: true });
+    jest.advanceTimersByTime(61 * 1000);
+    expect(await store.get('a')).toBeNull();
+
+    expect(await store.getStatistics()).toEqual(
+      expect.objectContaining({ entries: 0, hits: 1, misses: 1 })
+    );
+  });
+
+  it('reports how many entries were deleted or cleared', async () => {
+    const store = new MemoryPermissionCacheStore(10);
+    await store.set('a', 1, 60);
+    await store.set('b', 2, 60);
+    await store.set('c', 3, 60);
+
+    expect(await store.delete(['a', 'missing'])).toBe(1);
+    expect(await store.clear()).toBe(2);
+  });
+});
@@ -0,0 +1,99 @@
+import {
+  PermissionCacheEntry,
+  PermissionCacheStore,
+  PermissionCacheStoreStatistics,
+} from './permission-cache.interface';
+
+/**
+ * Permission cache held in the memory of this instance. The Map keeps entries in order of
+ * use (a read moves the entry to the end), so the first entries are the least recently
+ * used ones and are evicted once maxEntries is exceeded.
+ */
+export class MemoryPermissionCacheStore implements PermissionCacheStore {
+  private readonly entries = new Map<string, PermissionCacheEntry<unknown>>();
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+
+  constructor(private readonly maxEntries: number) {}
+
+  get<T>(key: string): Promise<T | null> {
+    const entry = this.liveEntry<T>(key);
+    if (!entry) {
+      this.misses++;
+      return Promise.resolve(null);
+    }
+
+    this.hits++;
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return Promise.resolve(entry.data);
+  }
+
+  peek<T>(key: string): Promise<PermissionCacheEntry<T> | null> {
+    return Promise.resolve(this.liveEntry<T>(key));
+  }
+
+  set<T>(key: string, value: T, ttlSeconds: number): Promise<void> {
+    const now = Date.now();
+    this.entries.delete(key);
+    this.entries.set(key, { data: value, createdAt: now, expiresAt: now + ttlSeconds * 1000 });
+
+    for (const oldestKey of this.entries.keys()) {
+      if (this.entries.size <= this.maxEntries) {
+        break;
+      }
+      this.entries.delete(oldestKey);
+      this.evictions++;
+    }
+
+    return Promise.resolve();
+  }
+
+  delete(keys: string[]): Promise<number> {
+    return Promise.resolve(keys.filter((key) => this.entries.delete(key)).length);
+  }
+
+  clear(): Promise<number> {
+    const count = this.entries.size;
+    this.entries.clear();
+    return Promise.resolve(count);
+  }
+
+  getStatistics(): Promise<PermissionCacheStoreStatistics> {
+    const now = Date.now();
+    let memoryUsageBytes = 0;
+
+    for (const [key, entry] of this.entries) {
+      if (now > entry.expiresAt) {
+        this.entries.delete(key);
+        continue;
+      }
+      // Rough estimate: UTF-16 key and serialized data plus the entry object
+      memoryUsageBytes += key.length * 2 + JSON.stringify(entry.data).length * 2 + 64;
+    }
+
+    return Promise.resolve({
+      store: 'memory',
+      entries: this.entries.size,
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+      memoryUsageBytes,
+    });
+  }
+
+  private liveEntry<T>(key: string): PermissionCacheEntry<T> | null {
+    const entry = this.entries.get(key) as PermissionCacheEntry<T> | undefined;
+    if (!entry) {
+      return null;
+    }
+
+    if (Date.now() > entry.expiresAt) {
+      this.entries.delete(key);
+      return null;
+    }
+
+    return entry;
+  }
+}
@@ -0,0 +1,64 @@
+import { ConfigService } from '@nestjs/config';
+import Redis from 'ioredis';
+import { LocalPermissionCacheBus } from './local-permission-cache.bus';
+import { MemoryPermissionCacheStore } from './memory-permission-cache.store';
+import { PermissionCacheBus, PermissionCacheStore } from './permission-cache.interface';
+import { RedisPermissionCacheBus } from './redis-permission-cache.bus';
+import { RedisPermissionCacheStore } from './redis-permission-cache.store';
+
+export enum PermissionCacheStoreType {
+  MEMORY = 'memory',
+  REDIS = 'redis',
+}
+
+/**
+ * Settings of the permission cache store and invalidation bus
+ */
+export interface PermissionCacheConfig {
+  store: PermissionCacheStoreType;
+  /** Redis used by the redis store and, when set, for invalidation messages */
+  redisUrl?: string;
+  channel: string;
+  maxEntries: number;
+}
+
+/**
+ * Reads the permission cache settings. A Redis URL is required by the redis store; with the
+ * memory store it still enables pub/sub invalidation, so that every instance drops its copy.
+ */
+export function getPermissionCacheConfig(configService: ConfigService): PermissionCacheConfig {
+  const store = configService.get<string>(
+    'PERMISSIONS_CACHE_STORE',
+    PermissionCacheStoreType.MEMORY
+  );
+
+  if (!Object.values(PermissionCacheStoreType).includes(store as PermissionCacheStoreType)) {
+    throw new Error(
+      `PERMISSIONS_CACHE_STORE must be one of: ${Object.values(PermissionCacheStoreType).join(', ')}`
+    );
+  }
+
+  const redisUrl = configService.get<string>('PERMISSIONS_CACHE_REDIS_URL') || undefined;
+  if (store === PermissionCacheStoreType.REDIS && !redisUrl) {
+    throw new Error('PERMISSIONS_CACHE_REDIS_URL is required when PERMISSIONS_CACHE_STORE=redis');
+  }
+
+  return {
+    store: store as PermissionCacheStoreType,
+    redisUrl,
+    channel: configService.get<string>('PERMISSIONS_CACHE_CHANNEL', 'permissions:invalidations'),
+    maxEntries: Number(configService.get<number>('PERMISSIONS_MAX_CACHE_ENTRIES', 10000)),
+  };
+}
+
+export function createPermissionCacheStore(config: PermissionCacheConfig): PermissionCacheStore {
+  return config.store === PermissionCacheStoreType.REDIS
+    ? new RedisPermissionCacheStore(new Redis(config.redisUrl as string), config.maxEntries)
+    : new MemoryPermissionCacheStore(config.maxEntries);
+}
+
+export function createPermissionCacheBus(config: PermissionCacheConfig): PermissionCacheBus {
+  return config.redisUrl
+    ? new RedisPermissionCacheBus(new Redis(config.redisUrl), config.channel)
+    : new LocalPermissionCacheBus();
+}
@@ -0,0 +1,73 @@
+import { PrincipalEviction } from '../../principal-cache/principal-cache.service';
+
+/**
+ * Injection token for the permission cache store selected by PERMISSIONS_CACHE_STORE
+ */
+export const PERMISSION_CACHE_STORE = 'PERMISSION_CACHE_STORE';
+
+/**
+ * Injection token for the bus carrying cache invalidations between instances
+ */
+export const PERMISSION_CACHE_BUS = 'PERMISSION_CACHE_BUS';
+
+/**
+ * Cached value with its bookkeeping
+ */
+export interface PermissionCacheEntry<T> {
+  data: T;
+  createdAt: number;
+  expiresAt: number;
+}
+
+export interface PermissionCacheStoreStatistics {
+  store: string;
+  entries: number;
+  hits: number;
+  misses: number;
+  evictions: number;
+  memoryUsageBytes: number;
+}
+
+/**
+ * Storage of cached permission sets. Implemented by MemoryPermissionCacheStore (per
+ * instance) and RedisPermissionCacheStore (shared by all instances). Both evict the least
+ * recently used entries beyond PERMISSIONS_MAX_CACHE_ENTRIES.
+ */
+export interface PermissionCacheStore {
+  /** The live value under the key, counted as a hit or a miss */
+  get<T>(key: string): Promise<T | null>;
+
+  /** The live entry under the key, without counting it or refreshing its recency */
+  peek<T>(key: string): Promise<PermissionCacheEntry<T> | null>;
+
+  set<T>(key: string, value: T, ttlSeconds: number): Promise<void>;
+
+  /** Removes the keys and returns how many existed */
+  delete(keys: string[]): Promise<number>;
+
+  /** Removes every entry and returns how many existed */
+  clear(): Promise<number>;
+
+  getStatistics(): Promise<PermissionCacheStoreStatistics>;
+}
+
+/**
+ * Invalidation sent to the other instances. keys is '*' when everything was cleared;
+ * principals, when set, are authenticated users to drop from PrincipalCacheService.
+ */
+export interface PermissionCacheInvalidation {
+  origin: string;
+  keys: string[] | '*';
+  reason?: string;
+  principals?: PrincipalEviction;
+}
+
+/**
+ * Publishes cache invalidations to the other instances and delivers theirs.
+ * Implemented by LocalPermissionCacheBus (single instance) and RedisPermissionCacheBus.
+ */
+export interface PermissionCacheBus {
+  publish(invalidation: PermissionCacheInvalidation): Promise<void>;
+
+  subscribe(handler: (invalidation: PermissionCacheInvalidation) => void): Promise<void>;
+}
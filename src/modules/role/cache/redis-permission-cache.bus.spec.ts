@@ -0,0 +1,64 @@
+import { EventEmitter } from 'events';
+import Redis from 'ioredis';
+import { PermissionCacheInvalidation } from './permission-cache.interface';
+import { RedisPermissionCacheBus } from './redis-permission-cache.bus';
+
+/**
+ * In-process stand-in for Redis pub/sub: every connection of the same broker receives
+ * the messages published on the channels it subscribed to
+ */
+class FakeRedisConnection extends EventEmitter {
+  private readonly channels = new Set<string>();
+
+  constructor(private readonly broker: Set<FakeRedisConnection>) {
+    super();
+    broker.add(this);
+  }
+
+  duplicate() {
+    return new FakeRedisConnection(this.broker);
+  }
+
+  subscribe(channel: string) {
+    this.channels.add(channel);
+    return Promise.resolve(1);
+  }
+
+  publish(channel: string, message: string) {
+    const receivers = [...this.broker].filter((connection) => connection.channels.has(channel));
+    receivers.forEach((connection) => connection.emit('message', channel, message));
+    return Promise.resolve(receivers.length);
+  }
+
+  quit() {
+    this.broker.delete(this);
+    return Promise.resolve('OK');
+  }
+}
+
+describe('RedisPermissionCacheBus', () => {
+  it('delivers invalidations to every subscribed instance', async () => {
+    const broker = new Set<FakeRedisConnection>();
+    const createBus = () =>
+      new RedisPermissionCacheBus(
+        new FakeRedisConnection(broker) as unknown as Redis,
+        'permissions:invalidations'
+      );
+    const first = createBus();
+    const second = createBus();
+    const received: PermissionCacheInvalidation[] = [];
+    await first.subscribe((invalidation) => received.push(invalidation));
+    await second.subscribe((invalidation) => received.push(invalidation));
+
+    await first.publish({ origin: 'instance-1', keys: ['permissions:user_permissions:user-1'] });
+
+    expect(received).toEqual([
+      { origin: 'instance-1', keys: ['permissions:user_permissions:user-1'] },
+      { origin: 'instance-1', keys: ['permissions:user_permissions:user-1'] },
+    ]);
+
+    await first.onModuleDestroy();
+    await second.publish({ origin: 'instance-2', keys: '*' });
+    expect(received).toHaveLength(3);
+  });
+});
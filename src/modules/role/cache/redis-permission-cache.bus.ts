@@ -0,0 +1,50 @@
+import { Logger, OnModuleDestroy } from '@nestjs/common';
+import Redis from 'ioredis';
+import { PermissionCacheBus, PermissionCacheInvalidation } from './permission-cache.interface';
+
+/**
+ * Carries cache invalidations between instances over Redis pub/sub. A subscribed Redis
+ * connection cannot run other commands, so subscribing uses a duplicate of the client.
+ */
+export class RedisPermissionCacheBus implements PermissionCacheBus, OnModuleDestroy {
+  private readonly logger = new Logger(RedisPermissionCacheBus.name);
+  private subscriber?: Redis;
+
+  constructor(
+    private readonly client: Redis,
+    private readonly channel: string
+  ) {
+    this.client.on('error', (error: Error) =>
+      this.logger.warn(`Permission cache bus Redis error: ${error.message}`)
+    );
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    await this.subscriber?.quit();
+    await this.client.quit();
+  }
+
+  async publish(invalidation: PermissionCacheInvalidation): Promise<void> {
+    await this.client.publish(this.channel, JSON.stringify(invalidation));
+  }
+
+  async subscribe(handler: (invalidation: PermissionCacheInvalidation) => void): Promise<void> {
+    this.subscriber = this.client.duplicate();
+    this.subscriber.on('error', (error: Error) =>
+      this.logger.warn(`Permission cache bus Redis error: ${error.message}`)
+    );
+    this.subscriber.on('message', (channel: string, message: string) => {
+      if (channel !== this.channel) {
+        return;
+      }
+
+      try {
+        handler(JSON.parse(message) as PermissionCacheInvalidation);
+      } catch (error) {
+        this.logger.warn(`Ignoring malformed permission cache invalidation: ${message}`);
+      }
+    });
+
+    await this.subscriber.subscribe(this.channel);
+  }
+}
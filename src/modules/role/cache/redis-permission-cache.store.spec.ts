@@ -0,0 +1,132 @@
+import Redis from 'ioredis';
+import { RedisPermissionCacheStore } from './redis-permission-cache.store';
+
+/**
+ * In-process stand-in for the Redis commands the store uses
+ */
+class FakeRedis {
+  private readonly values = new Map<string, { value: string; expiresAt: number }>();
+  private readonly sortedSets = new Map<string, Map<string, number>>();
+
+  on() {
+    return this;
+  }
+
+  quit() {
+    return Promise.resolve('OK');
+  }
+
+  get(key: string) {
+    const entry = this.values.get(key);
+    if (!entry || Date.now() >= entry.expiresAt) {
+      this.values.delete(key);
+      return Promise.resolve(null);
+    }
+    return Promise.resolve(entry.value);
+  }
+
+  set(key: string, value: string, _mode: 'PX', ttlMs: number) {
+    this.values.set(key, { value, expiresAt: Date.now() + ttlMs });
+    return Promise.resolve('OK');
+  }
+
+  del(...keys: string[]) {
+    let deleted = 0;
+    for (const key of keys) {
+      if (this.values.delete(key) || this.sortedSets.delete(key)) {
+        deleted++;
+      }
+    }
+    return Promise.resolve(deleted);
+  }
+
+  zadd(key: string, score: number, member: string) {
+    const set = this.sortedSets.get(key) ?? new Map<string, number>();
+    set.set(member, score);
+    this.sortedSets.set(key, set);
+    return Promise.resolve(1);
+  }
+
+  zrem(key: string, ...members: string[]) {
+    const set = this.sortedSets.get(key);
+    return Promise.resolve(members.filter((member) => set?.delete(member)).length);
+  }
+
+  zcard(key: string) {
+    return Promise.resolve(this.sortedSets.get(key)?.size ?? 0);
+  }
+
+  zrange(key: string, start: number, stop: number) {
+    const members = [...(this.sortedSets.get(key) ?? new Map<string, number>()).entries()]
+      .sort((a, b) => a[1] - b[1])
+      .map(([member]) => member);
+    return Promise.resolve(members.slice(start, stop === -1 ? undefined : stop + 1));
+  }
+}
+
+describe('RedisPermissionCacheStore', () => {
+  let redis: FakeRedis;
+
+  beforeEach(() => {
+    redis = new FakeRedis();
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const createStore = (maxEntries = 10) =>
+    new RedisPermissionCacheStore(redis as unknown as Redis, maxEntries);
+
+  it('round-trips entries and restores their dates', async () => {
+    const store = createStore();
+    const calculatedAt = new Date('2026-10-19T08:00:00.000Z');
+
+    await store.set('permissions:user_permissions:user-1', { calculated_at: calculatedAt }, 60);
+
+    expect(await store.get('permissions:user_permissions:user-1')).toEqual({
+      calculated_at: calculatedAt,
+    });
+    expect(await store.get('permissions:user_permissions:user-2')).toBeNull();
+  });
+
+  it('shares entries and invalidations between instances', async () => {
+    const first = createStore();
+    const second = createStore();
+
+    await first.set('key', { granted: true }, 60);
+    expect(await second.get('key')).toEqual({ granted: true });
+
+    await second.delete(['key']);
+    expect(await first.get('key')).toBeNull();
+  });
+
+  it('evicts the least recently used keys beyond the maximum', async () => {
+    const store = createStore(2);
+    await store.set('a', 1, 60);
+    jest.advanceTimersByTime(10);
+    await store.set('b', 2, 60);
+    jest.advanceTimersByTime(10);
+    await store.get('a');
+    jest.advanceTimersByTime(10);
+
+    await store.set('c', 3, 60);
+
+    expect(await store.peek('b')).toBeNull();
+    expect(await store.get('a')).toBe(1);
+    expect(await store.getStatistics()).toEqual(
+      expect.objectContaining({ store: 'redis', entries: 2, evictions: 1 })
+    );
+  });
+
+  it('clears every cached key', async () => {
+    const store = createStore();
+    await store.set('a', 1, 60);
+    await store.set('b', 2, 60);
+
+    expect(await store.clear()).toBe(2);
+    expect(await store.get('a')).toBeNull();
+    expect((await store.getStatistics()).entries).toBe(0);
+  });
+});
@@ -0,0 +1,121 @@
+import { Logger, OnModuleDestroy } from '@nestjs/common';
+import Redis from 'ioredis';
+import {
+  PermissionCacheEntry,
+  PermissionCacheStore,
+  PermissionCacheStoreStatistics,
+} from './permission-cache.interface';
+
+/** Sorted set of cached keys scored by their last use, for LRU eviction */
+const LRU_INDEX_KEY = 'permissions:cache:lru';
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?Z$/;
+
+/**
+ * Permission cache in Redis, shared by every instance, so an invalidation on one instance
+ * is seen by all. Entries expire through Redis TTLs; a sorted set of keys by last use
+ * evicts the least recently used ones beyond maxEntries. Hits and misses are counted per
+ * instance.
+ */
+export class RedisPermissionCacheStore implements PermissionCacheStore, OnModuleDestroy {
+  private readonly logger = new Logger(RedisPermissionCacheStore.name);
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+
+  constructor(
+    private readonly client: Redis,
+    private readonly maxEntries: number
+  ) {
+    this.client.on('error', (error: Error) =>
+      this.logger.warn(`Permission cache Redis error: ${error.message}`)
+    );
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    await this.client.quit();
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    const entry = await this.read<T>(key);
+    if (!entry) {
+      this.misses++;
+      // The entry expired in Redis; drop it from the index too
+      await this.client.zrem(LRU_INDEX_KEY, key);
+      return null;
+    }
+
+    this.hits++;
+    await this.client.zadd(LRU_INDEX_KEY, Date.now(), key);
+    return entry.data;
+  }
+
+  peek<T>(key: string): Promise<PermissionCacheEntry<T> | null> {
+    return this.read<T>(key);
+  }
+
+  async set<T>(key: string, value: T, ttlSeconds: number): Promise<void> {
+    const now = Date.now();
+    const entry: PermissionCacheEntry<T> = {
+      data: value,
+      createdAt: now,
+      expiresAt: now + ttlSeconds * 1000,
+    };
+
+    await this.client.set(key, JSON.stringify(entry), 'PX', ttlSeconds * 1000);
+    await this.client.zadd(LRU_INDEX_KEY, now, key);
+    await this.evictLeastRecentlyUsed();
+  }
+
+  async delete(keys: string[]): Promise<number> {
+    if (keys.length === 0) {
+      return 0;
+    }
+
+    const deleted = await this.client.del(...keys);
+    await this.client.zrem(LRU_INDEX_KEY, ...keys);
+    return deleted;
+  }
+
+  async clear(): Promise<number> {
+    const keys = await this.client.zrange(LRU_INDEX_KEY, 0, -1);
+    const deleted = await this.delete(keys);
+    await this.client.del(LRU_INDEX_KEY);
+    return deleted;
+  }
+
+  async getStatistics(): Promise<PermissionCacheStoreStatistics> {
+    return {
+      store: 'redis',
+      // Includes keys that expired in Redis but were not read since
+      entries: await this.client.zcard(LRU_INDEX_KEY),
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+      // Not tracked: Redis reports memory per server, not per key prefix
+      memoryUsageBytes: 0,
+    };
+  }
+
+  private async read<T>(key: string): Promise<PermissionCacheEntry<T> | null> {
+    const raw = await this.client.get(key);
+    if (!raw) {
+      return null;
+    }
+
+    // Restore the dates (calculated_at, expires_at) serialized as ISO strings
+    return JSON.parse(raw, (_name, value: unknown) =>
+      typeof value === 'string' && ISO_DATE_PATTERN.test(value) ? new Date(value) : value
+    ) as PermissionCacheEntry<T>;
+  }
+
+  private async evictLeastRecentlyUsed(): Promise<void> {
+    const excess = (await this.client.zcard(LRU_INDEX_KEY)) - this.maxEntries;
+    if (excess <= 0) {
+      return;
+    }
+
+    const keys = await this.client.zrange(LRU_INDEX_KEY, 0, excess - 1);
+    this.evictions += await this.delete(keys);
+  }
+}
@@ -5,3 +5,5 @@ export * from './user-permission.dto';
 export * from './permission-cache.dto';
 export * from './permission-response.dto';
 export * from './permissions-service.dto';
+export * from './role-history.dto';
+export * from './permission-explanation.dto';
@@ -9,6 +9,7 @@ import {
   IsNumber,
   IsObject,
 } from 'class-validator';
+import { PrincipalCacheStatisticsDto } from '../../principal-cache/dto/principal-cache-statistics.dto';
 
 // Cache Entry Metadata DTO
 export class CacheMetadataDto {
@@ -78,7 +79,15 @@ export class InvalidateCacheDto {
   @IsUUID()
   company_id?: string;
 
-  @ApiPropertyOptional({ description: 'Role ID to invalidate cache for users with this role' })
+  @ApiPropertyOptional({ description: 'Service account ID to invalidate cache for' })
+  @IsOptional()
+  @IsUUID()
+  service_account_id?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Role ID to invalidate cache for users with this role or a role inheriting from it',
+  })
   @IsOptional()
   @IsUUID()
   role_id?: string;
@@ -124,6 +133,11 @@ export class CacheInvalidationResponseDto {
 
 // Cache Statistics DTO
 export class CacheStatisticsDto {
+  @ApiProperty({ description: 'Cache store (memory or redis)', example: 'memory' })
+  @Expose()
+  @IsString()
+  store: string;
+
   @ApiProperty({ description: 'Total number of cache entries' })
   @Expose()
   @IsNumber()
@@ -154,6 +168,11 @@ export class CacheStatisticsDto {
   @IsNumber()
   hit_ratio: number;
 
+  @ApiProperty({ description: 'Entries evicted to stay within the maximum number of entries' })
+  @Expose()
+  @IsNumber()
+  evictions: number;
+
   @ApiProperty({ description: 'Total memory usage in bytes' })
   @Expose()
   @IsNumber()
@@ -164,6 +183,14 @@ export class CacheStatisticsDto {
   @IsNumber()
   average_entry_size: number;
 
+  @ApiProperty({
+    description: 'Statistics of the cache of authenticated users read by the auth guards',
+    type: PrincipalCacheStatisticsDto,
+  })
+  @Expose()
+  @IsObject()
+  principal_cache: PrincipalCacheStatisticsDto;
+
   @ApiProperty({ description: 'When statistics were calculated' })
   @Expose()
   @IsDate()
@@ -0,0 +1,158 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Expose, Type } from 'class-transformer';
+import { IsNotEmpty, IsOptional, IsString, IsUUID } from 'class-validator';
+import { IsPermissionName } from '../permission-names';
+import { PermissionSourceType } from './permissions-service.dto';
+
+// Outcome of a permission decision, in order of precedence
+export enum PermissionDecision {
+  SUPER_ADMIN = 'SUPER_ADMIN',
+  DIRECT_DENY = 'DIRECT_DENY',
+  DIRECT_GRANT = 'DIRECT_GRANT',
+  ROLE = 'ROLE',
+  // Granted with policy conditions, which only @RequirePolicy routes evaluate
+  CONDITIONAL = 'CONDITIONAL',
+  NOT_GRANTED = 'NOT_GRANTED',
+}
+
+// Query of the explain endpoint
+export class ExplainPermissionQueryDto {
+  @ApiProperty({ description: 'Permission name to explain', example: 'teams:read:own' })
+  @IsString()
+  @IsNotEmpty()
+  @IsPermissionName()
+  permission: string;
+
+  @ApiPropertyOptional({ description: 'Company context (defaults to the home company)' })
+  @IsOptional()
+  @IsUUID()
+  company_id?: string;
+}
+
+// One source considered while deciding
+export class PermissionExplanationStepDto {
+  @ApiProperty({ enum: PermissionSourceType, description: 'Source that was checked' })
+  @Expose()
+  source: PermissionSourceType;
+
+  @ApiProperty({ description: 'Whether this source holds the permission (a deny counts)' })
+  @Expose()
+  matched: boolean;
+
+  @ApiProperty({ description: 'Whether this source decided the outcome' })
+  @Expose()
+  applied: boolean;
+
+  @ApiPropertyOptional({ description: 'Whether the source grants (true) or denies (false)' })
+  @Expose()
+  granted?: boolean;
+
+  @ApiPropertyOptional({ description: 'Role the permission comes from' })
+  @Expose()
+  role_id?: string;
+
+  @ApiPropertyOptional({ description: 'Name of the role the permission comes from' })
+  @Expose()
+  role_name?: string;
+
+  @ApiPropertyOptional({
+    description: 'Granted name that covers the permission, e.g. a teams:* wildcard',
+  })
+  @Expose()
+  pattern?: string;
+
+  @ApiPropertyOptional({
+    type: [String],
+    description:
+      'Policy conditions checked by @RequirePolicy routes; plain permission checks deny a conditional grant',
+  })
+  @Expose()
+  conditions?: string[];
+
+  @ApiPropertyOptional({ description: 'When the direct grant expires' })
+  @Expose()
+  expires_at?: Date;
+
+  @ApiProperty({ description: 'Human readable explanation of the step' })
+  @Expose()
+  detail: string;
+}
+
+// Permission cache entry the guards would use for this user and company
+export class PermissionExplanationCacheDto {
+  @ApiProperty({ description: 'Cache key' })
+  @Expose()
+  key: string;
+
+  @ApiProperty({ description: 'Whether a live entry exists under the key' })
+  @Expose()
+  present: boolean;
+
+  @ApiPropertyOptional({ description: 'When the cached permissions were calculated' })
+  @Expose()
+  calculated_at?: Date;
+
+  @ApiPropertyOptional({ description: 'When the cached entry expires' })
+  @Expose()
+  expires_at?: Date;
+
+  @ApiPropertyOptional({ description: 'Decision of the cached entry' })
+  @Expose()
+  granted?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Whether the cached decision differs from the one recalculated from the database',
+  })
+  @Expose()
+  stale?: boolean;
+}
+
+// Full decision path of a permission check
+export class PermissionExplanationDto {
+  @ApiProperty({ description: 'User ID' })
+  @Expose()
+  user_id: string;
+
+  @ApiProperty({ description: 'Company the permission was evaluated in' })
+  @Expose()
+  company_id: string;
+
+  @ApiProperty({ description: 'Permission name' })
+  @Expose()
+  permission_name: string;
+
+  @ApiProperty({ description: 'Whether the user has the permission' })
+  @Expose()
+  granted: boolean;
+
+  @ApiProperty({ enum: PermissionDecision, description: 'What decided the outcome' })
+  @Expose()
+  decision: PermissionDecision;
+
+  @ApiProperty({ description: 'Whether the super admin bypass applied' })
+  @Expose()
+  super_admin: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Role of the company membership used instead of the home role',
+  })
+  @Expose()
+  membership_role_id?: string;
+
+  @ApiProperty({
+    type: [PermissionExplanationStepDto],
+    description: 'Sources in the order checked',
+  })
+  @Expose()
+  @Type(() => PermissionExplanationStepDto)
+  steps: PermissionExplanationStepDto[];
+
+  @ApiProperty({ type: PermissionExplanationCacheDto })
+  @Expose()
+  @Type(() => PermissionExplanationCacheDto)
+  cache: PermissionExplanationCacheDto;
+
+  @ApiProperty({ description: 'Timestamp of the explanation' })
+  @Expose()
+  explained_at: Date;
+}
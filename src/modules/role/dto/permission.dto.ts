@@ -1,6 +1,7 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { Expose, Type } from 'class-transformer';
 import { IsString, IsUUID, IsOptional, IsArray, IsBoolean } from 'class-validator';
+import { IsPermissionName } from '../permission-names';
 
 // Base Permission DTO
 export class PermissionDto {
@@ -39,6 +40,7 @@ export class PermissionDto {
 export class CreatePermissionDto {
   @ApiProperty({ description: 'Permission name', example: 'CREATE_PETITION' })
   @IsString()
+  @IsPermissionName()
   name: string;
 
   @ApiPropertyOptional({ description: 'Permission description' })
@@ -57,6 +59,7 @@ export class UpdatePermissionDto {
   @ApiPropertyOptional({ description: 'Permission name' })
   @IsOptional()
   @IsString()
+  @IsPermissionName()
   name?: string;
 
   @ApiPropertyOptional({ description: 'Permission description' })
@@ -1,6 +1,7 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { Expose, Type } from 'class-transformer';
-import { IsString, IsUUID, IsOptional, IsBoolean, IsDate, IsEnum } from 'class-validator';
+import { IsString, IsUUID, IsOptional, IsBoolean, IsDate, IsEnum, IsObject } from 'class-validator';
+import { PolicyContext } from '../policy-conditions';
 
 // Permission Source for the PermissionsService
 export enum PermissionSourceType {
@@ -9,6 +10,12 @@ export enum PermissionSourceType {
   SYSTEM = 'SYSTEM',
 }
 
+// Kind of principal whose permissions are resolved
+export enum PrincipalType {
+  USER = 'USER',
+  SERVICE_ACCOUNT = 'SERVICE_ACCOUNT',
+}
+
 // Effective Permission for PermissionsService
 export class ServiceEffectivePermissionDto {
   @ApiProperty({ description: 'Permission name' })
@@ -41,6 +48,14 @@ export class ServiceEffectivePermissionDto {
   @IsString()
   source_role_name?: string;
 
+  @ApiPropertyOptional({
+    description: "Whether the role permission is inherited from a parent of the user's role",
+  })
+  @Expose()
+  @IsOptional()
+  @IsBoolean()
+  inherited?: boolean;
+
   @ApiPropertyOptional({ description: 'Permission expiration' })
   @Expose()
   @IsOptional()
@@ -51,6 +66,25 @@ export class ServiceEffectivePermissionDto {
   @Expose()
   @IsBoolean()
   is_active: boolean;
+
+  @ApiPropertyOptional({
+    type: [String],
+    description: 'Policy conditions that must hold for the resource acted on',
+    example: ['resource.company_id == subject.company_id'],
+  })
+  @Expose()
+  @IsOptional()
+  @IsString({ each: true })
+  conditions?: string[];
+
+  @ApiPropertyOptional({
+    type: [String],
+    description: 'Defined permissions a wildcard entry (e.g. teams:*) covers',
+  })
+  @Expose()
+  @IsOptional()
+  @IsString({ each: true })
+  expands_to?: string[];
 }
 
 // Main DTO for getEffectivePermissionsForUser method
@@ -117,10 +151,15 @@ export class PermissionsServiceConfigDto {
 
 // Permission Check Request for PermissionsService
 export class ServicePermissionCheckDto {
-  @ApiProperty({ description: 'User ID' })
+  @ApiProperty({ description: 'User ID (service account ID for service accounts)' })
   @IsUUID()
   user_id: string;
 
+  @ApiPropertyOptional({ enum: PrincipalType, description: 'Kind of principal (default USER)' })
+  @IsOptional()
+  @IsEnum(PrincipalType)
+  principal_type?: PrincipalType = PrincipalType.USER;
+
   @ApiProperty({ description: 'Permission name to check' })
   @IsString()
   permission_name: string;
@@ -179,12 +218,39 @@ export class ServicePermissionCheckResultDto {
   from_cache: boolean;
 }
 
+// Policy Check Request: a permission check against a loaded resource
+export class ServicePolicyCheckDto extends ServicePermissionCheckDto {
+  @ApiProperty({ description: 'Subject, resource and environment attributes' })
+  @IsObject()
+  context: PolicyContext;
+}
+
+// Policy Check Result from PermissionsService
+export class ServicePolicyCheckResultDto extends ServicePermissionCheckResultDto {
+  @ApiPropertyOptional({ type: [String], description: 'Conditions of the deciding permission' })
+  @Expose()
+  @IsOptional()
+  @IsString({ each: true })
+  conditions?: string[];
+
+  @ApiPropertyOptional({ description: 'First condition that did not hold' })
+  @Expose()
+  @IsOptional()
+  @IsString()
+  failed_condition?: string;
+}
+
 // Bulk Permission Check for PermissionsService
 export class ServiceBulkPermissionCheckDto {
-  @ApiProperty({ description: 'User ID' })
+  @ApiProperty({ description: 'User ID (service account ID for service accounts)' })
   @IsUUID()
   user_id: string;
 
+  @ApiPropertyOptional({ enum: PrincipalType, description: 'Kind of principal (default USER)' })
+  @IsOptional()
+  @IsEnum(PrincipalType)
+  principal_type?: PrincipalType = PrincipalType.USER;
+
   @ApiProperty({
     description: 'Permission names to check',
     type: [String],
@@ -0,0 +1,117 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Expose, Type } from 'class-transformer';
+import { RoleAssignmentStatus } from '../entities/role-assignment.entity';
+import { RoleChangeSource } from '../entities/role-change.entity';
+
+// Role summary used in the role history
+export class RoleSummaryDto {
+  @ApiProperty({ description: 'Role unique identifier' })
+  @Expose()
+  id: string;
+
+  @ApiProperty({ description: 'Role name', example: 'Vendor Manager' })
+  @Expose()
+  name: string;
+
+  @ApiProperty({ description: 'Role code', example: 'vendor_manager' })
+  @Expose()
+  code: string;
+}
+
+// Role Change DTO (one entry of the timeline)
+export class RoleChangeDto {
+  @ApiProperty({ description: 'Role change unique identifier' })
+  @Expose()
+  id: string;
+
+  @ApiPropertyOptional({ description: 'Role before the change', type: RoleSummaryDto })
+  @Expose()
+  @Type(() => RoleSummaryDto)
+  previous_role: RoleSummaryDto | null;
+
+  @ApiProperty({ description: 'Role after the change', type: RoleSummaryDto })
+  @Expose()
+  @Type(() => RoleSummaryDto)
+  new_role: RoleSummaryDto | null;
+
+  @ApiProperty({ enum: RoleChangeSource, description: 'What caused the change' })
+  @Expose()
+  source: RoleChangeSource;
+
+  @ApiPropertyOptional({ description: 'Role assignment that caused the change' })
+  @Expose()
+  assignment_id: string | null;
+
+  @ApiPropertyOptional({ description: 'User who requested the change (null when scheduled)' })
+  @Expose()
+  changed_by: string | null;
+
+  @ApiPropertyOptional({ description: 'Name of the user who requested the change' })
+  @Expose()
+  changed_by_name: string | null;
+
+  @ApiPropertyOptional({ description: 'Reason given for the change' })
+  @Expose()
+  reason: string | null;
+
+  @ApiProperty({ description: 'When the change took effect' })
+  @Expose()
+  changed_at: Date;
+}
+
+// Role Assignment DTO (scheduled or temporary role)
+export class RoleAssignmentDto {
+  @ApiProperty({ description: 'Role assignment unique identifier' })
+  @Expose()
+  id: string;
+
+  @ApiProperty({ description: 'Assigned role', type: RoleSummaryDto })
+  @Expose()
+  @Type(() => RoleSummaryDto)
+  role: RoleSummaryDto | null;
+
+  @ApiProperty({ enum: RoleAssignmentStatus })
+  @Expose()
+  status: RoleAssignmentStatus;
+
+  @ApiProperty({ description: 'When the role takes effect' })
+  @Expose()
+  effective_from: Date;
+
+  @ApiPropertyOptional({ description: 'When the previous role is restored' })
+  @Expose()
+  effective_until: Date | null;
+
+  @ApiPropertyOptional({ description: 'Reason given for the assignment' })
+  @Expose()
+  reason: string | null;
+
+  @ApiPropertyOptional({ description: 'User who scheduled the assignment' })
+  @Expose()
+  assigned_by: string | null;
+}
+
+// Role History Response DTO
+export class RoleHistoryResponseDto {
+  @ApiProperty({ description: 'User unique identifier' })
+  @Expose()
+  user_id: string;
+
+  @ApiPropertyOptional({ description: 'Current role of the user', type: RoleSummaryDto })
+  @Expose()
+  @Type(() => RoleSummaryDto)
+  current_role: RoleSummaryDto | null;
+
+  @ApiProperty({ description: 'Role changes, newest first', type: [RoleChangeDto] })
+  @Expose()
+  @Type(() => RoleChangeDto)
+  changes: RoleChangeDto[];
+
+  @ApiProperty({
+    description: 'Scheduled and active role assignments, soonest first',
+    type: [RoleAssignmentDto],
+  })
+  @Expose()
+  @Type(() => RoleAssignmentDto)
+  assignments: RoleAssignmentDto[];
+}
@@ -1,7 +1,16 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { Expose, Type } from 'class-transformer';
-import { IsString, IsUUID, IsOptional, IsArray, IsBoolean, IsDate } from 'class-validator';
+import {
+  IsString,
+  IsUUID,
+  IsOptional,
+  IsArray,
+  IsBoolean,
+  IsDate,
+  ValidateIf,
+} from 'class-validator';
 import { PermissionDto } from './permission.dto';
+import { RoleSummaryDto } from './role-history.dto';
 
 // Role with Permissions Response DTO
 export class RoleWithPermissionsDto {
@@ -171,3 +180,77 @@ export class RoleListResponseDto {
   @Expose()
   limit: number;
 }
+
+// Set Parent Role Request DTO
+export class SetParentRoleDto {
+  @ApiProperty({
+    description: 'Role whose permissions the role inherits, or null to stop inheriting',
+    nullable: true,
+    type: String,
+  })
+  @ValidateIf((dto: SetParentRoleDto) => dto.parent_role_id !== null)
+  @IsUUID(4, { message: 'parent_role_id must be a role ID or null' })
+  parent_role_id: string | null;
+}
+
+// Permission of a role, own or inherited
+export class RoleHierarchyPermissionDto {
+  @ApiProperty({ description: 'Permission unique identifier' })
+  @Expose()
+  id: string;
+
+  @ApiProperty({ description: 'Permission name', example: 'teams:read:own' })
+  @Expose()
+  name: string;
+
+  @ApiProperty({ description: 'Permission category' })
+  @Expose()
+  category: string;
+
+  @ApiPropertyOptional({
+    type: [String],
+    description: 'Policy conditions that must hold for the permission to apply',
+  })
+  @Expose()
+  conditions?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Nearest parent role granting the permission (inherited permissions only)',
+    type: RoleSummaryDto,
+  })
+  @Expose()
+  @Type(() => RoleSummaryDto)
+  inherited_from?: RoleSummaryDto;
+}
+
+// Role Permissions Response DTO (own and inherited permissions)
+export class RolePermissionsResponseDto {
+  @ApiProperty({ type: RoleSummaryDto })
+  @Expose()
+  @Type(() => RoleSummaryDto)
+  role: RoleSummaryDto;
+
+  @ApiProperty({
+    type: [RoleSummaryDto],
+    description: 'Parent roles, nearest first',
+  })
+  @Expose()
+  @Type(() => RoleSummaryDto)
+  ancestors: RoleSummaryDto[];
+
+  @ApiProperty({
+    type: [RoleHierarchyPermissionDto],
+    description: 'Permissions assigned to the role itself',
+  })
+  @Expose()
+  @Type(() => RoleHierarchyPermissionDto)
+  own_permissions: RoleHierarchyPermissionDto[];
+
+  @ApiProperty({
+    type: [RoleHierarchyPermissionDto],
+    description: 'Permissions the role holds through its parent roles and does not assign itself',
+  })
+  @Expose()
+  @Type(() => RoleHierarchyPermissionDto)
+  inherited_permissions: RoleHierarchyPermissionDto[];
+}
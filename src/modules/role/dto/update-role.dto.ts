@@ -1,10 +1,38 @@
-import { IsEnum, IsNotEmpty } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsEnum, IsISO8601, IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
 import { UserRole } from '../../auth/entities/user.entity';
 
 export class UpdateRoleDto {
+  @ApiProperty({ enum: UserRole, example: UserRole.VENDOR_MANAGER })
   @IsEnum(UserRole, {
     message: 'Invalid role',
   })
   @IsNotEmpty({ message: 'Role is required' })
   role: UserRole;
+
+  @ApiPropertyOptional({
+    description: 'Why the role is changed, kept in the role history',
+    example: 'Covering for Jane during her parental leave',
+    maxLength: 500,
+  })
+  @IsOptional()
+  @IsString({ message: 'Reason must be a string' })
+  @MaxLength(500, { message: 'Reason must not exceed 500 characters' })
+  reason?: string;
+
+  @ApiPropertyOptional({
+    description: 'When the role takes effect (defaults to now)',
+    example: '2025-11-01T00:00:00Z',
+  })
+  @IsOptional()
+  @IsISO8601({}, { message: 'effective_from must be an ISO 8601 date' })
+  effective_from?: string;
+
+  @ApiPropertyOptional({
+    description: 'When the previous role is restored (omit for a permanent change)',
+    example: '2025-12-01T00:00:00Z',
+  })
+  @IsOptional()
+  @IsISO8601({}, { message: 'effective_until must be an ISO 8601 date' })
+  effective_until?: string;
 }
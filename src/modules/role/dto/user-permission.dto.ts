@@ -1,6 +1,21 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { Expose, Type } from 'class-transformer';
-import { IsString, IsUUID, IsOptional, IsArray, IsBoolean, IsDate, IsEnum } from 'class-validator';
+import {
+  ArrayMaxSize,
+  IsString,
+  IsUUID,
+  IsOptional,
+  IsArray,
+  IsBoolean,
+  IsDate,
+  IsEnum,
+  IsInt,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { IsPermissionName } from '../permission-names';
+import { IsPolicyCondition } from '../policy-conditions';
 import { RoleWithPermissionsDto } from './role-permission.dto';
 
 // Permission Source Enum
@@ -54,11 +69,28 @@ export class EffectivePermissionDto {
   @IsString()
   source_role_name?: string;
 
+  @ApiPropertyOptional({
+    description: "Whether the permission is inherited from a parent of the user's role",
+  })
+  @Expose()
+  @IsOptional()
+  @IsBoolean()
+  inherited?: boolean;
+
   @ApiPropertyOptional({ description: 'Permission expiration date' })
   @Expose()
   @IsOptional()
   @IsDate()
   expires_at?: Date;
+
+  @ApiPropertyOptional({
+    type: [String],
+    description: 'Defined permissions a wildcard entry (e.g. teams:*) covers',
+  })
+  @Expose()
+  @IsOptional()
+  @IsString({ each: true })
+  expands_to?: string[];
 }
 
 // User Permissions Response DTO
@@ -92,39 +124,101 @@ export class UserPermissionsResponseDto {
 
 // Grant Direct Permission to User DTO
 export class GrantUserPermissionDto {
-  @ApiProperty({ description: 'User ID' })
-  @IsUUID()
-  user_id: string;
-
   @ApiProperty({ description: 'Permission ID' })
   @IsUUID()
   permission_id: string;
 
-  @ApiPropertyOptional({ description: 'Reason for granting permission' })
+  @ApiPropertyOptional({
+    description: 'Reason for granting permission',
+    example: 'Approving filings during the deadline week',
+    maxLength: 500,
+  })
   @IsOptional()
   @IsString()
+  @MaxLength(500)
   reason?: string;
 
-  @ApiPropertyOptional({ description: 'Permission expiration date' })
+  @ApiPropertyOptional({ description: 'Permission expiration date (omit for a permanent grant)' })
   @IsOptional()
   @IsDate()
   @Type(() => Date)
   expires_at?: Date;
+
+  @ApiPropertyOptional({
+    description: 'Hours until the grant expires, instead of expires_at',
+    example: 168,
+    minimum: 1,
+    maximum: 8760,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(8760)
+  duration_hours?: number;
+
+  @ApiPropertyOptional({
+    type: [String],
+    description:
+      'Policy conditions limiting the grant to matching resources. A conditional grant only ' +
+      'applies on routes checked with @RequirePolicy; plain permission checks deny it.',
+    example: ['resource.company_id == subject.company_id'],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(10)
+  @IsPolicyCondition()
+  conditions?: string[];
 }
 
-// Revoke Direct Permission from User DTO
-export class RevokeUserPermissionDto {
+// Direct permission grant returned by the grant endpoint
+export class UserPermissionGrantDto {
+  @ApiProperty({ description: 'Grant ID' })
+  @Expose()
+  id: string;
+
   @ApiProperty({ description: 'User ID' })
-  @IsUUID()
+  @Expose()
   user_id: string;
 
   @ApiProperty({ description: 'Permission ID' })
-  @IsUUID()
+  @Expose()
   permission_id: string;
 
-  @ApiPropertyOptional({ description: 'Reason for revoking permission' })
+  @ApiProperty({ description: 'Permission name' })
+  @Expose()
+  permission_name: string;
+
+  @ApiPropertyOptional({ description: 'Reason for granting permission', nullable: true })
+  @Expose()
+  reason: string | null;
+
+  @ApiPropertyOptional({ description: 'User who granted the permission', nullable: true })
+  @Expose()
+  granted_by: string | null;
+
+  @ApiProperty({ description: 'When the permission was granted' })
+  @Expose()
+  granted_at: Date;
+
+  @ApiPropertyOptional({ description: 'When the grant expires', nullable: true })
+  @Expose()
+  expires_at: Date | null;
+
+  @ApiPropertyOptional({
+    type: [String],
+    description: 'Policy conditions the grant is limited to',
+    nullable: true,
+  })
+  @Expose()
+  conditions: string[] | null;
+}
+
+// Revoke Direct Permission from User DTO
+export class RevokeUserPermissionDto {
+  @ApiPropertyOptional({ description: 'Reason for revoking permission', maxLength: 500 })
   @IsOptional()
   @IsString()
+  @MaxLength(500)
   reason?: string;
 }
 
@@ -167,6 +261,7 @@ export class CheckUserPermissionDto {
 
   @ApiProperty({ description: 'Permission name to check' })
   @IsString()
+  @IsPermissionName()
   permission_name: string;
 
   @ApiPropertyOptional({ description: 'Check for specific company context' })
@@ -3,3 +3,5 @@ export { Permission } from './permission.entity';
 export { RolePermission } from './role-permission.entity';
 export { UserRole } from './user-role.entity';
 export { UserPermission } from './user-permission.entity';
+export { RoleChange } from './role-change.entity';
+export { RoleAssignment } from './role-assignment.entity';
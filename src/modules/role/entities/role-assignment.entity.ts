@@ -0,0 +1,107 @@
+import {
+  AllowNull,
+  BelongsTo,
+  Column,
+  CreatedAt,
+  DataType,
+  Default,
+  ForeignKey,
+  Model,
+  PrimaryKey,
+  Table,
+  UpdatedAt,
+} from 'sequelize-typescript';
+import { User } from '../../auth/entities/user.entity';
+import { Role } from './role.entity';
+
+export enum RoleAssignmentStatus {
+  /** Waiting for effective_from */
+  SCHEDULED = 'SCHEDULED',
+  /** The user has the role until effective_until */
+  ACTIVE = 'ACTIVE',
+  /** Over: effective_until passed, or a later role change replaced it */
+  ENDED = 'ENDED',
+}
+
+/**
+ * Effective-dated role of a user, e.g. a temporary promotion during a colleague's leave.
+ * RoleService applies it at effective_from and restores previous_role_id at effective_until.
+ */
+@Table({
+  tableName: 'RoleAssignments',
+  timestamps: true,
+  underscored: true,
+  indexes: [
+    {
+      fields: ['user_id', 'status'],
+      name: 'idx_role_assignments_user_status',
+    },
+    {
+      fields: ['status', 'effective_from'],
+      name: 'idx_role_assignments_status_from',
+    },
+    {
+      fields: ['status', 'effective_until'],
+      name: 'idx_role_assignments_status_until',
+    },
+  ],
+})
+export class RoleAssignment extends Model {
+  @PrimaryKey
+  @Default(DataType.UUIDV4)
+  @Column(DataType.UUID)
+  id: string;
+
+  @AllowNull(false)
+  @ForeignKey(() => User)
+  @Column(DataType.UUID)
+  user_id: string;
+
+  @AllowNull(false)
+  @ForeignKey(() => Role)
+  @Column(DataType.UUID)
+  role_id: string;
+
+  /** Role the user had when the assignment started, restored when it ends */
+  @ForeignKey(() => Role)
+  @Column(DataType.UUID)
+  previous_role_id?: string | null;
+
+  @AllowNull(false)
+  @Column(DataType.DATE)
+  effective_from: Date;
+
+  /** Null for a permanent change that only starts later */
+  @Column(DataType.DATE)
+  effective_until?: Date | null;
+
+  @AllowNull(false)
+  @Default(RoleAssignmentStatus.SCHEDULED)
+  @Column(DataType.ENUM(...Object.values(RoleAssignmentStatus)))
+  status: RoleAssignmentStatus;
+
+  @Column(DataType.STRING(500))
+  reason?: string | null;
+
+  @ForeignKey(() => User)
+  @Column(DataType.UUID)
+  assigned_by?: string | null;
+
+  @Column(DataType.DATE)
+  started_at?: Date | null;
+
+  @Column(DataType.DATE)
+  ended_at?: Date | null;
+
+  @BelongsTo(() => Role, 'role_id')
+  role?: Role;
+
+  @BelongsTo(() => User, 'user_id')
+  user?: User;
+
+  @CreatedAt
+  created_at: Date;
+
+  @UpdatedAt
+  updated_at: Date;
+}
@@ -0,0 +1,101 @@
+import {
+  AllowNull,
+  BelongsTo,
+  Column,
+  CreatedAt,
+  DataType,
+  Default,
+  ForeignKey,
+  Model,
+  PrimaryKey,
+  Table,
+  UpdatedAt,
+} from 'sequelize-typescript';
+import { User } from '../../auth/entities/user.entity';
+import { Company } from '../../company/entities/company.entity';
+import { RoleAssignment } from './role-assignment.entity';
+import { Role } from './role.entity';
+
+export enum RoleChangeSource {
+  /** Changed right away through the role endpoints */
+  MANUAL = 'MANUAL',
+  /** A scheduled role assignment took effect */
+  ASSIGNMENT_STARTED = 'ASSIGNMENT_STARTED',
+  /** A role assignment reached effective_until and the previous role was restored */
+  ASSIGNMENT_ENDED = 'ASSIGNMENT_ENDED',
+}
+
+/**
+ * One change of User.role_id. Rows are only ever inserted, so together they are the
+ * role timeline of a user.
+ */
+@Table({
+  tableName: 'RoleChanges',
+  timestamps: true,
+  underscored: true,
+  indexes: [
+    {
+      fields: ['user_id', 'changed_at'],
+      name: 'idx_role_changes_user_date',
+    },
+  ],
+})
+export class RoleChange extends Model {
+  @PrimaryKey
+  @Default(DataType.UUIDV4)
+  @Column(DataType.UUID)
+  id: string;
+
+  @AllowNull(false)
+  @ForeignKey(() => User)
+  @Column(DataType.UUID)
+  user_id: string;
+
+  @ForeignKey(() => Company)
+  @Column(DataType.UUID)
+  company_id?: string | null;
+
+  @ForeignKey(() => Role)
+  @Column(DataType.UUID)
+  previous_role_id?: string | null;
+
+  @AllowNull(false)
+  @ForeignKey(() => Role)
+  @Column(DataType.UUID)
+  new_role_id: string;
+
+  @AllowNull(false)
+  @Column(DataType.ENUM(...Object.values(RoleChangeSource)))
+  source: RoleChangeSource;
+
+  @ForeignKey(() => RoleAssignment)
+  @Column(DataType.UUID)
+  assignment_id?: string | null;
+
+  /** User who requested the change; null when an assignment ended on schedule */
+  @ForeignKey(() => User)
+  @Column(DataType.UUID)
+  changed_by?: string | null;
+
+  @Column(DataType.STRING(500))
+  reason?: string | null;
+
+  @AllowNull(false)
+  @Column(DataType.DATE)
+  changed_at: Date;
+
+  @BelongsTo(() => Role, 'previous_role_id')
+  previousRole?: Role;
+
+  @BelongsTo(() => Role, 'new_role_id')
+  newRole?: Role;
+
+  @BelongsTo(() => User, 'changed_by')
+  changer?: User;
+
+  @CreatedAt
+  created_at: Date;
+
+  @UpdatedAt
+  updated_at: Date;
+}
@@ -35,6 +35,10 @@ export class RolePermission extends Model {
   @Column(DataType.UUID)
   permission_id: string;
 
+  /** Policy conditions that must hold for the permission to apply (see policy-conditions) */
+  @Column(DataType.JSON)
+  conditions?: string[] | null;
+
   @BelongsTo(() => Role)
   role: Role;
 
@@ -1,10 +1,12 @@
 import {
   AllowNull,
+  BelongsTo,
   BelongsToMany,
   Column,
   CreatedAt,
   DataType,
   Default,
+  ForeignKey,
   HasMany,
   Model,
   PrimaryKey,
@@ -40,6 +42,17 @@ export class Role extends Model {
   @Column(DataType.TEXT)
   description: string;
 
+  /** Role whose permissions this role inherits (see PermissionsService.getRoleLineage) */
+  @ForeignKey(() => Role)
+  @Column(DataType.UUID)
+  parent_role_id?: string | null;
+
+  @BelongsTo(() => Role, 'parent_role_id')
+  parentRole?: Role | null;
+
+  @HasMany(() => Role, 'parent_role_id')
+  childRoles: Role[];
+
   @BelongsToMany(() => Permission, () => RolePermission)
   permissions: Permission[];
 
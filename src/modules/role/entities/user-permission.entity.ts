@@ -14,10 +14,21 @@ import {
 import { User } from '../../auth/entities/user.entity';
 import { Permission } from './permission.entity';
 
+/**
+ * Permission granted (or explicitly denied) to a user directly, bypassing roles.
+ * A grant stops counting once expires_at passes or it is revoked; the row is kept so a
+ * later grant of the same permission reuses it.
+ */
 @Table({
   tableName: 'UserPermissions',
   timestamps: true,
   underscored: true,
+  indexes: [
+    {
+      fields: ['expires_at'],
+      name: 'idx_user_permissions_expires',
+    },
+  ],
 })
 export class UserPermission extends Model {
   @PrimaryKey
@@ -49,6 +60,31 @@ export class UserPermission extends Model {
   @Column(DataType.DATE)
   granted_at: Date;
 
+  /** Null for a grant that does not expire */
+  @Column(DataType.DATE)
+  expires_at?: Date | null;
+
+  @Column(DataType.STRING(500))
+  reason?: string | null;
+
+  @Column(DataType.DATE)
+  revoked_at?: Date | null;
+
+  @ForeignKey(() => User)
+  @Column(DataType.UUID)
+  revoked_by?: string | null;
+
+  @Column(DataType.STRING(500))
+  revocation_reason?: string | null;
+
+  /** When the expiry sweep reported that the grant expires soon */
+  @Column(DataType.DATE)
+  expiry_flagged_at?: Date | null;
+
+  /** Policy conditions that must hold for the grant to apply (see policy-conditions) */
+  @Column(DataType.JSON)
+  conditions?: string[] | null;
+
   @BelongsTo(() => User, 'user_id')
   user: User;
 
@@ -58,6 +94,9 @@ export class UserPermission extends Model {
   @BelongsTo(() => User, 'granted_by')
   granter: User;
 
+  @BelongsTo(() => User, 'revoked_by')
+  revoker?: User;
+
   @CreatedAt
   created_at: Date;
 
@@ -0,0 +1,262 @@
+import { BadRequestException, ForbiddenException, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { getConnectionToken, getModelToken } from '@nestjs/sequelize';
+import { Test, TestingModule } from '@nestjs/testing';
+import { Transaction } from 'sequelize';
+import { AuditTrailService } from '../audit/audit-trail.service';
+import { AuditSource } from '../audit/entities/audit-record.entity';
+import { User, UserRole } from '../auth/entities/user.entity';
+import { Permission, UserPermission } from './entities';
+import { PermissionGrantService } from './permission-grant.service';
+import { PermissionsService } from './permissions.service';
+
+describe('PermissionGrantService', () => {
+  let service: PermissionGrantService;
+  let userPermissionModel: {
+    findOne: jest.Mock;
+    findAll: jest.Mock;
+    create: jest.Mock;
+    update: jest.Mock;
+  };
+  let permissionModel: { findByPk: jest.Mock };
+  let userModel: { findByPk: jest.Mock };
+  let permissionsService: { invalidateCache: jest.Mock; hasPermission: jest.Mock };
+  let auditTrailService: { append: jest.Mock };
+
+  const buildAdmin = (roles: UserRole[], companyId = 'company-1') =>
+    ({
+      id: 'admin-1',
+      company_id: companyId,
+      hasRoleEnum: jest.fn((role: UserRole) => roles.includes(role)),
+    }) as unknown as User;
+
+  const companyAdmin = buildAdmin([UserRole.VENDOR_ADMIN]);
+  const acmeAdmin = buildAdmin([UserRole.ACME_ADMIN], 'acme');
+
+  beforeEach(async () => {
+    userPermissionModel = {
+      findOne: jest.fn().mockResolvedValue(null),
+      findAll: jest.fn().mockResolvedValue([]),
+      create: jest.fn((values) => Promise.resolve({ id: 'grant-1', ...values })),
+      update: jest.fn().mockResolvedValue([0]),
+    };
+    permissionModel = {
+      findByPk: jest.fn().mockResolvedValue({ id: 'perm-1', name: 'filings:approve' }),
+    };
+    userModel = {
+      findByPk: jest.fn().mockResolvedValue({ id: 'user-1', company_id: 'company-1' }),
+    };
+    permissionsService = {
+      invalidateCache: jest.fn(),
+      hasPermission: jest.fn().mockResolvedValue({ granted: true }),
+    };
+    auditTrailService = { append: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PermissionGrantService,
+        { provide: getModelToken(UserPermission), useValue: userPermissionModel },
+        { provide: getModelToken(Permission), useValue: permissionModel },
+        { provide: getModelToken(User), useValue: userModel },
+        { provide: PermissionsService, useValue: permissionsService },
+        { provide: AuditTrailService, useValue: auditTrailService },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((_key: string, fallback: unknown) => fallback) },
+        },
+        {
+          provide: getConnectionToken(),
+          useValue: {
+            transaction: jest.fn((callback) => callback({ LOCK: { UPDATE: 'UPDATE' } })),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get(PermissionGrantService);
+    jest.spyOn(service['logger'], 'warn').mockImplementation(() => undefined);
+  });
+
+  describe('grant', () => {
+    it('grants a permission for a duration, audits it and invalidates the cache', async () => {
+      const before = Date.now();
+
+      const result = await service.grant(
+        'user-1',
+        { permission_id: 'perm-1', duration_hours: 168, reason: 'Deadline week' },
+        companyAdmin
+      );
+
+      const expiresAt = result.expires_at as Date;
+      expect(expiresAt.getTime()).toBeGreaterThanOrEqual(before + 168 * 60 * 60 * 1000);
+      expect(userPermissionModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          user_id: 'user-1',
+          permission_id: 'perm-1',
+          granted: true,
+          granted_by: 'admin-1',
+          reason: 'Deadline week',
+          expires_at: expiresAt,
+        }),
+        expect.anything()
+      );
+      expect(auditTrailService.append).toHaveBeenCalledWith(
+        expect.objectContaining({
+          tenantId: 'company-1',
+          source: AuditSource.PERMISSION,
+          action: 'USER_PERMISSION_GRANTED',
+          payload: {
+            permission: 'filings:approve',
+            expiresAt,
+            reason: 'Deadline week',
+            conditions: null,
+          },
+        }),
+        expect.anything()
+      );
+      expect(permissionsService.invalidateCache).toHaveBeenCalledWith(
+        expect.objectContaining({ user_id: 'user-1' })
+      );
+      expect(result.permission_name).toBe('filings:approve');
+    });
+
+    it('reuses a revoked grant of the same permission', async () => {
+      const existing = {
+        id: 'grant-1',
+        revoked_at: new Date(),
+        update: jest.fn().mockImplementation(function (this: unknown, values: object) {
+          return Promise.resolve({ ...(this as object), ...values });
+        }),
+      };
+      userPermissionModel.findOne.mockResolvedValue(existing);
+
+      await service.grant('user-1', { permission_id: 'perm-1' }, acmeAdmin);
+
+      expect(existing.update).toHaveBeenCalledWith(
+        expect.objectContaining({ revoked_at: null, revoked_by: null, expires_at: null }),
+        expect.anything()
+      );
+      expect(userPermissionModel.create).not.toHaveBeenCalled();
+    });
+
+    it('rejects expiries in the past and both expiry options at once', async () => {
+      await expect(
+        service.grant(
+          'user-1',
+          { permission_id: 'perm-1', expires_at: new Date(Date.now() - 1000) },
+          companyAdmin
+        )
+      ).rejects.toThrow(BadRequestException);
+      await expect(
+        service.grant(
+          'user-1',
+          {
+            permission_id: 'perm-1',
+            expires_at: new Date(Date.now() + 60 * 60 * 1000),
+            duration_hours: 1,
+          },
+          companyAdmin
+        )
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('only lets company admins grant permissions they hold to users of their company', async () => {
+      permissionsService.hasPermission.mockResolvedValueOnce({ granted: false });
+      await expect(
+        service.grant('user-1', { permission_id: 'perm-1' }, companyAdmin)
+      ).rejects.toThrow(ForbiddenException);
+
+      userModel.findByPk.mockResolvedValueOnce({ id: 'user-2', company_id: 'company-2' });
+      await expect(
+        service.grant('user-2', { permission_id: 'perm-1' }, companyAdmin)
+      ).rejects.toThrow(ForbiddenException);
+
+      await expect(
+        service.grant('admin-1', { permission_id: 'perm-1' }, companyAdmin)
+      ).rejects.toThrow(ForbiddenException);
+      expect(userPermissionModel.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revoke', () => {
+    it('records who revoked the grant and why', async () => {
+      const grant = { id: 'grant-1', permission: { name: 'filings:approve' }, update: jest.fn() };
+      userPermissionModel.findOne.mockResolvedValue(grant);
+
+      await service.revoke('user-1', 'perm-1', { reason: 'Deadline met' }, companyAdmin);
+
+      expect(grant.update).toHaveBeenCalledWith(
+        expect.objectContaining({ revoked_by: 'admin-1', revocation_reason: 'Deadline met' }),
+        expect.anything()
+      );
+      expect(auditTrailService.append).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'USER_PERMISSION_REVOKED',
+          payload: { permission: 'filings:approve', reason: 'Deadline met' },
+        }),
+        expect.anything()
+      );
+      expect(permissionsService.invalidateCache).toHaveBeenCalled();
+    });
+
+    it('rejects users without an active grant', async () => {
+      await expect(service.revoke('user-1', 'perm-1', {}, companyAdmin)).rejects.toThrow(
+        NotFoundException
+      );
+      expect(permissionsService.invalidateCache).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revokeAllForUser', () => {
+    it('keeps the grants and denies of the user as revoked rows', async () => {
+      userPermissionModel.update.mockResolvedValue([3]);
+      const transaction = {} as Transaction;
+
+      const count = await service.revokeAllForUser(
+        'user-1',
+        'admin-1',
+        'User deactivated',
+        transaction
+      );
+
+      expect(count).toBe(3);
+      expect(userPermissionModel.update).toHaveBeenCalledWith(
+        {
+          revoked_at: expect.any(Date),
+          revoked_by: 'admin-1',
+          revocation_reason: 'User deactivated',
+        },
+        { where: { user_id: 'user-1', revoked_at: null }, transaction }
+      );
+    });
+  });
+
+  describe('sweepExpiringGrants', () => {
+    it('reports each grant expiring soon once', async () => {
+      const grant = {
+        user_id: 'user-1',
+        user: { company_id: 'company-1' },
+        permission: { name: 'filings:approve' },
+        expires_at: new Date(Date.now() + 60 * 60 * 1000),
+        granted_by: 'admin-1',
+        update: jest.fn(),
+      };
+      userPermissionModel.findAll.mockResolvedValue([grant]);
+      const now = new Date();
+
+      const result = await service.sweepExpiringGrants(now);
+
+      expect(result).toEqual({ flagged: 1 });
+      expect(userPermissionModel.findAll).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ expiry_flagged_at: null, revoked_at: null }),
+        })
+      );
+      expect(grant.update).toHaveBeenCalledWith({ expiry_flagged_at: now }, expect.anything());
+      expect(auditTrailService.append).toHaveBeenCalledWith(
+        expect.objectContaining({ tenantId: 'company-1', action: 'USER_PERMISSION_EXPIRING' }),
+        expect.anything()
+      );
+    });
+  });
+});
@@ -0,0 +1,400 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { getConnectionToken, InjectModel } from '@nestjs/sequelize';
+import { Op, Transaction } from 'sequelize';
+import { Sequelize } from 'sequelize-typescript';
+import { ERROR_CODES } from '../../common/constants/error-codes';
+import { AuditTrailService } from '../audit/audit-trail.service';
+import { AuditSource } from '../audit/entities/audit-record.entity';
+import { User, UserRole } from '../auth/entities/user.entity';
+import {
+  GrantUserPermissionDto,
+  RevokeUserPermissionDto,
+  UserPermissionGrantDto,
+} from './dto/user-permission.dto';
+import { Permission, UserPermission } from './entities';
+import { PermissionsService } from './permissions.service';
+
+export interface PermissionGrantSweepResult {
+  flagged: number;
+}
+
+/**
+ * Grants and revokes direct user permissions. Grants may expire: PermissionsService
+ * ignores expired grants and caches no longer than until the next expiry, and a periodic
+ * sweep reports the grants that expire within PERMISSION_GRANT_EXPIRY_WARNING_HOURS.
+ */
+@Injectable()
+export class PermissionGrantService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(PermissionGrantService.name);
+  private sweepTimer?: NodeJS.Timeout;
+
+  constructor(
+    @InjectModel(UserPermission)
+    private readonly userPermissionModel: typeof UserPermission,
+    @InjectModel(Permission)
+    private readonly permissionModel: typeof Permission,
+    @InjectModel(User)
+    private readonly userModel: typeof User,
+    private readonly permissionsService: PermissionsService,
+    private readonly auditTrailService: AuditTrailService,
+    private readonly configService: ConfigService,
+    @Inject(getConnectionToken())
+    private readonly sequelize: Sequelize
+  ) {}
+
+  onModuleInit(): void {
+    const minutes = Number(
+      this.configService.get<number>('PERMISSION_GRANT_SWEEP_INTERVAL_MINUTES', 60)
+    );
+    if (!minutes || minutes <= 0) {
+      return;
+    }
+
+    this.sweepTimer = setInterval(
+      () => {
+        this.sweepExpiringGrants().catch((error) =>
+          this.logger.error('Permission grant expiry sweep failed', error)
+        );
+      },
+      minutes * 60 * 1000
+    );
+    this.sweepTimer.unref();
+  }
+
+  onModuleDestroy(): void {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+    }
+  }
+
+  /**
+   * Grants a permission to a user directly, for good or until expires_at (or for
+   * duration_hours), optionally limited by policy conditions. Granting a permission the
+   * user already has replaces that grant.
+   */
+  async grant(
+    userId: string,
+    grantDto: GrantUserPermissionDto,
+    currentUser: User
+  ): Promise<UserPermissionGrantDto> {
+    const now = new Date();
+    const expiresAt = this.resolveExpiry(grantDto, now);
+    const user = await this.findManageableUser(userId, currentUser);
+
+    const permission = await this.permissionModel.findByPk(grantDto.permission_id, {
+      attributes: ['id', 'name'],
+    });
+    if (!permission) {
+      throw new NotFoundException({
+        success: false,
+        code: ERROR_CODES.PERMISSION_NOT_FOUND,
+        message: 'Permission not found',
+      });
+    }
+
+    await this.assertHeldBy(permission.name, currentUser);
+
+    const grant = await this.sequelize.transaction(async (transaction) => {
+      const values = {
+        granted: true,
+        granted_by: currentUser.id,
+        granted_at: now,
+        expires_at: expiresAt,
+        reason: grantDto.reason ?? null,
+        conditions: grantDto.conditions?.length ? grantDto.conditions : null,
+        revoked_at: null,
+        revoked_by: null,
+        revocation_reason: null,
+        expiry_flagged_at: null,
+      };
+
+      // One row per user and permission (unique index), reused by later grants
+      const existing = await this.userPermissionModel.findOne({
+        where: { user_id: userId, permission_id: permission.id },
+        transaction,
+        lock: transaction.LOCK.UPDATE,
+      });
+      const saved = existing
+        ? await existing.update(values, { transaction })
+        : await this.userPermissionModel.create(
+            { user_id: userId, permission_id: permission.id, ...values },
+            { transaction }
+          );
+
+      await this.auditTrailService.append(
+        {
+          tenantId: user.company_id,
+          source: AuditSource.PERMISSION,
+          action: 'USER_PERMISSION_GRANTED',
+          entityId: userId,
+          performedBy: currentUser.id,
+          payload: {
+            permission: permission.name,
+            expiresAt,
+            reason: grantDto.reason ?? null,
+            conditions: values.conditions,
+          },
+        },
+        transaction
+      );
+
+      return saved;
+    });
+
+    await this.permissionsService.invalidateCache({
+      user_id: userId,
+      reason: 'Direct permission granted',
+    });
+
+    return {
+      id: grant.id,
+      user_id: userId,
+      permission_id: permission.id,
+      permission_name: permission.name,
+      reason: grant.reason ?? null,
+      granted_by: grant.granted_by ?? null,
+      granted_at: grant.granted_at,
+      expires_at: grant.expires_at ?? null,
+      conditions: grant.conditions ?? null,
+    };
+  }
+
+  /**
+   * Revokes a direct grant. The row is kept with who revoked it and why.
+   */
+  async revoke(
+    userId: string,
+    permissionId: string,
+    revokeDto: RevokeUserPermissionDto,
+    currentUser: User
+  ): Promise<void> {
+    const user = await this.findManageableUser(userId, currentUser);
+
+    await this.sequelize.transaction(async (transaction) => {
+      const grant = await this.userPermissionModel.findOne({
+        where: {
+          user_id: userId,
+          permission_id: permissionId,
+          granted: true,
+          revoked_at: null,
+        },
+        include: [{ model: Permission, attributes: ['name'] }],
+        transaction,
+        lock: transaction.LOCK.UPDATE,
+      });
+
+      if (!grant) {
+        throw new NotFoundException({
+          success: false,
+          code: ERROR_CODES.PERMISSION_GRANT_NOT_FOUND,
+          message: 'The user has no direct grant of this permission',
+        });
+      }
+
+      await grant.update(
+        {
+          revoked_at: new Date(),
+          revoked_by: currentUser.id,
+          revocation_reason: revokeDto.reason ?? null,
+        },
+        { transaction }
+      );
+
+      await this.auditTrailService.append(
+        {
+          tenantId: user.company_id,
+          source: AuditSource.PERMISSION,
+          action: 'USER_PERMISSION_REVOKED',
+          entityId: userId,
+          performedBy: currentUser.id,
+          payload: {
+            permission: grant.permission?.name,
+            reason: revokeDto.reason ?? null,
+          },
+        },
+        transaction
+      );
+    });
+
+    await this.permissionsService.invalidateCache({
+      user_id: userId,
+      reason: 'Direct permission revoked',
+    });
+  }
+
+  /**
+   * Revokes every direct grant and deny of a user inside the caller's transaction, e.g. when
+   * the user is offboarded. The rows are kept with who revoked them and why. The caller
+   * invalidates the permission cache once the transaction has committed.
+   */
+  async revokeAllForUser(
+    userId: string,
+    revokedBy: string,
+    reason: string,
+    transaction: Transaction
+  ): Promise<number> {
+    const [revokedCount] = await this.userPermissionModel.update(
+      { revoked_at: new Date(), revoked_by: revokedBy, revocation_reason: reason },
+      { where: { user_id: userId, revoked_at: null }, transaction }
+    );
+
+    return revokedCount;
+  }
+
+  /**
+   * Reports the grants that expire within PERMISSION_GRANT_EXPIRY_WARNING_HOURS, once per
+   * grant. Runs every PERMISSION_GRANT_SWEEP_INTERVAL_MINUTES.
+   */
+  async sweepExpiringGrants(now = new Date()): Promise<PermissionGrantSweepResult> {
+    const warningHours = Number(
+      this.configService.get<number>('PERMISSION_GRANT_EXPIRY_WARNING_HOURS', 24)
+    );
+    const expiring = await this.userPermissionModel.findAll({
+      where: {
+        granted: true,
+        revoked_at: null,
+        expiry_flagged_at: null,
+        expires_at: {
+          [Op.gt]: now,
+          [Op.lte]: new Date(now.getTime() + warningHours * 60 * 60 * 1000),
+        },
+      },
+      include: [
+        { model: Permission, attributes: ['name'] },
+        { model: User, as: 'user', attributes: ['id', 'company_id'] },
+      ],
+    });
+
+    for (const grant of expiring) {
+      await this.sequelize.transaction(async (transaction) => {
+        await grant.update({ expiry_flagged_at: now }, { transaction });
+
+        await this.auditTrailService.append(
+          {
+            tenantId: grant.user?.company_id,
+            source: AuditSource.PERMISSION,
+            action: 'USER_PERMISSION_EXPIRING',
+            entityId: grant.user_id,
+            performedBy: null,
+            payload: {
+              permission: grant.permission?.name,
+              expiresAt: grant.expires_at,
+              grantedBy: grant.granted_by ?? null,
+            },
+          },
+          transaction
+        );
+      });
+    }
+
+    if (expiring.length > 0) {
+      this.logger.warn(
+        `Permission grant sweep: ${expiring.length} direct grants expiring within ${warningHours} hours`
+      );
+    }
+
+    return { flagged: expiring.length };
+  }
+
+  private resolveExpiry(grantDto: GrantUserPermissionDto, now: Date): Date | null {
+    if (grantDto.expires_at && grantDto.duration_hours) {
+      throw new BadRequestException({
+        success: false,
+        code: ERROR_CODES.PERMISSION_GRANT_INVALID_EXPIRY,
+        message: 'Provide either expires_at or duration_hours, not both',
+      });
+    }
+
+    if (grantDto.duration_hours) {
+      return new Date(now.getTime() + grantDto.duration_hours * 60 * 60 * 1000);
+    }
+
+    if (grantDto.expires_at && grantDto.expires_at <= now) {
+      throw new BadRequestException({
+        success: false,
+        code: ERROR_CODES.PERMISSION_GRANT_INVALID_EXPIRY,
+        message: 'expires_at must be in the future',
+      });
+    }
+
+    return grantDto.expires_at ?? null;
+  }
+
+  /**
+   * Company admins manage the users of their company, Acme and super admins everyone.
+   * Nobody grants or revokes their own permissions.
+   */
+  private async findManageableUser(userId: string, currentUser: User): Promise<User> {
+    if (userId === currentUser.id) {
+      throw new ForbiddenException({
+        success: false,
+        code: ERROR_CODES.FORBIDDEN,
+        message: 'You cannot change your own permissions',
+      });
+    }
+
+    const user = await this.userModel.findByPk(userId, { attributes: ['id', 'company_id'] });
+    if (!user) {
+      throw new NotFoundException({
+        success: false,
+        code: ERROR_CODES.USER_NOT_FOUND,
+        message: 'User not found',
+      });
+    }
+
+    const canManage =
+      this.isPlatformAdmin(currentUser) ||
+      (currentUser.hasRoleEnum(UserRole.VENDOR_ADMIN) &&
+        !!currentUser.company_id &&
+        currentUser.company_id === user.company_id);
+
+    if (!canManage) {
+      throw new ForbiddenException({
+        success: false,
+        code: ERROR_CODES.FORBIDDEN,
+        message: 'You are not allowed to manage the permissions of this user',
+      });
+    }
+
+    return user;
+  }
+
+  /**
+   * Company admins can only hand out permissions they hold themselves
+   */
+  private async assertHeldBy(permissionName: string, currentUser: User): Promise<void> {
+    if (this.isPlatformAdmin(currentUser)) {
+      return;
+    }
+
+    const check = await this.permissionsService.hasPermission({
+      user_id: currentUser.id,
+      permission_name: permissionName,
+      company_id: currentUser.company_id,
+    });
+
+    if (!check.granted) {
+      throw new ForbiddenException({
+        success: false,
+        code: ERROR_CODES.PERMISSION_GRANT_NOT_HELD,
+        message: `You do not hold the permission ${permissionName}`,
+      });
+    }
+  }
+
+  private isPlatformAdmin(currentUser: User): boolean {
+    return (
+      currentUser.hasRoleEnum(UserRole.SUPER_ADMIN) || currentUser.hasRoleEnum(UserRole.ACME_ADMIN)
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { Matches } from 'class-validator';
+
+/**
+ * Permission names are colon-separated segments (users:invite:acme). A trailing '*'
+ * segment grants every permission below the prefix: users:invite:* covers users:invite:acme
+ * and users:invite:vendor, teams:* covers every teams permission. '*' is only allowed as
+ * the whole last segment and never on its own.
+ */
+export const PERMISSION_NAME_PATTERN = /^[A-Za-z0-9_.-]+(?::[A-Za-z0-9_.-]+)*(?::\*)?$/;
+
+const WILDCARD_SUFFIX = ':*';
+
+export function isValidPermissionName(name: string): boolean {
+  return PERMISSION_NAME_PATTERN.test(name);
+}
+
+export function isWildcardPermission(name: string): boolean {
+  return name.endsWith(WILDCARD_SUFFIX);
+}
+
+/**
+ * Whether a granted permission (possibly a wildcard) covers the requested one
+ */
+export function permissionMatches(granted: string, requested: string): boolean {
+  if (granted === requested) {
+    return true;
+  }
+
+  if (!isWildcardPermission(granted)) {
+    return false;
+  }
+
+  // 'teams:*' keeps 'teams:' so that it does not cover 'teamsettings:read'
+  return requested.startsWith(granted.slice(0, -1));
+}
+
+/**
+ * How specific a grant is for a request it matches: an exact grant beats any wildcard,
+ * and a longer wildcard prefix beats a shorter one
+ */
+export function permissionSpecificity(granted: string): number {
+  return isWildcardPermission(granted) ? granted.split(':').length - 1 : Number.MAX_SAFE_INTEGER;
+}
+
+/**
+ * Validates a permission name or wildcard pattern in DTOs
+ */
+export const IsPermissionName = () =>
+  Matches(PERMISSION_NAME_PATTERN, {
+    message:
+      'Permission names are colon-separated segments, optionally ending in a :* wildcard segment',
+  });
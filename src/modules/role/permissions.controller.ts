@@ -26,7 +26,9 @@ import {
 
 import { CurrentUser } from '../../common/decorators/current-user.decorator';
 import { JwtAuthGuard } from '../../core/guards/jwt-auth.guard';
+import { PermissionGrantService } from './permission-grant.service';
 import { PermissionsService } from './permissions.service';
+import { RoleService } from './role.service';
 
 // Import DTOs
 import {
@@ -39,20 +41,26 @@ import {
   CheckUserPermissionDto,
   CreatePermissionDto,
   CreateRoleDto,
+  ExplainPermissionQueryDto,
   GrantUserPermissionDto,
+  RevokeUserPermissionDto,
+  SetParentRoleDto,
   // Cache DTOs
   InvalidateCacheDto,
   PermissionCheckResponseDto,
   // Permission DTOs
   PermissionDto,
+  PermissionExplanationDto,
   PermissionListResponseDto,
   PermissionQueryDto,
   RoleListResponseDto,
+  RolePermissionsResponseDto,
   RoleQueryDto,
   // Role DTOs
   RoleWithPermissionsDto,
   UpdatePermissionDto,
   // User Permission DTOs
+  UserPermissionGrantDto,
   UserPermissionsResponseDto,
 } from './dto';
 
@@ -67,7 +75,7 @@ import { Role } from './entities/role.entity';
  *
  * Provides endpoints for:
  * - Permission CRUD operations
- * - Role management with permission assignments
+ * - Role management with permission assignments and inheritance
  * - User permission management (direct + role-based)
  * - Permission checking and validation
  * - Cache management for performance
@@ -80,7 +88,11 @@ import { Role } from './entities/role.entity';
 @UseGuards(JwtAuthGuard)
 @ApiBearerAuth()
 export class PermissionsController {
-  constructor(private readonly permissionsService: PermissionsService) {}
+  constructor(
+    private readonly permissionsService: PermissionsService,
+    private readonly permissionGrantService: PermissionGrantService,
+    private readonly roleService: RoleService
+  ) {}
 
   // ========================================
   // PERMISSION MANAGEMENT ENDPOINTS
@@ -516,6 +528,81 @@ export class PermissionsController {
     }
   }
 
+  @Get('roles/:id/permissions')
+  @ApiOperation({
+    summary: 'Get role permissions with inheritance',
+    description:
+      'Permissions the role assigns itself and those it inherits from its parent roles, ' +
+      'with the parent role each inherited permission comes from',
+  })
+  @ApiParam({ name: 'id', description: 'Role ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Role permissions retrieved successfully',
+    type: RolePermissionsResponseDto,
+  })
+  @ApiResponse({ status: 404, description: 'Role not found' })
+  @ApiResponse({ status: 500, description: 'Internal server error' })
+  async getRolePermissions(@Param('id') roleId: string): Promise<RolePermissionsResponseDto> {
+    try {
+      return await this.roleService.getRolePermissions(roleId);
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        throw error;
+      }
+      throw new InternalServerErrorException({
+        success: false,
+        code: 'ROLES_GET_PERMISSIONS_ERROR',
+        message: 'Failed to retrieve role permissions',
+      });
+    }
+  }
+
+  @Put('roles/:id/parent')
+  @ApiOperation({
+    summary: 'Set parent role',
+    description:
+      'Make the role inherit the permissions of another role (super admins only). ' +
+      'Cached permissions of the users of the role and of the roles inheriting from it are ' +
+      'invalidated.',
+  })
+  @ApiParam({ name: 'id', description: 'Role ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Parent role set successfully',
+    type: RolePermissionsResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'The parent role would create a cycle' })
+  @ApiResponse({ status: 403, description: 'Not authorized to change the role hierarchy' })
+  @ApiResponse({ status: 404, description: 'Role or parent role not found' })
+  @ApiResponse({ status: 500, description: 'Internal server error' })
+  async setParentRole(
+    @Param('id') roleId: string,
+    @Body() setParentRoleDto: SetParentRoleDto,
+    @CurrentUser() requestingUser: User
+  ): Promise<RolePermissionsResponseDto> {
+    try {
+      return await this.roleService.setParentRole(
+        roleId,
+        setParentRoleDto.parent_role_id,
+        requestingUser
+      );
+    } catch (error) {
+      if (
+        error instanceof BadRequestException ||
+        error instanceof NotFoundException ||
+        error instanceof ForbiddenException
+      ) {
+        throw error;
+      }
+      throw new InternalServerErrorException({
+        success: false,
+        code: 'ROLES_SET_PARENT_ERROR',
+        message: 'Failed to set parent role',
+      });
+    }
+  }
+
   // ========================================
   // USER PERMISSION MANAGEMENT ENDPOINTS
   // ========================================
@@ -553,16 +640,20 @@ export class PermissionsController {
       // Transform service response to API response
       return {
         user_id: effectivePermissions.user_id,
-        permissions: effectivePermissions.permissions.map((p) => ({
-          id: '', // TODO: Add ID mapping when permission CRUD is implemented
-          name: p.name,
-          description: undefined,
-          category: p.category,
-          source: p.source as any, // Cast to API enum
-          source_role_id: p.source_role_id,
-          source_role_name: p.source_role_name,
-          expires_at: p.expires_at,
-        })),
+        permissions: effectivePermissions.permissions
+          .filter((p) => p.is_active)
+          .map((p) => ({
+            id: '', // TODO: Add ID mapping when permission CRUD is implemented
+            name: p.name,
+            description: undefined,
+            category: p.category,
+            source: p.source as any, // Cast to API enum
+            source_role_id: p.source_role_id,
+            source_role_name: p.source_role_name,
+            inherited: p.inherited,
+            expires_at: p.expires_at,
+            expands_to: p.expands_to,
+          })),
         roles: [], // TODO: Load roles when role CRUD is implemented
         calculated_at: effectivePermissions.calculated_at,
         from_cache: effectivePermissions.from_cache,
@@ -586,30 +677,33 @@ export class PermissionsController {
   @Post('users/:userId/permissions')
   @ApiOperation({
     summary: 'Grant direct permission to user',
-    description: 'Grant a direct permission to a user (bypasses roles)',
+    description:
+      'Grant a direct permission to a user (bypasses roles), optionally until expires_at or ' +
+      'for duration_hours. Expired grants no longer count towards the effective permissions.',
   })
   @ApiParam({ name: 'userId', description: 'User ID' })
-  @ApiResponse({ status: 201, description: 'Permission granted successfully' })
+  @ApiResponse({
+    status: 201,
+    description: 'Permission granted successfully',
+    type: UserPermissionGrantDto,
+  })
   @ApiResponse({ status: 400, description: 'Invalid permission grant' })
+  @ApiResponse({ status: 403, description: 'Not authorized to grant this permission' })
   @ApiResponse({ status: 404, description: 'User or permission not found' })
   @ApiResponse({ status: 500, description: 'Internal server error' })
   @HttpCode(HttpStatus.CREATED)
   async grantUserPermission(
     @Param('userId') userId: string,
-    @Body() grantDto: GrantUserPermissionDto
-  ): Promise<{ success: boolean; message: string }> {
+    @Body() grantDto: GrantUserPermissionDto,
+    @CurrentUser() requestingUser: User
+  ): Promise<UserPermissionGrantDto> {
     try {
-      // TODO: Implement direct permission granting in PermissionsService
-      throw new InternalServerErrorException({
-        success: false,
-        code: 'USER_GRANT_PERMISSION_NOT_IMPLEMENTED',
-        message: 'Direct permission granting not yet implemented',
-      });
+      return await this.permissionGrantService.grant(userId, grantDto, requestingUser);
     } catch (error) {
       if (
         error instanceof BadRequestException ||
         error instanceof NotFoundException ||
-        error instanceof InternalServerErrorException
+        error instanceof ForbiddenException
       ) {
         throw error;
       }
@@ -624,27 +718,25 @@ export class PermissionsController {
   @Delete('users/:userId/permissions/:permissionId')
   @ApiOperation({
     summary: 'Revoke direct permission from user',
-    description: 'Revoke a direct permission from a user',
+    description: 'Revoke a direct permission from a user, optionally with a reason',
   })
   @ApiParam({ name: 'userId', description: 'User ID' })
   @ApiParam({ name: 'permissionId', description: 'Permission ID' })
   @ApiResponse({ status: 204, description: 'Permission revoked successfully' })
-  @ApiResponse({ status: 404, description: 'User or permission not found' })
+  @ApiResponse({ status: 403, description: 'Not authorized to revoke this permission' })
+  @ApiResponse({ status: 404, description: 'User or permission grant not found' })
   @ApiResponse({ status: 500, description: 'Internal server error' })
   @HttpCode(HttpStatus.NO_CONTENT)
   async revokeUserPermission(
     @Param('userId') userId: string,
-    @Param('permissionId') permissionId: string
+    @Param('permissionId') permissionId: string,
+    @Body() revokeDto: RevokeUserPermissionDto,
+    @CurrentUser() requestingUser: User
   ): Promise<void> {
     try {
-      // TODO: Implement direct permission revocation in PermissionsService
-      throw new InternalServerErrorException({
-        success: false,
-        code: 'USER_REVOKE_PERMISSION_NOT_IMPLEMENTED',
-        message: 'Direct permission revocation not yet implemented',
-      });
+      await this.permissionGrantService.revoke(userId, permissionId, revokeDto, requestingUser);
     } catch (error) {
-      if (error instanceof NotFoundException || error instanceof InternalServerErrorException) {
+      if (error instanceof NotFoundException || error instanceof ForbiddenException) {
         throw error;
       }
       throw new InternalServerErrorException({
@@ -808,6 +900,51 @@ export class PermissionsController {
     }
   }
 
+  @Get('users/:userId/explain')
+  @ApiOperation({
+    summary: 'Explain a permission decision',
+    description:
+      'Trace why a user has or lacks a permission: super admin bypass, the role granting it, ' +
+      'a direct grant or deny overriding the role, and the cached entry the guards use',
+  })
+  @ApiParam({ name: 'userId', description: 'User ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Permission decision explained',
+    type: PermissionExplanationDto,
+  })
+  @ApiResponse({ status: 400, description: 'Invalid explanation request' })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  @ApiResponse({ status: 403, description: 'Not authorized to access user permissions' })
+  @ApiResponse({ status: 500, description: 'Internal server error' })
+  async explainUserPermission(
+    @Param('userId') userId: string,
+    @Query() query: ExplainPermissionQueryDto,
+    @CurrentUser() requestingUser: User
+  ): Promise<PermissionExplanationDto> {
+    try {
+      return await this.permissionsService.explainPermission(
+        userId,
+        requestingUser,
+        query.permission,
+        query.company_id
+      );
+    } catch (error) {
+      if (
+        error instanceof BadRequestException ||
+        error instanceof NotFoundException ||
+        error instanceof ForbiddenException
+      ) {
+        throw error;
+      }
+      throw new InternalServerErrorException({
+        success: false,
+        code: 'USER_PERMISSION_EXPLAIN_ERROR',
+        message: 'Failed to explain user permission',
+      });
+    }
+  }
+
   // ========================================
   // CACHE MANAGEMENT ENDPOINTS
   // ========================================
@@ -845,7 +982,8 @@ export class PermissionsController {
   @Get('cache/stats')
   @ApiOperation({
     summary: 'Get cache statistics',
-    description: 'Retrieve permission cache statistics and metrics',
+    description:
+      'Retrieve permission cache statistics and metrics, with the hit rate of the authenticated user cache',
   })
   @ApiResponse({
     status: 200,
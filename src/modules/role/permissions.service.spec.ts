@@ -1,6 +1,7 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { getModelToken } from '@nestjs/sequelize';
 import { ConfigService } from '@nestjs/config';
+import { PrincipalCacheService } from '../principal-cache/principal-cache.service';
 import { PermissionsService } from './permissions.service';
 import {
   Role,
@@ -10,7 +11,20 @@ import {
   RolePermission,
 } from './entities';
 import { User, UserRole } from '../auth/entities/user.entity';
-import { ServicePermissionCheckDto, PermissionSourceType } from './dto/permissions-service.dto';
+import { ServiceAccountPermission } from '../service-account/entities/service-account-permission.entity';
+import { CompanyMembership } from '../company-membership/entities/company-membership.entity';
+import {
+  ServicePermissionCheckDto,
+  PermissionSourceType,
+  PrincipalType,
+} from './dto/permissions-service.dto';
+import { PermissionDecision } from './dto/permission-explanation.dto';
+import { MemoryPermissionCacheStore } from './cache/memory-permission-cache.store';
+import {
+  PERMISSION_CACHE_BUS,
+  PERMISSION_CACHE_STORE,
+  PermissionCacheInvalidation,
+} from './cache/permission-cache.interface';
 
 describe('PermissionsService', () => {
   let service: PermissionsService;
@@ -20,7 +34,17 @@ describe('PermissionsService', () => {
   let userRoleModel: jest.Mocked<typeof UserRoleEntity>;
   let userPermissionModel: jest.Mocked<typeof UserPermission>;
   let rolePermissionModel: jest.Mocked<typeof RolePermission>;
+  let serviceAccountPermissionModel: jest.Mocked<typeof ServiceAccountPermission>;
+  let membershipModel: jest.Mocked<typeof CompanyMembership>;
   let configService: jest.Mocked<ConfigService>;
+  let principalCacheService: {
+    findById: jest.Mock;
+    clear: jest.Mock;
+    evict: jest.Mock;
+    onEviction: jest.Mock;
+  };
+  let cacheStore: MemoryPermissionCacheStore;
+  let cacheBus: { publish: jest.Mock; subscribe: jest.Mock };
 
   const mockRole = {
     id: 'role-123',
@@ -59,12 +83,19 @@ describe('PermissionsService', () => {
   } as Role;
 
   beforeEach(async () => {
+    cacheStore = new MemoryPermissionCacheStore(10000);
+    cacheBus = {
+      publish: jest.fn().mockResolvedValue(undefined),
+      subscribe: jest.fn().mockResolvedValue(undefined),
+    };
+
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         PermissionsService,
         {
           provide: getModelToken(User),
           useValue: {
+            findAll: jest.fn(),
             findByPk: jest.fn(),
             findOne: jest.fn(),
           },
@@ -109,22 +140,50 @@ describe('PermissionsService', () => {
             destroy: jest.fn(),
           },
         },
+        {
+          provide: getModelToken(ServiceAccountPermission),
+          useValue: {
+            findAll: jest.fn(),
+          },
+        },
+        {
+          provide: getModelToken(CompanyMembership),
+          useValue: {
+            findAll: jest.fn(),
+            findOne: jest.fn(),
+          },
+        },
         {
           provide: ConfigService,
           useValue: {
             get: jest.fn(),
           },
         },
+        {
+          provide: PrincipalCacheService,
+          useValue: {
+            findById: jest.fn(),
+            getStatistics: jest.fn(),
+            clear: jest.fn(),
+            evict: jest.fn(),
+            onEviction: jest.fn(),
+          },
+        },
+        { provide: PERMISSION_CACHE_STORE, useValue: cacheStore },
+        { provide: PERMISSION_CACHE_BUS, useValue: cacheBus },
       ],
     }).compile();
 
     service = module.get<PermissionsService>(PermissionsService);
+    principalCacheService = module.get(PrincipalCacheService);
     userModel = module.get(getModelToken(User));
     roleModel = module.get(getModelToken(Role));
     permissionModel = module.get(getModelToken(Permission));
     userRoleModel = module.get(getModelToken(UserRoleEntity));
     userPermissionModel = module.get(getModelToken(UserPermission));
     rolePermissionModel = module.get(getModelToken(RolePermission));
+    serviceAccountPermissionModel = module.get(getModelToken(ServiceAccountPermission));
+    membershipModel = module.get(getModelToken(CompanyMembership));
     configService = module.get(ConfigService);
   });
 
@@ -283,6 +342,637 @@ describe('PermissionsService', () => {
       expect(result.permissions.length).toBeGreaterThan(0);
       expect(result.from_cache).toBe(false);
     });
+
+    it('should use the membership role for a company the user is a member of', async () => {
+      userModel.findByPk.mockResolvedValue({ ...mockUser, company_id: 'home-company' } as any);
+      membershipModel.findOne.mockResolvedValue({
+        user_id: 'user-123',
+        company_id: 'company-123',
+        role_id: 'role-manager',
+      } as CompanyMembership);
+      roleModel.findByPk.mockResolvedValue({
+        id: 'role-manager',
+        name: 'Vendor Manager',
+        permissions: [{ name: 'teams:manage:own', category: 'TEAM' }],
+      } as unknown as Role);
+      userPermissionModel.findAll.mockResolvedValue([]);
+      const isSuperAdmin = jest.spyOn(service, 'isSuperAdmin');
+
+      const result = await service.getEffectivePermissionsForUser('user-123', 'company-123');
+
+      expect(roleModel.findByPk).toHaveBeenCalledWith('role-manager', expect.any(Object));
+      expect(result.company_id).toBe('company-123');
+      expect(result.permissions).toEqual([
+        expect.objectContaining({ name: 'teams:manage:own', source_role_id: 'role-manager' }),
+      ]);
+      expect(isSuperAdmin).not.toHaveBeenCalled();
+    });
+
+    it('should not apply direct grants in a membership company', async () => {
+      userModel.findByPk.mockResolvedValue({ ...mockUser, company_id: 'home-company' } as any);
+      membershipModel.findOne.mockResolvedValue({
+        user_id: 'user-123',
+        company_id: 'company-123',
+        role_id: 'role-manager',
+      } as CompanyMembership);
+      roleModel.findByPk.mockResolvedValue({
+        id: 'role-manager',
+        name: 'Vendor Manager',
+        permissions: [],
+      } as unknown as Role);
+
+      const result = await service.getEffectivePermissionsForUser('user-123', 'company-123');
+
+      expect(userPermissionModel.findAll).not.toHaveBeenCalled();
+      expect(result.permissions).toEqual([]);
+    });
+
+    it('should reject a company the user is neither in nor a member of', async () => {
+      userModel.findByPk.mockResolvedValue({ ...mockUser, company_id: 'home-company' } as any);
+      membershipModel.findOne.mockResolvedValue(null);
+
+      await expect(
+        service.getEffectivePermissionsForUser('user-123', 'company-123')
+      ).rejects.toThrow('does not belong to company');
+    });
+  });
+
+  describe('direct permission expiry', () => {
+    beforeEach(() => {
+      userModel.findByPk.mockResolvedValue({ ...mockUser, role: null } as unknown as User);
+      jest.spyOn(service, 'isSuperAdmin').mockResolvedValue(false);
+      service['config'].cache_enabled = true;
+      service['config'].cache_ttl_seconds = 3600;
+    });
+
+    it('should only load grants and denies that are neither revoked nor expired', async () => {
+      userPermissionModel.findAll.mockResolvedValue([]);
+
+      await service.getEffectivePermissionsForUser('user-123');
+
+      expect(userPermissionModel.findAll).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ user_id: 'user-123', revoked_at: null }),
+        })
+      );
+    });
+
+    it('should cache permissions no longer than until the first grant expires', async () => {
+      const expiresAt = new Date(Date.now() + 10 * 60 * 1000);
+      userPermissionModel.findAll.mockResolvedValue([
+        { permission: mockPermission, expires_at: expiresAt } as unknown as UserPermission,
+      ]);
+
+      const result = await service.getEffectivePermissionsForUser('user-123');
+
+      expect(result.permissions[0].expires_at).toBe(expiresAt);
+      expect(result.cache_ttl_seconds).toBeGreaterThan(590);
+      expect(result.cache_ttl_seconds).toBeLessThanOrEqual(600);
+
+      jest.useFakeTimers({ now: expiresAt.getTime() + 1000 });
+      try {
+        userPermissionModel.findAll.mockResolvedValue([]);
+        const afterExpiry = await service.getEffectivePermissionsForUser('user-123');
+
+        expect(afterExpiry.from_cache).toBe(false);
+        expect(afterExpiry.permissions).toEqual([]);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+  });
+
+  describe('explainPermission', () => {
+    const roleWithPermission = {
+      ...mockRole,
+      permissions: [{ name: 'teams:read:own', category: 'TEAM' }],
+    };
+
+    beforeEach(() => {
+      userModel.findByPk.mockResolvedValue({ ...mockUser, role: roleWithPermission } as any);
+      userPermissionModel.findAll.mockResolvedValue([]);
+      jest.spyOn(service, 'isSuperAdmin').mockResolvedValue(false);
+    });
+
+    it('should name the role that grants the permission', async () => {
+      const result = await service.explainPermission('user-123', mockUser, 'teams:read:own');
+
+      expect(result).toEqual(
+        expect.objectContaining({
+          company_id: 'company-123',
+          granted: true,
+          decision: PermissionDecision.ROLE,
+          super_admin: false,
+        })
+      );
+      expect(result.steps[1]).toEqual(
+        expect.objectContaining({
+          source: PermissionSourceType.ROLE,
+          applied: true,
+          role_id: 'role-123',
+          role_name: 'Team Member',
+        })
+      );
+      expect(result.cache).toEqual({
+        key: 'permissions:user_permissions:user-123:company-123',
+        present: false,
+      });
+    });
+
+    it('should show a direct deny overriding the role', async () => {
+      userPermissionModel.findAll.mockResolvedValue([
+        {
+          permission: { name: 'teams:read:own', category: 'TEAM' },
+          granted: false,
+        } as unknown as UserPermission,
+      ]);
+
+      const result = await service.explainPermission('user-123', mockUser, 'teams:read:own');
+      const check = await service.hasPermission({
+        user_id: 'user-123',
+        permission_name: 'teams:read:own',
+        company_id: 'company-123',
+      });
+
+      expect(result.granted).toBe(false);
+      expect(result.decision).toBe(PermissionDecision.DIRECT_DENY);
+      expect(result.steps[1].applied).toBe(false);
+      expect(result.steps[1].detail).toContain('overrides');
+      expect(result.steps[2]).toEqual(
+        expect.objectContaining({ matched: true, applied: true, granted: false })
+      );
+      expect(check.granted).toBe(false);
+    });
+
+    it('should report the super admin bypass', async () => {
+      jest.spyOn(service, 'isSuperAdmin').mockResolvedValue(true);
+
+      const result = await service.explainPermission('user-123', mockUser, 'users:erase');
+
+      expect(result.granted).toBe(true);
+      expect(result.decision).toBe(PermissionDecision.SUPER_ADMIN);
+      expect(result.steps[0].applied).toBe(true);
+    });
+
+    it('should report no cache entry when the store cannot be read', async () => {
+      jest.spyOn(cacheStore, 'peek').mockRejectedValue(new Error('Redis unavailable'));
+
+      const result = await service.explainPermission('user-123', mockUser, 'teams:read:own');
+
+      expect(result.granted).toBe(true);
+      expect(result.cache).toEqual({
+        key: 'permissions:user_permissions:user-123:company-123',
+        present: false,
+      });
+    });
+
+    it('should flag a cached decision that no longer matches the database', async () => {
+      service['config'].cache_enabled = true;
+      service['config'].cache_ttl_seconds = 3600;
+      await service.getEffectivePermissionsForUser('user-123', 'company-123');
+
+      userModel.findByPk.mockResolvedValue({ ...mockUser, role: { ...mockRole } } as any);
+      const result = await service.explainPermission('user-123', mockUser, 'teams:read:own');
+
+      expect(result.decision).toBe(PermissionDecision.NOT_GRANTED);
+      expect(result.cache).toEqual(
+        expect.objectContaining({ present: true, granted: true, stale: true })
+      );
+    });
+  });
+
+  describe('wildcard permissions', () => {
+    const withRolePermissions = (...names: string[]) =>
+      userModel.findByPk.mockResolvedValue({
+        ...mockUser,
+        role: { ...mockRole, permissions: names.map((name) => ({ name, category: 'TEAM' })) },
+      } as any);
+
+    beforeEach(() => {
+      userPermissionModel.findAll.mockResolvedValue([]);
+      jest.spyOn(service, 'isSuperAdmin').mockResolvedValue(false);
+    });
+
+    it('should grant every permission below a wildcard prefix', async () => {
+      withRolePermissions('teams:*', 'users:invite:*');
+
+      const single = await service.hasPermission({
+        user_id: 'user-123',
+        permission_name: 'teams:manage-members:any',
+        company_id: 'company-123',
+      });
+      const bulk = await service.hasPermissions({
+        user_id: 'user-123',
+        permission_names: ['users:invite:vendor', 'users:erase', 'teamsettings:read'],
+        company_id: 'company-123',
+      });
+
+      expect(single.granted).toBe(true);
+      expect(bulk.results.map((result) => result.granted)).toEqual([true, false, false]);
+    });
+
+    it('should let the most specific entry of a source decide', async () => {
+      withRolePermissions('teams:*', 'users:invite:vendor');
+      userPermissionModel.findAll.mockResolvedValue([
+        { permission: { name: 'teams:delete:any', category: 'TEAM' }, granted: false },
+        { permission: { name: 'users:*', category: 'USER' }, granted: false },
+      ] as unknown as UserPermission[]);
+
+      const bulk = await service.hasPermissions({
+        user_id: 'user-123',
+        permission_names: ['teams:delete:any', 'teams:read:any', 'users:invite:vendor'],
+        company_id: 'company-123',
+      });
+      const explanation = await service.explainPermission('user-123', mockUser, 'teams:read:any');
+
+      expect(bulk.results.map((result) => result.granted)).toEqual([false, true, false]);
+      expect(explanation.decision).toBe(PermissionDecision.ROLE);
+      expect(explanation.steps[1].pattern).toBe('teams:*');
+    });
+
+    it('should let a direct wildcard deny override an exact role grant', async () => {
+      withRolePermissions('users:invite:vendor');
+      userPermissionModel.findAll.mockResolvedValue([
+        { permission: { name: 'users:invite:*', category: 'USER' }, granted: false },
+      ] as unknown as UserPermission[]);
+
+      const check = await service.hasPermission({
+        user_id: 'user-123',
+        permission_name: 'users:invite:vendor',
+        company_id: 'company-123',
+      });
+      const explanation = await service.explainPermission(
+        'user-123',
+        mockUser,
+        'users:invite:vendor'
+      );
+
+      expect(check.granted).toBe(false);
+      expect(explanation).toEqual(
+        expect.objectContaining({ granted: false, decision: PermissionDecision.DIRECT_DENY })
+      );
+      expect(explanation.steps[1]).toEqual(
+        expect.objectContaining({ matched: true, applied: false })
+      );
+    });
+
+    it('should let the most specific direct entry decide between direct entries', async () => {
+      withRolePermissions();
+      userPermissionModel.findAll.mockResolvedValue([
+        { permission: { name: 'users:invite:*', category: 'USER' }, granted: false },
+        { permission: { name: 'users:invite:vendor', category: 'USER' }, granted: true },
+      ] as unknown as UserPermission[]);
+
+      const bulk = await service.hasPermissions({
+        user_id: 'user-123',
+        permission_names: ['users:invite:vendor', 'users:invite:client'],
+        company_id: 'company-123',
+      });
+
+      expect(bulk.results.map((result) => result.granted)).toEqual([true, false]);
+    });
+
+    it('should list the defined permissions a wildcard expands to', async () => {
+      withRolePermissions('teams:*', 'users:erase');
+      permissionModel.findAll.mockResolvedValue([
+        { name: 'teams:read:own' },
+        { name: 'teams:delete:any' },
+        { name: 'teams:*' },
+        { name: 'users:erase' },
+      ] as Permission[]);
+
+      const result = await service.getPermissionsForUser('user-123', mockUser);
+
+      expect(result.permissions).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({
+            name: 'teams:*',
+            expands_to: ['teams:read:own', 'teams:delete:any'],
+          }),
+          expect.not.objectContaining({ expands_to: expect.anything() }),
+        ])
+      );
+    });
+  });
+
+  describe('evaluatePolicy', () => {
+    const context = {
+      subject: { id: 'user-123', company_id: 'company-123' },
+      resource: { id: 'team-1', company_id: 'company-123', owner_user_id: 'user-9' },
+      env: { hour: 10 },
+    };
+
+    const withRoleConditions = (conditions: string[] | null) =>
+      userModel.findByPk.mockResolvedValue({
+        ...mockUser,
+        role: {
+          ...mockRole,
+          permissions: [
+            { name: 'teams:update:own', category: 'TEAM', RolePermission: { conditions } },
+          ],
+        },
+      } as any);
+
+    const evaluate = (resource = context.resource) =>
+      service.evaluatePolicy({
+        user_id: 'user-123',
+        permission_name: 'teams:update:own',
+        company_id: 'company-123',
+        context: { ...context, resource },
+      });
+
+    beforeEach(() => {
+      userPermissionModel.findAll.mockResolvedValue([]);
+      jest.spyOn(service, 'isSuperAdmin').mockResolvedValue(false);
+    });
+
+    it('should grant when all conditions of the role permission hold', async () => {
+      withRoleConditions(['resource.company_id == subject.company_id', 'env.hour >= 8']);
+
+      const result = await evaluate();
+
+      expect(result.granted).toBe(true);
+      expect(result.conditions).toHaveLength(2);
+      expect(result.failed_condition).toBeUndefined();
+    });
+
+    it('should report the first condition that does not hold', async () => {
+      withRoleConditions([
+        'resource.company_id == subject.company_id',
+        'resource.owner_user_id == subject.id',
+      ]);
+
+      const result = await evaluate();
+
+      expect(result.granted).toBe(false);
+      expect(result.failed_condition).toBe('resource.owner_user_id == subject.id');
+    });
+
+    it('should fail conditions on attributes the resource does not have', async () => {
+      withRoleConditions(["resource.category == 'LEGAL'"]);
+
+      const result = await evaluate({ id: 'team-1' } as typeof context.resource);
+
+      expect(result.granted).toBe(false);
+    });
+
+    it('should use the conditions of a direct grant overriding the role', async () => {
+      withRoleConditions(['resource.owner_user_id == subject.id']);
+      userPermissionModel.findAll.mockResolvedValue([
+        {
+          permission: { name: 'teams:update:own', category: 'TEAM' },
+          granted: true,
+          conditions: ['resource.company_id == subject.company_id'],
+        },
+      ] as unknown as UserPermission[]);
+
+      const result = await evaluate();
+
+      expect(result.granted).toBe(true);
+      expect(result.source).toBe(PermissionSourceType.DIRECT);
+    });
+
+    it('should deny a conditional grant to plain permission checks', async () => {
+      withRoleConditions(['resource.company_id == subject.company_id']);
+      const check = { user_id: 'user-123', company_id: 'company-123' };
+
+      const single = await service.hasPermission({ ...check, permission_name: 'teams:update:own' });
+      const bulk = await service.hasPermissions({
+        ...check,
+        permission_names: ['teams:update:own'],
+      });
+      const explanation = await service.explainPermission('user-123', mockUser, 'teams:update:own');
+
+      expect(single.granted).toBe(false);
+      expect(bulk.results[0].granted).toBe(false);
+      expect(explanation).toEqual(
+        expect.objectContaining({ granted: false, decision: PermissionDecision.CONDITIONAL })
+      );
+      expect((await evaluate()).granted).toBe(true);
+    });
+  });
+
+  describe('role inheritance', () => {
+    const employeeRole = {
+      id: 'role-employee',
+      name: 'Vendor Employee',
+      parent_role_id: null,
+      permissions: [
+        { name: 'teams:read:own', category: 'TEAM' },
+        { name: 'documents:read', category: 'DOCUMENT' },
+      ],
+    };
+    const managerRole = {
+      id: 'role-manager',
+      name: 'Vendor Manager',
+      parent_role_id: 'role-employee',
+      permissions: [{ name: 'teams:manage:own', category: 'TEAM' }],
+    };
+
+    beforeEach(() => {
+      userPermissionModel.findAll.mockResolvedValue([]);
+      jest.spyOn(service, 'isSuperAdmin').mockResolvedValue(false);
+    });
+
+    it('should add the permissions of the parent roles to those of the role', async () => {
+      userModel.findByPk.mockResolvedValue({
+        ...mockUser,
+        role: {
+          id: 'role-admin',
+          name: 'Vendor Admin',
+          parent_role_id: 'role-manager',
+          permissions: [{ name: 'documents:read', category: 'DOCUMENT' }],
+        },
+      } as any);
+      roleModel.findByPk.mockImplementation(
+        (id) =>
+          Promise.resolve(
+            { 'role-manager': managerRole, 'role-employee': employeeRole }[id as string]
+          ) as any
+      );
+
+      const result = await service.getEffectivePermissionsForUser('user-123', 'company-123');
+
+      expect(result.permissions).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ name: 'documents:read', source_role_id: 'role-admin' }),
+          expect.objectContaining({
+            name: 'teams:manage:own',
+            source_role_id: 'role-manager',
+            inherited: true,
+          }),
+          expect.objectContaining({
+            name: 'teams:read:own',
+            source_role_id: 'role-employee',
+            inherited: true,
+          }),
+        ])
+      );
+      expect(result.permissions).toHaveLength(3);
+      expect(
+        result.permissions.find((p) => p.name === 'documents:read')?.inherited
+      ).toBeUndefined();
+    });
+
+    it('should stop walking the hierarchy at a cycle', async () => {
+      roleModel.findByPk.mockImplementation(
+        (id) =>
+          Promise.resolve(
+            {
+              'role-manager': managerRole,
+              'role-employee': { ...employeeRole, parent_role_id: 'role-manager' },
+            }[id as string]
+          ) as any
+      );
+
+      const lineage = await service.getRoleLineage('role-manager');
+
+      expect(lineage.map((role) => role.id)).toEqual(['role-manager', 'role-employee']);
+      expect(roleModel.findByPk).toHaveBeenCalledTimes(2);
+    });
+
+    it('should invalidate the users of the roles inheriting from an invalidated role', async () => {
+      (roleModel.findAll as jest.Mock)
+        .mockResolvedValueOnce([{ id: 'role-manager' }])
+        .mockResolvedValueOnce([{ id: 'role-admin' }])
+        .mockResolvedValueOnce([]);
+      userModel.findAll.mockResolvedValue([
+        { id: 'user-456', company_id: 'company-123' },
+      ] as unknown as User[]);
+      membershipModel.findAll.mockResolvedValue([]);
+
+      const result = await service.invalidateCache({ role_id: 'role-employee' });
+
+      expect(userModel.findAll).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { role_id: ['role-employee', 'role-manager', 'role-admin'] },
+        })
+      );
+      expect(result.invalidated_keys).toContain(
+        'permissions:user_permissions:user-456:company-123'
+      );
+    });
+  });
+
+  describe('cache invalidation across instances', () => {
+    beforeEach(() => {
+      service['config'].cache_enabled = true;
+      service['config'].cache_ttl_seconds = 3600;
+      service.onModuleInit();
+      userModel.findByPk.mockResolvedValue({ ...mockUser, role: { ...mockRole } } as any);
+      userPermissionModel.findAll.mockResolvedValue([]);
+      jest.spyOn(service, 'isSuperAdmin').mockResolvedValue(false);
+    });
+
+    const receive = (invalidation: PermissionCacheInvalidation) => {
+      const handler = cacheBus.subscribe.mock.calls[0][0] as (
+        invalidation: PermissionCacheInvalidation
+      ) => void;
+      handler(invalidation);
+      return new Promise((resolve) => setImmediate(resolve));
+    };
+
+    it('should publish the invalidated keys to the other instances', async () => {
+      await service.getEffectivePermissionsForUser('user-123', 'company-123');
+      membershipModel.findAll.mockResolvedValue([]);
+      expect(
+        await cacheStore.peek('permissions:user_permissions:user-123:company-123')
+      ).not.toBeNull();
+
+      await service.invalidateCache({ user_id: 'user-123', reason: 'Role changed' });
+
+      expect(cacheBus.publish).toHaveBeenCalledWith(
+        expect.objectContaining({
+          keys: expect.arrayContaining(['permissions:user_permissions:user-123:company-123']),
+        })
+      );
+      expect(await cacheStore.peek('permissions:user_permissions:user-123:company-123')).toBeNull();
+    });
+
+    it('should drop the keys another instance invalidated', async () => {
+      await service.getEffectivePermissionsForUser('user-123', 'company-123');
+      const key = 'permissions:user_permissions:user-123:company-123';
+
+      await receive({ origin: 'other-instance', keys: [key] });
+      expect(await cacheStore.peek(key)).toBeNull();
+
+      await service.getEffectivePermissionsForUser('user-123', 'company-123');
+      await receive({ origin: 'other-instance', keys: '*' });
+      expect(await cacheStore.peek(key)).toBeNull();
+      expect(principalCacheService.clear).toHaveBeenCalled();
+    });
+
+    it('should start without waiting for the cache bus', async () => {
+      cacheBus.subscribe.mockRejectedValue(new Error('connect ECONNREFUSED'));
+      const errorSpy = jest.spyOn(service['logger'], 'error').mockImplementation();
+
+      expect(() => service.onModuleInit()).not.toThrow();
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(errorSpy).toHaveBeenCalledWith(
+        'Failed to subscribe to permission cache invalidations: connect ECONNREFUSED'
+      );
+    });
+
+    it('should relay the cached users dropped on this instance', () => {
+      const listener = principalCacheService.onEviction.mock.calls[0][0] as (eviction: {
+        userIds?: string[];
+      }) => void;
+
+      listener({ userIds: ['user-123'] });
+
+      expect(cacheBus.publish).toHaveBeenCalledWith(
+        expect.objectContaining({ keys: [], principals: { userIds: ['user-123'] } })
+      );
+    });
+
+    it('should drop the cached users another instance dropped', async () => {
+      await service.getEffectivePermissionsForUser('user-123', 'company-123');
+      const key = 'permissions:user_permissions:user-123:company-123';
+
+      await receive({ origin: 'other-instance', keys: [], principals: { userIds: ['user-123'] } });
+
+      expect(principalCacheService.evict).toHaveBeenCalledWith({ userIds: ['user-123'] });
+      expect(principalCacheService.clear).not.toHaveBeenCalled();
+      expect(await cacheStore.peek(key)).not.toBeNull();
+    });
+
+    it('should ignore its own invalidations', async () => {
+      cacheBus.publish.mockClear();
+      await service.getEffectivePermissionsForUser('user-123', 'company-123');
+      await service.invalidateCache({ invalidate_all: true });
+      const published = cacheBus.publish.mock.calls[0][0] as PermissionCacheInvalidation;
+      await service.getEffectivePermissionsForUser('user-123', 'company-123');
+
+      await receive(published);
+
+      expect(
+        await cacheStore.peek('permissions:user_permissions:user-123:company-123')
+      ).not.toBeNull();
+    });
+  });
+
+  describe('service accounts', () => {
+    it('should check only the explicit permissions of a service account', async () => {
+      serviceAccountPermissionModel.findAll.mockResolvedValue([
+        { permission: { name: 'teams:read:own', category: 'teams' } },
+      ] as unknown as ServiceAccountPermission[]);
+      const isSuperAdminSpy = jest.spyOn(service, 'isSuperAdmin');
+
+      const result = await service.hasPermissions({
+        user_id: 'service-account-123',
+        principal_type: PrincipalType.SERVICE_ACCOUNT,
+        permission_names: ['teams:read:own', 'teams:delete:own'],
+        company_id: 'company-123',
+      });
+
+      expect(result.results.map((r) => r.granted)).toEqual([true, false]);
+      expect(serviceAccountPermissionModel.findAll).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { service_account_id: 'service-account-123' } })
+      );
+      expect(userModel.findByPk).not.toHaveBeenCalled();
+      expect(isSuperAdminSpy).not.toHaveBeenCalled();
+    });
   });
 
   describe('isSuperAdmin', () => {
@@ -292,7 +982,7 @@ describe('PermissionsService', () => {
         role: { id: 'role-sa', name: 'Super Admin' },
       } as unknown as User;
 
-      userModel.findByPk.mockResolvedValue(superAdminUser);
+      principalCacheService.findById.mockResolvedValue(superAdminUser);
 
       const result = await service.isSuperAdmin('user-123', 'company-123');
 
@@ -305,7 +995,7 @@ describe('PermissionsService', () => {
         role: { id: 'role-123', name: 'Team Member' },
       } as unknown as User;
 
-      userModel.findByPk.mockResolvedValue(regularUser);
+      principalCacheService.findById.mockResolvedValue(regularUser);
 
       // Mock hasPermission to avoid circular dependency
       jest.spyOn(service, 'hasPermission').mockResolvedValue({
@@ -322,7 +1012,7 @@ describe('PermissionsService', () => {
     });
 
     it('should return false when user not found', async () => {
-      userModel.findByPk.mockResolvedValue(null);
+      principalCacheService.findById.mockResolvedValue(null);
 
       const result = await service.isSuperAdmin('nonexistent', 'company-123');
 
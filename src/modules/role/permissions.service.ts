@@ -1,14 +1,32 @@
 import {
   BadRequestException,
   ForbiddenException,
+  Inject,
   Injectable,
   InternalServerErrorException,
   Logger,
   NotFoundException,
+  OnModuleInit,
 } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { InjectModel } from '@nestjs/sequelize';
+import { randomUUID } from 'crypto';
+import { Op } from 'sequelize';
 import { User, UserRole } from '../auth/entities/user.entity';
+import {
+  CompanyMembership,
+  CompanyMembershipStatus,
+} from '../company-membership/entities/company-membership.entity';
+import { PrincipalCacheService } from '../principal-cache/principal-cache.service';
+import { ServiceAccountPermission } from '../service-account/entities/service-account-permission.entity';
+import {
+  PERMISSION_CACHE_BUS,
+  PERMISSION_CACHE_STORE,
+  PermissionCacheBus,
+  PermissionCacheEntry,
+  PermissionCacheInvalidation,
+  PermissionCacheStore,
+} from './cache/permission-cache.interface';
 import {
   CacheInvalidationResponseDto,
   CacheStatisticsDto,
@@ -19,38 +37,62 @@ import {
 import {
   PermissionSourceType,
   PermissionsServiceConfigDto,
+  PrincipalType,
   ServiceBulkPermissionCheckDto,
   ServiceBulkPermissionCheckResultDto,
   ServiceEffectivePermissionDto,
   ServicePermissionCheckDto,
   ServicePermissionCheckResultDto,
+  ServicePolicyCheckDto,
+  ServicePolicyCheckResultDto,
   UserEffectivePermissionsDto,
 } from './dto/permissions-service.dto';
+import {
+  PermissionDecision,
+  PermissionExplanationCacheDto,
+  PermissionExplanationDto,
+  PermissionExplanationStepDto,
+} from './dto/permission-explanation.dto';
 import { Permission, Role, RolePermission, UserPermission } from './entities';
-
-// Simple cache entry interface
-interface CacheEntry<T> {
-  data: T;
-  expiresAt: number;
-  hitCount: number;
-  createdAt: number;
-}
+import { isWildcardPermission, permissionMatches, permissionSpecificity } from './permission-names';
+import { findFailedPolicyCondition } from './policy-conditions';
+
+const ROLE_LINEAGE_ATTRIBUTES = ['id', 'name', 'code', 'parent_role_id'];
+
+const ROLE_PERMISSIONS_INCLUDE = {
+  model: Permission,
+  as: 'permissions',
+  through: {
+    attributes: ['conditions'],
+    where: {}, // Ensure proper junction table handling
+  },
+  required: false,
+  attributes: ['id', 'name', 'category'], // Only fetch needed fields
+};
 
 /**
  * PermissionsService - Core service for user permission management with caching
  *
  * Handles:
  * - User permission calculation (role-based + direct permissions)
+ * - Role inheritance (a role holds the permissions of its parent roles)
  * - Permission caching with TTL and invalidation
  * - Multi-tenant company-based isolation
  * - Permission precedence (direct permissions override role permissions)
  * - Cache management and statistics
+ *
+ * The cache lives in the store selected by PERMISSIONS_CACHE_STORE (memory or redis).
+ * Invalidations are also published on the cache bus, so that other instances drop their
+ * copies and clear their authenticated user caches. The users PrincipalCacheService drops
+ * after a write are relayed the same way, so that a revocation, suspension or deactivation
+ * applies on every instance at once.
  */
 @Injectable()
-export class PermissionsService {
+export class PermissionsService implements OnModuleInit {
   private readonly logger = new Logger(PermissionsService.name);
   private readonly config: PermissionsServiceConfigDto;
-  private readonly cache = new Map<string, CacheEntry<any>>();
+  /** Identifies this instance's own messages on the cache bus */
+  private readonly instanceId = randomUUID();
 
   constructor(
     @InjectModel(User)
@@ -63,12 +105,23 @@ export class PermissionsService {
     private readonly userPermissionModel: typeof UserPermission,
     @InjectModel(RolePermission)
     private readonly rolePermissionModel: typeof RolePermission,
-    private readonly configService: ConfigService
+    @InjectModel(ServiceAccountPermission)
+    private readonly serviceAccountPermissionModel: typeof ServiceAccountPermission,
+    @InjectModel(CompanyMembership)
+    private readonly membershipModel: typeof CompanyMembership,
+    private readonly configService: ConfigService,
+    private readonly principalCacheService: PrincipalCacheService,
+    @Inject(PERMISSION_CACHE_STORE)
+    private readonly cacheStore: PermissionCacheStore,
+    @Inject(PERMISSION_CACHE_BUS)
+    private readonly cacheBus: PermissionCacheBus
   ) {
     // Initialize service configuration
     this.config = {
       cache_ttl_seconds: this.configService.get<number>('PERMISSIONS_CACHE_TTL', 3600), // 1 hour default
-      max_cache_entries: this.configService.get<number>('PERMISSIONS_MAX_CACHE_ENTRIES', 10000),
+      max_cache_entries: Number(
+        this.configService.get<number>('PERMISSIONS_MAX_CACHE_ENTRIES', 10000)
+      ),
       cache_enabled: this.configService.get<boolean>('PERMISSIONS_CACHE_ENABLED', true),
       background_refresh_interval: this.configService.get<number>(
         'PERMISSIONS_BACKGROUND_REFRESH',
@@ -83,22 +136,50 @@ export class PermissionsService {
     this.logger.log(`PermissionsService initialized with config: ${JSON.stringify(this.config)}`);
   }
 
+  /**
+   * Subscribes in the background, so an unreachable cache bus never blocks startup; until
+   * it connects, this instance only misses the invalidations of the other instances
+   */
+  onModuleInit(): void {
+    this.cacheBus
+      .subscribe((invalidation) => {
+        this.applyRemoteInvalidation(invalidation).catch((error: unknown) =>
+          this.logger.error(
+            `Failed to apply a permission cache invalidation: ${
+              error instanceof Error ? error.message : String(error)
+            }`
+          )
+        );
+      })
+      .catch((error: unknown) =>
+        this.logger.error(
+          `Failed to subscribe to permission cache invalidations: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        )
+      );
+
+    this.principalCacheService.onEviction((eviction) => {
+      this.cacheBus
+        .publish({ origin: this.instanceId, keys: [], principals: eviction })
+        .catch((error: unknown) =>
+          this.logger.error(
+            `Failed to publish a principal cache eviction: ${
+              error instanceof Error ? error.message : String(error)
+            }`
+          )
+        );
+    });
+  }
+
   /**
    * Check if a user is a super admin
    * Super admins can be identified by having the 'Super Admin' role
    */
   async isSuperAdmin(userId: string, companyId?: string): Promise<boolean> {
     try {
-      const user = await this.userModel.findByPk(userId, {
-        attributes: ['id', 'role_id', 'company_id'],
-        include: [
-          {
-            model: Role,
-            attributes: ['id', 'name', 'code'],
-            required: true,
-          },
-        ],
-      });
+      // Usually cached by JwtAuthGuard earlier in the request
+      const user = await this.principalCacheService.findById(userId);
 
       if (!user || !user.role) {
         return false;
@@ -116,6 +197,7 @@ export class PermissionsService {
    * Main method: Get all effective permissions for a user
    * Combines role-based permissions and direct user permissions
    * Super admins receive all possible permissions automatically
+   * When companyId is a company the user is a member of, the role of that membership applies
    */
   async getEffectivePermissionsForUser(
     userId: string,
@@ -131,7 +213,7 @@ export class PermissionsService {
       let cachedResult: UserEffectivePermissionsDto | null = null;
 
       if (this.config.cache_enabled && !forceRefresh) {
-        cachedResult = this.getCachedValue<UserEffectivePermissionsDto>(cacheKey);
+        cachedResult = await this.getCachedValue<UserEffectivePermissionsDto>(cacheKey);
         if (cachedResult) {
           this.logger.debug(`Cache hit for user permissions: ${userId}`);
           return {
@@ -142,11 +224,11 @@ export class PermissionsService {
       }
 
       // Fetch user with company validation
-      const user = await this.validateUserAndCompany(userId, companyId);
+      const { user, membership } = await this.validateUserAndCompany(userId, companyId);
       const effectiveCompanyId = companyId || user.company_id;
 
-      // Check if user is a super admin first
-      const isSuperAdmin = await this.isSuperAdmin(userId, effectiveCompanyId);
+      // Check if user is a super admin first (membership roles never are)
+      const isSuperAdmin = !membership && (await this.isSuperAdmin(userId, effectiveCompanyId));
 
       let effectivePermissions: ServiceEffectivePermissionDto[];
 
@@ -155,30 +237,32 @@ export class PermissionsService {
         this.logger.debug(`User ${userId} is super admin - granting all permissions`);
         effectivePermissions = await this.getAllPermissionsForSuperAdmin();
       } else {
-        // Calculate permissions from database for regular users
+        // Calculate permissions from database for regular users. Direct grants are made in
+        // the home company and do not follow the user into membership companies.
         const [rolePermissions, directPermissions] = await Promise.all([
-          this.getRoleBasedPermissions(userId, effectiveCompanyId),
-          this.getDirectUserPermissions(userId),
+          this.getRoleBasedPermissions(userId, membership?.role_id),
+          membership ? [] : this.getDirectUserPermissions(userId),
         ]);
 
-        // Merge and deduplicate permissions (direct permissions take precedence)
+        // Merge and deduplicate permissions (direct grants and denies take precedence)
         effectivePermissions = this.mergePermissions(rolePermissions, directPermissions);
       }
 
       // Build response DTO
+      const cacheTtlSeconds = this.getCacheTtlSeconds(effectivePermissions);
       const result: UserEffectivePermissionsDto = {
         user_id: userId,
         company_id: effectiveCompanyId,
         permissions: effectivePermissions,
-        permission_names: effectivePermissions.map((p) => p.name),
+        permission_names: effectivePermissions.filter((p) => p.is_active).map((p) => p.name),
         calculated_at: new Date(),
         from_cache: false,
-        cache_ttl_seconds: this.config.cache_ttl_seconds,
+        cache_ttl_seconds: cacheTtlSeconds,
       };
 
       // Cache the result
-      if (this.config.cache_enabled) {
-        this.setCachedValue(cacheKey, result, this.config.cache_ttl_seconds);
+      if (this.config.cache_enabled && cacheTtlSeconds > 0) {
+        await this.setCachedValue(cacheKey, result, cacheTtlSeconds);
         this.logger.debug(`Cached user permissions for ${userId}`);
       }
 
@@ -195,7 +279,79 @@ export class PermissionsService {
   }
 
   /**
-   * Check if user has a specific permission
+   * Get the effective permissions of a service account: the permissions it was granted
+   * explicitly. Service accounts have no role and never receive super admin permissions.
+   */
+  async getEffectivePermissionsForServiceAccount(
+    serviceAccountId: string,
+    companyId: string,
+    forceRefresh: boolean = false
+  ): Promise<UserEffectivePermissionsDto> {
+    try {
+      const cacheKey = this.generateCacheKey('service_account_permissions', serviceAccountId);
+
+      if (this.config.cache_enabled && !forceRefresh) {
+        const cachedResult = await this.getCachedValue<UserEffectivePermissionsDto>(cacheKey);
+        if (cachedResult) {
+          this.logger.debug(`Cache hit for service account permissions: ${serviceAccountId}`);
+          return {
+            ...cachedResult,
+            from_cache: true,
+          };
+        }
+      }
+
+      const grants = await this.serviceAccountPermissionModel.findAll({
+        where: { service_account_id: serviceAccountId },
+        include: [
+          {
+            model: Permission,
+            attributes: ['name', 'category'],
+            required: true,
+          },
+        ],
+        attributes: ['service_account_id', 'permission_id'],
+      });
+
+      const permissions = this.mergePermissions(
+        [],
+        grants.map((grant) => ({
+          name: grant.permission.name,
+          category: grant.permission.category,
+          source: PermissionSourceType.DIRECT,
+          is_active: true,
+        }))
+      );
+
+      const result: UserEffectivePermissionsDto = {
+        user_id: serviceAccountId,
+        company_id: companyId,
+        permissions,
+        permission_names: permissions.map((p) => p.name),
+        calculated_at: new Date(),
+        from_cache: false,
+        cache_ttl_seconds: this.config.cache_ttl_seconds,
+      };
+
+      if (this.config.cache_enabled) {
+        await this.setCachedValue(cacheKey, result, this.config.cache_ttl_seconds);
+      }
+
+      return result;
+    } catch (error) {
+      this.logger.error(
+        `Error getting effective permissions for service account ${serviceAccountId}:`,
+        error
+      );
+      throw new InternalServerErrorException(
+        `Failed to retrieve service account permissions: ${error.message}`
+      );
+    }
+  }
+
+  /**
+   * Check if user has a specific permission. A grant with policy conditions counts as not
+   * granted, since the conditions cannot be evaluated without the resource (see evaluatePolicy).
    */
   async hasPermission(
     checkDto: ServicePermissionCheckDto
@@ -207,15 +363,12 @@ export class PermissionsService {
 
     try {
       // Get user's effective permissions
-      const userPermissions = await this.getEffectivePermissionsForUser(
-        checkDto.user_id,
-        checkDto.company_id,
-        checkDto.force_refresh
-      );
+      const userPermissions = await this.getEffectivePermissionsForPrincipal(checkDto);
 
-      // Find the specific permission
-      const permission = userPermissions.permissions.find(
-        (p) => p.name === checkDto.permission_name && p.is_active
+      // Find the permission or the wildcard covering it
+      const permission = this.findUnconditionalPermission(
+        userPermissions.permissions,
+        checkDto.permission_name
       );
 
       const result: ServicePermissionCheckResultDto = {
@@ -243,6 +396,44 @@ export class PermissionsService {
     }
   }
 
+  /**
+   * Check a permission against the resource it is used on. The deciding permission entry
+   * must be granted and all of its policy conditions must hold for the given subject,
+   * resource and environment. Plain permission checks treat conditional grants as denied.
+   */
+  async evaluatePolicy(checkDto: ServicePolicyCheckDto): Promise<ServicePolicyCheckResultDto> {
+    this.logger.debug(`Evaluating policy ${checkDto.permission_name} for user ${checkDto.user_id}`);
+
+    try {
+      const userPermissions = await this.getEffectivePermissionsForPrincipal(checkDto);
+      const permission = this.findGrantedPermission(
+        userPermissions.permissions,
+        checkDto.permission_name
+      );
+      const failedCondition = permission
+        ? findFailedPolicyCondition(permission.conditions, checkDto.context)
+        : undefined;
+
+      return {
+        granted: !!permission && failedCondition === undefined,
+        permission_name: checkDto.permission_name,
+        user_id: checkDto.user_id,
+        source: permission?.source,
+        source_role_name: permission?.source_role_name,
+        conditions: permission?.conditions,
+        failed_condition: failedCondition,
+        checked_at: new Date(),
+        from_cache: userPermissions.from_cache,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error evaluating policy ${checkDto.permission_name} for user ${checkDto.user_id}:`,
+        error
+      );
+      throw new InternalServerErrorException(`Failed to evaluate policy: ${error.message}`);
+    }
+  }
+
   /**
    * Check multiple permissions at once for better performance
    */
@@ -256,17 +447,14 @@ export class PermissionsService {
 
     try {
       // Get user's effective permissions once
-      const userPermissions = await this.getEffectivePermissionsForUser(
-        checkDto.user_id,
-        checkDto.company_id,
-        checkDto.force_refresh
-      );
+      const userPermissions = await this.getEffectivePermissionsForPrincipal(checkDto);
 
       // Check each permission
       const results: ServicePermissionCheckResultDto[] = checkDto.permission_names.map(
         (permissionName) => {
-          const permission = userPermissions.permissions.find(
-            (p) => p.name === permissionName && p.is_active
+          const permission = this.findUnconditionalPermission(
+            userPermissions.permissions,
+            permissionName
           );
 
           return {
@@ -318,11 +506,13 @@ export class PermissionsService {
       const targetUser = await this.validateAccess(targetUserId, requestingUser);
 
       // If validation passes, get the permissions
-      return await this.getEffectivePermissionsForUser(
+      const effectivePermissions = await this.getEffectivePermissionsForUser(
         targetUserId,
         targetUser.company_id,
         forceRefresh
       );
+
+      return await this.expandWildcards(effectivePermissions);
     } catch (error) {
       this.logger.error(`Error getting permissions for user ${targetUserId}:`, error);
 
@@ -412,6 +602,144 @@ export class PermissionsService {
     }
   }
 
+  /**
+   * Explains why a user has (or lacks) a permission: the super admin bypass, the role
+   * permission, a direct grant or deny overriding it, and the cache entry the guards would
+   * read. The decision is recalculated from the database; the cached one is reported next
+   * to it, so a stale cache entry shows up as such.
+   */
+  async explainPermission(
+    targetUserId: string,
+    requestingUser: User,
+    permissionName: string,
+    companyId?: string
+  ): Promise<PermissionExplanationDto> {
+    try {
+      const targetUser = await this.validateAccess(targetUserId, requestingUser);
+      const effectiveCompanyId = companyId || targetUser.company_id;
+
+      const { membership } = await this.validateUserAndCompany(targetUserId, effectiveCompanyId);
+      const isSuperAdmin =
+        !membership && (await this.isSuperAdmin(targetUserId, effectiveCompanyId));
+
+      const [rolePermissions, directPermissions] = await Promise.all([
+        this.getRoleBasedPermissions(targetUserId, membership?.role_id),
+        membership ? [] : this.getDirectUserPermissions(targetUserId),
+      ]);
+      const roleEntry = this.findGoverningPermission(rolePermissions, permissionName);
+      const directEntry = this.findGoverningPermission(directPermissions, permissionName);
+      const merged = this.findGoverningPermission(
+        this.mergePermissions(rolePermissions, directPermissions),
+        permissionName
+      );
+
+      let decision: PermissionDecision;
+      if (isSuperAdmin) {
+        decision = PermissionDecision.SUPER_ADMIN;
+      } else if (merged?.is_active && this.hasConditions(merged)) {
+        decision = PermissionDecision.CONDITIONAL;
+      } else if (merged?.source === PermissionSourceType.DIRECT) {
+        decision = merged.is_active
+          ? PermissionDecision.DIRECT_GRANT
+          : PermissionDecision.DIRECT_DENY;
+      } else if (merged?.is_active) {
+        decision = PermissionDecision.ROLE;
+      } else {
+        decision = PermissionDecision.NOT_GRANTED;
+      }
+      const granted =
+        decision === PermissionDecision.SUPER_ADMIN ||
+        decision === PermissionDecision.DIRECT_GRANT ||
+        decision === PermissionDecision.ROLE;
+      const directApplied =
+        decision === PermissionDecision.DIRECT_GRANT ||
+        decision === PermissionDecision.DIRECT_DENY ||
+        (decision === PermissionDecision.CONDITIONAL &&
+          merged?.source === PermissionSourceType.DIRECT);
+
+      const steps: PermissionExplanationStepDto[] = [
+        {
+          source: PermissionSourceType.SYSTEM,
+          matched: isSuperAdmin,
+          applied: isSuperAdmin,
+          detail: isSuperAdmin
+            ? 'User is a super admin and holds every permission'
+            : membership
+              ? 'Super admin bypass does not apply to company memberships'
+              : 'User is not a super admin',
+        },
+        {
+          source: PermissionSourceType.ROLE,
+          matched: !!roleEntry,
+          applied:
+            decision === PermissionDecision.ROLE ||
+            (decision === PermissionDecision.CONDITIONAL && !directApplied),
+          granted: roleEntry ? true : undefined,
+          role_id: roleEntry?.source_role_id,
+          role_name: roleEntry?.source_role_name,
+          pattern: roleEntry?.name,
+          conditions: roleEntry?.conditions,
+          detail: roleEntry
+            ? `${roleEntry.inherited ? 'Parent role' : 'Role'} ${roleEntry.source_role_name} ` +
+              `includes ${roleEntry.name}` +
+              (directApplied ? ', but a direct permission overrides it' : '')
+            : `No ${membership ? 'membership ' : ''}role of the user includes ${permissionName}`,
+        },
+        {
+          source: PermissionSourceType.DIRECT,
+          matched: !!directEntry,
+          applied: directApplied,
+          granted: directEntry?.is_active,
+          expires_at: directEntry?.expires_at,
+          pattern: directEntry?.name,
+          conditions: directEntry?.conditions,
+          detail: directEntry
+            ? `Direct ${directEntry.is_active ? 'grant' : 'deny'} of ${directEntry.name}` +
+              (directEntry.expires_at
+                ? ` until ${new Date(directEntry.expires_at).toISOString()}`
+                : '')
+            : membership
+              ? 'Direct permissions do not apply to company memberships'
+              : `No unexpired direct grant or deny of ${permissionName}`,
+        },
+      ];
+
+      return {
+        user_id: targetUserId,
+        company_id: effectiveCompanyId,
+        permission_name: permissionName,
+        granted,
+        decision,
+        super_admin: isSuperAdmin,
+        membership_role_id: membership?.role_id,
+        steps,
+        cache: await this.explainCacheEntry(
+          targetUserId,
+          effectiveCompanyId,
+          permissionName,
+          granted
+        ),
+        explained_at: new Date(),
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error explaining permission ${permissionName} for user ${targetUserId}:`,
+        error
+      );
+
+      // Re-throw known exceptions as-is
+      if (
+        error instanceof NotFoundException ||
+        error instanceof ForbiddenException ||
+        error instanceof BadRequestException
+      ) {
+        throw error;
+      }
+
+      throw new InternalServerErrorException(`Failed to explain user permission: ${error.message}`);
+    }
+  }
+
   /**
    * Invalidate permission cache for users
    */
@@ -424,8 +752,9 @@ export class PermissionsService {
 
       if (invalidateDto.invalidate_all) {
         // Clear all permission caches - this is expensive but thorough
-        const totalKeys = this.cache.size;
-        this.cache.clear();
+        const totalKeys = await this.cacheStore.clear();
+        this.principalCacheService.clear();
+        await this.publishInvalidation('*', invalidateDto.reason);
         return {
           invalidated_count: totalKeys,
           invalidated_keys: ['*'],
@@ -440,6 +769,31 @@ export class PermissionsService {
           this.generateCacheKey('user_permissions', invalidateDto.user_id),
           this.generateCacheKey('user_permissions', invalidateDto.user_id, invalidateDto.company_id)
         );
+
+        // Permissions are cached per company: the home company and every membership
+        const user = await this.userModel.findByPk(invalidateDto.user_id, {
+          attributes: ['id', 'company_id'],
+        });
+        const memberships = await this.membershipModel.findAll({
+          where: { user_id: invalidateDto.user_id },
+          attributes: ['company_id'],
+        });
+        for (const companyId of [
+          user?.company_id,
+          ...(memberships ?? []).map((m) => m.company_id),
+        ]) {
+          if (companyId) {
+            keysToInvalidate.push(
+              this.generateCacheKey('user_permissions', invalidateDto.user_id, companyId)
+            );
+          }
+        }
+      }
+
+      if (invalidateDto.service_account_id) {
+        keysToInvalidate.push(
+          this.generateCacheKey('service_account_permissions', invalidateDto.service_account_id)
+        );
       }
 
       if (invalidateDto.company_id) {
@@ -457,12 +811,27 @@ export class PermissionsService {
             this.generateCacheKey('user_permissions', user.id, invalidateDto.company_id)
           );
         }
+
+        // Members from other companies cache their permissions under this company too
+        const memberships = await this.membershipModel.findAll({
+          where: { company_id: invalidateDto.company_id },
+          attributes: ['user_id'],
+        });
+        for (const membership of memberships ?? []) {
+          keysToInvalidate.push(
+            this.generateCacheKey('user_permissions', membership.user_id, invalidateDto.company_id)
+          );
+        }
       }
 
       if (invalidateDto.role_id) {
-        // Find all users with this role and invalidate their caches
+        // Find all users with this role or a role inheriting from it and invalidate their caches
+        const roleIds = [
+          invalidateDto.role_id,
+          ...(await this.getDescendantRoleIds(invalidateDto.role_id)),
+        ];
         const roleUsers = await this.userModel.findAll({
-          where: { role_id: invalidateDto.role_id },
+          where: { role_id: roleIds },
           attributes: ['id', 'company_id'],
         });
 
@@ -474,13 +843,24 @@ export class PermissionsService {
             this.generateCacheKey('user_permissions', user.id, user.company_id)
           );
         }
+
+        const memberships = await this.membershipModel.findAll({
+          where: { role_id: roleIds },
+          attributes: ['user_id', 'company_id'],
+        });
+        for (const membership of memberships ?? []) {
+          keysToInvalidate.push(
+            this.generateCacheKey('user_permissions', membership.user_id, membership.company_id)
+          );
+        }
       }
 
       // Remove duplicates
       const uniqueKeys = [...new Set(keysToInvalidate)];
 
-      // Invalidate each key
-      uniqueKeys.forEach((key) => this.cache.delete(key));
+      // Invalidate each key, here and on the other instances
+      await this.cacheStore.delete(uniqueKeys);
+      await this.publishInvalidation(uniqueKeys, invalidateDto.reason);
 
       const duration = Date.now() - startTime;
       this.logger.log(
@@ -587,31 +967,21 @@ export class PermissionsService {
    */
   async getCacheStatistics(): Promise<CacheStatisticsDto> {
     try {
-      // Clean expired entries first
-      this.cleanupExpiredCache();
-
-      let totalHits = 0;
-      let activeEntries = 0;
-      const now = Date.now();
-
-      for (const [key, entry] of this.cache.entries()) {
-        totalHits += entry.hitCount;
-        if (now <= entry.expiresAt) {
-          activeEntries++;
-        }
-      }
-
-      const totalEntries = this.cache.size;
+      const stats = await this.cacheStore.getStatistics();
+      const lookups = stats.hits + stats.misses;
 
       return {
-        total_entries: totalEntries,
-        active_entries: activeEntries,
-        expired_entries: 0, // Cleaned up above
-        total_hits: totalHits,
-        total_misses: 0, // Would need separate tracking
-        hit_ratio: totalHits > 0 ? totalHits / (totalHits + 1) : 0, // Approximation
-        memory_usage_bytes: this.estimateCacheMemoryUsage(),
-        average_entry_size: totalEntries > 0 ? this.estimateCacheMemoryUsage() / totalEntries : 0,
+        store: stats.store,
+        total_entries: stats.entries,
+        active_entries: stats.entries,
+        expired_entries: 0, // Expired entries are dropped by the store
+        total_hits: stats.hits,
+        total_misses: stats.misses,
+        hit_ratio: lookups > 0 ? stats.hits / lookups : 0,
+        evictions: stats.evictions,
+        memory_usage_bytes: stats.memoryUsageBytes,
+        average_entry_size: stats.entries > 0 ? stats.memoryUsageBytes / stats.entries : 0,
+        principal_cache: this.principalCacheService.getStatistics(),
         calculated_at: new Date(),
       };
     } catch (error) {
@@ -622,6 +992,40 @@ export class PermissionsService {
 
   // Private helper methods
 
+  /**
+   * The role with its permissions, followed by its parent, the parent's parent and so on.
+   * A cycle in the stored hierarchy (prevented when parents are set) ends the walk.
+   */
+  async getRoleLineage(roleId: string): Promise<Role[]> {
+    const role = await this.roleModel.findByPk(roleId, {
+      attributes: ROLE_LINEAGE_ATTRIBUTES,
+      include: [ROLE_PERMISSIONS_INCLUDE],
+    });
+
+    return role ? [role, ...(await this.getAncestorRoles(role))] : [];
+  }
+
+  /**
+   * IDs of the roles inheriting from the role, directly or through other roles
+   */
+  async getDescendantRoleIds(roleId: string): Promise<string[]> {
+    const descendants = new Set<string>();
+    let parentIds = [roleId];
+
+    while (parentIds.length > 0) {
+      const children = await this.roleModel.findAll({
+        where: { parent_role_id: parentIds },
+        attributes: ['id'],
+      });
+      parentIds = (children ?? [])
+        .map((child) => child.id)
+        .filter((id) => id !== roleId && !descendants.has(id));
+      parentIds.forEach((id) => descendants.add(id));
+    }
+
+    return [...descendants];
+  }
+
   /**
    * Get all permissions for super admin users
    */
@@ -644,6 +1048,34 @@ export class PermissionsService {
     }
   }
 
+  /**
+   * Lists the defined permissions each wildcard entry covers. Returns copies so that the
+   * cached entries stay unexpanded.
+   */
+  private async expandWildcards(
+    effectivePermissions: UserEffectivePermissionsDto
+  ): Promise<UserEffectivePermissionsDto> {
+    if (!effectivePermissions.permissions.some((p) => isWildcardPermission(p.name))) {
+      return effectivePermissions;
+    }
+
+    const definedNames = (await this.permissionModel.findAll({ attributes: ['name'] }))
+      .map((permission) => permission.name)
+      .filter((name) => !isWildcardPermission(name));
+
+    return {
+      ...effectivePermissions,
+      permissions: effectivePermissions.permissions.map((permission) =>
+        isWildcardPermission(permission.name)
+          ? {
+              ...permission,
+              expands_to: definedNames.filter((name) => permissionMatches(permission.name, name)),
+            }
+          : permission
+      ),
+    };
+  }
+
   /**
    * Sanitize error messages to prevent information disclosure
    */
@@ -732,7 +1164,14 @@ export class PermissionsService {
     }
   }
 
-  private async validateUserAndCompany(userId: string, companyId?: string): Promise<User> {
+  /**
+   * Loads the user and, when companyId is not their home company, their active
+   * membership there. Users with neither are rejected.
+   */
+  private async validateUserAndCompany(
+    userId: string,
+    companyId?: string
+  ): Promise<{ user: User; membership: CompanyMembership | null }> {
     try {
       const user = await this.userModel.findByPk(userId, {
         attributes: ['id', 'company_id', 'email'],
@@ -746,7 +1185,16 @@ export class PermissionsService {
         });
       }
 
-      if (companyId && user.company_id !== companyId) {
+      if (!companyId || user.company_id === companyId) {
+        return { user, membership: null };
+      }
+
+      const membership = await this.membershipModel.findOne({
+        where: { user_id: userId, company_id: companyId, status: CompanyMembershipStatus.ACTIVE },
+        attributes: ['id', 'user_id', 'company_id', 'role_id'],
+      });
+
+      if (!membership) {
         throw new BadRequestException({
           success: false,
           code: 'USER_COMPANY_MISMATCH',
@@ -754,7 +1202,7 @@ export class PermissionsService {
         });
       }
 
-      return user;
+      return { user, membership };
     } catch (error) {
       // Re-throw known exceptions as-is
       if (error instanceof NotFoundException || error instanceof BadRequestException) {
@@ -768,59 +1216,97 @@ export class PermissionsService {
     }
   }
 
+  /**
+   * Permissions of the user's role, or of the membership role when acting in another company,
+   * including those inherited from its parent roles. The nearest role granting a permission
+   * is its source, so a role can narrow an inherited permission with its own conditions.
+   */
   private async getRoleBasedPermissions(
     userId: string,
-    companyId: string
+    membershipRoleId?: string
   ): Promise<ServiceEffectivePermissionDto[]> {
-    // Get the user with their role and role permissions
-    const user = await this.userModel.findByPk(userId, {
-      attributes: ['id', 'role_id'],
-      include: [
-        {
-          model: Role,
-          attributes: ['id', 'name', 'code'],
-          include: [
-            {
-              model: Permission,
-              as: 'permissions',
-              through: {
-                attributes: [],
-                where: {}, // Ensure proper junction table handling
-              },
-              required: false,
-              attributes: ['id', 'name', 'category'], // Only fetch needed fields
-            },
-          ],
-        },
-      ],
-    });
+    let role: Role | null | undefined;
+    if (membershipRoleId) {
+      role = await this.roleModel.findByPk(membershipRoleId, {
+        attributes: ROLE_LINEAGE_ATTRIBUTES,
+        include: [ROLE_PERMISSIONS_INCLUDE],
+      });
+    } else {
+      // Get the user with their role and role permissions
+      const user = await this.userModel.findByPk(userId, {
+        attributes: ['id', 'role_id'],
+        include: [
+          {
+            model: Role,
+            attributes: ROLE_LINEAGE_ATTRIBUTES,
+            include: [ROLE_PERMISSIONS_INCLUDE],
+          },
+        ],
+      });
+      role = user?.role;
+    }
+
+    if (!role) {
+      return [];
+    }
 
     const rolePermissions: ServiceEffectivePermissionDto[] = [];
+    const seen = new Set<string>();
+    const lineage = [role, ...(await this.getAncestorRoles(role))];
 
-    if (user?.role?.permissions) {
+    lineage.forEach((lineageRole, depth) => {
       // All roles are now system roles, so include all role permissions
-      if (true) {
-        for (const permission of user.role.permissions) {
-          rolePermissions.push({
-            name: permission.name,
-            category: permission.category,
-            source: PermissionSourceType.ROLE,
-            source_role_id: user.role.id,
-            source_role_name: user.role.name,
-            is_active: true,
-          });
+      for (const permission of lineageRole.permissions ?? []) {
+        if (seen.has(permission.name)) {
+          continue;
         }
+        seen.add(permission.name);
+
+        const through = (permission as Permission & { RolePermission?: RolePermission })
+          .RolePermission;
+        rolePermissions.push({
+          name: permission.name,
+          category: permission.category,
+          source: PermissionSourceType.ROLE,
+          source_role_id: lineageRole.id,
+          source_role_name: lineageRole.name,
+          ...(depth > 0 ? { inherited: true } : {}),
+          conditions: through?.conditions ?? undefined,
+          is_active: true,
+        });
       }
-    }
+    });
 
     return rolePermissions;
   }
 
+  private async getAncestorRoles(role: Role): Promise<Role[]> {
+    const ancestors: Role[] = [];
+    const visited = new Set([role.id]);
+    let parentId = role.parent_role_id;
+
+    while (parentId && !visited.has(parentId)) {
+      visited.add(parentId);
+      const parent = await this.roleModel.findByPk(parentId, {
+        attributes: ROLE_LINEAGE_ATTRIBUTES,
+        include: [ROLE_PERMISSIONS_INCLUDE],
+      });
+      if (!parent) {
+        break;
+      }
+      ancestors.push(parent);
+      parentId = parent.parent_role_id;
+    }
+
+    return ancestors;
+  }
+
   private async getDirectUserPermissions(userId: string): Promise<ServiceEffectivePermissionDto[]> {
     const userPermissions = await this.userPermissionModel.findAll({
       where: {
         user_id: userId,
-        granted: true,
+        revoked_at: null,
+        [Op.or]: [{ expires_at: null }, { expires_at: { [Op.gt]: new Date() } }],
       },
       include: [
         {
@@ -829,20 +1315,74 @@ export class PermissionsService {
           required: true, // Inner join for better performance
         },
       ],
-      attributes: ['user_id', 'permission_id', 'granted_at'], // Limit fields
+      attributes: ['user_id', 'permission_id', 'granted', 'granted_at', 'expires_at', 'conditions'], // Limit fields
     });
 
+    // Explicit denies (granted = false) stay in the list as inactive entries
     return userPermissions.map((up) => ({
       name: up.permission.name,
       category: up.permission.category,
       source: PermissionSourceType.DIRECT,
-      expires_at: up.granted_at
-        ? new Date(up.granted_at.getTime() + 365 * 24 * 60 * 60 * 1000)
-        : undefined, // 1 year default
-      is_active: true,
+      expires_at: up.expires_at ?? undefined,
+      conditions: up.conditions ?? undefined,
+      is_active: up.granted !== false,
     }));
   }
 
+  /**
+   * The entry that decides a request. Direct grants and denies override role permissions,
+   * so a direct entry covering the request decides whatever the role grants; within a
+   * source the most specific name or wildcard wins (an exact deny beats a wildcard grant
+   * and vice versa).
+   */
+  private findGoverningPermission(
+    permissions: ServiceEffectivePermissionDto[],
+    permissionName: string
+  ): ServiceEffectivePermissionDto | undefined {
+    let governing: ServiceEffectivePermissionDto | undefined;
+    for (const permission of permissions) {
+      if (!permissionMatches(permission.name, permissionName)) {
+        continue;
+      }
+
+      const isDirect = permission.source === PermissionSourceType.DIRECT;
+      const governingIsDirect = governing?.source === PermissionSourceType.DIRECT;
+      if (
+        !governing ||
+        (isDirect && !governingIsDirect) ||
+        (isDirect === governingIsDirect &&
+          permissionSpecificity(permission.name) > permissionSpecificity(governing.name))
+      ) {
+        governing = permission;
+      }
+    }
+    return governing;
+  }
+
+  private findGrantedPermission(
+    permissions: ServiceEffectivePermissionDto[],
+    permissionName: string
+  ): ServiceEffectivePermissionDto | undefined {
+    const governing = this.findGoverningPermission(permissions, permissionName);
+    return governing?.is_active ? governing : undefined;
+  }
+
+  /**
+   * The granted entry for a plain check. Policy conditions need the resource acted on, so
+   * a conditional grant fails closed here and only counts in evaluatePolicy.
+   */
+  private findUnconditionalPermission(
+    permissions: ServiceEffectivePermissionDto[],
+    permissionName: string
+  ): ServiceEffectivePermissionDto | undefined {
+    const permission = this.findGrantedPermission(permissions, permissionName);
+    return permission && !this.hasConditions(permission) ? permission : undefined;
+  }
+
+  private hasConditions(permission: ServiceEffectivePermissionDto): boolean {
+    return (permission.conditions?.length ?? 0) > 0;
+  }
+
   private mergePermissions(
     rolePermissions: ServiceEffectivePermissionDto[],
     directPermissions: ServiceEffectivePermissionDto[]
@@ -864,6 +1404,45 @@ export class PermissionsService {
     );
   }
 
+  private getEffectivePermissionsForPrincipal(
+    checkDto: ServicePermissionCheckDto | ServiceBulkPermissionCheckDto
+  ): Promise<UserEffectivePermissionsDto> {
+    if (checkDto.principal_type === PrincipalType.SERVICE_ACCOUNT) {
+      if (!checkDto.company_id) {
+        throw new BadRequestException('company_id is required for service account checks');
+      }
+
+      return this.getEffectivePermissionsForServiceAccount(
+        checkDto.user_id,
+        checkDto.company_id,
+        checkDto.force_refresh
+      );
+    }
+
+    return this.getEffectivePermissionsForUser(
+      checkDto.user_id,
+      checkDto.company_id,
+      checkDto.force_refresh
+    );
+  }
+
+  /**
+   * Cache TTL for a permission set: no longer than until its first grant expires, so an
+   * expired grant is never served from the cache
+   */
+  private getCacheTtlSeconds(permissions: ServiceEffectivePermissionDto[]): number {
+    const expiries = permissions.flatMap((p) =>
+      p.expires_at ? [new Date(p.expires_at).getTime()] : []
+    );
+
+    if (expiries.length === 0) {
+      return this.config.cache_ttl_seconds;
+    }
+
+    const secondsUntilExpiry = Math.floor((Math.min(...expiries) - Date.now()) / 1000);
+    return Math.max(0, Math.min(this.config.cache_ttl_seconds, secondsUntilExpiry));
+  }
+
   private generateCacheKey(type: string, userId: string, companyId?: string): string {
     const base = `permissions:${type}:${userId}`;
     return companyId ? `${base}:${companyId}` : base;
@@ -878,64 +1457,104 @@ export class PermissionsService {
 
   // Cache management helper methods
 
-  private getCachedValue<T>(key: string): T | null {
-    const entry = this.cache.get(key);
-    if (!entry) {
+  /**
+   * The cache only saves work: a failing store (e.g. Redis unavailable) counts as a miss
+   */
+  private async getCachedValue<T>(key: string): Promise<T | null> {
+    try {
+      return await this.cacheStore.get<T>(key);
+    } catch (error) {
+      this.logger.warn(
+        `Permission cache read failed for ${key}: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
       return null;
     }
+  }
 
-    // Check if expired
-    if (Date.now() > entry.expiresAt) {
-      this.cache.delete(key);
-      return null;
+  /**
+   * Describes the cache entry getEffectivePermissionsForUser would return, without
+   * counting it as a hit. An unreachable store is reported as no entry.
+   */
+  private async explainCacheEntry(
+    userId: string,
+    companyId: string,
+    permissionName: string,
+    granted: boolean
+  ): Promise<PermissionExplanationCacheDto> {
+    const key = this.generateCacheKey('user_permissions', userId, companyId);
+    let entry: PermissionCacheEntry<UserEffectivePermissionsDto> | null;
+
+    try {
+      entry = await this.cacheStore.peek<UserEffectivePermissionsDto>(key);
+    } catch (error) {
+      this.logger.warn(
+        `Permission cache read failed for ${key}: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+      entry = null;
     }
 
-    // Update access stats
-    entry.hitCount++;
-    return entry.data as T;
+    if (!entry) {
+      return { key, present: false };
+    }
+
+    const cachedGranted = !!this.findUnconditionalPermission(
+      entry.data.permissions,
+      permissionName
+    );
+    return {
+      key,
+      present: true,
+      calculated_at: entry.data.calculated_at,
+      expires_at: new Date(entry.expiresAt),
+      granted: cachedGranted,
+      stale: cachedGranted !== granted,
+    };
   }
 
-  private setCachedValue<T>(key: string, value: T, ttlSeconds: number): void {
-    // Implement basic cache size limit
-    if (this.cache.size >= this.config.max_cache_entries) {
-      // Remove oldest entries (simple LRU approximation)
-      const keysToRemove = Array.from(this.cache.keys()).slice(
-        0,
-        Math.floor(this.config.max_cache_entries * 0.1)
+  private async setCachedValue<T>(key: string, value: T, ttlSeconds: number): Promise<void> {
+    try {
+      await this.cacheStore.set(key, value, ttlSeconds);
+    } catch (error) {
+      this.logger.warn(
+        `Permission cache write failed for ${key}: ${
+          error instanceof Error ? error.message : String(error)
+        }`
       );
-      keysToRemove.forEach((k) => this.cache.delete(k));
     }
+  }
 
-    const entry: CacheEntry<T> = {
-      data: value,
-      expiresAt: Date.now() + ttlSeconds * 1000,
-      hitCount: 0,
-      createdAt: Date.now(),
-    };
-
-    this.cache.set(key, entry);
+  private async publishInvalidation(keys: string[] | '*', reason?: string): Promise<void> {
+    await this.cacheBus.publish({ origin: this.instanceId, keys, reason });
   }
 
-  private cleanupExpiredCache(): void {
-    const now = Date.now();
-    for (const [key, entry] of this.cache.entries()) {
-      if (now > entry.expiresAt) {
-        this.cache.delete(key);
-      }
+  /**
+   * Drops what another instance invalidated. With a shared store the keys are gone already,
+   * but the authenticated user cache is always per instance.
+   */
+  private async applyRemoteInvalidation(invalidation: PermissionCacheInvalidation): Promise<void> {
+    if (invalidation.origin === this.instanceId) {
+      return;
     }
-  }
 
-  private estimateCacheMemoryUsage(): number {
-    // Rough estimation of memory usage
-    let totalSize = 0;
-    for (const [key, entry] of this.cache.entries()) {
-      // Estimate key size (string)
-      totalSize += key.length * 2; // UTF-16 characters
+    if (invalidation.keys === '*') {
+      await this.cacheStore.clear();
+      this.principalCacheService.clear();
+    } else if (invalidation.keys.length > 0) {
+      await this.cacheStore.delete(invalidation.keys);
+    }
 
-      // Estimate entry overhead and data size
-      totalSize += 64; // Rough estimate of entry object overhead
-      totalSize += JSON.stringify(entry.data).length * 2; // Data size estimation
+    if (invalidation.principals) {
+      this.principalCacheService.evict(invalidation.principals);
     }
-    return totalSize;
+
+    this.logger.debug(
+      `Applied permission cache invalidation from ${invalidation.origin}: ${
+        invalidation.keys === '*' ? 'all keys' : invalidation.keys.join(', ')
+      }${invalidation.principals ? `; cached users ${JSON.stringify(invalidation.principals)}` : ''}`
+    );
   }
 }
@@ -0,0 +1,154 @@
+import { ValidateBy } from 'class-validator';
+
+/**
+ * Attributes a policy condition can refer to: the acting user (subject), the resource the
+ * route works on and the request environment
+ */
+export interface PolicyContext {
+  subject: Record<string, unknown>;
+  resource: Record<string, unknown>;
+  env: Record<string, unknown>;
+}
+
+export type PolicyOperator = '==' | '!=' | '<' | '<=' | '>' | '>=';
+
+type PolicyOperand = { path: string[] } | { value: string | number | boolean | null };
+
+interface ParsedPolicyCondition {
+  left: PolicyOperand;
+  operator: PolicyOperator;
+  right: PolicyOperand;
+}
+
+// subject.company_id, resource.owner_user_id, env.hour, ...
+const ATTRIBUTE = String.raw`(?:subject|resource|env)(?:\.[A-Za-z_][A-Za-z0-9_]*)+`;
+const LITERAL = String.raw`'[^']*'|"[^"]*"|-?\d+(?:\.\d+)?|true|false|null`;
+const OPERAND = `${ATTRIBUTE}|${LITERAL}`;
+
+/**
+ * A condition compares two operands, e.g. resource.company_id == subject.company_id or
+ * resource.category == 'LEGAL'. Operands are attribute paths or string, number, boolean
+ * and null literals.
+ */
+const CONDITION_PATTERN = new RegExp(`^\\s*(${OPERAND})\\s*(==|!=|<=|>=|<|>)\\s*(${OPERAND})\\s*$`);
+
+function parseOperand(token: string): PolicyOperand {
+  if (/^['"]/.test(token)) {
+    return { value: token.slice(1, -1) };
+  }
+  if (token === 'true' || token === 'false') {
+    return { value: token === 'true' };
+  }
+  if (token === 'null') {
+    return { value: null };
+  }
+  if (/^-?\d/.test(token)) {
+    return { value: Number(token) };
+  }
+  return { path: token.split('.') };
+}
+
+function parsePolicyCondition(condition: string): ParsedPolicyCondition | null {
+  const match = CONDITION_PATTERN.exec(condition);
+  if (!match) {
+    return null;
+  }
+
+  return {
+    left: parseOperand(match[1]),
+    operator: match[2] as PolicyOperator,
+    right: parseOperand(match[3]),
+  };
+}
+
+export function isValidPolicyCondition(condition: string): boolean {
+  return parsePolicyCondition(condition) !== null;
+}
+
+function resolveOperand(operand: PolicyOperand, context: PolicyContext): unknown {
+  if ('value' in operand) {
+    return operand.value;
+  }
+
+  const [root, ...path] = operand.path;
+  let value: unknown = context[root as keyof PolicyContext];
+  for (const key of path) {
+    if (value === null || typeof value !== 'object') {
+      return undefined;
+    }
+    value = (value as Record<string, unknown>)[key];
+  }
+
+  return value instanceof Date ? value.toISOString() : value;
+}
+
+/**
+ * Evaluates one condition. Malformed conditions and attributes missing from the context
+ * fail, so a condition never grants access by accident.
+ */
+export function evaluatePolicyCondition(condition: string, context: PolicyContext): boolean {
+  const parsed = parsePolicyCondition(condition);
+  if (!parsed) {
+    return false;
+  }
+
+  const left = resolveOperand(parsed.left, context);
+  const right = resolveOperand(parsed.right, context);
+  if (left === undefined || right === undefined) {
+    return false;
+  }
+
+  if (parsed.operator === '==') {
+    return left === right;
+  }
+  if (parsed.operator === '!=') {
+    return left !== right;
+  }
+
+  // Ordering only compares two numbers or two strings (ISO dates order as strings)
+  const comparable =
+    (typeof left === 'number' && typeof right === 'number') ||
+    (typeof left === 'string' && typeof right === 'string');
+  if (!comparable) {
+    return false;
+  }
+
+  const [a, b] = [left as number | string, right as number | string];
+  const order = a < b ? -1 : a > b ? 1 : 0;
+  switch (parsed.operator) {
+    case '<':
+      return order < 0;
+    case '<=':
+      return order <= 0;
+    case '>':
+      return order > 0;
+    default:
+      return order >= 0;
+  }
+}
+
+/**
+ * First condition of the list that does not hold (all conditions must hold)
+ */
+export function findFailedPolicyCondition(
+  conditions: string[] | null | undefined,
+  context: PolicyContext
+): string | undefined {
+  return (conditions ?? []).find((condition) => !evaluatePolicyCondition(condition, context));
+}
+
+/**
+ * Validates policy conditions in DTOs
+ */
+export const IsPolicyCondition = () =>
+  ValidateBy(
+    {
+      name: 'isPolicyCondition',
+      validator: {
+        validate: (value: unknown) => typeof value === 'string' && isValidPolicyCondition(value),
+        defaultMessage: () =>
+          "Policy conditions compare two operands, e.g. resource.company_id == subject.company_id or resource.category == 'LEGAL'",
+      },
+    },
+    { each: true }
+  );
@@ -5,6 +5,7 @@ import {
   Param,
   UseGuards,
   Req,
+  HttpException,
   InternalServerErrorException,
 } from '@nestjs/common';
 import { ApiBearerAuth, ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
@@ -12,6 +13,8 @@ import { RoleService } from './role.service';
 import { UpdateRoleDto } from './dto';
 import { JwtAuthGuard } from '../../core/guards/jwt-auth.guard';
 import { CompanyAdminGuard } from '../../core/guards/company-admin.guard';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { User } from '../auth/entities/user.entity';
 
 @ApiTags('role')
 @Controller('role')
@@ -25,16 +28,23 @@ export class RoleController {
   @ApiOperation({ summary: 'Update user role' })
   @ApiResponse({ status: 200, description: 'User role updated successfully' })
   @ApiResponse({ status: 400, description: 'Bad request' })
+  @ApiResponse({ status: 409, description: 'Overlapping role assignment' })
   async updateUserRole(
     @Param('userId') userId: string,
     @Body() updateRoleDto: UpdateRoleDto,
-    @Req() req: any
+    @Req() req: any,
+    @CurrentUser() currentUser: User
   ) {
     try {
-      const { role } = updateRoleDto;
       const userToUpdate = req.userToUpdate;
 
-      await this.roleService.updateUserRole(userToUpdate.id, role);
+      const roleId = await this.roleService.getRoleIdByCode(updateRoleDto.role);
+      await this.roleService.updateUserRole(
+        userToUpdate.id,
+        roleId,
+        currentUser.id,
+        this.roleService.toRoleChangeOptions(updateRoleDto)
+      );
 
       return {
         success: true,
@@ -42,6 +52,9 @@ export class RoleController {
         message: 'User role updated successfully',
       };
     } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
       console.error('Error updating user role:', error);
       throw new InternalServerErrorException({
         success: false,
@@ -1,14 +1,32 @@
 import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { SequelizeModule } from '@nestjs/sequelize';
 import { RoleController } from './role.controller';
 import { PermissionsController } from './permissions.controller';
 import { RoleService } from './role.service';
 import { PermissionsService } from './permissions.service';
+import { PermissionGrantService } from './permission-grant.service';
 import { PermissionsGuard } from '../../core/guards/permissions.guard';
 import { User } from '../auth/entities/user.entity';
 import { Company } from '../company/entities/company.entity';
+import { CompanyMembership } from '../company-membership/entities/company-membership.entity';
 import { CompanyAdminGuard } from '../../core/guards/company-admin.guard';
-import { Role, Permission, RolePermission, UserRole, UserPermission } from './entities';
+import {
+  Role,
+  Permission,
+  RolePermission,
+  UserRole,
+  UserPermission,
+  RoleChange,
+  RoleAssignment,
+} from './entities';
+import {
+  createPermissionCacheBus,
+  createPermissionCacheStore,
+  getPermissionCacheConfig,
+} from './cache/permission-cache.config';
+import { PERMISSION_CACHE_BUS, PERMISSION_CACHE_STORE } from './cache/permission-cache.interface';
+import { ServiceAccountPermission } from '../service-account/entities/service-account-permission.entity';
 
 @Module({
   imports: [
@@ -20,10 +38,39 @@ import { Role, Permission, RolePermission, UserRole, UserPermission } from './en
       RolePermission,
       UserRole,
       UserPermission,
+      RoleChange,
+      RoleAssignment,
+      ServiceAccountPermission,
+      CompanyMembership,
     ]),
   ],
   controllers: [RoleController, PermissionsController],
-  providers: [RoleService, PermissionsService, PermissionsGuard, CompanyAdminGuard],
-  exports: [RoleService, PermissionsService, PermissionsGuard, CompanyAdminGuard],
+  providers: [
+    RoleService,
+    PermissionsService,
+    PermissionGrantService,
+    PermissionsGuard,
+    CompanyAdminGuard,
+    // Permission cache store and invalidation bus selected by PERMISSIONS_CACHE_STORE
+    {
+      provide: PERMISSION_CACHE_STORE,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) =>
+        createPermissionCacheStore(getPermissionCacheConfig(configService)),
+    },
+    {
+      provide: PERMISSION_CACHE_BUS,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) =>
+        createPermissionCacheBus(getPermissionCacheConfig(configService)),
+    },
+  ],
+  exports: [
+    RoleService,
+    PermissionsService,
+    PermissionGrantService,
+    PermissionsGuard,
+    CompanyAdminGuard,
+  ],
 })
 export class RoleModule {}
@@ -1,11 +1,50 @@
+import { BadRequestException, ConflictException, ForbiddenException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { Test, TestingModule } from '@nestjs/testing';
-import { getModelToken } from '@nestjs/sequelize';
+import { getConnectionToken, getModelToken } from '@nestjs/sequelize';
 import { RoleService } from './role.service';
+import { PermissionsService } from './permissions.service';
+import { Role, RoleAssignment, RoleChange } from './entities';
+import { RoleAssignmentStatus } from './entities/role-assignment.entity';
+import { RoleChangeSource } from './entities/role-change.entity';
 import { User, UserRole } from '../auth/entities/user.entity';
+import { AuditTrailService } from '../audit/audit-trail.service';
+import { AuditSource } from '../audit/entities/audit-record.entity';
 
 describe('RoleService', () => {
   let service: RoleService;
   let userModel: jest.Mocked<typeof User>;
+  let auditTrailService: { append: jest.Mock };
+  let roleModel: { findOne: jest.Mock; findByPk: jest.Mock; findAll: jest.Mock };
+  let roleChangeModel: { create: jest.Mock; findAll: jest.Mock };
+  let roleAssignmentModel: {
+    create: jest.Mock;
+    update: jest.Mock;
+    findOne: jest.Mock;
+    findAll: jest.Mock;
+    findByPk: jest.Mock;
+  };
+  let permissionsService: { invalidateCache: jest.Mock; getRoleLineage: jest.Mock };
+
+  const mockTransaction = {
+    commit: jest.fn(),
+    rollback: jest.fn(),
+    LOCK: { UPDATE: 'UPDATE' },
+  };
+
+  const buildAssignment = (overrides: Partial<RoleAssignment> = {}) => ({
+    id: 'assignment-1',
+    user_id: 'user-123',
+    role_id: 'role-manager',
+    previous_role_id: null,
+    effective_from: new Date(Date.now() - 60 * 1000),
+    effective_until: new Date(Date.now() + 60 * 60 * 1000),
+    status: RoleAssignmentStatus.SCHEDULED,
+    reason: 'Covering for Jane',
+    assigned_by: 'admin-123',
+    update: jest.fn(),
+    ...overrides,
+  });
 
   const mockRole = {
     id: 'role-123',
@@ -39,11 +78,55 @@ describe('RoleService', () => {
             update: jest.fn(),
           },
         },
+        {
+          provide: getModelToken(Role),
+          useValue: { findOne: jest.fn(), findByPk: jest.fn(), findAll: jest.fn() },
+        },
+        {
+          provide: getModelToken(RoleChange),
+          useValue: { create: jest.fn(), findAll: jest.fn() },
+        },
+        {
+          provide: getModelToken(RoleAssignment),
+          useValue: {
+            create: jest.fn((values) => Promise.resolve({ id: 'assignment-1', ...values })),
+            update: jest.fn(),
+            findOne: jest.fn(),
+            findAll: jest.fn().mockResolvedValue([]),
+            findByPk: jest.fn(),
+          },
+        },
+        {
+          provide: AuditTrailService,
+          useValue: { append: jest.fn() },
+        },
+        {
+          provide: PermissionsService,
+          useValue: { invalidateCache: jest.fn(), getRoleLineage: jest.fn() },
+        },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((_key: string, fallback: unknown) => fallback) },
+        },
+        {
+          provide: getConnectionToken(),
+          useValue: {
+            // Unmanaged transactions for immediate changes, managed ones for assignments
+            transaction: jest.fn((callback?: (tx: unknown) => unknown) =>
+              callback ? callback(mockTransaction) : Promise.resolve(mockTransaction)
+            ),
+          },
+        },
       ],
     }).compile();
 
     service = module.get<RoleService>(RoleService);
     userModel = module.get(getModelToken(User));
+    auditTrailService = module.get(AuditTrailService);
+    roleModel = module.get(getModelToken(Role));
+    roleChangeModel = module.get(getModelToken(RoleChange));
+    roleAssignmentModel = module.get(getModelToken(RoleAssignment));
+    permissionsService = module.get(PermissionsService);
   });
 
   afterEach(() => {
@@ -108,8 +191,37 @@ describe('RoleService', () => {
 
       expect(userModel.update).toHaveBeenCalledWith(
         { role_id: 'role-456' },
-        { where: { id: 'user-123' } }
+        { where: { id: 'user-123' }, transaction: mockTransaction }
       );
+      expect(mockTransaction.commit).toHaveBeenCalled();
+    });
+
+    it('should record the role change in the audit trail', async () => {
+      userModel.findByPk.mockResolvedValue(mockUser);
+      userModel.update.mockResolvedValue([1]);
+
+      await service.updateUserRole('user-123', 'role-456', 'admin-123');
+
+      expect(auditTrailService.append).toHaveBeenCalledWith(
+        {
+          tenantId: 'company-123',
+          source: AuditSource.USER,
+          action: 'USER_ROLE_CHANGED',
+          entityId: 'user-123',
+          performedBy: 'admin-123',
+          payload: { previousRoleId: 'role-123', newRoleId: 'role-456' },
+        },
+        mockTransaction
+      );
+    });
+
+    it('should not record an audit entry when the role is unchanged', async () => {
+      userModel.findByPk.mockResolvedValue(mockUser);
+      userModel.update.mockResolvedValue([1]);
+
+      await service.updateUserRole('user-123', 'role-123', 'admin-123');
+
+      expect(auditTrailService.append).not.toHaveBeenCalled();
     });
 
     it('should handle database errors during update', async () => {
@@ -119,6 +231,7 @@ describe('RoleService', () => {
       await expect(service.updateUserRole('user-123', 'role-456')).rejects.toThrow(
         'Database update failed'
       );
+      expect(mockTransaction.rollback).toHaveBeenCalled();
     });
 
     it('should accept all valid role ID values', async () => {
@@ -136,7 +249,7 @@ describe('RoleService', () => {
         await service.updateUserRole('user-123', roleId);
         expect(userModel.update).toHaveBeenCalledWith(
           { role_id: roleId },
-          { where: { id: 'user-123' } }
+          { where: { id: 'user-123' }, transaction: mockTransaction }
         );
       }
 
@@ -150,6 +263,318 @@ describe('RoleService', () => {
     });
   });
 
+  describe('role history', () => {
+    it('should record a manual change, end the assignment in effect and invalidate permissions', async () => {
+      userModel.findByPk.mockResolvedValue(mockUser);
+
+      await service.updateUserRole('user-123', 'role-456', 'admin-123', {
+        reason: 'Promoted',
+      });
+
+      expect(roleChangeModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          user_id: 'user-123',
+          company_id: 'company-123',
+          previous_role_id: 'role-123',
+          new_role_id: 'role-456',
+          source: RoleChangeSource.MANUAL,
+          changed_by: 'admin-123',
+          reason: 'Promoted',
+        }),
+        { transaction: mockTransaction }
+      );
+      expect(roleAssignmentModel.update).toHaveBeenCalledWith(
+        expect.objectContaining({ status: RoleAssignmentStatus.ENDED }),
+        expect.objectContaining({
+          where: { user_id: 'user-123', status: RoleAssignmentStatus.ACTIVE },
+        })
+      );
+      expect(auditTrailService.append).toHaveBeenCalledWith(
+        expect.objectContaining({
+          payload: { previousRoleId: 'role-123', newRoleId: 'role-456', reason: 'Promoted' },
+        }),
+        mockTransaction
+      );
+      expect(permissionsService.invalidateCache).toHaveBeenCalledWith(
+        expect.objectContaining({ user_id: 'user-123', company_id: 'company-123' })
+      );
+    });
+
+    it('should schedule a future change without touching the current role', async () => {
+      userModel.findByPk.mockResolvedValue(mockUser);
+      roleAssignmentModel.findByPk.mockImplementation(() => Promise.resolve(buildAssignment()));
+      const effectiveFrom = new Date(Date.now() + 24 * 60 * 60 * 1000);
+
+      const assignment = await service.updateUserRole('user-123', 'role-manager', 'admin-123', {
+        effectiveFrom,
+      });
+
+      expect(assignment).not.toBeNull();
+      expect(roleAssignmentModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          user_id: 'user-123',
+          role_id: 'role-manager',
+          effective_from: effectiveFrom,
+          effective_until: null,
+          status: RoleAssignmentStatus.SCHEDULED,
+          assigned_by: 'admin-123',
+        }),
+        { transaction: mockTransaction }
+      );
+      expect(auditTrailService.append).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'USER_ROLE_ASSIGNMENT_SCHEDULED' }),
+        mockTransaction
+      );
+      expect(userModel.update).not.toHaveBeenCalled();
+      expect(permissionsService.invalidateCache).not.toHaveBeenCalled();
+    });
+
+    it('should start a temporary assignment that is already due', async () => {
+      const assignment = buildAssignment();
+      userModel.findByPk.mockResolvedValue(mockUser);
+      roleAssignmentModel.findByPk.mockResolvedValue(assignment);
+
+      await service.updateUserRole('user-123', 'role-manager', 'admin-123', {
+        effectiveUntil: assignment.effective_until,
+      });
+
+      expect(userModel.update).toHaveBeenCalledWith(
+        { role_id: 'role-manager' },
+        { where: { id: 'user-123' }, transaction: mockTransaction }
+      );
+      expect(assignment.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: RoleAssignmentStatus.ACTIVE,
+          previous_role_id: 'role-123',
+        }),
+        { transaction: mockTransaction }
+      );
+      expect(permissionsService.invalidateCache).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject periods that end before they start or in the past', async () => {
+      await expect(
+        service.updateUserRole('user-123', 'role-manager', 'admin-123', {
+          effectiveFrom: new Date(Date.now() + 2 * 60 * 60 * 1000),
+          effectiveUntil: new Date(Date.now() + 60 * 60 * 1000),
+        })
+      ).rejects.toThrow(BadRequestException);
+      await expect(
+        service.updateUserRole('user-123', 'role-manager', 'admin-123', {
+          effectiveUntil: new Date(Date.now() - 1000),
+        })
+      ).rejects.toThrow(BadRequestException);
+      expect(roleAssignmentModel.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject assignments overlapping another one', async () => {
+      userModel.findByPk.mockResolvedValue(mockUser);
+      roleAssignmentModel.findOne.mockResolvedValue(buildAssignment());
+
+      await expect(
+        service.updateUserRole('user-123', 'role-manager', 'admin-123', {
+          effectiveFrom: new Date(Date.now() + 60 * 1000),
+          effectiveUntil: new Date(Date.now() + 2 * 60 * 60 * 1000),
+        })
+      ).rejects.toThrow(ConflictException);
+      expect(roleAssignmentModel.create).not.toHaveBeenCalled();
+    });
+
+    it('should resolve role codes to role IDs', async () => {
+      roleModel.findOne.mockResolvedValueOnce({ id: 'role-manager' });
+      await expect(service.getRoleIdByCode(UserRole.VENDOR_MANAGER)).resolves.toBe('role-manager');
+
+      roleModel.findOne.mockResolvedValueOnce(null);
+      await expect(service.getRoleIdByCode('unknown')).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('applyDueAssignments', () => {
+    it('should restore the previous role when an assignment ends', async () => {
+      const assignment = buildAssignment({
+        status: RoleAssignmentStatus.ACTIVE,
+        previous_role_id: 'role-123',
+        effective_until: new Date(Date.now() - 1000),
+      });
+      roleAssignmentModel.findAll.mockResolvedValueOnce([{ id: 'assignment-1' }]);
+      roleAssignmentModel.findByPk.mockResolvedValue(assignment);
+      userModel.findByPk.mockResolvedValue({ ...mockUser, role_id: 'role-manager' } as User);
+
+      const result = await service.applyDueAssignments();
+
+      expect(result).toEqual({ started: 0, ended: 1 });
+      expect(assignment.update).toHaveBeenCalledWith(
+        expect.objectContaining({ status: RoleAssignmentStatus.ENDED }),
+        { transaction: mockTransaction }
+      );
+      expect(userModel.update).toHaveBeenCalledWith(
+        { role_id: 'role-123' },
+        { where: { id: 'user-123' }, transaction: mockTransaction }
+      );
+      expect(roleChangeModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          previous_role_id: 'role-manager',
+          new_role_id: 'role-123',
+          source: RoleChangeSource.ASSIGNMENT_ENDED,
+          changed_by: null,
+        }),
+        { transaction: mockTransaction }
+      );
+      expect(permissionsService.invalidateCache).toHaveBeenCalledWith(
+        expect.objectContaining({ user_id: 'user-123' })
+      );
+    });
+
+    it('should not restore the previous role after a later change', async () => {
+      const assignment = buildAssignment({
+        status: RoleAssignmentStatus.ACTIVE,
+        previous_role_id: 'role-123',
+        effective_until: new Date(Date.now() - 1000),
+      });
+      roleAssignmentModel.findAll.mockResolvedValueOnce([{ id: 'assignment-1' }]);
+      roleAssignmentModel.findByPk.mockResolvedValue(assignment);
+      userModel.findByPk.mockResolvedValue({ ...mockUser, role_id: 'role-admin' } as User);
+
+      const result = await service.applyDueAssignments();
+
+      expect(result).toEqual({ started: 0, ended: 1 });
+      expect(userModel.update).not.toHaveBeenCalled();
+      expect(roleChangeModel.create).not.toHaveBeenCalled();
+      expect(permissionsService.invalidateCache).not.toHaveBeenCalled();
+    });
+
+    it('should start due assignments and record who scheduled them', async () => {
+      const assignment = buildAssignment();
+      roleAssignmentModel.findAll
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([{ id: 'assignment-1' }]);
+      roleAssignmentModel.findByPk.mockResolvedValue(assignment);
+      userModel.findByPk.mockResolvedValue(mockUser);
+
+      const result = await service.applyDueAssignments();
+
+      expect(result).toEqual({ started: 1, ended: 0 });
+      expect(roleChangeModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          new_role_id: 'role-manager',
+          source: RoleChangeSource.ASSIGNMENT_STARTED,
+          assignment_id: 'assignment-1',
+          changed_by: 'admin-123',
+          reason: 'Covering for Jane',
+        }),
+        { transaction: mockTransaction }
+      );
+      expect(auditTrailService.append).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'USER_ROLE_CHANGED',
+          payload: {
+            previousRoleId: 'role-123',
+            newRoleId: 'role-manager',
+            assignmentId: 'assignment-1',
+          },
+        }),
+        mockTransaction
+      );
+    });
+  });
+
+  describe('role hierarchy', () => {
+    const employeeRole = {
+      id: 'role-employee',
+      name: 'Vendor Employee',
+      code: 'vendor_employee',
+      parent_role_id: null,
+      permissions: [
+        { id: 'perm-1', name: 'teams:read:own', category: 'TEAM' },
+        { id: 'perm-2', name: 'documents:read', category: 'DOCUMENT' },
+      ],
+    };
+    const managerRole = {
+      id: 'role-manager',
+      name: 'Vendor Manager',
+      code: 'vendor_manager',
+      parent_role_id: 'role-employee',
+      permissions: [{ id: 'perm-2', name: 'documents:read', category: 'DOCUMENT' }],
+    };
+    const superAdmin = {
+      id: 'admin-123',
+      hasRoleEnum: jest.fn((role: UserRole) => role === UserRole.SUPER_ADMIN),
+    } as unknown as User;
+
+    it('should list own permissions apart from inherited ones', async () => {
+      permissionsService.getRoleLineage.mockResolvedValue([managerRole, employeeRole]);
+
+      const result = await service.getRolePermissions('role-manager');
+
+      expect(result.ancestors).toEqual([
+        { id: 'role-employee', name: 'Vendor Employee', code: 'vendor_employee' },
+      ]);
+      expect(result.own_permissions).toEqual([
+        expect.objectContaining({ name: 'documents:read', inherited_from: undefined }),
+      ]);
+      expect(result.inherited_permissions).toEqual([
+        expect.objectContaining({
+          name: 'teams:read:own',
+          inherited_from: expect.objectContaining({ id: 'role-employee' }),
+        }),
+      ]);
+    });
+
+    it('should set the parent and invalidate the permissions of the role users', async () => {
+      const role = { ...employeeRole, update: jest.fn() };
+      roleModel.findByPk.mockResolvedValue(role);
+      permissionsService.getRoleLineage.mockResolvedValue([managerRole]);
+
+      await service.setParentRole('role-employee', 'role-manager', superAdmin);
+
+      // Every role is locked before the cycle check reads the parent's lineage
+      expect(roleModel.findAll).toHaveBeenCalledWith(
+        expect.objectContaining({ transaction: mockTransaction, lock: 'UPDATE' })
+      );
+      expect(roleModel.findAll.mock.invocationCallOrder[0]).toBeLessThan(
+        permissionsService.getRoleLineage.mock.invocationCallOrder[0]
+      );
+      expect(role.update).toHaveBeenCalledWith(
+        { parent_role_id: 'role-manager' },
+        { transaction: mockTransaction }
+      );
+      expect(auditTrailService.append).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'ROLE_PARENT_CHANGED',
+          payload: { previousParentRoleId: null, parentRoleId: 'role-manager' },
+        }),
+        mockTransaction
+      );
+      expect(permissionsService.invalidateCache).toHaveBeenCalledWith(
+        expect.objectContaining({ role_id: 'role-employee' })
+      );
+    });
+
+    it('should reject a parent that inherits from the role', async () => {
+      const role = { ...employeeRole, update: jest.fn() };
+      roleModel.findByPk.mockResolvedValue(role);
+      permissionsService.getRoleLineage.mockResolvedValue([managerRole, employeeRole]);
+
+      await expect(
+        service.setParentRole('role-employee', 'role-manager', superAdmin)
+      ).rejects.toThrow(BadRequestException);
+      expect(role.update).not.toHaveBeenCalled();
+      expect(permissionsService.invalidateCache).not.toHaveBeenCalled();
+    });
+
+    it('should only let super admins change the hierarchy', async () => {
+      const companyAdmin = {
+        id: 'admin-456',
+        hasRoleEnum: jest.fn(() => false),
+      } as unknown as User;
+
+      await expect(
+        service.setParentRole('role-employee', 'role-manager', companyAdmin)
+      ).rejects.toThrow(ForbiddenException);
+      expect(roleModel.findByPk).not.toHaveBeenCalled();
+    });
+  });
+
   describe('error logging', () => {
     let consoleSpy: jest.SpyInstance;
 
@@ -1,14 +1,117 @@
-import { Injectable } from '@nestjs/common';
-import { InjectModel } from '@nestjs/sequelize';
-import { User } from '../auth/entities/user.entity';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { getConnectionToken, InjectModel } from '@nestjs/sequelize';
+import { Op, Transaction } from 'sequelize';
+import { Sequelize } from 'sequelize-typescript';
+import { ERROR_CODES } from '../../common/constants/error-codes';
+import { User, UserRole } from '../auth/entities/user.entity';
+import { AuditTrailService } from '../audit/audit-trail.service';
+import { AuditSource } from '../audit/entities/audit-record.entity';
+import {
+  RoleAssignmentDto,
+  RoleHierarchyPermissionDto,
+  RoleHistoryResponseDto,
+  RolePermissionsResponseDto,
+  RoleSummaryDto,
+  UpdateRoleDto,
+} from './dto';
+import { Permission, Role, RoleAssignment, RoleChange, RolePermission } from './entities';
+import { RoleAssignmentStatus } from './entities/role-assignment.entity';
+import { RoleChangeSource } from './entities/role-change.entity';
+import { PermissionsService } from './permissions.service';
 
+/**
+ * Optional details of a role change. A change with a future effectiveFrom or with an
+ * effectiveUntil is stored as a RoleAssignment and applied by the assignment sweep.
+ */
+export interface RoleChangeOptions {
+  reason?: string | null;
+  effectiveFrom?: Date;
+  effectiveUntil?: Date | null;
+}
+
+export interface RoleAssignmentSweepResult {
+  started: number;
+  ended: number;
+}
+
+interface RecordedRoleChange {
+  source: RoleChangeSource;
+  changedBy: string | null;
+  reason?: string | null;
+  assignmentId?: string | null;
+}
+
+const USER_ROLE_ATTRIBUTES = ['id', 'role_id', 'company_id'];
+
+const ROLE_SUMMARY_ATTRIBUTES = ['id', 'name', 'code'];
+
+/**
+ * Reads and changes user roles. Every change of User.role_id is recorded in RoleChanges
+ * (the role history) and in the audit trail.
+ *
+ * Effective-dated changes are RoleAssignments: a periodic sweep applies them at
+ * effective_from and restores the previous role at effective_until, invalidating the
+ * user's cached permissions each time. A later change (manual or scheduled) ends the
+ * assignment in effect without restoring its previous role.
+ *
+ * Roles may inherit the permissions of a parent role; setting a parent that would close a
+ * cycle is refused, and the cached permissions of every user of the role and of the roles
+ * inheriting from it are invalidated.
+ */
 @Injectable()
-export class RoleService {
+export class RoleService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(RoleService.name);
+  private sweepTimer?: NodeJS.Timeout;
+
   constructor(
     @InjectModel(User)
-    private userModel: typeof User
+    private userModel: typeof User,
+    @InjectModel(Role)
+    private roleModel: typeof Role,
+    @InjectModel(RoleChange)
+    private roleChangeModel: typeof RoleChange,
+    @InjectModel(RoleAssignment)
+    private roleAssignmentModel: typeof RoleAssignment,
+    private auditTrailService: AuditTrailService,
+    private permissionsService: PermissionsService,
+    private configService: ConfigService,
+    @Inject(getConnectionToken())
+    private sequelize: Sequelize
   ) {}
 
+  onModuleInit(): void {
+    const seconds = Number(
+      this.configService.get<number>('ROLE_ASSIGNMENT_SWEEP_INTERVAL_SECONDS', 60)
+    );
+    if (!seconds || seconds <= 0) {
+      return;
+    }
+
+    this.sweepTimer = setInterval(() => {
+      this.applyDueAssignments().catch((error) =>
+        this.logger.error('Role assignment sweep failed', error)
+      );
+    }, seconds * 1000);
+    this.sweepTimer.unref();
+  }
+
+  onModuleDestroy(): void {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+    }
+  }
+
   async getUserRole(userId: string): Promise<User | null> {
     try {
       return await this.userModel.findByPk(userId, {
@@ -26,12 +129,646 @@ export class RoleService {
     }
   }
 
-  async updateUserRole(userId: string, roleId: string): Promise<void> {
+  /**
+   * ID of the role with the given code
+   */
+  async getRoleIdByCode(code: string): Promise<string> {
+    const role = await this.roleModel.findOne({ where: { code }, attributes: ['id'] });
+
+    if (!role) {
+      throw new BadRequestException({
+        success: false,
+        code: ERROR_CODES.ROLE_NOT_FOUND,
+        message: `Role ${code} does not exist`,
+      });
+    }
+
+    return role.id;
+  }
+
+  /**
+   * Changes the role of a user and records the change in the role history and the audit
+   * trail. Changes with a future effectiveFrom or an effectiveUntil are scheduled instead;
+   * the resulting assignment is returned.
+   */
+  async updateUserRole(
+    userId: string,
+    roleId: string,
+    performedBy?: string,
+    options: RoleChangeOptions = {}
+  ): Promise<RoleAssignment | null> {
+    if ((options.effectiveFrom && options.effectiveFrom > new Date()) || options.effectiveUntil) {
+      return this.scheduleRoleAssignment(userId, roleId, performedBy ?? null, options);
+    }
+
+    const transaction = await this.sequelize.transaction();
+    let changedUser: User | null = null;
+
     try {
-      await this.userModel.update({ role_id: roleId }, { where: { id: userId } });
+      const user = await this.userModel.findByPk(userId, {
+        attributes: USER_ROLE_ATTRIBUTES,
+        transaction,
+      });
+
+      await this.userModel.update({ role_id: roleId }, { where: { id: userId }, transaction });
+
+      if (user && user.role_id !== roleId) {
+        await this.auditTrailService.append(
+          {
+            tenantId: user.company_id,
+            source: AuditSource.USER,
+            action: 'USER_ROLE_CHANGED',
+            entityId: userId,
+            performedBy,
+            payload: {
+              previousRoleId: user.role_id,
+              newRoleId: roleId,
+              ...(options.reason ? { reason: options.reason } : {}),
+            },
+          },
+          transaction
+        );
+        await this.recordRoleChange(
+          user,
+          roleId,
+          {
+            source: RoleChangeSource.MANUAL,
+            changedBy: performedBy ?? null,
+            reason: options.reason,
+          },
+          transaction
+        );
+        changedUser = user;
+      }
+
+      await transaction.commit();
     } catch (error) {
+      await transaction.rollback();
       console.error('Error updating user role:', error);
       throw error;
     }
+
+    if (changedUser) {
+      await this.invalidatePermissions(changedUser, 'User role changed');
+    }
+
+    return null;
+  }
+
+  /**
+   * Role changes of a user (newest first) and the assignments still to come or in effect
+   */
+  async getRoleHistory(user: User): Promise<RoleHistoryResponseDto> {
+    const [changes, assignments] = await Promise.all([
+      this.roleChangeModel.findAll({
+        where: { user_id: user.id },
+        include: [
+          { model: Role, as: 'previousRole', attributes: ROLE_SUMMARY_ATTRIBUTES },
+          { model: Role, as: 'newRole', attributes: ROLE_SUMMARY_ATTRIBUTES },
+          { model: User, as: 'changer', attributes: ['id', 'first_name', 'last_name'] },
+        ],
+        order: [['changed_at', 'DESC']],
+      }),
+      this.roleAssignmentModel.findAll({
+        where: {
+          user_id: user.id,
+          status: [RoleAssignmentStatus.SCHEDULED, RoleAssignmentStatus.ACTIVE],
+        },
+        include: [{ model: Role, as: 'role', attributes: ROLE_SUMMARY_ATTRIBUTES }],
+        order: [['effective_from', 'ASC']],
+      }),
+    ]);
+
+    return {
+      user_id: user.id,
+      current_role: this.toRoleSummary(user.role),
+      changes: changes.map((change) => ({
+        id: change.id,
+        previous_role: this.toRoleSummary(change.previousRole),
+        new_role: this.toRoleSummary(change.newRole),
+        source: change.source,
+        assignment_id: change.assignment_id ?? null,
+        changed_by: change.changed_by ?? null,
+        changed_by_name: change.changer
+          ? `${change.changer.first_name} ${change.changer.last_name}`.trim()
+          : null,
+        reason: change.reason ?? null,
+        changed_at: change.changed_at,
+      })),
+      assignments: assignments.map((assignment) => this.toRoleAssignmentDto(assignment)),
+    };
+  }
+
+  /**
+   * Applies the assignments whose effective_from has passed and ends the ones whose
+   * effective_until has passed. Called periodically; each assignment is applied in its
+   * own transaction so one failure does not hold back the others.
+   */
+  async applyDueAssignments(now: Date = new Date()): Promise<RoleAssignmentSweepResult> {
+    const result: RoleAssignmentSweepResult = { started: 0, ended: 0 };
+
+    // End first, so that an assignment starting when another ends sees the restored role
+    const expiring = await this.roleAssignmentModel.findAll({
+      where: { status: RoleAssignmentStatus.ACTIVE, effective_until: { [Op.lte]: now } },
+      attributes: ['id'],
+      order: [['effective_until', 'ASC']],
+    });
+    for (const { id } of expiring) {
+      try {
+        if (await this.endAssignment(id, now)) {
+          result.ended++;
+        }
+      } catch (error) {
+        this.logger.error(`Failed to end role assignment ${id}`, error);
+      }
+    }
+
+    const due = await this.roleAssignmentModel.findAll({
+      where: { status: RoleAssignmentStatus.SCHEDULED, effective_from: { [Op.lte]: now } },
+      attributes: ['id'],
+      order: [['effective_from', 'ASC']],
+    });
+    for (const { id } of due) {
+      try {
+        if (await this.startAssignment(id, now)) {
+          result.started++;
+        }
+      } catch (error) {
+        this.logger.error(`Failed to start role assignment ${id}`, error);
+      }
+    }
+
+    if (result.started || result.ended) {
+      this.logger.log(
+        `Role assignment sweep started ${result.started} and ended ${result.ended} assignments`
+      );
+    }
+
+    return result;
+  }
+
+  /**
+   * Permissions the role assigns itself and those it inherits from its parent roles.
+   * A permission assigned by several roles is listed once, for the nearest of them.
+   */
+  async getRolePermissions(roleId: string): Promise<RolePermissionsResponseDto> {
+    const [role, ...ancestors] = await this.permissionsService.getRoleLineage(roleId);
+
+    if (!role) {
+      throw new NotFoundException({
+        success: false,
+        code: ERROR_CODES.ROLE_NOT_FOUND,
+        message: 'Role not found',
+      });
+    }
+
+    const seen = new Set<string>();
+    const toPermissions = (lineageRole: Role, inherited: boolean) =>
+      (lineageRole.permissions ?? [])
+        .filter((permission) => !seen.has(permission.name))
+        .map((permission): RoleHierarchyPermissionDto => {
+          seen.add(permission.name);
+          const through = (permission as Permission & { RolePermission?: RolePermission })
+            .RolePermission;
+          return {
+            id: permission.id,
+            name: permission.name,
+            category: permission.category,
+            conditions: through?.conditions ?? undefined,
+            inherited_from: inherited ? (this.toRoleSummary(lineageRole) ?? undefined) : undefined,
+          };
+        });
+
+    return {
+      role: this.toRoleSummary(role) as RoleSummaryDto,
+      ancestors: ancestors.map((ancestor) => this.toRoleSummary(ancestor) as RoleSummaryDto),
+      own_permissions: toPermissions(role, false),
+      inherited_permissions: ancestors.flatMap((ancestor) => toPermissions(ancestor, true)),
+    };
+  }
+
+  /**
+   * Makes the role inherit the permissions of parentRoleId (null removes the parent).
+   * Only super admins change the hierarchy, since roles are shared by every company.
+   */
+  async setParentRole(
+    roleId: string,
+    parentRoleId: string | null,
+    currentUser: User
+  ): Promise<RolePermissionsResponseDto> {
+    if (!currentUser.hasRoleEnum(UserRole.SUPER_ADMIN)) {
+      throw new ForbiddenException({
+        success: false,
+        code: ERROR_CODES.FORBIDDEN,
+        message: 'Only super admins can change the role hierarchy',
+      });
+    }
+
+    const changed = await this.sequelize.transaction(async (transaction) => {
+      // Hierarchy changes lock every role, so that two concurrent changes (A under B and
+      // B under A) cannot both pass the cycle check below; the second one sees the first.
+      await this.roleModel.findAll({
+        attributes: ['id'],
+        order: [['id', 'ASC']],
+        transaction,
+        lock: transaction.LOCK.UPDATE,
+      });
+
+      const role = await this.roleModel.findByPk(roleId, {
+        attributes: ['id', 'name', 'parent_role_id'],
+        transaction,
+      });
+
+      if (!role) {
+        throw new NotFoundException({
+          success: false,
+          code: ERROR_CODES.ROLE_NOT_FOUND,
+          message: 'Role not found',
+        });
+      }
+
+      if ((role.parent_role_id ?? null) === parentRoleId) {
+        return false;
+      }
+
+      if (parentRoleId) {
+        const parentLineage = await this.permissionsService.getRoleLineage(parentRoleId);
+
+        if (parentLineage.length === 0) {
+          throw new NotFoundException({
+            success: false,
+            code: ERROR_CODES.ROLE_NOT_FOUND,
+            message: 'Parent role not found',
+          });
+        }
+
+        // The new parent may not be the role itself or inherit from it
+        if (parentLineage.some((ancestor) => ancestor.id === roleId)) {
+          throw new BadRequestException({
+            success: false,
+            code: ERROR_CODES.ROLE_HIERARCHY_CYCLE,
+            message: `${parentLineage[0].name} already inherits from ${role.name}`,
+          });
+        }
+      }
+
+      const previousParentRoleId = role.parent_role_id ?? null;
+      await role.update({ parent_role_id: parentRoleId }, { transaction });
+
+      await this.auditTrailService.append(
+        {
+          source: AuditSource.PERMISSION,
+          action: 'ROLE_PARENT_CHANGED',
+          entityId: roleId,
+          performedBy: currentUser.id,
+          payload: { previousParentRoleId, parentRoleId },
+        },
+        transaction
+      );
+
+      return true;
+    });
+
+    // Users of the role and of every role inheriting from it
+    if (changed) {
+      await this.permissionsService.invalidateCache({
+        role_id: roleId,
+        reason: 'Role parent changed',
+      });
+    }
+
+    return this.getRolePermissions(roleId);
+  }
+
+  toRoleChangeOptions(dto: UpdateRoleDto): RoleChangeOptions {
+    return {
+      reason: dto.reason ?? null,
+      effectiveFrom: dto.effective_from ? new Date(dto.effective_from) : undefined,
+      effectiveUntil: dto.effective_until ? new Date(dto.effective_until) : null,
+    };
+  }
+
+  toRoleAssignmentDto(assignment: RoleAssignment): RoleAssignmentDto {
+    return {
+      id: assignment.id,
+      role: this.toRoleSummary(assignment.role),
+      status: assignment.status,
+      effective_from: assignment.effective_from,
+      effective_until: assignment.effective_until ?? null,
+      reason: assignment.reason ?? null,
+      assigned_by: assignment.assigned_by ?? null,
+    };
+  }
+
+  /**
+   * Stores an effective-dated role change. Temporary assignments of a user may not
+   * overlap; an assignment that is already due starts right away.
+   */
+  private async scheduleRoleAssignment(
+    userId: string,
+    roleId: string,
+    performedBy: string | null,
+    options: RoleChangeOptions
+  ): Promise<RoleAssignment> {
+    const now = new Date();
+    const effectiveFrom = options.effectiveFrom ?? now;
+    const effectiveUntil = options.effectiveUntil ?? null;
+
+    if (effectiveUntil && (effectiveUntil <= effectiveFrom || effectiveUntil <= now)) {
+      throw new BadRequestException({
+        success: false,
+        code: ERROR_CODES.ROLE_ASSIGNMENT_INVALID_PERIOD,
+        message: 'effective_until must be in the future and after effective_from',
+      });
+    }
+
+    const assignment = await this.sequelize.transaction(async (transaction) => {
+      const user = await this.userModel.findByPk(userId, {
+        attributes: USER_ROLE_ATTRIBUTES,
+        transaction,
+        lock: transaction.LOCK.UPDATE,
+      });
+
+      if (!user) {
+        throw new NotFoundException({
+          success: false,
+          code: ERROR_CODES.USER_NOT_FOUND,
+          message: 'User not found',
+        });
+      }
+
+      // Permanent assignments in effect are simply replaced by the next change
+      const overlapping = await this.roleAssignmentModel.findOne({
+        where: {
+          user_id: userId,
+          [Op.and]: [
+            {
+              [Op.or]: [
+                { status: RoleAssignmentStatus.SCHEDULED },
+                { status: RoleAssignmentStatus.ACTIVE, effective_until: { [Op.ne]: null } },
+              ],
+            },
+            {
+              [Op.or]: [{ effective_until: null }, { effective_until: { [Op.gt]: effectiveFrom } }],
+            },
+            ...(effectiveUntil ? [{ effective_from: { [Op.lt]: effectiveUntil } }] : []),
+          ],
+        },
+        transaction,
+      });
+
+      if (overlapping) {
+        throw new ConflictException({
+          success: false,
+          code: ERROR_CODES.ROLE_ASSIGNMENT_OVERLAP,
+          message: 'The user already has a role assignment in this period',
+        });
+      }
+
+      const created = await this.roleAssignmentModel.create(
+        {
+          user_id: userId,
+          role_id: roleId,
+          effective_from: effectiveFrom,
+          effective_until: effectiveUntil,
+          status: RoleAssignmentStatus.SCHEDULED,
+          reason: options.reason ?? null,
+          assigned_by: performedBy,
+        },
+        { transaction }
+      );
+
+      await this.auditTrailService.append(
+        {
+          tenantId: user.company_id,
+          source: AuditSource.USER,
+          action: 'USER_ROLE_ASSIGNMENT_SCHEDULED',
+          entityId: userId,
+          performedBy,
+          payload: {
+            assignmentId: created.id,
+            roleId,
+            effectiveFrom,
+            effectiveUntil,
+            reason: options.reason ?? null,
+          },
+        },
+        transaction
+      );
+
+      return created;
+    });
+
+    if (effectiveFrom <= now) {
+      await this.startAssignment(assignment.id, now);
+    }
+
+    return (
+      (await this.roleAssignmentModel.findByPk(assignment.id, {
+        include: [{ model: Role, as: 'role', attributes: ROLE_SUMMARY_ATTRIBUTES }],
+      })) ?? assignment
+    );
+  }
+
+  /**
+   * Gives the user the role of a scheduled assignment. Returns whether the role changed.
+   */
+  private async startAssignment(assignmentId: string, now: Date): Promise<boolean> {
+    const user = await this.sequelize.transaction(async (transaction) => {
+      const assignment = await this.roleAssignmentModel.findByPk(assignmentId, {
+        transaction,
+        lock: transaction.LOCK.UPDATE,
+      });
+      if (!assignment || assignment.status !== RoleAssignmentStatus.SCHEDULED) {
+        return null;
+      }
+
+      const target = await this.userModel.findByPk(assignment.user_id, {
+        attributes: USER_ROLE_ATTRIBUTES,
+        transaction,
+        lock: transaction.LOCK.UPDATE,
+      });
+
+      // Missed entirely (e.g. while the sweep was not running)
+      if (!target || (assignment.effective_until && assignment.effective_until <= now)) {
+        await assignment.update(
+          { status: RoleAssignmentStatus.ENDED, ended_at: now },
+          { transaction }
+        );
+        return null;
+      }
+
+      const previousRoleId = target.role_id;
+      await this.recordRoleChange(
+        target,
+        assignment.role_id,
+        {
+          source: RoleChangeSource.ASSIGNMENT_STARTED,
+          changedBy: assignment.assigned_by ?? null,
+          reason: assignment.reason,
+          assignmentId: assignment.id,
+        },
+        transaction
+      );
+      await this.userModel.update(
+        { role_id: assignment.role_id },
+        { where: { id: target.id }, transaction }
+      );
+      await assignment.update(
+        {
+          status: RoleAssignmentStatus.ACTIVE,
+          previous_role_id: previousRoleId,
+          started_at: now,
+        },
+        { transaction }
+      );
+
+      await this.auditTrailService.append(
+        {
+          tenantId: target.company_id,
+          source: AuditSource.USER,
+          action: 'USER_ROLE_CHANGED',
+          entityId: target.id,
+          performedBy: assignment.assigned_by ?? null,
+          payload: {
+            previousRoleId,
+            newRoleId: assignment.role_id,
+            assignmentId: assignment.id,
+          },
+        },
+        transaction
+      );
+
+      return target;
+    });
+
+    if (user) {
+      await this.invalidatePermissions(user, 'Scheduled role assignment started');
+    }
+
+    return !!user;
+  }
+
+  /**
+   * Ends an assignment at effective_until and restores the previous role, unless the
+   * user's role was changed in the meantime. Returns whether the assignment ended.
+   */
+  private async endAssignment(assignmentId: string, now: Date): Promise<boolean> {
+    const result = await this.sequelize.transaction(async (transaction) => {
+      const assignment = await this.roleAssignmentModel.findByPk(assignmentId, {
+        transaction,
+        lock: transaction.LOCK.UPDATE,
+      });
+      if (!assignment || assignment.status !== RoleAssignmentStatus.ACTIVE) {
+        return null;
+      }
+
+      await assignment.update(
+        { status: RoleAssignmentStatus.ENDED, ended_at: now },
+        { transaction }
+      );
+
+      const target = await this.userModel.findByPk(assignment.user_id, {
+        attributes: USER_ROLE_ATTRIBUTES,
+        transaction,
+        lock: transaction.LOCK.UPDATE,
+      });
+      const previousRoleId = assignment.previous_role_id;
+      if (!target || !previousRoleId || target.role_id !== assignment.role_id) {
+        return { user: null };
+      }
+
+      await this.recordRoleChange(
+        target,
+        previousRoleId,
+        {
+          source: RoleChangeSource.ASSIGNMENT_ENDED,
+          changedBy: null,
+          reason: assignment.reason,
+          assignmentId: assignment.id,
+        },
+        transaction
+      );
+      await this.userModel.update(
+        { role_id: previousRoleId },
+        { where: { id: target.id }, transaction }
+      );
+
+      await this.auditTrailService.append(
+        {
+          tenantId: target.company_id,
+          source: AuditSource.USER,
+          action: 'USER_ROLE_CHANGED',
+          entityId: target.id,
+          performedBy: null,
+          payload: {
+            previousRoleId: assignment.role_id,
+            newRoleId: previousRoleId,
+            assignmentId: assignment.id,
+          },
+        },
+        transaction
+      );
+
+      return { user: target };
+    });
+
+    if (result?.user) {
+      await this.invalidatePermissions(result.user, 'Role assignment ended');
+    }
+
+    return !!result;
+  }
+
+  /**
+   * Adds the change to the role history. The new role replaces the assignment in effect,
+   * so it is ended without restoring its previous role.
+   */
+  private async recordRoleChange(
+    user: User,
+    newRoleId: string,
+    change: RecordedRoleChange,
+    transaction: Transaction
+  ): Promise<void> {
+    const now = new Date();
+
+    await this.roleChangeModel.create(
+      {
+        user_id: user.id,
+        company_id: user.company_id ?? null,
+        previous_role_id: user.role_id ?? null,
+        new_role_id: newRoleId,
+        source: change.source,
+        assignment_id: change.assignmentId ?? null,
+        changed_by: change.changedBy,
+        reason: change.reason ?? null,
+        changed_at: now,
+      },
+      { transaction }
+    );
+
+    await this.roleAssignmentModel.update(
+      { status: RoleAssignmentStatus.ENDED, ended_at: now },
+      {
+        where: {
+          user_id: user.id,
+          status: RoleAssignmentStatus.ACTIVE,
+          ...(change.assignmentId ? { id: { [Op.ne]: change.assignmentId } } : {}),
+        },
+        transaction,
+      }
+    );
+  }
+
+  private async invalidatePermissions(user: User, reason: string): Promise<void> {
+    await this.permissionsService.invalidateCache({
+      user_id: user.id,
+      company_id: user.company_id,
+      reason,
+    });
+  }
+
+  private toRoleSummary(role?: Role | null): RoleSummaryDto | null {
+    return role ? { id: role.id, name: role.name, code: role.code } : null;
   }
 }
@@ -0,0 +1,13 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { Request } from 'express';
+import { ScimRequestContext } from '../dto/scim-resource.dto';
+
+/**
+ * Extracts the SCIM context attached by ScimAuthGuard
+ */
+export const ScimContext = createParamDecorator(
+  (_data: unknown, ctx: ExecutionContext): ScimRequestContext | undefined => {
+    const request = ctx.switchToHttp().getRequest<Request & { scim?: ScimRequestContext }>();
+    return request.scim;
+  }
+);
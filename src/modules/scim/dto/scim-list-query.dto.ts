@@ -0,0 +1,39 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsInt, IsOptional, IsString, Max, Min } from 'class-validator';
+import { SCIM_MAX_PAGE_SIZE } from '../scim.constants';
+
+export class ScimListQueryDto {
+  @ApiPropertyOptional({
+    description: 'SCIM filter expression',
+    example: 'userName eq "jane@example.com"',
+  })
+  @IsOptional()
+  @IsString()
+  filter?: string;
+
+  @ApiPropertyOptional({ description: '1-based index of the first result', default: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  startIndex?: number;
+
+  @ApiPropertyOptional({ description: 'Maximum number of results', maximum: SCIM_MAX_PAGE_SIZE })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @Max(SCIM_MAX_PAGE_SIZE)
+  count?: number;
+
+  @ApiPropertyOptional({ description: 'Accepted for compatibility; all attributes are returned' })
+  @IsOptional()
+  @IsString()
+  attributes?: string;
+
+  @ApiPropertyOptional({ description: 'Comma-separated attributes to leave out, e.g. members' })
+  @IsOptional()
+  @IsString()
+  excludedAttributes?: string;
+}
@@ -0,0 +1,92 @@
+import { ServiceAccount } from '../../service-account/entities/service-account.entity';
+import { TeamCategory } from '../../team/entities/team.entity';
+import { SCIM_SCHEMAS } from '../scim.constants';
+
+/**
+ * SCIM payloads are declared as interfaces rather than DTO classes: directories send
+ * attributes this API does not map, which the global ValidationPipe would reject.
+ * The services validate the attributes they read.
+ */
+
+export interface ScimMeta {
+  resourceType: 'User' | 'Group';
+  created: string;
+  lastModified: string;
+  location: string;
+}
+
+export interface ScimMultiValuedAttribute {
+  value?: string;
+  type?: string;
+  primary?: boolean;
+  display?: string;
+  $ref?: string;
+}
+
+export interface ScimUser {
+  schemas: string[];
+  id?: string;
+  externalId?: string | null;
+  userName?: string;
+  name?: {
+    givenName?: string;
+    familyName?: string;
+    formatted?: string;
+  };
+  displayName?: string;
+  title?: string | null;
+  locale?: string | null;
+  timezone?: string | null;
+  active?: boolean;
+  emails?: ScimMultiValuedAttribute[];
+  phoneNumbers?: ScimMultiValuedAttribute[];
+  meta?: ScimMeta;
+}
+
+export interface ScimTeamExtension {
+  category?: TeamCategory;
+  /** Team manager. Defaults to the company owner when a group is created. */
+  ownerId?: string;
+}
+
+export interface ScimGroup {
+  schemas: string[];
+  id?: string;
+  externalId?: string | null;
+  displayName?: string;
+  members?: ScimMultiValuedAttribute[];
+  [SCIM_SCHEMAS.TEAM_EXTENSION]?: ScimTeamExtension;
+  meta?: ScimMeta;
+}
+
+export interface ScimPatchOperation {
+  op: string;
+  path?: string;
+  value?: unknown;
+}
+
+export interface ScimPatchRequest {
+  schemas: string[];
+  Operations: ScimPatchOperation[];
+}
+
+export interface ScimListResponse<T> {
+  schemas: string[];
+  totalResults: number;
+  startIndex: number;
+  itemsPerPage: number;
+  Resources: T[];
+}
+
+/**
+ * Attached to the request by ScimAuthGuard. Writes are attributed to actorId, the user
+ * who created the service account (or the company owner), since team audit logs and
+ * memberships reference users.
+ */
+export interface ScimRequestContext {
+  companyId: string;
+  serviceAccount: ServiceAccount;
+  actorId: string;
+  /** Absolute URL of /scim/v2, used for meta.location */
+  baseUrl: string;
+}
@@ -0,0 +1,58 @@
+import {
+  ArgumentsHost,
+  Catch,
+  ExceptionFilter,
+  HttpException,
+  HttpStatus,
+  Logger,
+} from '@nestjs/common';
+import { Response } from 'express';
+import { SCIM_CONTENT_TYPE, SCIM_SCHEMAS, ScimErrorType } from '../scim.constants';
+
+/**
+ * Renders errors of the SCIM endpoints as SCIM error responses (RFC 7644, section 3.12)
+ * instead of the standard envelope. Exceptions may carry a scimType next to their
+ * message; conflicts default to "uniqueness".
+ */
+@Catch()
+export class ScimExceptionFilter implements ExceptionFilter {
+  private readonly logger = new Logger(ScimExceptionFilter.name);
+
+  catch(exception: unknown, host: ArgumentsHost): void {
+    const response = host.switchToHttp().getResponse<Response>();
+
+    let status = HttpStatus.INTERNAL_SERVER_ERROR;
+    let detail = 'An unexpected internal server error occurred.';
+    let scimType: string | undefined;
+
+    if (exception instanceof HttpException) {
+      status = exception.getStatus();
+      const errorResponse = exception.getResponse();
+
+      if (typeof errorResponse === 'string') {
+        detail = errorResponse;
+      } else {
+        const errorObj = errorResponse as { message?: string | string[]; scimType?: string };
+        const message = errorObj.message ?? exception.message;
+        detail = Array.isArray(message) ? message.join('; ') : message;
+        scimType = errorObj.scimType;
+      }
+
+      if (!scimType && status === HttpStatus.CONFLICT) {
+        scimType = ScimErrorType.UNIQUENESS;
+      }
+    } else if (exception instanceof Error) {
+      this.logger.error(exception.message, exception.stack);
+    }
+
+    response
+      .status(status)
+      .type(SCIM_CONTENT_TYPE)
+      .json({
+        schemas: [SCIM_SCHEMAS.ERROR],
+        status: String(status),
+        ...(scimType ? { scimType } : {}),
+        detail,
+      });
+  }
+}
@@ -0,0 +1,99 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/sequelize';
+import { Request } from 'express';
+import { ERROR_CODES } from '../../../common/constants/error-codes';
+import { Company, CompanyStatus } from '../../company/entities/company.entity';
+import { PrincipalType } from '../../role/dto/permissions-service.dto';
+import { PermissionsService } from '../../role/permissions.service';
+import { ServiceAccountService } from '../../service-account/service-account.service';
+import { ScimRequestContext } from '../dto/scim-resource.dto';
+import { SCIM_PROVISION_PERMISSION } from '../scim.constants';
+
+/** Companies with these statuses cannot provision users */
+const BLOCKED_COMPANY_STATUSES: CompanyStatus[] = [CompanyStatus.SUSPENDED, CompanyStatus.REJECTED];
+
+/**
+ * Authenticates SCIM requests. Directories send the API key of a service account as a
+ * bearer token (Authorization: Bearer acme_sk_...); the service account must hold
+ * scim:provision, and every request is scoped to its company.
+ *
+ * The SCIM context (company, service account and the user writes are attributed to)
+ * is attached as request.scim.
+ */
+@Injectable()
+export class ScimAuthGuard implements CanActivate {
+  constructor(
+    private readonly serviceAccountService: ServiceAccountService,
+    private readonly permissionsService: PermissionsService,
+    @InjectModel(Company)
+    private readonly companyModel: typeof Company
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest<Request & { scim?: ScimRequestContext }>();
+
+    const [scheme, token] = (request.headers.authorization ?? '').split(' ');
+    if (scheme?.toLowerCase() !== 'bearer' || !token) {
+      throw new UnauthorizedException({
+        success: false,
+        code: ERROR_CODES.SCIM_UNAUTHORIZED,
+        message: 'A bearer token is required.',
+      });
+    }
+
+    const { serviceAccount } = await this.serviceAccountService.authenticate(token);
+
+    const companyStatus = serviceAccount.company?.status;
+    if (companyStatus && BLOCKED_COMPANY_STATUSES.includes(companyStatus)) {
+      throw new ForbiddenException({
+        success: false,
+        code: ERROR_CODES.FORBIDDEN,
+        message: 'The company of this service account cannot provision users.',
+      });
+    }
+
+    const check = await this.permissionsService.hasPermission({
+      user_id: serviceAccount.id,
+      principal_type: PrincipalType.SERVICE_ACCOUNT,
+      permission_name: SCIM_PROVISION_PERMISSION,
+      company_id: serviceAccount.company_id,
+    });
+    if (!check.granted) {
+      throw new ForbiddenException({
+        success: false,
+        code: ERROR_CODES.FORBIDDEN,
+        message: `The service account requires the ${SCIM_PROVISION_PERMISSION} permission.`,
+      });
+    }
+
+    const actorId =
+      serviceAccount.created_by ?? (await this.findCompanyOwnerId(serviceAccount.company_id));
+    if (!actorId) {
+      throw new ForbiddenException({
+        success: false,
+        code: ERROR_CODES.FORBIDDEN,
+        message: 'The service account has no user that provisioning can be attributed to.',
+      });
+    }
+
+    request.scim = {
+      companyId: serviceAccount.company_id,
+      serviceAccount,
+      actorId,
+      baseUrl: `${request.protocol}://${request.get('host')}/scim/v2`,
+    };
+
+    return true;
+  }
+
+  private async findCompanyOwnerId(companyId: string): Promise<string | undefined> {
+    const company = await this.companyModel.findByPk(companyId, { attributes: ['id', 'owner_id'] });
+    return company?.owner_id ?? undefined;
+  }
+}
@@ -0,0 +1,71 @@
+import { BadRequestException, ConflictException, NotFoundException } from '@nestjs/common';
+import { ERROR_CODES } from '../../common/constants/error-codes';
+import { ScimErrorType } from './scim.constants';
+
+/*
+ * Exceptions of the SCIM endpoints. ScimExceptionFilter renders their scimType.
+ */
+
+export function scimInvalidFilter(message: string): BadRequestException {
+  return new BadRequestException({
+    success: false,
+    code: ERROR_CODES.SCIM_INVALID_FILTER,
+    message,
+    scimType: ScimErrorType.INVALID_FILTER,
+  });
+}
+
+export function scimInvalidValue(message: string): BadRequestException {
+  return new BadRequestException({
+    success: false,
+    code: ERROR_CODES.SCIM_INVALID_VALUE,
+    message,
+    scimType: ScimErrorType.INVALID_VALUE,
+  });
+}
+
+export function scimInvalidPath(message: string): BadRequestException {
+  return new BadRequestException({
+    success: false,
+    code: ERROR_CODES.SCIM_INVALID_PATH,
+    message,
+    scimType: ScimErrorType.INVALID_PATH,
+  });
+}
+
+/** A remove operation without a path, or one whose path matches nothing */
+export function scimNoTarget(message: string): BadRequestException {
+  return new BadRequestException({
+    success: false,
+    code: ERROR_CODES.SCIM_INVALID_PATH,
+    message,
+    scimType: ScimErrorType.NO_TARGET,
+  });
+}
+
+/** A change this API does not allow, although the value itself is valid */
+export function scimMutability(message: string): BadRequestException {
+  return new BadRequestException({
+    success: false,
+    code: ERROR_CODES.SCIM_MUTABILITY,
+    message,
+    scimType: ScimErrorType.MUTABILITY,
+  });
+}
+
+export function scimUniqueness(message: string): ConflictException {
+  return new ConflictException({
+    success: false,
+    code: ERROR_CODES.SCIM_UNIQUENESS,
+    message,
+    scimType: ScimErrorType.UNIQUENESS,
+  });
+}
+
+export function scimNotFound(resourceType: 'User' | 'Group', id: string): NotFoundException {
+  return new NotFoundException({
+    success: false,
+    code: ERROR_CODES.SCIM_RESOURCE_NOT_FOUND,
+    message: `${resourceType} ${id} not found`,
+  });
+}
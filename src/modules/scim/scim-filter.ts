@@ -0,0 +1,240 @@
+import { Op, WhereOptions } from 'sequelize';
+import { scimInvalidFilter } from './scim-errors';
+
+export type ScimFilterOperator =
+  | 'eq'
+  | 'ne'
+  | 'co'
+  | 'sw'
+  | 'ew'
+  | 'gt'
+  | 'ge'
+  | 'lt'
+  | 'le'
+  | 'pr';
+
+export type ScimFilterValue = string | number | boolean | null;
+
+/**
+ * A filterable attribute: either the column it maps to, or a function building the
+ * condition for attributes that do not map to a single column (e.g. active)
+ */
+export type ScimFilterAttribute =
+  | string
+  | ((operator: ScimFilterOperator, value: ScimFilterValue) => WhereOptions);
+
+const OPERATORS: ScimFilterOperator[] = [
+  'eq',
+  'ne',
+  'co',
+  'sw',
+  'ew',
+  'gt',
+  'ge',
+  'lt',
+  'le',
+  'pr',
+];
+
+const TOKEN_PATTERN = /\s*(?:(\()|(\))|("(?:[^"\\]|\\.)*")|([^\s()"]+))/y;
+
+type Token = { type: 'open' | 'close' | 'string' | 'word'; text: string };
+
+/**
+ * Translates a SCIM filter (RFC 7644, section 3.4.2.2) into a Sequelize where clause.
+ * Supports attribute comparisons, "pr", "and", "or", "not" and parentheses; complex
+ * attribute filters such as emails[type eq "work"] are rejected.
+ *
+ * Attribute names are matched case-insensitively against the keys of attributes, which
+ * must be lower case. The schema URI prefix of a fully qualified name is ignored.
+ */
+export function parseScimFilter(
+  filter: string,
+  attributes: Record<string, ScimFilterAttribute>
+): WhereOptions {
+  const tokens = tokenize(filter);
+  let position = 0;
+
+  const peekWord = (): string | undefined =>
+    tokens[position]?.type === 'word' ? tokens[position].text.toLowerCase() : undefined;
+
+  const parseOr = (): WhereOptions => {
+    const conditions = [parseAnd()];
+    while (peekWord() === 'or') {
+      position++;
+      conditions.push(parseAnd());
+    }
+    return conditions.length === 1 ? conditions[0] : { [Op.or]: conditions };
+  };
+
+  const parseAnd = (): WhereOptions => {
+    const conditions = [parseNot()];
+    while (peekWord() === 'and') {
+      position++;
+      conditions.push(parseNot());
+    }
+    return conditions.length === 1 ? conditions[0] : { [Op.and]: conditions };
+  };
+
+  const parseNot = (): WhereOptions => {
+    if (peekWord() === 'not') {
+      position++;
+      return { [Op.not]: parseGroup() };
+    }
+    return parseGroup();
+  };
+
+  const parseGroup = (): WhereOptions => {
+    if (tokens[position]?.type === 'open') {
+      position++;
+      const condition = parseOr();
+      if (tokens[position]?.type !== 'close') {
+        throw scimInvalidFilter('Missing closing parenthesis in filter');
+      }
+      position++;
+      return condition;
+    }
+    return parseComparison();
+  };
+
+  const parseComparison = (): WhereOptions => {
+    const attributeToken = tokens[position++];
+    const operatorToken = tokens[position++];
+    if (attributeToken?.type !== 'word' || operatorToken?.type !== 'word') {
+      throw scimInvalidFilter('Expected an attribute comparison in filter');
+    }
+
+    const attribute = resolveAttribute(attributeToken.text, attributes);
+    const operator = operatorToken.text.toLowerCase() as ScimFilterOperator;
+    if (!OPERATORS.includes(operator)) {
+      throw scimInvalidFilter(`Unsupported filter operator: ${operatorToken.text}`);
+    }
+
+    const value = operator === 'pr' ? null : parseValue(tokens[position++]);
+
+    return typeof attribute === 'function'
+      ? attribute(operator, value)
+      : buildColumnCondition(attribute, operator, value);
+  };
+
+  const where = parseOr();
+  if (position < tokens.length) {
+    throw scimInvalidFilter(`Unexpected token in filter: ${tokens[position].text}`);
+  }
+
+  return where;
+}
+
+/**
+ * Condition on a single column. String comparisons use the column collation, which is
+ * case-insensitive like SCIM's caseExact=false attributes.
+ */
+export function buildColumnCondition(
+  column: string,
+  operator: ScimFilterOperator,
+  value: ScimFilterValue
+): WhereOptions {
+  const pattern = typeof value === 'string' ? value.replace(/[\\%_]/g, '\\$&') : value;
+
+  switch (operator) {
+    case 'eq':
+      return { [column]: value };
+    case 'ne':
+      return { [column]: { [Op.ne]: value } };
+    case 'co':
+      return { [column]: { [Op.like]: `%${pattern}%` } };
+    case 'sw':
+      return { [column]: { [Op.like]: `${pattern}%` } };
+    case 'ew':
+      return { [column]: { [Op.like]: `%${pattern}` } };
+    case 'gt':
+      return { [column]: { [Op.gt]: value } };
+    case 'ge':
+      return { [column]: { [Op.gte]: value } };
+    case 'lt':
+      return { [column]: { [Op.lt]: value } };
+    case 'le':
+      return { [column]: { [Op.lte]: value } };
+    case 'pr':
+      return { [column]: { [Op.ne]: null } };
+  }
+}
+
+function tokenize(filter: string): Token[] {
+  const tokens: Token[] = [];
+  TOKEN_PATTERN.lastIndex = 0;
+
+  while (TOKEN_PATTERN.lastIndex < filter.length) {
+    if (filter.slice(TOKEN_PATTERN.lastIndex).trim() === '') {
+      break;
+    }
+
+    const match = TOKEN_PATTERN.exec(filter);
+    if (!match) {
+      throw scimInvalidFilter('Filter could not be parsed');
+    }
+
+    if (match[1]) {
+      tokens.push({ type: 'open', text: match[1] });
+    } else if (match[2]) {
+      tokens.push({ type: 'close', text: match[2] });
+    } else if (match[3]) {
+      tokens.push({ type: 'string', text: match[3] });
+    } else {
+      tokens.push({ type: 'word', text: match[4] });
+    }
+  }
+
+  if (tokens.length === 0) {
+    throw scimInvalidFilter('Filter is empty');
+  }
+
+  return tokens;
+}
+
+function resolveAttribute(
+  name: string,
+  attributes: Record<string, ScimFilterAttribute>
+): ScimFilterAttribute {
+  if (name.includes('[')) {
+    throw scimInvalidFilter(`Complex attribute filters are not supported: ${name}`);
+  }
+
+  // urn:ietf:params:scim:schemas:core:2.0:User:userName -> username
+  const key = (
+    name.startsWith('urn:') ? name.slice(name.lastIndexOf(':') + 1) : name
+  ).toLowerCase();
+  const attribute = attributes[key];
+  if (!attribute) {
+    throw scimInvalidFilter(`Filtering on ${name} is not supported`);
+  }
+
+  return attribute;
+}
+
+function parseValue(token: Token | undefined): ScimFilterValue {
+  if (!token || token.type === 'open' || token.type === 'close') {
+    throw scimInvalidFilter('Expected a comparison value in filter');
+  }
+
+  if (token.type === 'string') {
+    try {
+      return JSON.parse(token.text) as string;
+    } catch {
+      throw scimInvalidFilter(`Invalid string in filter: ${token.text}`);
+    }
+  }
+
+  const text = token.text.toLowerCase();
+  if (text === 'true' || text === 'false') {
+    return text === 'true';
+  }
+  if (text === 'null') {
+    return null;
+  }
+  if (/^-?\d+(\.\d+)?$/.test(text)) {
+    return Number(text);
+  }
+
+  throw scimInvalidFilter(`Invalid comparison value in filter: ${token.text}`);
+}
@@ -0,0 +1,117 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Header,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  Put,
+  Query,
+  UseFilters,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiParam, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { RawResponse } from '../../common/decorators/raw-response.decorator';
+import { ScimContext } from './decorators/scim-context.decorator';
+import { ScimListQueryDto } from './dto/scim-list-query.dto';
+import {
+  ScimGroup,
+  ScimListResponse,
+  ScimPatchRequest,
+  ScimRequestContext,
+} from './dto/scim-resource.dto';
+import { ScimExceptionFilter } from './filters/scim-exception.filter';
+import { ScimAuthGuard } from './guards/scim-auth.guard';
+import { ScimGroupsService } from './scim-groups.service';
+import { SCIM_CONTENT_TYPE } from './scim.constants';
+
+@ApiTags('scim')
+@Controller('scim/v2/Groups')
+@UseGuards(ScimAuthGuard)
+@UseFilters(ScimExceptionFilter)
+@RawResponse() // SCIM clients expect bare resources, not the API envelope
+@ApiBearerAuth()
+export class ScimGroupsController {
+  constructor(private readonly scimGroupsService: ScimGroupsService) {}
+
+  @Get()
+  @Header('Content-Type', SCIM_CONTENT_TYPE)
+  @ApiOperation({
+    summary: 'List groups',
+    description: 'SCIM ListResponse of the groups of the company, with filter and pagination.',
+  })
+  @ApiResponse({ status: 200, description: 'ListResponse' })
+  @ApiResponse({ status: 400, description: 'Invalid filter' })
+  async findAll(
+    @ScimContext() context: ScimRequestContext,
+    @Query() query: ScimListQueryDto
+  ): Promise<ScimListResponse<ScimGroup>> {
+    return this.scimGroupsService.findAll(context, query);
+  }
+
+  @Get(':id')
+  @Header('Content-Type', SCIM_CONTENT_TYPE)
+  @ApiOperation({ summary: 'Get a group' })
+  @ApiParam({ name: 'id', description: 'Group id' })
+  @ApiResponse({ status: 200, description: 'Group resource' })
+  @ApiResponse({ status: 404, description: 'Group not found' })
+  async findOne(
+    @ScimContext() context: ScimRequestContext,
+    @Param('id') id: string
+  ): Promise<ScimGroup> {
+    return this.scimGroupsService.findOne(context, id);
+  }
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @Header('Content-Type', SCIM_CONTENT_TYPE)
+  @ApiOperation({ summary: 'Provision a group' })
+  @ApiResponse({ status: 201, description: 'Group resource' })
+  @ApiResponse({ status: 400, description: 'Invalid value' })
+  @ApiResponse({ status: 409, description: 'Group already exists' })
+  async create(
+    @ScimContext() context: ScimRequestContext,
+    @Body() resource: ScimGroup
+  ): Promise<ScimGroup> {
+    return this.scimGroupsService.create(context, resource);
+  }
+
+  @Put(':id')
+  @Header('Content-Type', SCIM_CONTENT_TYPE)
+  @ApiOperation({ summary: 'Replace a group' })
+  @ApiParam({ name: 'id', description: 'Group id' })
+  @ApiResponse({ status: 200, description: 'Group resource' })
+  async replace(
+    @ScimContext() context: ScimRequestContext,
+    @Param('id') id: string,
+    @Body() resource: ScimGroup
+  ): Promise<ScimGroup> {
+    return this.scimGroupsService.replace(context, id, resource);
+  }
+
+  @Patch(':id')
+  @Header('Content-Type', SCIM_CONTENT_TYPE)
+  @ApiOperation({ summary: 'Update a group with PatchOp operations' })
+  @ApiParam({ name: 'id', description: 'Group id' })
+  @ApiResponse({ status: 200, description: 'Group resource' })
+  async patch(
+    @ScimContext() context: ScimRequestContext,
+    @Param('id') id: string,
+    @Body() request: ScimPatchRequest
+  ): Promise<ScimGroup> {
+    return this.scimGroupsService.patch(context, id, request);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete a group' })
+  @ApiParam({ name: 'id', description: 'Group id' })
+  @ApiResponse({ status: 204, description: 'Team deleted' })
+  async remove(@ScimContext() context: ScimRequestContext, @Param('id') id: string): Promise<void> {
+    return this.scimGroupsService.remove(context, id);
+  }
+}
@@ -0,0 +1,301 @@
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { getConnectionToken, getModelToken } from '@nestjs/sequelize';
+import { Test, TestingModule } from '@nestjs/testing';
+import { Company } from '../company/entities/company.entity';
+import { ServiceAccount } from '../service-account/entities/service-account.entity';
+import { TeamAuditAction } from '../team/entities/team-audit-log.entity';
+import { TeamMember } from '../team/entities/team-member.entity';
+import { Team, TeamCategory } from '../team/entities/team.entity';
+import { MembershipValidationService } from '../team/services/membership-validation.service';
+import { TeamAuditService } from '../team/services/team-audit.service';
+import { TeamCategory as ValidationTeamCategory } from '../team/services/team-validation.service';
+import { ScimRequestContext } from './dto/scim-resource.dto';
+import { ScimGroupsService } from './scim-groups.service';
+import { SCIM_SCHEMAS, ScimErrorType } from './scim.constants';
+
+describe('ScimGroupsService', () => {
+  let service: ScimGroupsService;
+  let teamModel: {
+    findAndCountAll: jest.Mock;
+    findOne: jest.Mock;
+    create: jest.Mock;
+    destroy: jest.Mock;
+  };
+  let teamMemberModel: { findAll: jest.Mock; bulkCreate: jest.Mock; destroy: jest.Mock };
+  let companyModel: { findByPk: jest.Mock };
+  let membershipValidationService: {
+    validateNewTeamMembership: jest.Mock;
+    validateBulkMembershipOperation: jest.Mock;
+  };
+  let teamAuditService: { record: jest.Mock; buildSnapshot: jest.Mock };
+
+  const context: ScimRequestContext = {
+    companyId: 'company-1',
+    serviceAccount: { id: 'sa-1' } as ServiceAccount,
+    actorId: 'admin-1',
+    baseUrl: 'https://api.example.com/scim/v2',
+  };
+
+  const buildTeam = (overrides: Partial<Team> = {}) => ({
+    id: 'team-1',
+    name: 'Litigation',
+    company_id: 'company-1',
+    category: TeamCategory.LEGAL,
+    owner_user_id: 'lawyer-1',
+    owner: { id: 'lawyer-1', first_name: 'Lee', last_name: 'Lawyer' },
+    scim_external_id: null,
+    is_active: true,
+    created_at: new Date('2025-01-01T00:00:00Z'),
+    updated_at: new Date('2025-01-02T00:00:00Z'),
+    update: jest.fn(),
+    ...overrides,
+  });
+
+  const memberRows = (...userIds: string[]) =>
+    userIds.map((userId) => ({ team_id: 'team-1', user_id: userId }));
+
+  const patchMembers = (Operations: { op: string; path?: string; value?: unknown }[]) =>
+    service.patch(context, 'team-1', { schemas: [SCIM_SCHEMAS.PATCH_OP], Operations });
+
+  beforeEach(async () => {
+    teamModel = {
+      findAndCountAll: jest.fn(),
+      findOne: jest.fn(),
+      create: jest.fn(),
+      destroy: jest.fn(),
+    };
+    teamMemberModel = {
+      findAll: jest.fn().mockResolvedValue([]),
+      bulkCreate: jest.fn(),
+      destroy: jest.fn(),
+    };
+    companyModel = {
+      findByPk: jest.fn().mockResolvedValue({ id: 'company-1', owner_id: 'owner-1' }),
+    };
+    membershipValidationService = {
+      validateNewTeamMembership: jest.fn(),
+      validateBulkMembershipOperation: jest.fn(),
+    };
+    teamAuditService = { record: jest.fn(), buildSnapshot: jest.fn().mockReturnValue({}) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ScimGroupsService,
+        { provide: getModelToken(Team), useValue: teamModel },
+        { provide: getModelToken(TeamMember), useValue: teamMemberModel },
+        { provide: getModelToken(Company), useValue: companyModel },
+        { provide: MembershipValidationService, useValue: membershipValidationService },
+        { provide: TeamAuditService, useValue: teamAuditService },
+        {
+          provide: getConnectionToken(),
+          useValue: {
+            transaction: jest.fn((callback) => callback({})),
+            escape: jest.fn((value: string) => `'${value}'`),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get(ScimGroupsService);
+  });
+
+  describe('findAll', () => {
+    it('lists the manager and the members of each team', async () => {
+      teamModel.findAndCountAll.mockResolvedValue({ rows: [buildTeam()], count: 1 });
+      teamMemberModel.findAll.mockResolvedValue([
+        { team_id: 'team-1', user_id: 'user-2', user: { first_name: 'Sam', last_name: 'Smith' } },
+      ]);
+
+      const result = await service.findAll(context, {});
+
+      expect(result.Resources[0]).toMatchObject({
+        id: 'team-1',
+        displayName: 'Litigation',
+        members: [
+          { value: 'lawyer-1', display: 'Lee Lawyer' },
+          { value: 'user-2', display: 'Sam Smith' },
+        ],
+        [SCIM_SCHEMAS.TEAM_EXTENSION]: { category: TeamCategory.LEGAL, ownerId: 'lawyer-1' },
+      });
+    });
+
+    it('leaves members out when they are excluded', async () => {
+      teamModel.findAndCountAll.mockResolvedValue({ rows: [buildTeam()], count: 1 });
+
+      const result = await service.findAll(context, { excludedAttributes: 'members' });
+
+      expect(result.Resources[0].members).toBeUndefined();
+      expect(teamMemberModel.findAll).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('create', () => {
+    it('validates the membership and creates the team with the company owner as manager', async () => {
+      teamModel.findOne
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(buildTeam({ id: 'team-2', owner_user_id: 'owner-1' }));
+      teamModel.create.mockResolvedValue({ id: 'team-2' });
+
+      await service.create(context, {
+        schemas: [SCIM_SCHEMAS.GROUP],
+        displayName: 'Finance',
+        members: [{ value: 'owner-1' }, { value: 'user-2' }],
+      });
+
+      expect(membershipValidationService.validateNewTeamMembership).toHaveBeenCalledWith(
+        'company-1',
+        'owner-1',
+        ['user-2'],
+        undefined
+      );
+      expect(teamModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          name: 'Finance',
+          category: TeamCategory.CONVENTIONAL,
+          owner_user_id: 'owner-1',
+        }),
+        expect.anything()
+      );
+      expect(teamMemberModel.bulkCreate).toHaveBeenCalledWith(
+        [{ team_id: 'team-2', user_id: 'user-2', added_by_user_id: 'admin-1' }],
+        expect.anything()
+      );
+      expect(teamAuditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ action: TeamAuditAction.TEAM_CREATED, performedBy: 'admin-1' }),
+        expect.anything()
+      );
+    });
+
+    it('surfaces membership rule violations as invalidValue errors', async () => {
+      teamModel.findOne.mockResolvedValue(null);
+      membershipValidationService.validateNewTeamMembership.mockRejectedValue(
+        new BadRequestException('LEGAL teams must have at least one lawyer')
+      );
+
+      await expect(
+        service.create(context, {
+          schemas: [SCIM_SCHEMAS.GROUP, SCIM_SCHEMAS.TEAM_EXTENSION],
+          displayName: 'Contracts',
+          [SCIM_SCHEMAS.TEAM_EXTENSION]: { category: TeamCategory.LEGAL },
+        })
+      ).rejects.toMatchObject({
+        response: {
+          scimType: ScimErrorType.INVALID_VALUE,
+          message: 'LEGAL teams must have at least one lawyer',
+        },
+      });
+      expect(membershipValidationService.validateNewTeamMembership).toHaveBeenCalledWith(
+        'company-1',
+        'owner-1',
+        [],
+        ValidationTeamCategory.LEGAL
+      );
+      expect(teamModel.create).not.toHaveBeenCalled();
+    });
+
+    it('rejects a displayName already used in the company', async () => {
+      teamModel.findOne.mockResolvedValue({ id: 'team-1' });
+
+      await expect(
+        service.create(context, { schemas: [SCIM_SCHEMAS.GROUP], displayName: 'Litigation' })
+      ).rejects.toThrow(ConflictException);
+    });
+  });
+
+  describe('patch', () => {
+    beforeEach(() => {
+      teamModel.findOne.mockResolvedValue(buildTeam());
+      teamMemberModel.findAll.mockResolvedValue(memberRows('user-2', 'lawyer-2'));
+    });
+
+    it('validates the resulting member list before removing members', async () => {
+      await patchMembers([{ op: 'remove', path: 'members[value eq "lawyer-2"]' }]);
+
+      expect(membershipValidationService.validateBulkMembershipOperation).toHaveBeenCalledWith(
+        'team-1',
+        { replace: ['user-2'] },
+        ValidationTeamCategory.LEGAL
+      );
+      expect(teamMemberModel.destroy).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { team_id: 'team-1', user_id: expect.anything() } })
+      );
+      expect(teamAuditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ action: TeamAuditAction.MEMBERS_REMOVED }),
+        expect.anything()
+      );
+    });
+
+    it('does not write anything when validation fails', async () => {
+      membershipValidationService.validateBulkMembershipOperation.mockRejectedValue(
+        new BadRequestException('Cannot remove the last lawyer from a LEGAL team')
+      );
+
+      await expect(
+        patchMembers([{ op: 'remove', path: 'members', value: [{ value: 'lawyer-2' }] }])
+      ).rejects.toMatchObject({ response: { scimType: ScimErrorType.INVALID_VALUE } });
+      expect(teamMemberModel.destroy).not.toHaveBeenCalled();
+      expect(teamAuditService.record).not.toHaveBeenCalled();
+    });
+
+    it('adds members and renames the team', async () => {
+      teamModel.findOne.mockImplementation(({ where }) =>
+        Promise.resolve(where.name ? null : buildTeam())
+      );
+
+      await patchMembers([
+        { op: 'add', path: 'members', value: [{ value: 'user-3' }, { value: 'lawyer-1' }] },
+        { op: 'replace', value: { displayName: 'Disputes' } },
+      ]);
+
+      expect(membershipValidationService.validateBulkMembershipOperation).toHaveBeenCalledWith(
+        'team-1',
+        { replace: ['user-2', 'lawyer-2', 'user-3'] },
+        ValidationTeamCategory.LEGAL
+      );
+      expect(teamMemberModel.bulkCreate).toHaveBeenCalledWith(
+        [{ team_id: 'team-1', user_id: 'user-3', added_by_user_id: 'admin-1' }],
+        expect.anything()
+      );
+      const actions = teamAuditService.record.mock.calls.map(([entry]) => entry.action);
+      expect(actions).toEqual([TeamAuditAction.TEAM_RENAMED, TeamAuditAction.MEMBERS_ADDED]);
+    });
+
+    it('rejects unsupported paths', async () => {
+      await expect(
+        patchMembers([{ op: 'replace', path: 'description', value: 'x' }])
+      ).rejects.toMatchObject({
+        response: { scimType: ScimErrorType.INVALID_PATH },
+      });
+    });
+  });
+
+  it('does not let PUT change the team category', async () => {
+    teamModel.findOne.mockResolvedValue(buildTeam());
+
+    await expect(
+      service.replace(context, 'team-1', {
+        schemas: [SCIM_SCHEMAS.GROUP],
+        displayName: 'Litigation',
+        [SCIM_SCHEMAS.TEAM_EXTENSION]: { category: TeamCategory.CONVENTIONAL },
+      })
+    ).rejects.toMatchObject({ response: { scimType: ScimErrorType.MUTABILITY } });
+  });
+
+  it('deletes the team and its memberships', async () => {
+    teamModel.findOne.mockResolvedValue(buildTeam());
+    teamMemberModel.findAll.mockResolvedValue(memberRows('user-2'));
+
+    await service.remove(context, 'team-1');
+
+    expect(teamMemberModel.destroy).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { team_id: 'team-1' } })
+    );
+    expect(teamModel.destroy).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { id: 'team-1' } })
+    );
+    expect(teamAuditService.record).toHaveBeenCalledWith(
+      expect.objectContaining({ action: TeamAuditAction.TEAM_DELETED }),
+      expect.anything()
+    );
+  });
+});
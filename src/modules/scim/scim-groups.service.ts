@@ -0,0 +1,717 @@
+import { BadRequestException, Inject, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { getConnectionToken, InjectModel } from '@nestjs/sequelize';
+import { literal, Op, Transaction, WhereOptions } from 'sequelize';
+import { Sequelize } from 'sequelize-typescript';
+import { User } from '../auth/entities/user.entity';
+import { Company } from '../company/entities/company.entity';
+import { TeamAuditAction } from '../team/entities/team-audit-log.entity';
+import { TeamMember } from '../team/entities/team-member.entity';
+import { Team, TeamCategory } from '../team/entities/team.entity';
+import { MembershipValidationService } from '../team/services/membership-validation.service';
+import { TeamAuditService } from '../team/services/team-audit.service';
+import { TeamCategory as ValidationTeamCategory } from '../team/services/team-validation.service';
+import { ScimListQueryDto } from './dto/scim-list-query.dto';
+import {
+  ScimGroup,
+  ScimListResponse,
+  ScimMultiValuedAttribute,
+  ScimPatchRequest,
+  ScimRequestContext,
+  ScimTeamExtension,
+} from './dto/scim-resource.dto';
+import {
+  scimInvalidFilter,
+  scimInvalidPath,
+  scimInvalidValue,
+  scimMutability,
+  scimNoTarget,
+  scimNotFound,
+  scimUniqueness,
+} from './scim-errors';
+import { parseScimFilter, ScimFilterAttribute } from './scim-filter';
+import { SCIM_DEFAULT_PAGE_SIZE, SCIM_SCHEMAS } from './scim.constants';
+
+const MEMBER_ATTRIBUTES = ['id', 'first_name', 'last_name'];
+
+interface GroupChanges {
+  name?: string;
+  scim_external_id?: string | null;
+  /** Final member list, owner excluded */
+  memberIds?: string[];
+}
+
+/**
+ * SCIM 2.0 Groups resource (RFC 7643, section 4.2) backed by the teams of the
+ * directory's company.
+ *
+ * - members lists the team manager and the team members. The manager and category come
+ *   from the team extension when a group is created (defaulting to the company owner and
+ *   CONVENTIONAL) and are changed in the app afterwards.
+ * - Membership changes go through MembershipValidationService before anything is
+ *   written, so a push cannot add users of another company or leave a LEGAL team
+ *   without a lawyer.
+ */
+@Injectable()
+export class ScimGroupsService {
+  private readonly logger = new Logger(ScimGroupsService.name);
+
+  constructor(
+    @InjectModel(Team)
+    private readonly teamModel: typeof Team,
+    @InjectModel(TeamMember)
+    private readonly teamMemberModel: typeof TeamMember,
+    @InjectModel(Company)
+    private readonly companyModel: typeof Company,
+    private readonly membershipValidationService: MembershipValidationService,
+    private readonly teamAuditService: TeamAuditService,
+    @Inject(getConnectionToken())
+    private readonly sequelize: Sequelize
+  ) {}
+
+  async findAll(
+    context: ScimRequestContext,
+    query: ScimListQueryDto
+  ): Promise<ScimListResponse<ScimGroup>> {
+    const startIndex = query.startIndex ?? 1;
+    const count = query.count ?? SCIM_DEFAULT_PAGE_SIZE;
+    const withMembers = !this.isExcluded(query, 'members');
+
+    const conditions: WhereOptions[] = [{ company_id: context.companyId }];
+    if (query.filter) {
+      conditions.push(parseScimFilter(query.filter, this.getFilterAttributes()));
+    }
+
+    const { rows, count: totalResults } = await this.teamModel.findAndCountAll({
+      where: { [Op.and]: conditions },
+      include: withMembers ? [{ model: User, as: 'owner', attributes: MEMBER_ATTRIBUTES }] : [],
+      order: [
+        ['created_at', 'ASC'],
+        ['id', 'ASC'],
+      ],
+      offset: startIndex - 1,
+      limit: count,
+    });
+
+    const members = withMembers
+      ? await this.findMembers(rows.map((team) => team.id))
+      : new Map<string, TeamMember[]>();
+
+    return {
+      schemas: [SCIM_SCHEMAS.LIST_RESPONSE],
+      totalResults,
+      startIndex,
+      itemsPerPage: rows.length,
+      Resources: rows.map((team) =>
+        this.toScimGroup(team, withMembers ? (members.get(team.id) ?? []) : undefined, context)
+      ),
+    };
+  }
+
+  async findOne(context: ScimRequestContext, id: string): Promise<ScimGroup> {
+    return this.toScimGroupWithMembers(await this.findTeam(context, id), context);
+  }
+
+  async create(context: ScimRequestContext, resource: ScimGroup): Promise<ScimGroup> {
+    const changes = this.readResource(resource);
+    if (!changes.name) {
+      throw scimInvalidValue('displayName is required');
+    }
+
+    const extension = this.readExtension(resource);
+    const category = extension.category ?? TeamCategory.CONVENTIONAL;
+    const ownerId = extension.ownerId ?? (await this.getCompanyOwnerId(context));
+    const memberIds = (changes.memberIds ?? []).filter((memberId) => memberId !== ownerId);
+
+    await this.assertNameAvailable(context, changes.name);
+    if (changes.scim_external_id) {
+      await this.assertExternalIdAvailable(context, changes.scim_external_id);
+    }
+
+    await this.validateMembership(
+      this.membershipValidationService.validateNewTeamMembership(
+        context.companyId,
+        ownerId,
+        memberIds,
+        this.toValidationCategory(category)
+      )
+    );
+
+    const team = await this.sequelize.transaction(async (transaction) => {
+      const createdTeam = await this.teamModel.create(
+        {
+          name: changes.name,
+          company_id: context.companyId,
+          category,
+          owner_user_id: ownerId,
+          scim_external_id: changes.scim_external_id ?? null,
+        },
+        { transaction }
+      );
+
+      await this.addMembers(context, createdTeam.id, memberIds, transaction);
+
+      await this.teamAuditService.record(
+        {
+          teamId: createdTeam.id,
+          companyId: context.companyId,
+          action: TeamAuditAction.TEAM_CREATED,
+          performedBy: context.actorId,
+          after: this.teamAuditService.buildSnapshot(createdTeam, memberIds),
+          details: this.auditDetails(context),
+        },
+        transaction
+      );
+
+      return createdTeam;
+    });
+
+    this.logger.log(`Team ${team.id} provisioned over SCIM in company ${context.companyId}`);
+
+    return this.toScimGroupWithMembers(await this.findTeam(context, team.id), context);
+  }
+
+  /**
+   * PUT: replaces the name, externalId and member list
+   */
+  async replace(context: ScimRequestContext, id: string, resource: ScimGroup): Promise<ScimGroup> {
+    const team = await this.findTeam(context, id);
+    const changes = this.readResource(resource);
+    if (!changes.name) {
+      throw scimInvalidValue('displayName is required');
+    }
+
+    this.assertExtensionUnchanged(team, this.readExtension(resource));
+
+    await this.applyChanges(context, team, {
+      scim_external_id: null,
+      memberIds: [],
+      ...changes,
+    });
+
+    return this.toScimGroupWithMembers(await this.findTeam(context, id), context);
+  }
+
+  async patch(
+    context: ScimRequestContext,
+    id: string,
+    request: ScimPatchRequest
+  ): Promise<ScimGroup> {
+    const team = await this.findTeam(context, id);
+
+    if (!Array.isArray(request?.Operations) || request.Operations.length === 0) {
+      throw scimInvalidValue('Operations must be a non-empty array');
+    }
+
+    const changes: GroupChanges = {};
+    const memberIds = new Set(await this.findMemberIds(team.id));
+    let membersChanged = false;
+
+    for (const operation of request.Operations) {
+      const op = String(operation?.op ?? '').toLowerCase();
+      if (op !== 'add' && op !== 'replace' && op !== 'remove') {
+        throw scimInvalidValue(`Unsupported patch operation: ${operation?.op}`);
+      }
+
+      const path = operation.path?.trim();
+      if (!path) {
+        if (op === 'remove') {
+          throw scimNoTarget('remove operations require a path');
+        }
+        if (!operation.value || typeof operation.value !== 'object') {
+          throw scimInvalidValue(
+            `${operation.op} operations without a path require an object value`
+          );
+        }
+
+        const { memberIds: members, ...values } = this.readAttributes(
+          operation.value as Record<string, unknown>
+        );
+        Object.assign(changes, values);
+        if (members) {
+          this.patchMembers(memberIds, op, members);
+          membersChanged = true;
+        }
+        continue;
+      }
+
+      // members[value eq "2819c223-7f76-453a-919d-413861904646"]
+      const memberFilter = path.match(/^members\[\s*value\s+eq\s+"([^"]+)"\s*\]$/i);
+      if (memberFilter) {
+        if (op !== 'remove') {
+          throw scimInvalidPath(`${operation.op} is not supported on ${path}`);
+        }
+        memberIds.delete(memberFilter[1]);
+        membersChanged = true;
+        continue;
+      }
+
+      const key = path.toLowerCase();
+      if (key === 'members') {
+        const ids =
+          op === 'remove' && operation.value === undefined
+            ? [...memberIds]
+            : this.readMemberIds(operation.value);
+        this.patchMembers(memberIds, op, ids);
+        membersChanged = true;
+      } else if (key === 'displayname') {
+        if (op === 'remove') {
+          throw scimInvalidValue('displayName is required and cannot be removed');
+        }
+        changes.name = this.readName(operation.value);
+      } else if (key === 'externalid') {
+        changes.scim_external_id = op === 'remove' ? null : this.readExternalId(operation.value);
+      } else {
+        throw scimInvalidPath(`Unsupported attribute path: ${path}`);
+      }
+    }
+
+    await this.applyChanges(context, team, {
+      ...changes,
+      ...(membersChanged ? { memberIds: [...memberIds] } : {}),
+    });
+
+    return this.toScimGroupWithMembers(await this.findTeam(context, id), context);
+  }
+
+  async remove(context: ScimRequestContext, id: string): Promise<void> {
+    const team = await this.findTeam(context, id);
+    const memberIds = await this.findMemberIds(team.id);
+
+    await this.sequelize.transaction(async (transaction) => {
+      await this.teamMemberModel.destroy({ where: { team_id: team.id }, transaction });
+      await this.teamModel.destroy({ where: { id: team.id }, transaction });
+
+      await this.teamAuditService.record(
+        {
+          teamId: team.id,
+          companyId: context.companyId,
+          action: TeamAuditAction.TEAM_DELETED,
+          performedBy: context.actorId,
+          before: this.teamAuditService.buildSnapshot(team, memberIds),
+          details: this.auditDetails(context),
+        },
+        transaction
+      );
+    });
+
+    this.logger.log(`Team ${team.id} deleted over SCIM in company ${context.companyId}`);
+  }
+
+  private async findTeam(context: ScimRequestContext, id: string): Promise<Team> {
+    const team = await this.teamModel.findOne({
+      where: { id, company_id: context.companyId },
+      include: [{ model: User, as: 'owner', attributes: MEMBER_ATTRIBUTES }],
+    });
+
+    if (!team) {
+      throw scimNotFound('Group', id);
+    }
+
+    return team;
+  }
+
+  private async findMemberIds(teamId: string): Promise<string[]> {
+    const members = await this.teamMemberModel.findAll({
+      where: { team_id: teamId },
+      attributes: ['user_id'],
+    });
+    return members.map((member) => member.user_id);
+  }
+
+  private async findMembers(teamIds: string[]): Promise<Map<string, TeamMember[]>> {
+    const byTeam = new Map<string, TeamMember[]>();
+    if (teamIds.length === 0) {
+      return byTeam;
+    }
+
+    const members = await this.teamMemberModel.findAll({
+      where: { team_id: { [Op.in]: teamIds } },
+      include: [{ model: User, as: 'user', attributes: MEMBER_ATTRIBUTES }],
+      order: [['added_at', 'ASC']],
+    });
+
+    for (const member of members) {
+      byTeam.set(member.team_id, [...(byTeam.get(member.team_id) ?? []), member]);
+    }
+    return byTeam;
+  }
+
+  /**
+   * Validates and writes the changes of a PUT or PATCH in one transaction, with one team
+   * audit entry per kind of change
+   */
+  private async applyChanges(
+    context: ScimRequestContext,
+    team: Team,
+    changes: GroupChanges
+  ): Promise<void> {
+    const currentMemberIds = await this.findMemberIds(team.id);
+
+    const updates: Pick<GroupChanges, 'name' | 'scim_external_id'> = {};
+    if (changes.name !== undefined && changes.name !== team.name) {
+      updates.name = changes.name;
+    }
+    if (
+      changes.scim_external_id !== undefined &&
+      changes.scim_external_id !== (team.scim_external_id ?? null)
+    ) {
+      updates.scim_external_id = changes.scim_external_id;
+    }
+
+    const memberIds = changes.memberIds
+      ? [...new Set(changes.memberIds.filter((memberId) => memberId !== team.owner_user_id))]
+      : currentMemberIds;
+    const addedIds = memberIds.filter((memberId) => !currentMemberIds.includes(memberId));
+    const removedIds = currentMemberIds.filter((memberId) => !memberIds.includes(memberId));
+
+    if (Object.keys(updates).length === 0 && addedIds.length === 0 && removedIds.length === 0) {
+      return;
+    }
+
+    if (updates.name) {
+      await this.assertNameAvailable(context, updates.name, team.id);
+    }
+    if (updates.scim_external_id) {
+      await this.assertExternalIdAvailable(context, updates.scim_external_id, team.id);
+    }
+    if (addedIds.length > 0 || removedIds.length > 0) {
+      // Validated as a replacement so that swapping lawyers in one push is allowed
+      await this.validateMembership(
+        this.membershipValidationService.validateBulkMembershipOperation(
+          team.id,
+          { replace: memberIds },
+          this.toValidationCategory(team.category)
+        )
+      );
+    }
+
+    const before = this.teamAuditService.buildSnapshot(team, currentMemberIds);
+
+    await this.sequelize.transaction(async (transaction) => {
+      if (Object.keys(updates).length > 0) {
+        await team.update(updates, { transaction });
+      }
+
+      if (removedIds.length > 0) {
+        await this.teamMemberModel.destroy({
+          where: { team_id: team.id, user_id: { [Op.in]: removedIds } },
+          transaction,
+        });
+      }
+      await this.addMembers(context, team.id, addedIds, transaction);
+
+      const after = this.teamAuditService.buildSnapshot(team, memberIds);
+      const actions: TeamAuditAction[] = [];
+      if (updates.name) {
+        actions.push(TeamAuditAction.TEAM_RENAMED);
+      } else if (updates.scim_external_id !== undefined) {
+        actions.push(TeamAuditAction.TEAM_UPDATED);
+      }
+      if (addedIds.length > 0 && removedIds.length > 0) {
+        actions.push(TeamAuditAction.MEMBERS_REPLACED);
+      } else if (addedIds.length > 0) {
+        actions.push(TeamAuditAction.MEMBERS_ADDED);
+      } else if (removedIds.length > 0) {
+        actions.push(TeamAuditAction.MEMBERS_REMOVED);
+      }
+
+      for (const action of actions) {
+        await this.teamAuditService.record(
+          {
+            teamId: team.id,
+            companyId: context.companyId,
+            action,
+            performedBy: context.actorId,
+            before,
+            after,
+            details: { ...this.auditDetails(context), addedIds, removedIds },
+          },
+          transaction
+        );
+      }
+    });
+  }
+
+  private async addMembers(
+    context: ScimRequestContext,
+    teamId: string,
+    userIds: string[],
+    transaction: Transaction
+  ): Promise<void> {
+    if (userIds.length === 0) {
+      return;
+    }
+
+    await this.teamMemberModel.bulkCreate(
+      userIds.map((userId) => ({
+        team_id: teamId,
+        user_id: userId,
+        added_by_user_id: context.actorId,
+      })),
+      { transaction }
+    );
+  }
+
+  /**
+   * Surfaces membership rule violations as SCIM invalidValue errors
+   */
+  private async validateMembership(validation: Promise<void>): Promise<void> {
+    try {
+      await validation;
+    } catch (error) {
+      if (error instanceof BadRequestException || error instanceof NotFoundException) {
+        throw scimInvalidValue(error.message);
+      }
+      throw error;
+    }
+  }
+
+  private toValidationCategory(category: TeamCategory): ValidationTeamCategory | undefined {
+    return category === TeamCategory.LEGAL ? ValidationTeamCategory.LEGAL : undefined;
+  }
+
+  private patchMembers(memberIds: Set<string>, op: string, ids: string[]): void {
+    if (op === 'replace') {
+      memberIds.clear();
+    }
+    for (const id of ids) {
+      if (op === 'remove') {
+        memberIds.delete(id);
+      } else {
+        memberIds.add(id);
+      }
+    }
+  }
+
+  private getFilterAttributes(): Record<string, ScimFilterAttribute> {
+    // Teams the user manages or belongs to
+    const members: ScimFilterAttribute = (operator, value) => {
+      if (operator !== 'eq' || typeof value !== 'string') {
+        throw scimInvalidFilter('members can only be compared with eq to a user id');
+      }
+      return {
+        [Op.or]: [
+          { owner_user_id: value },
+          {
+            id: {
+              [Op.in]: literal(
+                `(SELECT team_id FROM TeamMembers WHERE user_id = ${this.sequelize.escape(value)})`
+              ),
+            },
+          },
+        ],
+      };
+    };
+
+    return {
+      id: 'id',
+      displayname: 'name',
+      externalid: 'scim_external_id',
+      members,
+      'members.value': members,
+      'meta.created': 'created_at',
+      'meta.lastmodified': 'updated_at',
+    };
+  }
+
+  private isExcluded(query: ScimListQueryDto, attribute: string): boolean {
+    return (query.excludedAttributes ?? '')
+      .split(',')
+      .some((name) => name.trim().toLowerCase() === attribute);
+  }
+
+  private readResource(resource: ScimGroup): GroupChanges {
+    if (!resource || typeof resource !== 'object') {
+      throw scimInvalidValue('The request body must be a Group resource');
+    }
+    return this.readAttributes(resource as unknown as Record<string, unknown>);
+  }
+
+  /**
+   * Reads the mapped attributes of a resource or patch value. Unmapped attributes are
+   * ignored, since directories send more than this API stores.
+   */
+  private readAttributes(attributes: Record<string, unknown>): GroupChanges {
+    const changes: GroupChanges = {};
+
+    for (const [key, value] of Object.entries(attributes)) {
+      switch (key.toLowerCase()) {
+        case 'displayname':
+          changes.name = this.readName(value);
+          break;
+        case 'externalid':
+          changes.scim_external_id = this.readExternalId(value);
+          break;
+        case 'members':
+          changes.memberIds = this.readMemberIds(value);
+          break;
+      }
+    }
+
+    return changes;
+  }
+
+  private readExtension(resource: ScimGroup): ScimTeamExtension {
+    const extension = resource[SCIM_SCHEMAS.TEAM_EXTENSION];
+    if (extension === undefined || extension === null) {
+      return {};
+    }
+    if (typeof extension !== 'object') {
+      throw scimInvalidValue(`${SCIM_SCHEMAS.TEAM_EXTENSION} must be an object`);
+    }
+
+    if (
+      extension.category !== undefined &&
+      !Object.values(TeamCategory).includes(extension.category)
+    ) {
+      throw scimInvalidValue(`category must be one of: ${Object.values(TeamCategory).join(', ')}`);
+    }
+    if (extension.ownerId !== undefined && typeof extension.ownerId !== 'string') {
+      throw scimInvalidValue('ownerId must be a user id');
+    }
+
+    return extension;
+  }
+
+  private assertExtensionUnchanged(team: Team, extension: ScimTeamExtension): void {
+    if (
+      (extension.category !== undefined && extension.category !== team.category) ||
+      (extension.ownerId !== undefined && extension.ownerId !== team.owner_user_id)
+    ) {
+      throw scimMutability('The team category and manager can only be changed in the app');
+    }
+  }
+
+  private readName(value: unknown): string {
+    if (typeof value !== 'string' || value.trim() === '') {
+      throw scimInvalidValue('displayName must be a non-empty string');
+    }
+    if (value.trim().length > 255) {
+      throw scimInvalidValue('displayName must be at most 255 characters');
+    }
+    return value.trim();
+  }
+
+  private readExternalId(value: unknown): string | null {
+    if (value === null || value === '') {
+      return null;
+    }
+    if (typeof value !== 'string' || value.length > 255) {
+      throw scimInvalidValue('externalId must be a string of at most 255 characters');
+    }
+    return value;
+  }
+
+  private readMemberIds(value: unknown): string[] {
+    const entries = Array.isArray(value) ? value : [value];
+
+    return entries.map((entry: ScimMultiValuedAttribute) => {
+      if (!entry || typeof entry.value !== 'string' || entry.value === '') {
+        throw scimInvalidValue('members must be a list of objects with a user id as value');
+      }
+      return entry.value;
+    });
+  }
+
+  private async getCompanyOwnerId(context: ScimRequestContext): Promise<string> {
+    const company = await this.companyModel.findByPk(context.companyId, {
+      attributes: ['id', 'owner_id'],
+    });
+
+    if (!company?.owner_id) {
+      throw scimInvalidValue(
+        `${SCIM_SCHEMAS.TEAM_EXTENSION}:ownerId is required: the company has no owner`
+      );
+    }
+
+    return company.owner_id;
+  }
+
+  private async assertNameAvailable(
+    context: ScimRequestContext,
+    name: string,
+    teamId?: string
+  ): Promise<void> {
+    const existing = await this.teamModel.findOne({
+      where: {
+        company_id: context.companyId,
+        name,
+        ...(teamId ? { id: { [Op.ne]: teamId } } : {}),
+      },
+      attributes: ['id'],
+    });
+
+    if (existing) {
+      throw scimUniqueness(`A group with displayName ${name} already exists`);
+    }
+  }
+
+  private async assertExternalIdAvailable(
+    context: ScimRequestContext,
+    externalId: string,
+    teamId?: string
+  ): Promise<void> {
+    const existing = await this.teamModel.findOne({
+      where: {
+        company_id: context.companyId,
+        scim_external_id: externalId,
+        ...(teamId ? { id: { [Op.ne]: teamId } } : {}),
+      },
+      attributes: ['id'],
+    });
+
+    if (existing) {
+      throw scimUniqueness(`A group with externalId ${externalId} already exists`);
+    }
+  }
+
+  private auditDetails(context: ScimRequestContext): Record<string, unknown> {
+    return { source: 'SCIM', serviceAccountId: context.serviceAccount.id };
+  }
+
+  private async toScimGroupWithMembers(
+    team: Team,
+    context: ScimRequestContext
+  ): Promise<ScimGroup> {
+    const members = await this.findMembers([team.id]);
+    return this.toScimGroup(team, members.get(team.id) ?? [], context);
+  }
+
+  /**
+   * members is left out when the client excluded it
+   */
+  private toScimGroup(
+    team: Team,
+    members: TeamMember[] | undefined,
+    context: ScimRequestContext
+  ): ScimGroup {
+    const toMember = (user: User | undefined, userId: string): ScimMultiValuedAttribute => ({
+      value: userId,
+      display: user ? `${user.first_name} ${user.last_name}` : undefined,
+      $ref: `${context.baseUrl}/Users/${userId}`,
+    });
+
+    return {
+      schemas: [SCIM_SCHEMAS.GROUP, SCIM_SCHEMAS.TEAM_EXTENSION],
+      id: team.id,
+      externalId: team.scim_external_id ?? undefined,
+      displayName: team.name,
+      members: members
+        ? [
+            toMember(team.owner, team.owner_user_id),
+            ...members.map((member) => toMember(member.user, member.user_id)),
+          ]
+        : undefined,
+      [SCIM_SCHEMAS.TEAM_EXTENSION]: {
+        category: team.category,
+        ownerId: team.owner_user_id,
+      },
+      meta: {
+        resourceType: 'Group',
+        created: team.created_at?.toISOString(),
+        lastModified: team.updated_at?.toISOString(),
+        location: `${context.baseUrl}/Groups/${team.id}`,
+      },
+    };
+  }
+}
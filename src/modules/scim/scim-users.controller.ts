@@ -0,0 +1,117 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Header,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  Put,
+  Query,
+  UseFilters,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiParam, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { RawResponse } from '../../common/decorators/raw-response.decorator';
+import { ScimContext } from './decorators/scim-context.decorator';
+import { ScimListQueryDto } from './dto/scim-list-query.dto';
+import {
+  ScimUser,
+  ScimListResponse,
+  ScimPatchRequest,
+  ScimRequestContext,
+} from './dto/scim-resource.dto';
+import { ScimExceptionFilter } from './filters/scim-exception.filter';
+import { ScimAuthGuard } from './guards/scim-auth.guard';
+import { ScimUsersService } from './scim-users.service';
+import { SCIM_CONTENT_TYPE } from './scim.constants';
+
+@ApiTags('scim')
+@Controller('scim/v2/Users')
+@UseGuards(ScimAuthGuard)
+@UseFilters(ScimExceptionFilter)
+@RawResponse() // SCIM clients expect bare resources, not the API envelope
+@ApiBearerAuth()
+export class ScimUsersController {
+  constructor(private readonly scimUsersService: ScimUsersService) {}
+
+  @Get()
+  @Header('Content-Type', SCIM_CONTENT_TYPE)
+  @ApiOperation({
+    summary: 'List users',
+    description: 'SCIM ListResponse of the users of the company, with filter and pagination.',
+  })
+  @ApiResponse({ status: 200, description: 'ListResponse' })
+  @ApiResponse({ status: 400, description: 'Invalid filter' })
+  async findAll(
+    @ScimContext() context: ScimRequestContext,
+    @Query() query: ScimListQueryDto
+  ): Promise<ScimListResponse<ScimUser>> {
+    return this.scimUsersService.findAll(context, query);
+  }
+
+  @Get(':id')
+  @Header('Content-Type', SCIM_CONTENT_TYPE)
+  @ApiOperation({ summary: 'Get a user' })
+  @ApiParam({ name: 'id', description: 'User id' })
+  @ApiResponse({ status: 200, description: 'User resource' })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  async findOne(
+    @ScimContext() context: ScimRequestContext,
+    @Param('id') id: string
+  ): Promise<ScimUser> {
+    return this.scimUsersService.findOne(context, id);
+  }
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @Header('Content-Type', SCIM_CONTENT_TYPE)
+  @ApiOperation({ summary: 'Provision a user' })
+  @ApiResponse({ status: 201, description: 'User resource' })
+  @ApiResponse({ status: 400, description: 'Invalid value' })
+  @ApiResponse({ status: 409, description: 'User already exists' })
+  async create(
+    @ScimContext() context: ScimRequestContext,
+    @Body() resource: ScimUser
+  ): Promise<ScimUser> {
+    return this.scimUsersService.create(context, resource);
+  }
+
+  @Put(':id')
+  @Header('Content-Type', SCIM_CONTENT_TYPE)
+  @ApiOperation({ summary: 'Replace a user' })
+  @ApiParam({ name: 'id', description: 'User id' })
+  @ApiResponse({ status: 200, description: 'User resource' })
+  async replace(
+    @ScimContext() context: ScimRequestContext,
+    @Param('id') id: string,
+    @Body() resource: ScimUser
+  ): Promise<ScimUser> {
+    return this.scimUsersService.replace(context, id, resource);
+  }
+
+  @Patch(':id')
+  @Header('Content-Type', SCIM_CONTENT_TYPE)
+  @ApiOperation({ summary: 'Update a user with PatchOp operations' })
+  @ApiParam({ name: 'id', description: 'User id' })
+  @ApiResponse({ status: 200, description: 'User resource' })
+  async patch(
+    @ScimContext() context: ScimRequestContext,
+    @Param('id') id: string,
+    @Body() request: ScimPatchRequest
+  ): Promise<ScimUser> {
+    return this.scimUsersService.patch(context, id, request);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Deprovision a user' })
+  @ApiParam({ name: 'id', description: 'User id' })
+  @ApiResponse({ status: 204, description: 'User deactivated and offboarded' })
+  async remove(@ScimContext() context: ScimRequestContext, @Param('id') id: string): Promise<void> {
+    return this.scimUsersService.remove(context, id);
+  }
+}
@@ -0,0 +1,336 @@
+import { BadRequestException, ConflictException, NotFoundException } from '@nestjs/common';
+import { getConnectionToken, getModelToken } from '@nestjs/sequelize';
+import { Test, TestingModule } from '@nestjs/testing';
+import { Op } from 'sequelize';
+import { ERROR_CODES } from '../../common/constants/error-codes';
+import { AuditTrailService } from '../audit/audit-trail.service';
+import { AuthService } from '../auth/auth.service';
+import { User, UserStatus } from '../auth/entities/user.entity';
+import { InvitationService } from '../auth/invitation.service';
+import { UserOffboardingService } from '../auth/user-offboarding.service';
+import { Company } from '../company/entities/company.entity';
+import { Role } from '../role/entities/role.entity';
+import { PermissionGrantService } from '../role/permission-grant.service';
+import { PermissionsService } from '../role/permissions.service';
+import { ServiceAccount } from '../service-account/entities/service-account.entity';
+import { TeamService } from '../team/team.service';
+import { TokenRevocationService } from '../token-revocation/token-revocation.service';
+import { ScimRequestContext } from './dto/scim-resource.dto';
+import { ScimUsersService } from './scim-users.service';
+import { SCIM_SCHEMAS, ScimErrorType } from './scim.constants';
+
+describe('ScimUsersService', () => {
+  let service: ScimUsersService;
+  let userModel: { findAndCountAll: jest.Mock; findOne: jest.Mock; create: jest.Mock };
+  let roleModel: { findOne: jest.Mock };
+  let companyModel: { findByPk: jest.Mock };
+  let permissionGrantService: { revokeAllForUser: jest.Mock };
+  let authService: { createIdentityUser: jest.Mock; updateIdentityEmail: jest.Mock };
+  let invitationService: { create: jest.Mock; send: jest.Mock };
+  let teamService: { offboardUser: jest.Mock };
+  let permissionsService: { invalidateCache: jest.Mock };
+  let auditTrailService: { append: jest.Mock };
+  let tokenRevocationService: { revokeAllForUser: jest.Mock };
+
+  const context: ScimRequestContext = {
+    companyId: 'company-1',
+    serviceAccount: { id: 'sa-1' } as ServiceAccount,
+    actorId: 'admin-1',
+    baseUrl: 'https://api.example.com/scim/v2',
+  };
+
+  const buildUser = (overrides: Partial<User> = {}) => ({
+    id: 'user-1',
+    email: 'jane@example.com',
+    first_name: 'Jane',
+    last_name: 'Doe',
+    auth0_user_id: 'auth0|jane',
+    company_id: 'company-1',
+    status: UserStatus.ACTIVE,
+    job_title: null,
+    phone_number: null,
+    scim_external_id: null,
+    created_at: new Date('2025-01-01T00:00:00Z'),
+    updated_at: new Date('2025-01-02T00:00:00Z'),
+    update: jest.fn(),
+    ...overrides,
+  });
+
+  const expectScimError = async (promise: Promise<unknown>, scimType: ScimErrorType) => {
+    await expect(promise).rejects.toMatchObject({ response: { scimType } });
+  };
+
+  beforeEach(async () => {
+    userModel = { findAndCountAll: jest.fn(), findOne: jest.fn(), create: jest.fn() };
+    roleModel = { findOne: jest.fn().mockResolvedValue({ id: 'role-employee' }) };
+    companyModel = {
+      findByPk: jest.fn().mockResolvedValue({ id: 'company-1', owner_id: 'owner-1' }),
+    };
+    permissionGrantService = { revokeAllForUser: jest.fn().mockResolvedValue(1) };
+    authService = {
+      createIdentityUser: jest.fn().mockResolvedValue({ userId: 'auth0|new' }),
+      updateIdentityEmail: jest.fn(),
+    };
+    invitationService = {
+      create: jest.fn().mockResolvedValue({ token: 'invite-token' }),
+      send: jest.fn(),
+    };
+    teamService = {
+      offboardUser: jest.fn().mockResolvedValue({ removedFromTeamIds: [], reassignedTeamIds: [] }),
+    };
+    permissionsService = { invalidateCache: jest.fn() };
+    auditTrailService = { append: jest.fn() };
+    tokenRevocationService = { revokeAllForUser: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ScimUsersService,
+        { provide: getModelToken(User), useValue: userModel },
+        { provide: getModelToken(Role), useValue: roleModel },
+        { provide: getModelToken(Company), useValue: companyModel },
+        { provide: AuthService, useValue: authService },
+        { provide: InvitationService, useValue: invitationService },
+        UserOffboardingService,
+        { provide: TeamService, useValue: teamService },
+        { provide: PermissionGrantService, useValue: permissionGrantService },
+        { provide: PermissionsService, useValue: permissionsService },
+        { provide: AuditTrailService, useValue: auditTrailService },
+        { provide: TokenRevocationService, useValue: tokenRevocationService },
+        {
+          provide: getConnectionToken(),
+          useValue: { transaction: jest.fn((callback) => callback({})) },
+        },
+      ],
+    }).compile();
+
+    service = module.get(ScimUsersService);
+  });
+
+  describe('findAll', () => {
+    it('scopes the filter to the company and paginates from startIndex', async () => {
+      userModel.findAndCountAll.mockResolvedValue({ rows: [buildUser()], count: 3 });
+
+      const result = await service.findAll(context, {
+        filter: 'userName eq "jane@example.com"',
+        startIndex: 2,
+        count: 1,
+      });
+
+      expect(userModel.findAndCountAll).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            [Op.and]: [{ company_id: 'company-1', erased_at: null }, { email: 'jane@example.com' }],
+          },
+          offset: 1,
+          limit: 1,
+        })
+      );
+      expect(result).toMatchObject({
+        schemas: [SCIM_SCHEMAS.LIST_RESPONSE],
+        totalResults: 3,
+        startIndex: 2,
+        itemsPerPage: 1,
+      });
+      expect(result.Resources[0]).toMatchObject({
+        id: 'user-1',
+        userName: 'jane@example.com',
+        active: true,
+        meta: { location: 'https://api.example.com/scim/v2/Users/user-1' },
+      });
+    });
+
+    it('maps active to user statuses', async () => {
+      userModel.findAndCountAll.mockResolvedValue({ rows: [], count: 0 });
+
+      await service.findAll(context, { filter: 'active eq false' });
+
+      const where = userModel.findAndCountAll.mock.calls[0][0].where;
+      expect(where[Op.and][1]).toEqual({
+        status: { [Op.in]: [UserStatus.SUSPENDED, UserStatus.DEACTIVATED] },
+      });
+    });
+  });
+
+  describe('create', () => {
+    const resource = {
+      schemas: [SCIM_SCHEMAS.USER],
+      userName: 'New.Person@Example.com',
+      name: { givenName: 'New', familyName: 'Person' },
+      externalId: 'dir-42',
+      title: 'Paralegal',
+    };
+
+    it('creates a pending user with an invitation and audits it', async () => {
+      userModel.findOne.mockResolvedValue(null);
+      userModel.create.mockResolvedValue(
+        buildUser({ id: 'user-2', email: 'new.person@example.com', status: UserStatus.PENDING })
+      );
+
+      await service.create(context, resource);
+
+      expect(userModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          email: 'new.person@example.com',
+          first_name: 'New',
+          job_title: 'Paralegal',
+          scim_external_id: 'dir-42',
+          role_id: 'role-employee',
+          company_id: 'company-1',
+          status: UserStatus.PENDING,
+        }),
+        expect.anything()
+      );
+      expect(invitationService.create).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'user-2' }),
+        'admin-1',
+        expect.anything()
+      );
+      expect(invitationService.send).toHaveBeenCalledWith('new.person@example.com', 'invite-token');
+      expect(auditTrailService.append).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'USER_PROVISIONED',
+          performedBy: 'admin-1',
+          payload: expect.objectContaining({ serviceAccountId: 'sa-1' }),
+        }),
+        expect.anything()
+      );
+    });
+
+    it('rejects a userName that is already taken', async () => {
+      userModel.findOne.mockResolvedValue({ id: 'user-1' });
+
+      await expect(service.create(context, resource)).rejects.toThrow(ConflictException);
+      expect(authService.createIdentityUser).not.toHaveBeenCalled();
+    });
+
+    it('requires userName and name', async () => {
+      await expect(
+        service.create(context, { schemas: [SCIM_SCHEMAS.USER], userName: 'x@example.com' })
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('patch', () => {
+    it('deactivates and offboards a user when active is set to false', async () => {
+      const user = buildUser();
+      userModel.findOne.mockResolvedValue(user);
+
+      await service.patch(context, 'user-1', {
+        schemas: [SCIM_SCHEMAS.PATCH_OP],
+        Operations: [{ op: 'Replace', value: { active: 'False' } }],
+      });
+
+      expect(user.update).toHaveBeenCalledWith(
+        { status: UserStatus.DEACTIVATED },
+        expect.anything()
+      );
+      expect(tokenRevocationService.revokeAllForUser).toHaveBeenCalledWith(
+        'user-1',
+        expect.anything()
+      );
+      expect(teamService.offboardUser).toHaveBeenCalledWith(
+        'user-1',
+        'owner-1',
+        'admin-1',
+        expect.anything()
+      );
+      expect(permissionGrantService.revokeAllForUser).toHaveBeenCalledWith(
+        'user-1',
+        'admin-1',
+        'User deactivated over SCIM',
+        expect.anything()
+      );
+      expect(permissionsService.invalidateCache).toHaveBeenCalled();
+    });
+
+    it('does not reactivate suspended users', async () => {
+      const user = buildUser({ status: UserStatus.SUSPENDED });
+      userModel.findOne.mockResolvedValue(user);
+
+      const result = await service.patch(context, 'user-1', {
+        schemas: [SCIM_SCHEMAS.PATCH_OP],
+        Operations: [{ op: 'replace', path: 'active', value: true }],
+      });
+
+      expect(user.update).not.toHaveBeenCalled();
+      expect(result.active).toBe(false);
+    });
+
+    it('refuses to deactivate the company owner', async () => {
+      userModel.findOne.mockResolvedValue(buildUser({ id: 'owner-1' }));
+
+      await expectScimError(
+        service.patch(context, 'owner-1', {
+          schemas: [SCIM_SCHEMAS.PATCH_OP],
+          Operations: [{ op: 'replace', path: 'active', value: false }],
+        }),
+        ScimErrorType.MUTABILITY
+      );
+    });
+
+    it('updates mapped attributes and clears removed ones', async () => {
+      const user = buildUser({ job_title: 'Associate' });
+      userModel.findOne.mockResolvedValue(user);
+
+      await service.patch(context, 'user-1', {
+        schemas: [SCIM_SCHEMAS.PATCH_OP],
+        Operations: [
+          { op: 'replace', path: 'name.givenName', value: 'Janet' },
+          { op: 'remove', path: 'title' },
+        ],
+      });
+
+      expect(user.update).toHaveBeenCalledWith(
+        { first_name: 'Janet', job_title: null },
+        expect.anything()
+      );
+      expect(teamService.offboardUser).not.toHaveBeenCalled();
+    });
+
+    it('changes the login email last', async () => {
+      const user = buildUser();
+      userModel.findOne.mockResolvedValueOnce(user).mockResolvedValueOnce(null);
+
+      await service.patch(context, 'user-1', {
+        schemas: [SCIM_SCHEMAS.PATCH_OP],
+        Operations: [{ op: 'replace', path: 'userName', value: 'janet@example.com' }],
+      });
+
+      expect(authService.updateIdentityEmail).toHaveBeenCalledWith(
+        'auth0|jane',
+        'janet@example.com'
+      );
+      expect(authService.updateIdentityEmail.mock.invocationCallOrder[0]).toBeGreaterThan(
+        auditTrailService.append.mock.invocationCallOrder[0]
+      );
+    });
+
+    it('rejects unknown paths and removals without a path', async () => {
+      userModel.findOne.mockResolvedValue(buildUser());
+
+      await expectScimError(
+        service.patch(context, 'user-1', {
+          schemas: [SCIM_SCHEMAS.PATCH_OP],
+          Operations: [{ op: 'replace', path: 'nickName', value: 'JD' }],
+        }),
+        ScimErrorType.INVALID_PATH
+      );
+      await expectScimError(
+        service.patch(context, 'user-1', {
+          schemas: [SCIM_SCHEMAS.PATCH_OP],
+          Operations: [{ op: 'remove' }],
+        }),
+        ScimErrorType.NO_TARGET
+      );
+    });
+  });
+
+  it('returns a SCIM not found error for users of other companies', async () => {
+    userModel.findOne.mockResolvedValue(null);
+
+    await expect(service.findOne(context, 'user-9')).rejects.toThrow(NotFoundException);
+    await expect(service.findOne(context, 'user-9')).rejects.toMatchObject({
+      response: { code: ERROR_CODES.SCIM_RESOURCE_NOT_FOUND },
+    });
+  });
+});
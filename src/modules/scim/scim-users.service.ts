@@ -0,0 +1,644 @@
+import { Inject, Injectable, Logger, UnprocessableEntityException } from '@nestjs/common';
+import { getConnectionToken, InjectModel } from '@nestjs/sequelize';
+import { isEmail } from 'class-validator';
+import { Op, Transaction, WhereOptions } from 'sequelize';
+import { Sequelize } from 'sequelize-typescript';
+import { AuditTrailService } from '../audit/audit-trail.service';
+import { AuditSource } from '../audit/entities/audit-record.entity';
+import { AuthService } from '../auth/auth.service';
+import { User, UserStatus } from '../auth/entities/user.entity';
+import { InvitationService } from '../auth/invitation.service';
+import { UserOffboardingResult, UserOffboardingService } from '../auth/user-offboarding.service';
+import { Company } from '../company/entities/company.entity';
+import { Role } from '../role/entities/role.entity';
+import { PermissionsService } from '../role/permissions.service';
+import { ScimListQueryDto } from './dto/scim-list-query.dto';
+import {
+  ScimListResponse,
+  ScimPatchRequest,
+  ScimRequestContext,
+  ScimUser,
+} from './dto/scim-resource.dto';
+import {
+  scimInvalidFilter,
+  scimInvalidPath,
+  scimInvalidValue,
+  scimMutability,
+  scimNoTarget,
+  scimNotFound,
+  scimUniqueness,
+} from './scim-errors';
+import { parseScimFilter, ScimFilterAttribute } from './scim-filter';
+import { SCIM_DEFAULT_PAGE_SIZE, SCIM_SCHEMAS } from './scim.constants';
+
+/** Statuses reported as active: false */
+const INACTIVE_STATUSES: UserStatus[] = [UserStatus.SUSPENDED, UserStatus.DEACTIVATED];
+
+/** Role of users created by a directory; admins promote them in the app */
+const PROVISIONED_USER_ROLE_CODE = 'vendor_employee';
+
+const USER_FILTER_ATTRIBUTES: Record<string, ScimFilterAttribute> = {
+  id: 'id',
+  username: 'email',
+  externalid: 'scim_external_id',
+  emails: 'email',
+  'emails.value': 'email',
+  'name.givenname': 'first_name',
+  'name.familyname': 'last_name',
+  title: 'job_title',
+  'meta.created': 'created_at',
+  'meta.lastmodified': 'updated_at',
+  active: (operator, value) => {
+    if ((operator !== 'eq' && operator !== 'ne') || typeof value !== 'boolean') {
+      throw scimInvalidFilter('active can only be compared with eq or ne to true or false');
+    }
+    const active = (operator === 'eq') === value;
+    return { status: { [active ? Op.notIn : Op.in]: INACTIVE_STATUSES } };
+  },
+};
+
+/** Attributes accepted and ignored: they are derived from userName and name */
+const DERIVED_ATTRIBUTES = ['displayname', 'name.formatted', 'emails', 'schemas', 'id', 'meta'];
+
+type UserColumnChanges = Partial<
+  Pick<
+    User,
+    | 'email'
+    | 'first_name'
+    | 'last_name'
+    | 'phone_number'
+    | 'job_title'
+    | 'locale'
+    | 'timezone'
+    | 'scim_external_id'
+  >
+>;
+
+interface UserChanges extends UserColumnChanges {
+  active?: boolean;
+}
+
+/**
+ * SCIM 2.0 Users resource (RFC 7643, section 4.1) backed by the users of the
+ * directory's company.
+ *
+ * - userName is the email address; emails and displayName are derived from it and name
+ * - Created users get the Vendor Employee role and an invitation, like vendor-invite
+ * - active: false deactivates and offboards the user (teams they manage go to the company
+ *   owner); active: true reactivates deactivated users. Suspensions are made in the app
+ *   and are left alone by active: true.
+ * - DELETE deactivates rather than deletes, so that history stays attributable
+ */
+@Injectable()
+export class ScimUsersService {
+  private readonly logger = new Logger(ScimUsersService.name);
+
+  constructor(
+    @InjectModel(User)
+    private readonly userModel: typeof User,
+    @InjectModel(Role)
+    private readonly roleModel: typeof Role,
+    @InjectModel(Company)
+    private readonly companyModel: typeof Company,
+    private readonly authService: AuthService,
+    private readonly invitationService: InvitationService,
+    private readonly userOffboardingService: UserOffboardingService,
+    private readonly permissionsService: PermissionsService,
+    private readonly auditTrailService: AuditTrailService,
+    @Inject(getConnectionToken())
+    private readonly sequelize: Sequelize
+  ) {}
+
+  async findAll(
+    context: ScimRequestContext,
+    query: ScimListQueryDto
+  ): Promise<ScimListResponse<ScimUser>> {
+    const startIndex = query.startIndex ?? 1;
+    const count = query.count ?? SCIM_DEFAULT_PAGE_SIZE;
+
+    const conditions: WhereOptions[] = [{ company_id: context.companyId, erased_at: null }];
+    if (query.filter) {
+      conditions.push(parseScimFilter(query.filter, USER_FILTER_ATTRIBUTES));
+    }
+
+    const { rows, count: totalResults } = await this.userModel.findAndCountAll({
+      where: { [Op.and]: conditions },
+      order: [
+        ['created_at', 'ASC'],
+        ['id', 'ASC'],
+      ],
+      offset: startIndex - 1,
+      limit: count,
+    });
+
+    return {
+      schemas: [SCIM_SCHEMAS.LIST_RESPONSE],
+      totalResults,
+      startIndex,
+      itemsPerPage: rows.length,
+      Resources: rows.map((user) => this.toScimUser(user, context)),
+    };
+  }
+
+  async findOne(context: ScimRequestContext, id: string): Promise<ScimUser> {
+    return this.toScimUser(await this.findUser(context, id), context);
+  }
+
+  async create(context: ScimRequestContext, resource: ScimUser): Promise<ScimUser> {
+    const changes = this.readResource(resource);
+    const { email, first_name, last_name } = changes;
+    if (!email || !first_name || !last_name) {
+      throw scimInvalidValue('userName, name.givenName and name.familyName are required');
+    }
+
+    await this.assertEmailAvailable(email);
+    if (changes.scim_external_id) {
+      await this.assertExternalIdAvailable(context, changes.scim_external_id);
+    }
+
+    const active = changes.active ?? true;
+
+    let identityUserId: string;
+    try {
+      const identityUser = await this.authService.createIdentityUser({
+        email,
+        name: `${first_name} ${last_name}`,
+        user_metadata: {
+          companyId: context.companyId,
+          role: PROVISIONED_USER_ROLE_CODE,
+        },
+      });
+      identityUserId = identityUser.userId;
+    } catch (error) {
+      this.logger.error('Identity provider user creation failed', error);
+      throw new UnprocessableEntityException({
+        success: false,
+        code: 'AUTH0_ERROR',
+        message: 'Failed to create user in authentication system',
+      });
+    }
+
+    const role = await this.roleModel.findOne({
+      where: { code: PROVISIONED_USER_ROLE_CODE },
+      attributes: ['id'],
+    });
+    if (!role) {
+      throw new Error(`Role not found for code: ${PROVISIONED_USER_ROLE_CODE}`);
+    }
+
+    const { user, token } = await this.sequelize.transaction(async (transaction) => {
+      const createdUser = await this.userModel.create(
+        {
+          auth0_user_id: identityUserId,
+          email,
+          first_name,
+          last_name,
+          phone_number: changes.phone_number ?? null,
+          job_title: changes.job_title ?? null,
+          locale: changes.locale ?? null,
+          timezone: changes.timezone ?? null,
+          scim_external_id: changes.scim_external_id ?? null,
+          role_id: role.id,
+          company_id: context.companyId,
+          status: active ? UserStatus.PENDING : UserStatus.DEACTIVATED,
+        },
+        { transaction }
+      );
+
+      const issued = active
+        ? await this.invitationService.create(createdUser, context.actorId, transaction)
+        : null;
+
+      await this.recordAudit(
+        context,
+        createdUser,
+        'USER_PROVISIONED',
+        { status: createdUser.status },
+        transaction
+      );
+
+      return { user: createdUser, token: issued?.token };
+    });
+
+    if (token) {
+      await this.invitationService.send(email, token);
+    }
+
+    this.logger.log(`User ${user.id} provisioned over SCIM in company ${context.companyId}`);
+
+    return this.toScimUser(user, context);
+  }
+
+  /**
+   * PUT: replaces every mapped attribute; optional attributes left out are cleared
+   */
+  async replace(context: ScimRequestContext, id: string, resource: ScimUser): Promise<ScimUser> {
+    const user = await this.findUser(context, id);
+    const changes = this.readResource(resource);
+
+    if (!changes.email || !changes.first_name || !changes.last_name) {
+      throw scimInvalidValue('userName, name.givenName and name.familyName are required');
+    }
+
+    const updated = await this.applyChanges(context, user, {
+      phone_number: null,
+      job_title: null,
+      locale: null,
+      timezone: null,
+      scim_external_id: null,
+      active: true,
+      ...changes,
+    });
+
+    return this.toScimUser(updated, context);
+  }
+
+  async patch(
+    context: ScimRequestContext,
+    id: string,
+    request: ScimPatchRequest
+  ): Promise<ScimUser> {
+    const user = await this.findUser(context, id);
+
+    if (!Array.isArray(request?.Operations) || request.Operations.length === 0) {
+      throw scimInvalidValue('Operations must be a non-empty array');
+    }
+
+    const changes: UserChanges = {};
+    for (const operation of request.Operations) {
+      const op = String(operation?.op ?? '').toLowerCase();
+
+      if (op === 'remove') {
+        if (!operation.path) {
+          throw scimNoTarget('remove operations require a path');
+        }
+        this.applyPathOrThrow(changes, operation.path, null, true);
+      } else if (op === 'add' || op === 'replace') {
+        if (operation.path) {
+          this.applyPathOrThrow(changes, operation.path, operation.value, false);
+        } else if (operation.value && typeof operation.value === 'object') {
+          this.readAttributes(changes, operation.value as Record<string, unknown>);
+        } else {
+          throw scimInvalidValue(
+            `${operation.op} operations without a path require an object value`
+          );
+        }
+      } else {
+        throw scimInvalidValue(`Unsupported patch operation: ${operation?.op}`);
+      }
+    }
+
+    return this.toScimUser(await this.applyChanges(context, user, changes), context);
+  }
+
+  /**
+   * DELETE: deactivates and offboards the user
+   */
+  async remove(context: ScimRequestContext, id: string): Promise<void> {
+    const user = await this.findUser(context, id);
+    await this.applyChanges(context, user, { active: false });
+  }
+
+  private async findUser(context: ScimRequestContext, id: string): Promise<User> {
+    const user = await this.userModel.findOne({
+      where: { id, company_id: context.companyId, erased_at: null },
+    });
+
+    if (!user) {
+      throw scimNotFound('User', id);
+    }
+
+    return user;
+  }
+
+  /**
+   * Writes the changed columns and the status change implied by active, with the
+   * offboarding of deactivated users, in one transaction
+   */
+  private async applyChanges(
+    context: ScimRequestContext,
+    user: User,
+    changes: UserChanges
+  ): Promise<User> {
+    const { active, ...columns } = changes;
+
+    const updates: UserColumnChanges = {};
+    for (const [column, value] of Object.entries(columns) as [keyof UserColumnChanges, string][]) {
+      if (value !== undefined && (user[column] ?? null) !== value) {
+        updates[column] = value;
+      }
+    }
+
+    if (updates.email) {
+      await this.assertEmailAvailable(updates.email, user.id);
+    }
+    if (updates.scim_external_id) {
+      await this.assertExternalIdAvailable(context, updates.scim_external_id, user.id);
+    }
+
+    const previousStatus = user.status;
+    const status = active === undefined ? undefined : this.getNextStatus(previousStatus, active);
+    const changedFields = Object.keys(updates);
+
+    if (changedFields.length === 0 && !status) {
+      return user;
+    }
+
+    const newTeamOwnerId =
+      status === UserStatus.DEACTIVATED ? await this.getNewTeamOwnerId(context, user) : undefined;
+
+    await this.sequelize.transaction(async (transaction) => {
+      await user.update({ ...updates, ...(status ? { status } : {}) }, { transaction });
+
+      let offboarding: UserOffboardingResult | undefined;
+      if (status === UserStatus.DEACTIVATED) {
+        offboarding = await this.userOffboardingService.offboard(
+          user.id,
+          {
+            newTeamOwnerId,
+            performedBy: context.actorId,
+            reason: 'User deactivated over SCIM',
+          },
+          transaction
+        );
+      }
+
+      await this.recordAudit(
+        context,
+        user,
+        'USER_PROVISIONING_UPDATED',
+        {
+          changedFields,
+          ...(status ? { previousStatus, newStatus: status } : {}),
+          offboarding,
+        },
+        transaction
+      );
+
+      if (updates.email) {
+        // Last, so a rejection by the identity provider rolls everything back and no
+        // later failure leaves the login changed without the user
+        await this.authService.updateIdentityEmail(user.auth0_user_id, updates.email);
+      }
+    });
+
+    if (status) {
+      await this.permissionsService.invalidateCache({
+        user_id: user.id,
+        company_id: user.company_id,
+        reason: `User status changed to ${status} over SCIM`,
+      });
+    }
+
+    return user;
+  }
+
+  private getNextStatus(current: UserStatus, active: boolean): UserStatus | undefined {
+    if (!active) {
+      return INACTIVE_STATUSES.includes(current) ? undefined : UserStatus.DEACTIVATED;
+    }
+    return current === UserStatus.DEACTIVATED ? UserStatus.ACTIVE : undefined;
+  }
+
+  /**
+   * Teams managed by a deactivated user are handed to the company owner, who cannot be
+   * deactivated over SCIM
+   */
+  private async getNewTeamOwnerId(
+    context: ScimRequestContext,
+    user: User
+  ): Promise<string | undefined> {
+    const company = await this.companyModel.findByPk(context.companyId, {
+      attributes: ['id', 'owner_id'],
+    });
+
+    if (company?.owner_id === user.id) {
+      throw scimMutability('The company owner cannot be deactivated over SCIM');
+    }
+
+    return company?.owner_id;
+  }
+
+  private readResource(resource: ScimUser): UserChanges {
+    if (!resource || typeof resource !== 'object') {
+      throw scimInvalidValue('The request body must be a User resource');
+    }
+
+    const changes: UserChanges = {};
+    this.readAttributes(changes, resource as unknown as Record<string, unknown>);
+    return changes;
+  }
+
+  /**
+   * Reads the mapped attributes of a resource or patch value. Unmapped attributes are
+   * ignored, since directories send more than this API stores.
+   */
+  private readAttributes(changes: UserChanges, attributes: Record<string, unknown>): void {
+    for (const [key, value] of Object.entries(attributes)) {
+      if (key.toLowerCase() === 'name' && value && typeof value === 'object') {
+        for (const [nameKey, nameValue] of Object.entries(value)) {
+          this.applyPath(changes, `name.${nameKey}`, nameValue, false);
+        }
+      } else {
+        this.applyPath(changes, key, value, false);
+      }
+    }
+  }
+
+  private applyPathOrThrow(
+    changes: UserChanges,
+    path: string,
+    value: unknown,
+    remove: boolean
+  ): void {
+    if (!this.applyPath(changes, path, value, remove)) {
+      throw scimInvalidPath(`Unsupported attribute path: ${path}`);
+    }
+  }
+
+  /**
+   * Maps one attribute to its column. Returns false for attributes this API does not map.
+   */
+  private applyPath(changes: UserChanges, path: string, value: unknown, remove: boolean): boolean {
+    const key = (
+      path.toLowerCase().startsWith(`${SCIM_SCHEMAS.USER.toLowerCase()}:`)
+        ? path.slice(SCIM_SCHEMAS.USER.length + 1)
+        : path
+    ).toLowerCase();
+
+    if (key === 'name' && value && typeof value === 'object' && !remove) {
+      this.readAttributes(changes, { name: value });
+      return true;
+    }
+
+    if (DERIVED_ATTRIBUTES.includes(key) || /^emails(\[.*\])?(\.\w+)?$/.test(key)) {
+      return true;
+    }
+
+    if (/^phonenumbers(\[.*\])?(\.value)?$/.test(key)) {
+      changes.phone_number = remove ? null : this.readPhoneNumber(value);
+      return true;
+    }
+
+    switch (key) {
+      case 'username':
+        changes.email = this.readEmail(this.requireValue(value, path, remove));
+        return true;
+      case 'name.givenname':
+        changes.first_name = this.readString(this.requireValue(value, path, remove), path, 255);
+        return true;
+      case 'name.familyname':
+        changes.last_name = this.readString(this.requireValue(value, path, remove), path, 255);
+        return true;
+      case 'active':
+        changes.active = this.readBoolean(this.requireValue(value, path, remove), path);
+        return true;
+      case 'title':
+        changes.job_title = remove ? null : this.readNullableString(value, path, 100);
+        return true;
+      case 'locale':
+        changes.locale = remove ? null : this.readNullableString(value, path, 16);
+        return true;
+      case 'timezone':
+        changes.timezone = remove ? null : this.readNullableString(value, path, 64);
+        return true;
+      case 'externalid':
+        changes.scim_external_id = remove ? null : this.readNullableString(value, path, 255);
+        return true;
+      default:
+        return false;
+    }
+  }
+
+  private requireValue(value: unknown, path: string, remove: boolean): unknown {
+    if (remove) {
+      throw scimInvalidValue(`${path} is required and cannot be removed`);
+    }
+    return value;
+  }
+
+  private readString(value: unknown, attribute: string, maxLength: number): string {
+    if (typeof value !== 'string' || value.trim() === '') {
+      throw scimInvalidValue(`${attribute} must be a non-empty string`);
+    }
+    if (value.trim().length > maxLength) {
+      throw scimInvalidValue(`${attribute} must be at most ${maxLength} characters`);
+    }
+    return value.trim();
+  }
+
+  private readNullableString(value: unknown, attribute: string, maxLength: number): string | null {
+    return value === null || value === '' ? null : this.readString(value, attribute, maxLength);
+  }
+
+  private readEmail(value: unknown): string {
+    const email = this.readString(value, 'userName', 255).toLowerCase();
+    if (!isEmail(email)) {
+      throw scimInvalidValue('userName must be an email address');
+    }
+    return email;
+  }
+
+  /** Directories such as Azure AD send booleans as "True" and "False" */
+  private readBoolean(value: unknown, attribute: string): boolean {
+    if (typeof value === 'boolean') {
+      return value;
+    }
+    if (typeof value === 'string' && ['true', 'false'].includes(value.toLowerCase())) {
+      return value.toLowerCase() === 'true';
+    }
+    throw scimInvalidValue(`${attribute} must be a boolean`);
+  }
+
+  /** Takes the primary (or first) value of phoneNumbers, or a single number */
+  private readPhoneNumber(value: unknown): string | null {
+    if (Array.isArray(value)) {
+      const entries = value as { value?: unknown; primary?: boolean }[];
+      const entry = entries.find((item) => item?.primary) ?? entries[0];
+      return entry ? this.readNullableString(entry.value, 'phoneNumbers', 32) : null;
+    }
+    if (value && typeof value === 'object') {
+      return this.readNullableString((value as { value?: unknown }).value, 'phoneNumbers', 32);
+    }
+    return this.readNullableString(value, 'phoneNumbers', 32);
+  }
+
+  private async assertEmailAvailable(email: string, userId?: string): Promise<void> {
+    const existing = await this.userModel.findOne({
+      where: { email, ...(userId ? { id: { [Op.ne]: userId } } : {}) },
+      attributes: ['id'],
+    });
+
+    if (existing) {
+      throw scimUniqueness(`A user with userName ${email} already exists`);
+    }
+  }
+
+  private async assertExternalIdAvailable(
+    context: ScimRequestContext,
+    externalId: string,
+    userId?: string
+  ): Promise<void> {
+    const existing = await this.userModel.findOne({
+      where: {
+        company_id: context.companyId,
+        scim_external_id: externalId,
+        ...(userId ? { id: { [Op.ne]: userId } } : {}),
+      },
+      attributes: ['id'],
+    });
+
+    if (existing) {
+      throw scimUniqueness(`A user with externalId ${externalId} already exists`);
+    }
+  }
+
+  private async recordAudit(
+    context: ScimRequestContext,
+    user: User,
+    action: string,
+    payload: Record<string, unknown>,
+    transaction: Transaction
+  ): Promise<void> {
+    await this.auditTrailService.append(
+      {
+        tenantId: context.companyId,
+        source: AuditSource.USER,
+        action,
+        entityId: user.id,
+        performedBy: context.actorId,
+        payload: { ...payload, serviceAccountId: context.serviceAccount.id },
+      },
+      transaction
+    );
+  }
+
+  private toScimUser(user: User, context: ScimRequestContext): ScimUser {
+    const formattedName = `${user.first_name} ${user.last_name}`;
+
+    return {
+      schemas: [SCIM_SCHEMAS.USER],
+      id: user.id,
+      externalId: user.scim_external_id ?? undefined,
+      userName: user.email,
+      name: {
+        givenName: user.first_name,
+        familyName: user.last_name,
+        formatted: formattedName,
+      },
+      displayName: formattedName,
+      title: user.job_title ?? undefined,
+      locale: user.locale ?? undefined,
+      timezone: user.timezone ?? undefined,
+      active: !INACTIVE_STATUSES.includes(user.status),
+      emails: [{ value: user.email, type: 'work', primary: true }],
+      phoneNumbers: user.phone_number ? [{ value: user.phone_number, type: 'work' }] : undefined,
+      meta: {
+        resourceType: 'User',
+        created: user.created_at?.toISOString(),
+        lastModified: user.updated_at?.toISOString(),
+        location: `${context.baseUrl}/Users/${user.id}`,
+      },
+    };
+  }
+}
@@ -0,0 +1,28 @@
+/** Schema URIs of the SCIM 2.0 resources and messages (RFC 7643, RFC 7644) */
+export const SCIM_SCHEMAS = {
+  USER: 'urn:ietf:params:scim:schemas:core:2.0:User',
+  GROUP: 'urn:ietf:params:scim:schemas:core:2.0:Group',
+  LIST_RESPONSE: 'urn:ietf:params:scim:api:messages:2.0:ListResponse',
+  PATCH_OP: 'urn:ietf:params:scim:api:messages:2.0:PatchOp',
+  ERROR: 'urn:ietf:params:scim:api:messages:2.0:Error',
+  /** Team attributes that have no SCIM core equivalent */
+  TEAM_EXTENSION: 'urn:acme:params:scim:schemas:extension:team:2.0:Group',
+} as const;
+
+export const SCIM_CONTENT_TYPE = 'application/scim+json';
+
+/** Permission a service account needs for its API keys to be accepted as SCIM bearer tokens */
+export const SCIM_PROVISION_PERMISSION = 'scim:provision';
+
+export const SCIM_DEFAULT_PAGE_SIZE = 100;
+export const SCIM_MAX_PAGE_SIZE = 200;
+
+/** scimType values of SCIM error responses (RFC 7644, section 3.12) */
+export enum ScimErrorType {
+  INVALID_FILTER = 'invalidFilter',
+  INVALID_VALUE = 'invalidValue',
+  INVALID_PATH = 'invalidPath',
+  NO_TARGET = 'noTarget',
+  UNIQUENESS = 'uniqueness',
+  MUTABILITY = 'mutability',
+}
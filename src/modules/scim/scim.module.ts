@@ -0,0 +1,30 @@
+import { Module } from '@nestjs/common';
+import { SequelizeModule } from '@nestjs/sequelize';
+import { AuthModule } from '../auth/auth.module';
+import { User } from '../auth/entities/user.entity';
+import { Company } from '../company/entities/company.entity';
+import { Role } from '../role/entities/role.entity';
+import { RoleModule } from '../role/role.module';
+import { TeamMember } from '../team/entities/team-member.entity';
+import { Team } from '../team/entities/team.entity';
+import { TeamModule } from '../team/team.module';
+import { ScimAuthGuard } from './guards/scim-auth.guard';
+import { ScimGroupsController } from './scim-groups.controller';
+import { ScimGroupsService } from './scim-groups.service';
+import { ScimUsersController } from './scim-users.controller';
+import { ScimUsersService } from './scim-users.service';
+
+/**
+ * SCIM 2.0 provisioning of users and teams by company directories
+ */
+@Module({
+  imports: [
+    SequelizeModule.forFeature([User, Role, Company, Team, TeamMember]),
+    AuthModule,
+    TeamModule,
+    RoleModule,
+  ],
+  controllers: [ScimUsersController, ScimGroupsController],
+  providers: [ScimUsersService, ScimGroupsService, ScimAuthGuard],
+})
+export class ScimModule {}
@@ -0,0 +1,50 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  ArrayUnique,
+  IsArray,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+} from 'class-validator';
+
+export class CreateServiceAccountDto {
+  @ApiProperty({
+    description: 'Name of the service account, unique within the company',
+    example: 'crm-nightly-sync',
+    maxLength: 100,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @ApiPropertyOptional({
+    description: 'What the service account is used for',
+    example: 'Nightly CRM synchronisation job',
+    maxLength: 500,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  description?: string;
+
+  @ApiProperty({
+    description: 'Permission names granted to the service account',
+    type: [String],
+    example: ['teams:read:own'],
+  })
+  @IsArray()
+  @ArrayUnique()
+  @IsString({ each: true })
+  permissions: string[];
+
+  @ApiPropertyOptional({
+    description: 'Company of the service account (Acme admins only; others use their own)',
+    example: 'c4a8f4b0-8d2a-4b6d-8f9c-1e2b3d4a5f6a',
+  })
+  @IsOptional()
+  @IsUUID('4', { message: 'companyId must be a valid UUID' })
+  companyId?: string;
+}
@@ -0,0 +1,17 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsInt, IsOptional, Max, Min } from 'class-validator';
+
+export class RotateApiKeyDto {
+  @ApiPropertyOptional({
+    description:
+      'Minutes the replaced key keeps working so callers can switch over (revoked at once when 0)',
+    example: 60,
+    default: 0,
+    maximum: 10080,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(10080)
+  gracePeriodMinutes?: number = 0;
+}
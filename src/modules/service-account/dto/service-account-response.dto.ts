@@ -0,0 +1,62 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ServiceAccountStatus } from '../entities/service-account.entity';
+
+/**
+ * Public-facing shape of an API key. The key itself is only returned when it is issued.
+ */
+export class ApiKeyResponseDto {
+  @ApiProperty({ example: 'f81d4fae-7dec-11d0-a765-00a0c91e6bf6' })
+  id: string;
+
+  @ApiProperty({ example: 'production' })
+  name: string;
+
+  @ApiProperty({ description: 'First characters of the key', example: 'acme_sk_3f9a1c2b' })
+  prefix: string;
+
+  @ApiPropertyOptional({ type: Date, nullable: true })
+  expiresAt: Date | null;
+
+  @ApiPropertyOptional({ type: Date, nullable: true })
+  lastUsedAt: Date | null;
+
+  @ApiPropertyOptional({ type: Date, nullable: true })
+  revokedAt: Date | null;
+
+  @ApiProperty()
+  createdAt: Date;
+}
+
+export class IssuedApiKeyResponseDto extends ApiKeyResponseDto {
+  @ApiProperty({
+    description: 'The API key. It is shown only once; send it in the X-Api-Key header.',
+    example: 'acme_sk_3f9a1c2b_Q2hhbmdlIG1lIHBsZWFzZSBhbmQgdGhhbmsgeW91',
+  })
+  key: string;
+}
+
+export class ServiceAccountResponseDto {
+  @ApiProperty({ example: 'a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11' })
+  id: string;
+
+  @ApiProperty({ example: 'c4a8f4b0-8d2a-4b6d-8f9c-1e2b3d4a5f6a' })
+  companyId: string;
+
+  @ApiProperty({ example: 'crm-nightly-sync' })
+  name: string;
+
+  @ApiPropertyOptional({ nullable: true })
+  description: string | null;
+
+  @ApiProperty({ enum: ServiceAccountStatus })
+  status: ServiceAccountStatus;
+
+  @ApiProperty({ type: [String], example: ['teams:read:own'] })
+  permissions: string[];
+
+  @ApiProperty({ type: [ApiKeyResponseDto] })
+  apiKeys: ApiKeyResponseDto[];
+
+  @ApiProperty()
+  createdAt: Date;
+}
@@ -0,0 +1,46 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  ArrayUnique,
+  IsArray,
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { ServiceAccountStatus } from '../entities/service-account.entity';
+
+export class UpdateServiceAccountDto {
+  @ApiPropertyOptional({ description: 'New name', maxLength: 100 })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name?: string;
+
+  @ApiPropertyOptional({ description: 'New description', maxLength: 500 })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  description?: string;
+
+  @ApiPropertyOptional({
+    description: 'Disable to reject all API keys of the service account',
+    enum: ServiceAccountStatus,
+  })
+  @IsOptional()
+  @IsEnum(ServiceAccountStatus, {
+    message: `Status must be one of: ${Object.values(ServiceAccountStatus).join(', ')}`,
+  })
+  status?: ServiceAccountStatus;
+
+  @ApiPropertyOptional({
+    description: 'Replaces the permission names granted to the service account',
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayUnique()
+  @IsString({ each: true })
+  permissions?: string[];
+}
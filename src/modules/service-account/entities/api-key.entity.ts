@@ -0,0 +1,89 @@
+import {
+  AllowNull,
+  BelongsTo,
+  Column,
+  CreatedAt,
+  DataType,
+  Default,
+  ForeignKey,
+  Model,
+  PrimaryKey,
+  Table,
+  UpdatedAt,
+} from 'sequelize-typescript';
+import { User } from '../../auth/entities/user.entity';
+import { ServiceAccount } from './service-account.entity';
+
+/**
+ * API key of a service account, sent in the X-Api-Key header.
+ * Only the SHA-256 hash of the key is stored; key_prefix identifies it in listings.
+ */
+@Table({
+  tableName: 'ApiKeys',
+  timestamps: true,
+  underscored: true,
+  indexes: [
+    {
+      fields: ['key_hash'],
+      unique: true,
+      name: 'uq_api_keys_key_hash',
+    },
+    {
+      fields: ['service_account_id'],
+      name: 'idx_api_keys_service_account',
+    },
+  ],
+})
+export class ApiKey extends Model {
+  @PrimaryKey
+  @Default(DataType.UUIDV4)
+  @Column(DataType.UUID)
+  id: string;
+
+  @AllowNull(false)
+  @ForeignKey(() => ServiceAccount)
+  @Column(DataType.UUID)
+  service_account_id: string;
+
+  @AllowNull(false)
+  @Column(DataType.STRING(100))
+  name: string;
+
+  @AllowNull(false)
+  @Column(DataType.STRING(32))
+  key_prefix: string;
+
+  @AllowNull(false)
+  @Column(DataType.CHAR(64))
+  key_hash: string;
+
+  @Column(DataType.DATE)
+  expires_at?: Date | null;
+
+  @Column(DataType.DATE)
+  last_used_at?: Date | null;
+
+  @Column(DataType.DATE)
+  revoked_at?: Date | null;
+
+  @ForeignKey(() => User)
+  @Column(DataType.UUID)
+  revoked_by?: string | null;
+
+  @ForeignKey(() => User)
+  @Column(DataType.UUID)
+  created_by?: string | null;
+
+  /** Key that replaced this one when it was rotated */
+  @Column(DataType.UUID)
+  replaced_by_id?: string | null;
+
+  @BelongsTo(() => ServiceAccount)
+  service_account: ServiceAccount;
+
+  @CreatedAt
+  created_at: Date;
+
+  @UpdatedAt
+  updated_at: Date;
+}
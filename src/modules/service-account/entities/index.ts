@@ -0,0 +1,3 @@
+export { ServiceAccount, ServiceAccountStatus } from './service-account.entity';
+export { ServiceAccountPermission } from './service-account-permission.entity';
+export { ApiKey } from './api-key.entity';
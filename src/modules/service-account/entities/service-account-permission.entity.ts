@@ -0,0 +1,56 @@
+import {
+  AllowNull,
+  BelongsTo,
+  Column,
+  CreatedAt,
+  DataType,
+  Default,
+  ForeignKey,
+  Model,
+  PrimaryKey,
+  Table,
+  UpdatedAt,
+} from 'sequelize-typescript';
+import { Permission } from '../../role/entities/permission.entity';
+import { ServiceAccount } from './service-account.entity';
+
+@Table({
+  tableName: 'ServiceAccountPermissions',
+  timestamps: true,
+  underscored: true,
+  indexes: [
+    {
+      fields: ['service_account_id', 'permission_id'],
+      unique: true,
+      name: 'uq_service_account_permission',
+    },
+  ],
+})
+export class ServiceAccountPermission extends Model {
+  @PrimaryKey
+  @Default(DataType.UUIDV4)
+  @Column(DataType.UUID)
+  id: string;
+
+  @AllowNull(false)
+  @ForeignKey(() => ServiceAccount)
+  @Column(DataType.UUID)
+  service_account_id: string;
+
+  @AllowNull(false)
+  @ForeignKey(() => Permission)
+  @Column(DataType.UUID)
+  permission_id: string;
+
+  @BelongsTo(() => ServiceAccount)
+  service_account: ServiceAccount;
+
+  @BelongsTo(() => Permission)
+  permission: Permission;
+
+  @CreatedAt
+  created_at: Date;
+
+  @UpdatedAt
+  updated_at: Date;
+}
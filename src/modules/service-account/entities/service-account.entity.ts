@@ -0,0 +1,88 @@
+import {
+  AllowNull,
+  BelongsTo,
+  BelongsToMany,
+  Column,
+  CreatedAt,
+  DataType,
+  Default,
+  ForeignKey,
+  HasMany,
+  Model,
+  PrimaryKey,
+  Table,
+  UpdatedAt,
+} from 'sequelize-typescript';
+import { User } from '../../auth/entities/user.entity';
+import { Company } from '../../company/entities/company.entity';
+import { Permission } from '../../role/entities/permission.entity';
+import { ApiKey } from './api-key.entity';
+import { ServiceAccountPermission } from './service-account-permission.entity';
+
+export enum ServiceAccountStatus {
+  ACTIVE = 'active',
+  /** API keys of a disabled service account are rejected */
+  DISABLED = 'disabled',
+}
+
+/**
+ * Non-human principal of a company (e.g. a nightly CRM sync) that authenticates with
+ * API keys. It holds an explicit list of permissions instead of a role.
+ */
+@Table({
+  tableName: 'ServiceAccounts',
+  timestamps: true,
+  underscored: true,
+  indexes: [
+    {
+      fields: ['company_id', 'name'],
+      unique: true,
+      name: 'uq_service_accounts_company_name',
+    },
+  ],
+})
+export class ServiceAccount extends Model {
+  @PrimaryKey
+  @Default(DataType.UUIDV4)
+  @Column(DataType.UUID)
+  id: string;
+
+  @AllowNull(false)
+  @ForeignKey(() => Company)
+  @Column(DataType.UUID)
+  company_id: string;
+
+  @AllowNull(false)
+  @Column(DataType.STRING(100))
+  name: string;
+
+  @Column(DataType.STRING(500))
+  description?: string | null;
+
+  @AllowNull(false)
+  @Default(ServiceAccountStatus.ACTIVE)
+  @Column(DataType.ENUM(...Object.values(ServiceAccountStatus)))
+  status: ServiceAccountStatus;
+
+  @ForeignKey(() => User)
+  @Column(DataType.UUID)
+  created_by?: string | null;
+
+  @BelongsTo(() => Company)
+  company: Company;
+
+  @BelongsTo(() => User, 'created_by')
+  creator: User;
+
+  @HasMany(() => ApiKey)
+  api_keys: ApiKey[];
+
+  @BelongsToMany(() => Permission, () => ServiceAccountPermission)
+  permissions: Permission[];
+
+  @CreatedAt
+  created_at: Date;
+
+  @UpdatedAt
+  updated_at: Date;
+}
@@ -0,0 +1,24 @@
+import { Global, Module } from '@nestjs/common';
+import { SequelizeModule } from '@nestjs/sequelize';
+import { Permission } from '../role/entities/permission.entity';
+import { RoleModule } from '../role/role.module';
+import { ApiKey } from './entities/api-key.entity';
+import { ServiceAccountPermission } from './entities/service-account-permission.entity';
+import { ServiceAccount } from './entities/service-account.entity';
+import { ServiceAccountService } from './service-account.service';
+import { ServiceAccountsController } from './service-accounts.controller';
+
+/**
+ * Global so that JwtAuthGuard can authenticate API keys in every module that uses it
+ */
+@Global()
+@Module({
+  imports: [
+    SequelizeModule.forFeature([ServiceAccount, ServiceAccountPermission, ApiKey, Permission]),
+    RoleModule,
+  ],
+  controllers: [ServiceAccountsController],
+  providers: [ServiceAccountService],
+  exports: [ServiceAccountService],
+})
+export class ServiceAccountModule {}
@@ -0,0 +1,342 @@
+import {
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+  UnauthorizedException,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { getConnectionToken, getModelToken } from '@nestjs/sequelize';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ERROR_CODES } from '../../common/constants/error-codes';
+import { AuditTrailService } from '../audit/audit-trail.service';
+import { AuditSource } from '../audit/entities/audit-record.entity';
+import { User, UserRole } from '../auth/entities/user.entity';
+import { Permission } from '../role/entities/permission.entity';
+import { PermissionsService } from '../role/permissions.service';
+import { ApiKey } from './entities/api-key.entity';
+import { ServiceAccountPermission } from './entities/service-account-permission.entity';
+import { ServiceAccount, ServiceAccountStatus } from './entities/service-account.entity';
+import { ServiceAccountService } from './service-account.service';
+
+describe('ServiceAccountService', () => {
+  let service: ServiceAccountService;
+  let serviceAccountModel: any;
+  let serviceAccountPermissionModel: any;
+  let apiKeyModel: any;
+  let permissionModel: any;
+  let permissionsService: any;
+  let auditTrailService: any;
+
+  const buildUser = (role: UserRole, companyId = 'company-1') =>
+    ({
+      id: 'user-1',
+      company_id: companyId,
+      hasRoleEnum: jest.fn((r: UserRole) => r === role),
+    }) as unknown as User;
+
+  const vendorAdmin = buildUser(UserRole.VENDOR_ADMIN);
+
+  const buildServiceAccount = (overrides: Record<string, any> = {}) => ({
+    id: 'sa-1',
+    company_id: 'company-1',
+    name: 'crm-sync',
+    description: null,
+    status: ServiceAccountStatus.ACTIVE,
+    permissions: [{ id: 'perm-1', name: 'teams:read:own' }],
+    api_keys: [],
+    created_at: new Date('2025-01-01'),
+    update: jest.fn(),
+    ...overrides,
+  });
+
+  const buildApiKey = (overrides: Record<string, any> = {}) => {
+    const apiKey: any = {
+      id: 'key-1',
+      service_account_id: 'sa-1',
+      name: 'production',
+      key_prefix: 'acme_sk_1234abcd',
+      expires_at: null,
+      last_used_at: null,
+      revoked_at: null,
+      replaced_by_id: null,
+      created_at: new Date('2025-01-01'),
+      service_account: buildServiceAccount(),
+      ...overrides,
+    };
+    apiKey.update = jest.fn(async (changes: Record<string, any>) => Object.assign(apiKey, changes));
+    return apiKey;
+  };
+
+  beforeEach(async () => {
+    serviceAccountModel = {
+      findAll: jest.fn(),
+      findByPk: jest.fn(),
+      findOne: jest.fn(),
+      create: jest.fn(),
+    };
+    serviceAccountPermissionModel = { destroy: jest.fn(), bulkCreate: jest.fn() };
+    apiKeyModel = {
+      findOne: jest.fn(),
+      create: jest.fn(async (values) => ({
+        id: 'key-new',
+        created_at: new Date(),
+        ...values,
+      })),
+    };
+    permissionModel = { findAll: jest.fn() };
+    permissionsService = { hasPermissions: jest.fn(), invalidateCache: jest.fn() };
+    auditTrailService = { append: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ServiceAccountService,
+        { provide: getModelToken(ServiceAccount), useValue: serviceAccountModel },
+        {
+          provide: getModelToken(ServiceAccountPermission),
+          useValue: serviceAccountPermissionModel,
+        },
+        { provide: getModelToken(ApiKey), useValue: apiKeyModel },
+        { provide: getModelToken(Permission), useValue: permissionModel },
+        { provide: PermissionsService, useValue: permissionsService },
+        { provide: AuditTrailService, useValue: auditTrailService },
+        {
+          provide: getConnectionToken(),
+          useValue: { transaction: jest.fn((callback) => callback({})) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<ServiceAccountService>(ServiceAccountService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('authenticate', () => {
+    it('should resolve the service account and record the use of the key', async () => {
+      const apiKey = buildApiKey();
+      apiKeyModel.findOne.mockResolvedValue(apiKey);
+
+      const result = await service.authenticate('acme_sk_1234abcd_secret');
+
+      expect(apiKeyModel.findOne).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { key_hash: ServiceAccountService.hashKey('acme_sk_1234abcd_secret') },
+        })
+      );
+      expect(result.serviceAccount).toBe(apiKey.service_account);
+      expect(apiKey.update).toHaveBeenCalledWith({ last_used_at: expect.any(Date) });
+    });
+
+    it('should not record the use of a key that was used moments ago', async () => {
+      const apiKey = buildApiKey({ last_used_at: new Date() });
+      apiKeyModel.findOne.mockResolvedValue(apiKey);
+
+      await service.authenticate('acme_sk_1234abcd_secret');
+
+      expect(apiKey.update).not.toHaveBeenCalled();
+    });
+
+    it.each([
+      ['unknown', null],
+      ['revoked', buildApiKey({ revoked_at: new Date() })],
+    ])('should reject %s keys', async (_label, apiKey) => {
+      apiKeyModel.findOne.mockResolvedValue(apiKey);
+
+      const error = await service.authenticate('key').catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(UnauthorizedException);
+      expect((error as UnauthorizedException).getResponse()).toEqual(
+        expect.objectContaining({ code: ERROR_CODES.API_KEY_INVALID })
+      );
+    });
+
+    it('should reject expired keys', async () => {
+      apiKeyModel.findOne.mockResolvedValue(
+        buildApiKey({ expires_at: new Date(Date.now() - 1000) })
+      );
+
+      const error = await service.authenticate('key').catch((e: unknown) => e);
+
+      expect((error as UnauthorizedException).getResponse()).toEqual(
+        expect.objectContaining({ code: ERROR_CODES.API_KEY_EXPIRED })
+      );
+    });
+
+    it('should reject keys of disabled service accounts', async () => {
+      apiKeyModel.findOne.mockResolvedValue(
+        buildApiKey({
+          service_account: buildServiceAccount({ status: ServiceAccountStatus.DISABLED }),
+        })
+      );
+
+      await expect(service.authenticate('key')).rejects.toThrow(ForbiddenException);
+    });
+  });
+
+  describe('create', () => {
+    const createDto = { name: 'crm-sync', permissions: ['teams:read:own'] };
+
+    beforeEach(() => {
+      serviceAccountModel.findOne.mockResolvedValue(null);
+      permissionModel.findAll.mockResolvedValue([{ id: 'perm-1', name: 'teams:read:own' }]);
+      serviceAccountModel.create.mockResolvedValue(buildServiceAccount());
+      serviceAccountModel.findByPk.mockResolvedValue(buildServiceAccount());
+    });
+
+    it('should create the service account with its permissions and audit it', async () => {
+      permissionsService.hasPermissions.mockResolvedValue({
+        results: [{ permission_name: 'teams:read:own', granted: true }],
+      });
+
+      const result = await service.create(createDto, vendorAdmin);
+
+      expect(serviceAccountModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          company_id: 'company-1',
+          name: 'crm-sync',
+          created_by: 'user-1',
+        }),
+        expect.anything()
+      );
+      expect(serviceAccountPermissionModel.bulkCreate).toHaveBeenCalledWith(
+        [{ service_account_id: 'sa-1', permission_id: 'perm-1' }],
+        expect.anything()
+      );
+      expect(auditTrailService.append).toHaveBeenCalledWith(
+        expect.objectContaining({
+          source: AuditSource.SERVICE_ACCOUNT,
+          action: 'SERVICE_ACCOUNT_CREATED',
+          entityId: 'sa-1',
+        }),
+        expect.anything()
+      );
+      expect(result.permissions).toEqual(['teams:read:own']);
+    });
+
+    it('should not let users grant permissions they do not hold', async () => {
+      permissionsService.hasPermissions.mockResolvedValue({
+        results: [{ permission_name: 'teams:read:own', granted: false }],
+      });
+
+      const error = await service.create(createDto, vendorAdmin).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(ForbiddenException);
+      expect((error as ForbiddenException).getResponse()).toEqual(
+        expect.objectContaining({ code: ERROR_CODES.SERVICE_ACCOUNT_PERMISSIONS_NOT_HELD })
+      );
+      expect(serviceAccountModel.create).not.toHaveBeenCalled();
+    });
+
+    it('should let platform admins grant any existing permission', async () => {
+      await service.create(createDto, buildUser(UserRole.SUPER_ADMIN));
+
+      expect(permissionsService.hasPermissions).not.toHaveBeenCalled();
+      expect(serviceAccountModel.create).toHaveBeenCalled();
+    });
+
+    it('should reject unknown permissions', async () => {
+      permissionModel.findAll.mockResolvedValue([]);
+
+      await expect(service.create(createDto, vendorAdmin)).rejects.toThrow(
+        UnprocessableEntityException
+      );
+    });
+
+    it('should reject a name that is already in use', async () => {
+      serviceAccountModel.findOne.mockResolvedValue({ id: 'sa-other' });
+
+      await expect(service.create(createDto, vendorAdmin)).rejects.toThrow(ConflictException);
+    });
+  });
+
+  describe('update', () => {
+    it('should replace the permissions and invalidate the cached permissions', async () => {
+      const serviceAccount = buildServiceAccount();
+      serviceAccountModel.findByPk.mockResolvedValue(serviceAccount);
+      permissionModel.findAll.mockResolvedValue([{ id: 'perm-2', name: 'teams:update:own' }]);
+      permissionsService.hasPermissions.mockResolvedValue({
+        results: [{ permission_name: 'teams:update:own', granted: true }],
+      });
+
+      await service.update('sa-1', { permissions: ['teams:update:own'] }, vendorAdmin);
+
+      expect(serviceAccountPermissionModel.destroy).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { service_account_id: 'sa-1' } })
+      );
+      expect(permissionsService.invalidateCache).toHaveBeenCalledWith(
+        expect.objectContaining({ service_account_id: 'sa-1' })
+      );
+    });
+
+    it('should report service accounts of other companies as not found', async () => {
+      serviceAccountModel.findByPk.mockResolvedValue(
+        buildServiceAccount({ company_id: 'company-2' })
+      );
+
+      await expect(
+        service.update('sa-1', { status: ServiceAccountStatus.DISABLED }, vendorAdmin)
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('API keys', () => {
+    beforeEach(() => {
+      serviceAccountModel.findByPk.mockResolvedValue(buildServiceAccount());
+    });
+
+    it('should return the key once and store only its hash', async () => {
+      const issued = await service.createKey('sa-1', { name: 'production' }, vendorAdmin);
+
+      expect(issued.key).toMatch(/^acme_sk_[0-9a-f]{8}_/);
+      expect(issued.key.startsWith(issued.prefix)).toBe(true);
+
+      const stored = apiKeyModel.create.mock.calls[0][0];
+      expect(stored.key_hash).toBe(ServiceAccountService.hashKey(issued.key));
+      expect(JSON.stringify(stored)).not.toContain(issued.key);
+    });
+
+    it('should reject an expiry in the past', async () => {
+      await expect(
+        service.createKey(
+          'sa-1',
+          { name: 'production', expiresAt: '2000-01-01T00:00:00.000Z' },
+          vendorAdmin
+        )
+      ).rejects.toThrow(UnprocessableEntityException);
+    });
+
+    it('should revoke the old key at once when rotating without a grace period', async () => {
+      const apiKey = buildApiKey();
+      apiKeyModel.findOne.mockResolvedValue(apiKey);
+
+      const issued = await service.rotateKey('sa-1', 'key-1', {}, vendorAdmin);
+
+      expect(issued.key).toBeDefined();
+      expect(apiKey.update).toHaveBeenCalledWith(
+        expect.objectContaining({ replaced_by_id: 'key-new', revoked_at: expect.any(Date) }),
+        expect.anything()
+      );
+    });
+
+    it('should keep the old key working during the grace period', async () => {
+      const apiKey = buildApiKey();
+      apiKeyModel.findOne.mockResolvedValue(apiKey);
+
+      await service.rotateKey('sa-1', 'key-1', { gracePeriodMinutes: 60 }, vendorAdmin);
+
+      const changes = apiKey.update.mock.calls[0][0];
+      expect(changes.revoked_at).toBeUndefined();
+      expect(changes.expires_at.getTime()).toBeGreaterThan(Date.now() + 59 * 60 * 1000);
+    });
+
+    it('should not revoke a key twice', async () => {
+      apiKeyModel.findOne.mockResolvedValue(buildApiKey({ revoked_at: new Date() }));
+
+      await expect(service.revokeKey('sa-1', 'key-1', vendorAdmin)).rejects.toThrow(
+        ConflictException
+      );
+    });
+  });
+});
@@ -0,0 +1,577 @@
+import {
+  ConflictException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { getConnectionToken, InjectModel } from '@nestjs/sequelize';
+import { createHash, randomBytes } from 'crypto';
+import { Op, Transaction } from 'sequelize';
+import { Sequelize } from 'sequelize-typescript';
+import { ERROR_CODES } from '../../common/constants/error-codes';
+import { AuditTrailService } from '../audit/audit-trail.service';
+import { AuditSource } from '../audit/entities/audit-record.entity';
+import { User, UserRole } from '../auth/entities/user.entity';
+import { Company } from '../company/entities/company.entity';
+import { Permission } from '../role/entities/permission.entity';
+import { PermissionsService } from '../role/permissions.service';
+import { CreateApiKeyDto } from './dto/create-api-key.dto';
+import { CreateServiceAccountDto } from './dto/create-service-account.dto';
+import { RotateApiKeyDto } from './dto/rotate-api-key.dto';
+import {
+  ApiKeyResponseDto,
+  IssuedApiKeyResponseDto,
+  ServiceAccountResponseDto,
+} from './dto/service-account-response.dto';
+import { UpdateServiceAccountDto } from './dto/update-service-account.dto';
+import { ApiKey } from './entities/api-key.entity';
+import { ServiceAccountPermission } from './entities/service-account-permission.entity';
+import { ServiceAccount, ServiceAccountStatus } from './entities/service-account.entity';
+
+const API_KEY_PREFIX = 'acme_sk_';
+
+/** last_used_at is written at most once per interval to keep authentication cheap */
+const LAST_USED_WRITE_INTERVAL_MS = 60 * 1000;
+
+export interface AuthenticatedApiKey {
+  serviceAccount: ServiceAccount;
+  apiKey: ApiKey;
+}
+
+/**
+ * Manages service accounts and their API keys, and authenticates X-Api-Key requests
+ */
+@Injectable()
+export class ServiceAccountService {
+  private readonly logger = new Logger(ServiceAccountService.name);
+
+  constructor(
+    @InjectModel(ServiceAccount)
+    private readonly serviceAccountModel: typeof ServiceAccount,
+    @InjectModel(ServiceAccountPermission)
+    private readonly serviceAccountPermissionModel: typeof ServiceAccountPermission,
+    @InjectModel(ApiKey)
+    private readonly apiKeyModel: typeof ApiKey,
+    @InjectModel(Permission)
+    private readonly permissionModel: typeof Permission,
+    private readonly permissionsService: PermissionsService,
+    private readonly auditTrailService: AuditTrailService,
+    @Inject(getConnectionToken())
+    private readonly sequelize: Sequelize
+  ) {}
+
+  static hashKey(key: string): string {
+    return createHash('sha256').update(key).digest('hex');
+  }
+
+  /**
+   * Resolves the service account of an API key. Unknown, revoked and expired keys are
+   * rejected with 401; keys of disabled service accounts with 403.
+   */
+  async authenticate(key: string): Promise<AuthenticatedApiKey> {
+    const apiKey = await this.apiKeyModel.findOne({
+      where: { key_hash: ServiceAccountService.hashKey(key) },
+      include: [
+        {
+          model: ServiceAccount,
+          include: [{ model: Company, attributes: ['id', 'status'], required: false }],
+        },
+      ],
+    });
+
+    const now = new Date();
+
+    if (!apiKey?.service_account || apiKey.revoked_at) {
+      throw new UnauthorizedException({
+        success: false,
+        code: ERROR_CODES.API_KEY_INVALID,
+        message: 'Invalid API key.',
+      });
+    }
+
+    if (apiKey.expires_at && apiKey.expires_at <= now) {
+      throw new UnauthorizedException({
+        success: false,
+        code: ERROR_CODES.API_KEY_EXPIRED,
+        message: 'API key has expired.',
+      });
+    }
+
+    if (apiKey.service_account.status !== ServiceAccountStatus.ACTIVE) {
+      throw new ForbiddenException({
+        success: false,
+        code: ERROR_CODES.SERVICE_ACCOUNT_DISABLED,
+        message: 'Service account is disabled.',
+      });
+    }
+
+    if (
+      !apiKey.last_used_at ||
+      now.getTime() - apiKey.last_used_at.getTime() > LAST_USED_WRITE_INTERVAL_MS
+    ) {
+      try {
+        await apiKey.update({ last_used_at: now });
+      } catch (error) {
+        // Usage tracking must not block the request
+        this.logger.warn(
+          `Failed to record use of API key ${apiKey.id}: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+      }
+    }
+
+    return { serviceAccount: apiKey.service_account, apiKey };
+  }
+
+  async findAll(currentUser: User): Promise<ServiceAccountResponseDto[]> {
+    const companyId = this.getManageableCompanyId(currentUser);
+
+    const serviceAccounts = await this.serviceAccountModel.findAll({
+      where: companyId ? { company_id: companyId } : {},
+      include: this.getIncludes(),
+      order: [['created_at', 'DESC']],
+    });
+
+    return serviceAccounts.map((serviceAccount) => this.toResponse(serviceAccount));
+  }
+
+  async findOne(id: string, currentUser: User): Promise<ServiceAccountResponseDto> {
+    return this.toResponse(await this.findManageable(id, currentUser));
+  }
+
+  async create(
+    createDto: CreateServiceAccountDto,
+    currentUser: User
+  ): Promise<ServiceAccountResponseDto> {
+    const scopeCompanyId = this.getManageableCompanyId(currentUser);
+    const companyId = scopeCompanyId ?? createDto.companyId ?? currentUser.company_id;
+
+    await this.assertNameAvailable(companyId, createDto.name);
+    const permissions = await this.resolveGrantablePermissions(createDto.permissions, currentUser);
+
+    const serviceAccount = await this.sequelize.transaction(async (transaction) => {
+      const created = await this.serviceAccountModel.create(
+        {
+          company_id: companyId,
+          name: createDto.name,
+          description: createDto.description ?? null,
+          created_by: currentUser.id,
+        },
+        { transaction }
+      );
+
+      await this.replacePermissions(created.id, permissions, transaction);
+
+      await this.recordAudit(
+        created,
+        'SERVICE_ACCOUNT_CREATED',
+        currentUser.id,
+        { name: created.name, permissions: createDto.permissions },
+        transaction
+      );
+
+      return created;
+    });
+
+    this.logger.log(`Service account ${serviceAccount.id} created by ${currentUser.id}`);
+
+    return this.findOne(serviceAccount.id, currentUser);
+  }
+
+  async update(
+    id: string,
+    updateDto: UpdateServiceAccountDto,
+    currentUser: User
+  ): Promise<ServiceAccountResponseDto> {
+    const serviceAccount = await this.findManageable(id, currentUser);
+
+    if (updateDto.name && updateDto.name !== serviceAccount.name) {
+      await this.assertNameAvailable(serviceAccount.company_id, updateDto.name);
+    }
+
+    const permissions = updateDto.permissions
+      ? await this.resolveGrantablePermissions(updateDto.permissions, currentUser)
+      : null;
+
+    await this.sequelize.transaction(async (transaction) => {
+      await serviceAccount.update(
+        {
+          ...(updateDto.name !== undefined ? { name: updateDto.name } : {}),
+          ...(updateDto.description !== undefined ? { description: updateDto.description } : {}),
+          ...(updateDto.status !== undefined ? { status: updateDto.status } : {}),
+        },
+        { transaction }
+      );
+
+      if (permissions) {
+        await this.replacePermissions(serviceAccount.id, permissions, transaction);
+      }
+
+      await this.recordAudit(
+        serviceAccount,
+        'SERVICE_ACCOUNT_UPDATED',
+        currentUser.id,
+        { ...updateDto },
+        transaction
+      );
+    });
+
+    if (permissions) {
+      await this.permissionsService.invalidateCache({
+        service_account_id: serviceAccount.id,
+        reason: 'Service account permissions updated',
+      });
+    }
+
+    return this.findOne(serviceAccount.id, currentUser);
+  }
+
+  /**
+   * Issues a new API key. The key is returned once and only its hash is stored.
+   */
+  async createKey(
+    id: string,
+    createDto: CreateApiKeyDto,
+    currentUser: User
+  ): Promise<IssuedApiKeyResponseDto> {
+    const serviceAccount = await this.findManageable(id, currentUser);
+    const expiresAt = createDto.expiresAt ? new Date(createDto.expiresAt) : null;
+
+    if (expiresAt && expiresAt <= new Date()) {
+      throw new UnprocessableEntityException({
+        success: false,
+        code: ERROR_CODES.VALIDATION_FAILED,
+        message: 'expiresAt must be in the future',
+      });
+    }
+
+    return this.sequelize.transaction(async (transaction) => {
+      const issued = await this.issueKey(
+        serviceAccount,
+        createDto.name,
+        expiresAt,
+        currentUser.id,
+        transaction
+      );
+
+      await this.recordAudit(
+        serviceAccount,
+        'API_KEY_CREATED',
+        currentUser.id,
+        { apiKeyId: issued.id, name: issued.name, expiresAt },
+        transaction
+      );
+
+      return issued;
+    });
+  }
+
+  /**
+   * Replaces a key with a new one with the same name and expiry. The old key is revoked
+   * at once, or keeps working for the requested grace period.
+   */
+  async rotateKey(
+    id: string,
+    keyId: string,
+    rotateDto: RotateApiKeyDto,
+    currentUser: User
+  ): Promise<IssuedApiKeyResponseDto> {
+    const serviceAccount = await this.findManageable(id, currentUser);
+    const apiKey = await this.findUsableKey(serviceAccount, keyId);
+    const now = new Date();
+    const gracePeriodMinutes = rotateDto.gracePeriodMinutes ?? 0;
+
+    return this.sequelize.transaction(async (transaction) => {
+      const issued = await this.issueKey(
+        serviceAccount,
+        apiKey.name,
+        apiKey.expires_at ?? null,
+        currentUser.id,
+        transaction
+      );
+
+      const graceEnd = new Date(now.getTime() + gracePeriodMinutes * 60 * 1000);
+      await apiKey.update(
+        gracePeriodMinutes > 0
+          ? {
+              replaced_by_id: issued.id,
+              expires_at:
+                apiKey.expires_at && apiKey.expires_at < graceEnd ? apiKey.expires_at : graceEnd,
+            }
+          : { replaced_by_id: issued.id, revoked_at: now, revoked_by: currentUser.id },
+        { transaction }
+      );
+
+      await this.recordAudit(
+        serviceAccount,
+        'API_KEY_ROTATED',
+        currentUser.id,
+        { apiKeyId: apiKey.id, replacedById: issued.id, gracePeriodMinutes },
+        transaction
+      );
+
+      return issued;
+    });
+  }
+
+  async revokeKey(id: string, keyId: string, currentUser: User): Promise<ApiKeyResponseDto> {
+    const serviceAccount = await this.findManageable(id, currentUser);
+    const apiKey = await this.findUsableKey(serviceAccount, keyId);
+
+    await this.sequelize.transaction(async (transaction) => {
+      await apiKey.update({ revoked_at: new Date(), revoked_by: currentUser.id }, { transaction });
+
+      await this.recordAudit(
+        serviceAccount,
+        'API_KEY_REVOKED',
+        currentUser.id,
+        { apiKeyId: apiKey.id, name: apiKey.name },
+        transaction
+      );
+    });
+
+    this.logger.log(`API key ${apiKey.id} revoked by ${currentUser.id}`);
+
+    return this.toKeyResponse(apiKey);
+  }
+
+  /**
+   * Returns the company whose service accounts the user may manage, or null for all companies
+   */
+  private getManageableCompanyId(currentUser: User): string | null {
+    if (
+      currentUser.hasRoleEnum(UserRole.SUPER_ADMIN) ||
+      currentUser.hasRoleEnum(UserRole.ACME_ADMIN)
+    ) {
+      return null;
+    }
+
+    if (!currentUser.company_id) {
+      throw new ForbiddenException({
+        success: false,
+        code: ERROR_CODES.COMPANY_ACCESS_DENIED,
+        message: 'You must belong to a company to manage service accounts',
+      });
+    }
+
+    return currentUser.company_id;
+  }
+
+  private async findManageable(id: string, currentUser: User): Promise<ServiceAccount> {
+    const scopeCompanyId = this.getManageableCompanyId(currentUser);
+    const serviceAccount = await this.serviceAccountModel.findByPk(id, {
+      include: this.getIncludes(),
+    });
+
+    // Service accounts of other companies are reported as not found
+    if (!serviceAccount || (scopeCompanyId && serviceAccount.company_id !== scopeCompanyId)) {
+      throw new NotFoundException({
+        success: false,
+        code: ERROR_CODES.SERVICE_ACCOUNT_NOT_FOUND,
+        message: 'Service account not found',
+      });
+    }
+
+    return serviceAccount;
+  }
+
+  private async findUsableKey(serviceAccount: ServiceAccount, keyId: string): Promise<ApiKey> {
+    const apiKey = await this.apiKeyModel.findOne({
+      where: { id: keyId, service_account_id: serviceAccount.id },
+    });
+
+    if (!apiKey) {
+      throw new NotFoundException({
+        success: false,
+        code: ERROR_CODES.API_KEY_NOT_FOUND,
+        message: 'API key not found',
+      });
+    }
+
+    if (apiKey.revoked_at || apiKey.replaced_by_id) {
+      throw new ConflictException({
+        success: false,
+        code: ERROR_CODES.API_KEY_REVOKED,
+        message: 'API key has already been revoked or rotated',
+      });
+    }
+
+    return apiKey;
+  }
+
+  private async assertNameAvailable(companyId: string, name: string): Promise<void> {
+    const existing = await this.serviceAccountModel.findOne({
+      where: { company_id: companyId, name },
+      attributes: ['id'],
+    });
+
+    if (existing) {
+      throw new ConflictException({
+        success: false,
+        code: ERROR_CODES.SERVICE_ACCOUNT_NAME_TAKEN,
+        message: `A service account named '${name}' already exists`,
+      });
+    }
+  }
+
+  /**
+   * Looks up the permissions to grant. Unless the user is a platform admin, they can only
+   * grant permissions they hold themselves.
+   */
+  private async resolveGrantablePermissions(
+    names: string[],
+    currentUser: User
+  ): Promise<Permission[]> {
+    const uniqueNames = [...new Set(names)];
+    if (uniqueNames.length === 0) {
+      return [];
+    }
+
+    const permissions = await this.permissionModel.findAll({
+      where: { name: { [Op.in]: uniqueNames } },
+      attributes: ['id', 'name'],
+    });
+
+    const unknown = uniqueNames.filter((name) => !permissions.some((p) => p.name === name));
+    if (unknown.length > 0) {
+      throw new UnprocessableEntityException({
+        success: false,
+        code: ERROR_CODES.SERVICE_ACCOUNT_UNKNOWN_PERMISSIONS,
+        message: `Unknown permissions: ${unknown.join(', ')}`,
+      });
+    }
+
+    if (this.getManageableCompanyId(currentUser) !== null) {
+      const check = await this.permissionsService.hasPermissions({
+        user_id: currentUser.id,
+        permission_names: uniqueNames,
+        company_id: currentUser.company_id,
+      });
+
+      const notHeld = check.results
+        .filter((result) => !result.granted)
+        .map((result) => result.permission_name);
+
+      if (notHeld.length > 0) {
+        throw new ForbiddenException({
+          success: false,
+          code: ERROR_CODES.SERVICE_ACCOUNT_PERMISSIONS_NOT_HELD,
+          message: `You cannot grant permissions you do not have: ${notHeld.join(', ')}`,
+        });
+      }
+    }
+
+    return permissions;
+  }
+
+  private async replacePermissions(
+    serviceAccountId: string,
+    permissions: Permission[],
+    transaction: Transaction
+  ): Promise<void> {
+    await this.serviceAccountPermissionModel.destroy({
+      where: { service_account_id: serviceAccountId },
+      transaction,
+    });
+
+    if (permissions.length > 0) {
+      await this.serviceAccountPermissionModel.bulkCreate(
+        permissions.map((permission) => ({
+          service_account_id: serviceAccountId,
+          permission_id: permission.id,
+        })),
+        { transaction }
+      );
+    }
+  }
+
+  private async issueKey(
+    serviceAccount: ServiceAccount,
+    name: string,
+    expiresAt: Date | null,
+    createdBy: string,
+    transaction: Transaction
+  ): Promise<IssuedApiKeyResponseDto> {
+    const prefix = `${API_KEY_PREFIX}${randomBytes(4).toString('hex')}`;
+    const key = `${prefix}_${randomBytes(32).toString('base64url')}`;
+
+    const apiKey = await this.apiKeyModel.create(
+      {
+        service_account_id: serviceAccount.id,
+        name,
+        key_prefix: prefix,
+        key_hash: ServiceAccountService.hashKey(key),
+        expires_at: expiresAt,
+        created_by: createdBy,
+      },
+      { transaction }
+    );
+
+    return { ...this.toKeyResponse(apiKey), key };
+  }
+
+  private async recordAudit(
+    serviceAccount: ServiceAccount,
+    action: string,
+    performedBy: string,
+    payload: Record<string, unknown>,
+    transaction: Transaction
+  ): Promise<void> {
+    await this.auditTrailService.append(
+      {
+        tenantId: serviceAccount.company_id,
+        source: AuditSource.SERVICE_ACCOUNT,
+        action,
+        entityId: serviceAccount.id,
+        performedBy,
+        payload,
+      },
+      transaction
+    );
+  }
+
+  private getIncludes() {
+    return [
+      {
+        model: Permission,
+        attributes: ['id', 'name'],
+        through: { attributes: [] },
+        required: false,
+      },
+      {
+        model: ApiKey,
+        required: false,
+      },
+    ];
+  }
+
+  private toResponse(serviceAccount: ServiceAccount): ServiceAccountResponseDto {
+    return {
+      id: serviceAccount.id,
+      companyId: serviceAccount.company_id,
+      name: serviceAccount.name,
+      description: serviceAccount.description ?? null,
+      status: serviceAccount.status,
+      permissions: (serviceAccount.permissions ?? []).map((p) => p.name).sort(),
+      apiKeys: (serviceAccount.api_keys ?? []).map((apiKey) => this.toKeyResponse(apiKey)),
+      createdAt: serviceAccount.created_at,
+    };
+  }
+
+  private toKeyResponse(apiKey: ApiKey): ApiKeyResponseDto {
+    return {
+      id: apiKey.id,
+      name: apiKey.name,
+      prefix: apiKey.key_prefix,
+      expiresAt: apiKey.expires_at ?? null,
+      lastUsedAt: apiKey.last_used_at ?? null,
+      revokedAt: apiKey.revoked_at ?? null,
+      createdAt: apiKey.created_at,
+    };
+  }
+}
@@ -0,0 +1,156 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiParam, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { ResponseMessage } from '../../common/decorators/response-message.decorator';
+import { ApiResponseDto } from '../../common/dto/api-response.dto';
+import { JwtAuthGuard } from '../../core/guards/jwt-auth.guard';
+import { PermissionsGuard, RequirePermissions } from '../../core/guards/permissions.guard';
+import { SuperAdminBypassGuard } from '../../core/guards/super-admin-bypass.guard';
+import { User } from '../auth/entities/user.entity';
+import { CreateApiKeyDto } from './dto/create-api-key.dto';
+import { CreateServiceAccountDto } from './dto/create-service-account.dto';
+import { RotateApiKeyDto } from './dto/rotate-api-key.dto';
+import {
+  ApiKeyResponseDto,
+  IssuedApiKeyResponseDto,
+  ServiceAccountResponseDto,
+} from './dto/service-account-response.dto';
+import { UpdateServiceAccountDto } from './dto/update-service-account.dto';
+import { ServiceAccountService } from './service-account.service';
+
+@ApiTags('service-accounts')
+@Controller('service-accounts')
+@UseGuards(JwtAuthGuard, SuperAdminBypassGuard, PermissionsGuard)
+@RequirePermissions('service-accounts:manage')
+@ApiBearerAuth()
+export class ServiceAccountsController {
+  constructor(private readonly serviceAccountService: ServiceAccountService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'List service accounts',
+    description:
+      'Lists the service accounts of your company with their keys. Acme admins see all companies.',
+  })
+  @ApiResponse({ status: 200, type: [ServiceAccountResponseDto] })
+  @ApiResponse({ status: 403, description: 'Forbidden', type: ApiResponseDto })
+  @ResponseMessage('Service accounts retrieved successfully', 'SERVICE_ACCOUNTS_GET_SUCCESS')
+  async findAll(@CurrentUser() currentUser: User): Promise<ServiceAccountResponseDto[]> {
+    return this.serviceAccountService.findAll(currentUser);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a service account' })
+  @ApiParam({ name: 'id', description: 'Service account UUID' })
+  @ApiResponse({ status: 200, type: ServiceAccountResponseDto })
+  @ApiResponse({ status: 404, description: 'Service account not found', type: ApiResponseDto })
+  @ResponseMessage('Service account retrieved successfully', 'SERVICE_ACCOUNT_GET_SUCCESS')
+  async findOne(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() currentUser: User
+  ): Promise<ServiceAccountResponseDto> {
+    return this.serviceAccountService.findOne(id, currentUser);
+  }
+
+  @Post()
+  @ApiOperation({
+    summary: 'Create a service account',
+    description:
+      'Creates a service account with explicit permissions. You can only grant permissions you hold.',
+  })
+  @ApiResponse({ status: 201, type: ServiceAccountResponseDto })
+  @ApiResponse({ status: 403, description: 'Permission not held', type: ApiResponseDto })
+  @ApiResponse({ status: 409, description: 'Name already in use', type: ApiResponseDto })
+  @ApiResponse({ status: 422, description: 'Unknown permissions', type: ApiResponseDto })
+  @ResponseMessage('Service account created successfully', 'SERVICE_ACCOUNT_CREATED')
+  async create(
+    @Body() createDto: CreateServiceAccountDto,
+    @CurrentUser() currentUser: User
+  ): Promise<ServiceAccountResponseDto> {
+    return this.serviceAccountService.create(createDto, currentUser);
+  }
+
+  @Patch(':id')
+  @ApiOperation({
+    summary: 'Update a service account',
+    description: 'Renames, disables or re-enables the service account, or replaces its permissions',
+  })
+  @ApiParam({ name: 'id', description: 'Service account UUID' })
+  @ApiResponse({ status: 200, type: ServiceAccountResponseDto })
+  @ApiResponse({ status: 404, description: 'Service account not found', type: ApiResponseDto })
+  @ResponseMessage('Service account updated successfully', 'SERVICE_ACCOUNT_UPDATED')
+  async update(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() updateDto: UpdateServiceAccountDto,
+    @CurrentUser() currentUser: User
+  ): Promise<ServiceAccountResponseDto> {
+    return this.serviceAccountService.update(id, updateDto, currentUser);
+  }
+
+  @Post(':id/keys')
+  @ApiOperation({
+    summary: 'Create an API key',
+    description: 'Issues a new API key. The key is only returned in this response.',
+  })
+  @ApiParam({ name: 'id', description: 'Service account UUID' })
+  @ApiResponse({ status: 201, type: IssuedApiKeyResponseDto })
+  @ApiResponse({ status: 404, description: 'Service account not found', type: ApiResponseDto })
+  @ResponseMessage('API key created successfully', 'API_KEY_CREATED')
+  async createKey(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() createDto: CreateApiKeyDto,
+    @CurrentUser() currentUser: User
+  ): Promise<IssuedApiKeyResponseDto> {
+    return this.serviceAccountService.createKey(id, createDto, currentUser);
+  }
+
+  @Post(':id/keys/:keyId/rotate')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Rotate an API key',
+    description:
+      'Issues a replacement key. The old key is revoked at once or after the grace period.',
+  })
+  @ApiParam({ name: 'id', description: 'Service account UUID' })
+  @ApiParam({ name: 'keyId', description: 'API key UUID' })
+  @ApiResponse({ status: 200, type: IssuedApiKeyResponseDto })
+  @ApiResponse({ status: 404, description: 'API key not found', type: ApiResponseDto })
+  @ApiResponse({ status: 409, description: 'Already revoked or rotated', type: ApiResponseDto })
+  @ResponseMessage('API key rotated successfully', 'API_KEY_ROTATED')
+  async rotateKey(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('keyId', ParseUUIDPipe) keyId: string,
+    @Body() rotateDto: RotateApiKeyDto,
+    @CurrentUser() currentUser: User
+  ): Promise<IssuedApiKeyResponseDto> {
+    return this.serviceAccountService.rotateKey(id, keyId, rotateDto, currentUser);
+  }
+
+  @Delete(':id/keys/:keyId')
+  @ApiOperation({ summary: 'Revoke an API key' })
+  @ApiParam({ name: 'id', description: 'Service account UUID' })
+  @ApiParam({ name: 'keyId', description: 'API key UUID' })
+  @ApiResponse({ status: 200, type: ApiKeyResponseDto })
+  @ApiResponse({ status: 404, description: 'API key not found', type: ApiResponseDto })
+  @ApiResponse({ status: 409, description: 'Already revoked or rotated', type: ApiResponseDto })
+  @ResponseMessage('API key revoked successfully', 'API_KEY_REVOKED')
+  async revokeKey(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('keyId', ParseUUIDPipe) keyId: string,
+    @CurrentUser() currentUser: User
+  ): Promise<ApiKeyResponseDto> {
+    return this.serviceAccountService.revokeKey(id, keyId, currentUser);
+  }
+}
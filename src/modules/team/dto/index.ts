@@ -5,3 +5,4 @@ export * from './remove-users-from-team.dto';
 export * from './change-team-manager.dto';
 export * from './replace-team-users.dto';
 export * from './search-team-users.dto';
+export * from './team-history-entry.dto';
@@ -0,0 +1,81 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Exclude, Expose, Type } from 'class-transformer';
+import { TeamAuditAction, TeamSnapshot } from '../entities/team-audit-log.entity';
+
+/**
+ * Public-facing shape of a single team history (audit) entry.
+ */
+@Exclude()
+export class TeamHistoryEntryDto {
+  @ApiProperty({
+    description: 'The unique identifier for the history entry',
+    example: 'f81d4fae-7dec-11d0-a765-00a0c91e6bf6',
+  })
+  @Expose()
+  id: string;
+
+  @ApiProperty({
+    description: 'The team the entry belongs to',
+    example: 'a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11',
+  })
+  @Expose()
+  teamId: string;
+
+  @ApiProperty({
+    description: 'The company the team belonged to when the action was performed',
+    example: 'c4a8f4b0-8d2a-4b6d-8f9c-1e2b3d4a5f6a',
+  })
+  @Expose()
+  companyId: string;
+
+  @ApiProperty({
+    description: 'The action that was performed',
+    enum: TeamAuditAction,
+  })
+  @Expose()
+  action: TeamAuditAction;
+
+  @ApiProperty({
+    description: 'When the action was performed',
+    example: '2023-12-01T10:00:00Z',
+  })
+  @Expose()
+  @Type(() => Date)
+  performedAt: Date;
+
+  @ApiProperty({
+    description: 'The user who performed the action',
+    type: 'object',
+  })
+  @Expose()
+  performedBy: {
+    id: string;
+    firstName?: string;
+    lastName?: string;
+    email?: string;
+  };
+
+  @ApiPropertyOptional({
+    description: 'Team state before the action (null for creation)',
+    type: 'object',
+    nullable: true,
+  })
+  @Expose()
+  before: TeamSnapshot | null;
+
+  @ApiPropertyOptional({
+    description: 'Team state after the action (null for deletion)',
+    type: 'object',
+    nullable: true,
+  })
+  @Expose()
+  after: TeamSnapshot | null;
+
+  @ApiPropertyOptional({
+    description: 'Additional details, e.g. the user IDs added or removed',
+    type: 'object',
+    nullable: true,
+  })
+  @Expose()
+  details: Record<string, any> | null;
+}
@@ -0,0 +1,108 @@
+import {
+  AllowNull,
+  BelongsTo,
+  Column,
+  CreatedAt,
+  DataType,
+  Default,
+  ForeignKey,
+  Model,
+  PrimaryKey,
+  Table,
+} from 'sequelize-typescript';
+import { User } from '../../auth/entities/user.entity';
+import { TeamCategory } from './team.entity';
+
+export enum TeamAuditAction {
+  TEAM_CREATED = 'TEAM_CREATED',
+  TEAM_RENAMED = 'TEAM_RENAMED',
+  TEAM_CATEGORY_CHANGED = 'TEAM_CATEGORY_CHANGED',
+  TEAM_MANAGER_CHANGED = 'TEAM_MANAGER_CHANGED',
+  TEAM_UPDATED = 'TEAM_UPDATED',
+  MEMBERS_ADDED = 'MEMBERS_ADDED',
+  MEMBERS_REMOVED = 'MEMBERS_REMOVED',
+  MEMBERS_REPLACED = 'MEMBERS_REPLACED',
+  TEAM_DELETED = 'TEAM_DELETED',
+}
+
+/**
+ * Point-in-time view of a team stored in the before/after columns
+ */
+export interface TeamSnapshot {
+  name: string;
+  description?: string | null;
+  category: TeamCategory;
+  ownerUserId: string;
+  isActive: boolean;
+  memberIds: string[];
+}
+
+@Table({
+  tableName: 'TeamAuditLogs',
+  timestamps: false, // We manage created_at manually
+  underscored: true,
+  indexes: [
+    {
+      fields: ['team_id', 'performed_at'],
+      name: 'idx_team_audit_team_date',
+    },
+    {
+      fields: ['company_id', 'performed_at'],
+      name: 'idx_team_audit_company_date',
+    },
+    {
+      fields: ['performed_by', 'performed_at'],
+      name: 'idx_team_audit_user_date',
+    },
+    {
+      fields: ['action', 'performed_at'],
+      name: 'idx_team_audit_action_date',
+    },
+  ],
+})
+export class TeamAuditLog extends Model {
+  @PrimaryKey
+  @Default(DataType.UUIDV4)
+  @Column(DataType.UUID)
+  id: string;
+
+  // Plain column (no FK) so history survives team deletion
+  @AllowNull(false)
+  @Column(DataType.UUID)
+  team_id: string;
+
+  @AllowNull(false)
+  @Column(DataType.UUID)
+  company_id: string;
+
+  @AllowNull(false)
+  @Column(DataType.STRING(100))
+  action: TeamAuditAction;
+
+  @ForeignKey(() => User)
+  @AllowNull(false)
+  @Column(DataType.UUID)
+  performed_by: string;
+
+  @AllowNull(false)
+  @Default(DataType.NOW)
+  @Column(DataType.DATE)
+  performed_at: Date;
+
+  @Column(DataType.JSON)
+  before_snapshot?: TeamSnapshot | null;
+
+  @Column(DataType.JSON)
+  after_snapshot?: TeamSnapshot | null;
+
+  @Column(DataType.JSON)
+  details?: Record<string, any>;
+
+  @CreatedAt
+  @Column(DataType.DATE)
+  created_at: Date;
+
+  // Associations
+  @BelongsTo(() => User, 'performed_by')
+  performer: User;
+}
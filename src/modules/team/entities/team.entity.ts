@@ -44,6 +44,11 @@ export enum TeamCategory {
       fields: ['company_id', 'name'],
       unique: true,
     },
+    {
+      fields: ['company_id', 'scim_external_id'],
+      unique: true,
+      name: 'uq_teams_company_scim_external_id',
+    },
   ],
 })
 export class Team extends Model {
@@ -83,6 +88,10 @@ export class Team extends Model {
   @Column(DataType.UUID)
   owner_user_id: string;
 
+  /** Identifier of the group in the company directory that provisions it over SCIM */
+  @Column(DataType.STRING(255))
+  scim_external_id?: string | null;
+
   @BelongsTo(() => Company)
   company: Company;
 
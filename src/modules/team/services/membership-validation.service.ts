@@ -5,7 +5,6 @@ import {
   ForbiddenException,
 } from '@nestjs/common';
 import { InjectModel } from '@nestjs/sequelize';
-import { Transaction } from 'sequelize';
 import { TeamMember } from '../entities/team-member.entity';
 import { Team } from '../entities/team.entity';
 import { User } from '../../auth/entities/user.entity';
@@ -202,6 +201,41 @@ export class MembershipValidationService {
     }
   }
 
+  /**
+   * Validates the members of a team that does not exist yet
+   */
+  async validateNewTeamMembership(
+    companyId: string,
+    ownerUserId: string,
+    memberIds: string[],
+    category?: TeamCategory
+  ): Promise<void> {
+    const owner = await this.userModel.findByPk(ownerUserId, {
+      attributes: ['id', 'company_id', 'is_lawyer'],
+    });
+    if (!owner) {
+      throw new NotFoundException(`User with ID ${ownerUserId} not found`);
+    }
+    if (owner.company_id !== companyId) {
+      throw new BadRequestException('Team manager must belong to the same company as the team');
+    }
+
+    if (memberIds.length > 0) {
+      await this.validateNewMembersBelongToCompany(memberIds, companyId);
+
+      if (memberIds.includes(ownerUserId)) {
+        throw new BadRequestException('Team manager cannot be included in the regular member list');
+      }
+    }
+
+    if (category === TeamCategory.LEGAL) {
+      await this.validateLegalTeamHasLawyerAfterReplacement(
+        { owner } as Team & { owner: User },
+        memberIds
+      );
+    }
+  }
+
   /**
    * Validates bulk membership operations with transaction support
    */
@@ -398,28 +432,6 @@ export class MembershipValidationService {
     }
   }
 
-  /**
-   * Creates a comprehensive membership audit log entry
-   */
-  async logMembershipChange(
-    teamId: string,
-    operation: 'add' | 'remove' | 'replace',
-    userIds: string[],
-    performedBy: string,
-    transaction?: Transaction
-  ): Promise<void> {
-    // This would integrate with an audit logging system
-    // For now, we'll just log to console, but in production this should
-    // write to an audit table or external logging service
-    const timestamp = new Date().toISOString();
-    console.log(`[AUDIT] ${timestamp} - Team Membership ${operation.toUpperCase()}`, {
-      teamId,
-      userIds,
-      performedBy,
-      operation,
-    });
-  }
-
   async validateMembershipAddition(team: any, userToAdd: any, currentUser: any): Promise<void> {
     // Validate that user can join the team
     await this.validateUserCanJoinTeam(userToAdd.id, team.id);
@@ -0,0 +1,148 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/sequelize';
+import { Transaction } from 'sequelize';
+import { User } from '../../auth/entities/user.entity';
+import { AuditTrailService } from '../../audit/audit-trail.service';
+import { AuditSource } from '../../audit/entities/audit-record.entity';
+import { PaginatedResponseDto } from '../../../common/dto/paginated-response.dto';
+import { PaginationDto } from '../../../common/dto/pagination.dto';
+import { TeamHistoryEntryDto } from '../dto/team-history-entry.dto';
+import { Team } from '../entities/team.entity';
+import { TeamAuditAction, TeamAuditLog, TeamSnapshot } from '../entities/team-audit-log.entity';
+
+export interface TeamAuditEntry {
+  teamId: string;
+  companyId: string;
+  action: TeamAuditAction;
+  performedBy: string;
+  before?: TeamSnapshot | null;
+  after?: TeamSnapshot | null;
+  details?: Record<string, any>;
+}
+
+/**
+ * Records and reads the team change history (TeamAuditLogs)
+ */
+@Injectable()
+export class TeamAuditService {
+  private readonly logger = new Logger(TeamAuditService.name);
+
+  constructor(
+    @InjectModel(TeamAuditLog)
+    private teamAuditLogModel: typeof TeamAuditLog,
+    private auditTrailService: AuditTrailService
+  ) {}
+
+  /**
+   * Builds the snapshot stored in before_snapshot/after_snapshot
+   */
+  buildSnapshot(
+    team: Pick<Team, 'name' | 'description' | 'category' | 'owner_user_id' | 'is_active'>,
+    memberIds: string[]
+  ): TeamSnapshot {
+    return {
+      name: team.name,
+      description: team.description ?? null,
+      category: team.category,
+      ownerUserId: team.owner_user_id,
+      isActive: team.is_active,
+      memberIds: [...memberIds].sort(),
+    };
+  }
+
+  /**
+   * Persists an audit entry, inside the caller's transaction when one is given,
+   * and appends it to the company's hash-chained audit trail
+   */
+  async record(entry: TeamAuditEntry, transaction?: Transaction): Promise<void> {
+    const performedAt = new Date();
+
+    await this.teamAuditLogModel.create(
+      {
+        team_id: entry.teamId,
+        company_id: entry.companyId,
+        action: entry.action,
+        performed_by: entry.performedBy,
+        performed_at: performedAt,
+        before_snapshot: entry.before ?? null,
+        after_snapshot: entry.after ?? null,
+        details: entry.details,
+      },
+      { transaction }
+    );
+
+    await this.auditTrailService.append(
+      {
+        tenantId: entry.companyId,
+        source: AuditSource.TEAM,
+        action: entry.action,
+        entityId: entry.teamId,
+        performedBy: entry.performedBy,
+        performedAt,
+        payload: {
+          before: entry.before ?? null,
+          after: entry.after ?? null,
+          details: entry.details,
+        },
+      },
+      transaction
+    );
+
+    this.logger.log(`Recorded ${entry.action} for team ${entry.teamId} by ${entry.performedBy}`);
+  }
+
+  /**
+   * Returns the change history of a team, newest first.
+   * When companyId is given only entries recorded for that company are returned.
+   */
+  async getTeamHistory(
+    teamId: string,
+    paginationDto: PaginationDto,
+    companyId?: string
+  ): Promise<PaginatedResponseDto<TeamHistoryEntryDto>> {
+    const { page = 1, limit = 10 } = paginationDto;
+    const offset = (page - 1) * limit;
+
+    const { count, rows } = await this.teamAuditLogModel.findAndCountAll({
+      where: companyId ? { team_id: teamId, company_id: companyId } : { team_id: teamId },
+      include: [
+        {
+          model: User,
+          as: 'performer',
+          attributes: ['id', 'first_name', 'last_name', 'email'],
+          required: false,
+        },
+      ],
+      limit,
+      offset,
+      order: [['performed_at', 'DESC']],
+    });
+
+    return {
+      data: rows.map((log) => ({
+        id: log.id,
+        teamId: log.team_id,
+        companyId: log.company_id,
+        action: log.action,
+        performedAt: log.performed_at,
+        performedBy: log.performer
+          ? {
+              id: log.performer.id,
+              firstName: log.performer.first_name,
+              lastName: log.performer.last_name,
+              email: log.performer.email,
+            }
+          : { id: log.performed_by },
+        before: log.before_snapshot ?? null,
+        after: log.after_snapshot ?? null,
+        details: log.details ?? null,
+      })),
+      meta: {
+        currentPage: page,
+        itemCount: count,
+        itemsPerPage: limit,
+        totalPages: Math.ceil(count / limit),
+      },
+    };
+  }
+}
@@ -1,5 +1,6 @@
 import { Injectable, BadRequestException, NotFoundException } from '@nestjs/common';
 import { InjectModel } from '@nestjs/sequelize';
+import { Transaction } from 'sequelize';
 import { Team } from '../entities/team.entity';
 import { TeamMember } from '../entities/team-member.entity';
 import { User } from '../../auth/entities/user.entity';
@@ -76,9 +77,15 @@ export class TeamValidationService {
   }
 
   /**
-   * Validates that LEGAL category teams have at least one lawyer member
+   * Validates that LEGAL category teams have at least one lawyer member.
+   * User.is_lawyer is derived from verified lawyer credentials.
+   * Pass the caller's transaction to validate changes that are not committed yet.
    */
-  async validateLegalTeamLawyerRequirement(teamId: string, category?: TeamCategory): Promise<void> {
+  async validateLegalTeamLawyerRequirement(
+    teamId: string,
+    category?: TeamCategory,
+    transaction?: Transaction
+  ): Promise<void> {
     // This validation only applies to LEGAL teams
     if (category !== TeamCategory.LEGAL) {
       return;
@@ -98,6 +105,7 @@ export class TeamValidationService {
           attributes: ['id', 'is_lawyer', 'first_name', 'last_name'],
         },
       ],
+      transaction,
     });
 
     if (!team) {
@@ -33,6 +33,7 @@ import { PermissionsGuard } from '../../core/guards/permissions.guard';
 import { SuperAdminBypassGuard } from '../../core/guards/super-admin-bypass.guard';
 import { AddMembersDto } from './dto/add-members.dto';
 import { CreateTeamDto } from './dto/create-team.dto';
+import { TeamHistoryEntryDto } from './dto/team-history-entry.dto';
 import { TeamResponseDto } from './dto/team-response.dto';
 import { UpdateTeamDto } from './dto/update-team.dto';
 import { TeamService } from './team.service';
@@ -148,6 +149,46 @@ export class TeamController {
     });
   }
 
+  /**
+   * @description Retrieves the change history of a team (creation, renames, category and
+   * manager changes, membership changes and deletion), newest first.
+   */
+  @Get(':teamId/history')
+  @RequirePermissions('teams:read:own', 'teams:read:any')
+  @ApiOperation({ summary: 'Get the change history of a team' })
+  @ApiParam({
+    name: 'teamId',
+    type: 'string',
+    format: 'uuid',
+    description: 'The ID of the team',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Successfully retrieved team history.',
+    type: 'PaginatedTeamHistoryEntryDto',
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized.' })
+  @ApiResponse({
+    status: 404,
+    description: 'Not Found. Team with the specified ID does not exist.',
+  })
+  async getHistory(
+    @Param('teamId', ParseUUIDPipe) teamId: string,
+    @Query() paginationQuery: PaginationDto,
+    @CurrentUser() user: any
+  ): Promise<PaginatedResponseDto<TeamHistoryEntryDto>> {
+    this.logger.log(`Fetching history for team: ${teamId} for user: ${user.id}`);
+
+    const result = await this.teamService.getHistory(teamId, paginationQuery, user);
+
+    return {
+      data: result.data.map((entry) =>
+        plainToClass(TeamHistoryEntryDto, entry, { excludeExtraneousValues: true })
+      ),
+      meta: result.meta,
+    };
+  }
+
   /**
    * @description Updates a team's details.
    * Access is restricted to team administrators.
@@ -2,10 +2,12 @@ import { Module } from '@nestjs/common';
 import { SequelizeModule } from '@nestjs/sequelize';
 import { TeamMember } from './entities/team-member.entity';
 import { Team } from './entities/team.entity';
+import { TeamAuditLog } from './entities/team-audit-log.entity';
 import { TeamController } from './team.controller';
 import { TeamService } from './team.service';
 import { TeamValidationService } from './services/team-validation.service';
 import { MembershipValidationService } from './services/membership-validation.service';
+import { TeamAuditService } from './services/team-audit.service';
 import { User } from '../auth/entities/user.entity';
 import { Company } from '../company/entities/company.entity';
 import { TeamAccessGuard, TeamManagerGuard } from '../../core/guards/team-access.guard';
@@ -13,12 +15,16 @@ import { CompanyAdminGuard } from '../../core/guards/company-admin.guard';
 import { RoleModule } from '../role/role.module';
 
 @Module({
-  imports: [SequelizeModule.forFeature([Team, TeamMember, User, Company]), RoleModule],
+  imports: [
+    SequelizeModule.forFeature([Team, TeamMember, TeamAuditLog, User, Company]),
+    RoleModule,
+  ],
   controllers: [TeamController],
   providers: [
     TeamService,
     TeamValidationService,
     MembershipValidationService,
+    TeamAuditService,
     TeamAccessGuard,
     TeamManagerGuard,
     CompanyAdminGuard,
@@ -27,6 +33,7 @@ import { RoleModule } from '../role/role.module';
     TeamService,
     TeamValidationService,
     MembershipValidationService,
+    TeamAuditService,
     TeamAccessGuard,
     TeamManagerGuard,
     CompanyAdminGuard,
@@ -8,6 +8,10 @@ import { User, UserRole } from '../auth/entities/user.entity';
 import { Company } from '../company/entities/company.entity';
 import { TeamValidationService } from './services/team-validation.service';
 import { MembershipValidationService } from './services/membership-validation.service';
+import { TeamAuditService } from './services/team-audit.service';
+import { TeamAuditAction, TeamAuditLog } from './entities/team-audit-log.entity';
+import { AuditTrailService } from '../audit/audit-trail.service';
+import { AuditSource } from '../audit/entities/audit-record.entity';
 import { CreateTeamDto } from './dto/create-team.dto';
 import { UpdateTeamDto } from './dto/update-team.dto';
 import { PaginationDto } from '../../common/dto/pagination.dto';
@@ -18,6 +22,8 @@ describe('TeamService', () => {
   let mockTeamMemberModel: any;
   let mockUserModel: any;
   let mockCompanyModel: any;
+  let mockTeamAuditLogModel: any;
+  let auditTrailService: { append: jest.Mock };
   let sequelize: any;
   let teamValidationService: jest.Mocked<TeamValidationService>;
   let membershipValidationService: jest.Mocked<MembershipValidationService>;
@@ -153,9 +159,20 @@ describe('TeamService', () => {
             validateNewMembersBelongToCompany: jest.fn(),
             validateLegalTeamLawyerRequirementAfterRemoval: jest.fn(),
             validateLegalTeamHasLawyerAfterReplacement: jest.fn(),
-            logMembershipChange: jest.fn(),
           },
         },
+        TeamAuditService,
+        {
+          provide: getModelToken(TeamAuditLog),
+          useValue: {
+            create: jest.fn(),
+            findAndCountAll: jest.fn(),
+          },
+        },
+        {
+          provide: AuditTrailService,
+          useValue: { append: jest.fn() },
+        },
       ],
     }).compile();
 
@@ -164,6 +181,8 @@ describe('TeamService', () => {
     mockTeamMemberModel = module.get(getModelToken(TeamMember));
     mockUserModel = module.get(getModelToken(User));
     mockCompanyModel = module.get(getModelToken(Company));
+    mockTeamAuditLogModel = module.get(getModelToken(TeamAuditLog));
+    auditTrailService = module.get(AuditTrailService);
     sequelize = module.get(getConnectionToken());
     teamValidationService = module.get(TeamValidationService);
     membershipValidationService = module.get(MembershipValidationService);
@@ -238,6 +257,29 @@ describe('TeamService', () => {
         },
         { transaction: expect.any(Object) }
       );
+      expect(mockTeamAuditLogModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          team_id: mockTeam.id,
+          company_id: mockUser.company_id,
+          action: TeamAuditAction.TEAM_CREATED,
+          performed_by: mockUser.id,
+          before_snapshot: null,
+          after_snapshot: expect.objectContaining({
+            memberIds: ['owner-123', 'user-1', 'user-2'],
+          }),
+        }),
+        { transaction: expect.any(Object) }
+      );
+      expect(auditTrailService.append).toHaveBeenCalledWith(
+        expect.objectContaining({
+          tenantId: mockUser.company_id,
+          source: AuditSource.TEAM,
+          action: TeamAuditAction.TEAM_CREATED,
+          entityId: mockTeam.id,
+          performedBy: mockUser.id,
+        }),
+        expect.any(Object)
+      );
       expect(result).toBe(mockTeam);
     });
 
@@ -390,6 +432,35 @@ describe('TeamService', () => {
       expect(result).toBe(mockTeam);
     });
 
+    it('should record a rename and a generic update with before/after snapshots', async () => {
+      mockTeamModel.findOne
+        .mockResolvedValueOnce({ ...mockTeam, description: 'Old', members: [{ id: 'user-1' }] })
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(mockTeam);
+      mockTeamModel.update.mockResolvedValue([1]);
+
+      await service.update(mockUser, 'team-123', updateTeamDto);
+
+      const actions = mockTeamAuditLogModel.create.mock.calls.map((call) => call[0].action);
+      expect(actions).toEqual([TeamAuditAction.TEAM_RENAMED, TeamAuditAction.TEAM_UPDATED]);
+      expect(mockTeamAuditLogModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          before_snapshot: expect.objectContaining({ name: 'Test Team', memberIds: ['user-1'] }),
+          after_snapshot: expect.objectContaining({ name: 'Updated Team', memberIds: ['user-1'] }),
+        }),
+        { transaction: expect.any(Object) }
+      );
+    });
+
+    it('should not record history when nothing changed', async () => {
+      mockTeamModel.findOne.mockResolvedValueOnce(mockTeam).mockResolvedValueOnce(mockTeam);
+      mockTeamModel.update.mockResolvedValue([1]);
+
+      await service.update(mockUser, 'team-123', { name: mockTeam.name });
+
+      expect(mockTeamAuditLogModel.create).not.toHaveBeenCalled();
+    });
+
     it('should throw NotFoundException when team not found', async () => {
       mockTeamModel.findOne.mockResolvedValue(null);
 
@@ -415,6 +486,16 @@ describe('TeamService', () => {
         where: { id: 'team-123', company_id: mockUser.company_id },
         transaction: expect.any(Object),
       });
+      expect(mockTeamAuditLogModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          team_id: 'team-123',
+          action: TeamAuditAction.TEAM_DELETED,
+          performed_by: mockUser.id,
+          before_snapshot: expect.objectContaining({ name: 'Test Team' }),
+          after_snapshot: null,
+        }),
+        { transaction: expect.any(Object) }
+      );
     });
 
     it('should throw NotFoundException when team not found', async () => {
@@ -439,6 +520,7 @@ describe('TeamService', () => {
         company_id: 'company-123',
       } as User);
       membershipValidationService.validateMembershipAddition.mockResolvedValue(undefined);
+      mockTeamMemberModel.findAll.mockResolvedValue([{ user_id: 'user-123' }]);
       mockTeamMemberModel.create.mockResolvedValue(mockMember);
 
       const result = await service.addMember(mockUser, 'team-123', 'user-456');
@@ -452,6 +534,15 @@ describe('TeamService', () => {
         },
         { transaction: expect.any(Object) }
       );
+      expect(mockTeamAuditLogModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: TeamAuditAction.MEMBERS_ADDED,
+          before_snapshot: expect.objectContaining({ memberIds: ['user-123'] }),
+          after_snapshot: expect.objectContaining({ memberIds: ['user-123', 'user-456'] }),
+          details: { userIds: ['user-456'] },
+        }),
+        { transaction: expect.any(Object) }
+      );
       expect(result).toBe(mockMember);
     });
 
@@ -515,6 +606,39 @@ describe('TeamService', () => {
       });
     });
 
+    it('should record who removed the member', async () => {
+      mockTeamModel.findOne.mockResolvedValue({
+        ...mockTeam,
+        category: TeamCategory.LEGAL,
+        members: [{ id: 'user-456' }, { id: 'user-789' }],
+      });
+      mockTeamMemberModel.findOne.mockResolvedValue(mockMembership);
+      mockTeamMemberModel.destroy.mockResolvedValue(1);
+
+      await service.removeMember(mockUser, 'team-123', 'user-456');
+
+      expect(mockTeamAuditLogModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: TeamAuditAction.MEMBERS_REMOVED,
+          performed_by: mockUser.id,
+          before_snapshot: expect.objectContaining({ memberIds: ['user-456', 'user-789'] }),
+          after_snapshot: expect.objectContaining({ memberIds: ['user-789'] }),
+          details: { userIds: ['user-456'] },
+        }),
+        { transaction: expect.any(Object) }
+      );
+    });
+
+    it('should not record history when the removal fails', async () => {
+      mockTeamModel.findOne.mockResolvedValue(mockTeam);
+      mockTeamMemberModel.findOne.mockResolvedValue(null);
+
+      await expect(service.removeMember(mockUser, 'team-123', 'user-456')).rejects.toThrow(
+        BadRequestException
+      );
+      expect(mockTeamAuditLogModel.create).not.toHaveBeenCalled();
+    });
+
     it('should throw NotFoundException when membership not found', async () => {
       mockTeamModel.findOne.mockResolvedValue(mockTeam);
       mockTeamMemberModel.findOne.mockResolvedValue(null);
@@ -525,6 +649,152 @@ describe('TeamService', () => {
     });
   });
 
+  describe('getHistory', () => {
+    it('should scope history to the user company', async () => {
+      mockTeamAuditLogModel.findAndCountAll.mockResolvedValue({
+        count: 1,
+        rows: [
+          {
+            id: 'log-1',
+            team_id: 'team-123',
+            company_id: 'company-123',
+            action: TeamAuditAction.MEMBERS_REMOVED,
+            performed_by: 'user-123',
+            performed_at: new Date('2025-06-01T10:00:00Z'),
+            before_snapshot: null,
+            after_snapshot: null,
+            details: { userIds: ['user-456'] },
+            performer: mockUser,
+          },
+        ],
+      });
+
+      const result = await service.getHistory('team-123', { page: 1, limit: 10 }, mockUser);
+
+      expect(mockTeamAuditLogModel.findAndCountAll).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { team_id: 'team-123', company_id: mockUser.company_id },
+          order: [['performed_at', 'DESC']],
+        })
+      );
+      expect(result.meta.itemCount).toBe(1);
+      expect(result.data[0]).toEqual(
+        expect.objectContaining({
+          action: TeamAuditAction.MEMBERS_REMOVED,
+          performedBy: {
+            id: 'user-123',
+            firstName: 'Test',
+            lastName: 'User',
+            email: 'test@example.com',
+          },
+        })
+      );
+    });
+
+    it('should throw NotFoundException when there is no history and no accessible team', async () => {
+      mockTeamAuditLogModel.findAndCountAll.mockResolvedValue({ count: 0, rows: [] });
+      mockTeamModel.findOne.mockResolvedValue(null);
+
+      await expect(
+        service.getHistory('team-999', { page: 1, limit: 10 }, mockUser)
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('offboardUser', () => {
+    const transaction = {} as any;
+
+    const ownedTeam = () =>
+      createMockTeamInstance({
+        id: 'team-owned',
+        name: 'Owned Team',
+        category: TeamCategory.CONVENTIONAL,
+        company_id: 'company-123',
+        owner_user_id: 'user-123',
+        is_active: true,
+      });
+
+    const memberTeam = () =>
+      createMockTeamInstance({
+        id: 'team-legal',
+        name: 'Litigation',
+        category: TeamCategory.LEGAL,
+        company_id: 'company-123',
+        owner_user_id: 'user-789',
+        is_active: true,
+      });
+
+    it('should reassign owned teams, remove memberships and record both changes', async () => {
+      const owned = ownedTeam();
+      mockTeamModel.findAll.mockResolvedValueOnce([owned]).mockResolvedValueOnce([memberTeam()]);
+      mockTeamMemberModel.findAll
+        .mockResolvedValueOnce([{ team_id: 'team-legal' }])
+        .mockResolvedValueOnce([{ user_id: 'user-456' }])
+        .mockResolvedValueOnce([{ user_id: 'user-123' }, { user_id: 'user-999' }]);
+
+      const result = await service.offboardUser('user-123', 'user-456', 'admin-123', transaction);
+
+      expect(teamValidationService.validateTeamOwnerCompany).toHaveBeenCalledWith(
+        'user-456',
+        'company-123'
+      );
+      expect(owned.update).toHaveBeenCalledWith({ owner_user_id: 'user-456' }, { transaction });
+      expect(mockTeamMemberModel.destroy).toHaveBeenCalledWith({
+        where: { team_id: 'team-legal', user_id: 'user-123' },
+        transaction,
+      });
+      expect(teamValidationService.validateLegalTeamLawyerRequirement).toHaveBeenCalledWith(
+        'team-legal',
+        'LEGAL',
+        transaction
+      );
+      expect(mockTeamAuditLogModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          team_id: 'team-owned',
+          action: TeamAuditAction.TEAM_MANAGER_CHANGED,
+          performed_by: 'admin-123',
+        }),
+        { transaction }
+      );
+      expect(mockTeamAuditLogModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          team_id: 'team-legal',
+          action: TeamAuditAction.MEMBERS_REMOVED,
+          after_snapshot: expect.objectContaining({ memberIds: ['user-999'] }),
+        }),
+        { transaction }
+      );
+      expect(result).toEqual({
+        removedFromTeamIds: ['team-legal'],
+        reassignedTeamIds: ['team-owned'],
+      });
+    });
+
+    it('should require a new owner when the user owns teams', async () => {
+      mockTeamModel.findAll.mockResolvedValueOnce([ownedTeam()]);
+      mockTeamMemberModel.findAll.mockResolvedValueOnce([]);
+
+      await expect(
+        service.offboardUser('user-123', undefined, 'admin-123', transaction)
+      ).rejects.toThrow(BadRequestException);
+      expect(mockTeamModel.update).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to leave a LEGAL team without a lawyer', async () => {
+      mockTeamModel.findAll.mockResolvedValueOnce([]).mockResolvedValueOnce([memberTeam()]);
+      mockTeamMemberModel.findAll
+        .mockResolvedValueOnce([{ team_id: 'team-legal' }])
+        .mockResolvedValueOnce([{ user_id: 'user-123' }]);
+      teamValidationService.validateLegalTeamLawyerRequirement.mockRejectedValue(
+        new BadRequestException('LEGAL teams must have at least one lawyer')
+      );
+
+      await expect(
+        service.offboardUser('user-123', undefined, 'admin-123', transaction)
+      ).rejects.toThrow("LEGAL team 'Litigation' would be left without a lawyer");
+    });
+  });
+
   describe('multi-tenancy enforcement', () => {
     it('should always include company_id in queries', async () => {
       const testMethods = [
@@ -15,10 +15,21 @@ import { Company } from '../company/entities/company.entity';
 import { Role } from '../role/entities/role.entity';
 import { CreateTeamDto } from './dto/create-team.dto';
 import { UpdateTeamDto } from './dto/update-team.dto';
-import { TeamValidationService } from './services/team-validation.service';
+import {
+  TeamCategory as ValidationTeamCategory,
+  TeamValidationService,
+} from './services/team-validation.service';
 import { MembershipValidationService } from './services/membership-validation.service';
+import { TeamAuditService } from './services/team-audit.service';
+import { TeamAuditAction, TeamSnapshot } from './entities/team-audit-log.entity';
 import { PaginationDto } from '../../common/dto/pagination.dto';
 import { PaginatedResponseDto } from '../../common/dto/paginated-response.dto';
+import { TeamHistoryEntryDto } from './dto/team-history-entry.dto';
+
+export interface TeamOffboardingResult {
+  removedFromTeamIds: string[];
+  reassignedTeamIds: string[];
+}
 
 @Injectable()
 export class TeamService {
@@ -35,7 +46,8 @@ export class TeamService {
     private companyModel: typeof Company,
     private sequelize: Sequelize,
     private teamValidationService: TeamValidationService,
-    private membershipValidationService: MembershipValidationService
+    private membershipValidationService: MembershipValidationService,
+    private teamAuditService: TeamAuditService
   ) {}
 
   async getTeamById(teamId: string): Promise<Team | null> {
@@ -407,41 +419,79 @@ export class TeamService {
     }
   }
 
-  async changeTeamManager(teamId: string, newManagerId: string): Promise<boolean> {
+  async changeTeamManager(
+    teamId: string,
+    newManagerId: string,
+    performedBy: string
+  ): Promise<boolean> {
     try {
       // Validate manager change
       await this.teamValidationService.validateManagerChange(teamId, newManagerId);
 
-      // Remove new manager from regular members if they exist
-      await this.teamMemberModel.destroy({
-        where: {
-          team_id: teamId,
-          user_id: newManagerId,
-        },
-      });
+      return await this.sequelize.transaction(async (t) => {
+        const team = await this.teamModel.findByPk(teamId, { transaction: t });
+        if (!team) {
+          return false;
+        }
 
-      const [updatedRows] = await this.teamModel.update(
-        { owner_user_id: newManagerId },
-        { where: { id: teamId } }
-      );
+        const beforeMemberIds = await this.getMemberIds(teamId, t);
 
-      if (updatedRows === 0) {
-        return false;
-      }
+        // Remove new manager from regular members if they exist
+        await this.teamMemberModel.destroy({
+          where: {
+            team_id: teamId,
+            user_id: newManagerId,
+          },
+          transaction: t,
+        });
 
-      return true;
+        const [updatedRows] = await this.teamModel.update(
+          { owner_user_id: newManagerId },
+          { where: { id: teamId }, transaction: t }
+        );
+
+        if (updatedRows === 0) {
+          return false;
+        }
+
+        const before = this.teamAuditService.buildSnapshot(team, beforeMemberIds);
+        await this.teamAuditService.record(
+          {
+            teamId,
+            companyId: team.company_id,
+            action: TeamAuditAction.TEAM_MANAGER_CHANGED,
+            performedBy,
+            before,
+            after: {
+              ...before,
+              ownerUserId: newManagerId,
+              memberIds: before.memberIds.filter((id) => id !== newManagerId),
+            },
+          },
+          t
+        );
+
+        return true;
+      });
     } catch (error) {
       this.logger.error('Error changing team manager:', error);
       throw error;
     }
   }
 
-  async replaceTeamUsers(teamId: string, userIds: string[]): Promise<void> {
+  async replaceTeamUsers(teamId: string, userIds: string[], performedBy: string): Promise<void> {
     try {
       // Validate membership replacement
       await this.membershipValidationService.validateMembershipReplacement(teamId, userIds);
 
       await this.sequelize.transaction(async (t) => {
+        const team = await this.teamModel.findByPk(teamId, { transaction: t });
+        if (!team) {
+          throw new NotFoundException(`Team with ID '${teamId}' not found`);
+        }
+
+        const beforeMemberIds = await this.getMemberIds(teamId, t);
+
         await this.teamMemberModel.destroy({
           where: { team_id: teamId },
           transaction: t,
@@ -460,6 +510,22 @@ export class TeamService {
             )
           );
         }
+
+        await this.teamAuditService.record(
+          {
+            teamId,
+            companyId: team.company_id,
+            action: TeamAuditAction.MEMBERS_REPLACED,
+            performedBy,
+            before: this.teamAuditService.buildSnapshot(team, beforeMemberIds),
+            after: this.teamAuditService.buildSnapshot(team, userIds),
+            details: {
+              addedUserIds: userIds.filter((id) => !beforeMemberIds.includes(id)),
+              removedUserIds: beforeMemberIds.filter((id) => !userIds.includes(id)),
+            },
+          },
+          t
+        );
       });
     } catch (error) {
       this.logger.error('Error replacing team users:', error);
@@ -573,6 +639,17 @@ export class TeamService {
         )
       );
 
+      await this.teamAuditService.record(
+        {
+          teamId: team.id,
+          companyId,
+          action: TeamAuditAction.TEAM_CREATED,
+          performedBy: currentUser.id,
+          after: this.teamAuditService.buildSnapshot(team, memberIds),
+        },
+        transaction
+      );
+
       await transaction.commit();
 
       this.logger.log(`Team '${name}' created successfully with ID: ${team.id}`);
@@ -756,7 +833,7 @@ export class TeamService {
   /**
    * Update a team with proper validation and transaction support
    */
-  async update(currentUser: User, id: string, updateTeamDto: any): Promise<Team> {
+  async update(currentUser: User, id: string, updateTeamDto: UpdateTeamDto): Promise<Team> {
     const { name, description, category, ownerUserId, memberIds, isActive } = updateTeamDto;
 
     const companyId = currentUser.company_id;
@@ -805,6 +882,33 @@ export class TeamService {
         }
       );
 
+      const before = this.teamAuditService.buildSnapshot(
+        currentTeam,
+        (currentTeam.members ?? []).map((member) => member.id)
+      );
+      const after: TeamSnapshot = {
+        ...before,
+        name: name ?? before.name,
+        description: description ?? before.description,
+        category: category ?? before.category,
+        ownerUserId: ownerUserId ?? before.ownerUserId,
+        isActive: isActive ?? before.isActive,
+      };
+
+      for (const action of this.getUpdateAuditActions(before, after)) {
+        await this.teamAuditService.record(
+          {
+            teamId: id,
+            companyId: currentTeam.company_id,
+            action,
+            performedBy: currentUser.id,
+            before,
+            after,
+          },
+          transaction
+        );
+      }
+
       await transaction.commit();
 
       this.logger.log(`Team with ID: ${id} updated successfully`);
@@ -849,6 +953,20 @@ export class TeamService {
         transaction,
       });
 
+      await this.teamAuditService.record(
+        {
+          teamId: id,
+          companyId: team.company_id,
+          action: TeamAuditAction.TEAM_DELETED,
+          performedBy: currentUser.id,
+          before: this.teamAuditService.buildSnapshot(
+            team,
+            (team.members ?? []).map((member) => member.id)
+          ),
+        },
+        transaction
+      );
+
       await transaction.commit();
 
       this.logger.log(`Team with ID: ${id} removed successfully`);
@@ -916,6 +1034,20 @@ export class TeamService {
         )
       );
 
+      const beforeMemberIds = (team.members ?? []).map((member) => member.id);
+      await this.teamAuditService.record(
+        {
+          teamId,
+          companyId: team.company_id,
+          action: TeamAuditAction.MEMBERS_ADDED,
+          performedBy: currentUser.id,
+          before: this.teamAuditService.buildSnapshot(team, beforeMemberIds),
+          after: this.teamAuditService.buildSnapshot(team, [...beforeMemberIds, ...newUserIds]),
+          details: { userIds: newUserIds },
+        },
+        transaction
+      );
+
       await transaction.commit();
 
       this.logger.log(`Added ${newUserIds.length} members to team ${teamId}`);
@@ -956,6 +1088,8 @@ export class TeamService {
         currentUser
       );
 
+      const beforeMemberIds = await this.getMemberIds(teamId, transaction);
+
       // Create the team member
       const teamMember = await this.teamMemberModel.create(
         {
@@ -966,6 +1100,19 @@ export class TeamService {
         { transaction }
       );
 
+      await this.teamAuditService.record(
+        {
+          teamId,
+          companyId: team.company_id,
+          action: TeamAuditAction.MEMBERS_ADDED,
+          performedBy: currentUser.id,
+          before: this.teamAuditService.buildSnapshot(team, beforeMemberIds),
+          after: this.teamAuditService.buildSnapshot(team, [...beforeMemberIds, userId]),
+          details: { userIds: [userId] },
+        },
+        transaction
+      );
+
       return teamMember;
     });
   }
@@ -1017,6 +1164,23 @@ export class TeamService {
         transaction,
       });
 
+      const beforeMemberIds = (team.members ?? []).map((member) => member.id);
+      await this.teamAuditService.record(
+        {
+          teamId,
+          companyId: team.company_id,
+          action: TeamAuditAction.MEMBERS_REMOVED,
+          performedBy: currentUser.id,
+          before: this.teamAuditService.buildSnapshot(team, beforeMemberIds),
+          after: this.teamAuditService.buildSnapshot(
+            team,
+            beforeMemberIds.filter((id) => id !== userId)
+          ),
+          details: { userIds: [userId] },
+        },
+        transaction
+      );
+
       await transaction.commit();
 
       this.logger.log(`Removed user ${userId} from team ${teamId}`);
@@ -1027,6 +1191,182 @@ export class TeamService {
     }
   }
 
+  /**
+   * Get the change history of a team.
+   * ACME_ADMIN can read any team's history; others only entries recorded for their company.
+   */
+  async getHistory(
+    teamId: string,
+    paginationDto: PaginationDto,
+    currentUser: any
+  ): Promise<PaginatedResponseDto<TeamHistoryEntryDto>> {
+    const companyId = currentUser.hasRoleEnum(UserRole.ACME_ADMIN)
+      ? undefined
+      : currentUser.company_id;
+
+    const history = await this.teamAuditService.getTeamHistory(teamId, paginationDto, companyId);
+
+    // No history visible: surface a 404 if the team itself is not accessible either
+    if (history.meta.itemCount === 0) {
+      await this.findOne({ company_id: companyId } as User, teamId);
+    }
+
+    return history;
+  }
+
+  /**
+   * Removes a user from all their teams and hands the teams they own to newOwnerId,
+   * inside the caller's transaction. Refuses if a LEGAL team would be left without a lawyer.
+   */
+  async offboardUser(
+    userId: string,
+    newOwnerId: string | undefined,
+    performedBy: string,
+    transaction: Transaction
+  ): Promise<TeamOffboardingResult> {
+    const ownedTeams = await this.teamModel.findAll({
+      where: { owner_user_id: userId },
+      transaction,
+    });
+
+    const memberships = await this.teamMemberModel.findAll({
+      where: { user_id: userId },
+      attributes: ['team_id'],
+      transaction,
+    });
+    const memberTeams =
+      memberships.length > 0
+        ? await this.teamModel.findAll({
+            where: { id: memberships.map((membership) => membership.team_id) },
+            transaction,
+          })
+        : [];
+
+    if (ownedTeams.length > 0) {
+      if (!newOwnerId || newOwnerId === userId) {
+        throw new BadRequestException(
+          `User owns ${ownedTeams.length} team(s). A new owner is required to offboard them`
+        );
+      }
+
+      for (const team of ownedTeams) {
+        await this.teamValidationService.validateTeamOwnerCompany(newOwnerId, team.company_id);
+
+        const beforeMemberIds = await this.getMemberIds(team.id, transaction);
+        const before = this.teamAuditService.buildSnapshot(team, beforeMemberIds);
+
+        await this.teamMemberModel.destroy({
+          where: { team_id: team.id, user_id: [userId, newOwnerId] },
+          transaction,
+        });
+        await team.update({ owner_user_id: newOwnerId }, { transaction });
+
+        await this.teamAuditService.record(
+          {
+            teamId: team.id,
+            companyId: team.company_id,
+            action: TeamAuditAction.TEAM_MANAGER_CHANGED,
+            performedBy,
+            before,
+            after: this.teamAuditService.buildSnapshot(
+              team,
+              beforeMemberIds.filter((id) => id !== userId && id !== newOwnerId)
+            ),
+            details: { reason: 'USER_OFFBOARDED', userId },
+          },
+          transaction
+        );
+      }
+    }
+
+    const ownedTeamIds = ownedTeams.map((team) => team.id);
+    const removedFromTeams = memberTeams.filter((team) => !ownedTeamIds.includes(team.id));
+
+    for (const team of removedFromTeams) {
+      const beforeMemberIds = await this.getMemberIds(team.id, transaction);
+
+      await this.teamMemberModel.destroy({
+        where: { team_id: team.id, user_id: userId },
+        transaction,
+      });
+
+      await this.teamAuditService.record(
+        {
+          teamId: team.id,
+          companyId: team.company_id,
+          action: TeamAuditAction.MEMBERS_REMOVED,
+          performedBy,
+          before: this.teamAuditService.buildSnapshot(team, beforeMemberIds),
+          after: this.teamAuditService.buildSnapshot(
+            team,
+            beforeMemberIds.filter((id) => id !== userId)
+          ),
+          details: { userIds: [userId], reason: 'USER_OFFBOARDED' },
+        },
+        transaction
+      );
+    }
+
+    const legalTeams = [...ownedTeams, ...removedFromTeams].filter(
+      (team) => team.category === TeamCategory.LEGAL
+    );
+    for (const team of legalTeams) {
+      try {
+        await this.teamValidationService.validateLegalTeamLawyerRequirement(
+          team.id,
+          ValidationTeamCategory.LEGAL,
+          transaction
+        );
+      } catch (error) {
+        if (error instanceof BadRequestException) {
+          throw new BadRequestException(
+            `Cannot offboard user: LEGAL team '${team.name}' would be left without a lawyer`
+          );
+        }
+        throw error;
+      }
+    }
+
+    return {
+      removedFromTeamIds: removedFromTeams.map((team) => team.id),
+      reassignedTeamIds: ownedTeamIds,
+    };
+  }
+
+  // ================== PRIVATE HELPER METHODS ==================
+
+  private async getMemberIds(teamId: string, transaction?: Transaction): Promise<string[]> {
+    const memberships = await this.teamMemberModel.findAll({
+      where: { team_id: teamId },
+      attributes: ['user_id'],
+      transaction,
+    });
+
+    return memberships.map((membership) => membership.user_id);
+  }
+
+  /**
+   * Maps the differences between two snapshots to the audit actions they represent
+   */
+  private getUpdateAuditActions(before: TeamSnapshot, after: TeamSnapshot): TeamAuditAction[] {
+    const actions: TeamAuditAction[] = [];
+
+    if (after.name !== before.name) {
+      actions.push(TeamAuditAction.TEAM_RENAMED);
+    }
+    if (after.category !== before.category) {
+      actions.push(TeamAuditAction.TEAM_CATEGORY_CHANGED);
+    }
+    if (after.ownerUserId !== before.ownerUserId) {
+      actions.push(TeamAuditAction.TEAM_MANAGER_CHANGED);
+    }
+    if (after.description !== before.description || after.isActive !== before.isActive) {
+      actions.push(TeamAuditAction.TEAM_UPDATED);
+    }
+
+    return actions;
+  }
+
   // ================== PRIVATE VALIDATION METHODS ==================
 
   private async validateLegalTeamHasLawyer(
@@ -0,0 +1,58 @@
+import {
+  AllowNull,
+  BelongsTo,
+  Column,
+  CreatedAt,
+  DataType,
+  ForeignKey,
+  Model,
+  PrimaryKey,
+  Table,
+  UpdatedAt,
+} from 'sequelize-typescript';
+import { User } from '../../auth/entities/user.entity';
+
+/**
+ * Access token revoked by its jti claim before it expired.
+ * Rows are only needed until expires_at and are purged afterwards.
+ */
+@Table({
+  tableName: 'RevokedTokens',
+  timestamps: true,
+  underscored: true,
+  indexes: [
+    {
+      fields: ['expires_at'],
+      name: 'idx_revoked_tokens_expires_at',
+    },
+  ],
+})
+export class RevokedToken extends Model {
+  @PrimaryKey
+  @Column(DataType.STRING(255))
+  jti: string;
+
+  @AllowNull(false)
+  @Column(DataType.STRING)
+  subject: string;
+
+  @AllowNull(false)
+  @Column(DataType.DATE)
+  expires_at: Date;
+
+  @ForeignKey(() => User)
+  @Column(DataType.UUID)
+  revoked_by?: string | null;
+
+  @Column(DataType.STRING(500))
+  reason?: string | null;
+
+  @BelongsTo(() => User, 'revoked_by')
+  revoker?: User;
+
+  @CreatedAt
+  created_at: Date;
+
+  @UpdatedAt
+  updated_at: Date;
+}
@@ -0,0 +1,16 @@
+import { Global, Module } from '@nestjs/common';
+import { SequelizeModule } from '@nestjs/sequelize';
+import { User } from '../auth/entities/user.entity';
+import { RevokedToken } from './entities/revoked-token.entity';
+import { TokenRevocationService } from './token-revocation.service';
+
+/**
+ * Global so that JwtAuthGuard can check revoked tokens in every module that uses it
+ */
+@Global()
+@Module({
+  imports: [SequelizeModule.forFeature([RevokedToken, User])],
+  providers: [TokenRevocationService],
+  exports: [TokenRevocationService],
+})
+export class TokenRevocationModule {}
@@ -0,0 +1,137 @@
+import { getModelToken } from '@nestjs/sequelize';
+import { Test, TestingModule } from '@nestjs/testing';
+import { Op } from 'sequelize';
+import { User } from '../auth/entities/user.entity';
+import { JwtPayload } from '../auth/jwt-payload.interface';
+import { RevokedToken } from './entities/revoked-token.entity';
+import { TokenRevocationService } from './token-revocation.service';
+
+describe('TokenRevocationService', () => {
+  let service: TokenRevocationService;
+  let revokedTokenModel: { findByPk: jest.Mock; upsert: jest.Mock; destroy: jest.Mock };
+  let userModel: { update: jest.Mock };
+
+  const payload = (claims: Partial<JwtPayload> = {}): JwtPayload => ({
+    iss: 'https://issuer.test/',
+    sub: 'auth0|123',
+    aud: 'api',
+    iat: 1760950800, // 2025-10-20T09:00:00Z
+    exp: 1760954400,
+    azp: 'client',
+    ...claims,
+  });
+
+  const userWithCutoff = (cutoff: string | null) =>
+    ({ id: 'user-123', tokens_valid_after: cutoff ? new Date(cutoff) : null }) as User;
+
+  beforeEach(async () => {
+    revokedTokenModel = {
+      findByPk: jest.fn().mockResolvedValue(null),
+      upsert: jest.fn(),
+      destroy: jest.fn().mockResolvedValue(0),
+    };
+    userModel = { update: jest.fn().mockResolvedValue([1]) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TokenRevocationService,
+        { provide: getModelToken(RevokedToken), useValue: revokedTokenModel },
+        { provide: getModelToken(User), useValue: userModel },
+      ],
+    }).compile();
+
+    service = module.get<TokenRevocationService>(TokenRevocationService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('isRevoked', () => {
+    it('should accept tokens issued at or after the cutoff', async () => {
+      await expect(
+        service.isRevoked(payload(), userWithCutoff('2025-10-20T09:00:00.000Z'))
+      ).resolves.toBe(false);
+      await expect(service.isRevoked(payload(), userWithCutoff(null))).resolves.toBe(false);
+    });
+
+    it('should reject tokens issued before the cutoff', async () => {
+      await expect(
+        service.isRevoked(payload(), userWithCutoff('2025-10-20T09:00:01.000Z'))
+      ).resolves.toBe(true);
+    });
+
+    it('should reject tokens without iat once a cutoff is set', async () => {
+      await expect(
+        service.isRevoked(payload({ iat: undefined }), userWithCutoff('2025-10-20T08:00:00.000Z'))
+      ).resolves.toBe(true);
+    });
+
+    it('should reject tokens whose jti was revoked', async () => {
+      revokedTokenModel.findByPk.mockResolvedValue({ jti: 'token-1' });
+
+      await expect(service.isRevoked(payload({ jti: 'token-1' }), null)).resolves.toBe(true);
+      expect(revokedTokenModel.findByPk).toHaveBeenCalledWith('token-1', { attributes: ['jti'] });
+    });
+
+    it('should not look up tokens without jti', async () => {
+      await expect(service.isRevoked(payload(), userWithCutoff(null))).resolves.toBe(false);
+      expect(revokedTokenModel.findByPk).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revokeToken', () => {
+    it('should store the jti until the token expires and purge expired entries', async () => {
+      await expect(
+        service.revokeToken(payload({ jti: 'token-1' }), 'user-123', 'Logout')
+      ).resolves.toBe(true);
+
+      expect(revokedTokenModel.upsert).toHaveBeenCalledWith({
+        jti: 'token-1',
+        subject: 'auth0|123',
+        expires_at: new Date('2025-10-20T10:00:00.000Z'),
+        revoked_by: 'user-123',
+        reason: 'Logout',
+      });
+      expect(revokedTokenModel.destroy).toHaveBeenCalledWith({
+        where: { expires_at: { [Op.lt]: expect.any(Date) } },
+      });
+    });
+
+    it('should not revoke tokens without jti', async () => {
+      await expect(service.revokeToken(payload(), 'user-123')).resolves.toBe(false);
+      expect(revokedTokenModel.upsert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revokeAllForUser', () => {
+    it('should round the cutoff up to the next second', async () => {
+      jest.useFakeTimers().setSystemTime(new Date('2025-10-20T09:00:00.400Z'));
+      const transaction = {} as any;
+
+      const cutoff = await service.revokeAllForUser('user-123', transaction);
+
+      expect(cutoff).toEqual(new Date('2025-10-20T09:00:01.000Z'));
+      expect(userModel.update).toHaveBeenCalledWith(
+        { tokens_valid_after: cutoff },
+        { where: { id: 'user-123' }, transaction }
+      );
+      // Tokens issued earlier in the same second are rejected
+      await expect(
+        service.isRevoked(payload(), userWithCutoff(cutoff.toISOString()))
+      ).resolves.toBe(true);
+    });
+  });
+
+  describe('revokeAllForCompany', () => {
+    it('should bump the cutoff of every user of the company', async () => {
+      userModel.update.mockResolvedValue([4]);
+
+      await expect(service.revokeAllForCompany('company-123')).resolves.toBe(4);
+      expect(userModel.update).toHaveBeenCalledWith(
+        { tokens_valid_after: expect.any(Date) },
+        { where: { company_id: 'company-123' }, transaction: undefined }
+      );
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/sequelize';
+import { Op, Transaction } from 'sequelize';
+import { User } from '../auth/entities/user.entity';
+import { JwtPayload } from '../auth/jwt-payload.interface';
+import { RevokedToken } from './entities/revoked-token.entity';
+
+/**
+ * Revocation store for access tokens, checked by JwtAuthGuard on every request.
+ *
+ * A token is revoked when its jti is in RevokedTokens, or when it was issued before
+ * the user's tokens_valid_after cutoff ("sign out everywhere").
+ */
+@Injectable()
+export class TokenRevocationService {
+  private readonly logger = new Logger(TokenRevocationService.name);
+
+  constructor(
+    @InjectModel(RevokedToken)
+    private revokedTokenModel: typeof RevokedToken,
+    @InjectModel(User)
+    private userModel: typeof User
+  ) {}
+
+  /**
+   * Whether the token was revoked by its jti or by the user's cutoff
+   */
+  async isRevoked(payload: JwtPayload, user: User | null): Promise<boolean> {
+    const cutoff = user?.tokens_valid_after;
+    if (cutoff && (!payload.iat || payload.iat * 1000 < new Date(cutoff).getTime())) {
+      return true;
+    }
+
+    if (!payload.jti) {
+      return false;
+    }
+
+    const revoked = await this.revokedTokenModel.findByPk(payload.jti, {
+      attributes: ['jti'],
+    });
+    return !!revoked;
+  }
+
+  /**
+   * Revokes a single token by its jti. Returns false when the token has no jti.
+   */
+  async revokeToken(
+    payload: JwtPayload,
+    revokedBy: string | null,
+    reason?: string | null
+  ): Promise<boolean> {
+    if (!payload.jti) {
+      return false;
+    }
+
+    await this.revokedTokenModel.upsert({
+      jti: payload.jti,
+      subject: payload.sub,
+      expires_at: new Date(payload.exp * 1000),
+      revoked_by: revokedBy,
+      reason: reason ?? null,
+    });
+
+    await this.purgeExpired();
+
+    return true;
+  }
+
+  /**
+   * Rejects every token issued to the user so far
+   */
+  async revokeAllForUser(userId: string, transaction?: Transaction): Promise<Date> {
+    const cutoff = this.nextCutoff();
+    await this.userModel.update(
+      { tokens_valid_after: cutoff },
+      { where: { id: userId }, transaction }
+    );
+
+    return cutoff;
+  }
+
+  /**
+   * Rejects every token issued to the users of a company so far.
+   * Returns the number of users whose cutoff was bumped.
+   */
+  async revokeAllForCompany(companyId: string, transaction?: Transaction): Promise<number> {
+    const [affectedCount] = await this.userModel.update(
+      { tokens_valid_after: this.nextCutoff() },
+      { where: { company_id: companyId }, transaction }
+    );
+
+    return affectedCount;
+  }
+
+  /**
+   * Deletes revoked tokens that have expired anyway
+   */
+  async purgeExpired(): Promise<number> {
+    try {
+      return await this.revokedTokenModel.destroy({
+        where: { expires_at: { [Op.lt]: new Date() } },
+      });
+    } catch (error) {
+      this.logger.warn(
+        `Failed to purge expired revoked tokens: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+      return 0;
+    }
+  }
+
+  /**
+   * iat has a resolution of one second, so the cutoff is rounded up to the next
+   * second. Tokens issued later in the current second are revoked as well.
+   */
+  private nextCutoff(): Date {
+    return new Date(Math.ceil(Date.now() / 1000) * 1000);
+  }
+}
@@ -174,7 +174,7 @@ describe('User Invitation Endpoints (e2e)', () => {
     userService = moduleFixture.get<UserService>(UserService);
 
     // Mock Auth0 methods
-    jest.spyOn(authService, 'createAuth0User').mockImplementation(mockAuth0CreateUser);
+    jest.spyOn(authService, 'createIdentityUser').mockImplementation(mockAuth0CreateUser);
     jest.spyOn(authService, 'sendPasswordResetEmail').mockImplementation(mockAuth0SendEmail);
   });
 
@@ -195,7 +195,7 @@ describe('User Invitation Endpoints (e2e)', () => {
     mockAuth0SendEmail.mockClear();
 
     // Set default successful responses
-    mockAuth0CreateUser.mockResolvedValue({ user_id: 'auth0|test123' });
+    mockAuth0CreateUser.mockResolvedValue({ userId: 'auth0|test123' });
     mockAuth0SendEmail.mockResolvedValue(undefined);
 
     // Ensure Acme company exists